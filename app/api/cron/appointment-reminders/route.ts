@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { sendDueReminders } from "@/lib/reminders";
+
+/** Cron endpoint to send due appointment reminders. Protected by CRON_SECRET Bearer token. */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sendDueReminders();
+
+    return NextResponse.json({
+      message: "Appointment reminders processed",
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error processing appointment reminders:", error);
+    return NextResponse.json({ error: "Failed to process appointment reminders" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { renewMemberships } from "@/lib/memberships";
+
+/** Cron endpoint to invoice membership renewals and close cancelled memberships. Protected by CRON_SECRET Bearer token. */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await renewMemberships();
+
+    return NextResponse.json({
+      message: "Membership billing processed",
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error processing membership billing:", error);
+    return NextResponse.json({ error: "Failed to process membership billing" }, { status: 500 });
+  }
+}
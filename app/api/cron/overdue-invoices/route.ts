@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { runOverdueInvoices } from "@/lib/receivables";
+
+/** Cron endpoint to mark invoices past their due date as overdue and email statements. Protected by CRON_SECRET Bearer token. */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runOverdueInvoices();
+
+    return NextResponse.json({
+      message: "Overdue invoices processed",
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error processing overdue invoices:", error);
+    return NextResponse.json({ error: "Failed to process overdue invoices" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { runStockAlerts } from "@/lib/stock-alerts";
+
+/** Cron endpoint to raise low-stock alerts and email them to owners and admins. Protected by CRON_SECRET Bearer token. */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runStockAlerts();
+
+    return NextResponse.json({
+      message: "Stock alerts processed",
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error processing stock alerts:", error);
+    return NextResponse.json({ error: "Failed to check stock levels" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { expireWaitlist } from "@/lib/waitlist";
+
+/** Cron endpoint to release lapsed waitlist holds and expire old entries. Protected by CRON_SECRET Bearer token. */
+export async function GET(request: Request) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await expireWaitlist();
+
+    return NextResponse.json({
+      message: "Waitlist offers processed",
+      ...result,
+    });
+  } catch (error) {
+    console.error("Error processing waitlist offers:", error);
+    return NextResponse.json({ error: "Failed to process waitlist offers" }, { status: 500 });
+  }
+}
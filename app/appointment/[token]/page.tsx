@@ -0,0 +1,37 @@
+import { getAppointmentByToken } from "@/lib/actions/appointment-link";
+import { ManageAppointment } from "@/components/booking/manage-appointment";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function ManageAppointmentPage({ params }: PageProps) {
+  const { token } = await params;
+  const result = await getAppointmentByToken(token);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10 p-4 sm:p-8">
+      <div className="mx-auto max-w-lg space-y-6">
+        {result.success ? (
+          <>
+            <div className="text-center">
+              <h1 className="text-3xl font-bold">{result.data.salonName}</h1>
+              <p className="text-muted-foreground">Manage your appointment</p>
+            </div>
+            <ManageAppointment token={token} appointment={result.data} />
+          </>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center space-y-2">
+              <p className="font-medium">{result.error}</p>
+              <p className="text-sm text-muted-foreground">
+                Please contact the salon if you need to change your appointment.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,43 @@
+import { notFound } from "next/navigation";
+import { getPublicBookingInfo } from "@/lib/actions/booking";
+import { BookingFlow } from "@/components/booking/booking-flow";
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export default async function BookingPage({ params }: PageProps) {
+  const { slug } = await params;
+  const result = await getPublicBookingInfo(slug);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  const { salon } = result.data;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10 p-4 sm:p-8">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <div className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="h-12 w-12 rounded-full bg-primary flex items-center justify-center">
+              <span className="text-2xl font-bold text-primary-foreground">
+                {salon.name.charAt(0).toUpperCase()}
+              </span>
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold">{salon.name}</h1>
+          <p className="text-muted-foreground">Book an appointment online</p>
+          {(salon.address || salon.phone) && (
+            <p className="text-sm text-muted-foreground mt-1">
+              {[salon.address, salon.phone].filter(Boolean).join(" · ")}
+            </p>
+          )}
+        </div>
+
+        <BookingFlow info={result.data} />
+      </div>
+    </main>
+  );
+}
@@ -59,6 +59,8 @@ export default async function NewAppointmentPage({ searchParams }: PageProps) {
         duration: true,
         price: true,
         category: true,
+        depositType: true,
+        depositValue: true,
       },
       orderBy: { name: "asc" },
     }),
@@ -103,6 +105,7 @@ export default async function NewAppointmentPage({ searchParams }: PageProps) {
           services={services.map((s) => ({
             ...s,
             price: Number(s.price),
+            depositValue: s.depositValue === null ? null : Number(s.depositValue),
           }))}
           staff={staff}
           initialDate={initialDate}
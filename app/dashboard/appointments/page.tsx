@@ -24,6 +24,7 @@ export default async function AppointmentsPage() {
   const userRole = (session.user.salonRole ?? null) as Role | null;
   const isSuperAdmin = session.user.isSuperAdmin === true;
   const canManage = hasPermission(userRole, "appointments:create", isSuperAdmin);
+  const canCheckout = hasPermission(userRole, "sales:create", isSuperAdmin);
 
   // Get settings first to determine timezone, then compute week range
   const settingsResult = await getSettings();
@@ -66,6 +67,7 @@ export default async function AppointmentsPage() {
           <AppointmentCalendar
             initialAppointments={appointments}
             canManage={canManage}
+            canCheckout={canCheckout}
             businessHoursStart={settings.businessHoursStart}
             businessHoursEnd={settings.businessHoursEnd}
             timezone={settings.timezone}
@@ -0,0 +1,65 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { CashDrawerPanel } from "@/components/cash-drawer/cash-drawer-panel";
+import { hasPermission } from "@/lib/permissions";
+import { getCashDrawer } from "@/lib/actions/cash-drawer";
+import { getSettings } from "@/lib/actions/settings";
+
+export default async function CashDrawerPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "cash-drawer:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+  const canOperate = hasPermission(userRole, "cash-drawer:operate", isSuperAdmin);
+
+  if (!session.user.salonId) {
+    redirect("/dashboard");
+  }
+
+  const [drawerResult, settingsResult] = await Promise.all([getCashDrawer(), getSettings()]);
+
+  const settings = settingsResult.success ? settingsResult.data : {
+    currencyCode: "USD",
+    timezone: "UTC",
+  };
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Cash Drawer</h1>
+          <p className="text-muted-foreground">
+            Open the till with a float, record petty cash, and count it out at the end of the day
+          </p>
+        </div>
+
+        {drawerResult.success ? (
+          <CashDrawerPanel
+            current={drawerResult.data.current}
+            sessions={drawerResult.data.sessions}
+            canOperate={canOperate}
+            currencyCode={settings.currencyCode}
+            timezone={settings.timezone}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{drawerResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
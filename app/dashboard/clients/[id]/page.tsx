@@ -13,6 +13,7 @@ import {
   DollarSign,
   AlertTriangle,
   Heart,
+  Layers,
 } from "lucide-react";
 import Link from "next/link";
 import { formatInTz } from "@/lib/utils/timezone";
@@ -24,11 +25,18 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { getClient } from "@/lib/actions/client";
 import { getSettings } from "@/lib/actions/settings";
+import { getClientPackages } from "@/lib/actions/service-package";
+import { getClientMemberships, getMembershipPlans } from "@/lib/actions/membership";
+import { getClientAccount } from "@/lib/actions/receivables";
+import { isClientPackageUsable } from "@/lib/utils/package";
 import { hasPermission } from "@/lib/permissions";
 import { calculateTier, getNextTier, getPointsToNextTier, getTierProgress } from "@/lib/utils/loyalty";
 import { Progress } from "@/components/ui/progress";
 import { RecurringSeriesCard } from "@/components/clients/recurring-series-card";
 import { LoyaltyDashboard } from "@/components/clients/loyalty-dashboard";
+import { MembershipCard } from "@/components/clients/membership-card";
+import { AccountBalanceCard } from "@/components/clients/account-balance-card";
+import { MembershipStatusBadge } from "@/components/memberships/membership-status-badge";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -54,10 +62,16 @@ export default async function ClientDetailPage({ params }: PageProps) {
   const userRole = (session.user.salonRole ?? null) as Role | null;
   const isSuperAdmin = session.user.isSuperAdmin === true;
   const canEdit = hasPermission(userRole, "clients:update", isSuperAdmin);
+  const canSellMemberships = hasPermission(userRole, "memberships:sell", isSuperAdmin);
+  const canViewInvoices = hasPermission(userRole, "invoices:view", isSuperAdmin);
 
-  const [result, settingsResult] = await Promise.all([
+  const [result, settingsResult, packagesResult, membershipsResult, plansResult, accountResult] = await Promise.all([
     getClient(id),
     getSettings(),
+    getClientPackages(id),
+    getClientMemberships(id),
+    canSellMemberships ? getMembershipPlans() : null,
+    canViewInvoices ? getClientAccount(id) : null,
   ]);
 
   if (!result.success || !result.data) {
@@ -72,6 +86,11 @@ export default async function ClientDetailPage({ params }: PageProps) {
     goldThreshold: settings?.goldThreshold ?? 500,
     platinumThreshold: settings?.platinumThreshold ?? 1000,
   };
+  const packages = packagesResult.success ? packagesResult.data : [];
+  const memberships = membershipsResult.success ? membershipsResult.data : [];
+  const membershipPlans = plansResult?.success ? plansResult.data : [];
+  const currentMembership = memberships.find((m) => m.status !== "CANCELLED");
+  const account = accountResult?.success ? accountResult.data : null;
   const initials = `${client.firstName[0]}${client.lastName?.[0] || ""}`.toUpperCase();
 
   return (
@@ -101,6 +120,13 @@ export default async function ClientDetailPage({ params }: PageProps) {
                     Walk-in
                   </Badge>
                 )}
+                {currentMembership && (
+                  <MembershipStatusBadge
+                    status={currentMembership.status}
+                    cancelAtPeriodEnd={currentMembership.cancelAtPeriodEnd}
+                    className="text-xs"
+                  />
+                )}
               </div>
               <div className="flex items-center gap-4 text-muted-foreground mt-1">
                 {client.phone ? (
@@ -250,6 +276,85 @@ export default async function ClientDetailPage({ params }: PageProps) {
           <RecurringSeriesCard series={client.recurringSeries} clientId={client.id} canManage={canEdit} timezone={tz} />
         )}
 
+        {/* Account Balance */}
+        {account && account.invoices.length > 0 && (
+          <AccountBalanceCard
+            clientId={client.id}
+            account={account}
+            hasEmail={!!client.email}
+            currencyCode={settings?.currencyCode ?? "USD"}
+          />
+        )}
+
+        {/* Membership */}
+        <MembershipCard
+          clientId={client.id}
+          memberships={memberships}
+          plans={membershipPlans}
+          canSell={canSellMemberships}
+          currencyCode={settings?.currencyCode ?? "USD"}
+          timezone={tz}
+        />
+
+        {/* Prepaid Packages */}
+        {packages.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="h-5 w-5" />
+                Packages
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {packages.map((pkg) => {
+                  const usedUp = pkg.items.every((item) => item.sessionsRemaining === 0);
+                  return (
+                    <div key={pkg.id} className="border-b pb-3 last:border-0">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{pkg.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            Bought {formatInTz(pkg.createdAt, "MMM d, yyyy", tz)}
+                            {pkg.expiresAt && ` · Expires ${formatInTz(pkg.expiresAt, "MMM d, yyyy", tz)}`}
+                          </p>
+                        </div>
+                        <Badge
+                          variant={
+                            pkg.status === "VOIDED"
+                              ? "destructive"
+                              : !isClientPackageUsable(pkg) || usedUp
+                              ? "secondary"
+                              : "success"
+                          }
+                        >
+                          {pkg.status === "VOIDED"
+                            ? "Voided"
+                            : !isClientPackageUsable(pkg)
+                            ? "Expired"
+                            : usedUp
+                            ? "Used up"
+                            : "Active"}
+                        </Badge>
+                      </div>
+                      <div className="mt-2 space-y-1">
+                        {pkg.items.map((item) => (
+                          <div key={item.id} className="flex items-center justify-between text-sm">
+                            <span>{item.service.name}</span>
+                            <span className="text-muted-foreground">
+                              {item.sessionsRemaining} of {item.sessionsTotal} left
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid gap-6 lg:grid-cols-2">
           {/* Client Information */}
           <Card>
@@ -391,7 +496,7 @@ export default async function ClientDetailPage({ params }: PageProps) {
                   >
                     <div>
                       <p className="font-medium">
-                        {sale.items.map((item) => item.service?.name || item.product?.name || "Unknown").join(", ")}
+                        {sale.items.map((item) => item.service?.name || item.product?.name || item.description || "Unknown").join(", ")}
                       </p>
                       <p className="text-sm text-muted-foreground">
                         {formatInTz(sale.createdAt, "MMM d, yyyy", tz)}
@@ -399,9 +504,9 @@ export default async function ClientDetailPage({ params }: PageProps) {
                     </div>
                     <div className="text-right">
                       <p className="font-bold">${Number(sale.finalAmount).toFixed(2)}</p>
-                      {Number(sale.discount) > 0 && (
+                      {Number(sale.discount) + Number(sale.memberDiscount) + Number(sale.promotionDiscount) > 0 && (
                         <p className="text-xs text-green-600">
-                          -${Number(sale.discount).toFixed(2)} discount
+                          -${(Number(sale.discount) + Number(sale.memberDiscount) + Number(sale.promotionDiscount)).toFixed(2)} discount
                         </p>
                       )}
                     </div>
@@ -0,0 +1,60 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { GiftCardsPanel } from "@/components/gift-cards/gift-cards-panel";
+import { hasPermission } from "@/lib/permissions";
+import { getGiftCards } from "@/lib/actions/gift-card";
+import { getSettings } from "@/lib/actions/settings";
+
+export default async function GiftCardsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "giftcards:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+  const canManage = hasPermission(userRole, "giftcards:manage", isSuperAdmin);
+
+  const [cardsResult, settingsResult] = await Promise.all([getGiftCards(), getSettings()]);
+
+  const settings = settingsResult.success ? settingsResult.data : {
+    currencyCode: "USD",
+    timezone: "UTC",
+  };
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Gift Cards</h1>
+          <p className="text-muted-foreground">
+            Balances and history for gift cards sold at checkout
+          </p>
+        </div>
+
+        {cardsResult.success ? (
+          <GiftCardsPanel
+            cards={cardsResult.data}
+            canManage={canManage}
+            currencyCode={settings.currencyCode}
+            timezone={settings.timezone}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{cardsResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
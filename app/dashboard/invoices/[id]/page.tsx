@@ -0,0 +1,389 @@
+import { auth } from "@/lib/auth";
+import { redirect, notFound } from "next/navigation";
+import { Role } from "@prisma/client";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Ban,
+  CheckCircle2,
+  FileText,
+  History,
+  RotateCcw,
+  User,
+  Wallet,
+} from "lucide-react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getInvoice } from "@/lib/actions/invoice";
+import { getSettings } from "@/lib/actions/settings";
+import { hasPermission } from "@/lib/permissions";
+import { InvoiceStatusBadge } from "@/components/invoices/invoice-status-badge";
+import { InvoiceExportButton } from "@/components/invoices/invoice-export-button";
+import { CancelInvoiceButton } from "@/components/invoices/cancel-invoice-button";
+import { RecordPaymentDialog } from "@/components/sales/record-payment-dialog";
+import { EmailInvoiceButton } from "@/components/sales/email-receipt-button";
+import { PAYMENT_METHOD_LABELS } from "@/lib/constants/payment-methods";
+import { REFUND_METHOD_LABELS } from "@/lib/utils/refund";
+import { invoiceBalance, isInvoiceCancellable } from "@/lib/utils/receivables";
+import { taxLineLabel } from "@/lib/utils/tax";
+import { invoiceTaxLines } from "@/lib/taxes";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+
+type TimelineEvent = {
+  id: string;
+  at: Date;
+  kind: "issued" | "payment" | "paid" | "refund" | "refunded" | "cancelled";
+  title: string;
+  detail?: string;
+  amount?: number;
+};
+
+const TIMELINE_ICONS = {
+  issued: { icon: FileText, className: "bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400" },
+  payment: { icon: Wallet, className: "bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400" },
+  paid: { icon: CheckCircle2, className: "bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400" },
+  refund: { icon: RotateCcw, className: "bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400" },
+  refunded: { icon: RotateCcw, className: "bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400" },
+  cancelled: { icon: Ban, className: "bg-muted text-muted-foreground" },
+} as const;
+
+export default async function InvoiceDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "invoices:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+
+  const { id } = await params;
+  const [invoiceResult, settingsResult] = await Promise.all([
+    getInvoice(id),
+    getSettings(),
+  ]);
+
+  if (!invoiceResult.success) {
+    notFound();
+  }
+
+  const invoice = invoiceResult.data;
+  const settings = settingsResult.success ? settingsResult.data : {
+    currencyCode: "USD",
+    timezone: "UTC",
+  };
+  const tz = settings.timezone;
+  const currencyCode = settings.currencyCode;
+
+  const total = Number(invoice.total);
+  const tip = Number(invoice.tip);
+  const discount = Number(invoice.sale.discount) + Number(invoice.sale.memberDiscount) + Number(invoice.sale.promotionDiscount);
+  const taxLines = invoiceTaxLines(invoice.taxes);
+  const amountPaid = invoice.payments.reduce((sum, p) => sum + Number(p.amount), 0);
+  const totalRefunded = invoice.refunds.reduce((sum, r) => sum + Number(r.amount), 0);
+  const isOpen = invoice.status === "PENDING" || invoice.status === "OVERDUE";
+  const balanceDue = isOpen ? invoiceBalance(total + tip, amountPaid) : 0;
+
+  // Invoices from another branch are read-only here; changes are made from that branch
+  const isOtherBranch = invoice.salonId !== session.user.salonId;
+  const canRecordPayment = !isOtherBranch && isOpen && balanceDue > 0 &&
+    hasPermission(userRole, "invoices:update", isSuperAdmin);
+  const canCancel = !isOtherBranch && isOpen && hasPermission(userRole, "invoices:delete", isSuperAdmin) &&
+    isInvoiceCancellable({ paymentCount: invoice.payments.length, items: invoice.sale.items });
+
+  // Everything that has happened to the invoice, oldest first
+  const timeline: TimelineEvent[] = [
+    {
+      id: "issued",
+      at: invoice.issuedAt,
+      kind: "issued",
+      title: "Invoice issued",
+      detail: invoice.dueDate ? `Due ${formatDateOnly(invoice.dueDate, "MMM d, yyyy")}` : undefined,
+      amount: total,
+    },
+    ...invoice.payments.map((payment): TimelineEvent => ({
+      id: payment.id,
+      at: payment.paidAt,
+      kind: "payment",
+      title: "Payment received",
+      detail: PAYMENT_METHOD_LABELS[payment.method] ?? payment.method,
+      amount: Number(payment.amount),
+    })),
+    ...invoice.refunds.map((refund): TimelineEvent => ({
+      id: refund.id,
+      at: refund.createdAt,
+      kind: "refund",
+      title: "Refund issued",
+      detail: [
+        REFUND_METHOD_LABELS[refund.method],
+        `by ${refund.refundedBy.firstName} ${refund.refundedBy.lastName}`,
+        refund.reason,
+      ].filter(Boolean).join(" · "),
+      amount: -Number(refund.amount),
+    })),
+  ];
+  if (invoice.paidAt) {
+    timeline.push({ id: "paid", at: invoice.paidAt, kind: "paid", title: "Paid in full" });
+  }
+  if (invoice.refundedAt) {
+    timeline.push({ id: "refunded", at: invoice.refundedAt, kind: "refunded", title: "Fully refunded" });
+  }
+  if (invoice.status === "CANCELLED") {
+    timeline.push({ id: "cancelled", at: invoice.updatedAt, kind: "cancelled", title: "Invoice cancelled" });
+  }
+  timeline.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const itemName = (item: (typeof invoice.sale.items)[number]) =>
+    item.service?.name || item.product?.name || item.description || "Unknown";
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/dashboard/invoices">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold flex items-center gap-3">
+                <span className="font-mono">{invoice.invoiceNumber}</span>
+                <InvoiceStatusBadge status={invoice.status} />
+              </h1>
+              <p className="text-muted-foreground">
+                {isOtherBranch && `${invoice.salon.name} · `}
+                <Link href={`/dashboard/sales/${invoice.saleId}`} className="text-primary hover:underline">
+                  View sale
+                </Link>
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {canRecordPayment && (
+              <RecordPaymentDialog
+                invoiceId={invoice.id}
+                invoiceNumber={invoice.invoiceNumber}
+                balanceDue={balanceDue}
+                currencyCode={currencyCode}
+              />
+            )}
+            {!isOtherBranch && (
+              <EmailInvoiceButton
+                saleId={invoice.saleId}
+                clientEmail={invoice.client.email}
+              />
+            )}
+            <InvoiceExportButton invoiceIds={[invoice.id]} />
+            {canCancel && (
+              <CancelInvoiceButton invoiceId={invoice.id} invoiceNumber={invoice.invoiceNumber} />
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Main Content */}
+          <div className="lg:col-span-2 space-y-6">
+            {/* Items */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Items</CardTitle>
+                <CardDescription>{invoice.sale.items.length} items</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Staff</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-center">Qty</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invoice.sale.items.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell className="font-medium">{itemName(item)}</TableCell>
+                        <TableCell>
+                          {item.staff ? `${item.staff.firstName} ${item.staff.lastName}` : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(Number(item.price), currencyCode)}
+                        </TableCell>
+                        <TableCell className="text-center">{item.quantity}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(Number(item.price) * item.quantity, currencyCode)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Timeline */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Activity
+                </CardTitle>
+                <CardDescription>Payments and refunds on this invoice</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ol className="space-y-4">
+                  {timeline.map((event) => {
+                    const { icon: Icon, className } = TIMELINE_ICONS[event.kind];
+                    return (
+                      <li key={event.id} className="flex items-start gap-3">
+                        <div className={`rounded-full p-2 ${className}`}>
+                          <Icon className="h-4 w-4" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium">{event.title}</p>
+                            {event.amount !== undefined && (
+                              <span className={event.amount < 0 ? "font-medium text-red-600" : "font-medium"}>
+                                {event.amount < 0 && "-"}
+                                {formatCurrency(Math.abs(event.amount), currencyCode)}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {formatInTz(event.at, "MMM d, yyyy h:mm a", tz)}
+                            {event.detail && ` · ${event.detail}`}
+                          </p>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            {/* Client */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <User className="h-5 w-5" />
+                  Client
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                <Link href={`/dashboard/clients/${invoice.client.id}`} className="font-medium hover:underline">
+                  {invoice.client.firstName} {invoice.client.lastName}
+                </Link>
+                {invoice.client.phone && (
+                  <p className="text-sm text-muted-foreground">{invoice.client.phone}</p>
+                )}
+                {invoice.client.email && (
+                  <p className="text-sm text-muted-foreground">{invoice.client.email}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Summary */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Issued</span>
+                  <span>{formatInTz(invoice.issuedAt, "MMM d, yyyy", tz)}</span>
+                </div>
+                {invoice.dueDate && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Due Date</span>
+                    <span className={invoice.status === "OVERDUE" ? "font-medium text-red-600" : undefined}>
+                      {formatDateOnly(invoice.dueDate, "MMM d, yyyy")}
+                    </span>
+                  </div>
+                )}
+                <Separator />
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span>{formatCurrency(Number(invoice.sale.totalAmount), currencyCode)}</span>
+                </div>
+                {discount > 0 && (
+                  <div className="flex justify-between items-center text-green-600">
+                    <span>Discount</span>
+                    <span>-{formatCurrency(discount, currencyCode)}</span>
+                  </div>
+                )}
+                {taxLines.map((line) => (
+                  <div key={`${line.name}-${line.rate}-${line.inclusive}`} className="flex justify-between items-center">
+                    <span className="text-muted-foreground">{taxLineLabel(line)}</span>
+                    <span>{formatCurrency(line.amount, currencyCode)}</span>
+                  </div>
+                ))}
+                {taxLines.length === 0 && Number(invoice.tax) > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Tax</span>
+                    <span>{formatCurrency(Number(invoice.tax), currencyCode)}</span>
+                  </div>
+                )}
+                <Separator />
+                <div className="flex justify-between items-center text-lg font-bold">
+                  <span>Total</span>
+                  <span className="text-purple-600">{formatCurrency(total, currencyCode)}</span>
+                </div>
+                {tip > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Tip</span>
+                    <span>{formatCurrency(tip, currencyCode)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Paid</span>
+                  <span>{formatCurrency(amountPaid, currencyCode)}</span>
+                </div>
+                {totalRefunded > 0 && (
+                  <div className="flex justify-between items-center text-red-600">
+                    <span>Refunded</span>
+                    <span>-{formatCurrency(totalRefunded, currencyCode)}</span>
+                  </div>
+                )}
+                {isOpen && (
+                  <div className="flex justify-between items-center font-medium">
+                    <span>Balance Due</span>
+                    <span className={balanceDue > 0 ? "text-red-600" : undefined}>
+                      {formatCurrency(balanceDue, currencyCode)}
+                    </span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
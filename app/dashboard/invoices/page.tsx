@@ -0,0 +1,127 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { InvoiceStatus, Role } from "@prisma/client";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { BranchFilter } from "@/components/dashboard/branch-filter";
+import { InvoicesTable } from "@/components/invoices/invoices-table";
+import { getInvoices, getInvoiceStats } from "@/lib/actions/invoice";
+import { getClient } from "@/lib/actions/client";
+import { getSettings } from "@/lib/actions/settings";
+import { getBranches } from "@/lib/actions/branch";
+import { hasPermission } from "@/lib/permissions";
+
+const PAGE_SIZE = 20;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default async function InvoicesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{
+    page?: string;
+    q?: string;
+    status?: string;
+    from?: string;
+    to?: string;
+    client?: string;
+    branch?: string;
+  }>;
+}) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+  const isOwner = userRole === "OWNER" || isSuperAdmin;
+
+  if (!hasPermission(userRole, "invoices:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+
+  const params = await searchParams;
+  const page = params.page ? parseInt(params.page) || 1 : 1;
+  const branchFilter = isOwner && params.branch === "all" ? "all" as const : "current" as const;
+  const status = Object.values(InvoiceStatus).find((s) => s === params.status);
+  const from = params.from && DATE_PATTERN.test(params.from) ? params.from : undefined;
+  const to = params.to && DATE_PATTERN.test(params.to) ? params.to : undefined;
+
+  const [invoicesResult, statsResult, settingsResult, branchesResult, clientResult] = await Promise.all([
+    getInvoices({
+      query: params.q || undefined,
+      status,
+      startDate: from,
+      endDate: to,
+      clientId: params.client || undefined,
+      branchFilter,
+      page,
+      limit: PAGE_SIZE,
+    }),
+    getInvoiceStats({ branchFilter }),
+    getSettings(),
+    isOwner ? getBranches() : Promise.resolve(null),
+    params.client ? getClient(params.client) : Promise.resolve(null),
+  ]);
+
+  const hasMultipleBranches = branchesResult?.success && branchesResult.data.length > 1;
+  const currentSalonName = branchesResult?.success
+    ? branchesResult.data.find((b) => b.id === session.user.salonId)?.name
+    : undefined;
+
+  const settings = settingsResult.success ? settingsResult.data : {
+    currencyCode: "USD",
+    timezone: "UTC",
+  };
+  const client = clientResult?.success ? clientResult.data : null;
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Invoices</h1>
+            <p className="text-muted-foreground">
+              Track what has been billed, paid and refunded
+            </p>
+          </div>
+          {hasMultipleBranches && (
+            <BranchFilter
+              currentFilter={branchFilter}
+              currentSalonName={currentSalonName}
+            />
+          )}
+        </div>
+
+        {invoicesResult.success ? (
+          <InvoicesTable
+            invoices={invoicesResult.data.invoices}
+            total={invoicesResult.data.total}
+            page={invoicesResult.data.page}
+            totalPages={invoicesResult.data.totalPages}
+            pageSize={PAGE_SIZE}
+            stats={statsResult.success ? statsResult.data : null}
+            filters={{
+              query: params.q,
+              status,
+              from,
+              to,
+              clientId: params.client,
+            }}
+            clientName={client ? `${client.firstName} ${client.lastName ?? ""}`.trim() : undefined}
+            showBranch={branchFilter === "all"}
+            currencyCode={settings.currencyCode}
+            timezone={settings.timezone}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{invoicesResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,95 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { MembershipPlansPanel } from "@/components/memberships/membership-plans-panel";
+import { MembersPanel } from "@/components/memberships/members-panel";
+import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { getOrganizationSalonIds } from "@/lib/actions/branch";
+import { getMembershipPlans, getMemberships } from "@/lib/actions/membership";
+import { getSettings } from "@/lib/actions/settings";
+
+export default async function MembershipsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "memberships:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+  const canManage = hasPermission(userRole, "memberships:manage", isSuperAdmin);
+  const canSell = hasPermission(userRole, "memberships:sell", isSuperAdmin);
+
+  const salonId = session.user.salonId;
+  if (!salonId) {
+    redirect("/dashboard");
+  }
+
+  const orgSalonIds = await getOrganizationSalonIds(salonId);
+  const [plansResult, membershipsResult, services, settingsResult] = await Promise.all([
+    getMembershipPlans({ includeInactive: canManage }),
+    getMemberships(),
+    canManage
+      ? prisma.service.findMany({
+          where: { salonId: { in: orgSalonIds }, isActive: true },
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        })
+      : [],
+    getSettings(),
+  ]);
+
+  const settings = settingsResult.success ? settingsResult.data : {
+    currencyCode: "USD",
+    timezone: "UTC",
+  };
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Memberships</h1>
+          <p className="text-muted-foreground">
+            Recurring plans with included services and member pricing
+          </p>
+        </div>
+
+        {plansResult.success ? (
+          <MembershipPlansPanel
+            plans={plansResult.data}
+            services={services}
+            canManage={canManage}
+            currencyCode={settings.currencyCode}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{plansResult.error}</p>
+          </div>
+        )}
+
+        {membershipsResult.success ? (
+          <MembersPanel
+            memberships={membershipsResult.data}
+            canSell={canSell}
+            canRunBilling={canManage}
+            currencyCode={settings.currencyCode}
+            timezone={settings.timezone}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{membershipsResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -100,11 +100,12 @@ export default async function PayrollRunDetailPage({ params }: PageProps) {
             status={run.status}
             canManage={canManage}
             canPay={canPay}
+            currencyCode={currencyCode}
           />
         </div>
 
         {/* Summary Cards */}
-        <div className="grid gap-4 md:grid-cols-4">
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-muted-foreground">Base Pay</CardTitle>
@@ -113,6 +114,22 @@ export default async function PayrollRunDetailPage({ params }: PageProps) {
               <p className="text-2xl font-bold">{formatCurrency(Number(run.totalBasePay), currencyCode)}</p>
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Commission</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{formatCurrency(Number(run.totalCommission), currencyCode)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Tips</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{formatCurrency(Number(run.totalTips), currencyCode)}</p>
+            </CardContent>
+          </Card>
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-muted-foreground">Bonuses</CardTitle>
@@ -174,6 +191,7 @@ export default async function PayrollRunDetailPage({ params }: PageProps) {
             entries={run.entries}
             runStatus={run.status}
             currencyCode={currencyCode}
+            timezone={timezone}
           />
         </div>
       </div>
@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { CheckCircle, DollarSign, XCircle, Loader2 } from "lucide-react";
+import { CheckCircle, DollarSign, XCircle, Loader2, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
@@ -17,7 +17,13 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import { finalizePayrollRun, markPayrollRunPaid, cancelPayrollRun } from "@/lib/actions/payroll";
+import {
+  finalizePayrollRun,
+  markPayrollRunPaid,
+  cancelPayrollRun,
+  recalculatePayrollCommissions,
+} from "@/lib/actions/payroll";
+import { formatCurrency } from "@/lib/utils/currency";
 import { PayrollRunStatus } from "@prisma/client";
 
 interface PayrollRunActionsProps {
@@ -25,9 +31,10 @@ interface PayrollRunActionsProps {
   status: PayrollRunStatus;
   canManage: boolean;
   canPay: boolean;
+  currencyCode: string;
 }
 
-export function PayrollRunActions({ runId, status, canManage, canPay }: PayrollRunActionsProps) {
+export function PayrollRunActions({ runId, status, canManage, canPay, currencyCode }: PayrollRunActionsProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [showFinalizeDialog, setShowFinalizeDialog] = useState(false);
@@ -54,6 +61,25 @@ export function PayrollRunActions({ runId, status, canManage, canPay }: PayrollR
     }
   };
 
+  const handleRecalculate = async () => {
+    setIsLoading(true);
+    try {
+      const result = await recalculatePayrollCommissions(runId);
+      if (result.success) {
+        toast.success(
+          `Recalculated: ${formatCurrency(result.data.totalCommission, currencyCode)} commission, ${formatCurrency(result.data.totalTips, currencyCode)} tips`
+        );
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("Failed to recalculate commission and tips");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handlePay = async (e: React.MouseEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -101,6 +127,10 @@ export function PayrollRunActions({ runId, status, canManage, canPay }: PayrollR
               <CheckCircle className="mr-2 h-4 w-4" />
               Finalize
             </Button>
+            <Button variant="outline" onClick={handleRecalculate} disabled={isLoading}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Recalculate Commission &amp; Tips
+            </Button>
             <Button
               variant="outline"
               onClick={() => setShowCancelDialog(true)}
@@ -0,0 +1,94 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { CommissionPlansPanel } from "@/components/payroll/commission-plans-panel";
+import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { getOrganizationSalonIds } from "@/lib/actions/branch";
+import { getCommissionPlans } from "@/lib/actions/commission";
+import { getSettings } from "@/lib/actions/settings";
+
+export default async function CommissionPlansPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+  if (!hasPermission(userRole, "commissions:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+
+  const canManage = hasPermission(userRole, "commissions:manage", isSuperAdmin);
+
+  const salonId = session.user.salonId;
+  if (!salonId) {
+    redirect("/dashboard");
+  }
+
+  const orgSalonIds = await getOrganizationSalonIds(salonId);
+  const [result, services, staff, settingsResult] = await Promise.all([
+    getCommissionPlans(),
+    canManage
+      ? prisma.service.findMany({
+          where: { salonId: { in: orgSalonIds }, isActive: true },
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        })
+      : [],
+    canManage
+      ? prisma.userSalon.findMany({
+          where: { salonId, isActive: true },
+          select: { userId: true, user: { select: { firstName: true, lastName: true } } },
+          orderBy: { user: { firstName: "asc" } },
+        })
+      : [],
+    getSettings(),
+  ]);
+
+  const currencyCode = settingsResult.success ? settingsResult.data.currencyCode : "USD";
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard/payroll">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back to payroll</span>
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Commission Plans</h1>
+            <p className="text-muted-foreground">
+              Service and retail commission rates, revenue tiers and per-service overrides
+            </p>
+          </div>
+        </div>
+
+        {result.success ? (
+          <CommissionPlansPanel
+            plans={result.data}
+            services={services}
+            staff={staff.map((s) => ({ id: s.userId, name: `${s.user.firstName} ${s.user.lastName}` }))}
+            canManage={canManage}
+            currencyCode={currencyCode}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{result.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
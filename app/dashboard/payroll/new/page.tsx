@@ -6,6 +6,7 @@ import Link from "next/link";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { PayrollRunForm } from "@/components/payroll/payroll-run-form";
+import { getSettings } from "@/lib/actions/settings";
 import { hasPermission } from "@/lib/permissions";
 
 export default async function NewPayrollRunPage() {
@@ -24,6 +25,9 @@ export default async function NewPayrollRunPage() {
     redirect("/dashboard/access-denied");
   }
 
+  const settingsResult = await getSettings();
+  const currencyCode = settingsResult.success ? settingsResult.data.currencyCode : "USD";
+
   return (
     <DashboardLayout userRole={userRole}>
       <div className="space-y-6">
@@ -42,7 +46,7 @@ export default async function NewPayrollRunPage() {
           </div>
         </div>
 
-        <PayrollRunForm />
+        <PayrollRunForm currencyCode={currencyCode} />
       </div>
     </DashboardLayout>
   );
@@ -1,7 +1,7 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { Role } from "@prisma/client";
-import { Plus, Settings2 } from "lucide-react";
+import { Percent, Plus, Settings2 } from "lucide-react";
 import Link from "next/link";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
@@ -41,6 +41,7 @@ export default async function PayrollPage({ searchParams }: PageProps) {
 
   const canManage = hasPermission(userRole, "payroll:manage", isSuperAdmin);
   const canDelete = hasPermission(userRole, "payroll:delete", isSuperAdmin);
+  const canViewCommissions = hasPermission(userRole, "commissions:view", isSuperAdmin);
 
   const page = parseInt(params.page || "1", 10);
   const status = params.status as PayrollRunStatus | undefined;
@@ -96,6 +97,14 @@ export default async function PayrollPage({ searchParams }: PageProps) {
                 Salary Config
               </Link>
             </Button>
+            {canViewCommissions && (
+              <Button variant="outline" asChild>
+                <Link href="/dashboard/payroll/commissions">
+                  <Percent className="mr-2 h-4 w-4" />
+                  Commission Plans
+                </Link>
+              </Button>
+            )}
             {canManage && (
               <Button asChild>
                 <Link href="/dashboard/payroll/new">
@@ -8,6 +8,8 @@ import { Button } from "@/components/ui/button";
 import { ProductForm } from "@/components/products/product-form";
 import { getProduct, getAllProductCategories } from "@/lib/actions/product";
 import { getSettings } from "@/lib/actions/settings";
+import { getTaxClasses } from "@/lib/actions/tax-class";
+import { getActiveSuppliers } from "@/lib/actions/supplier";
 import { hasPermission } from "@/lib/permissions";
 
 interface PageProps {
@@ -33,10 +35,12 @@ export default async function EditProductPage({ params }: PageProps) {
     redirect("/dashboard/access-denied");
   }
 
-  const [productResult, categoriesResult, settingsResult] = await Promise.all([
+  const [productResult, categoriesResult, settingsResult, taxClassesResult, suppliersResult] = await Promise.all([
     getProduct(id),
     getAllProductCategories(),
     getSettings(),
+    getTaxClasses(),
+    getActiveSuppliers(),
   ]);
 
   if (!productResult.success || !productResult.data) {
@@ -46,6 +50,12 @@ export default async function EditProductPage({ params }: PageProps) {
   const product = productResult.data;
   const categories = categoriesResult.success ? categoriesResult.data : [];
   const currencyCode = settingsResult.success ? settingsResult.data.currencyCode : "USD";
+  const taxClasses = taxClassesResult.success ? taxClassesResult.data : [];
+  const suppliers = suppliersResult.success ? suppliersResult.data : [];
+  // Keep a deactivated supplier selectable on a product that still uses it
+  if (product.supplier && !suppliers.some((s) => s.id === product.supplier!.id)) {
+    suppliers.push({ id: product.supplier.id, name: `${product.supplier.name} (inactive)`, leadTimeDays: null });
+  }
 
   return (
     <DashboardLayout userRole={userRole}>
@@ -78,8 +88,12 @@ export default async function EditProductPage({ params }: PageProps) {
             points: product.points,
             category: product.category,
             isActive: product.isActive,
+            taxClassId: product.taxClassId,
+            supplierId: product.supplierId,
           }}
           categories={categories}
+          taxClasses={taxClasses}
+          suppliers={suppliers}
           currencyCode={currencyCode}
         />
       </div>
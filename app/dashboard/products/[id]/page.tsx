@@ -0,0 +1,160 @@
+import { auth } from "@/lib/auth";
+import { redirect, notFound } from "next/navigation";
+import { Role } from "@prisma/client";
+import { AlertTriangle, ArrowLeft, Banknote, Edit, Package, ShoppingBag } from "lucide-react";
+import Link from "next/link";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AdjustStockDialog } from "@/components/products/adjust-stock-dialog";
+import { StockMovementsTable } from "@/components/products/stock-movements-table";
+import { getProduct } from "@/lib/actions/product";
+import { getStockMovements } from "@/lib/actions/stock";
+import { getSettings } from "@/lib/actions/settings";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatRecipeQuantity } from "@/lib/utils/service-recipe";
+import { hasPermission } from "@/lib/permissions";
+
+const PAGE_SIZE = 25;
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ page?: string }>;
+}
+
+export default async function ProductPage({ params, searchParams }: PageProps) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+  const { page: pageParam } = await searchParams;
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "products:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+
+  const canManage = hasPermission(userRole, "products:manage", isSuperAdmin);
+  const page = parseInt(pageParam || "1", 10) || 1;
+
+  const [productResult, movementsResult, settingsResult] = await Promise.all([
+    getProduct(id),
+    getStockMovements({ productId: id, page, limit: PAGE_SIZE }),
+    getSettings(),
+  ]);
+
+  if (!productResult.success || !productResult.data) {
+    notFound();
+  }
+
+  const product = productResult.data;
+  const settings = settingsResult.success ? settingsResult.data : { currencyCode: "USD", timezone: "UTC" };
+  // Stock is kept per branch, so only this branch's products can be adjusted here
+  const canAdjust = canManage && product.salonId === session.user.salonId;
+  const isLowStock = product.stock <= product.lowStockThreshold;
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/dashboard/products">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold">{product.name}</h1>
+              <p className="text-muted-foreground">
+                {product.sku ? `SKU ${product.sku}` : "No SKU"}
+                {product.category && ` · ${product.category}`}
+              </p>
+            </div>
+          </div>
+          {canAdjust && (
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <Link href={`/dashboard/products/${product.id}/edit`}>
+                  <Edit className="mr-2 h-4 w-4" />
+                  Edit
+                </Link>
+              </Button>
+              <AdjustStockDialog productId={product.id} productName={product.name} stock={product.stock} />
+            </div>
+          )}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">In Stock</CardTitle>
+              <Package className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center gap-2">
+                <span className="text-2xl font-bold">{product.stock}</span>
+                {isLowStock && (
+                  <Badge className="text-xs bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {product.stock === 0 ? "Out of Stock" : "Low Stock"}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">Low stock at {product.lowStockThreshold}</p>
+              {Number(product.backbarRemaining) > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Plus {formatRecipeQuantity(Number(product.backbarRemaining))} of an opened unit used on services
+                </p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Price</CardTitle>
+              <Banknote className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(Number(product.price), settings.currencyCode)}</div>
+              <p className="text-xs text-muted-foreground">
+                {product.cost != null ? `Cost ${formatCurrency(Number(product.cost), settings.currencyCode)}` : "No cost set"}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Sold</CardTitle>
+              <ShoppingBag className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{product._count.saleItems}</div>
+              <p className="text-xs text-muted-foreground">Sale lines</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {movementsResult.success ? (
+          <StockMovementsTable
+            productId={product.id}
+            movements={movementsResult.data.movements}
+            total={movementsResult.data.total}
+            page={movementsResult.data.page}
+            totalPages={movementsResult.data.totalPages}
+            timezone={settings.timezone}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{movementsResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
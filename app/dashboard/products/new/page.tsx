@@ -8,6 +8,8 @@ import { Button } from "@/components/ui/button";
 import { ProductForm } from "@/components/products/product-form";
 import { getAllProductCategories } from "@/lib/actions/product";
 import { getSettings } from "@/lib/actions/settings";
+import { getTaxClasses } from "@/lib/actions/tax-class";
+import { getActiveSuppliers } from "@/lib/actions/supplier";
 import { hasPermission } from "@/lib/permissions";
 
 export default async function NewProductPage() {
@@ -27,12 +29,16 @@ export default async function NewProductPage() {
     redirect("/dashboard/access-denied");
   }
 
-  const [categoriesResult, settingsResult] = await Promise.all([
+  const [categoriesResult, settingsResult, taxClassesResult, suppliersResult] = await Promise.all([
     getAllProductCategories(),
     getSettings(),
+    getTaxClasses(),
+    getActiveSuppliers(),
   ]);
   const categories = categoriesResult.success ? categoriesResult.data : [];
   const currencyCode = settingsResult.success ? settingsResult.data.currencyCode : "USD";
+  const taxClasses = taxClassesResult.success ? taxClassesResult.data : [];
+  const suppliers = suppliersResult.success ? suppliersResult.data : [];
 
   return (
     <DashboardLayout userRole={userRole}>
@@ -51,7 +57,7 @@ export default async function NewProductPage() {
           </div>
         </div>
 
-        <ProductForm mode="create" categories={categories} currencyCode={currencyCode} />
+        <ProductForm mode="create" categories={categories} taxClasses={taxClasses} suppliers={suppliers} currencyCode={currencyCode} />
       </div>
     </DashboardLayout>
   );
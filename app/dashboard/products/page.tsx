@@ -1,12 +1,14 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { Role } from "@prisma/client";
-import { Plus } from "lucide-react";
+import { PackageSearch, Plus } from "lucide-react";
 import Link from "next/link";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { ProductSearch } from "@/components/products/product-search";
 import { ProductList } from "@/components/products/product-list";
+import { StockReconciliationDialog } from "@/components/products/stock-reconciliation-dialog";
+import { BarcodeLabelsDialog } from "@/components/products/barcode-labels-dialog";
 import { getProducts } from "@/lib/actions/product";
 import { getSettings } from "@/lib/actions/settings";
 import { hasPermission } from "@/lib/permissions";
@@ -39,6 +41,7 @@ export default async function ProductsPage({ searchParams }: PageProps) {
   }
 
   const canManage = hasPermission(userRole, "products:manage", isSuperAdmin);
+  const canViewAlerts = hasPermission(userRole, "stock-alerts:view", isSuperAdmin);
 
   const page = parseInt(params.page || "1", 10);
   const query = params.q || "";
@@ -75,12 +78,24 @@ export default async function ProductsPage({ searchParams }: PageProps) {
             </p>
           </div>
           {canManage && (
-            <Button asChild>
-              <Link href="/dashboard/products/new">
-                <Plus className="mr-2 h-4 w-4" />
-                Add Product
-              </Link>
-            </Button>
+            <div className="flex gap-2">
+              {canViewAlerts && (
+                <Button variant="outline" asChild>
+                  <Link href="/dashboard/products/reorder">
+                    <PackageSearch className="mr-2 h-4 w-4" />
+                    Reorders
+                  </Link>
+                </Button>
+              )}
+              <StockReconciliationDialog />
+              <BarcodeLabelsDialog />
+              <Button asChild>
+                <Link href="/dashboard/products/new">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Product
+                </Link>
+              </Button>
+            </div>
           )}
         </div>
 
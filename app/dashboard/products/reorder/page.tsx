@@ -0,0 +1,77 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { StockAlertsCard } from "@/components/products/stock-alerts-card";
+import { ReorderSuggestions } from "@/components/products/reorder-suggestions";
+import { getStockAlerts } from "@/lib/actions/stock-alert";
+import { getReorderSuggestions } from "@/lib/actions/purchase-order";
+import { getSettings } from "@/lib/actions/settings";
+import { hasPermission } from "@/lib/permissions";
+
+export default async function ReorderPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "stock-alerts:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+
+  const [alertsResult, suggestionsResult, settingsResult] = await Promise.all([
+    getStockAlerts(),
+    getReorderSuggestions(),
+    getSettings(),
+  ]);
+
+  const alerts = alertsResult.success ? alertsResult.data : [];
+  const suggestions = suggestionsResult.success ? suggestionsResult.data : [];
+  const settings = settingsResult.success ? settingsResult.data : { currencyCode: "USD", timezone: "UTC" };
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard/products">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Reorders</h1>
+            <p className="text-muted-foreground">Low-stock alerts and what to order from each supplier</p>
+          </div>
+        </div>
+
+        <StockAlertsCard
+          alerts={alerts.map((alert) => ({
+            id: alert.id,
+            productId: alert.product.id,
+            name: alert.product.name,
+            sku: alert.product.sku,
+            stockWhenRaised: alert.stock,
+            stock: alert.product.stock,
+            lowStockThreshold: alert.product.lowStockThreshold,
+            dailyUsage: alert.dailyUsage,
+            daysOfCover: alert.daysOfCover,
+            createdAt: alert.createdAt,
+          }))}
+          timezone={settings.timezone}
+        />
+
+        <ReorderSuggestions suggestions={suggestions} currencyCode={settings.currencyCode} />
+      </div>
+    </DashboardLayout>
+  );
+}
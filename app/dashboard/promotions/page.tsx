@@ -0,0 +1,84 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { PromotionsPanel } from "@/components/promotions/promotions-panel";
+import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { getOrganizationSalonIds } from "@/lib/actions/branch";
+import { getPromotions } from "@/lib/actions/promotion";
+import { getSettings } from "@/lib/actions/settings";
+
+export default async function PromotionsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "promotions:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+  const canManage = hasPermission(userRole, "promotions:manage", isSuperAdmin);
+
+  const salonId = session.user.salonId;
+  if (!salonId) {
+    redirect("/dashboard");
+  }
+
+  // Everything a promotion can be scoped to, with names for the scope summary
+  const orgSalonIds = await getOrganizationSalonIds(salonId);
+  const [promotionsResult, services, products, settingsResult] = await Promise.all([
+    getPromotions(),
+    prisma.service.findMany({
+      where: { salonId: { in: orgSalonIds }, isActive: true },
+      select: { id: true, name: true, category: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.product.findMany({
+      where: { salonId: { in: orgSalonIds }, isActive: true },
+      select: { id: true, name: true, category: true },
+      orderBy: { name: "asc" },
+    }),
+    getSettings(),
+  ]);
+
+  const settings = settingsResult.success ? settingsResult.data : {
+    currencyCode: "USD",
+    timezone: "UTC",
+  };
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Promotions</h1>
+          <p className="text-muted-foreground">
+            Promo codes with usage rules, applied at checkout
+          </p>
+        </div>
+
+        {promotionsResult.success ? (
+          <PromotionsPanel
+            promotions={promotionsResult.data}
+            services={services}
+            products={products}
+            canManage={canManage}
+            currencyCode={settings.currencyCode}
+            timezone={settings.timezone}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{promotionsResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
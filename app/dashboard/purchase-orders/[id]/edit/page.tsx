@@ -0,0 +1,99 @@
+import { auth } from "@/lib/auth";
+import { redirect, notFound } from "next/navigation";
+import { Role } from "@prisma/client";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { PurchaseOrderForm } from "@/components/purchase-orders/purchase-order-form";
+import { getOrderableProducts, getPurchaseOrder } from "@/lib/actions/purchase-order";
+import { getActiveSuppliers } from "@/lib/actions/supplier";
+import { getActiveExpenseCategories } from "@/lib/actions/expense-category";
+import { getSettings } from "@/lib/actions/settings";
+import { formatDateOnly } from "@/lib/utils/timezone";
+import { hasPermission } from "@/lib/permissions";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function EditPurchaseOrderPage({ params }: PageProps) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "purchase-orders:manage", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+
+  const orderResult = await getPurchaseOrder(id);
+  if (!orderResult.success) {
+    notFound();
+  }
+
+  const purchaseOrder = orderResult.data;
+  // Placed orders are fixed; only drafts can be changed
+  if (purchaseOrder.status !== "DRAFT") {
+    redirect(`/dashboard/purchase-orders/${id}`);
+  }
+
+  const [suppliersResult, productsResult, categoriesResult, settingsResult] = await Promise.all([
+    getActiveSuppliers(),
+    getOrderableProducts(purchaseOrder.items.map((item) => item.productId)),
+    getActiveExpenseCategories(),
+    getSettings(),
+  ]);
+
+  const suppliers = suppliersResult.success ? suppliersResult.data : [];
+  const products = productsResult.success ? productsResult.data : [];
+  const expenseCategories = categoriesResult.success ? categoriesResult.data : [];
+  const currencyCode = settingsResult.success ? settingsResult.data.currencyCode : "USD";
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href={`/dashboard/purchase-orders/${id}`}>
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">Edit {purchaseOrder.poNumber}</h1>
+            <p className="text-muted-foreground">
+              Draft for {purchaseOrder.supplier.name}
+            </p>
+          </div>
+        </div>
+
+        <PurchaseOrderForm
+          purchaseOrder={{
+            id: purchaseOrder.id,
+            supplierId: purchaseOrder.supplierId,
+            expectedOn: purchaseOrder.expectedOn ? formatDateOnly(purchaseOrder.expectedOn, "yyyy-MM-dd") : null,
+            expenseCategoryId: purchaseOrder.expenseCategoryId,
+            notes: purchaseOrder.notes,
+            items: purchaseOrder.items.map((item) => ({
+              productId: item.productId,
+              quantity: item.quantity,
+              unitCost: Number(item.unitCost),
+            })),
+          }}
+          suppliers={suppliers}
+          products={products}
+          expenseCategories={expenseCategories}
+          currencyCode={currencyCode}
+        />
+      </div>
+    </DashboardLayout>
+  );
+}
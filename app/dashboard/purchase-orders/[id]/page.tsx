@@ -0,0 +1,279 @@
+import { auth } from "@/lib/auth";
+import { redirect, notFound } from "next/navigation";
+import { Role } from "@prisma/client";
+import { ArrowLeft, ClipboardList, Receipt, Truck } from "lucide-react";
+import Link from "next/link";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PurchaseOrderActions } from "@/components/purchase-orders/purchase-order-actions";
+import { PurchaseOrderStatusBadge } from "@/components/purchase-orders/purchase-order-status-badge";
+import { ReceivePurchaseOrderDialog } from "@/components/purchase-orders/receive-purchase-order-dialog";
+import { getPurchaseOrder } from "@/lib/actions/purchase-order";
+import { getSettings } from "@/lib/actions/settings";
+import { purchaseOrderTotal } from "@/lib/utils/purchase-order";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+import { hasPermission } from "@/lib/permissions";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function PurchaseOrderPage({ params }: PageProps) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "purchase-orders:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+
+  const canManage = hasPermission(userRole, "purchase-orders:manage", isSuperAdmin);
+  const canReceive = hasPermission(userRole, "purchase-orders:receive", isSuperAdmin);
+  const canEditExpenses = hasPermission(userRole, "expenses:update", isSuperAdmin);
+
+  const [orderResult, settingsResult] = await Promise.all([
+    getPurchaseOrder(id),
+    getSettings(),
+  ]);
+
+  if (!orderResult.success) {
+    notFound();
+  }
+
+  const purchaseOrder = orderResult.data;
+  const settings = settingsResult.success ? settingsResult.data : { currencyCode: "USD", timezone: "UTC" };
+  const fmt = (value: number) => formatCurrency(value, settings.currencyCode);
+
+  const { supplier } = purchaseOrder;
+  const total = purchaseOrderTotal(
+    purchaseOrder.items.map((item) => ({ quantity: item.quantity, unitCost: Number(item.unitCost) }))
+  );
+  const receivable = purchaseOrder.items
+    .filter((item) => item.quantityReceived < item.quantity)
+    .map((item) => ({
+      id: item.id,
+      name: item.product.name,
+      outstanding: item.quantity - item.quantityReceived,
+      unitCost: Number(item.unitCost),
+    }));
+  const canReceiveNow =
+    canReceive &&
+    (purchaseOrder.status === "ORDERED" || purchaseOrder.status === "PARTIALLY_RECEIVED") &&
+    receivable.length > 0;
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/dashboard/purchase-orders">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-3xl font-bold font-mono">{purchaseOrder.poNumber}</h1>
+                <PurchaseOrderStatusBadge status={purchaseOrder.status} />
+              </div>
+              <p className="text-muted-foreground">{supplier.name}</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <PurchaseOrderActions
+              purchaseOrderId={purchaseOrder.id}
+              poNumber={purchaseOrder.poNumber}
+              status={purchaseOrder.status}
+              canManage={canManage}
+            />
+            {canReceiveNow && (
+              <ReceivePurchaseOrderDialog
+                purchaseOrderId={purchaseOrder.id}
+                poNumber={purchaseOrder.poNumber}
+                lines={receivable}
+                currencyCode={settings.currencyCode}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Supplier</CardTitle>
+              <Truck className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p className="font-medium">{supplier.name}</p>
+              {supplier.contactName && <p>{supplier.contactName}</p>}
+              {supplier.email && <p className="text-muted-foreground">{supplier.email}</p>}
+              {supplier.phone && <p className="text-muted-foreground">{supplier.phone}</p>}
+              {supplier.paymentTermsDays !== null && (
+                <p className="text-muted-foreground">
+                  {supplier.paymentTermsDays === 0 ? "Pay on delivery" : `Net ${supplier.paymentTermsDays} days`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Order</CardTitle>
+              <ClipboardList className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p className="text-2xl font-bold">{fmt(total)}</p>
+              <p className="text-muted-foreground">
+                Drafted {formatInTz(purchaseOrder.createdAt, "MMM d, yyyy", settings.timezone)} by{" "}
+                {purchaseOrder.createdBy.firstName} {purchaseOrder.createdBy.lastName}
+              </p>
+              {purchaseOrder.orderedAt && (
+                <p className="text-muted-foreground">
+                  Ordered {formatInTz(purchaseOrder.orderedAt, "MMM d, yyyy", settings.timezone)}
+                </p>
+              )}
+              {purchaseOrder.expectedOn && (
+                <p className="text-muted-foreground">
+                  Expected {formatDateOnly(purchaseOrder.expectedOn, "MMM d, yyyy")}
+                </p>
+              )}
+              {purchaseOrder.receivedAt && (
+                <p className="text-muted-foreground">
+                  Received {formatInTz(purchaseOrder.receivedAt, "MMM d, yyyy", settings.timezone)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Expense</CardTitle>
+              <Receipt className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              {purchaseOrder.expense ? (
+                <>
+                  <p className="text-2xl font-bold">{fmt(Number(purchaseOrder.expense.amount))}</p>
+                  <p className="text-muted-foreground">
+                    Booked {formatDateOnly(purchaseOrder.expense.date, "MMM d, yyyy")} under{" "}
+                    {purchaseOrder.expenseCategory?.name ?? "Supplies"}
+                  </p>
+                  {canEditExpenses && (
+                    <Link
+                      href={`/dashboard/expenses/${purchaseOrder.expense.id}/edit`}
+                      className="text-primary hover:underline"
+                    >
+                      View expense
+                    </Link>
+                  )}
+                </>
+              ) : (
+                <p className="text-muted-foreground">
+                  Booked under {purchaseOrder.expenseCategory?.name ?? "Supplies"} once goods are received
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Products</CardTitle>
+            {purchaseOrder.notes && <CardDescription>{purchaseOrder.notes}</CardDescription>}
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Unit Cost</TableHead>
+                    <TableHead className="text-right">Line Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchaseOrder.items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <Link href={`/dashboard/products/${item.product.id}`} className="font-medium hover:underline">
+                          {item.product.name}
+                        </Link>
+                        {item.product.sku && (
+                          <p className="text-xs text-muted-foreground font-mono">{item.product.sku}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell
+                        className={`text-right ${item.quantityReceived >= item.quantity ? "text-green-600" : ""}`}
+                      >
+                        {item.quantityReceived}
+                      </TableCell>
+                      <TableCell className="text-right">{fmt(Number(item.unitCost))}</TableCell>
+                      <TableCell className="text-right">{fmt(Number(item.unitCost) * item.quantity)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {purchaseOrder.stockMovements.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Deliveries</CardTitle>
+              <CardDescription>Units put into stock against this order</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchaseOrder.stockMovements.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatInTz(movement.createdAt, "MMM d, yyyy h:mm a", settings.timezone)}
+                      </TableCell>
+                      <TableCell>{movement.product.name}</TableCell>
+                      <TableCell className="text-right text-green-600">+{movement.quantity}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {movement.createdBy
+                          ? `${movement.createdBy.firstName} ${movement.createdBy.lastName}`
+                          : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
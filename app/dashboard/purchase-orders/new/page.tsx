@@ -0,0 +1,88 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { PurchaseOrderForm } from "@/components/purchase-orders/purchase-order-form";
+import { getOrderableProducts } from "@/lib/actions/purchase-order";
+import { getActiveSuppliers } from "@/lib/actions/supplier";
+import { getActiveExpenseCategories } from "@/lib/actions/expense-category";
+import { getSettings } from "@/lib/actions/settings";
+import { hasPermission } from "@/lib/permissions";
+
+interface PageProps {
+  searchParams: Promise<{ supplier?: string }>;
+}
+
+export default async function NewPurchaseOrderPage({ searchParams }: PageProps) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { supplier } = await searchParams;
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "purchase-orders:manage", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+
+  const [suppliersResult, productsResult, categoriesResult, settingsResult] = await Promise.all([
+    getActiveSuppliers(),
+    getOrderableProducts(),
+    getActiveExpenseCategories(),
+    getSettings(),
+  ]);
+
+  const suppliers = suppliersResult.success ? suppliersResult.data : [];
+  const products = productsResult.success ? productsResult.data : [];
+  const expenseCategories = categoriesResult.success ? categoriesResult.data : [];
+  const currencyCode = settingsResult.success ? settingsResult.data.currencyCode : "USD";
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/dashboard/purchase-orders">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">New Purchase Order</h1>
+            <p className="text-muted-foreground">
+              Saved as a draft until it&apos;s placed with the supplier
+            </p>
+          </div>
+        </div>
+
+        {suppliers.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">
+              Add a supplier on the{" "}
+              <Link href="/dashboard/suppliers" className="underline">
+                Suppliers
+              </Link>{" "}
+              page before ordering stock.
+            </p>
+          </div>
+        ) : (
+          <PurchaseOrderForm
+            initialSupplierId={suppliers.some((s) => s.id === supplier) ? supplier : undefined}
+            suppliers={suppliers}
+            products={products}
+            expenseCategories={expenseCategories}
+            currencyCode={currencyCode}
+          />
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,90 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { PurchaseOrderStatus, Role } from "@prisma/client";
+import { Plus } from "lucide-react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { PurchaseOrdersTable } from "@/components/purchase-orders/purchase-orders-table";
+import { DraftReordersButton } from "@/components/purchase-orders/draft-reorders-button";
+import { getPurchaseOrders } from "@/lib/actions/purchase-order";
+import { getSettings } from "@/lib/actions/settings";
+import { hasPermission } from "@/lib/permissions";
+
+const PAGE_SIZE = 20;
+
+interface PageProps {
+  searchParams: Promise<{ page?: string; status?: string }>;
+}
+
+export default async function PurchaseOrdersPage({ searchParams }: PageProps) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { page: pageParam, status: statusParam } = await searchParams;
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "purchase-orders:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+  const canManage = hasPermission(userRole, "purchase-orders:manage", isSuperAdmin);
+
+  const page = parseInt(pageParam || "1", 10) || 1;
+  const status = Object.values(PurchaseOrderStatus).find((s) => s === statusParam);
+
+  const [ordersResult, settingsResult] = await Promise.all([
+    getPurchaseOrders({ status, page, limit: PAGE_SIZE }),
+    getSettings(),
+  ]);
+
+  const settings = settingsResult.success ? settingsResult.data : { currencyCode: "USD", timezone: "UTC" };
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Purchase Orders</h1>
+            <p className="text-muted-foreground">
+              Stock ordered from suppliers for this branch, and deliveries received against it
+            </p>
+          </div>
+          {canManage && (
+            <div className="flex gap-2">
+              <DraftReordersButton />
+              <Button asChild>
+                <Link href="/dashboard/purchase-orders/new">
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Purchase Order
+                </Link>
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {ordersResult.success ? (
+          <PurchaseOrdersTable
+            purchaseOrders={ordersResult.data.purchaseOrders}
+            total={ordersResult.data.total}
+            page={ordersResult.data.page}
+            totalPages={ordersResult.data.totalPages}
+            status={status ?? null}
+            currencyCode={settings.currencyCode}
+            timezone={settings.timezone}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{ordersResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,7 +1,7 @@
 import { auth } from "@/lib/auth";
 import { redirect, notFound } from "next/navigation";
 import { Role } from "@prisma/client";
-import { formatInTz } from "@/lib/utils/timezone";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
 import { formatCurrency } from "@/lib/utils/currency";
 import Link from "next/link";
 import {
@@ -31,8 +31,14 @@ import { hasPermission } from "@/lib/permissions";
 import { InvoiceDownloadButton } from "@/components/invoices/invoice-download-button";
 import { InvoicePDFData } from "@/components/invoices/invoice-pdf";
 import { RefundDialog } from "@/components/sales/refund-dialog";
+import { ExchangeDialog } from "@/components/sales/exchange-dialog";
+import { ReturnLine } from "@/components/sales/return-lines-picker";
+import { RecordPaymentDialog } from "@/components/sales/record-payment-dialog";
 import { EmailReceiptButton, EmailInvoiceButton } from "@/components/sales/email-receipt-button";
 import { PaymentMethodIcon, PAYMENT_METHOD_LABELS } from "@/lib/constants/payment-methods";
+import { isLineRefundable, netUnitPrice, paidUnitPrice, RefundBasis, REFUND_METHOD_LABELS } from "@/lib/utils/refund";
+import { taxLineLabel } from "@/lib/utils/tax";
+import { invoiceTaxLines } from "@/lib/taxes";
 
 export default async function SaleDetailPage({
   params,
@@ -82,12 +88,15 @@ export default async function SaleDetailPage({
     return `${firstName[0] || ""}${lastName?.[0] || ""}`.toUpperCase();
   };
 
+  const taxLines = invoiceTaxLines(sale.invoice?.taxes ?? []);
+
   // Prepare invoice data for PDF
   const invoiceData: InvoicePDFData | null = sale.invoice
     ? {
         invoiceNumber: sale.invoice.invoiceNumber,
         status: sale.invoice.status,
         createdAt: sale.createdAt.toISOString(),
+        dueDate: sale.invoice.dueDate ? formatDateOnly(sale.invoice.dueDate, "yyyy-MM-dd") : null,
         salonName: settings.salonName,
         salonAddress: settings.salonAddress,
         salonPhone: settings.salonPhone,
@@ -108,13 +117,16 @@ export default async function SaleDetailPage({
           service: item.service ? { name: item.service.name } : null,
           staff: item.staff ? { firstName: item.staff.firstName, lastName: item.staff.lastName } : null,
           product: item.product ? { name: item.product.name } : null,
+          description: item.description,
           price: Number(item.price),
           quantity: item.quantity,
         })),
         subtotal: Number(sale.totalAmount),
-        discount: Number(sale.discount),
+        discount: Number(sale.discount) + Number(sale.memberDiscount) + Number(sale.promotionDiscount),
         tax: Number(sale.invoice.tax),
+        taxLines,
         total: Number(sale.invoice.total),
+        tip: Number(sale.invoice.tip),
         loyaltyPointsEarned: 0,
         loyaltyPointsRedeemed: 0,
       }
@@ -144,6 +156,48 @@ export default async function SaleDetailPage({
   const maxRefundable = sale.invoice ? Number(sale.invoice.total) - totalRefunded : 0;
   const canIssueRefund = canRefund && sale.invoice?.status === "PAID" && maxRefundable > 0;
 
+  // Lines that can still be returned, and what the invoice charged for them
+  const itemName = (item: { service: { name: string } | null; product: { name: string } | null; description: string | null }) =>
+    item.service?.name || item.product?.name || item.description || "Unknown";
+  const returnedQuantity = (item: (typeof sale.items)[number]) =>
+    item.refundItems.reduce((sum, r) => sum + r.quantity, 0);
+  const returnLines: ReturnLine[] = sale.items
+    .filter((item) => isLineRefundable({ serviceId: item.serviceId, productId: item.productId, price: Number(item.price) }))
+    .map((item) => ({
+      id: item.id,
+      name: itemName(item),
+      unitPrice: netUnitPrice({ price: Number(item.price), discount: Number(item.discount), quantity: item.quantity }),
+      unitPaid: paidUnitPrice({
+        netAmount: item.netAmount !== null ? Number(item.netAmount) : null,
+        tax: Number(item.tax),
+        quantity: item.quantity,
+      }),
+      returnable: item.quantity - returnedQuantity(item),
+      isProduct: !!item.productId,
+    }))
+    .filter((line) => line.returnable > 0);
+  const refundBasis: RefundBasis = {
+    saleTotal: Number(sale.totalAmount) - Number(sale.promotionDiscount),
+    invoiceAmount: Number(sale.invoice?.amount ?? 0),
+    invoiceTax: Number(sale.invoice?.tax ?? 0),
+    untaxedValue: sale.items
+      .filter((item) => item.isGiftCard)
+      .reduce((sum, item) => sum + Number(item.price) * item.quantity, 0),
+  };
+  const canExchange =
+    canIssueRefund &&
+    hasPermission(userRole, "sales:create", isSuperAdmin) &&
+    returnLines.some((line) => line.isProduct);
+
+  // Outstanding balance on an unpaid invoice (a membership renewal or a sale paid later)
+  const canRecordPayment = hasPermission(userRole, "invoices:update", isSuperAdmin);
+  const amountPaid = (sale.invoice?.payments || []).reduce((sum, p) => sum + Number(p.amount), 0);
+  const balanceDue = sale.invoice
+    ? Math.round((Number(sale.invoice.total) + Number(sale.invoice.tip) - amountPaid) * 100) / 100
+    : 0;
+  const isInvoiceOpen = sale.invoice?.status === "PENDING" || sale.invoice?.status === "OVERDUE";
+  const canTakePayment = canRecordPayment && isInvoiceOpen && balanceDue > 0;
+
   return (
     <DashboardLayout userRole={userRole}>
       <div className="space-y-6">
@@ -159,16 +213,49 @@ export default async function SaleDetailPage({
               <h1 className="text-3xl font-bold">Sale Details</h1>
               <p className="text-muted-foreground">
                 {sale.invoice ? `Invoice ${sale.invoice.invoiceNumber}` : "Draft Sale"}
+                {sale.exchangeRefund && (
+                  <>
+                    {" · Exchange for "}
+                    <Link
+                      href={`/dashboard/sales/${sale.exchangeRefund.invoice.saleId}`}
+                      className="text-primary hover:underline"
+                    >
+                      {sale.exchangeRefund.invoice.invoiceNumber}
+                    </Link>
+                  </>
+                )}
               </p>
             </div>
           </div>
           <div className="flex flex-wrap gap-2">
+            {canTakePayment && sale.invoice && (
+              <RecordPaymentDialog
+                invoiceId={sale.invoice.id}
+                invoiceNumber={sale.invoice.invoiceNumber}
+                balanceDue={balanceDue}
+                currencyCode={settings.currencyCode}
+              />
+            )}
             {canIssueRefund && sale.invoice && (
               <RefundDialog
                 invoiceId={sale.invoice.id}
                 invoiceNumber={sale.invoice.invoiceNumber}
                 maxRefundable={maxRefundable}
                 currencyCode={settings.currencyCode}
+                lines={returnLines}
+                basis={refundBasis}
+              />
+            )}
+            {canExchange && sale.invoice && (
+              <ExchangeDialog
+                invoiceId={sale.invoice.id}
+                invoiceNumber={sale.invoice.invoiceNumber}
+                clientId={sale.client.id}
+                lines={returnLines.filter((line) => line.isProduct)}
+                basis={refundBasis}
+                maxRefundable={maxRefundable}
+                currencyCode={settings.currencyCode}
+                taxRate={settings.taxRate}
               />
             )}
             {sale.invoice && invoiceData && (
@@ -211,7 +298,12 @@ export default async function SaleDetailPage({
                     {sale.items.map((item) => (
                       <TableRow key={item.id}>
                         <TableCell className="font-medium">
-                          {item.service?.name || item.product?.name || "Unknown"}
+                          {itemName(item)}
+                          {returnedQuantity(item) > 0 && (
+                            <Badge variant="outline" className="ml-2 text-orange-700 dark:text-orange-400">
+                              {returnedQuantity(item)} returned
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           {item.staff ? `${item.staff.firstName} ${item.staff.lastName}` : "-"}
@@ -248,6 +340,14 @@ export default async function SaleDetailPage({
                     <span className="text-muted-foreground">Status</span>
                     {getStatusBadge(sale.invoice.status)}
                   </div>
+                  {sale.invoice.dueDate && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Due Date</span>
+                      <span className={sale.invoice.status === "OVERDUE" ? "font-medium text-red-600" : undefined}>
+                        {formatDateOnly(sale.invoice.dueDate, "MMM d, yyyy")}
+                      </span>
+                    </div>
+                  )}
                   {sale.invoice.payments && sale.invoice.payments.length > 0 && (
                     <>
                       <Separator />
@@ -271,6 +371,18 @@ export default async function SaleDetailPage({
                       </div>
                     </>
                   )}
+                  {taxLines.map((line) => (
+                    <div key={`${line.name}-${line.rate}-${line.inclusive}`} className="flex justify-between items-center">
+                      <span className="text-muted-foreground">{taxLineLabel(line)}</span>
+                      <span>{formatCurrency(line.amount, settings.currencyCode)}</span>
+                    </div>
+                  ))}
+                  {taxLines.length === 0 && Number(sale.invoice.tax) > 0 && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Tax</span>
+                      <span>{formatCurrency(Number(sale.invoice.tax), settings.currencyCode)}</span>
+                    </div>
+                  )}
                   <Separator />
                   <div className="flex justify-between items-center text-lg font-bold">
                     <span>Total</span>
@@ -278,6 +390,40 @@ export default async function SaleDetailPage({
                       {formatCurrency(Number(sale.invoice.total), settings.currencyCode)}
                     </span>
                   </div>
+                  {Number(sale.invoice.tip) > 0 && (
+                    <div className="space-y-1">
+                      <div className="flex justify-between items-center">
+                        <span className="text-muted-foreground">Tip</span>
+                        <span className="font-medium">
+                          {formatCurrency(Number(sale.invoice.tip), settings.currencyCode)}
+                        </span>
+                      </div>
+                      {sale.invoice.tips.map((tip) => (
+                        <div key={tip.id} className="flex justify-between items-center text-sm text-muted-foreground pl-4">
+                          <span>{tip.staff.firstName} {tip.staff.lastName}</span>
+                          <span>{formatCurrency(Number(tip.amount), settings.currencyCode)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between items-center font-medium">
+                        <span>Total Paid</span>
+                        <span>
+                          {formatCurrency(Number(sale.invoice.total) + Number(sale.invoice.tip), settings.currencyCode)}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                  {isInvoiceOpen && amountPaid > 0 && (
+                    <div className="space-y-1">
+                      <div className="flex justify-between items-center">
+                        <span className="text-muted-foreground">Paid</span>
+                        <span>{formatCurrency(amountPaid, settings.currencyCode)}</span>
+                      </div>
+                      <div className="flex justify-between items-center font-medium">
+                        <span>Balance Due</span>
+                        <span>{formatCurrency(balanceDue, settings.currencyCode)}</span>
+                      </div>
+                    </div>
+                  )}
                   {totalRefunded > 0 && (
                     <>
                       <Separator />
@@ -311,6 +457,8 @@ export default async function SaleDetailPage({
                       <TableRow>
                         <TableHead>Date</TableHead>
                         <TableHead>Amount</TableHead>
+                        <TableHead>Refunded To</TableHead>
+                        <TableHead>Items</TableHead>
                         <TableHead>Points Reversed</TableHead>
                         <TableHead>Processed By</TableHead>
                         <TableHead>Reason</TableHead>
@@ -325,6 +473,30 @@ export default async function SaleDetailPage({
                           <TableCell className="text-red-600 font-medium">
                             -{formatCurrency(Number(refund.amount), settings.currencyCode)}
                           </TableCell>
+                          <TableCell>
+                            {refund.exchangeSale ? (
+                              <Link href={`/dashboard/sales/${refund.exchangeSale.id}`} className="text-primary hover:underline">
+                                Exchange {refund.exchangeSale.invoice?.invoiceNumber}
+                              </Link>
+                            ) : (
+                              REFUND_METHOD_LABELS[refund.method]
+                            )}
+                            {refund.giftCard && (
+                              <div className="text-xs text-muted-foreground font-mono">{refund.giftCard.code}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {refund.items.length > 0 ? (
+                              refund.items.map((line) => (
+                                <div key={line.id}>
+                                  {itemName(line.saleItem)} × {line.quantity}
+                                  {line.restocked && <span className="text-muted-foreground"> (restocked)</span>}
+                                </div>
+                              ))
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
                           <TableCell>
                             {refund.pointsReversed > 0 ? (
                               <span className="text-amber-600">-{refund.pointsReversed} pts</span>
@@ -403,6 +575,18 @@ export default async function SaleDetailPage({
                   <span className="text-muted-foreground">Subtotal</span>
                   <span>{formatCurrency(Number(sale.totalAmount), settings.currencyCode)}</span>
                 </div>
+                {Number(sale.memberDiscount) > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Member Discount</span>
+                    <span>-{formatCurrency(Number(sale.memberDiscount), settings.currencyCode)}</span>
+                  </div>
+                )}
+                {sale.promotion && Number(sale.promotionDiscount) > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Promo ({sale.promotion.code})</span>
+                    <span>-{formatCurrency(Number(sale.promotionDiscount), settings.currencyCode)}</span>
+                  </div>
+                )}
                 {Number(sale.discount) > 0 && (
                   <div className="flex justify-between text-green-600">
                     <span>Discount</span>
@@ -6,11 +6,18 @@ import { CheckoutForm } from "@/components/sales/checkout-form";
 import { getClients } from "@/lib/actions/client";
 import { getServices } from "@/lib/actions/service";
 import { getActiveProducts } from "@/lib/actions/product";
+import { getTaxClasses } from "@/lib/actions/tax-class";
+import { getServicePackages } from "@/lib/actions/service-package";
 import { getStaffForAppointments } from "@/lib/actions/appointment";
+import { getAppointmentCheckout } from "@/lib/actions/sale";
 import { getSettings } from "@/lib/actions/settings";
 import { hasPermission } from "@/lib/permissions";
 
-export default async function NewSalePage() {
+export default async function NewSalePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ appointment?: string }>;
+}) {
   const session = await auth();
 
   if (!session) {
@@ -27,13 +34,18 @@ export default async function NewSalePage() {
     redirect("/dashboard/access-denied");
   }
 
+  const { appointment: appointmentId } = await searchParams;
+
   // Fetch all required data in parallel
-  const [clientsResult, servicesResult, productsResult, staffResult, settingsResult] = await Promise.all([
+  const [clientsResult, servicesResult, productsResult, packagesResult, staffResult, settingsResult, taxClassesResult, checkoutResult] = await Promise.all([
     getClients({ limit: 100 }),
     getServices({ isActive: true, limit: 100 }),
     getActiveProducts(),
+    getServicePackages(),
     getStaffForAppointments(),
     getSettings(),
+    getTaxClasses(),
+    appointmentId ? getAppointmentCheckout(appointmentId) : Promise.resolve(null),
   ]);
 
   if (!clientsResult.success) {
@@ -46,6 +58,16 @@ export default async function NewSalePage() {
     );
   }
 
+  if (checkoutResult && !checkoutResult.success) {
+    return (
+      <DashboardLayout userRole={userRole}>
+        <div className="text-center py-12">
+          <p className="text-destructive">{checkoutResult.error}</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
   if (!servicesResult.success) {
     return (
       <DashboardLayout userRole={userRole}>
@@ -68,6 +90,7 @@ export default async function NewSalePage() {
 
   const settings = settingsResult.success ? settingsResult.data : {
     currencyCode: "USD",
+    timezone: "UTC",
     taxRate: 0,
     pointsPerDollar: 100,
     loyaltyProgramEnabled: true,
@@ -92,11 +115,23 @@ export default async function NewSalePage() {
     duration: service.duration,
     category: service.category,
     points: service.points,
+    taxClassId: service.taxClassId,
   }));
 
   // Transform products
   const products = productsResult.success ? productsResult.data : [];
 
+  // Transform packages
+  const packages = packagesResult.success
+    ? packagesResult.data.map((pkg) => ({
+        id: pkg.id,
+        name: pkg.name,
+        price: Number(pkg.price),
+        validityDays: pkg.validityDays,
+        items: pkg.items.map((item) => ({ serviceName: item.service.name, sessions: item.sessions })),
+      }))
+    : [];
+
   return (
     <DashboardLayout userRole={userRole}>
       <div className="space-y-6">
@@ -111,11 +146,15 @@ export default async function NewSalePage() {
           clients={clientsWithLoyalty}
           services={services}
           products={products}
+          packages={packages}
           staff={staffResult.data}
           currencyCode={settings.currencyCode}
+          timezone={settings.timezone}
           taxRate={settings.taxRate}
+          taxClasses={taxClassesResult.success ? taxClassesResult.data : []}
           pointsPerDollar={settings.pointsPerDollar}
           loyaltyProgramEnabled={settings.loyaltyProgramEnabled}
+          appointmentCheckout={checkoutResult?.data}
         />
       </div>
     </DashboardLayout>
@@ -45,7 +45,7 @@ export default async function SalesPage() {
   const { sales, total, page, totalPages } = salesResult.data;
   const todaySummary = todaySummaryResult.success
     ? todaySummaryResult.data
-    : { count: 0, revenue: 0, averageTicket: 0 };
+    : { count: 0, revenue: 0, averageTicket: 0, tips: 0 };
 
   return (
     <DashboardLayout userRole={userRole}>
@@ -70,6 +70,7 @@ export default async function SalesPage() {
           fetchSales={getSales}
           todaysSalesCount={todaySummary.count}
           todaysRevenue={todaySummary.revenue}
+          todaysTips={todaySummary.tips}
         />
       </div>
     </DashboardLayout>
@@ -4,7 +4,11 @@ import { Role } from "@prisma/client";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { getStaffWithSchedules } from "@/lib/actions/schedule";
 import { hasPermission } from "@/lib/permissions";
-import { getSettings } from "@/lib/actions/settings";
+import { getSettings, getTimezone } from "@/lib/actions/settings";
+import { getTimeOff } from "@/lib/actions/time-off";
+import { getHolidays } from "@/lib/actions/holiday";
+import { getScheduleOverrides } from "@/lib/actions/schedule-override";
+import { formatInTz } from "@/lib/utils/timezone";
 import { SchedulePageClient } from "@/components/schedules/schedule-page-client";
 
 export default async function SchedulesPage() {
@@ -20,6 +24,7 @@ export default async function SchedulesPage() {
   const userRole = (session.user.salonRole ?? null) as Role | null;
   const isSuperAdmin = session.user.isSuperAdmin === true;
   const canManage = hasPermission(userRole, "schedules:manage", isSuperAdmin);
+  const canManageOrganization = hasPermission(userRole, "branches:manage", isSuperAdmin);
 
   const staffResult = await getStaffWithSchedules();
 
@@ -36,12 +41,29 @@ export default async function SchedulesPage() {
   const settingsResult = await getSettings();
   const salonName = settingsResult.success ? settingsResult.data.salonName : "AestheTech Salon";
 
+  // Date-specific data from the start of this month, so the month view also shows recent entries
+  const timezone = await getTimezone();
+  const today = formatInTz(new Date(), "yyyy-MM-dd", timezone);
+  const from = `${today.slice(0, 8)}01`;
+  const [timeOffResult, holidaysResult, overridesResult] = await Promise.all([
+    getTimeOff({ from }),
+    getHolidays({ from }),
+    getScheduleOverrides({ from }),
+  ]);
+
   return (
     <DashboardLayout userRole={userRole}>
       <SchedulePageClient
         staffWithSchedules={staffResult.data}
         canManage={canManage}
         salonName={salonName}
+        canManageOrganization={canManageOrganization}
+        timeOff={timeOffResult.success ? timeOffResult.data : []}
+        holidays={holidaysResult.success ? holidaysResult.data : []}
+        overrides={overridesResult.success ? overridesResult.data : []}
+        currentUserId={session.user.id}
+        today={today}
+        timezone={timezone}
       />
     </DashboardLayout>
   );
@@ -6,8 +6,10 @@ import Link from "next/link";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { ServiceForm } from "@/components/services/service-form";
-import { getService, getAllCategories } from "@/lib/actions/service";
+import { ServiceRecipeEditor } from "@/components/services/service-recipe-editor";
+import { getService, getAllCategories, getRecipeProducts, getServiceRecipe } from "@/lib/actions/service";
 import { getSettings } from "@/lib/actions/settings";
+import { getTaxClasses } from "@/lib/actions/tax-class";
 import { hasPermission } from "@/lib/permissions";
 
 interface PageProps {
@@ -33,10 +35,13 @@ export default async function EditServicePage({ params }: PageProps) {
     redirect("/dashboard/access-denied");
   }
 
-  const [serviceResult, categoriesResult, settingsResult] = await Promise.all([
+  const [serviceResult, categoriesResult, settingsResult, taxClassesResult, recipeResult, productsResult] = await Promise.all([
     getService(id),
     getAllCategories(),
     getSettings(),
+    getTaxClasses(),
+    getServiceRecipe(id),
+    getRecipeProducts(),
   ]);
 
   if (!serviceResult.success || !serviceResult.data) {
@@ -46,6 +51,9 @@ export default async function EditServicePage({ params }: PageProps) {
   const service = serviceResult.data;
   const categories = categoriesResult.success ? categoriesResult.data : [];
   const currencyCode = settingsResult.success ? settingsResult.data.currencyCode : "USD";
+  const taxClasses = taxClassesResult.success ? taxClassesResult.data : [];
+  const recipe = recipeResult.success ? recipeResult.data : [];
+  const recipeProducts = productsResult.success ? productsResult.data : [];
 
   return (
     <DashboardLayout userRole={userRole}>
@@ -76,8 +84,21 @@ export default async function EditServicePage({ params }: PageProps) {
             points: service.points,
             category: service.category,
             isActive: service.isActive,
+            depositType: service.depositType,
+            depositValue: service.depositValue ? Number(service.depositValue) : null,
+            taxClassId: service.taxClassId,
           }}
           categories={categories}
+          taxClasses={taxClasses}
+          currencyCode={currencyCode}
+        />
+
+        <ServiceRecipeEditor
+          serviceId={service.id}
+          price={Number(service.price)}
+          cost={service.cost ? Number(service.cost) : null}
+          recipe={recipe}
+          products={recipeProducts}
           currencyCode={currencyCode}
         />
       </div>
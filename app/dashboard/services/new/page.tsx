@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { ServiceForm } from "@/components/services/service-form";
 import { getAllCategories } from "@/lib/actions/service";
 import { getSettings } from "@/lib/actions/settings";
+import { getTaxClasses } from "@/lib/actions/tax-class";
 import { hasPermission } from "@/lib/permissions";
 
 export default async function NewServicePage() {
@@ -28,12 +29,14 @@ export default async function NewServicePage() {
     redirect("/dashboard/access-denied");
   }
 
-  const [categoriesResult, settingsResult] = await Promise.all([
+  const [categoriesResult, settingsResult, taxClassesResult] = await Promise.all([
     getAllCategories(),
     getSettings(),
+    getTaxClasses(),
   ]);
   const categories = categoriesResult.success ? categoriesResult.data : [];
   const currencyCode = settingsResult.success ? settingsResult.data.currencyCode : "USD";
+  const taxClasses = taxClassesResult.success ? taxClassesResult.data : [];
 
   return (
     <DashboardLayout userRole={userRole}>
@@ -52,7 +55,7 @@ export default async function NewServicePage() {
           </div>
         </div>
 
-        <ServiceForm mode="create" categories={categories} currencyCode={currencyCode} />
+        <ServiceForm mode="create" categories={categories} taxClasses={taxClasses} currencyCode={currencyCode} />
       </div>
     </DashboardLayout>
   );
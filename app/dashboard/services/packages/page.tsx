@@ -0,0 +1,71 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { PackagesPanel } from "@/components/services/packages-panel";
+import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { getOrganizationSalonIds } from "@/lib/actions/branch";
+import { getServicePackages } from "@/lib/actions/service-package";
+import { getSettings } from "@/lib/actions/settings";
+
+export default async function ServicePackagesPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+  const canManage = hasPermission(userRole, "services:manage", isSuperAdmin);
+
+  const salonId = session.user.salonId;
+  if (!salonId) {
+    redirect("/dashboard");
+  }
+
+  const orgSalonIds = await getOrganizationSalonIds(salonId);
+  const [packagesResult, services, settingsResult] = await Promise.all([
+    getServicePackages({ includeInactive: canManage }),
+    canManage
+      ? prisma.service.findMany({
+          where: { salonId: { in: orgSalonIds }, isActive: true },
+          select: { id: true, name: true, price: true },
+          orderBy: { name: "asc" },
+        })
+      : [],
+    getSettings(),
+  ]);
+
+  const currencyCode = settingsResult.success ? settingsResult.data.currencyCode : "USD";
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Service Packages</h1>
+          <p className="text-muted-foreground">
+            Prepaid bundles of sessions sold at checkout
+          </p>
+        </div>
+
+        {packagesResult.success ? (
+          <PackagesPanel
+            packages={packagesResult.data}
+            services={services.map((s) => ({ id: s.id, name: s.name, price: Number(s.price) }))}
+            canManage={canManage}
+            currencyCode={currencyCode}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{packagesResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
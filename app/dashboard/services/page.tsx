@@ -1,7 +1,7 @@
 import { auth } from "@/lib/auth";
 import { redirect } from "next/navigation";
 import { Role } from "@prisma/client";
-import { Plus } from "lucide-react";
+import { Layers, Plus } from "lucide-react";
 import Link from "next/link";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
@@ -62,14 +62,22 @@ export default async function ServicesPage({ searchParams }: PageProps) {
               Manage your salon&apos;s service offerings
             </p>
           </div>
-          {canManage && (
-            <Button asChild>
-              <Link href="/dashboard/services/new">
-                <Plus className="mr-2 h-4 w-4" />
-                Add Service
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/services/packages">
+                <Layers className="mr-2 h-4 w-4" />
+                Packages
               </Link>
             </Button>
-          )}
+            {canManage && (
+              <Button asChild>
+                <Link href="/dashboard/services/new">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Service
+                </Link>
+              </Button>
+            )}
+          </div>
         </div>
 
         {/* Search and Filters */}
@@ -3,8 +3,11 @@ import { redirect } from "next/navigation";
 import { Role } from "@prisma/client";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { SettingsForm } from "@/components/settings/settings-form";
+import { TaxClassesPanel } from "@/components/settings/tax-classes-panel";
 import { getSettings } from "@/lib/actions/settings";
+import { getTaxClasses } from "@/lib/actions/tax-class";
 import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
 
 export default async function SettingsPage() {
   const session = await auth();
@@ -25,7 +28,7 @@ export default async function SettingsPage() {
     redirect("/dashboard/access-denied");
   }
 
-  const result = await getSettings();
+  const [result, taxClassesResult] = await Promise.all([getSettings(), getTaxClasses()]);
 
   if (!result.success) {
     return (
@@ -37,6 +40,13 @@ export default async function SettingsPage() {
     );
   }
 
+  const salon = session.user.salonId
+    ? await prisma.salon.findUnique({
+        where: { id: session.user.salonId },
+        select: { slug: true },
+      })
+    : null;
+
   return (
     <DashboardLayout userRole={userRole}>
       <div className="space-y-6">
@@ -47,7 +57,13 @@ export default async function SettingsPage() {
           </p>
         </div>
 
-        <SettingsForm settings={result.data} canManage={canManage} />
+        <SettingsForm settings={result.data} canManage={canManage} bookingSlug={salon?.slug} />
+
+        <TaxClassesPanel
+          taxClasses={taxClassesResult.success ? taxClassesResult.data : []}
+          standardRate={result.data.taxRate}
+          canManage={canManage}
+        />
       </div>
     </DashboardLayout>
   );
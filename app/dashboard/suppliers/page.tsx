@@ -0,0 +1,50 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { SuppliersPanel } from "@/components/suppliers/suppliers-panel";
+import { hasPermission } from "@/lib/permissions";
+import { getSuppliers } from "@/lib/actions/supplier";
+
+export default async function SuppliersPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "suppliers:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+  const canManage = hasPermission(userRole, "suppliers:manage", isSuperAdmin);
+  const canOrder = hasPermission(userRole, "purchase-orders:manage", isSuperAdmin);
+
+  const suppliersResult = await getSuppliers();
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Suppliers</h1>
+          <p className="text-muted-foreground">
+            Who your retail and backbar stock is bought from, shared across all branches
+          </p>
+        </div>
+
+        {suppliersResult.success ? (
+          <SuppliersPanel suppliers={suppliersResult.data} canManage={canManage} canOrder={canOrder} />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{suppliersResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
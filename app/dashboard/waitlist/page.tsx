@@ -0,0 +1,110 @@
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { Role } from "@prisma/client";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { WaitlistPanel } from "@/components/waitlist/waitlist-panel";
+import { hasPermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { getOrganizationSalonIds } from "@/lib/actions/branch";
+import { getWaitlist } from "@/lib/actions/waitlist";
+import { getTimezone } from "@/lib/actions/settings";
+import { formatInTz } from "@/lib/utils/timezone";
+
+interface PageProps {
+  searchParams: Promise<{ clientId?: string; serviceId?: string; staffId?: string; date?: string }>;
+}
+
+export default async function WaitlistPage({ searchParams }: PageProps) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (!session.user.salonRole && !session.user.isSuperAdmin) {
+    redirect("/dashboard/access-denied");
+  }
+  const userRole = (session.user.salonRole ?? null) as Role | null;
+  const isSuperAdmin = session.user.isSuperAdmin === true;
+
+  if (!hasPermission(userRole, "waitlist:view", isSuperAdmin)) {
+    redirect("/dashboard/access-denied");
+  }
+  const canManage = hasPermission(userRole, "waitlist:manage", isSuperAdmin);
+
+  const salonId = session.user.salonId;
+  if (!salonId) {
+    redirect("/dashboard");
+  }
+
+  const params = await searchParams;
+  const timezone = await getTimezone();
+  const today = formatInTz(new Date(), "yyyy-MM-dd", timezone);
+
+  // Clients and services for the add form (org-scoped)
+  const orgSalonIds = await getOrganizationSalonIds(salonId);
+  const [waitlistResult, clients, services, staff] = await Promise.all([
+    getWaitlist(),
+    canManage
+      ? prisma.client.findMany({
+          where: { salonId: { in: orgSalonIds }, isActive: true },
+          select: { id: true, firstName: true, lastName: true, phone: true },
+          orderBy: { firstName: "asc" },
+        })
+      : [],
+    prisma.service.findMany({
+      where: { salonId: { in: orgSalonIds }, isActive: true },
+      select: { id: true, name: true, duration: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.user.findMany({
+      where: {
+        salonId,
+        role: { in: ["STAFF", "ADMIN", "OWNER"] },
+        isActive: true,
+      },
+      select: { id: true, firstName: true, lastName: true },
+      orderBy: { firstName: "asc" },
+    }),
+  ]);
+
+  // Opened from the booking form when no slots were free
+  const prefill = canManage && params.serviceId
+    ? {
+        clientId: params.clientId ?? "",
+        serviceId: params.serviceId,
+        staffId: params.staffId ?? "",
+        date: params.date && params.date >= today ? params.date : today,
+      }
+    : undefined;
+
+  return (
+    <DashboardLayout userRole={userRole}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Waitlist</h1>
+          <p className="text-muted-foreground">
+            Clients waiting for an opening. Cancelled slots are offered to them automatically.
+          </p>
+        </div>
+
+        {waitlistResult.success ? (
+          <WaitlistPanel
+            entries={waitlistResult.data}
+            clients={clients}
+            services={services}
+            staff={staff}
+            canManage={canManage}
+            today={today}
+            timezone={timezone}
+            prefill={prefill}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-destructive">{waitlistResult.error}</p>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,37 @@
+import { getWaitlistOfferByToken } from "@/lib/actions/waitlist-offer";
+import { WaitlistOfferResponse } from "@/components/booking/waitlist-offer-response";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function WaitlistOfferPage({ params }: PageProps) {
+  const { token } = await params;
+  const result = await getWaitlistOfferByToken(token);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-primary/10 p-4 sm:p-8">
+      <div className="mx-auto max-w-lg space-y-6">
+        {result.success ? (
+          <>
+            <div className="text-center">
+              <h1 className="text-3xl font-bold">{result.data.salonName}</h1>
+              <p className="text-muted-foreground">A spot opened up for you</p>
+            </div>
+            <WaitlistOfferResponse token={token} offer={result.data} />
+          </>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center space-y-2">
+              <p className="font-medium">{result.error}</p>
+              <p className="text-sm text-muted-foreground">
+                Offers are held for a limited time. You&apos;ll hear from us again if another spot opens up.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
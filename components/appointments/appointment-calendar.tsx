@@ -6,15 +6,17 @@ import FullCalendar from "@fullcalendar/react";
 import dayGridPlugin from "@fullcalendar/daygrid";
 import timeGridPlugin from "@fullcalendar/timegrid";
 import interactionPlugin from "@fullcalendar/interaction";
-import { EventClickArg, DateSelectArg, DatesSetArg, EventDropArg } from "@fullcalendar/core";
+import { EventClickArg, DateSelectArg, DatesSetArg, EventDropArg, EventApi } from "@fullcalendar/core";
 import { AppointmentStatus } from "@prisma/client";
 import { AppointmentListItem, getAppointmentsForCalendar, rescheduleAppointment } from "@/lib/actions/appointment";
+import { ClosurePeriod, getCalendarClosures } from "@/lib/actions/holiday";
 import { toast } from "sonner";
 import { AppointmentDetailModal } from "./appointment-detail-modal";
 
 interface AppointmentCalendarProps {
   initialAppointments: AppointmentListItem[];
   canManage?: boolean;
+  canCheckout?: boolean;
   staffFilter?: string;
   businessHoursStart?: string;
   businessHoursEnd?: string;
@@ -36,6 +38,7 @@ const DRAGGABLE_STATUSES: AppointmentStatus[] = ["SCHEDULED", "CONFIRMED"];
 export function AppointmentCalendar({
   initialAppointments,
   canManage = false,
+  canCheckout = false,
   staffFilter,
   businessHoursStart = "08:00",
   businessHoursEnd = "20:00",
@@ -46,6 +49,7 @@ export function AppointmentCalendar({
   const [selectedAppointment, setSelectedAppointment] = useState<AppointmentListItem | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [currentViewDates, setCurrentViewDates] = useState<{ start: Date; end: Date } | null>(null);
+  const [closures, setClosures] = useState<ClosurePeriod[]>([]);
 
   // Convert appointments to FullCalendar events
   const events = appointments.map((apt) => {
@@ -75,20 +79,37 @@ export function AppointmentCalendar({
     };
   });
 
+  // Salon holidays shade the closed time and can't be booked or dropped onto
+  const closureEvents = closures.map((closure) => ({
+    id: `closure-${closure.day}-${new Date(closure.start).getTime()}`,
+    title: closure.name,
+    start: closure.start,
+    end: closure.end,
+    display: "background",
+    overlap: false,
+    classNames: ["fc-closure"],
+  }));
+
   // Handle date range change
   const handleDatesSet = useCallback(
     async (arg: DatesSetArg) => {
       setCurrentViewDates({ start: arg.start, end: arg.end });
 
-      const result = await getAppointmentsForCalendar({
-        startDate: arg.start,
-        endDate: arg.end,
-        staffId: staffFilter,
-      });
+      const [result, closuresResult] = await Promise.all([
+        getAppointmentsForCalendar({
+          startDate: arg.start,
+          endDate: arg.end,
+          staffId: staffFilter,
+        }),
+        getCalendarClosures({ startDate: arg.start, endDate: arg.end }),
+      ]);
 
       if (result.success) {
         setAppointments(result.data);
       }
+      if (closuresResult.success) {
+        setClosures(closuresResult.data);
+      }
     },
     [staffFilter]
   );
@@ -110,7 +131,8 @@ export function AppointmentCalendar({
 
   // Handle event click
   const handleEventClick = (arg: EventClickArg) => {
-    const appointment = arg.event.extendedProps.appointment as AppointmentListItem;
+    const appointment = arg.event.extendedProps.appointment as AppointmentListItem | undefined;
+    if (!appointment) return; // Closure backgrounds
     setSelectedAppointment(appointment);
     setIsModalOpen(true);
   };
@@ -236,6 +258,23 @@ export function AppointmentCalendar({
         .appointment-calendar .fc-event-recurring .fc-event-title::before {
           content: "";
         }
+
+        .appointment-calendar .fc-closure {
+          background: repeating-linear-gradient(
+            45deg,
+            hsl(var(--muted)),
+            hsl(var(--muted)) 6px,
+            hsl(var(--muted-foreground) / 0.15) 6px,
+            hsl(var(--muted-foreground) / 0.15) 12px
+          );
+          opacity: 0.8;
+        }
+
+        .appointment-calendar .fc-closure .fc-event-title {
+          color: hsl(var(--muted-foreground));
+          font-style: italic;
+          font-size: 0.75rem;
+        }
       `}</style>
 
       <FullCalendar
@@ -247,10 +286,11 @@ export function AppointmentCalendar({
           center: "title",
           right: "dayGridMonth,timeGridWeek,timeGridDay",
         }}
-        events={events}
+        events={[...closureEvents, ...events]}
         eventClick={handleEventClick}
         eventDrop={handleEventDrop}
         selectable={canManage}
+        selectOverlap={(event: EventApi) => event.display !== "background"}
         select={handleDateSelect}
         datesSet={handleDatesSet}
         slotMinTime={businessHoursStart}
@@ -271,6 +311,7 @@ export function AppointmentCalendar({
           onClose={handleModalClose}
           onDataChange={refreshAppointments}
           canManage={canManage}
+          canCheckout={canCheckout}
           timezone={timezone}
         />
       )}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { formatInTz } from "@/lib/utils/timezone";
 import { AppointmentStatus } from "@prisma/client";
 import { toast } from "sonner";
@@ -21,6 +22,8 @@ import {
   AlertCircle,
   Repeat,
   Download,
+  ShoppingCart,
+  Receipt,
 } from "lucide-react";
 
 import {
@@ -53,6 +56,7 @@ import {
   cancelFromDate,
 } from "@/lib/actions/recurring-series";
 import { RecurringSeriesBadge } from "./recurring-series-badge";
+import { AppointmentPaymentsPanel } from "./appointment-payments-panel";
 import { EditChoiceModal, EditChoice } from "./edit-choice-modal";
 import { CancelChoiceModal, CancelScope } from "./cancel-choice-modal";
 
@@ -62,6 +66,7 @@ interface AppointmentDetailModalProps {
   onClose: () => void;
   onDataChange?: () => void;
   canManage?: boolean;
+  canCheckout?: boolean;
   timezone: string;
 }
 
@@ -83,6 +88,7 @@ export function AppointmentDetailModal({
   onClose,
   onDataChange,
   canManage = false,
+  canCheckout = false,
   timezone,
 }: AppointmentDetailModalProps) {
   const router = useRouter();
@@ -271,8 +277,18 @@ export function AppointmentDetailModal({
   const canStart = appointment.status === "SCHEDULED" || appointment.status === "CONFIRMED";
   const canComplete = appointment.status === "IN_PROGRESS";
   const canCancel = !["COMPLETED", "CANCELLED"].includes(appointment.status);
+  // A sale without an invoice is an abandoned checkout, so the appointment can still be checked out
+  const checkedOutInvoice = appointment.sale?.invoice?.invoiceNumber;
+  const canCheckoutAppointment =
+    canCheckout && !checkedOutInvoice && !["CANCELLED", "NO_SHOW"].includes(appointment.status);
   const canMarkNoShow =
     appointment.status === "SCHEDULED" || appointment.status === "CONFIRMED";
+  // Online bookings match existing clients by phone alone, so flag a different email for staff to check
+  const bookedAs =
+    appointment.bookingRequest &&
+    appointment.bookingRequest.email !== appointment.client.email?.toLowerCase()
+      ? appointment.bookingRequest
+      : null;
 
   return (
     <>
@@ -281,9 +297,21 @@ export function AppointmentDetailModal({
           <DialogHeader>
             <div className="flex items-center justify-between">
               <DialogTitle className="text-xl">Appointment Details</DialogTitle>
-              <Badge variant={statusConfig[appointment.status].variant}>
-                {statusConfig[appointment.status].label}
-              </Badge>
+              <div className="flex items-center gap-2">
+                {appointment.source === "ONLINE" && (
+                  <Badge variant="outline" className="text-xs">
+                    Booked Online
+                  </Badge>
+                )}
+                {appointment.source === "WAITLIST" && (
+                  <Badge variant="outline" className="text-xs">
+                    From Waitlist
+                  </Badge>
+                )}
+                <Badge variant={statusConfig[appointment.status].variant}>
+                  {statusConfig[appointment.status].label}
+                </Badge>
+              </div>
             </div>
           </DialogHeader>
 
@@ -321,6 +349,12 @@ export function AppointmentDetailModal({
                   {appointment.client.email}
                 </p>
               )}
+              {bookedAs && (
+                <p className="text-sm text-amber-600 flex items-center gap-2">
+                  <AlertCircle className="h-3 w-3" />
+                  Booked online as {bookedAs.firstName} {bookedAs.lastName} ({bookedAs.email}). Check this is the same client.
+                </p>
+              )}
             </div>
 
             {/* Service Info */}
@@ -342,6 +376,12 @@ export function AppointmentDetailModal({
               </div>
             </div>
 
+            <AppointmentPaymentsPanel
+              appointment={appointment}
+              canManage={canManage}
+              onChange={onDataChange}
+            />
+
             {/* Time & Staff */}
             <div className="rounded-lg border p-4 space-y-2">
               <h3 className="font-semibold flex items-center gap-2">
@@ -391,6 +431,26 @@ export function AppointmentDetailModal({
               </div>
             )}
 
+            {/* Checkout */}
+            {checkedOutInvoice ? (
+              <div className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Receipt className="h-4 w-4" />
+                  Checked out on invoice {checkedOutInvoice}
+                </span>
+                <Button size="sm" variant="ghost" asChild>
+                  <Link href={`/dashboard/sales/${appointment.sale!.id}`}>View Sale</Link>
+                </Button>
+              </div>
+            ) : canCheckoutAppointment && (
+              <Button className="w-full" asChild>
+                <Link href={`/dashboard/sales/new?appointment=${appointment.id}`}>
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  Check Out
+                </Link>
+              </Button>
+            )}
+
             {/* Actions */}
             {canManage && (
               <div className="space-y-2 pt-2">
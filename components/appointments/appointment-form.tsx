@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { format } from "date-fns";
@@ -38,7 +39,7 @@ import {
   AppointmentFormData,
   AppointmentFormInput,
 } from "@/lib/validations/appointment";
-import { RecurrencePattern, RecurrenceEndType } from "@prisma/client";
+import { RecurrencePattern, RecurrenceEndType, AmountType } from "@prisma/client";
 import { PatternSelector, getPatternSummary } from "./pattern-selector";
 import { EndConditionSelector, getEndConditionSummary } from "./end-condition-selector";
 import {
@@ -51,6 +52,7 @@ import { createRecurringSeries, previewRecurringConflicts, getRecurringPreviewDa
 import { ConflictResolutionUI, AlternativeSlot, SelectedAlternative } from "./conflict-resolution-ui";
 import { createWalkInClient } from "@/lib/actions/client";
 import { cn } from "@/lib/utils";
+import { getServiceDeposit } from "@/lib/utils/deposit";
 
 interface Client {
   id: string;
@@ -66,6 +68,8 @@ interface Service {
   duration: number;
   price: number | string;
   category: string | null;
+  depositType?: AmountType | null;
+  depositValue?: number | null;
 }
 
 interface Staff {
@@ -147,6 +151,17 @@ export function AppointmentForm({
   const watchedStaffId = watch("staffId");
   const watchedServiceId = watch("serviceId");
   const watchedStartTime = watch("startTime");
+  const watchedClientId = watch("clientId");
+  const watchedDepositMethod = watch("depositMethod");
+
+  const selectedService = services.find((s) => s.id === watchedServiceId);
+  const depositAmount = selectedService
+    ? getServiceDeposit({
+        price: selectedService.price,
+        depositType: selectedService.depositType ?? null,
+        depositValue: selectedService.depositValue ?? null,
+      })
+    : 0;
 
   // Update dayOfWeek when selected date changes
   useEffect(() => {
@@ -214,10 +229,12 @@ export function AppointmentForm({
       try {
         const result = await getAvailableSlots({
           staffId: watchedStaffId,
-          date: selectedDate,
+          date: format(selectedDate, "yyyy-MM-dd"),
           serviceId: watchedServiceId,
           // In edit mode, exclude the current appointment from conflict check
           excludeAppointmentId: mode === "edit" ? appointment?.id : undefined,
+          // Recurring series keep their buffer free after each appointment
+          bufferMinutes: isRecurring && bufferMinutes > 0 ? bufferMinutes : undefined,
         });
 
         if (result.success) {
@@ -229,7 +246,7 @@ export function AppointmentForm({
     };
 
     fetchSlots();
-  }, [watchedStaffId, watchedServiceId, selectedDate, mode, appointment?.id]);
+  }, [watchedStaffId, watchedServiceId, selectedDate, mode, appointment?.id, isRecurring, bufferMinutes]);
 
   // Auto-select the matching time slot when slots load
   useEffect(() => {
@@ -700,10 +717,26 @@ export function AppointmentForm({
                   })}
                 </div>
               ) : (
-                <p className="text-sm text-muted-foreground py-4 text-center">
-                  No available time slots for this date. Please select a different date or staff
-                  member.
-                </p>
+                <div className="py-4 text-center space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    No available time slots for this date. Please select a different date or staff
+                    member.
+                  </p>
+                  {mode === "create" && (
+                    <Button type="button" variant="link" size="sm" asChild>
+                      <Link
+                        href={`/dashboard/waitlist?${new URLSearchParams({
+                          ...(watchedClientId && { clientId: watchedClientId }),
+                          serviceId: watchedServiceId,
+                          staffId: watchedStaffId,
+                          date: format(selectedDate, "yyyy-MM-dd"),
+                        })}`}
+                      >
+                        Add client to the waitlist instead
+                      </Link>
+                    </Button>
+                  )}
+                </div>
               )}
               {errors.startTime && (
                 <p className="text-sm text-destructive">{errors.startTime.message}</p>
@@ -993,6 +1026,37 @@ export function AppointmentForm({
         </Card>
       )}
 
+      {mode === "create" && !isRecurring && depositAmount > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Deposit</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              This service takes a ${depositAmount.toFixed(2)} deposit. It is credited at checkout and kept
+              if the client doesn&apos;t show or cancels late.
+            </p>
+            <Select
+              value={watchedDepositMethod ?? "NONE"}
+              onValueChange={(value) =>
+                setValue("depositMethod", value === "NONE" ? undefined : (value as AppointmentFormData["depositMethod"]))
+              }
+            >
+              <SelectTrigger className="sm:w-[260px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="NONE">Collect later</SelectItem>
+                <SelectItem value="CASH">Paid by cash</SelectItem>
+                <SelectItem value="CARD">Paid by card</SelectItem>
+                <SelectItem value="DIGITAL_WALLET">Paid by digital wallet</SelectItem>
+                <SelectItem value="OTHER">Paid by other method</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Additional Information</CardTitle>
@@ -0,0 +1,215 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { DepositStatus } from "@prisma/client";
+import { toast } from "sonner";
+import { Wallet, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AppointmentListItem } from "@/lib/actions/appointment";
+import { collectDeposit, refundDeposit } from "@/lib/actions/deposit";
+import { collectAppointmentCharge, waiveAppointmentCharge } from "@/lib/actions/appointment-charge";
+import { DepositMethodType } from "@/lib/validations/appointment";
+import { getServiceDeposit } from "@/lib/utils/deposit";
+
+interface AppointmentPaymentsPanelProps {
+  appointment: AppointmentListItem;
+  canManage: boolean;
+  onChange?: () => void;
+}
+
+const depositStatusConfig: Record<
+  DepositStatus,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  HELD: { label: "Held", variant: "secondary" },
+  APPLIED: { label: "Applied at checkout", variant: "outline" },
+  FORFEITED: { label: "Forfeited", variant: "destructive" },
+  REFUNDED: { label: "To refund", variant: "outline" },
+};
+
+const methodLabels: Record<DepositMethodType, string> = {
+  CASH: "Cash",
+  CARD: "Card",
+  DIGITAL_WALLET: "Digital wallet",
+  OTHER: "Other",
+};
+
+/** Deposit taken for the appointment and any no-show / late cancellation charge. */
+export function AppointmentPaymentsPanel({ appointment, canManage, onChange }: AppointmentPaymentsPanelProps) {
+  const router = useRouter();
+  const [method, setMethod] = useState<DepositMethodType>("CARD");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { deposits, charge } = appointment;
+  const requiredDeposit = getServiceDeposit(appointment.service);
+  const hasActiveDeposit = deposits.some((d) => d.depositStatus === "HELD" || d.depositStatus === "APPLIED");
+  const canTakeDeposit =
+    canManage &&
+    requiredDeposit > 0 &&
+    !hasActiveDeposit &&
+    (appointment.status === "SCHEDULED" || appointment.status === "CONFIRMED");
+  const balance = charge ? Number(charge.amount) - Number(charge.depositApplied) : 0;
+  const chargeOutstanding = charge?.status === "OUTSTANDING";
+
+  if (deposits.length === 0 && !charge && !canTakeDeposit) return null;
+
+  const run = async (action: () => Promise<{ success: true } | { success: false; error: string }>, message: string) => {
+    setIsSubmitting(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        toast.success(message);
+        onChange?.();
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const methodSelect = (
+    <Select value={method} onValueChange={(value) => setMethod(value as DepositMethodType)}>
+      <SelectTrigger className="h-8 w-[140px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(methodLabels) as DepositMethodType[]).map((m) => (
+          <SelectItem key={m} value={m}>
+            {methodLabels[m]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <Wallet className="h-4 w-4" />
+        Deposit & Fees
+      </h3>
+
+      {deposits.map((deposit) => (
+        <div key={deposit.id} className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span>
+              Deposit ${Number(deposit.amount).toFixed(2)}
+              <span className="text-muted-foreground"> · {methodLabels[deposit.method as DepositMethodType] ?? deposit.method}</span>
+            </span>
+            {deposit.refundedAt ? (
+              <Badge variant="outline" className="text-xs">
+                Refunded ({methodLabels[deposit.refundMethod as DepositMethodType] ?? deposit.refundMethod})
+              </Badge>
+            ) : (
+              deposit.depositStatus && (
+                <Badge variant={depositStatusConfig[deposit.depositStatus].variant} className="text-xs">
+                  {depositStatusConfig[deposit.depositStatus].label}
+                </Badge>
+              )
+            )}
+          </div>
+          {deposit.depositStatus === "REFUNDED" && !deposit.refundedAt && canManage && (
+            <div className="flex items-center justify-end gap-2">
+              {methodSelect}
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isSubmitting}
+                onClick={() =>
+                  run(() => refundDeposit({ paymentId: deposit.id, method }), "Deposit refund recorded")
+                }
+              >
+                Refund ${Number(deposit.amount).toFixed(2)}
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {canTakeDeposit && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-muted-foreground">
+            ${requiredDeposit.toFixed(2)} deposit not taken
+          </span>
+          <div className="flex items-center gap-2">
+            {methodSelect}
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isSubmitting}
+              onClick={() => run(() => collectDeposit({ appointmentId: appointment.id, method }), "Deposit recorded")}
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Take Deposit
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {charge && (
+        <div className="space-y-2 border-t pt-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">
+              {charge.type === "NO_SHOW" ? "No-show fee" : "Late cancellation fee"} ${Number(charge.amount).toFixed(2)}
+            </span>
+            <Badge
+              variant={charge.status === "OUTSTANDING" ? "destructive" : "outline"}
+              className="text-xs"
+            >
+              {charge.status === "OUTSTANDING" ? "Outstanding" : charge.status === "PAID" ? "Paid" : "Waived"}
+            </Badge>
+          </div>
+          {Number(charge.depositApplied) > 0 && (
+            <p className="text-xs text-muted-foreground">
+              ${Number(charge.depositApplied).toFixed(2)} covered by the forfeited deposit
+            </p>
+          )}
+          {chargeOutstanding && canManage && (
+            <div className="flex flex-wrap items-center gap-2">
+              {methodSelect}
+              <Button
+                size="sm"
+                disabled={isSubmitting}
+                onClick={() =>
+                  run(() => collectAppointmentCharge({ chargeId: charge.id, method }), "Fee payment recorded")
+                }
+              >
+                Collect ${balance.toFixed(2)}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={isSubmitting}
+                onClick={() => run(() => waiveAppointmentCharge(charge.id), "Fee waived")}
+              >
+                Waive
+              </Button>
+            </div>
+          )}
+          {charge.status === "PAID" && balance <= 0 && canManage && (
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={isSubmitting}
+              onClick={() => run(() => waiveAppointmentCharge(charge.id), "Fee waived")}
+            >
+              Waive and refund deposit
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -277,7 +277,11 @@ export function AuditLogClient({
                       {formatDate(log.createdAt)}
                     </TableCell>
                     <TableCell className="font-medium">
-                      {log.user ? `${log.user.firstName} ${log.user.lastName}` : "Deleted user"}
+                      {log.user
+                        ? `${log.user.firstName} ${log.user.lastName}`
+                        : log.userRole === "CLIENT"
+                          ? "Client (self-service)"
+                          : "Deleted user"}
                     </TableCell>
                     <TableCell>
                       <Badge variant="outline" className="text-xs">
@@ -0,0 +1,412 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowLeft, CalendarCheck, Clock, Loader2, Mail } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  PublicBookingInfo,
+  getPublicAvailableSlots,
+  requestOnlineBooking,
+  confirmOnlineBooking,
+} from "@/lib/actions/booking";
+import { bookingDetailsSchema, BookingDetailsFormData } from "@/lib/validations/booking";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatInTz, getNow } from "@/lib/utils/timezone";
+
+type Step = "service" | "time" | "details" | "verify" | "done";
+
+interface BookingFlowProps {
+  info: PublicBookingInfo;
+}
+
+function formatDuration(minutes: number) {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+}
+
+export function BookingFlow({ info }: BookingFlowProps) {
+  const { salon, services, staff } = info;
+  const tz = salon.timezone;
+  const today = useMemo(() => formatInTz(getNow(tz), "yyyy-MM-dd", tz), [tz]);
+
+  const [step, setStep] = useState<Step>("service");
+  const [serviceId, setServiceId] = useState("");
+  const [staffId, setStaffId] = useState(staff.length === 1 ? staff[0].id : "");
+  const [date, setDate] = useState(today);
+  const [slots, setSlots] = useState<{ startTime: Date; endTime: Date }[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [startTime, setStartTime] = useState<Date | null>(null);
+  const [requestId, setRequestId] = useState("");
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const service = services.find((s) => s.id === serviceId);
+  const staffMember = staff.find((s) => s.id === staffId);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<BookingDetailsFormData>({
+    resolver: zodResolver(bookingDetailsSchema),
+    defaultValues: { firstName: "", lastName: "", email: "", phone: "", notes: "" },
+  });
+
+  // Load available times whenever the selection changes
+  useEffect(() => {
+    if (step !== "time" || !serviceId || !staffId || !date) return;
+
+    let cancelled = false;
+    setIsLoadingSlots(true);
+    setStartTime(null);
+    getPublicAvailableSlots({ slug: salon.slug, serviceId, staffId, date })
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success) {
+          setSlots(result.data);
+        } else {
+          setSlots([]);
+          toast.error(result.error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSlots(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [step, salon.slug, serviceId, staffId, date]);
+
+  const onSubmitDetails = async (data: BookingDetailsFormData) => {
+    if (!startTime) return;
+    setIsSubmitting(true);
+
+    try {
+      const result = await requestOnlineBooking({
+        ...data,
+        slug: salon.slug,
+        serviceId,
+        staffId,
+        startTime,
+      });
+
+      if (result.success) {
+        setRequestId(result.data.requestId);
+        setEmail(data.email);
+        setCode("");
+        setStep("verify");
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onVerify = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const result = await confirmOnlineBooking({ requestId, code });
+      if (result.success) {
+        setStep("done");
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const summary = service && staffMember && startTime && (
+    <div className="rounded-lg border p-4 space-y-1 text-sm">
+      <p className="font-medium">{service.name}</p>
+      <p className="text-muted-foreground">
+        with {staffMember.firstName} {staffMember.lastName}
+      </p>
+      <p className="text-muted-foreground">
+        {formatInTz(startTime, "EEEE, MMMM d 'at' h:mm a", tz)}
+      </p>
+    </div>
+  );
+
+  if (services.length === 0 || staff.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Online booking isn&apos;t available right now. Please contact the salon directly.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (step === "service") {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Choose a Service</CardTitle>
+          <CardDescription>Select the service you&apos;d like to book</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {services.map((s) => (
+            <button
+              key={s.id}
+              type="button"
+              onClick={() => {
+                setServiceId(s.id);
+                setStep("time");
+              }}
+              className="w-full rounded-lg border p-4 text-left transition-colors hover:bg-accent"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium">{s.name}</p>
+                  {s.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">{s.description}</p>
+                  )}
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Clock className="h-3 w-3" />
+                    {formatDuration(s.duration)}
+                    {s.category && (
+                      <Badge variant="secondary" className="text-xs">
+                        {s.category}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <p className="font-semibold whitespace-nowrap">
+                  {formatCurrency(s.price, salon.currencyCode)}
+                </p>
+              </div>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (step === "time") {
+    return (
+      <Card>
+        <CardHeader>
+          <Button variant="ghost" size="sm" className="w-fit -ml-2" onClick={() => setStep("service")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <CardTitle>Pick a Time</CardTitle>
+          <CardDescription>
+            {service?.name} · {service && formatDuration(service.duration)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Staff Member</Label>
+              <Select value={staffId} onValueChange={setStaffId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select staff" />
+                </SelectTrigger>
+                <SelectContent>
+                  {staff.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.firstName} {s.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="date">Date</Label>
+              <Input
+                id="date"
+                type="date"
+                min={today}
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {!staffId ? (
+            <p className="text-sm text-muted-foreground">Select a staff member to see available times.</p>
+          ) : isLoadingSlots ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : slots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No times available on this day. Try another date.</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {slots.map((slot) => {
+                const isSelected = startTime?.getTime() === new Date(slot.startTime).getTime();
+                return (
+                  <Button
+                    key={new Date(slot.startTime).toISOString()}
+                    type="button"
+                    variant={isSelected ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setStartTime(new Date(slot.startTime))}
+                  >
+                    {formatInTz(slot.startTime, "h:mm a", tz)}
+                  </Button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button disabled={!startTime} onClick={() => setStep("details")}>
+              Continue
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (step === "details") {
+    return (
+      <Card>
+        <CardHeader>
+          <Button variant="ghost" size="sm" className="w-fit -ml-2" onClick={() => setStep("time")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <CardTitle>Your Details</CardTitle>
+          <CardDescription>We&apos;ll email you a code to confirm your booking</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit(onSubmitDetails)} noValidate className="space-y-4">
+            {summary}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="firstName">First Name *</Label>
+                <Input id="firstName" {...register("firstName")} />
+                {errors.firstName && (
+                  <p className="text-sm text-destructive">{errors.firstName.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lastName">Last Name</Label>
+                <Input id="lastName" {...register("lastName")} />
+                {errors.lastName && (
+                  <p className="text-sm text-destructive">{errors.lastName.message}</p>
+                )}
+              </div>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email *</Label>
+                <Input id="email" type="email" {...register("email")} />
+                {errors.email && (
+                  <p className="text-sm text-destructive">{errors.email.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone *</Label>
+                <Input id="phone" type="tel" {...register("phone")} />
+                {errors.phone && (
+                  <p className="text-sm text-destructive">{errors.phone.message}</p>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea id="notes" rows={3} placeholder="Anything we should know?" {...register("notes")} />
+              {errors.notes && (
+                <p className="text-sm text-destructive">{errors.notes.message}</p>
+              )}
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send Confirmation Code
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (step === "verify") {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Check Your Email
+          </CardTitle>
+          <CardDescription>
+            Enter the 6-digit code we sent to {email}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {summary}
+          <div className="space-y-2">
+            <Label htmlFor="code">Verification Code</Label>
+            <Input
+              id="code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              className="text-center text-2xl tracking-[0.5em]"
+            />
+          </div>
+          <div className="flex justify-between">
+            <Button variant="ghost" onClick={() => setStep("details")} disabled={isSubmitting}>
+              Change Details
+            </Button>
+            <Button onClick={onVerify} disabled={isSubmitting || code.length !== 6}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm Booking
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="py-12 text-center space-y-4">
+        <div className="flex justify-center">
+          <div className="h-12 w-12 rounded-full bg-green-100 flex items-center justify-center">
+            <CalendarCheck className="h-6 w-6 text-green-600" />
+          </div>
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold">You&apos;re Booked!</h2>
+          <p className="text-muted-foreground">A confirmation has been sent to {email}</p>
+        </div>
+        <div className="max-w-sm mx-auto text-left">{summary}</div>
+      </CardContent>
+    </Card>
+  );
+}
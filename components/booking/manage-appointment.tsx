@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { CalendarClock, Check, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ManagedAppointment,
+  confirmAppointmentByToken,
+  cancelAppointmentByToken,
+  getRescheduleSlotsByToken,
+  rescheduleAppointmentByToken,
+} from "@/lib/actions/appointment-link";
+import { formatInTz } from "@/lib/utils/timezone";
+
+const statusLabels: Record<ManagedAppointment["status"], string> = {
+  SCHEDULED: "Scheduled",
+  CONFIRMED: "Confirmed",
+  IN_PROGRESS: "In Progress",
+  COMPLETED: "Completed",
+  CANCELLED: "Cancelled",
+  NO_SHOW: "No Show",
+};
+
+interface ManageAppointmentProps {
+  token: string;
+  appointment: ManagedAppointment;
+}
+
+export function ManageAppointment({ token, appointment }: ManageAppointmentProps) {
+  const router = useRouter();
+  const tz = appointment.timezone;
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const [date, setDate] = useState(formatInTz(appointment.startTime, "yyyy-MM-dd", tz));
+  const [slots, setSlots] = useState<{ startTime: Date; endTime: Date }[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [newStartTime, setNewStartTime] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!isRescheduling || !date) return;
+
+    let cancelled = false;
+    setIsLoadingSlots(true);
+    setNewStartTime(null);
+    getRescheduleSlotsByToken({ token, date })
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success) {
+          setSlots(result.data);
+        } else {
+          setSlots([]);
+          toast.error(result.error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSlots(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isRescheduling, token, date]);
+
+  const handleConfirm = async () => {
+    setIsUpdating(true);
+    const result = await confirmAppointmentByToken(token);
+    if (result.success) {
+      toast.success("Thanks! Your appointment is confirmed.");
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setIsUpdating(false);
+  };
+
+  const handleCancel = async () => {
+    setIsUpdating(true);
+    const result = await cancelAppointmentByToken(token);
+    if (result.success) {
+      toast.success("Your appointment has been cancelled.");
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setIsUpdating(false);
+    setShowCancelDialog(false);
+  };
+
+  const handleReschedule = async () => {
+    if (!newStartTime) return;
+    setIsUpdating(true);
+    const result = await rescheduleAppointmentByToken({ token, startTime: newStartTime });
+    if (result.success) {
+      toast.success("Your appointment has been rescheduled.");
+      setIsRescheduling(false);
+      router.replace(`/appointment/${result.data.token}`);
+    } else {
+      toast.error(result.error);
+    }
+    setIsUpdating(false);
+  };
+
+  const isActive = appointment.status === "SCHEDULED" || appointment.status === "CONFIRMED";
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Hi {appointment.clientFirstName},</CardTitle>
+            <Badge variant={appointment.status === "CANCELLED" ? "destructive" : "secondary"}>
+              {statusLabels[appointment.status]}
+            </Badge>
+          </div>
+          <CardDescription>Here are your appointment details</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-lg border p-4 space-y-1 text-sm">
+            <p className="font-medium">{appointment.serviceName}</p>
+            <p className="text-muted-foreground">with {appointment.staffName}</p>
+            <p className="text-muted-foreground">
+              {formatInTz(appointment.startTime, "EEEE, MMMM d 'at' h:mm a", tz)}
+            </p>
+          </div>
+
+          {isActive && (
+            <div className="flex flex-wrap gap-2">
+              {appointment.canConfirm && (
+                <Button onClick={handleConfirm} disabled={isUpdating}>
+                  {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                  Confirm
+                </Button>
+              )}
+              {appointment.canChange && (
+                <>
+                  <Button variant="outline" onClick={() => setIsRescheduling((v) => !v)} disabled={isUpdating}>
+                    <CalendarClock className="mr-2 h-4 w-4" />
+                    Reschedule
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowCancelDialog(true)} disabled={isUpdating}>
+                    <X className="mr-2 h-4 w-4" />
+                    Cancel
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {isActive && !appointment.canChange && (
+            <p className="text-sm text-muted-foreground">
+              Online changes closed {formatInTz(appointment.changeDeadline, "MMM d 'at' h:mm a", tz)}.
+              {appointment.salonPhone && <> Please call {appointment.salonPhone} to make changes.</>}
+            </p>
+          )}
+
+          {isRescheduling && (
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="space-y-2">
+                <Label htmlFor="date">New Date</Label>
+                <Input id="date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+
+              {isLoadingSlots ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : slots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No times available on this day. Try another date.</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  {slots.map((slot) => {
+                    const isSelected = newStartTime?.getTime() === new Date(slot.startTime).getTime();
+                    return (
+                      <Button
+                        key={new Date(slot.startTime).toISOString()}
+                        type="button"
+                        variant={isSelected ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setNewStartTime(new Date(slot.startTime))}
+                      >
+                        {formatInTz(slot.startTime, "h:mm a", tz)}
+                      </Button>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button onClick={handleReschedule} disabled={!newStartTime || isUpdating}>
+                  {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Move Appointment
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Appointment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to cancel your {appointment.serviceName} appointment?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>No, keep it</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} disabled={isUpdating}>
+              Yes, cancel
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
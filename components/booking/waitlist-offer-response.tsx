@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  WaitlistOfferDetails,
+  acceptWaitlistOffer,
+  declineWaitlistOffer,
+} from "@/lib/actions/waitlist-offer";
+import { formatInTz } from "@/lib/utils/timezone";
+
+const statusLabels: Record<WaitlistOfferDetails["status"], string> = {
+  PENDING: "Held for You",
+  ACCEPTED: "Booked",
+  DECLINED: "Declined",
+  EXPIRED: "Expired",
+};
+
+interface WaitlistOfferResponseProps {
+  token: string;
+  offer: WaitlistOfferDetails;
+}
+
+export function WaitlistOfferResponse({ token, offer }: WaitlistOfferResponseProps) {
+  const router = useRouter();
+  const tz = offer.timezone;
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const handleAccept = async () => {
+    setIsUpdating(true);
+    const result = await acceptWaitlistOffer(token);
+    if (result.success) {
+      toast.success("You're booked! A confirmation is on its way.");
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setIsUpdating(false);
+  };
+
+  const handleDecline = async () => {
+    setIsUpdating(true);
+    const result = await declineWaitlistOffer(token);
+    if (result.success) {
+      toast.success("No problem — you're still on the waitlist.");
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setIsUpdating(false);
+  };
+
+  // The offer may still read PENDING after its hold lapsed, until the next cron run
+  const status = offer.status === "PENDING" && !offer.canRespond ? "EXPIRED" : offer.status;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Hi {offer.clientFirstName},</CardTitle>
+          <Badge variant={status === "ACCEPTED" ? "default" : status === "PENDING" ? "secondary" : "outline"}>
+            {statusLabels[status]}
+          </Badge>
+        </div>
+        <CardDescription>
+          {status === "ACCEPTED"
+            ? "Your appointment is booked. We look forward to seeing you!"
+            : status === "PENDING"
+              ? `We're holding this time for you until ${formatInTz(offer.expiresAt, "MMM d 'at' h:mm a", tz)}`
+              : "This offer is no longer available"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-lg border p-4 space-y-1 text-sm">
+          <p className="font-medium">{offer.serviceName}</p>
+          <p className="text-muted-foreground">with {offer.staffName}</p>
+          <p className="text-muted-foreground">
+            {formatInTz(offer.startTime, "EEEE, MMMM d 'at' h:mm a", tz)}
+          </p>
+        </div>
+
+        {offer.canRespond && (
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleAccept} disabled={isUpdating}>
+              {isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+              Book This Time
+            </Button>
+            <Button variant="outline" onClick={handleDecline} disabled={isUpdating}>
+              <X className="mr-2 h-4 w-4" />
+              Not This Time
+            </Button>
+          </div>
+        )}
+
+        {(status === "DECLINED" || status === "EXPIRED") && (
+          <p className="text-sm text-muted-foreground">
+            You&apos;re still on the waitlist and we&apos;ll let you know if another spot opens up.
+            {offer.salonPhone && <> Questions? Call {offer.salonPhone}.</>}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,505 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowDownToLine, ArrowUpFromLine, Coins, FileText, Loader2, Lock, LockOpen } from "lucide-react";
+import { toast } from "sonner";
+import { CashMovementType } from "@prisma/client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  openCashDrawer,
+  recordCashMovement,
+  closeCashDrawer,
+  getCashDrawerSession,
+  CashDrawerDetail,
+  CashDrawerSessionItem,
+} from "@/lib/actions/cash-drawer";
+import {
+  cashDenominations,
+  cashVariance,
+  countedCashTotal,
+  varianceLabel,
+} from "@/lib/utils/cash-drawer";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatInTz } from "@/lib/utils/timezone";
+import { downloadZReportPDF } from "./z-report-pdf";
+
+interface CashDrawerPanelProps {
+  current: CashDrawerDetail | null;
+  sessions: CashDrawerSessionItem[];
+  canOperate: boolean;
+  currencyCode: string;
+  timezone: string;
+}
+
+function VarianceBadge({ variance, currencyCode }: { variance: number; currencyCode: string }) {
+  const label = varianceLabel(variance);
+  return (
+    <Badge variant={label === "Short" ? "destructive" : label === "Over" ? "secondary" : "outline"}>
+      {label === "Balanced" ? label : `${label} ${formatCurrency(Math.abs(variance), currencyCode)}`}
+    </Badge>
+  );
+}
+
+export function CashDrawerPanel({ current, sessions, canOperate, currencyCode, timezone }: CashDrawerPanelProps) {
+  const router = useRouter();
+  const fmtCurrency = (value: number) => formatCurrency(value, currencyCode);
+  const fmtDateTime = (date: Date | string) => formatInTz(date, "MMM d, yyyy h:mm a", timezone);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  // Open drawer
+  const [isOpenDialog, setIsOpenDialog] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [openingNote, setOpeningNote] = useState("");
+
+  // Pay in / pay out
+  const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+
+  // Close drawer
+  const denominationValues = cashDenominations(currencyCode);
+  const [isCloseDialog, setIsCloseDialog] = useState(false);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [closingNote, setClosingNote] = useState("");
+
+  const denominations = denominationValues.map((value) => ({
+    value,
+    count: Math.max(0, parseInt(counts[value] ?? "", 10) || 0),
+  }));
+  const counted = countedCashTotal(denominations);
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsSubmitting(true);
+    try {
+      if (await action()) router.refresh();
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpen = () =>
+    run(async () => {
+      const result = await openCashDrawer({ openingFloat: parseFloat(openingFloat) || 0, note: openingNote });
+      if (!result.success) {
+        toast.error(result.error);
+        return false;
+      }
+      toast.success("Cash drawer opened");
+      setIsOpenDialog(false);
+      setOpeningFloat("");
+      setOpeningNote("");
+      return true;
+    });
+
+  const handleMovement = () =>
+    run(async () => {
+      if (!movementType) return false;
+      const result = await recordCashMovement({
+        type: movementType,
+        amount: parseFloat(movementAmount) || 0,
+        reason: movementReason,
+      });
+      if (!result.success) {
+        toast.error(result.error);
+        return false;
+      }
+      toast.success(movementType === CashMovementType.PAY_IN ? "Pay-in recorded" : "Pay-out recorded");
+      setMovementType(null);
+      setMovementAmount("");
+      setMovementReason("");
+      return true;
+    });
+
+  const handleClose = () =>
+    run(async () => {
+      const result = await closeCashDrawer({ denominations, note: closingNote });
+      if (!result.success) {
+        toast.error(result.error);
+        return false;
+      }
+      const label = varianceLabel(result.data.variance);
+      toast.success(
+        label === "Balanced"
+          ? "Cash drawer closed and balanced"
+          : `Cash drawer closed ${fmtCurrency(Math.abs(result.data.variance))} ${label.toLowerCase()}`
+      );
+      setIsCloseDialog(false);
+      setCounts({});
+      setClosingNote("");
+      return true;
+    });
+
+  const handleDownload = async (sessionId: string) => {
+    setDownloadingId(sessionId);
+    try {
+      const result = await getCashDrawerSession(sessionId);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      await downloadZReportPDF(result.data, currencyCode, timezone);
+    } catch (error) {
+      console.error("Error generating Z report:", error);
+      toast.error("Failed to generate Z report");
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const summary = current
+    ? [
+        { label: "Opening Float", value: current.totals.openingFloat },
+        { label: "Cash Received", value: current.totals.cashSales },
+        { label: "Cash Refunds", value: -current.totals.cashRefunds },
+        { label: "Pay-ins", value: current.totals.payIns },
+        { label: "Pay-outs", value: -current.totals.payOuts },
+        { label: "Expected in Drawer", value: current.totals.expected },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Current drawer */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Coins className="h-5 w-5" />
+              {current ? "Drawer Open" : "Drawer Closed"}
+            </CardTitle>
+            <CardDescription>
+              {current
+                ? `Opened ${fmtDateTime(current.openedAt)} by ${current.openedBy}`
+                : "Open the drawer with a float before taking cash"}
+            </CardDescription>
+          </div>
+          {canOperate && (
+            <div className="flex flex-wrap justify-end gap-2">
+              {current ? (
+                <>
+                  <Button size="sm" variant="outline" onClick={() => setMovementType(CashMovementType.PAY_IN)}>
+                    <ArrowDownToLine className="h-4 w-4 mr-1" />
+                    Pay In
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setMovementType(CashMovementType.PAY_OUT)}>
+                    <ArrowUpFromLine className="h-4 w-4 mr-1" />
+                    Pay Out
+                  </Button>
+                  <Button size="sm" onClick={() => setIsCloseDialog(true)}>
+                    <Lock className="h-4 w-4 mr-1" />
+                    Close Drawer
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" onClick={() => setIsOpenDialog(true)}>
+                  <LockOpen className="h-4 w-4 mr-1" />
+                  Open Drawer
+                </Button>
+              )}
+            </div>
+          )}
+        </CardHeader>
+        {current && (
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-6">
+              {summary.map((item) => (
+                <div key={item.label}>
+                  <p className="text-sm text-muted-foreground">{item.label}</p>
+                  <p className="text-xl font-bold">{fmtCurrency(item.value)}</p>
+                </div>
+              ))}
+            </div>
+
+            {current.movements.length > 0 && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>By</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {current.movements.map((movement) => (
+                      <TableRow key={movement.id}>
+                        <TableCell>{formatInTz(movement.createdAt, "h:mm a", timezone)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {movement.type === CashMovementType.PAY_IN ? "Pay-in" : "Pay-out"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{movement.reason}</TableCell>
+                        <TableCell>{movement.createdBy}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {fmtCurrency(movement.type === CashMovementType.PAY_OUT ? -movement.amount : movement.amount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Closed sessions */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Closed Sessions</CardTitle>
+          <CardDescription>The last 30 drawer sessions at this branch, with their Z reports</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No closed sessions yet</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead>Staff</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell>{fmtDateTime(session.openedAt)}</TableCell>
+                      <TableCell>{session.closedAt ? fmtDateTime(session.closedAt) : "—"}</TableCell>
+                      <TableCell className="text-sm">
+                        {session.openedBy}
+                        {session.closedBy && session.closedBy !== session.openedBy && (
+                          <span className="text-muted-foreground"> → {session.closedBy}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {session.expectedCash !== null ? fmtCurrency(session.expectedCash) : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {session.countedCash !== null ? fmtCurrency(session.countedCash) : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {session.variance !== null && (
+                          <VarianceBadge variance={session.variance} currencyCode={currencyCode} />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Download Z report"
+                          disabled={downloadingId === session.id}
+                          onClick={() => handleDownload(session.id)}
+                        >
+                          {downloadingId === session.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <FileText className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Open Dialog */}
+      <Dialog open={isOpenDialog} onOpenChange={setIsOpenDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Open Cash Drawer</DialogTitle>
+            <DialogDescription>Count the float you are starting the drawer with</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="openingFloat">Opening Float *</Label>
+              <Input
+                id="openingFloat"
+                type="number"
+                step="0.01"
+                min="0"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="openingNote">Note</Label>
+              <Textarea
+                id="openingNote"
+                value={openingNote}
+                onChange={(e) => setOpeningNote(e.target.value)}
+                maxLength={500}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpenDialog(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleOpen} disabled={isSubmitting || !openingFloat.trim()}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Open Drawer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Pay In / Pay Out Dialog */}
+      <Dialog open={movementType !== null} onOpenChange={(open) => !open && setMovementType(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{movementType === CashMovementType.PAY_IN ? "Pay In" : "Pay Out"}</DialogTitle>
+            <DialogDescription>
+              {movementType === CashMovementType.PAY_IN
+                ? "Cash put into the drawer, such as extra change"
+                : "Petty cash taken out of the drawer"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="movementAmount">Amount *</Label>
+              <Input
+                id="movementAmount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movementReason">Reason *</Label>
+              <Input
+                id="movementReason"
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+                placeholder={movementType === CashMovementType.PAY_IN ? "e.g. Change from bank" : "e.g. Milk for the staff room"}
+                maxLength={200}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMovementType(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleMovement}
+              disabled={isSubmitting || !movementAmount.trim() || !movementReason.trim()}
+            >
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Close Dialog */}
+      <Dialog open={isCloseDialog} onOpenChange={setIsCloseDialog}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Close Cash Drawer</DialogTitle>
+            <DialogDescription>Count the notes and coins in the drawer</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid gap-3 grid-cols-2">
+              {denominationValues.map((value) => (
+                <div key={value} className="flex items-center gap-2">
+                  <Label htmlFor={`count-${value}`} className="w-20 text-right shrink-0">
+                    {fmtCurrency(value)}
+                  </Label>
+                  <Input
+                    id={`count-${value}`}
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={counts[value] ?? ""}
+                    onChange={(e) => setCounts((prev) => ({ ...prev, [value]: e.target.value }))}
+                    placeholder="0"
+                  />
+                </div>
+              ))}
+            </div>
+            {current && (
+              <div className="rounded-md border p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Counted</span>
+                  <span className="font-medium">{fmtCurrency(counted)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Expected</span>
+                  <span className="font-medium">{fmtCurrency(current.totals.expected)}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Result</span>
+                  <VarianceBadge variance={cashVariance(counted, current.totals.expected)} currencyCode={currencyCode} />
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="closingNote">Note</Label>
+              <Textarea
+                id="closingNote"
+                value={closingNote}
+                onChange={(e) => setClosingNote(e.target.value)}
+                placeholder="Explain any difference"
+                maxLength={500}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCloseDialog(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleClose} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Close Drawer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
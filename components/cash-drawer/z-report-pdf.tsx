@@ -0,0 +1,271 @@
+"use client";
+
+import {
+  Document,
+  Page,
+  Text,
+  View,
+  StyleSheet,
+  pdf,
+} from "@react-pdf/renderer";
+import { CashDrawerDetail } from "@/lib/actions/cash-drawer";
+import { PAYMENT_METHOD_LABELS } from "@/lib/constants/payment-methods";
+import { countedCashTotal, varianceLabel } from "@/lib/utils/cash-drawer";
+import { formatInTz } from "@/lib/utils/timezone";
+import { formatCurrency } from "@/lib/utils/currency";
+
+// PDF Styles
+const styles = StyleSheet.create({
+  page: {
+    padding: 40,
+    fontSize: 10,
+    fontFamily: "Helvetica",
+  },
+  header: {
+    marginBottom: 20,
+    borderBottomWidth: 2,
+    borderBottomColor: "#8b5cf6",
+    paddingBottom: 10,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#8b5cf6",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 12,
+    color: "#666",
+  },
+  meta: {
+    fontSize: 10,
+    color: "#888",
+    marginTop: 4,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "bold",
+    marginBottom: 10,
+    color: "#333",
+    backgroundColor: "#f3f4f6",
+    padding: 8,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: "#8b5cf6",
+    color: "#fff",
+    padding: 8,
+    fontWeight: "bold",
+  },
+  row: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    padding: 8,
+  },
+  totalRow: {
+    flexDirection: "row",
+    padding: 8,
+    fontWeight: "bold",
+    backgroundColor: "#f9fafb",
+  },
+  cell: {
+    flex: 1,
+  },
+  cellWide: {
+    flex: 2,
+  },
+  cellRight: {
+    flex: 1,
+    textAlign: "right",
+  },
+  note: {
+    fontSize: 9,
+    color: "#666",
+    marginTop: 4,
+  },
+  footer: {
+    position: "absolute",
+    bottom: 30,
+    left: 40,
+    right: 40,
+    textAlign: "center",
+    color: "#888",
+    fontSize: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    paddingTop: 10,
+  },
+});
+
+interface ZReportPDFProps {
+  session: CashDrawerDetail;
+  currencyCode: string;
+  timezone: string;
+}
+
+function ZReportPDFDocument({ session, currencyCode, timezone }: ZReportPDFProps) {
+  const fmtCurrency = (value: number) => formatCurrency(value, currencyCode);
+  const fmtDateTime = (date: Date | string) => formatInTz(date, "MMM d, yyyy h:mm a", timezone);
+  const { totals } = session;
+
+  const cashRows: { label: string; amount: number }[] = [
+    { label: "Opening float", amount: totals.openingFloat },
+    { label: "Cash payments received", amount: totals.cashSales },
+    { label: `Cash refunds (${session.cashRefundCount})`, amount: -totals.cashRefunds },
+    { label: "Pay-ins", amount: totals.payIns },
+    { label: "Pay-outs", amount: -totals.payOuts },
+  ];
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title}>{session.branchName}</Text>
+          <Text style={styles.subtitle}>Z Report — Cash Drawer Session</Text>
+          <Text style={styles.meta}>
+            Opened {fmtDateTime(session.openedAt)} by {session.openedBy}
+          </Text>
+          <Text style={styles.meta}>
+            {session.closedAt
+              ? `Closed ${fmtDateTime(session.closedAt)} by ${session.closedBy ?? "Unknown"}`
+              : "Drawer still open"}
+          </Text>
+        </View>
+
+        {/* Cash reconciliation */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Cash</Text>
+          {cashRows.map((row) => (
+            <View key={row.label} style={styles.row}>
+              <Text style={styles.cellWide}>{row.label}</Text>
+              <Text style={styles.cellRight}>{fmtCurrency(row.amount)}</Text>
+            </View>
+          ))}
+          <View style={styles.totalRow}>
+            <Text style={styles.cellWide}>Expected in drawer</Text>
+            <Text style={styles.cellRight}>{fmtCurrency(totals.expected)}</Text>
+          </View>
+          {session.countedCash !== null && session.variance !== null && (
+            <>
+              <View style={styles.row}>
+                <Text style={styles.cellWide}>Counted</Text>
+                <Text style={styles.cellRight}>{fmtCurrency(session.countedCash)}</Text>
+              </View>
+              <View style={styles.totalRow}>
+                <Text style={styles.cellWide}>{varianceLabel(session.variance)}</Text>
+                <Text style={styles.cellRight}>{fmtCurrency(Math.abs(session.variance))}</Text>
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Takings by payment method */}
+        {session.payments.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Payments by Method</Text>
+            <View style={styles.tableHeader}>
+              <Text style={styles.cellWide}>Method</Text>
+              <Text style={styles.cellRight}>Payments</Text>
+              <Text style={styles.cellRight}>Amount</Text>
+            </View>
+            {session.payments.map((payment) => (
+              <View key={payment.method} style={styles.row}>
+                <Text style={styles.cellWide}>{PAYMENT_METHOD_LABELS[payment.method]}</Text>
+                <Text style={styles.cellRight}>{payment.count}</Text>
+                <Text style={styles.cellRight}>{fmtCurrency(payment.amount)}</Text>
+              </View>
+            ))}
+            <View style={styles.totalRow}>
+              <Text style={styles.cellWide}>Total</Text>
+              <Text style={styles.cellRight}>{session.payments.reduce((sum, p) => sum + p.count, 0)}</Text>
+              <Text style={styles.cellRight}>
+                {fmtCurrency(session.payments.reduce((sum, p) => sum + p.amount, 0))}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* Pay-ins and pay-outs */}
+        {session.movements.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Pay-ins and Pay-outs</Text>
+            <View style={styles.tableHeader}>
+              <Text style={styles.cell}>Time</Text>
+              <Text style={styles.cellWide}>Reason</Text>
+              <Text style={styles.cell}>By</Text>
+              <Text style={styles.cellRight}>Amount</Text>
+            </View>
+            {session.movements.map((movement) => (
+              <View key={movement.id} style={styles.row}>
+                <Text style={styles.cell}>{formatInTz(movement.createdAt, "h:mm a", timezone)}</Text>
+                <Text style={styles.cellWide}>{movement.reason}</Text>
+                <Text style={styles.cell}>{movement.createdBy}</Text>
+                <Text style={styles.cellRight}>
+                  {fmtCurrency(movement.type === "PAY_OUT" ? -movement.amount : movement.amount)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Closing count */}
+        {session.denominations.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Closing Count</Text>
+            <View style={styles.tableHeader}>
+              <Text style={styles.cell}>Denomination</Text>
+              <Text style={styles.cellRight}>Count</Text>
+              <Text style={styles.cellRight}>Amount</Text>
+            </View>
+            {session.denominations.map((d) => (
+              <View key={d.value} style={styles.row}>
+                <Text style={styles.cell}>{fmtCurrency(d.value)}</Text>
+                <Text style={styles.cellRight}>{d.count}</Text>
+                <Text style={styles.cellRight}>{fmtCurrency(countedCashTotal([d]))}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {(session.openingNote || session.closingNote) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Notes</Text>
+            {session.openingNote && <Text style={styles.note}>Opening: {session.openingNote}</Text>}
+            {session.closingNote && <Text style={styles.note}>Closing: {session.closingNote}</Text>}
+          </View>
+        )}
+
+        {/* Footer */}
+        <Text style={styles.footer}>
+          Generated on {formatInTz(new Date(), "MMMM d, yyyy 'at' h:mm a", timezone)} | AestheTech Salon Management System
+        </Text>
+      </Page>
+    </Document>
+  );
+}
+
+// Generate and download a session's Z report
+export async function downloadZReportPDF(
+  session: CashDrawerDetail,
+  currencyCode: string,
+  timezone: string = "UTC"
+): Promise<void> {
+  const doc = <ZReportPDFDocument session={session} currencyCode={currencyCode} timezone={timezone} />;
+  const blob = await pdf(doc).toBlob();
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `z-report-${formatInTz(session.openedAt, "yyyy-MM-dd-HHmm", timezone)}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export { ZReportPDFDocument };
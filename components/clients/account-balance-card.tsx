@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Loader2, Mail, Wallet } from "lucide-react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { sendStatementEmail } from "@/lib/actions/email";
+import { formatCurrency } from "@/lib/utils/currency";
+import { ClientAccount } from "@/lib/utils/receivables";
+import { formatDateOnly } from "@/lib/utils/timezone";
+
+interface AccountBalanceCardProps {
+  clientId: string;
+  account: ClientAccount;
+  hasEmail: boolean;
+  currencyCode: string;
+}
+
+export function AccountBalanceCard({ clientId, account, hasEmail, currencyCode }: AccountBalanceCardProps) {
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSendStatement = async () => {
+    setIsSending(true);
+    try {
+      const result = await sendStatementEmail(clientId);
+      if (result.success) {
+        toast.success("Statement sent");
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Account Balance
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" asChild>
+            <Link href={`/dashboard/invoices?client=${clientId}`}>All Invoices</Link>
+          </Button>
+          {hasEmail && (
+            <Button size="sm" variant="outline" onClick={handleSendStatement} disabled={isSending}>
+              {isSending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Mail className="h-4 w-4 mr-1" />}
+              Email Statement
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-8">
+          <div>
+            <p className="text-2xl font-bold">{formatCurrency(account.outstanding, currencyCode)}</p>
+            <p className="text-xs text-muted-foreground">Outstanding</p>
+          </div>
+          {account.overdue > 0 && (
+            <div>
+              <p className="text-2xl font-bold text-red-600">{formatCurrency(account.overdue, currencyCode)}</p>
+              <p className="text-xs text-muted-foreground">Overdue</p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {account.invoices.map((invoice) => (
+            <div key={invoice.id} className="flex items-center justify-between border-b pb-3 last:border-0">
+              <div>
+                <Link href={`/dashboard/invoices/${invoice.id}`} className="font-mono font-medium hover:underline">
+                  {invoice.invoiceNumber}
+                </Link>
+                <p className="text-sm text-muted-foreground">
+                  Due {formatDateOnly(invoice.dueDate, "MMM d, yyyy")}
+                  {invoice.paid > 0 && ` · ${formatCurrency(invoice.paid, currencyCode)} of ${formatCurrency(invoice.total, currencyCode)} paid`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {invoice.daysPastDue > 0 && (
+                  <Badge variant="destructive">
+                    {invoice.daysPastDue} {invoice.daysPastDue === 1 ? "day" : "days"} overdue
+                  </Badge>
+                )}
+                <span className="font-medium">{formatCurrency(invoice.balance, currencyCode)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
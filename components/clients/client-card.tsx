@@ -14,6 +14,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { LoyaltyTier } from "@prisma/client";
+import { MembershipStatusBadge } from "@/components/memberships/membership-status-badge";
 import { ClientListItem } from "@/lib/actions/client";
 
 interface ClientCardProps {
@@ -54,6 +55,13 @@ export function ClientCard({ client, onDelete, canEdit = true, canDelete = false
                     Walk-in
                   </Badge>
                 )}
+                {client.memberships[0] && (
+                  <MembershipStatusBadge
+                    status={client.memberships[0].status}
+                    cancelAtPeriodEnd={client.memberships[0].cancelAtPeriodEnd}
+                    className="text-xs shrink-0"
+                  />
+                )}
               </div>
               {client.phone ? (
                 <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
@@ -49,6 +49,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { MembershipStatusBadge } from "@/components/memberships/membership-status-badge";
 import { ClientListItem, deleteClient } from "@/lib/actions/client";
 
 interface ClientTableProps {
@@ -305,6 +306,13 @@ export function ClientTable({
                               Walk-in
                             </Badge>
                           )}
+                          {client.memberships[0] && (
+                            <MembershipStatusBadge
+                              status={client.memberships[0].status}
+                              cancelAtPeriodEnd={client.memberships[0].cancelAtPeriodEnd}
+                              className="text-xs"
+                            />
+                          )}
                         </div>
                         {client.notes && (
                           <p className="text-xs text-muted-foreground truncate max-w-[200px]">
@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { BadgeCheck, Plus } from "lucide-react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MembershipActions } from "@/components/memberships/membership-actions";
+import { MembershipStatusBadge } from "@/components/memberships/membership-status-badge";
+import {
+  ClientMembershipListItem,
+  MembershipPlanListItem,
+  enrollMembership,
+} from "@/lib/actions/membership";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatBillingInterval } from "@/lib/utils/membership";
+import { formatInTz } from "@/lib/utils/timezone";
+
+interface MembershipCardProps {
+  clientId: string;
+  memberships: ClientMembershipListItem[];
+  plans: MembershipPlanListItem[];
+  canSell: boolean;
+  currencyCode: string;
+  timezone: string;
+}
+
+export function MembershipCard({ clientId, memberships, plans, canSell, currencyCode, timezone }: MembershipCardProps) {
+  const router = useRouter();
+  const [showEnroll, setShowEnroll] = useState(false);
+  const [planId, setPlanId] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const current = memberships.find((m) => m.status !== "CANCELLED");
+  const past = memberships.filter((m) => m.status === "CANCELLED");
+  const selectedPlan = plans.find((p) => p.id === planId);
+
+  const handleEnroll = async () => {
+    if (!planId) {
+      toast.error("Select a plan");
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const result = await enrollMembership({ clientId, planId });
+      if (result.success) {
+        toast.success(`Membership started. Invoice ${result.data.invoiceNumber} raised for the first cycle.`);
+        setShowEnroll(false);
+        setPlanId("");
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!current && past.length === 0 && (!canSell || plans.length === 0)) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <BadgeCheck className="h-5 w-5" />
+            Membership
+          </CardTitle>
+          {canSell && !current && plans.length > 0 && (
+            <Button size="sm" onClick={() => setShowEnroll(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Sign Up
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {current ? (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{current.plan.name}</p>
+                    <MembershipStatusBadge status={current.status} cancelAtPeriodEnd={current.cancelAtPeriodEnd} />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {formatCurrency(Number(current.plan.price), currencyCode)} · {formatBillingInterval(current.plan.billingIntervalMonths)}
+                    {current.status === "PAUSED"
+                      ? ` · Paused ${current.pausedAt ? formatInTz(current.pausedAt, "MMM d, yyyy", timezone) : ""}`
+                      : current.cancelAtPeriodEnd
+                      ? ` · Ends ${formatInTz(current.currentPeriodEnd, "MMM d, yyyy", timezone)}`
+                      : ` · Renews ${formatInTz(current.currentPeriodEnd, "MMM d, yyyy", timezone)}`}
+                  </p>
+                </div>
+                {canSell && <MembershipActions membership={current} timezone={timezone} />}
+              </div>
+
+              {(Number(current.plan.serviceDiscountPercent) > 0 || Number(current.plan.productDiscountPercent) > 0) && (
+                <div className="flex flex-wrap gap-2">
+                  {Number(current.plan.serviceDiscountPercent) > 0 && (
+                    <Badge variant="secondary">{Number(current.plan.serviceDiscountPercent)}% off services</Badge>
+                  )}
+                  {Number(current.plan.productDiscountPercent) > 0 && (
+                    <Badge variant="secondary">{Number(current.plan.productDiscountPercent)}% off products</Badge>
+                  )}
+                </div>
+              )}
+
+              {current.credits.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Included this cycle</p>
+                  {current.credits.map((credit) => (
+                    <div key={credit.id} className="flex items-center justify-between text-sm">
+                      <span>{credit.service.name}</span>
+                      <span className="text-muted-foreground">{credit.remaining} left</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {current.charges.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Billing</p>
+                  {current.charges.map((charge) =>
+                    charge.sale.invoice ? (
+                      <div key={charge.id} className="flex items-center justify-between text-sm">
+                        <Link href={`/dashboard/sales/${charge.sale.id}`} className="font-mono hover:underline">
+                          {charge.sale.invoice.invoiceNumber}
+                        </Link>
+                        <span className="flex items-center gap-2">
+                          {formatCurrency(Number(charge.sale.invoice.total), currencyCode)}
+                          <Badge variant={charge.sale.invoice.status === "PAID" ? "success" : "warning"}>
+                            {charge.sale.invoice.status === "PAID" ? "Paid" : "Unpaid"}
+                          </Badge>
+                        </span>
+                      </div>
+                    ) : null
+                  )}
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Not a member</p>
+          )}
+
+          {past.length > 0 && (
+            <div className="mt-4 pt-3 border-t space-y-1">
+              <p className="text-sm font-medium text-muted-foreground">Past memberships</p>
+              {past.map((membership) => (
+                <div key={membership.id} className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>{membership.plan.name}</span>
+                  <span>
+                    {formatInTz(membership.createdAt, "MMM yyyy", timezone)}
+                    {membership.cancelledAt && ` - ${formatInTz(membership.cancelledAt, "MMM yyyy", timezone)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showEnroll} onOpenChange={setShowEnroll}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Sign Up for Membership</DialogTitle>
+            <DialogDescription>
+              The first cycle starts today and its invoice is raised straight away.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Plan</Label>
+              <Select value={planId} onValueChange={setPlanId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {plans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name} — {formatCurrency(Number(plan.price), currencyCode)} {formatBillingInterval(plan.billingIntervalMonths).toLowerCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedPlan && (
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                {selectedPlan.credits.map((credit) => (
+                  <p key={credit.id}>
+                    {credit.quantity} × {credit.service.name} per cycle
+                  </p>
+                ))}
+                {Number(selectedPlan.serviceDiscountPercent) > 0 && (
+                  <p>{Number(selectedPlan.serviceDiscountPercent)}% off other services</p>
+                )}
+                {Number(selectedPlan.productDiscountPercent) > 0 && (
+                  <p>{Number(selectedPlan.productDiscountPercent)}% off products</p>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEnroll(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleEnroll} disabled={isSubmitting || !planId}>
+              {isSubmitting ? "Signing up..." : "Sign Up"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
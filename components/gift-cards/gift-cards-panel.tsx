@@ -0,0 +1,273 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Ban, Gift, History, Search } from "lucide-react";
+import { toast } from "sonner";
+import { GiftCardTransactionType } from "@prisma/client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { GiftCardListItem, voidGiftCard } from "@/lib/actions/gift-card";
+import { formatCurrency } from "@/lib/utils/currency";
+import { isGiftCardRedeemable } from "@/lib/utils/gift-card";
+import { formatInTz } from "@/lib/utils/timezone";
+
+const transactionLabels: Record<GiftCardTransactionType, string> = {
+  ISSUED: "Issued",
+  REDEEMED: "Redeemed",
+  REFUNDED: "Refunded to card",
+  VOIDED: "Voided",
+};
+
+interface GiftCardsPanelProps {
+  cards: GiftCardListItem[];
+  canManage: boolean;
+  currencyCode: string;
+  timezone: string;
+}
+
+export function GiftCardsPanel({ cards, canManage, currencyCode, timezone }: GiftCardsPanelProps) {
+  const router = useRouter();
+  const [search, setSearch] = useState("");
+  const [historyFor, setHistoryFor] = useState<GiftCardListItem | null>(null);
+  const [voiding, setVoiding] = useState<GiftCardListItem | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fmt = (value: number | { toString(): string }) => formatCurrency(Number(value), currencyCode);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return cards;
+    return cards.filter((card) => {
+      const purchaser = card.purchaser ? `${card.purchaser.firstName} ${card.purchaser.lastName ?? ""}` : "";
+      return (
+        card.code.toLowerCase().includes(term) ||
+        card.code.replace(/-/g, "").toLowerCase().includes(term.replace(/-/g, "")) ||
+        purchaser.toLowerCase().includes(term)
+      );
+    });
+  }, [cards, search]);
+
+  const renderStatus = (card: GiftCardListItem) => {
+    if (card.status === "VOIDED") return <Badge variant="destructive">Voided</Badge>;
+    if (!isGiftCardRedeemable(card)) return <Badge variant="secondary">Expired</Badge>;
+    if (Number(card.balance) <= 0) return <Badge variant="outline">Used</Badge>;
+    return <Badge>Active</Badge>;
+  };
+
+  const handleVoid = async () => {
+    if (!voiding) return;
+    setIsSubmitting(true);
+    try {
+      const result = await voidGiftCard(voiding.id, voidReason);
+      if (result.success) {
+        toast.success(`Gift card ${voiding.code} voided`);
+        setVoiding(null);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Issued Gift Cards</CardTitle>
+            <CardDescription>
+              Cards are sold at checkout and can be redeemed at any branch
+            </CardDescription>
+          </div>
+          <div className="relative w-64">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search code or purchaser..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filtered.length === 0 ? (
+            <div className="text-center py-6">
+              <Gift className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">
+                {cards.length === 0 ? "No gift cards have been sold yet" : "No gift cards match your search"}
+              </p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Purchaser</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[100px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.map((card) => (
+                    <TableRow key={card.id}>
+                      <TableCell>
+                        <p className="font-mono font-medium">{card.code}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Sold {formatInTz(card.createdAt, "MMM d, yyyy", timezone)}
+                          {card.saleItem?.description && card.saleItem.description !== "Gift card" && (
+                            <> · {card.saleItem.description}</>
+                          )}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        {card.purchaser ? (
+                          <Link href={`/dashboard/clients/${card.purchaser.id}`} className="hover:underline">
+                            {card.purchaser.firstName} {card.purchaser.lastName}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{fmt(card.initialValue)}</TableCell>
+                      <TableCell className="text-right font-medium">{fmt(card.balance)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {card.expiresAt ? formatInTz(card.expiresAt, "MMM d, yyyy", timezone) : "Never"}
+                      </TableCell>
+                      <TableCell>{renderStatus(card)}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button size="icon" variant="ghost" title="History" onClick={() => setHistoryFor(card)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                          {canManage && card.status === "ACTIVE" && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Void"
+                              onClick={() => {
+                                setVoidReason("");
+                                setVoiding(card);
+                              }}
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Balance History Dialog */}
+      <Dialog open={!!historyFor} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{historyFor?.code}</DialogTitle>
+            <DialogDescription>Every change to this card&apos;s balance</DialogDescription>
+          </DialogHeader>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Entry</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {historyFor?.transactions.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {formatInTz(entry.createdAt, "MMM d, yyyy h:mm a", timezone)}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {transactionLabels[entry.type]}
+                      {entry.invoice && (
+                        <span className="text-muted-foreground"> · {entry.invoice.invoiceNumber}</span>
+                      )}
+                      {entry.note && <p className="text-xs text-muted-foreground italic">{entry.note}</p>}
+                    </TableCell>
+                    <TableCell className={`text-right text-sm ${Number(entry.amount) < 0 ? "text-red-600 dark:text-red-400" : ""}`}>
+                      {fmt(entry.amount)}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{fmt(entry.balanceAfter)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Dialog */}
+      <Dialog open={!!voiding} onOpenChange={(open) => !open && setVoiding(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Void Gift Card</DialogTitle>
+            <DialogDescription>
+              {voiding && (
+                <>
+                  {voiding.code} can no longer be used and its {fmt(voiding.balance)} balance is written off. This cannot be undone.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="voidReason">Reason</Label>
+            <Textarea
+              id="voidReason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="e.g. Reported lost by the client"
+              maxLength={500}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoiding(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleVoid} disabled={isSubmitting}>
+              Void Card
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
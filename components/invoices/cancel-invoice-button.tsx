@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Ban, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { cancelInvoice } from "@/lib/actions/invoice";
+
+interface CancelInvoiceButtonProps {
+  invoiceId: string;
+  invoiceNumber: string;
+}
+
+/** Void an unpaid membership renewal invoice after confirmation. */
+export function CancelInvoiceButton({ invoiceId, invoiceNumber }: CancelInvoiceButtonProps) {
+  const router = useRouter();
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      const result = await cancelInvoice(invoiceId);
+      if (result.success) {
+        toast.success(`Invoice ${invoiceNumber} cancelled`);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" className="text-destructive" disabled={isCancelling}>
+          {isCancelling ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Ban className="h-4 w-4 mr-2" />}
+          Cancel Invoice
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel invoice {invoiceNumber}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The client will no longer owe anything on this invoice and it will drop out of
+            receivables. This cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Invoice</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleCancel}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Cancel Invoice
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
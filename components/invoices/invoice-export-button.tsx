@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { pdf } from "@react-pdf/renderer";
+import { format } from "date-fns";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { getInvoicePDFData } from "@/lib/actions/invoice";
+import { InvoicePDF, InvoicesPDF } from "./invoice-pdf";
+
+interface InvoiceExportButtonProps {
+  invoiceIds: string[];
+  label?: string;
+  variant?: "default" | "outline" | "ghost";
+  size?: "default" | "sm";
+}
+
+/**
+ * Downloads invoices as a PDF, loading their details on demand. A single
+ * invoice is saved under its number; several go into one document.
+ */
+export function InvoiceExportButton({
+  invoiceIds,
+  label = "Download PDF",
+  variant = "outline",
+  size = "default",
+}: InvoiceExportButtonProps) {
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+
+    try {
+      const result = await getInvoicePDFData({ invoiceIds });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
+      const invoices = result.data;
+      const doc = invoices.length === 1
+        ? <InvoicePDF data={invoices[0]} />
+        : <InvoicesPDF invoices={invoices} />;
+      const blob = await pdf(doc).toBlob();
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = invoices.length === 1
+        ? `${invoices[0].invoiceNumber}.pdf`
+        : `invoices-${format(new Date(), "yyyy-MM-dd")}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast.success(invoices.length === 1 ? "Invoice downloaded" : `${invoices.length} invoices downloaded`);
+    } catch (error) {
+      console.error("Error generating PDF:", error);
+      toast.error("Failed to generate invoice PDF");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Button
+      variant={variant}
+      size={size}
+      onClick={handleDownload}
+      disabled={isGenerating || invoiceIds.length === 0}
+    >
+      {isGenerating ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <Download className="h-4 w-4 mr-2" />
+      )}
+      {isGenerating ? "Generating..." : label}
+    </Button>
+  );
+}
@@ -8,8 +8,9 @@ import {
   StyleSheet,
   Image,
 } from "@react-pdf/renderer";
-import { formatInTz } from "@/lib/utils/timezone";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
 import { formatCurrency } from "@/lib/utils/currency";
+import { InvoiceTaxLine, taxLineLabel } from "@/lib/utils/tax";
 
 // Define styles
 const styles = StyleSheet.create({
@@ -193,13 +194,14 @@ export interface InvoicePDFData {
   invoiceNumber: string;
   status: string;
   createdAt: string;
+  dueDate?: string | null; // yyyy-MM-dd, on invoices paid later
   salonName: string;
   salonAddress: string | null;
   salonPhone: string | null;
   salonEmail: string | null;
   salonLogo: string | null;
   currencyCode: string;
-  taxRate: number;
+  taxRate: number; // Shown for invoices issued before per-rate tax lines
   timezone: string;
   client: {
     firstName: string;
@@ -213,13 +215,16 @@ export interface InvoicePDFData {
     service: { name: string } | null;
     staff: { firstName: string; lastName: string } | null;
     product: { name: string } | null;
+    description: string | null;
     price: number;
     quantity: number;
   }>;
   subtotal: number;
   discount: number;
   tax: number;
+  taxLines: InvoiceTaxLine[];
   total: number;
+  tip?: number;
   loyaltyPointsEarned: number;
   loyaltyPointsRedeemed: number;
 }
@@ -228,188 +233,237 @@ interface InvoicePDFProps {
   data: InvoicePDFData;
 }
 
-export function InvoicePDF({ data }: InvoicePDFProps) {
+function InvoicePage({ data }: InvoicePDFProps) {
   const formattedDate = formatInTz(data.createdAt, "MMMM d, yyyy", data.timezone);
   const formattedTime = formatInTz(data.createdAt, "h:mm a", data.timezone);
 
   return (
-    <Document>
-      <Page size="A4" style={styles.page}>
-        {/* Header */}
-        <View style={styles.header}>
-          <View style={styles.headerLeft}>
-            {data.salonLogo && (
-              <Image style={styles.salonLogo} src={data.salonLogo} />
-            )}
-            <Text style={styles.salonName}>{data.salonName}</Text>
-            {data.salonAddress && (
-              <Text style={styles.salonContact}>{data.salonAddress}</Text>
-            )}
-            {data.salonPhone && (
-              <Text style={styles.salonContact}>Tel: {data.salonPhone}</Text>
-            )}
-            {data.salonEmail && (
-              <Text style={styles.salonContact}>{data.salonEmail}</Text>
-            )}
-          </View>
-          <View style={styles.headerRight}>
-            <Text style={styles.invoiceTitle}>INVOICE</Text>
-            <Text style={styles.invoiceNumber}>{data.invoiceNumber}</Text>
-            <Text
-              style={[
-                styles.invoiceStatus,
-                data.status === "PENDING" ? styles.invoiceStatusPending : {},
-              ]}
-            >
-              {data.status}
-            </Text>
-          </View>
-        </View>
-
-        {/* Client Info */}
-        <View style={styles.clientSection}>
-          <Text style={styles.sectionTitle}>Bill To</Text>
-          <Text style={styles.value}>
-            {data.client.firstName}{data.client.lastName ? ` ${data.client.lastName}` : ""}{data.client.isWalkIn ? " (Walk-in)" : ""}
-          </Text>
-          {data.client.phone && (
-            <Text style={styles.label}>{data.client.phone}</Text>
+    <Page size="A4" style={styles.page}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          {data.salonLogo && (
+            <Image style={styles.salonLogo} src={data.salonLogo} />
+          )}
+          <Text style={styles.salonName}>{data.salonName}</Text>
+          {data.salonAddress && (
+            <Text style={styles.salonContact}>{data.salonAddress}</Text>
+          )}
+          {data.salonPhone && (
+            <Text style={styles.salonContact}>Tel: {data.salonPhone}</Text>
           )}
-          {data.client.email && (
-            <Text style={styles.label}>{data.client.email}</Text>
+          {data.salonEmail && (
+            <Text style={styles.salonContact}>{data.salonEmail}</Text>
           )}
         </View>
+        <View style={styles.headerRight}>
+          <Text style={styles.invoiceTitle}>INVOICE</Text>
+          <Text style={styles.invoiceNumber}>{data.invoiceNumber}</Text>
+          <Text
+            style={[
+              styles.invoiceStatus,
+              data.status === "PENDING" ? styles.invoiceStatusPending : {},
+            ]}
+          >
+            {data.status}
+          </Text>
+        </View>
+      </View>
+
+      {/* Client Info */}
+      <View style={styles.clientSection}>
+        <Text style={styles.sectionTitle}>Bill To</Text>
+        <Text style={styles.value}>
+          {data.client.firstName}{data.client.lastName ? ` ${data.client.lastName}` : ""}{data.client.isWalkIn ? " (Walk-in)" : ""}
+        </Text>
+        {data.client.phone && (
+          <Text style={styles.label}>{data.client.phone}</Text>
+        )}
+        {data.client.email && (
+          <Text style={styles.label}>{data.client.email}</Text>
+        )}
+      </View>
 
-        {/* Invoice Details */}
-        <View style={styles.section}>
+      {/* Invoice Details */}
+      <View style={styles.section}>
+        <View style={styles.row}>
+          <Text style={styles.label}>Invoice Date:</Text>
+          <Text style={styles.value}>{formattedDate}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>Time:</Text>
+          <Text style={styles.value}>{formattedTime}</Text>
+        </View>
+        {data.dueDate && data.status !== "PAID" && (
           <View style={styles.row}>
-            <Text style={styles.label}>Invoice Date:</Text>
-            <Text style={styles.value}>{formattedDate}</Text>
+            <Text style={styles.label}>Due Date:</Text>
+            <Text style={styles.value}>{formatDateOnly(data.dueDate, "MMMM d, yyyy")}</Text>
           </View>
-          <View style={styles.row}>
-            <Text style={styles.label}>Time:</Text>
-            <Text style={styles.value}>{formattedTime}</Text>
+        )}
+      </View>
+
+      {/* Items Table */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Items</Text>
+        <View style={styles.table}>
+          {/* Table Header */}
+          <View style={styles.tableHeader}>
+            <Text style={[styles.tableHeaderCell, styles.colService]}>
+              Item
+            </Text>
+            <Text style={[styles.tableHeaderCell, styles.colStaff]}>
+              Staff
+            </Text>
+            <Text style={[styles.tableHeaderCell, styles.colPrice]}>
+              Price
+            </Text>
+            <Text style={[styles.tableHeaderCell, styles.colQty]}>Qty</Text>
+            <Text style={[styles.tableHeaderCell, styles.colTotal]}>
+              Total
+            </Text>
           </View>
-        </View>
 
-        {/* Items Table */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Items</Text>
-          <View style={styles.table}>
-            {/* Table Header */}
-            <View style={styles.tableHeader}>
-              <Text style={[styles.tableHeaderCell, styles.colService]}>
-                Item
+          {/* Table Rows */}
+          {data.items.map((item) => (
+            <View key={item.id} style={styles.tableRow}>
+              <Text style={[styles.tableCell, styles.colService]}>
+                {item.service?.name || item.product?.name || item.description || "Unknown"}
+              </Text>
+              <Text style={[styles.tableCell, styles.colStaff]}>
+                {item.staff
+                  ? `${item.staff.firstName} ${item.staff.lastName}`.trim() || "-"
+                  : "-"}
               </Text>
-              <Text style={[styles.tableHeaderCell, styles.colStaff]}>
-                Staff
+              <Text style={[styles.tableCell, styles.colPrice]}>
+                {formatCurrency(item.price, data.currencyCode)}
               </Text>
-              <Text style={[styles.tableHeaderCell, styles.colPrice]}>
-                Price
+              <Text style={[styles.tableCell, styles.colQty]}>
+                {item.quantity}
               </Text>
-              <Text style={[styles.tableHeaderCell, styles.colQty]}>Qty</Text>
-              <Text style={[styles.tableHeaderCell, styles.colTotal]}>
-                Total
+              <Text style={[styles.tableCell, styles.colTotal]}>
+                {formatCurrency(item.price * item.quantity, data.currencyCode)}
               </Text>
             </View>
+          ))}
+        </View>
+      </View>
 
-            {/* Table Rows */}
-            {data.items.map((item) => (
-              <View key={item.id} style={styles.tableRow}>
-                <Text style={[styles.tableCell, styles.colService]}>
-                  {item.service?.name || item.product?.name || "Unknown"}
-                </Text>
-                <Text style={[styles.tableCell, styles.colStaff]}>
-                  {item.staff
-                    ? `${item.staff.firstName} ${item.staff.lastName}`.trim() || "-"
-                    : "-"}
-                </Text>
-                <Text style={[styles.tableCell, styles.colPrice]}>
-                  {formatCurrency(item.price, data.currencyCode)}
-                </Text>
-                <Text style={[styles.tableCell, styles.colQty]}>
-                  {item.quantity}
-                </Text>
-                <Text style={[styles.tableCell, styles.colTotal]}>
-                  {formatCurrency(item.price * item.quantity, data.currencyCode)}
-                </Text>
-              </View>
-            ))}
-          </View>
+      {/* Totals */}
+      <View style={styles.totalsSection}>
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Subtotal:</Text>
+          <Text style={styles.totalValue}>
+            {formatCurrency(data.subtotal, data.currencyCode)}
+          </Text>
         </View>
 
-        {/* Totals */}
-        <View style={styles.totalsSection}>
+        {data.discount > 0 && (
           <View style={styles.totalRow}>
-            <Text style={styles.totalLabel}>Subtotal:</Text>
+            <Text style={styles.totalLabel}>Discount:</Text>
+            <Text style={[styles.totalValue, { color: "#22c55e" }]}>
+              -{formatCurrency(data.discount, data.currencyCode)}
+            </Text>
+          </View>
+        )}
+
+        {data.taxLines.map((line, index) => (
+          <View key={index} style={styles.totalRow}>
+            <Text style={styles.totalLabel}>{taxLineLabel(line)}:</Text>
             <Text style={styles.totalValue}>
-              {formatCurrency(data.subtotal, data.currencyCode)}
+              {formatCurrency(line.amount, data.currencyCode)}
             </Text>
           </View>
+        ))}
 
-          {data.discount > 0 && (
+        {data.taxLines.length === 0 && data.tax > 0 && (
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Tax ({data.taxRate}%):</Text>
+            <Text style={styles.totalValue}>
+              {formatCurrency(data.tax, data.currencyCode)}
+            </Text>
+          </View>
+        )}
+
+        <View style={[styles.totalRow, styles.grandTotal]}>
+          <Text style={[styles.totalLabel, styles.grandTotalLabel]}>
+            Total:
+          </Text>
+          <Text style={[styles.totalValue, styles.grandTotalValue]}>
+            {formatCurrency(data.total, data.currencyCode)}
+          </Text>
+        </View>
+
+        {!!data.tip && (
+          <>
             <View style={styles.totalRow}>
-              <Text style={styles.totalLabel}>Discount:</Text>
-              <Text style={[styles.totalValue, { color: "#22c55e" }]}>
-                -{formatCurrency(data.discount, data.currencyCode)}
+              <Text style={styles.totalLabel}>Tip:</Text>
+              <Text style={styles.totalValue}>
+                {formatCurrency(data.tip, data.currencyCode)}
               </Text>
             </View>
-          )}
-
-          {data.tax > 0 && (
             <View style={styles.totalRow}>
-              <Text style={styles.totalLabel}>Tax ({data.taxRate}%):</Text>
+              <Text style={styles.totalLabel}>Total Paid:</Text>
               <Text style={styles.totalValue}>
-                {formatCurrency(data.tax, data.currencyCode)}
+                {formatCurrency(data.total + data.tip, data.currencyCode)}
               </Text>
             </View>
-          )}
-
-          <View style={[styles.totalRow, styles.grandTotal]}>
-            <Text style={[styles.totalLabel, styles.grandTotalLabel]}>
-              Total:
-            </Text>
-            <Text style={[styles.totalValue, styles.grandTotalValue]}>
-              {formatCurrency(data.total, data.currencyCode)}
-            </Text>
-          </View>
-        </View>
-
-        {/* Loyalty Points */}
-        {(data.loyaltyPointsEarned > 0 || data.loyaltyPointsRedeemed > 0) && (
-          <View style={styles.loyaltyInfo}>
-            <Text style={{ color: "#92400e", fontSize: 9 }}>
-              {data.loyaltyPointsEarned > 0 &&
-                `Points Earned: +${data.loyaltyPointsEarned}`}
-              {data.loyaltyPointsEarned > 0 &&
-                data.loyaltyPointsRedeemed > 0 &&
-                " | "}
-              {data.loyaltyPointsRedeemed > 0 &&
-                `Points Redeemed: -${data.loyaltyPointsRedeemed}`}
-            </Text>
-          </View>
+          </>
         )}
+      </View>
 
-        {/* Payment Confirmation */}
-        {data.status === "PAID" && (
-          <View style={styles.paymentInfo}>
-            <Text style={{ color: "#166534", fontWeight: "bold" }}>
-              Payment Received
-            </Text>
-            <Text style={{ color: "#166534", fontSize: 9, marginTop: 2 }}>
-              Thank you for your business!
-            </Text>
-          </View>
-        )}
+      {/* Loyalty Points */}
+      {(data.loyaltyPointsEarned > 0 || data.loyaltyPointsRedeemed > 0) && (
+        <View style={styles.loyaltyInfo}>
+          <Text style={{ color: "#92400e", fontSize: 9 }}>
+            {data.loyaltyPointsEarned > 0 &&
+              `Points Earned: +${data.loyaltyPointsEarned}`}
+            {data.loyaltyPointsEarned > 0 &&
+              data.loyaltyPointsRedeemed > 0 &&
+              " | "}
+            {data.loyaltyPointsRedeemed > 0 &&
+              `Points Redeemed: -${data.loyaltyPointsRedeemed}`}
+          </Text>
+        </View>
+      )}
 
-        {/* Footer */}
-        <View style={styles.footer}>
-          <Text>Thank you for choosing {data.salonName}!</Text>
-          <Text style={{ marginTop: 4 }}>
-            Generated on {formatInTz(new Date(), "MMMM d, yyyy 'at' h:mm a", data.timezone)}
+      {/* Payment Confirmation */}
+      {data.status === "PAID" && (
+        <View style={styles.paymentInfo}>
+          <Text style={{ color: "#166534", fontWeight: "bold" }}>
+            Payment Received
+          </Text>
+          <Text style={{ color: "#166534", fontSize: 9, marginTop: 2 }}>
+            Thank you for your business!
           </Text>
         </View>
-      </Page>
+      )}
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <Text>Thank you for choosing {data.salonName}!</Text>
+        <Text style={{ marginTop: 4 }}>
+          Generated on {formatInTz(new Date(), "MMMM d, yyyy 'at' h:mm a", data.timezone)}
+        </Text>
+      </View>
+    </Page>
+  );
+}
+
+export function InvoicePDF({ data }: InvoicePDFProps) {
+  return (
+    <Document>
+      <InvoicePage data={data} />
+    </Document>
+  );
+}
+
+/** Several invoices in one document, one per page, for bulk export. */
+export function InvoicesPDF({ invoices }: { invoices: InvoicePDFData[] }) {
+  return (
+    <Document>
+      {invoices.map((data, index) => (
+        <InvoicePage key={index} data={data} />
+      ))}
     </Document>
   );
 }
@@ -0,0 +1,25 @@
+import { InvoiceStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  PENDING: "Pending",
+  PAID: "Paid",
+  OVERDUE: "Overdue",
+  CANCELLED: "Cancelled",
+  REFUNDED: "Refunded",
+};
+
+export function InvoiceStatusBadge({ status }: { status: InvoiceStatus }) {
+  switch (status) {
+    case "PAID":
+      return <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">Paid</Badge>;
+    case "PENDING":
+      return <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400">Pending</Badge>;
+    case "OVERDUE":
+      return <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400">Overdue</Badge>;
+    case "CANCELLED":
+      return <Badge variant="secondary">Cancelled</Badge>;
+    case "REFUNDED":
+      return <Badge className="bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400">Refunded</Badge>;
+  }
+}
@@ -0,0 +1,478 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { InvoiceStatus } from "@prisma/client";
+import { toast } from "sonner";
+import {
+  Search,
+  Eye,
+  ChevronLeft,
+  ChevronRight,
+  FileText,
+  Clock,
+  AlertTriangle,
+  Wallet,
+  RotateCcw,
+  Mail,
+  Loader2,
+  X,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { InvoiceListItem } from "@/lib/actions/invoice";
+import { sendInvoiceEmails } from "@/lib/actions/email";
+import { formatCurrency } from "@/lib/utils/currency";
+import { invoiceBalance } from "@/lib/utils/receivables";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+import { InvoiceExportButton } from "./invoice-export-button";
+import { InvoiceStatusBadge, INVOICE_STATUS_LABELS } from "./invoice-status-badge";
+
+interface InvoicesTableProps {
+  invoices: InvoiceListItem[];
+  total: number;
+  page: number;
+  totalPages: number;
+  pageSize: number;
+  stats: {
+    totalPending: number;
+    totalOverdue: number;
+    pendingCount: number;
+    overdueCount: number;
+    receivedThisMonth: number;
+    refundedThisMonth: number;
+  } | null;
+  filters: {
+    query?: string;
+    status?: string;
+    from?: string;
+    to?: string;
+    clientId?: string;
+  };
+  clientName?: string; // Shown while filtered to one client
+  showBranch: boolean;
+  currencyCode: string;
+  timezone: string;
+}
+
+export function InvoicesTable({
+  invoices,
+  total,
+  page,
+  totalPages,
+  pageSize,
+  stats,
+  filters,
+  clientName,
+  showBranch,
+  currencyCode,
+  timezone,
+}: InvoicesTableProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [searchTerm, setSearchTerm] = useState(filters.query || "");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSending, setIsSending] = useState(false);
+  const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // A new page of results starts with nothing picked
+  useEffect(() => {
+    setSelected(new Set());
+  }, [invoices]);
+
+  // Cleanup debounce timer
+  useEffect(() => {
+    return () => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+      }
+    };
+  }, []);
+
+  const updateFilter = (key: string, value: string | undefined) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    params.delete("page");
+    router.push(`/dashboard/invoices?${params.toString()}`);
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+    }
+    debounceTimerRef.current = setTimeout(() => {
+      updateFilter("q", value.trim() || undefined);
+    }, 400);
+  };
+
+  const clearFilters = () => {
+    setSearchTerm("");
+    const branch = searchParams.get("branch");
+    router.push(`/dashboard/invoices${branch ? `?branch=${branch}` : ""}`);
+  };
+
+  const goToPage = (p: number) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("page", String(p));
+    router.push(`/dashboard/invoices?${params.toString()}`);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(invoices.map((i) => i.id)) : new Set());
+  };
+
+  const toggleOne = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      const result = await sendInvoiceEmails({ invoiceIds: [...selected] });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      const { sent, skipped, failed } = result.data;
+      if (sent > 0) {
+        toast.success(`${sent} ${sent === 1 ? "invoice" : "invoices"} sent`);
+      }
+      if (skipped > 0) {
+        toast.info(`${skipped} skipped — no client email or from another branch`);
+      }
+      if (failed > 0) {
+        toast.error(`${failed} could not be sent`);
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const hasActiveFilters = filters.query || filters.status || filters.from || filters.to || filters.clientId;
+  const allSelected = invoices.length > 0 && selected.size === invoices.length;
+
+  const amountPaid = (invoice: InvoiceListItem) =>
+    invoice.payments.reduce((sum, p) => sum + Number(p.amount), 0);
+
+  return (
+    <div className="space-y-4">
+      {/* Stats Cards */}
+      {stats && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-2">
+                <Clock className="h-5 w-5 text-yellow-600" />
+                <div>
+                  <p className="text-sm font-medium">Pending</p>
+                  <p className="text-2xl font-bold">{formatCurrency(stats.totalPending, currencyCode)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {stats.pendingCount} {stats.pendingCount === 1 ? "invoice" : "invoices"}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-2">
+                <AlertTriangle className="h-5 w-5 text-red-600" />
+                <div>
+                  <p className="text-sm font-medium">Overdue</p>
+                  <p className="text-2xl font-bold">{formatCurrency(stats.totalOverdue, currencyCode)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {stats.overdueCount} {stats.overdueCount === 1 ? "invoice" : "invoices"}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-2">
+                <Wallet className="h-5 w-5 text-green-600" />
+                <div>
+                  <p className="text-sm font-medium">Received This Month</p>
+                  <p className="text-2xl font-bold">{formatCurrency(stats.receivedThisMonth, currencyCode)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-2">
+                <RotateCcw className="h-5 w-5 text-orange-600" />
+                <div>
+                  <p className="text-sm font-medium">Refunded This Month</p>
+                  <p className="text-2xl font-bold">{formatCurrency(stats.refundedThisMonth, currencyCode)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search invoice, client name, phone or email..."
+                value={searchTerm}
+                onChange={(e) => handleSearchChange(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select
+              value={filters.status || "all"}
+              onValueChange={(v) => updateFilter("status", v === "all" ? undefined : v)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {Object.values(InvoiceStatus).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {INVOICE_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={filters.from || ""}
+              onChange={(e) => updateFilter("from", e.target.value || undefined)}
+              placeholder="From date"
+            />
+            <Input
+              type="date"
+              value={filters.to || ""}
+              onChange={(e) => updateFilter("to", e.target.value || undefined)}
+              placeholder="To date"
+            />
+          </div>
+          {hasActiveFilters && (
+            <div className="flex flex-wrap items-center gap-2">
+              {filters.clientId && (
+                <Badge variant="secondary" className="gap-1">
+                  Client: {clientName || "Selected client"}
+                  <button
+                    type="button"
+                    onClick={() => updateFilter("client", undefined)}
+                    aria-label="Remove client filter"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearFilters}
+                className="text-muted-foreground"
+              >
+                <X className="h-3 w-3 mr-1" />
+                Clear filters
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Invoices Table */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Invoices</CardTitle>
+            <CardDescription>
+              {total === 0
+                ? "No invoices"
+                : `Showing ${(page - 1) * pageSize + 1}-${Math.min(page * pageSize, total)} of ${total}`}
+            </CardDescription>
+          </div>
+          {selected.size > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">{selected.size} selected</span>
+              <InvoiceExportButton invoiceIds={[...selected]} size="sm" />
+              <Button variant="outline" size="sm" onClick={handleResend} disabled={isSending}>
+                {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+                Re-send
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    aria-label="Select all invoices"
+                  />
+                </TableHead>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Client</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Balance</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-16">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-12">
+                    <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">No invoices found</h3>
+                    <p className="text-muted-foreground">
+                      {hasActiveFilters
+                        ? "No invoices match your filters."
+                        : "Invoices are issued when a sale is completed."}
+                    </p>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                invoices.map((invoice) => {
+                  const isOpen = invoice.status === "PENDING" || invoice.status === "OVERDUE";
+                  const balance = invoiceBalance(Number(invoice.total) + Number(invoice.tip), amountPaid(invoice));
+                  return (
+                    <TableRow
+                      key={invoice.id}
+                      className="cursor-pointer"
+                      data-state={selected.has(invoice.id) ? "selected" : undefined}
+                      onClick={() => router.push(`/dashboard/invoices/${invoice.id}`)}
+                    >
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <Checkbox
+                          checked={selected.has(invoice.id)}
+                          onCheckedChange={(checked) => toggleOne(invoice.id, checked === true)}
+                          aria-label={`Select ${invoice.invoiceNumber}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <span className="font-mono text-sm">{invoice.invoiceNumber}</span>
+                        {showBranch && (
+                          <p className="text-xs text-muted-foreground">{invoice.salon.name}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">
+                          {invoice.client.firstName} {invoice.client.lastName}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {invoice.client.phone || invoice.client.email || <span className="italic">No contact</span>}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-muted-foreground">
+                          {formatInTz(invoice.createdAt, "MMM d, yyyy", timezone)}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm text-muted-foreground">
+                          {invoice.dueDate ? formatDateOnly(invoice.dueDate, "MMM d, yyyy") : "-"}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="font-semibold">
+                          {formatCurrency(Number(invoice.total), currencyCode)}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {isOpen && balance > 0 ? (
+                          <span className="font-medium text-red-600">{formatCurrency(balance, currencyCode)}</span>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <InvoiceStatusBadge status={invoice.status} />
+                      </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => router.push(`/dashboard/invoices/${invoice.id}`)}
+                          title="View invoice"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => goToPage(page - 1)}
+            disabled={page <= 1}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </Button>
+          <span className="text-sm">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => goToPage(page + 1)}
+            disabled={page >= totalPages}
+          >
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
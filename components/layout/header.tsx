@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { useSession, signOut } from "next-auth/react";
-import { Menu, Bell, ChevronDown, LogOut, User, Settings } from "lucide-react";
+import { Menu, ChevronDown, LogOut, User, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -17,6 +17,7 @@ import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { Sheet, SheetContent, SheetTrigger, SheetTitle, SheetHeader } from "@/components/ui/sheet";
 import { MobileSidebar } from "@/components/layout/sidebar";
 import { SalonSwitcher } from "@/components/layout/salon-switcher";
+import { NotificationsMenu } from "@/components/layout/notifications-menu";
 import { cn } from "@/lib/utils";
 
 interface HeaderProps {
@@ -84,11 +85,7 @@ export function Header({ sidebarCollapsed = false, onToggleSidebar }: HeaderProp
         <ThemeToggle />
 
         {/* Notifications */}
-        <Button variant="ghost" size="icon" className="h-9 w-9 relative">
-          <Bell className="h-5 w-5" />
-          <span className="sr-only">Notifications</span>
-          <span className="absolute right-1 top-1 h-2 w-2 rounded-full bg-primary" />
-        </Button>
+        <NotificationsMenu />
 
         {/* User menu */}
         <DropdownMenu>
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { Bell, PackageX } from "lucide-react";
+import { Role } from "@prisma/client";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getStockAlerts, StockAlertItem } from "@/lib/actions/stock-alert";
+import { hasPermission } from "@/lib/permissions";
+
+const MAX_SHOWN = 5;
+
+export function NotificationsMenu() {
+  const { data: session } = useSession();
+  const pathname = usePathname();
+  const [alerts, setAlerts] = useState<StockAlertItem[]>([]);
+
+  const canViewAlerts = hasPermission(
+    (session?.user?.salonRole ?? null) as Role | null,
+    "stock-alerts:view",
+    session?.user?.isSuperAdmin === true
+  );
+
+  // Reload on navigation so alerts dismissed or raised elsewhere show up
+  useEffect(() => {
+    if (!canViewAlerts) return;
+    async function load() {
+      const result = await getStockAlerts();
+      if (result.success) setAlerts(result.data);
+    }
+    load();
+  }, [canViewAlerts, session?.user?.salonId, pathname]);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-9 w-9 relative">
+          <Bell className="h-5 w-5" />
+          <span className="sr-only">Notifications</span>
+          {alerts.length > 0 && <span className="absolute right-1 top-1 h-2 w-2 rounded-full bg-primary" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {alerts.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">You&apos;re all caught up</p>
+        ) : (
+          <>
+            {alerts.slice(0, MAX_SHOWN).map((alert) => (
+              <DropdownMenuItem key={alert.id} asChild>
+                <Link href={`/dashboard/products/${alert.product.id}`} className="flex items-start gap-2">
+                  <PackageX className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{alert.product.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {alert.product.stock === 0 ? "Out of stock" : `${alert.product.stock} left`}
+                      {alert.daysOfCover !== null && ` · about ${alert.daysOfCover} days of cover`}
+                    </p>
+                  </div>
+                </Link>
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem asChild>
+              <Link href="/dashboard/products/reorder" className="justify-center text-sm font-medium">
+                {alerts.length > MAX_SHOWN ? `View all ${alerts.length} low-stock alerts` : "Review reorders"}
+              </Link>
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
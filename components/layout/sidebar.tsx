@@ -20,6 +20,13 @@ import {
   Building2,
   Receipt,
   Banknote,
+  Hourglass,
+  Ticket,
+  BadgeCheck,
+  Tag,
+  Coins,
+  Truck,
+  ClipboardList,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -50,6 +57,12 @@ const navItems: NavItem[] = [
     icon: Calendar,
     roles: [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
   },
+  {
+    title: "Waitlist",
+    href: "/dashboard/waitlist",
+    icon: Hourglass,
+    roles: [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
+  },
   {
     title: "Clients",
     href: "/dashboard/clients",
@@ -68,6 +81,18 @@ const navItems: NavItem[] = [
     icon: Package,
     roles: [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
   },
+  {
+    title: "Suppliers",
+    href: "/dashboard/suppliers",
+    icon: Truck,
+    roles: [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+  },
+  {
+    title: "Purchase Orders",
+    href: "/dashboard/purchase-orders",
+    icon: ClipboardList,
+    roles: [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+  },
   {
     title: "Sales",
     href: "/dashboard/sales",
@@ -80,6 +105,30 @@ const navItems: NavItem[] = [
     icon: FileText,
     roles: [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
   },
+  {
+    title: "Cash Drawer",
+    href: "/dashboard/cash-drawer",
+    icon: Coins,
+    roles: [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
+  },
+  {
+    title: "Gift Cards",
+    href: "/dashboard/gift-cards",
+    icon: Ticket,
+    roles: [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+  },
+  {
+    title: "Memberships",
+    href: "/dashboard/memberships",
+    icon: BadgeCheck,
+    roles: [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
+  },
+  {
+    title: "Promotions",
+    href: "/dashboard/promotions",
+    icon: Tag,
+    roles: [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+  },
   {
     title: "Schedules",
     href: "/dashboard/schedules",
@@ -0,0 +1,198 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { RefreshCw, Search, Users } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { MembershipActions } from "@/components/memberships/membership-actions";
+import { MembershipStatusBadge } from "@/components/memberships/membership-status-badge";
+import { ClientMembershipListItem, processMembershipBilling } from "@/lib/actions/membership";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatBillingInterval } from "@/lib/utils/membership";
+import { formatInTz } from "@/lib/utils/timezone";
+
+interface MembersPanelProps {
+  memberships: ClientMembershipListItem[];
+  canSell: boolean;
+  canRunBilling: boolean;
+  currencyCode: string;
+  timezone: string;
+}
+
+export function MembersPanel({ memberships, canSell, canRunBilling, currencyCode, timezone }: MembersPanelProps) {
+  const router = useRouter();
+  const [search, setSearch] = useState("");
+  const [isBilling, setIsBilling] = useState(false);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return memberships;
+    return memberships.filter((m) =>
+      `${m.client.firstName} ${m.client.lastName ?? ""} ${m.plan.name}`.toLowerCase().includes(term)
+    );
+  }, [memberships, search]);
+
+  const handleRunBilling = async () => {
+    setIsBilling(true);
+    try {
+      const result = await processMembershipBilling();
+      if (result.success) {
+        const { cyclesBilled, membershipsCancelled } = result.data;
+        toast.success(
+          cyclesBilled + membershipsCancelled === 0
+            ? "No memberships are due"
+            : `${cyclesBilled} renewal invoice${cyclesBilled === 1 ? "" : "s"} raised, ${membershipsCancelled} membership${membershipsCancelled === 1 ? "" : "s"} ended`
+        );
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsBilling(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            Renewals are invoiced automatically on the billing date. Sign clients up from their profile.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative w-56">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search member or plan..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          {canRunBilling && (
+            <Button size="sm" variant="outline" onClick={handleRunBilling} disabled={isBilling}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${isBilling ? "animate-spin" : ""}`} />
+              Run Billing
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {filtered.length === 0 ? (
+          <div className="text-center py-6">
+            <Users className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">
+              {memberships.length === 0 ? "No clients have signed up yet" : "No memberships match your search"}
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Current Cycle</TableHead>
+                  <TableHead>Included Left</TableHead>
+                  <TableHead>Latest Invoice</TableHead>
+                  {canSell && <TableHead className="w-[120px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((membership) => {
+                  const latest = membership.charges[0]?.sale;
+                  return (
+                    <TableRow key={membership.id}>
+                      <TableCell>
+                        <Link href={`/dashboard/clients/${membership.client.id}`} className="font-medium hover:underline">
+                          {membership.client.firstName} {membership.client.lastName}
+                        </Link>
+                        {membership.client.phone && (
+                          <p className="text-xs text-muted-foreground">{membership.client.phone}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p>{membership.plan.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(Number(membership.plan.price), currencyCode)} · {formatBillingInterval(membership.plan.billingIntervalMonths)}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <MembershipStatusBadge status={membership.status} cancelAtPeriodEnd={membership.cancelAtPeriodEnd} />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {membership.status === "CANCELLED" ? (
+                          <span className="text-muted-foreground">
+                            Ended {membership.cancelledAt ? formatInTz(membership.cancelledAt, "MMM d, yyyy", timezone) : ""}
+                          </span>
+                        ) : (
+                          <>
+                            <p>
+                              {formatInTz(membership.currentPeriodStart, "MMM d", timezone)} - {formatInTz(membership.currentPeriodEnd, "MMM d, yyyy", timezone)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {membership.status === "PAUSED"
+                                ? "Billing paused"
+                                : membership.cancelAtPeriodEnd
+                                ? "Ends at cycle end"
+                                : "Renews at cycle end"}
+                            </p>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {membership.credits.length === 0 ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          membership.credits.map((credit) => (
+                            <p key={credit.id}>
+                              {credit.remaining} × {credit.service.name}
+                            </p>
+                          ))
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {latest?.invoice ? (
+                          <Link href={`/dashboard/sales/${latest.id}`} className="hover:underline">
+                            <span className="font-mono">{latest.invoice.invoiceNumber}</span>
+                            {latest.invoice.status === "PENDING" && (
+                              <Badge variant="warning" className="ml-2">Unpaid</Badge>
+                            )}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      {canSell && (
+                        <TableCell>
+                          <MembershipActions membership={membership} timezone={timezone} />
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Pause, Play, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { MembershipStatus } from "@prisma/client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cancelMembership, pauseMembership, resumeMembership } from "@/lib/actions/membership";
+import { formatInTz } from "@/lib/utils/timezone";
+
+interface MembershipActionsProps {
+  membership: {
+    id: string;
+    status: MembershipStatus;
+    cancelAtPeriodEnd: boolean;
+    currentPeriodEnd: Date;
+  };
+  timezone: string;
+}
+
+/** Pause, resume and cancel buttons for a membership. */
+export function MembershipActions({ membership, timezone }: MembershipActionsProps) {
+  const router = useRouter();
+  const [showCancel, setShowCancel] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (membership.status === "CANCELLED") return null;
+
+  const handlePause = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await pauseMembership(membership.id);
+      if (result.success) {
+        toast.success("Membership paused");
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResume = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await resumeMembership(membership.id);
+      if (result.success) {
+        toast.success(
+          result.data.invoiceNumber
+            ? `Membership resumed. Invoice ${result.data.invoiceNumber} raised for the new cycle.`
+            : "Membership resumed"
+        );
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (immediately: boolean) => {
+    setIsSubmitting(true);
+    try {
+      const result = await cancelMembership({ id: membership.id, immediately });
+      if (result.success) {
+        toast.success(immediately ? "Membership cancelled" : "Membership will end with the current cycle");
+        setShowCancel(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const periodEnd = formatInTz(membership.currentPeriodEnd, "MMM d, yyyy", timezone);
+
+  return (
+    <>
+      <div className="flex justify-end gap-1">
+        {membership.status === "ACTIVE" && !membership.cancelAtPeriodEnd && (
+          <Button size="icon" variant="ghost" title="Pause" onClick={handlePause} disabled={isSubmitting}>
+            <Pause className="h-4 w-4" />
+          </Button>
+        )}
+        {(membership.status === "PAUSED" || membership.cancelAtPeriodEnd) && (
+          <Button size="icon" variant="ghost" title="Resume" onClick={handleResume} disabled={isSubmitting}>
+            <Play className="h-4 w-4" />
+          </Button>
+        )}
+        <Button
+          size="icon"
+          variant="ghost"
+          title="Cancel membership"
+          onClick={() => setShowCancel(true)}
+          disabled={isSubmitting}
+        >
+          <XCircle className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog open={showCancel} onOpenChange={setShowCancel}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cancel Membership</DialogTitle>
+            <DialogDescription>
+              {membership.status === "PAUSED"
+                ? "The membership is paused, so it ends now. No further invoices are raised."
+                : `The client has paid through ${periodEnd}. Let the membership run until then, or end it now and stop member benefits straight away.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setShowCancel(false)} disabled={isSubmitting}>
+              Keep Membership
+            </Button>
+            {membership.status === "ACTIVE" && !membership.cancelAtPeriodEnd && (
+              <Button variant="secondary" onClick={() => handleCancel(false)} disabled={isSubmitting}>
+                End on {periodEnd}
+              </Button>
+            )}
+            <Button variant="destructive" onClick={() => handleCancel(true)} disabled={isSubmitting}>
+              End Now
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
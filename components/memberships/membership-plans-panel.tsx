@@ -0,0 +1,422 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { BadgeCheck, Pencil, Plus, Power, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  createMembershipPlan,
+  updateMembershipPlan,
+  deleteMembershipPlan,
+  MembershipPlanListItem,
+} from "@/lib/actions/membership";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatBillingInterval } from "@/lib/utils/membership";
+
+const BILLING_INTERVALS = [1, 3, 6, 12];
+
+interface ServiceOption {
+  id: string;
+  name: string;
+}
+
+interface CreditRow {
+  serviceId: string;
+  quantity: string;
+}
+
+interface MembershipPlansPanelProps {
+  plans: MembershipPlanListItem[];
+  services: ServiceOption[];
+  canManage: boolean;
+  currencyCode: string;
+}
+
+const emptyRow: CreditRow = { serviceId: "", quantity: "1" };
+
+export function MembershipPlansPanel({ plans, services, canManage, currencyCode }: MembershipPlansPanelProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<MembershipPlanListItem | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [price, setPrice] = useState("");
+  const [billingIntervalMonths, setBillingIntervalMonths] = useState("1");
+  const [serviceDiscountPercent, setServiceDiscountPercent] = useState("0");
+  const [productDiscountPercent, setProductDiscountPercent] = useState("0");
+  const [isActive, setIsActive] = useState(true);
+  const [credits, setCredits] = useState<CreditRow[]>([]);
+
+  const fmt = (value: number | { toString(): string }) => formatCurrency(Number(value), currencyCode);
+
+  const openCreate = () => {
+    setEditing(null);
+    setName("");
+    setDescription("");
+    setPrice("");
+    setBillingIntervalMonths("1");
+    setServiceDiscountPercent("0");
+    setProductDiscountPercent("0");
+    setIsActive(true);
+    setCredits([]);
+    setIsOpen(true);
+  };
+
+  const openEdit = (plan: MembershipPlanListItem) => {
+    setEditing(plan);
+    setName(plan.name);
+    setDescription(plan.description ?? "");
+    setPrice(String(Number(plan.price)));
+    setBillingIntervalMonths(String(plan.billingIntervalMonths));
+    setServiceDiscountPercent(String(Number(plan.serviceDiscountPercent)));
+    setProductDiscountPercent(String(Number(plan.productDiscountPercent)));
+    setIsActive(plan.isActive);
+    setCredits(plan.credits.map((c) => ({ serviceId: c.serviceId, quantity: String(c.quantity) })));
+    setIsOpen(true);
+  };
+
+  const updateRow = (index: number, changes: Partial<CreditRow>) => {
+    setCredits((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSubmit = async () => {
+    const data = {
+      name: name.trim(),
+      description: description.trim(),
+      price: parseFloat(price) || 0,
+      billingIntervalMonths: parseInt(billingIntervalMonths, 10),
+      serviceDiscountPercent: parseFloat(serviceDiscountPercent) || 0,
+      productDiscountPercent: parseFloat(productDiscountPercent) || 0,
+      isActive,
+      credits: credits
+        .filter((row) => row.serviceId)
+        .map((row) => ({ serviceId: row.serviceId, quantity: parseInt(row.quantity, 10) || 0 })),
+    };
+
+    setIsSubmitting(true);
+    try {
+      const result = editing
+        ? await updateMembershipPlan({ id: editing.id, ...data })
+        : await createMembershipPlan(data);
+      if (result.success) {
+        toast.success(editing ? "Plan updated" : "Plan created");
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeactivate = async (plan: MembershipPlanListItem) => {
+    const result = await deleteMembershipPlan(plan.id);
+    if (result.success) {
+      toast.success(`${plan.name} is no longer offered`);
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const describeBenefits = (plan: MembershipPlanListItem) => {
+    const lines = plan.credits.map((c) => `${c.quantity} × ${c.service.name}`);
+    if (Number(plan.serviceDiscountPercent) > 0) lines.push(`${Number(plan.serviceDiscountPercent)}% off services`);
+    if (Number(plan.productDiscountPercent) > 0) lines.push(`${Number(plan.productDiscountPercent)}% off retail`);
+    return lines;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Plans</CardTitle>
+            <CardDescription>
+              Included services reset every billing cycle; member discounts are applied automatically at checkout
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Plan
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {plans.length === 0 ? (
+            <div className="text-center py-6">
+              <BadgeCheck className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No membership plans have been set up yet</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Benefits</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-center">Members</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="w-[100px]" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map((plan) => (
+                    <TableRow key={plan.id}>
+                      <TableCell>
+                        <p className="font-medium">{plan.name}</p>
+                        {plan.description && (
+                          <p className="text-xs text-muted-foreground">{plan.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {describeBenefits(plan).map((line) => (
+                          <p key={line}>{line}</p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <p className="font-medium">{fmt(plan.price)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatBillingInterval(plan.billingIntervalMonths)}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-center text-muted-foreground">
+                        {plan._count.memberships}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={plan.isActive ? "default" : "secondary"}>
+                          {plan.isActive ? "Offered" : "Retired"}
+                        </Badge>
+                      </TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button size="icon" variant="ghost" title="Edit" onClick={() => openEdit(plan)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {plan.isActive && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title="Stop offering"
+                                onClick={() => handleDeactivate(plan)}
+                              >
+                                <Power className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Plan" : "New Plan"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Price and included services change from each member's next billing cycle."
+                : "Members are invoiced the plan price at the start of every cycle"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="planName">Name *</Label>
+              <Input
+                id="planName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Blowout Club"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="planDescription">Description</Label>
+              <Textarea
+                id="planDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="planPrice">Price *</Label>
+                <Input
+                  id="planPrice"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Billed</Label>
+                <Select value={billingIntervalMonths} onValueChange={setBillingIntervalMonths}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BILLING_INTERVALS.map((months) => (
+                      <SelectItem key={months} value={String(months)}>
+                        {formatBillingInterval(months)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Included Each Cycle</Label>
+              {credits.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={row.serviceId} onValueChange={(v) => updateRow(index, { serviceId: v })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select service" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {services.map((service) => (
+                        <SelectItem
+                          key={service.id}
+                          value={service.id}
+                          disabled={credits.some((r, i) => i !== index && r.serviceId === service.id)}
+                        >
+                          {service.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={row.quantity}
+                    onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                    className="w-20"
+                    aria-label="Sessions per cycle"
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setCredits((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setCredits((prev) => [...prev, emptyRow])}
+                disabled={credits.length >= services.length}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Service
+              </Button>
+            </div>
+
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="serviceDiscount">Service Discount (%)</Label>
+                <Input
+                  id="serviceDiscount"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.5"
+                  value={serviceDiscountPercent}
+                  onChange={(e) => setServiceDiscountPercent(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="productDiscount">Retail Discount (%)</Label>
+                <Input
+                  id="productDiscount"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.5"
+                  value={productDiscountPercent}
+                  onChange={(e) => setProductDiscountPercent(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {editing && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="planActive"
+                  checked={isActive}
+                  onCheckedChange={(checked) => setIsActive(checked === true)}
+                />
+                <Label htmlFor="planActive" className="font-normal">
+                  Offered to new members
+                </Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {editing ? "Save Changes" : "Create Plan"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
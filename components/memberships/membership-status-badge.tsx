@@ -0,0 +1,21 @@
+import { MembershipStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+
+interface MembershipStatusBadgeProps {
+  status: MembershipStatus;
+  cancelAtPeriodEnd?: boolean;
+  className?: string;
+}
+
+export function MembershipStatusBadge({ status, cancelAtPeriodEnd, className }: MembershipStatusBadgeProps) {
+  if (status === "CANCELLED") {
+    return <Badge variant="secondary" className={className}>Cancelled</Badge>;
+  }
+  if (status === "PAUSED") {
+    return <Badge variant="outline" className={className}>Paused</Badge>;
+  }
+  if (cancelAtPeriodEnd) {
+    return <Badge variant="warning" className={className}>Ending</Badge>;
+  }
+  return <Badge variant="success" className={className}>Member</Badge>;
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CommissionBreakdownLine, getPayrollEntryCommission } from "@/lib/actions/payroll";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatInTz } from "@/lib/utils/timezone";
+
+interface CommissionBreakdownDialogProps {
+  entryId: string;
+  staffName: string;
+  commission: number;
+  currencyCode: string;
+  timezone: string;
+}
+
+/** Sale lines behind a payroll entry's commission, including refund clawbacks. */
+export function CommissionBreakdownDialog({
+  entryId,
+  staffName,
+  commission,
+  currencyCode,
+  timezone,
+}: CommissionBreakdownDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [lines, setLines] = useState<CommissionBreakdownLine[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleOpenChange = async (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (!newOpen) return;
+
+    setIsLoading(true);
+    try {
+      const result = await getPayrollEntryCommission(entryId);
+      if (result.success) {
+        setLines(result.data);
+      } else {
+        toast.error(result.error);
+        setOpen(false);
+      }
+    } catch {
+      toast.error("Failed to load commission breakdown");
+      setOpen(false);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto p-0" disabled={commission === 0}>
+          {formatCurrency(commission, currencyCode)}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Commission for {staffName}</DialogTitle>
+          <DialogDescription>
+            {formatCurrency(commission, currencyCode)} from the sales and refunds below
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !lines ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : lines.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">No commission lines</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Commission</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {formatInTz(line.refundedAt ?? line.saleDate, "MMM d, yyyy", timezone)}
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/dashboard/sales/${line.saleId}`} className="text-primary hover:underline">
+                        {line.invoiceNumber ?? "View sale"}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {line.itemName}
+                      {line.quantity > 1 && ` × ${line.quantity}`}
+                      {line.refundedAt && (
+                        <Badge variant="destructive" className="ml-2">Refund</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.revenue, currencyCode)}</TableCell>
+                    <TableCell className="text-right">{line.rate}%</TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${line.amount < 0 ? "text-red-600 dark:text-red-400" : ""}`}
+                    >
+                      {formatCurrency(line.amount, currencyCode)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
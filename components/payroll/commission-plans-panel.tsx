@@ -0,0 +1,489 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Pencil, Percent, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  createCommissionPlan,
+  updateCommissionPlan,
+  deleteCommissionPlan,
+  CommissionPlanListItem,
+} from "@/lib/actions/commission";
+import { formatCurrency } from "@/lib/utils/currency";
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface TierRow {
+  minRevenue: string;
+  rate: string;
+}
+
+interface ServiceRateRow {
+  serviceId: string;
+  rate: string;
+}
+
+interface CommissionPlansPanelProps {
+  plans: CommissionPlanListItem[];
+  services: Option[];
+  staff: Option[];
+  canManage: boolean;
+  currencyCode: string;
+}
+
+export function CommissionPlansPanel({ plans, services, staff, canManage, currencyCode }: CommissionPlansPanelProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<CommissionPlanListItem | null>(null);
+  const [deleting, setDeleting] = useState<CommissionPlanListItem | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [serviceRate, setServiceRate] = useState("0");
+  const [retailRate, setRetailRate] = useState("0");
+  const [isActive, setIsActive] = useState(true);
+  const [tiers, setTiers] = useState<TierRow[]>([]);
+  const [serviceRates, setServiceRates] = useState<ServiceRateRow[]>([]);
+  const [staffIds, setStaffIds] = useState<string[]>([]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setName("");
+    setServiceRate("0");
+    setRetailRate("0");
+    setIsActive(true);
+    setTiers([]);
+    setServiceRates([]);
+    setStaffIds([]);
+    setIsOpen(true);
+  };
+
+  const openEdit = (plan: CommissionPlanListItem) => {
+    setEditing(plan);
+    setName(plan.name);
+    setServiceRate(String(Number(plan.serviceRate)));
+    setRetailRate(String(Number(plan.retailRate)));
+    setIsActive(plan.isActive);
+    setTiers(plan.tiers.map((t) => ({ minRevenue: String(Number(t.minRevenue)), rate: String(Number(t.rate)) })));
+    setServiceRates(plan.serviceRates.map((r) => ({ serviceId: r.serviceId, rate: String(Number(r.rate)) })));
+    setStaffIds(plan.staff.map((s) => s.userId));
+    setIsOpen(true);
+  };
+
+  // Staff already earning under a different plan, to warn before moving them
+  const otherPlanFor = (userId: string) =>
+    plans.find((p) => p.id !== editing?.id && p.staff.some((s) => s.userId === userId));
+
+  const handleSubmit = async () => {
+    const data = {
+      name: name.trim(),
+      serviceRate: parseFloat(serviceRate) || 0,
+      retailRate: parseFloat(retailRate) || 0,
+      isActive,
+      tiers: tiers
+        .filter((row) => row.minRevenue !== "")
+        .map((row) => ({ minRevenue: parseFloat(row.minRevenue) || 0, rate: parseFloat(row.rate) || 0 })),
+      serviceRates: serviceRates
+        .filter((row) => row.serviceId)
+        .map((row) => ({ serviceId: row.serviceId, rate: parseFloat(row.rate) || 0 })),
+      staffIds,
+    };
+
+    setIsSubmitting(true);
+    try {
+      const result = editing
+        ? await updateCommissionPlan({ id: editing.id, ...data })
+        : await createCommissionPlan(data);
+      if (result.success) {
+        toast.success(editing ? "Plan updated" : "Plan created");
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const result = await deleteCommissionPlan(deleting.id);
+    if (result.success) {
+      toast.success(`${deleting.name} deleted`);
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setDeleting(null);
+  };
+
+  const describeRates = (plan: CommissionPlanListItem) => {
+    const lines = [`Services ${Number(plan.serviceRate)}%`, `Retail ${Number(plan.retailRate)}%`];
+    for (const tier of plan.tiers) {
+      lines.push(`${Number(tier.rate)}% from ${formatCurrency(Number(tier.minRevenue), currencyCode)}`);
+    }
+    for (const rate of plan.serviceRates) {
+      lines.push(`${rate.service.name} ${Number(rate.rate)}%`);
+    }
+    return lines;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Commission Plans</CardTitle>
+            <CardDescription>
+              Commission is added to payroll runs from sales paid in the period, less refunds
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Plan
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {plans.length === 0 ? (
+            <div className="text-center py-6">
+              <Percent className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No commission plans have been set up yet</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Rates</TableHead>
+                    <TableHead>Staff</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="w-[100px]" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map((plan) => (
+                    <TableRow key={plan.id}>
+                      <TableCell className="font-medium">{plan.name}</TableCell>
+                      <TableCell className="text-sm">
+                        {describeRates(plan).map((line) => (
+                          <p key={line}>{line}</p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {plan.staff.length === 0 ? (
+                          <span className="text-muted-foreground">No one assigned</span>
+                        ) : (
+                          plan.staff.map((s) => (
+                            <p key={s.userId}>
+                              {s.user.firstName} {s.user.lastName}
+                            </p>
+                          ))
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={plan.isActive ? "default" : "secondary"}>
+                          {plan.isActive ? "Active" : "Paused"}
+                        </Badge>
+                      </TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button size="icon" variant="ghost" title="Edit" onClick={() => openEdit(plan)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" title="Delete" onClick={() => setDeleting(plan)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Commission Plan" : "New Commission Plan"}</DialogTitle>
+            <DialogDescription>
+              Changes apply to payroll runs created or recalculated from now on.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="commissionName">Name *</Label>
+              <Input
+                id="commissionName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Senior Stylist"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="serviceRate">Service Rate (%)</Label>
+                <Input
+                  id="serviceRate"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.5"
+                  value={serviceRate}
+                  onChange={(e) => setServiceRate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="retailRate">Retail Rate (%)</Label>
+                <Input
+                  id="retailRate"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.5"
+                  value={retailRate}
+                  onChange={(e) => setRetailRate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Revenue Tiers</Label>
+              <p className="text-xs text-muted-foreground">
+                Once a staff member&apos;s service revenue for the period reaches a threshold, all their services earn that tier&apos;s rate.
+              </p>
+              {tiers.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={row.minRevenue}
+                    onChange={(e) =>
+                      setTiers((prev) => prev.map((t, i) => (i === index ? { ...t, minRevenue: e.target.value } : t)))
+                    }
+                    placeholder="Revenue from"
+                    aria-label="Revenue threshold"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.5"
+                    value={row.rate}
+                    onChange={(e) =>
+                      setTiers((prev) => prev.map((t, i) => (i === index ? { ...t, rate: e.target.value } : t)))
+                    }
+                    className="w-24"
+                    aria-label="Tier rate"
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setTiers((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setTiers((prev) => [...prev, { minRevenue: "", rate: serviceRate }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Tier
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Service Overrides</Label>
+              {serviceRates.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={row.serviceId}
+                    onValueChange={(v) =>
+                      setServiceRates((prev) => prev.map((r, i) => (i === index ? { ...r, serviceId: v } : r)))
+                    }
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select service" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {services.map((service) => (
+                        <SelectItem
+                          key={service.id}
+                          value={service.id}
+                          disabled={serviceRates.some((r, i) => i !== index && r.serviceId === service.id)}
+                        >
+                          {service.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.5"
+                    value={row.rate}
+                    onChange={(e) =>
+                      setServiceRates((prev) => prev.map((r, i) => (i === index ? { ...r, rate: e.target.value } : r)))
+                    }
+                    className="w-24"
+                    aria-label="Service rate"
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setServiceRates((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setServiceRates((prev) => [...prev, { serviceId: "", rate: serviceRate }])}
+                disabled={serviceRates.length >= services.length}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Override
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Staff</Label>
+              {staff.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No active staff at this branch</p>
+              ) : (
+                <div className="space-y-2 rounded-md border p-3">
+                  {staff.map((member) => {
+                    const otherPlan = otherPlanFor(member.id);
+                    return (
+                      <label key={member.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={staffIds.includes(member.id)}
+                          onCheckedChange={(checked) =>
+                            setStaffIds((prev) =>
+                              checked === true ? [...prev, member.id] : prev.filter((id) => id !== member.id)
+                            )
+                          }
+                        />
+                        <span className="flex-1">{member.name}</span>
+                        {otherPlan && (
+                          <span className="text-xs text-muted-foreground">on {otherPlan.name}</span>
+                        )}
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {editing && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="commissionActive"
+                  checked={isActive}
+                  onCheckedChange={(checked) => setIsActive(checked === true)}
+                />
+                <Label htmlFor="commissionActive" className="font-normal">
+                  Active (paused plans earn no commission)
+                </Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {editing ? "Save Changes" : "Create Plan"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Staff on this plan stop earning commission. Commission already in payroll runs is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -17,12 +17,14 @@ import {
 import { toast } from "sonner";
 import { PayrollEntryItem, updatePayrollEntry } from "@/lib/actions/payroll";
 import { formatCurrency } from "@/lib/utils/currency";
+import { CommissionBreakdownDialog } from "./commission-breakdown-dialog";
 import { PayrollEntryStatus, PayrollRunStatus } from "@prisma/client";
 
 interface PayrollEntryTableProps {
   entries: PayrollEntryItem[];
   runStatus: PayrollRunStatus;
   currencyCode?: string;
+  timezone?: string;
 }
 
 type EditedEntry = {
@@ -52,6 +54,7 @@ export function PayrollEntryTable({
   entries,
   runStatus,
   currencyCode = "USD",
+  timezone = "UTC",
 }: PayrollEntryTableProps) {
   const router = useRouter();
   const isDraft = runStatus === "DRAFT";
@@ -108,7 +111,7 @@ export function PayrollEntryTable({
 
   const calculateNetPay = (entry: PayrollEntryItem): number => {
     const values = getEntryValues(entry);
-    return values.basePay + values.bonus - values.deductions;
+    return values.basePay + Number(entry.commission) + Number(entry.tips) + values.bonus - values.deductions;
   };
 
   const hasChanges = (entry: PayrollEntryItem): boolean => {
@@ -164,6 +167,8 @@ export function PayrollEntryTable({
   const totalBasePay = entries.reduce(
     (sum, e) => sum + (isDraft ? (editedEntries[e.id]?.basePay ?? Number(e.basePay)) : Number(e.basePay)), 0
   );
+  const totalCommission = entries.reduce((sum, e) => sum + Number(e.commission), 0);
+  const totalTips = entries.reduce((sum, e) => sum + Number(e.tips), 0);
   const totalBonus = entries.reduce(
     (sum, e) => sum + (isDraft ? (editedEntries[e.id]?.bonus ?? Number(e.bonus)) : Number(e.bonus)), 0
   );
@@ -181,6 +186,8 @@ export function PayrollEntryTable({
           <TableRow>
             <TableHead>Staff Member</TableHead>
             <TableHead className="text-right">Base Pay</TableHead>
+            <TableHead className="text-right">Commission</TableHead>
+            <TableHead className="text-right">Tips</TableHead>
             <TableHead className="text-right">Bonus</TableHead>
             <TableHead className="text-right">Deductions</TableHead>
             {isDraft && <TableHead>Deduction Notes</TableHead>}
@@ -213,6 +220,18 @@ export function PayrollEntryTable({
                     formatCurrency(Number(entry.basePay), currencyCode)
                   )}
                 </TableCell>
+                <TableCell className="text-right">
+                  <CommissionBreakdownDialog
+                    entryId={entry.id}
+                    staffName={`${entry.user.firstName} ${entry.user.lastName}`}
+                    commission={Number(entry.commission)}
+                    currencyCode={currencyCode}
+                    timezone={timezone}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(Number(entry.tips), currencyCode)}
+                </TableCell>
                 <TableCell className="text-right">
                   {isDraft ? (
                     <Input
@@ -280,6 +299,8 @@ export function PayrollEntryTable({
           <TableRow className="bg-muted/50 font-bold">
             <TableCell>Total ({entries.length} staff)</TableCell>
             <TableCell className="text-right">{formatCurrency(totalBasePay, currencyCode)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(totalCommission, currencyCode)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(totalTips, currencyCode)}</TableCell>
             <TableCell className="text-right">{formatCurrency(totalBonus, currencyCode)}</TableCell>
             <TableCell className="text-right">{formatCurrency(totalDeductions, currencyCode)}</TableCell>
             {isDraft && <TableCell />}
@@ -22,6 +22,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { createPayrollRunSchema, CreatePayrollRunInput } from "@/lib/validations/payroll";
 import { createPayrollRun, previewPayrollRun, PayrollPreview } from "@/lib/actions/payroll";
+import { formatCurrency } from "@/lib/utils/currency";
 
 type PayrollRunFormInput = {
   periodStart: Date | string;
@@ -29,7 +30,11 @@ type PayrollRunFormInput = {
   notes?: string;
 };
 
-export function PayrollRunForm() {
+interface PayrollRunFormProps {
+  currencyCode?: string;
+}
+
+export function PayrollRunForm({ currencyCode = "USD" }: PayrollRunFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [preview, setPreview] = useState<PayrollPreview | null>(null);
@@ -187,6 +192,20 @@ export function PayrollRunForm() {
                   <strong>{preview?.totalStaff}</strong> staff members will be included in this payroll run.
                 </p>
 
+                {preview && preview.totalCommission !== 0 && (
+                  <p>
+                    Commission for the period:{" "}
+                    <strong>{formatCurrency(preview.totalCommission, currencyCode)}</strong>
+                  </p>
+                )}
+
+                {preview && preview.totalTips > 0 && (
+                  <p>
+                    Tips to pay out:{" "}
+                    <strong>{formatCurrency(preview.totalTips, currencyCode)}</strong>
+                  </p>
+                )}
+
                 {preview && preview.skipped.length > 0 && (
                   <div className="rounded-md border border-yellow-300 bg-yellow-50 dark:border-yellow-700 dark:bg-yellow-900/20 p-3">
                     <div className="flex items-start gap-2">
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, PackagePlus } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { adjustStock } from "@/lib/actions/stock";
+import { MANUAL_STOCK_MOVEMENT_TYPES } from "@/lib/validations/stock";
+import { STOCK_MOVEMENT_LABELS } from "@/lib/utils/stock";
+
+type ManualType = (typeof MANUAL_STOCK_MOVEMENT_TYPES)[number];
+
+// Which way each movement can go; adjustments and transfers can go either way
+const DIRECTIONS: Record<ManualType, "in" | "out" | "either"> = {
+  RECEIPT: "in",
+  ADJUSTMENT: "either",
+  DAMAGE: "out",
+  TRANSFER: "either",
+  BACKBAR_USE: "out",
+};
+
+const REASON_PLACEHOLDERS: Record<ManualType, string> = {
+  RECEIPT: "e.g. Delivery from supplier, invoice #1042",
+  ADJUSTMENT: "e.g. Shelf count",
+  DAMAGE: "e.g. Bottle broken in storage",
+  TRANSFER: "e.g. Sent to the Downtown branch",
+  BACKBAR_USE: "e.g. Used for color services",
+};
+
+interface AdjustStockDialogProps {
+  productId: string;
+  productName: string;
+  stock: number;
+}
+
+/** Record a stock change made outside checkout, with the reason for it. */
+export function AdjustStockDialog({ productId, productName, stock }: AdjustStockDialogProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [type, setType] = useState<ManualType>("RECEIPT");
+  const [direction, setDirection] = useState<"in" | "out">("in");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("");
+
+  const effectiveDirection = DIRECTIONS[type] === "either" ? direction : DIRECTIONS[type];
+  const units = parseInt(quantity) || 0;
+  const stockAfter = stock + (effectiveDirection === "in" ? units : -units);
+
+  const reset = () => {
+    setType("RECEIPT");
+    setDirection("in");
+    setQuantity("");
+    setReason("");
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await adjustStock({
+        productId,
+        type,
+        quantity: effectiveDirection === "in" ? units : -units,
+        reason,
+      });
+      if (result.success) {
+        toast.success(`${productName}: ${result.data.stock} in stock`);
+        setIsOpen(false);
+        reset();
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button>
+          <PackagePlus className="mr-2 h-4 w-4" />
+          Adjust Stock
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Adjust Stock</DialogTitle>
+          <DialogDescription>
+            {productName} — {stock} in stock
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ManualType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MANUAL_STOCK_MOVEMENT_TYPES.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {STOCK_MOVEMENT_LABELS[t]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {DIRECTIONS[type] === "either" && (
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={direction === "in" ? "default" : "outline"}
+                onClick={() => setDirection("in")}
+                className="flex-1"
+              >
+                Add
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={direction === "out" ? "default" : "outline"}
+                onClick={() => setDirection("out")}
+                className="flex-1"
+              >
+                Remove
+              </Button>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="stockQuantity">
+              {effectiveDirection === "in" ? "Units added" : "Units removed"} *
+            </Label>
+            <Input
+              id="stockQuantity"
+              type="number"
+              min="1"
+              step="1"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder="0"
+            />
+            {units > 0 && (
+              <p className={`text-xs ${stockAfter < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                Stock after: {stockAfter}
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="stockReason">Reason *</Label>
+            <Input
+              id="stockReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={REASON_PLACEHOLDERS[type]}
+              maxLength={200}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || units <= 0 || stockAfter < 0 || !reason.trim()}
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Record
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { pdf } from "@react-pdf/renderer";
+import { Loader2, Printer, Search } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getBarcodeLabelData, BarcodeLabelData } from "@/lib/actions/product";
+import { BARCODE_SYMBOLOGY_LABELS, encodeSkuBarcode } from "@/lib/utils/barcode";
+import { formatCurrency } from "@/lib/utils/currency";
+import { BarcodeLabelsPDF, BarcodeLabel } from "./barcode-labels-pdf";
+
+const MAX_COPIES = 100;
+
+/**
+ * Picks products with a SKU and how many labels to print for each, then
+ * downloads an A4 label sheet with name, price and a scannable barcode.
+ */
+export function BarcodeLabelsDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [data, setData] = useState<BarcodeLabelData | null>(null);
+  const [search, setSearch] = useState("");
+  // Copies per selected product id
+  const [copies, setCopies] = useState<Record<string, number>>({});
+
+  const open = async () => {
+    setIsOpen(true);
+    setIsLoading(true);
+    setData(null);
+    setSearch("");
+    setCopies({});
+    try {
+      const result = await getBarcodeLabelData();
+      if (result.success) {
+        setData(result.data);
+      } else {
+        toast.error(result.error);
+        setIsOpen(false);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const products = (data?.products ?? []).map((product) => ({
+    ...product,
+    barcode: encodeSkuBarcode(product.sku),
+  }));
+  const query = search.trim().toLowerCase();
+  const visible = query
+    ? products.filter((p) => p.name.toLowerCase().includes(query) || p.sku.toLowerCase().includes(query))
+    : products;
+  const printable = visible.filter((p) => p.barcode);
+  const allSelected = printable.length > 0 && printable.every((p) => copies[p.id]);
+  const labelCount = Object.values(copies).reduce((sum, n) => sum + n, 0);
+
+  const toggle = (id: string, checked: boolean) => {
+    setCopies((prev) => {
+      const next = { ...prev };
+      if (checked) next[id] = prev[id] ?? 1;
+      else delete next[id];
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setCopies((prev) => {
+      const next = { ...prev };
+      for (const p of printable) {
+        if (checked) next[p.id] = prev[p.id] ?? 1;
+        else delete next[p.id];
+      }
+      return next;
+    });
+  };
+
+  const setCopiesFor = (id: string, value: string) => {
+    const n = Math.min(Math.max(parseInt(value, 10) || 1, 1), MAX_COPIES);
+    setCopies((prev) => ({ ...prev, [id]: n }));
+  };
+
+  const handleGenerate = async () => {
+    if (!data || labelCount === 0) return;
+    setIsGenerating(true);
+    try {
+      const labels: BarcodeLabel[] = products.flatMap(({ id, name, price, barcode }) =>
+        barcode && copies[id] ? Array.from({ length: copies[id] }, () => ({ name, price, barcode })) : []
+      );
+
+      const blob = await pdf(
+        <BarcodeLabelsPDF salonName={data.salonName} currencyCode={data.currencyCode} labels={labels} />
+      ).toBlob();
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "barcode-labels.pdf";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error generating PDF:", error);
+      toast.error("Failed to generate labels PDF");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={open}>
+        <Printer className="mr-2 h-4 w-4" />
+        Print Labels
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Barcode Labels</DialogTitle>
+            <DialogDescription>
+              A4 sheets of 24 labels (63.5 x 33.9 mm). SKUs that are valid EAN-13 codes print as EAN-13,
+              everything else as Code 128.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : data && products.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No products at this branch have a SKU. Add one to a product to print its label.
+            </p>
+          ) : data ? (
+            <div className="space-y-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Search by name or SKU..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => toggleAll(checked === true)}
+                        disabled={printable.length === 0}
+                        aria-label="Select all"
+                      />
+                    </TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Barcode</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="w-24 text-right">Copies</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((p) => (
+                    <TableRow key={p.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={!!copies[p.id]}
+                          onCheckedChange={(checked) => toggle(p.id, checked === true)}
+                          disabled={!p.barcode}
+                          aria-label={`Select ${p.name}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{p.name}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{p.sku}</p>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {p.barcode ? BARCODE_SYMBOLOGY_LABELS[p.barcode.symbology] : "SKU can't be encoded"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(p.price, data.currencyCode)}</TableCell>
+                      <TableCell className="text-right">
+                        {copies[p.id] ? (
+                          <Input
+                            type="number"
+                            min={1}
+                            max={MAX_COPIES}
+                            value={copies[p.id]}
+                            onChange={(e) => setCopiesFor(p.id, e.target.value)}
+                            className="ml-auto h-8 w-20 text-right"
+                          />
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : null}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isGenerating}>
+              Close
+            </Button>
+            <Button onClick={handleGenerate} disabled={isGenerating || labelCount === 0}>
+              {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+              {labelCount > 0 ? `Download ${labelCount} Label${labelCount === 1 ? "" : "s"}` : "Download Labels"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { Document, Page, Text, View, StyleSheet, Svg, Rect } from "@react-pdf/renderer";
+import { formatCurrency } from "@/lib/utils/currency";
+import { Barcode, barcodeBars } from "@/lib/utils/barcode";
+
+// A4 sheet of 3 x 8 labels, 63.5 x 33.9 mm each (the common 24-up label stock)
+const LABEL_COLUMNS = 3;
+const LABEL_ROWS = 8;
+const LABEL_WIDTH = 180;
+const LABEL_HEIGHT = 96;
+const LABEL_PADDING = 8;
+const BARCODE_HEIGHT = 34;
+const MAX_MODULE_WIDTH = 2;
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 37,
+    paddingLeft: 27,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignContent: "flex-start",
+    fontFamily: "Helvetica",
+  },
+  label: {
+    width: LABEL_WIDTH,
+    height: LABEL_HEIGHT,
+    padding: LABEL_PADDING,
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  top: {
+    width: "100%",
+  },
+  header: {
+    width: "100%",
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+  },
+  name: {
+    flex: 1,
+    fontSize: 8,
+    color: "#111827",
+    marginRight: 6,
+  },
+  price: {
+    fontSize: 11,
+    fontWeight: "bold",
+    color: "#111827",
+  },
+  salonName: {
+    width: "100%",
+    fontSize: 6,
+    color: "#6b7280",
+  },
+  code: {
+    fontSize: 7,
+    fontFamily: "Courier",
+    letterSpacing: 1,
+    color: "#111827",
+  },
+});
+
+export interface BarcodeLabel {
+  name: string;
+  price: number;
+  barcode: Barcode;
+}
+
+interface BarcodeLabelsPDFProps {
+  salonName: string;
+  currencyCode: string;
+  labels: BarcodeLabel[];
+}
+
+// Long product names are cut so they don't push the barcode off the label
+function labelName(name: string): string {
+  return name.length > 48 ? `${name.slice(0, 47)}…` : name;
+}
+
+function BarcodeBars({ barcode }: { barcode: Barcode }) {
+  const moduleWidth = Math.min((LABEL_WIDTH - LABEL_PADDING * 2) / barcode.modules.length, MAX_MODULE_WIDTH);
+  return (
+    <Svg width={barcode.modules.length * moduleWidth} height={BARCODE_HEIGHT}>
+      {barcodeBars(barcode.modules).map((bar) => (
+        <Rect
+          key={bar.x}
+          x={bar.x * moduleWidth}
+          y={0}
+          width={bar.width * moduleWidth}
+          height={BARCODE_HEIGHT}
+          fill="#000000"
+        />
+      ))}
+    </Svg>
+  );
+}
+
+export function BarcodeLabelsPDF({ salonName, currencyCode, labels }: BarcodeLabelsPDFProps) {
+  const perPage = LABEL_COLUMNS * LABEL_ROWS;
+  const pages: BarcodeLabel[][] = [];
+  for (let i = 0; i < labels.length; i += perPage) {
+    pages.push(labels.slice(i, i + perPage));
+  }
+
+  return (
+    <Document>
+      {pages.map((pageLabels, pageIndex) => (
+        <Page key={pageIndex} size="A4" style={styles.page}>
+          {pageLabels.map((label, index) => (
+            <View key={index} style={styles.label}>
+              <View style={styles.top}>
+                <Text style={styles.salonName}>{salonName}</Text>
+                <View style={styles.header}>
+                  <Text style={styles.name}>{labelName(label.name)}</Text>
+                  <Text style={styles.price}>{formatCurrency(label.price, currencyCode)}</Text>
+                </View>
+              </View>
+              <BarcodeBars barcode={label.barcode} />
+              <Text style={styles.code}>{label.barcode.text}</Text>
+            </View>
+          ))}
+        </Page>
+      ))}
+    </Document>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { Banknote, Gift, MoreVertical, Edit, Trash2, ShoppingBag, Package, AlertTriangle } from "lucide-react";
+import { Banknote, Gift, MoreVertical, Edit, Trash2, ShoppingBag, Package, AlertTriangle, History } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -31,7 +31,11 @@ export function ProductCard({ product, onDelete, canManage = false, currencyCode
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between">
           <div className="space-y-1">
-            <CardTitle className="text-lg">{product.name}</CardTitle>
+            <CardTitle className="text-lg">
+              <Link href={`/dashboard/products/${product.id}`} className="hover:underline">
+                {product.name}
+              </Link>
+            </CardTitle>
             <div className="flex items-center gap-2">
               {product.category && (
                 <Badge variant="secondary" className="text-xs">
@@ -66,6 +70,12 @@ export function ProductCard({ product, onDelete, canManage = false, currencyCode
                     Edit
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href={`/dashboard/products/${product.id}`}>
+                    <History className="mr-2 h-4 w-4" />
+                    Stock History
+                  </Link>
+                </DropdownMenuItem>
                 {onDelete && (
                   <>
                     <DropdownMenuSeparator />
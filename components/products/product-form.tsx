@@ -11,8 +11,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { productSchema, ProductFormData, ProductFormInput } from "@/lib/validations/product";
 import { createProduct, updateProduct } from "@/lib/actions/product";
+import { describeTaxClass, TaxClassRate } from "@/lib/utils/tax";
+import { SupplierOption } from "@/lib/actions/supplier";
 
 interface ProductFormProps {
   product?: {
@@ -27,19 +36,25 @@ interface ProductFormProps {
     points: number;
     category: string | null;
     isActive: boolean;
+    taxClassId: string | null;
+    supplierId: string | null;
   };
   mode: "create" | "edit";
   categories: string[];
+  taxClasses: TaxClassRate[];
+  suppliers: SupplierOption[];
   currencyCode?: string;
 }
 
-export function ProductForm({ product, mode, categories, currencyCode = "USD" }: ProductFormProps) {
+export function ProductForm({ product, mode, categories, taxClasses, suppliers, currencyCode = "USD" }: ProductFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const {
     register,
     handleSubmit,
+    watch,
+    setValue,
     formState: { errors },
   } = useForm<ProductFormInput, unknown, ProductFormData>({
     resolver: zodResolver(productSchema),
@@ -54,9 +69,14 @@ export function ProductForm({ product, mode, categories, currencyCode = "USD" }:
       points: product?.points || 0,
       category: product?.category || "",
       isActive: product?.isActive ?? true,
+      taxClassId: product?.taxClassId ?? null,
+      supplierId: product?.supplierId ?? null,
     },
   });
 
+  const taxClassId = watch("taxClassId");
+  const supplierId = watch("supplierId");
+
   const onSubmit = async (data: ProductFormData) => {
     setIsSubmitting(true);
 
@@ -70,7 +90,13 @@ export function ProductForm({ product, mode, categories, currencyCode = "USD" }:
           toast.error(result.error);
         }
       } else if (product) {
-        const result = await updateProduct({ id: product.id, ...data });
+        // Stock is only sent when edited, so sales made while the form was open aren't overwritten
+        const { stock, ...rest } = data;
+        const result = await updateProduct({
+          id: product.id,
+          ...rest,
+          ...(stock !== product.stock && { stock }),
+        });
         if (result.success) {
           toast.success("Product updated successfully");
           router.push("/dashboard/products");
@@ -186,6 +212,11 @@ export function ProductForm({ product, mode, categories, currencyCode = "USD" }:
               {errors.cost && (
                 <p className="text-sm text-destructive">{errors.cost.message}</p>
               )}
+              {mode === "edit" && (
+                <p className="text-xs text-muted-foreground">
+                  Averaged with each delivery received on a purchase order
+                </p>
+              )}
             </div>
             <div className="space-y-2">
               <Label htmlFor="points">Loyalty Points</Label>
@@ -202,7 +233,7 @@ export function ProductForm({ product, mode, categories, currencyCode = "USD" }:
             </div>
           </div>
 
-          <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-4 sm:grid-cols-3">
             <div className="space-y-2">
               <Label htmlFor="stock">Stock Quantity *</Label>
               <Input
@@ -215,6 +246,11 @@ export function ProductForm({ product, mode, categories, currencyCode = "USD" }:
               {errors.stock && (
                 <p className="text-sm text-destructive">{errors.stock.message}</p>
               )}
+              {mode === "edit" && (
+                <p className="text-xs text-muted-foreground">
+                  A new count is recorded in the stock history as an adjustment
+                </p>
+              )}
             </div>
             <div className="space-y-2">
               <Label htmlFor="lowStockThreshold">Low Stock Threshold</Label>
@@ -229,6 +265,46 @@ export function ProductForm({ product, mode, categories, currencyCode = "USD" }:
                 <p className="text-sm text-destructive">{errors.lowStockThreshold.message}</p>
               )}
             </div>
+            <div className="space-y-2">
+              <Label>Tax Class</Label>
+              <Select
+                value={taxClassId ?? "STANDARD"}
+                onValueChange={(value) => setValue("taxClassId", value === "STANDARD" ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="STANDARD">Standard rate</SelectItem>
+                  {taxClasses.map((taxClass) => (
+                    <SelectItem key={taxClass.id} value={taxClass.id}>
+                      {describeTaxClass(taxClass)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Classes are managed in Settings</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Preferred Supplier</Label>
+              <Select
+                value={supplierId ?? "NONE"}
+                onValueChange={(value) => setValue("supplierId", value === "NONE" ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="NONE">No preferred supplier</SelectItem>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Low stock is reordered from this supplier</p>
+            </div>
           </div>
         </CardContent>
       </Card>
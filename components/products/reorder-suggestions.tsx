@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Download, FilePlus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { createPurchaseOrder } from "@/lib/actions/purchase-order";
+import { downloadCSV, ExportColumn, formatCurrencyForExport } from "@/lib/export-utils";
+import { purchaseOrderTotal, REORDER_COVER_DAYS, ReorderSuggestion } from "@/lib/utils/purchase-order";
+import { STOCK_USAGE_WINDOW_DAYS } from "@/lib/utils/stock";
+import { formatCurrency } from "@/lib/utils/currency";
+
+interface ReorderSuggestionsProps {
+  suggestions: ReorderSuggestion[];
+  currencyCode: string;
+}
+
+interface SupplierGroup {
+  supplierId: string | null;
+  supplierName: string;
+  leadTimeDays: number | null;
+  lines: ReorderSuggestion[];
+}
+
+// One group per preferred supplier, with products that have none last
+function groupBySupplier(suggestions: ReorderSuggestion[]): SupplierGroup[] {
+  const groups = new Map<string | null, SupplierGroup>();
+  for (const s of suggestions) {
+    const group = groups.get(s.supplierId) ?? {
+      supplierId: s.supplierId,
+      supplierName: s.supplierName ?? "No preferred supplier",
+      leadTimeDays: s.leadTimeDays,
+      lines: [],
+    };
+    group.lines.push(s);
+    groups.set(s.supplierId, group);
+  }
+  return [...groups.values()].sort(
+    (a, b) => Number(a.supplierId === null) - Number(b.supplierId === null) || a.supplierName.localeCompare(b.supplierName)
+  );
+}
+
+/**
+ * Products due for reordering, grouped by preferred supplier. Each group can
+ * be exported or drafted as a purchase order at the suggested quantities.
+ */
+export function ReorderSuggestions({ suggestions, currencyCode }: ReorderSuggestionsProps) {
+  const router = useRouter();
+  const [draftingId, setDraftingId] = useState<string | null>(null);
+  const groups = groupBySupplier(suggestions);
+  const fmt = (value: number) => formatCurrency(value, currencyCode);
+
+  const exportCSV = (lines: ReorderSuggestion[], filename: string) => {
+    const rows = lines.map((line) => ({ ...line }));
+    const columns: ExportColumn<(typeof rows)[0]>[] = [
+      { header: "Supplier", accessor: (row) => row.supplierName ?? "" },
+      { header: "Product", accessor: "name" as const },
+      { header: "SKU", accessor: (row) => row.sku ?? "" },
+      { header: "In Stock", accessor: "stock" as const },
+      { header: "Threshold", accessor: "lowStockThreshold" as const },
+      { header: "On Order", accessor: "onOrder" as const },
+      { header: "Used per Day", accessor: "dailyUsage" as const },
+      { header: "Days of Cover", accessor: (row) => row.daysOfCover ?? "" },
+      { header: "Suggested Quantity", accessor: "suggestedQuantity" as const },
+      { header: "Unit Cost", accessor: (row) => (row.cost !== null ? formatCurrencyForExport(row.cost, currencyCode) : "") },
+      {
+        header: "Line Total",
+        accessor: (row) => (row.cost !== null ? formatCurrencyForExport(row.cost * row.suggestedQuantity, currencyCode) : ""),
+      },
+    ];
+    downloadCSV(rows, columns, filename);
+  };
+
+  const handleDraft = async (group: SupplierGroup) => {
+    if (!group.supplierId) return;
+    setDraftingId(group.supplierId);
+    try {
+      const result = await createPurchaseOrder({
+        supplierId: group.supplierId,
+        expectedOn: null,
+        expenseCategoryId: null,
+        notes: "",
+        items: group.lines.map((line) => ({
+          productId: line.productId,
+          quantity: line.suggestedQuantity,
+          unitCost: line.cost ?? 0,
+        })),
+      });
+      if (result.success) {
+        toast.success(`${result.data.poNumber} drafted`);
+        router.push(`/dashboard/purchase-orders/${result.data.id}`);
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setDraftingId(null);
+    }
+  };
+
+  if (groups.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Suggested Reorders</CardTitle>
+          <CardDescription>Nothing needs reordering right now</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Suggested Reorders</h2>
+          <p className="text-sm text-muted-foreground">
+            Products at their threshold, or that will be before a new order arrives. Quantities cover the
+            supplier&apos;s lead time plus {REORDER_COVER_DAYS} days at the last {STOCK_USAGE_WINDOW_DAYS} days&apos; rate
+            of sales and use on services.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => exportCSV(suggestions, "reorder-suggestions")}>
+          <Download className="mr-2 h-4 w-4" />
+          Export All
+        </Button>
+      </div>
+
+      {groups.map((group) => {
+        const total = purchaseOrderTotal(
+          group.lines.map((line) => ({ quantity: line.suggestedQuantity, unitCost: line.cost ?? 0 }))
+        );
+        return (
+          <Card key={group.supplierId ?? "none"}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>{group.supplierName}</CardTitle>
+                <CardDescription>
+                  {group.supplierId
+                    ? `${group.lines.length} product${group.lines.length === 1 ? "" : "s"}${group.leadTimeDays != null ? ` · ${group.leadTimeDays} day lead time` : ""} · ${fmt(total)}`
+                    : "Set a preferred supplier on these products to order them here"}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    exportCSV(group.lines, `reorder-${group.supplierName.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`)
+                  }
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  CSV
+                </Button>
+                {group.supplierId && (
+                  <Button size="sm" onClick={() => handleDraft(group)} disabled={draftingId !== null}>
+                    {draftingId === group.supplierId ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <FilePlus className="mr-2 h-4 w-4" />
+                    )}
+                    Draft Purchase Order
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">In Stock</TableHead>
+                      <TableHead className="text-right">On Order</TableHead>
+                      <TableHead className="text-right">Used per Day</TableHead>
+                      <TableHead className="text-right">Days of Cover</TableHead>
+                      <TableHead className="text-right">Suggested</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.lines.map((line) => (
+                      <TableRow key={line.productId}>
+                        <TableCell>
+                          <Link href={`/dashboard/products/${line.productId}`} className="font-medium hover:underline">
+                            {line.name}
+                          </Link>
+                          {line.sku && <p className="text-xs text-muted-foreground font-mono">{line.sku}</p>}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right ${line.stock <= line.lowStockThreshold ? "text-amber-600" : ""}`}
+                        >
+                          {line.stock}
+                        </TableCell>
+                        <TableCell className="text-right">{line.onOrder || "—"}</TableCell>
+                        <TableCell className="text-right">{line.dailyUsage > 0 ? line.dailyUsage : "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {line.daysOfCover !== null ? `${line.daysOfCover} days` : "—"}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{line.suggestedQuantity}</TableCell>
+                        <TableCell className="text-right">{line.cost !== null ? fmt(line.cost) : "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { BellOff, CheckCircle, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { dismissStockAlert, processStockAlerts } from "@/lib/actions/stock-alert";
+import { formatInTz } from "@/lib/utils/timezone";
+
+interface StockAlertRow {
+  id: string;
+  productId: string;
+  name: string;
+  sku: string | null;
+  stockWhenRaised: number;
+  stock: number;
+  lowStockThreshold: number;
+  dailyUsage: number;
+  daysOfCover: number | null;
+  createdAt: Date;
+}
+
+interface StockAlertsCardProps {
+  alerts: StockAlertRow[];
+  timezone: string;
+}
+
+export function StockAlertsCard({ alerts, timezone }: StockAlertsCardProps) {
+  const router = useRouter();
+  const [isChecking, setIsChecking] = useState(false);
+  const [dismissingId, setDismissingId] = useState<string | null>(null);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const result = await processStockAlerts();
+      if (result.success) {
+        const { alertsRaised, alertsResolved } = result.data;
+        toast.success(
+          alertsRaised > 0
+            ? `${alertsRaised} product${alertsRaised === 1 ? " has" : "s have"} run low`
+            : "No new low-stock products",
+          { description: alertsResolved > 0 ? `${alertsResolved} restocked alert${alertsResolved === 1 ? "" : "s"} cleared` : undefined }
+        );
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleDismiss = async (id: string) => {
+    setDismissingId(id);
+    try {
+      const result = await dismissStockAlert(id);
+      if (result.success) {
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setDismissingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Low Stock Alerts</CardTitle>
+          <CardDescription>
+            Raised by the daily stock check when a product falls to its low-stock threshold. Dismissed alerts
+            aren&apos;t raised again until the product has been restocked.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCheck} disabled={isChecking}>
+          {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Check Now
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-6 text-center">
+            <CheckCircle className="h-8 w-8 text-green-600" />
+            <p className="text-sm text-muted-foreground">No open alerts</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">In Stock</TableHead>
+                  <TableHead className="text-right">Threshold</TableHead>
+                  <TableHead className="text-right">Used per Day</TableHead>
+                  <TableHead className="text-right">Days of Cover</TableHead>
+                  <TableHead>Raised</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map((alert) => (
+                  <TableRow key={alert.id}>
+                    <TableCell>
+                      <Link href={`/dashboard/products/${alert.productId}`} className="font-medium hover:underline">
+                        {alert.name}
+                      </Link>
+                      {alert.sku && <p className="text-xs text-muted-foreground font-mono">{alert.sku}</p>}
+                    </TableCell>
+                    <TableCell className={`text-right ${alert.stock === 0 ? "text-destructive font-medium" : ""}`}>
+                      {alert.stock}
+                      {alert.stock !== alert.stockWhenRaised && (
+                        <span className="block text-xs text-muted-foreground">{alert.stockWhenRaised} when raised</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{alert.lowStockThreshold}</TableCell>
+                    <TableCell className="text-right">{alert.dailyUsage > 0 ? alert.dailyUsage : "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {alert.daysOfCover !== null ? `${alert.daysOfCover} days` : "—"}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                      {formatInTz(alert.createdAt, "MMM d, yyyy", timezone)}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Dismiss"
+                        onClick={() => handleDismiss(alert.id)}
+                        disabled={dismissingId === alert.id}
+                      >
+                        {dismissingId === alert.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <BellOff className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
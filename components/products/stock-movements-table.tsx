@@ -0,0 +1,152 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { ChevronLeft, ChevronRight, History } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StockMovementItem } from "@/lib/actions/stock";
+import { STOCK_MOVEMENT_LABELS } from "@/lib/utils/stock";
+import { formatInTz } from "@/lib/utils/timezone";
+
+interface StockMovementsTableProps {
+  productId: string;
+  movements: StockMovementItem[];
+  total: number;
+  page: number;
+  totalPages: number;
+  timezone: string;
+}
+
+/** The product's stock ledger, newest first, with what caused each change. */
+export function StockMovementsTable({
+  productId,
+  movements,
+  total,
+  page,
+  totalPages,
+  timezone,
+}: StockMovementsTableProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const goToPage = (p: number) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("page", String(p));
+    router.push(`/dashboard/products/${productId}?${params.toString()}`);
+  };
+
+  const source = (movement: StockMovementItem) => {
+    const invoice = movement.refund?.invoice ?? movement.sale?.invoice;
+    if (invoice) {
+      return (
+        <Link href={`/dashboard/invoices/${invoice.id}`} className="hover:underline">
+          {invoice.invoiceNumber}
+        </Link>
+      );
+    }
+    if (movement.sale) {
+      return (
+        <Link href={`/dashboard/sales/${movement.sale.id}`} className="hover:underline">
+          Sale
+        </Link>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Stock History
+        </CardTitle>
+        <CardDescription>
+          {total === 0 ? "No stock movements recorded yet" : `${total} movement${total === 1 ? "" : "s"}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {movements.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Stock After</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map((movement) => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {formatInTz(movement.createdAt, "MMM d, yyyy h:mm a", timezone)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{STOCK_MOVEMENT_LABELS[movement.type]}</Badge>
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-medium ${movement.quantity > 0 ? "text-green-600" : "text-destructive"}`}
+                  >
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.stockAfter}</TableCell>
+                  <TableCell className="text-sm">
+                    <div className="flex flex-col">
+                      {movement.reason && <span>{movement.reason}</span>}
+                      <span className="text-muted-foreground">{source(movement)}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {movement.createdBy
+                      ? `${movement.createdBy.firstName} ${movement.createdBy.lastName}`
+                      : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => goToPage(page - 1)}
+              disabled={page <= 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <span className="text-sm">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => goToPage(page + 1)}
+              disabled={page >= totalPages}
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
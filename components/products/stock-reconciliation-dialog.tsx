@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { CheckCircle, Loader2, Scale } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getStockDrift, reconcileStock } from "@/lib/actions/stock";
+import { StockDrift } from "@/lib/utils/stock";
+
+/**
+ * Recomputes every product's stock from its ledger and lists the ones that
+ * don't match. Once the shelf has been checked, the drift can be written to
+ * the ledger as adjustments.
+ */
+export function StockReconciliationDialog() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [drift, setDrift] = useState<StockDrift[] | null>(null);
+
+  const check = async () => {
+    setIsOpen(true);
+    setIsLoading(true);
+    setDrift(null);
+    try {
+      const result = await getStockDrift();
+      if (result.success) {
+        setDrift(result.data);
+      } else {
+        toast.error(result.error);
+        setIsOpen(false);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReconcile = async () => {
+    if (!drift || drift.length === 0) return;
+    setIsSubmitting(true);
+    try {
+      const result = await reconcileStock(drift.map((d) => d.productId));
+      if (result.success) {
+        toast.success(`Recorded adjustments for ${result.data.reconciled} product${result.data.reconciled === 1 ? "" : "s"}`);
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={check}>
+        <Scale className="mr-2 h-4 w-4" />
+        Reconcile Stock
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Stock Reconciliation</DialogTitle>
+            <DialogDescription>
+              Stock recomputed from every recorded movement, compared with what each product shows
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : drift && drift.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-center">
+              <CheckCircle className="h-8 w-8 text-green-600" />
+              <p className="font-medium">Every product matches its ledger</p>
+            </div>
+          ) : drift ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {drift.length} product{drift.length === 1 ? " has" : "s have"} stock that changed without a
+                recorded movement. Check these against the shelf and correct any wrong counts with Adjust
+                Stock before recording the rest.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Stock</TableHead>
+                    <TableHead className="text-right">Ledger</TableHead>
+                    <TableHead className="text-right">Drift</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drift.map((d) => (
+                    <TableRow key={d.productId}>
+                      <TableCell>
+                        <Link href={`/dashboard/products/${d.productId}`} className="font-medium hover:underline">
+                          {d.name}
+                        </Link>
+                        {d.sku && <p className="text-xs text-muted-foreground font-mono">{d.sku}</p>}
+                      </TableCell>
+                      <TableCell className="text-right">{d.stock}</TableCell>
+                      <TableCell className="text-right">{d.ledgerStock}</TableCell>
+                      <TableCell className={`text-right font-medium ${d.drift > 0 ? "text-green-600" : "text-destructive"}`}>
+                        {d.drift > 0 ? `+${d.drift}` : d.drift}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : null}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+              Close
+            </Button>
+            {drift && drift.length > 0 && (
+              <Button onClick={handleReconcile} disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Record as Adjustments
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,651 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { History, Loader2, Pencil, Plus, Tag, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PromotionDiscountType } from "@prisma/client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  createPromotion,
+  updatePromotion,
+  deletePromotion,
+  getPromotionRedemptions,
+  PromotionListItem,
+  PromotionRedemptionItem,
+} from "@/lib/actions/promotion";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatInTz } from "@/lib/utils/timezone";
+import { describePromotion } from "@/lib/utils/promotion";
+
+interface ScopeOption {
+  id: string;
+  name: string;
+  category: string | null;
+}
+
+interface PromotionsPanelProps {
+  promotions: PromotionListItem[];
+  services: ScopeOption[];
+  products: ScopeOption[];
+  canManage: boolean;
+  currencyCode: string;
+  timezone: string;
+}
+
+// Tick-list of scope options; nothing ticked means no restriction of this kind
+function ScopeChecklist({
+  label,
+  options,
+  selected,
+  onChange,
+}: {
+  label: string;
+  options: { value: string; label: string }[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}) {
+  if (options.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="max-h-36 overflow-y-auto rounded-md border p-2 space-y-1">
+        {options.map((option) => (
+          <label key={option.value} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={selected.includes(option.value)}
+              onCheckedChange={(checked) =>
+                onChange(checked === true ? [...selected, option.value] : selected.filter((v) => v !== option.value))
+              }
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function PromotionsPanel({
+  promotions,
+  services,
+  products,
+  canManage,
+  currencyCode,
+  timezone,
+}: PromotionsPanelProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<PromotionListItem | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Form state
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [discountType, setDiscountType] = useState<PromotionDiscountType>(PromotionDiscountType.PERCENTAGE);
+  const [discountValue, setDiscountValue] = useState("");
+  const [maxDiscount, setMaxDiscount] = useState("");
+  const [minSpend, setMinSpend] = useState("");
+  const [startsOn, setStartsOn] = useState("");
+  const [endsOn, setEndsOn] = useState("");
+  const [usageLimit, setUsageLimit] = useState("");
+  const [perClientLimit, setPerClientLimit] = useState("");
+  const [firstVisitOnly, setFirstVisitOnly] = useState(false);
+  const [serviceIds, setServiceIds] = useState<string[]>([]);
+  const [productIds, setProductIds] = useState<string[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [isActive, setIsActive] = useState(true);
+
+  // Redemption history
+  const [viewing, setViewing] = useState<PromotionListItem | null>(null);
+  const [redemptions, setRedemptions] = useState<PromotionRedemptionItem[]>([]);
+  const [isLoadingRedemptions, setIsLoadingRedemptions] = useState(false);
+
+  const fmt = (value: number | { toString(): string }) => formatCurrency(Number(value), currencyCode);
+
+  const serviceNames = new Map(services.map((s) => [s.id, s.name]));
+  const productNames = new Map(products.map((p) => [p.id, p.name]));
+  const allCategories = [
+    ...new Set([...services, ...products].map((o) => o.category).filter((c): c is string => !!c)),
+  ].sort();
+
+  const openCreate = () => {
+    setEditing(null);
+    setCode("");
+    setName("");
+    setDescription("");
+    setDiscountType(PromotionDiscountType.PERCENTAGE);
+    setDiscountValue("");
+    setMaxDiscount("");
+    setMinSpend("");
+    setStartsOn("");
+    setEndsOn("");
+    setUsageLimit("");
+    setPerClientLimit("");
+    setFirstVisitOnly(false);
+    setServiceIds([]);
+    setProductIds([]);
+    setCategories([]);
+    setIsActive(true);
+    setIsOpen(true);
+  };
+
+  const openEdit = (promotion: PromotionListItem) => {
+    setEditing(promotion);
+    setCode(promotion.code);
+    setName(promotion.name);
+    setDescription(promotion.description ?? "");
+    setDiscountType(promotion.discountType);
+    setDiscountValue(String(Number(promotion.discountValue)));
+    setMaxDiscount(promotion.maxDiscount !== null ? String(Number(promotion.maxDiscount)) : "");
+    setMinSpend(promotion.minSpend !== null ? String(Number(promotion.minSpend)) : "");
+    setStartsOn(promotion.startsAt ? formatInTz(promotion.startsAt, "yyyy-MM-dd", timezone) : "");
+    // endsAt is midnight after the last valid day
+    setEndsOn(promotion.endsAt ? formatInTz(new Date(promotion.endsAt.getTime() - 1), "yyyy-MM-dd", timezone) : "");
+    setUsageLimit(promotion.usageLimit !== null ? String(promotion.usageLimit) : "");
+    setPerClientLimit(promotion.perClientLimit !== null ? String(promotion.perClientLimit) : "");
+    setFirstVisitOnly(promotion.firstVisitOnly);
+    setServiceIds(promotion.serviceIds);
+    setProductIds(promotion.productIds);
+    setCategories(promotion.categories);
+    setIsActive(promotion.isActive);
+    setIsOpen(true);
+  };
+
+  const openRedemptions = async (promotion: PromotionListItem) => {
+    setViewing(promotion);
+    setRedemptions([]);
+    setIsLoadingRedemptions(true);
+    try {
+      const result = await getPromotionRedemptions(promotion.id);
+      if (result.success) {
+        setRedemptions(result.data);
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("Failed to load redemptions");
+    } finally {
+      setIsLoadingRedemptions(false);
+    }
+  };
+
+  const optionalNumber = (value: string, parse: (v: string) => number) => {
+    const parsed = parse(value);
+    return value.trim() && !Number.isNaN(parsed) ? parsed : null;
+  };
+
+  const handleSubmit = async () => {
+    const data = {
+      code,
+      name: name.trim(),
+      description: description.trim(),
+      discountType,
+      discountValue: parseFloat(discountValue) || 0,
+      maxDiscount: discountType === PromotionDiscountType.PERCENTAGE ? optionalNumber(maxDiscount, parseFloat) : null,
+      minSpend: optionalNumber(minSpend, parseFloat),
+      startsOn: startsOn || null,
+      endsOn: endsOn || null,
+      usageLimit: optionalNumber(usageLimit, (v) => parseInt(v, 10)),
+      perClientLimit: optionalNumber(perClientLimit, (v) => parseInt(v, 10)),
+      firstVisitOnly,
+      serviceIds,
+      productIds,
+      categories,
+      isActive,
+    };
+
+    setIsSubmitting(true);
+    try {
+      const result = editing
+        ? await updatePromotion({ id: editing.id, ...data })
+        : await createPromotion(data);
+      if (result.success) {
+        toast.success(editing ? "Promotion updated" : "Promotion created");
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (promotion: PromotionListItem) => {
+    const result = await deletePromotion(promotion.id);
+    if (result.success) {
+      toast.success(
+        result.data.deactivated
+          ? `${promotion.code} has been used, so it was switched off instead of deleted`
+          : `${promotion.code} deleted`
+      );
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const describeRules = (promotion: PromotionListItem) => {
+    const lines: string[] = [];
+    const scope = [
+      ...promotion.serviceIds.map((id) => serviceNames.get(id) ?? "Removed service"),
+      ...promotion.productIds.map((id) => productNames.get(id) ?? "Removed product"),
+      ...promotion.categories,
+    ];
+    lines.push(scope.length > 0 ? `On ${scope.join(", ")}` : "On all services and products");
+    if (promotion.minSpend !== null) lines.push(`Minimum spend ${fmt(promotion.minSpend)}`);
+    if (promotion.firstVisitOnly) lines.push("First visit only");
+    if (promotion.usageLimit !== null) lines.push(`Up to ${promotion.usageLimit} uses`);
+    if (promotion.perClientLimit !== null) lines.push(`${promotion.perClientLimit} per client`);
+    if (promotion.startsAt || promotion.endsAt) {
+      const from = promotion.startsAt ? formatInTz(promotion.startsAt, "MMM d, yyyy", timezone) : "now";
+      const to = promotion.endsAt
+        ? formatInTz(new Date(promotion.endsAt.getTime() - 1), "MMM d, yyyy", timezone)
+        : "no end date";
+      lines.push(`${from} – ${to}`);
+    }
+    return lines;
+  };
+
+  const statusBadge = (promotion: PromotionListItem) => {
+    const now = new Date();
+    if (!promotion.isActive) return <Badge variant="secondary">Off</Badge>;
+    if (promotion.endsAt && promotion.endsAt <= now) return <Badge variant="secondary">Expired</Badge>;
+    if (promotion.usageLimit !== null && promotion._count.redemptions >= promotion.usageLimit) {
+      return <Badge variant="secondary">Used up</Badge>;
+    }
+    if (promotion.startsAt && promotion.startsAt > now) return <Badge variant="outline">Scheduled</Badge>;
+    return <Badge>Active</Badge>;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Promo Codes</CardTitle>
+            <CardDescription>
+              Entered at checkout; the discount is taken after member pricing and before any manual discount
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Promotion
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {promotions.length === 0 ? (
+            <div className="text-center py-6">
+              <Tag className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No promotions have been set up yet</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Discount</TableHead>
+                    <TableHead>Rules</TableHead>
+                    <TableHead className="text-right">Redeemed</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[120px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {promotions.map((promotion) => (
+                    <TableRow key={promotion.id}>
+                      <TableCell>
+                        <p className="font-mono font-medium">{promotion.code}</p>
+                        <p className="text-xs text-muted-foreground">{promotion.name}</p>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {describePromotion(
+                          {
+                            discountType: promotion.discountType,
+                            discountValue: Number(promotion.discountValue),
+                            maxDiscount: promotion.maxDiscount !== null ? Number(promotion.maxDiscount) : null,
+                          },
+                          fmt
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {describeRules(promotion).map((line) => (
+                          <p key={line}>{line}</p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <p className="font-medium">{promotion._count.redemptions}</p>
+                        <p className="text-xs text-muted-foreground">{fmt(promotion.totalDiscount)} off</p>
+                      </TableCell>
+                      <TableCell>{statusBadge(promotion)}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Redemptions"
+                            onClick={() => openRedemptions(promotion)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          {canManage && (
+                            <>
+                              <Button size="icon" variant="ghost" title="Edit" onClick={() => openEdit(promotion)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              {(promotion.isActive || promotion._count.redemptions === 0) && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  title={promotion._count.redemptions > 0 ? "Switch off" : "Delete"}
+                                  onClick={() => handleDelete(promotion)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Promotion" : "New Promotion"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Changes apply to sales from now on; completed sales keep their discount."
+                : "Clients give the code at checkout to get the discount"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="promoCode">Code *</Label>
+                <Input
+                  id="promoCode"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.toUpperCase())}
+                  placeholder="e.g. SUMMER20"
+                  maxLength={30}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promoName">Name *</Label>
+                <Input
+                  id="promoName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Summer sale"
+                  maxLength={100}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promoDescription">Description</Label>
+              <Textarea
+                id="promoDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label>Discount *</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={discountValue}
+                    onChange={(e) => setDiscountValue(e.target.value)}
+                    className="flex-1"
+                    aria-label="Discount value"
+                  />
+                  <Select
+                    value={discountType}
+                    onValueChange={(v) => setDiscountType(v as PromotionDiscountType)}
+                  >
+                    <SelectTrigger className="w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={PromotionDiscountType.PERCENTAGE}>%</SelectItem>
+                      <SelectItem value={PromotionDiscountType.FIXED}>{currencyCode}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {discountType === PromotionDiscountType.PERCENTAGE && (
+                <div className="space-y-2">
+                  <Label htmlFor="promoMaxDiscount">Maximum Discount</Label>
+                  <Input
+                    id="promoMaxDiscount"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={maxDiscount}
+                    onChange={(e) => setMaxDiscount(e.target.value)}
+                    placeholder="No cap"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="promoStartsOn">Valid From</Label>
+                <Input id="promoStartsOn" type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promoEndsOn">Valid Until</Label>
+                <Input id="promoEndsOn" type="date" value={endsOn} onChange={(e) => setEndsOn(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid gap-4 grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="promoMinSpend">Minimum Spend</Label>
+                <Input
+                  id="promoMinSpend"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={minSpend}
+                  onChange={(e) => setMinSpend(e.target.value)}
+                  placeholder="None"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promoUsageLimit">Total Uses</Label>
+                <Input
+                  id="promoUsageLimit"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={usageLimit}
+                  onChange={(e) => setUsageLimit(e.target.value)}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promoPerClientLimit">Uses per Client</Label>
+                <Input
+                  id="promoPerClientLimit"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={perClientLimit}
+                  onChange={(e) => setPerClientLimit(e.target.value)}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Minimum spend counts only the items the promotion applies to.
+            </p>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="promoFirstVisit"
+                checked={firstVisitOnly}
+                onCheckedChange={(checked) => setFirstVisitOnly(checked === true)}
+              />
+              <Label htmlFor="promoFirstVisit" className="font-normal">
+                First visit only (clients with no earlier paid sale)
+              </Label>
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Applies To</p>
+              <p className="text-xs text-muted-foreground">
+                Leave everything unticked to discount all services and products. Gift cards and packages are never discounted.
+              </p>
+            </div>
+            <ScopeChecklist
+              label="Services"
+              options={services.map((s) => ({ value: s.id, label: s.name }))}
+              selected={serviceIds}
+              onChange={setServiceIds}
+            />
+            <ScopeChecklist
+              label="Products"
+              options={products.map((p) => ({ value: p.id, label: p.name }))}
+              selected={productIds}
+              onChange={setProductIds}
+            />
+            <ScopeChecklist
+              label="Categories"
+              options={allCategories.map((c) => ({ value: c, label: c }))}
+              selected={categories}
+              onChange={setCategories}
+            />
+
+            {editing && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="promoActive"
+                  checked={isActive}
+                  onCheckedChange={(checked) => setIsActive(checked === true)}
+                />
+                <Label htmlFor="promoActive" className="font-normal">
+                  Can be used at checkout
+                </Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {editing ? "Save Changes" : "Create Promotion"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Redemptions Dialog */}
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Redemptions of {viewing?.code}</DialogTitle>
+            <DialogDescription>
+              Every paid sale the code was used on, newest first
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingRedemptions ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : redemptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">This code has not been used yet</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead className="text-right">Discount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {redemptions.map((redemption) => (
+                    <TableRow key={redemption.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatInTz(redemption.createdAt, "MMM d, yyyy", timezone)}
+                      </TableCell>
+                      <TableCell>
+                        <Link href={`/dashboard/clients/${redemption.client.id}`} className="hover:underline">
+                          {redemption.client.firstName} {redemption.client.lastName}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Link href={`/dashboard/sales/${redemption.sale.id}`} className="hover:underline">
+                          {redemption.sale.invoice?.invoiceNumber ?? "View sale"}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right">{fmt(redemption.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
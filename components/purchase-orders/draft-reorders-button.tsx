@@ -0,0 +1,50 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, PackageSearch } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { draftReorderPurchaseOrders } from "@/lib/actions/purchase-order";
+
+/** Draft one order per preferred supplier for everything due for reordering. */
+export function DraftReordersButton() {
+  const router = useRouter();
+  const [isDrafting, setIsDrafting] = useState(false);
+
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    try {
+      const result = await draftReorderPurchaseOrders();
+      if (result.success) {
+        const { purchaseOrders, unassigned } = result.data;
+        toast.success(
+          `Drafted ${purchaseOrders.length} purchase order${purchaseOrders.length === 1 ? "" : "s"}`,
+          {
+            description: unassigned > 0
+              ? `${unassigned} low-stock product${unassigned === 1 ? " has" : "s have"} no preferred supplier and ${unassigned === 1 ? "was" : "were"} left out`
+              : undefined,
+          }
+        );
+        router.push(
+          purchaseOrders.length === 1
+            ? `/dashboard/purchase-orders/${purchaseOrders[0].id}`
+            : "/dashboard/purchase-orders?status=DRAFT"
+        );
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleDraft} disabled={isDrafting}>
+      {isDrafting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PackageSearch className="mr-2 h-4 w-4" />}
+      Reorder Low Stock
+    </Button>
+  );
+}
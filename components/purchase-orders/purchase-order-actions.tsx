@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { pdf } from "@react-pdf/renderer";
+import { PurchaseOrderStatus } from "@prisma/client";
+import { Ban, Download, Edit, Loader2, Send } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  cancelPurchaseOrder,
+  getPurchaseOrderPDFData,
+  placePurchaseOrder,
+} from "@/lib/actions/purchase-order";
+import { PurchaseOrderPDF } from "./purchase-order-pdf";
+
+interface PurchaseOrderActionsProps {
+  purchaseOrderId: string;
+  poNumber: string;
+  status: PurchaseOrderStatus;
+  canManage: boolean;
+}
+
+/** Edit, place, cancel and download a purchase order, depending on where it is in its life. */
+export function PurchaseOrderActions({ purchaseOrderId, poNumber, status, canManage }: PurchaseOrderActionsProps) {
+  const router = useRouter();
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handlePlace = async () => {
+    setIsPlacing(true);
+    try {
+      const result = await placePurchaseOrder(purchaseOrderId);
+      if (result.success) {
+        toast.success(`${poNumber} placed`);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsPlacing(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      const result = await cancelPurchaseOrder(purchaseOrderId);
+      if (result.success) {
+        toast.success(`${poNumber} cancelled`);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      const result = await getPurchaseOrderPDFData(purchaseOrderId);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
+      const blob = await pdf(<PurchaseOrderPDF data={result.data} />).toBlob();
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${poNumber}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error generating PDF:", error);
+      toast.error("Failed to generate purchase order PDF");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const isOpen = status === "DRAFT" || status === "ORDERED" || status === "PARTIALLY_RECEIVED";
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" onClick={handleDownload} disabled={isGenerating}>
+        {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+        Download PDF
+      </Button>
+
+      {canManage && status === "DRAFT" && (
+        <>
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/purchase-orders/${purchaseOrderId}/edit`}>
+              <Edit className="mr-2 h-4 w-4" />
+              Edit
+            </Link>
+          </Button>
+          <Button onClick={handlePlace} disabled={isPlacing}>
+            {isPlacing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Mark as Ordered
+          </Button>
+        </>
+      )}
+
+      {canManage && isOpen && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" className="text-destructive" disabled={isCancelling}>
+              {isCancelling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+              {status === "PARTIALLY_RECEIVED" ? "Cancel Remaining" : "Cancel Order"}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel {poNumber}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {status === "PARTIALLY_RECEIVED"
+                  ? "Nothing more will be received on this order. Stock and the expense already booked for delivered units are kept."
+                  : "The order will be closed without receiving anything. This cannot be undone."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Order</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleCancel}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Cancel Order
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+}
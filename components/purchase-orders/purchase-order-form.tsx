@@ -0,0 +1,372 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, PackageSearch, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  createPurchaseOrder,
+  getReorderSuggestions,
+  updatePurchaseOrder,
+  OrderableProduct,
+} from "@/lib/actions/purchase-order";
+import { SupplierOption } from "@/lib/actions/supplier";
+import { purchaseOrderTotal } from "@/lib/utils/purchase-order";
+import { formatCurrency } from "@/lib/utils/currency";
+
+interface OrderLine {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+interface PurchaseOrderFormProps {
+  purchaseOrder?: {
+    id: string;
+    supplierId: string;
+    expectedOn: string | null; // yyyy-MM-dd
+    expenseCategoryId: string | null;
+    notes: string | null;
+    items: { productId: string; quantity: number; unitCost: number }[];
+  };
+  initialSupplierId?: string;
+  suppliers: SupplierOption[];
+  products: OrderableProduct[];
+  expenseCategories: { id: string; name: string }[];
+  currencyCode: string;
+}
+
+export function PurchaseOrderForm({
+  purchaseOrder,
+  initialSupplierId,
+  suppliers,
+  products,
+  expenseCategories,
+  currencyCode,
+}: PurchaseOrderFormProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
+
+  const [supplierId, setSupplierId] = useState(purchaseOrder?.supplierId ?? initialSupplierId ?? "");
+  const [expectedOn, setExpectedOn] = useState(purchaseOrder?.expectedOn ?? "");
+  const [expenseCategoryId, setExpenseCategoryId] = useState<string | null>(purchaseOrder?.expenseCategoryId ?? null);
+  const [notes, setNotes] = useState(purchaseOrder?.notes ?? "");
+  const [lines, setLines] = useState<OrderLine[]>(
+    purchaseOrder?.items.map((item) => ({
+      productId: item.productId,
+      quantity: String(item.quantity),
+      unitCost: String(item.unitCost),
+    })) ?? []
+  );
+
+  const productsById = new Map(products.map((p) => [p.id, p]));
+  const supplier = suppliers.find((s) => s.id === supplierId);
+  // Products preferring the chosen supplier are listed first
+  const addableProducts = products
+    .filter((p) => !lines.some((line) => line.productId === p.id))
+    .sort((a, b) => Number(b.supplierId === supplierId) - Number(a.supplierId === supplierId));
+
+  const parsedLines = lines.map((line) => ({
+    productId: line.productId,
+    quantity: parseInt(line.quantity, 10) || 0,
+    unitCost: parseFloat(line.unitCost) || 0,
+  }));
+  const total = purchaseOrderTotal(parsedLines);
+
+  const addLine = (productId: string) => {
+    const product = productsById.get(productId);
+    if (!product) return;
+    setLines((current) => [
+      ...current,
+      { productId, quantity: "1", unitCost: product.cost !== null ? String(product.cost) : "" },
+    ]);
+  };
+
+  const updateLine = (productId: string, changes: Partial<OrderLine>) => {
+    setLines((current) => current.map((line) => (line.productId === productId ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (productId: string) => {
+    setLines((current) => current.filter((line) => line.productId !== productId));
+  };
+
+  const addLowStock = async () => {
+    if (!supplierId) return;
+    setIsLoadingSuggestions(true);
+    try {
+      const result = await getReorderSuggestions(supplierId);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      const missing = result.data.filter((s) => !lines.some((line) => line.productId === s.productId));
+      if (missing.length === 0) {
+        toast.info(`No other low-stock products prefer ${supplier?.name ?? "this supplier"}`);
+        return;
+      }
+      setLines((current) => [
+        ...current,
+        ...missing.map((s) => ({
+          productId: s.productId,
+          quantity: String(s.suggestedQuantity),
+          unitCost: s.cost !== null ? String(s.cost) : "",
+        })),
+      ]);
+      toast.success(`Added ${missing.length} low-stock product${missing.length === 1 ? "" : "s"}`);
+    } finally {
+      setIsLoadingSuggestions(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const data = {
+      supplierId,
+      expectedOn: expectedOn || null,
+      expenseCategoryId,
+      notes: notes.trim(),
+      items: parsedLines,
+    };
+
+    setIsSubmitting(true);
+    try {
+      if (purchaseOrder) {
+        const result = await updatePurchaseOrder({ id: purchaseOrder.id, ...data });
+        if (result.success) {
+          toast.success("Purchase order updated");
+          router.push(`/dashboard/purchase-orders/${purchaseOrder.id}`);
+          router.refresh();
+        } else {
+          toast.error(result.error);
+        }
+      } else {
+        const result = await createPurchaseOrder(data);
+        if (result.success) {
+          toast.success(`${result.data.poNumber} drafted`);
+          router.push(`/dashboard/purchase-orders/${result.data.id}`);
+        } else {
+          toast.error(result.error);
+        }
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Order Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Supplier *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="poExpectedOn">Expected Delivery</Label>
+              <Input
+                id="poExpectedOn"
+                type="date"
+                value={expectedOn}
+                onChange={(e) => setExpectedOn(e.target.value)}
+              />
+              {!expectedOn && supplier?.leadTimeDays != null && (
+                <p className="text-xs text-muted-foreground">
+                  Defaults to {supplier.leadTimeDays} day{supplier.leadTimeDays === 1 ? "" : "s"} after the order is placed
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Expense Category</Label>
+              <Select
+                value={expenseCategoryId ?? "DEFAULT"}
+                onValueChange={(value) => setExpenseCategoryId(value === "DEFAULT" ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="DEFAULT">Supplies</SelectItem>
+                  {expenseCategories
+                    .filter((c) => c.name !== "Supplies")
+                    .map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Received goods are booked as an expense here</p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="poNotes">Notes</Label>
+            <Textarea
+              id="poNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              placeholder="Printed on the purchase order, e.g. delivery instructions"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Products</CardTitle>
+            <CardDescription>Unit costs start at each product&apos;s current cost</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={addLowStock} disabled={!supplierId || isLoadingSuggestions}>
+            {isLoadingSuggestions ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <PackageSearch className="mr-2 h-4 w-4" />
+            )}
+            Add Low-Stock Items
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {lines.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">In Stock</TableHead>
+                    <TableHead className="w-28">Quantity</TableHead>
+                    <TableHead className="w-32">Unit Cost</TableHead>
+                    <TableHead className="text-right">Line Total</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line, index) => {
+                    const product = productsById.get(line.productId);
+                    const parsed = parsedLines[index];
+                    return (
+                      <TableRow key={line.productId}>
+                        <TableCell>
+                          <p className="font-medium">{product?.name ?? "Unavailable product"}</p>
+                          {product?.sku && <p className="text-xs text-muted-foreground font-mono">{product.sku}</p>}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right ${product && product.stock <= product.lowStockThreshold ? "text-amber-600" : ""}`}
+                        >
+                          {product?.stock ?? "—"}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={1}
+                            step={1}
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line.productId, { quantity: e.target.value })}
+                            aria-label="Quantity"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={line.unitCost}
+                            onChange={(e) => updateLine(line.productId, { unitCost: e.target.value })}
+                            placeholder="0.00"
+                            aria-label="Unit cost"
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(parsed.quantity * parsed.unitCost, currencyCode)}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Remove"
+                            onClick={() => removeLine(line.productId)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <Select value="" onValueChange={addLine} disabled={addableProducts.length === 0}>
+              <SelectTrigger className="sm:w-80">
+                <SelectValue placeholder={addableProducts.length === 0 ? "All products added" : "Add a product"} />
+              </SelectTrigger>
+              <SelectContent>
+                {addableProducts.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name} ({product.stock} in stock)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-lg font-semibold">Total: {formatCurrency(total, currencyCode)}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex gap-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => router.back()}
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={isSubmitting || !supplierId || lines.length === 0}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {purchaseOrder ? "Save Changes" : "Save Draft"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import {
+  Document,
+  Page,
+  Text,
+  View,
+  StyleSheet,
+  Image,
+} from "@react-pdf/renderer";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+import { formatCurrency } from "@/lib/utils/currency";
+
+// Define styles
+const styles = StyleSheet.create({
+  page: {
+    padding: 40,
+    fontSize: 10,
+    fontFamily: "Helvetica",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 30,
+  },
+  headerLeft: {
+    flex: 1,
+  },
+  headerRight: {
+    flex: 1,
+    alignItems: "flex-end",
+  },
+  salonLogo: {
+    width: 60,
+    height: 60,
+    marginBottom: 8,
+  },
+  salonName: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#7c3aed",
+    marginBottom: 4,
+  },
+  salonContact: {
+    fontSize: 9,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#374151",
+  },
+  poNumber: {
+    fontSize: 12,
+    color: "#6b7280",
+    marginTop: 4,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: "bold",
+    color: "#374151",
+    marginBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+    paddingBottom: 4,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
+  label: {
+    color: "#6b7280",
+  },
+  value: {
+    fontWeight: "bold",
+  },
+  table: {
+    marginTop: 10,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: "#f3f4f6",
+    padding: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e5e7eb",
+  },
+  tableHeaderCell: {
+    fontWeight: "bold",
+    color: "#374151",
+  },
+  tableRow: {
+    flexDirection: "row",
+    padding: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  tableCell: {
+    color: "#4b5563",
+  },
+  colProduct: { flex: 2.5 },
+  colSku: { flex: 1.2 },
+  colQty: { flex: 0.6, textAlign: "center" },
+  colCost: { flex: 1, textAlign: "right" },
+  colTotal: { flex: 1, textAlign: "right" },
+  totalsSection: {
+    marginTop: 20,
+    paddingTop: 10,
+    borderTopWidth: 2,
+    borderTopColor: "#e5e7eb",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginBottom: 4,
+  },
+  totalLabel: {
+    width: 100,
+    textAlign: "right",
+    marginRight: 20,
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#374151",
+  },
+  totalValue: {
+    width: 80,
+    textAlign: "right",
+    fontSize: 14,
+    fontWeight: "bold",
+    color: "#7c3aed",
+  },
+  footer: {
+    position: "absolute",
+    bottom: 40,
+    left: 40,
+    right: 40,
+    textAlign: "center",
+    color: "#9ca3af",
+    fontSize: 9,
+    borderTopWidth: 1,
+    borderTopColor: "#e5e7eb",
+    paddingTop: 10,
+  },
+  supplierSection: {
+    marginBottom: 20,
+    padding: 12,
+    backgroundColor: "#f9fafb",
+    borderRadius: 4,
+  },
+  notes: {
+    marginTop: 20,
+    padding: 12,
+    backgroundColor: "#f9fafb",
+    borderRadius: 4,
+  },
+});
+
+export interface PurchaseOrderPDFData {
+  poNumber: string;
+  status: string;
+  createdAt: string;
+  orderedAt: string | null;
+  expectedOn: string | null; // yyyy-MM-dd
+  notes: string | null;
+  salonName: string;
+  salonAddress: string | null;
+  salonPhone: string | null;
+  salonEmail: string | null;
+  salonLogo: string | null;
+  currencyCode: string;
+  timezone: string;
+  supplier: {
+    name: string;
+    contactName: string | null;
+    email: string | null;
+    phone: string | null;
+    address: string | null;
+    paymentTermsDays: number | null;
+  };
+  items: Array<{
+    id: string;
+    name: string;
+    sku: string | null;
+    quantity: number;
+    unitCost: number;
+  }>;
+  total: number;
+}
+
+interface PurchaseOrderPDFProps {
+  data: PurchaseOrderPDFData;
+}
+
+export function PurchaseOrderPDF({ data }: PurchaseOrderPDFProps) {
+  const orderDate = formatInTz(data.orderedAt ?? data.createdAt, "MMMM d, yyyy", data.timezone);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            {data.salonLogo && (
+              <Image style={styles.salonLogo} src={data.salonLogo} />
+            )}
+            <Text style={styles.salonName}>{data.salonName}</Text>
+            {data.salonAddress && (
+              <Text style={styles.salonContact}>{data.salonAddress}</Text>
+            )}
+            {data.salonPhone && (
+              <Text style={styles.salonContact}>Tel: {data.salonPhone}</Text>
+            )}
+            {data.salonEmail && (
+              <Text style={styles.salonContact}>{data.salonEmail}</Text>
+            )}
+          </View>
+          <View style={styles.headerRight}>
+            <Text style={styles.title}>PURCHASE ORDER</Text>
+            <Text style={styles.poNumber}>{data.poNumber}</Text>
+            {data.status === "DRAFT" && (
+              <Text style={styles.poNumber}>DRAFT — not yet placed</Text>
+            )}
+          </View>
+        </View>
+
+        {/* Supplier Info */}
+        <View style={styles.supplierSection}>
+          <Text style={styles.sectionTitle}>Supplier</Text>
+          <Text style={styles.value}>{data.supplier.name}</Text>
+          {data.supplier.contactName && (
+            <Text style={styles.label}>Attn: {data.supplier.contactName}</Text>
+          )}
+          {data.supplier.address && (
+            <Text style={styles.label}>{data.supplier.address}</Text>
+          )}
+          {data.supplier.phone && (
+            <Text style={styles.label}>{data.supplier.phone}</Text>
+          )}
+          {data.supplier.email && (
+            <Text style={styles.label}>{data.supplier.email}</Text>
+          )}
+        </View>
+
+        {/* Order Details */}
+        <View style={styles.section}>
+          <View style={styles.row}>
+            <Text style={styles.label}>Order Date:</Text>
+            <Text style={styles.value}>{orderDate}</Text>
+          </View>
+          {data.expectedOn && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Requested Delivery:</Text>
+              <Text style={styles.value}>{formatDateOnly(data.expectedOn, "MMMM d, yyyy")}</Text>
+            </View>
+          )}
+          {data.supplier.paymentTermsDays !== null && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Payment Terms:</Text>
+              <Text style={styles.value}>
+                {data.supplier.paymentTermsDays === 0 ? "Due on delivery" : `Net ${data.supplier.paymentTermsDays} days`}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Items Table */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Items</Text>
+          <View style={styles.table}>
+            {/* Table Header */}
+            <View style={styles.tableHeader}>
+              <Text style={[styles.tableHeaderCell, styles.colProduct]}>
+                Product
+              </Text>
+              <Text style={[styles.tableHeaderCell, styles.colSku]}>SKU</Text>
+              <Text style={[styles.tableHeaderCell, styles.colQty]}>Qty</Text>
+              <Text style={[styles.tableHeaderCell, styles.colCost]}>
+                Unit Cost
+              </Text>
+              <Text style={[styles.tableHeaderCell, styles.colTotal]}>
+                Total
+              </Text>
+            </View>
+
+            {/* Table Rows */}
+            {data.items.map((item) => (
+              <View key={item.id} style={styles.tableRow}>
+                <Text style={[styles.tableCell, styles.colProduct]}>
+                  {item.name}
+                </Text>
+                <Text style={[styles.tableCell, styles.colSku]}>
+                  {item.sku || "-"}
+                </Text>
+                <Text style={[styles.tableCell, styles.colQty]}>
+                  {item.quantity}
+                </Text>
+                <Text style={[styles.tableCell, styles.colCost]}>
+                  {formatCurrency(item.unitCost, data.currencyCode)}
+                </Text>
+                <Text style={[styles.tableCell, styles.colTotal]}>
+                  {formatCurrency(item.unitCost * item.quantity, data.currencyCode)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* Totals */}
+        <View style={styles.totalsSection}>
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Total:</Text>
+            <Text style={styles.totalValue}>
+              {formatCurrency(data.total, data.currencyCode)}
+            </Text>
+          </View>
+        </View>
+
+        {/* Notes */}
+        {data.notes && (
+          <View style={styles.notes}>
+            <Text style={styles.sectionTitle}>Notes</Text>
+            <Text style={styles.label}>{data.notes}</Text>
+          </View>
+        )}
+
+        {/* Footer */}
+        <View style={styles.footer}>
+          <Text>Please quote {data.poNumber} on your delivery note and invoice.</Text>
+          <Text style={{ marginTop: 4 }}>
+            Generated on {formatInTz(new Date(), "MMMM d, yyyy 'at' h:mm a", data.timezone)}
+          </Text>
+        </View>
+      </Page>
+    </Document>
+  );
+}
@@ -0,0 +1,19 @@
+import { PurchaseOrderStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { PURCHASE_ORDER_STATUS_LABELS } from "@/lib/utils/purchase-order";
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  const label = PURCHASE_ORDER_STATUS_LABELS[status];
+  switch (status) {
+    case "DRAFT":
+      return <Badge variant="outline">{label}</Badge>;
+    case "ORDERED":
+      return <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400">{label}</Badge>;
+    case "PARTIALLY_RECEIVED":
+      return <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400">{label}</Badge>;
+    case "RECEIVED":
+      return <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">{label}</Badge>;
+    case "CANCELLED":
+      return <Badge variant="secondary">{label}</Badge>;
+  }
+}
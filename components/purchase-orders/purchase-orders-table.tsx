@@ -0,0 +1,174 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { PurchaseOrderStatus } from "@prisma/client";
+import { ChevronLeft, ChevronRight, ClipboardList } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PurchaseOrderListItem } from "@/lib/actions/purchase-order";
+import { PURCHASE_ORDER_STATUS_LABELS, purchaseOrderTotal } from "@/lib/utils/purchase-order";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+import { PurchaseOrderStatusBadge } from "./purchase-order-status-badge";
+
+interface PurchaseOrdersTableProps {
+  purchaseOrders: PurchaseOrderListItem[];
+  total: number;
+  page: number;
+  totalPages: number;
+  status: PurchaseOrderStatus | null;
+  currencyCode: string;
+  timezone: string;
+}
+
+export function PurchaseOrdersTable({
+  purchaseOrders,
+  total,
+  page,
+  totalPages,
+  status,
+  currencyCode,
+  timezone,
+}: PurchaseOrdersTableProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const navigate = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) params.delete(key);
+      else params.set(key, value);
+    }
+    router.push(`/dashboard/purchase-orders?${params.toString()}`);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Orders</CardTitle>
+          <CardDescription>
+            {total === 0 ? "No purchase orders" : `${total} purchase order${total === 1 ? "" : "s"}`}
+          </CardDescription>
+        </div>
+        <Select
+          value={status ?? "ALL"}
+          onValueChange={(value) => navigate({ status: value === "ALL" ? null : value, page: null })}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ALL">All statuses</SelectItem>
+            {Object.values(PurchaseOrderStatus).map((s) => (
+              <SelectItem key={s} value={s}>
+                {PURCHASE_ORDER_STATUS_LABELS[s]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {purchaseOrders.length === 0 ? (
+          <div className="text-center py-6">
+            <ClipboardList className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">
+              {status ? "No purchase orders with this status" : "No purchase orders have been drafted yet"}
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {purchaseOrders.map((po) => {
+                  const ordered = po.items.reduce((sum, item) => sum + item.quantity, 0);
+                  const received = po.items.reduce((sum, item) => sum + item.quantityReceived, 0);
+                  const value = purchaseOrderTotal(
+                    po.items.map((item) => ({ quantity: item.quantity, unitCost: Number(item.unitCost) }))
+                  );
+                  return (
+                    <TableRow key={po.id}>
+                      <TableCell>
+                        <Link href={`/dashboard/purchase-orders/${po.id}`} className="font-mono font-medium hover:underline">
+                          {po.poNumber}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{po.supplier.name}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatInTz(po.createdAt, "MMM d, yyyy", timezone)}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {po.expectedOn ? formatDateOnly(po.expectedOn, "MMM d, yyyy") : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {received} / {ordered}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(value, currencyCode)}</TableCell>
+                      <TableCell>
+                        <PurchaseOrderStatusBadge status={po.status} />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ page: String(page - 1) })}
+              disabled={page <= 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <span className="text-sm">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate({ page: String(page + 1) })}
+              disabled={page >= totalPages}
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
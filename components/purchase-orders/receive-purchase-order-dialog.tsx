@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, PackageCheck } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { receivePurchaseOrder } from "@/lib/actions/purchase-order";
+import { formatCurrency } from "@/lib/utils/currency";
+
+interface ReceivableLine {
+  id: string;
+  name: string;
+  outstanding: number;
+  unitCost: number;
+}
+
+interface ReceivePurchaseOrderDialogProps {
+  purchaseOrderId: string;
+  poNumber: string;
+  lines: ReceivableLine[];
+  currencyCode: string;
+}
+
+/**
+ * Record a delivery. Every outstanding unit is filled in; lower the counts for
+ * anything short and the rest stays due on the order.
+ */
+export function ReceivePurchaseOrderDialog({
+  purchaseOrderId,
+  poNumber,
+  lines,
+  currencyCode,
+}: ReceivePurchaseOrderDialogProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const open = (value: boolean) => {
+    setIsOpen(value);
+    if (value) {
+      setQuantities(Object.fromEntries(lines.map((line) => [line.id, String(line.outstanding)])));
+    }
+  };
+
+  const parsed = lines.map((line) => ({ ...line, quantity: parseInt(quantities[line.id] ?? "", 10) || 0 }));
+  const units = parsed.reduce((sum, line) => sum + line.quantity, 0);
+  const value = parsed.reduce((sum, line) => sum + Math.round(line.unitCost * 100) * line.quantity, 0) / 100;
+  const isOver = parsed.some((line) => line.quantity > line.outstanding || line.quantity < 0);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await receivePurchaseOrder({
+        purchaseOrderId,
+        lines: parsed.map((line) => ({ itemId: line.id, quantity: line.quantity })),
+      });
+      if (result.success) {
+        toast.success(
+          result.data.status === "RECEIVED"
+            ? `${poNumber} fully received`
+            : `Received ${result.data.received} unit${result.data.received === 1 ? "" : "s"}; the rest is still due`
+        );
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open}>
+      <DialogTrigger asChild>
+        <Button>
+          <PackageCheck className="mr-2 h-4 w-4" />
+          Receive Delivery
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Delivery</DialogTitle>
+          <DialogDescription>
+            Units received go into stock at the order&apos;s unit cost, and their value is added to the
+            order&apos;s expense
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Due</TableHead>
+              <TableHead className="w-28">Received</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {parsed.map((line) => (
+              <TableRow key={line.id}>
+                <TableCell>
+                  <p className="font-medium">{line.name}</p>
+                  <p className="text-xs text-muted-foreground">{formatCurrency(line.unitCost, currencyCode)} each</p>
+                </TableCell>
+                <TableCell className="text-right">{line.outstanding}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={line.outstanding}
+                    step={1}
+                    value={quantities[line.id] ?? ""}
+                    onChange={(e) => setQuantities((current) => ({ ...current, [line.id]: e.target.value }))}
+                    className={line.quantity > line.outstanding ? "border-destructive" : ""}
+                    aria-label={`Received of ${line.name}`}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-sm text-muted-foreground">
+          {units} unit{units === 1 ? "" : "s"} worth {formatCurrency(value, currencyCode)}
+        </p>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || units === 0 || isOver}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Receive
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,7 @@ import { ReportData } from "@/lib/actions/dashboard";
 import { downloadCSV, ExportColumn, formatCurrencyForExport } from "@/lib/export-utils";
 import { downloadReportPDF } from "./report-pdf";
 import { formatInTz } from "@/lib/utils/timezone";
+import { AGING_BUCKETS } from "@/lib/utils/receivables";
 
 interface ExportButtonsProps {
   data: ReportData;
@@ -77,6 +78,7 @@ export function ExportButtons({ data, startDate, endDate, timezone }: ExportButt
       { header: "Staff Member", accessor: "staff" as const },
       { header: "Services Performed", accessor: "appointments" as const },
       { header: "Revenue", accessor: (row) => formatCurrencyForExport(row.revenue, data.currencyCode) },
+      { header: "Tips", accessor: (row) => formatCurrencyForExport(row.tips, data.currencyCode) },
       ...(canViewProfit ? [
         { header: "Cost", accessor: (row: typeof data.revenueByStaff[0]) => formatCurrencyForExport(row.cost ?? 0, data.currencyCode) },
         { header: "Profit", accessor: (row: typeof data.revenueByStaff[0]) => formatCurrencyForExport(row.profit ?? 0, data.currencyCode) },
@@ -133,6 +135,36 @@ export function ExportButtons({ data, startDate, endDate, timezone }: ExportButt
     toast.success("Client profitability data exported to CSV");
   };
 
+  const handleExportTaxSummaryCSV = () => {
+    const columns: ExportColumn<typeof data.taxSummary[0]>[] = [
+      { header: "Tax", accessor: "name" },
+      { header: "Rate", accessor: (row) => `${row.rate}%` },
+      { header: "Prices", accessor: (row) => (row.inclusive ? "Include tax" : "Plus tax") },
+      { header: "Taxable", accessor: (row) => formatCurrencyForExport(row.taxable, data.currencyCode) },
+      { header: "Tax Charged", accessor: (row) => formatCurrencyForExport(row.tax, data.currencyCode) },
+      { header: "Tax Refunded", accessor: (row) => formatCurrencyForExport(row.refunded, data.currencyCode) },
+      { header: "Net Tax", accessor: (row) => formatCurrencyForExport(row.net, data.currencyCode) },
+    ];
+
+    downloadCSV(data.taxSummary, columns, `tax-summary-${formatInTz(startDate, "yyyy-MM-dd", timezone)}`);
+    toast.success("Tax summary exported to CSV");
+  };
+
+  const handleExportReceivablesCSV = () => {
+    const columns: ExportColumn<typeof data.receivablesAging.clients[0]>[] = [
+      { header: "Client", accessor: "client" },
+      ...AGING_BUCKETS.map((bucket) => ({
+        header: bucket.label,
+        accessor: (row: typeof data.receivablesAging.clients[0]) =>
+          formatCurrencyForExport(row.balances[bucket.key], data.currencyCode),
+      })),
+      { header: "Total", accessor: (row) => formatCurrencyForExport(row.total, data.currencyCode) },
+    ];
+
+    downloadCSV(data.receivablesAging.clients, columns, `receivables-aging-${formatInTz(new Date(), "yyyy-MM-dd", timezone)}`);
+    toast.success("Receivables aging exported to CSV");
+  };
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -174,6 +206,18 @@ export function ExportButtons({ data, startDate, endDate, timezone }: ExportButt
           <FileSpreadsheet className="h-4 w-4 mr-2" />
           Client Growth (CSV)
         </DropdownMenuItem>
+        {data.taxSummary && data.taxSummary.length > 0 && (
+          <DropdownMenuItem onClick={handleExportTaxSummaryCSV}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Tax Summary (CSV)
+          </DropdownMenuItem>
+        )}
+        {data.receivablesAging && data.receivablesAging.total > 0 && (
+          <DropdownMenuItem onClick={handleExportReceivablesCSV}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Receivables Aging (CSV)
+          </DropdownMenuItem>
+        )}
         {canViewProfit && data.profitByClient && (
           <DropdownMenuItem onClick={handleExportClientProfitCSV}>
             <FileSpreadsheet className="h-4 w-4 mr-2" />
@@ -205,6 +205,7 @@ function ReportPDFDocument({ data, startDate, endDate, salonName = "AestheTech S
                 <Text style={styles.tableCell}>Staff Member</Text>
                 <Text style={styles.tableCellRight}>Services</Text>
                 <Text style={styles.tableCellRight}>Revenue</Text>
+                <Text style={styles.tableCellRight}>Tips</Text>
                 {canViewProfit && <Text style={styles.tableCellRight}>Profit</Text>}
               </View>
               {data.revenueByStaff.map((item, index) => (
@@ -212,6 +213,7 @@ function ReportPDFDocument({ data, startDate, endDate, salonName = "AestheTech S
                   <Text style={styles.tableCell}>{item.staff}</Text>
                   <Text style={styles.tableCellRight}>{item.appointments}</Text>
                   <Text style={styles.tableCellRight}>{fmtCurrency(item.revenue)}</Text>
+                  <Text style={styles.tableCellRight}>{fmtCurrency(item.tips)}</Text>
                   {canViewProfit && <Text style={styles.tableCellRight}>{fmtCurrency(item.profit ?? 0)}</Text>}
                 </View>
               ))}
@@ -242,6 +244,61 @@ function ReportPDFDocument({ data, startDate, endDate, salonName = "AestheTech S
           </View>
         )}
 
+        {/* Tax Summary */}
+        {data.taxSummary && data.taxSummary.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Tax Summary</Text>
+            <View style={styles.table}>
+              <View style={styles.tableHeader}>
+                <Text style={styles.tableCell}>Tax</Text>
+                <Text style={styles.tableCellRight}>Taxable</Text>
+                <Text style={styles.tableCellRight}>Charged</Text>
+                <Text style={styles.tableCellRight}>Refunded</Text>
+                <Text style={styles.tableCellRight}>Net Tax</Text>
+              </View>
+              {data.taxSummary.map((item, index) => (
+                <View key={index} style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}>
+                  <Text style={styles.tableCell}>
+                    {item.name} ({item.rate}%{item.inclusive ? ", incl." : ""})
+                  </Text>
+                  <Text style={styles.tableCellRight}>{fmtCurrency(item.taxable)}</Text>
+                  <Text style={styles.tableCellRight}>{fmtCurrency(item.tax)}</Text>
+                  <Text style={styles.tableCellRight}>{fmtCurrency(item.refunded)}</Text>
+                  <Text style={styles.tableCellRight}>{fmtCurrency(item.net)}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Receivables Aging */}
+        {data.receivablesAging && data.receivablesAging.total > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Receivables Aging (as of today)</Text>
+            <View style={styles.table}>
+              <View style={styles.tableHeader}>
+                <Text style={styles.tableCell}>Days Past Due</Text>
+                <Text style={styles.tableCellRight}>Invoices</Text>
+                <Text style={styles.tableCellRight}>Amount</Text>
+              </View>
+              {data.receivablesAging.buckets.map((item, index) => (
+                <View key={item.bucket} style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}>
+                  <Text style={styles.tableCell}>{item.label}</Text>
+                  <Text style={styles.tableCellRight}>{item.invoices}</Text>
+                  <Text style={styles.tableCellRight}>{fmtCurrency(item.amount)}</Text>
+                </View>
+              ))}
+              <View style={styles.tableRow}>
+                <Text style={styles.tableCell}>Total</Text>
+                <Text style={styles.tableCellRight}>
+                  {data.receivablesAging.buckets.reduce((sum, b) => sum + b.invoices, 0)}
+                </Text>
+                <Text style={styles.tableCellRight}>{fmtCurrency(data.receivablesAging.total)}</Text>
+              </View>
+            </View>
+          </View>
+        )}
+
         {/* Appointments by Status */}
         {data.appointmentsByStatus.length > 0 && (
           <View style={styles.section}>
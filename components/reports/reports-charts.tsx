@@ -4,6 +4,7 @@ import { useState } from "react";
 import { subDays, startOfMonth, endOfMonth } from "date-fns";
 import { formatInTz } from "@/lib/utils/timezone";
 import { formatCurrency } from "@/lib/utils/currency";
+import { AGING_BUCKETS } from "@/lib/utils/receivables";
 import {
   BarChart,
   Bar,
@@ -26,6 +27,11 @@ import {
   TrendingUp,
   Wallet,
   PiggyBank,
+  Gift,
+  Layers,
+  Tag,
+  Percent,
+  Hourglass,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -36,6 +42,14 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { ReportData } from "@/lib/actions/dashboard";
 import { ExportButtons } from "./export-buttons";
 import Link from "next/link";
@@ -335,6 +349,197 @@ export function ReportsCharts({ initialData, onDateRangeChange, timezone }: Repo
         </Alert>
       )}
 
+      {/* Gift Card Liability */}
+      {data.giftCardLiability && (data.giftCardLiability.activeCards > 0 || data.giftCardLiability.issued > 0) && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle className="text-sm font-medium">Gift Card Liability</CardTitle>
+              <CardDescription>Unspent balance on active gift cards, owed to cardholders</CardDescription>
+            </div>
+            <Gift className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div>
+                <div className="text-2xl font-bold">{fmtCurrency(data.giftCardLiability.outstanding)}</div>
+                <p className="text-xs text-muted-foreground">
+                  Outstanding today across {data.giftCardLiability.activeCards} card{data.giftCardLiability.activeCards === 1 ? "" : "s"}
+                </p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{fmtCurrency(data.giftCardLiability.issued)}</div>
+                <p className="text-xs text-muted-foreground">Sold in period</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{fmtCurrency(data.giftCardLiability.redeemed)}</div>
+                <p className="text-xs text-muted-foreground">Redeemed in period</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Package Deferred Revenue */}
+      {data.packageDeferredRevenue && (data.packageDeferredRevenue.activePackages > 0 || data.packageDeferredRevenue.sold > 0) && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle className="text-sm font-medium">Package Deferred Revenue</CardTitle>
+              <CardDescription>Prepaid sessions not yet used; recognized as each session is checked out</CardDescription>
+            </div>
+            <Layers className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div>
+                <div className="text-2xl font-bold">{fmtCurrency(data.packageDeferredRevenue.outstanding)}</div>
+                <p className="text-xs text-muted-foreground">
+                  Deferred today across {data.packageDeferredRevenue.activePackages} package{data.packageDeferredRevenue.activePackages === 1 ? "" : "s"}
+                </p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{fmtCurrency(data.packageDeferredRevenue.sold)}</div>
+                <p className="text-xs text-muted-foreground">Packages sold in period</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{fmtCurrency(data.packageDeferredRevenue.recognized)}</div>
+                <p className="text-xs text-muted-foreground">Recognized from sessions used in period</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Promotions */}
+      {data.promotions && data.promotions.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle className="text-sm font-medium">Promotions</CardTitle>
+              <CardDescription>Promo codes redeemed on sales paid in the period</CardDescription>
+            </div>
+            <Tag className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {data.promotions.map((promotion) => (
+                <div key={promotion.code} className="flex items-center justify-between text-sm">
+                  <div>
+                    <span className="font-medium">{promotion.code}</span>
+                    <span className="text-muted-foreground"> · {promotion.name}</span>
+                  </div>
+                  <div className="text-right">
+                    <span className="font-medium">{fmtCurrency(promotion.discount)}</span>
+                    <span className="text-muted-foreground">
+                      {" "}off across {promotion.redemptions} sale{promotion.redemptions === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tax Summary */}
+      {data.taxSummary && data.taxSummary.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle className="text-sm font-medium">Tax Summary</CardTitle>
+              <CardDescription>Tax charged on invoices paid in the period, less tax refunded in the period</CardDescription>
+            </div>
+            <Percent className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tax</TableHead>
+                  <TableHead className="text-right">Taxable</TableHead>
+                  <TableHead className="text-right">Charged</TableHead>
+                  <TableHead className="text-right">Refunded</TableHead>
+                  <TableHead className="text-right">Net Tax</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.taxSummary.map((line) => (
+                  <TableRow key={`${line.name}-${line.rate}-${line.inclusive}`}>
+                    <TableCell>
+                      <span className="font-medium">{line.name} ({line.rate}%)</span>
+                      {line.inclusive && <span className="text-muted-foreground"> · included in prices</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{fmtCurrency(line.taxable)}</TableCell>
+                    <TableCell className="text-right">{fmtCurrency(line.tax)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {line.refunded > 0 ? `-${fmtCurrency(line.refunded)}` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{fmtCurrency(line.net)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Receivables Aging */}
+      {data.receivablesAging && data.receivablesAging.total > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle className="text-sm font-medium">Receivables Aging</CardTitle>
+              <CardDescription>
+                {fmtCurrency(data.receivablesAging.total)} owed on unpaid invoices as of today, by days past due
+              </CardDescription>
+            </div>
+            <Hourglass className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.receivablesAging.clients.map((client) => (
+                  <TableRow key={client.client}>
+                    <TableCell className="font-medium">{client.client}</TableCell>
+                    {AGING_BUCKETS.map((bucket) => (
+                      <TableCell
+                        key={bucket.key}
+                        className={`text-right ${bucket.key !== "current" && client.balances[bucket.key] > 0 ? "text-red-600" : ""}`}
+                      >
+                        {client.balances[bucket.key] > 0 ? fmtCurrency(client.balances[bucket.key]) : "—"}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">{fmtCurrency(client.total)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-medium">All clients</TableCell>
+                  {data.receivablesAging.buckets.map((bucket) => (
+                    <TableCell key={bucket.bucket} className="text-right font-medium">
+                      {fmtCurrency(bucket.amount)}
+                      <div className="text-xs font-normal text-muted-foreground">
+                        {bucket.invoices} {bucket.invoices === 1 ? "invoice" : "invoices"}
+                      </div>
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-bold">{fmtCurrency(data.receivablesAging.total)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Revenue/Profit Chart */}
       <Card>
         <CardHeader>
@@ -627,6 +832,7 @@ export function ReportsCharts({ initialData, onDateRangeChange, timezone }: Repo
                     formatter={(value, name) => {
                       const labels: Record<string, string> = {
                         revenue: "Revenue",
+                        tips: "Tips",
                         profit: "Profit",
                       };
                       return [fmtCurrency(value as number), labels[name as string] || name];
@@ -634,6 +840,7 @@ export function ReportsCharts({ initialData, onDateRangeChange, timezone }: Repo
                   />
                   <Legend />
                   <Bar dataKey="revenue" fill="#8b5cf6" name="Revenue" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="tips" fill="#f59e0b" name="Tips" radius={[4, 4, 0, 0]} />
                   {canViewProfit && (
                     <Bar dataKey="profit" fill="#10b981" name="Profit" radius={[4, 4, 0, 0]} />
                   )}
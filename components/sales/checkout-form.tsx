@@ -18,8 +18,17 @@ import {
   Percent,
   Package,
   AlertTriangle,
+  Gift,
+  Layers,
+  BadgeCheck,
+  HandCoins,
+  Tag,
+  X,
+  CalendarClock,
+  ScanBarcode,
 } from "lucide-react";
 import { toast } from "sonner";
+import { addDays, format } from "date-fns";
 import { createWalkInClient } from "@/lib/actions/client";
 
 import { Button } from "@/components/ui/button";
@@ -44,26 +53,43 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { quickSale } from "@/lib/actions/sale";
-import { getActiveProducts } from "@/lib/actions/product";
+import { quickSale, AppointmentCheckout } from "@/lib/actions/sale";
+import { getHeldDeposits, HeldDeposit } from "@/lib/actions/deposit";
+import { getActiveProducts, getProductBySku } from "@/lib/actions/product";
+import { lookupGiftCard, GiftCardBalance } from "@/lib/actions/gift-card";
+import { getClientPackages, ClientPackageListItem } from "@/lib/actions/service-package";
+import { getActiveMembership, ActiveMembership } from "@/lib/actions/membership";
+import { checkPromoCode, AppliedPromotion } from "@/lib/actions/promotion";
+import { memberLineDiscount } from "@/lib/utils/membership";
+import { applyPromotion, describePromotion } from "@/lib/utils/promotion";
+import { computeSaleTax, taxLineLabel, taxRateFor, TaxClassRate } from "@/lib/utils/tax";
+import { TIP_PRESETS, TIP_SPLIT_LABELS, TipSplit, allocateTip, tipRecipients } from "@/lib/utils/tip";
 import { PaymentMethod } from "@prisma/client";
 import { PaymentMethodIcon, PAYMENT_METHOD_LABELS, SELECTABLE_PAYMENT_METHODS } from "@/lib/constants/payment-methods";
 import { formatCurrency } from "@/lib/utils/currency";
+import { formatInTz, getNow } from "@/lib/utils/timezone";
+import { DEFAULT_PAYMENT_TERMS_DAYS } from "@/lib/utils/receivables";
 import { getCurrencySymbol } from "@/lib/currencies";
 
 interface CartItem {
   id: string;
-  type: "service" | "product";
+  type: "service" | "product" | "giftCard" | "package";
   serviceId?: string;
   productId?: string;
+  recipientName?: string; // Gift cards only
+  servicePackageId?: string; // Package being sold
+  clientPackageId?: string; // Client package paying for this service
+  membershipId?: string; // Membership credit paying for this service
+  appointmentId?: string; // Appointment this line checks out
   name: string;
   staffId?: string;
   staffName?: string;
   price: number;
   quantity: number;
   points: number;
-  maxQuantity?: number; // stock limit for products
+  maxQuantity?: number; // stock limit for products, sessions left for package and membership services
 }
 
 interface Client {
@@ -86,6 +112,7 @@ interface Service {
   duration: number;
   category: string | null;
   points: number;
+  taxClassId: string | null;
 }
 
 interface Product {
@@ -97,6 +124,15 @@ interface Product {
   points: number;
   sku: string | null;
   lowStockThreshold: number;
+  taxClassId: string | null;
+}
+
+interface ServicePackage {
+  id: string;
+  name: string;
+  price: number;
+  validityDays: number | null;
+  items: { serviceName: string; sessions: number }[];
 }
 
 interface Staff {
@@ -109,33 +145,84 @@ interface SplitPayment {
   id: number;
   method: PaymentMethod;
   amount: number;
+  giftCardCode?: string;
 }
 
 interface CheckoutFormProps {
   clients: Client[];
   services: Service[];
   products?: Product[];
+  packages?: ServicePackage[];
   staff: Staff[];
   currencyCode: string;
-  taxRate: number;
+  timezone: string;
+  taxRate: number; // Standard rate, for items without a tax class
+  taxClasses: TaxClassRate[];
   pointsPerDollar: number;
   loyaltyProgramEnabled?: boolean;
+  appointmentCheckout?: AppointmentCheckout; // Prefill when checking out from the calendar
+}
+
+// Select value for paying a service line with a membership credit
+const MEMBERSHIP_CREDIT = "membership";
+
+// A keyboard-wedge scanner types a whole code, then Enter, faster than anyone can by hand
+const SCAN_MAX_KEY_INTERVAL_MS = 50;
+const SCAN_MIN_LENGTH = 3;
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+// Put a service back to its regular price when it stops being paid by a package or membership credit
+function releasePackageSession(item: CartItem, services: Service[]): CartItem {
+  if (!item.clientPackageId && !item.membershipId) return item;
+  const service = services.find((s) => s.id === item.serviceId);
+  return {
+    ...item,
+    clientPackageId: undefined,
+    membershipId: undefined,
+    price: service ? Number(service.price) : item.price,
+    points: service?.points ?? 0,
+    maxQuantity: undefined,
+  };
 }
 
 export function CheckoutForm({
   clients,
   services,
   products = [],
+  packages = [],
   staff,
   currencyCode,
+  timezone,
   taxRate,
+  taxClasses,
   pointsPerDollar,
   loyaltyProgramEnabled = true,
+  appointmentCheckout,
 }: CheckoutFormProps) {
   const router = useRouter();
-  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+  const [selectedClient, setSelectedClient] = useState<Client | null>(appointmentCheckout?.client ?? null);
   const [clientSearch, setClientSearch] = useState("");
-  const [cart, setCart] = useState<CartItem[]>([]);
+  const [cart, setCart] = useState<CartItem[]>(
+    () =>
+      appointmentCheckout?.appointments.map((apt) => ({
+        id: `appointment-${apt.id}`,
+        type: "service",
+        serviceId: apt.serviceId,
+        appointmentId: apt.id,
+        name: apt.serviceName,
+        staffId: apt.staffId,
+        staffName: apt.staffName,
+        price: apt.price,
+        quantity: 1,
+        points: apt.points,
+      })) ?? []
+  );
   const [discount, setDiscount] = useState(0);
   const [discountType, setDiscountType] = useState<"fixed" | "percentage">("fixed");
   const [redeemPoints, setRedeemPoints] = useState(0);
@@ -151,11 +238,48 @@ export function CheckoutForm({
   const [splitAmount, setSplitAmount] = useState("");
   const [splitIdCounter, setSplitIdCounter] = useState(0);
 
+  // Gift card being checked for a GIFT_CARD split
+  const [giftCardCode, setGiftCardCode] = useState("");
+  const [giftCardCheck, setGiftCardCheck] = useState<GiftCardBalance | null>(null);
+  const [isCheckingGiftCard, setIsCheckingGiftCard] = useState(false);
+
+  // Gift card sale form
+  const [giftCardValue, setGiftCardValue] = useState("");
+  const [giftCardRecipient, setGiftCardRecipient] = useState("");
+
   // Walk-in client state
   const [isWalkIn, setIsWalkIn] = useState(false);
   const [walkInName, setWalkInName] = useState("");
   const [walkInPhone, setWalkInPhone] = useState("");
 
+  // Booking deposits held for the selected client
+  const [heldDeposits, setHeldDeposits] = useState<HeldDeposit[]>([]);
+  const [appliedDepositIds, setAppliedDepositIds] = useState<string[]>([]);
+
+  // Prepaid packages the selected client can use
+  const [clientPackages, setClientPackages] = useState<ClientPackageListItem[]>([]);
+
+  // Active membership of the selected client, for member pricing and included services
+  const [activeMembership, setActiveMembership] = useState<ActiveMembership | null>(null);
+
+  // Promo code checked against the selected client
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [appliedPromotion, setAppliedPromotion] = useState<AppliedPromotion | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+
+  // Tip: a % preset of the pre-tax amount, or a fixed amount
+  const [tipPercent, setTipPercent] = useState<number | null>(null);
+  const [customTip, setCustomTip] = useState("");
+  const [tipSplit, setTipSplit] = useState<TipSplit>("even");
+  const [manualTips, setManualTips] = useState<Record<string, string>>({});
+
+  // Pay later: due date for whatever isn't paid at checkout, null when paying in full
+  const [payLaterDue, setPayLaterDue] = useState<string | null>(null);
+
+  // SKU typed into the scan box, for labels that won't scan
+  const [skuInput, setSkuInput] = useState("");
+  const [isLookingUpSku, setIsLookingUpSku] = useState(false);
+
   // Filter clients based on search
   const filteredClients = clients.filter((client) => {
     const search = clientSearch.toLowerCase();
@@ -168,19 +292,124 @@ export function CheckoutForm({
 
   // Calculate totals
   const subtotal = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
-  const discountAmount = discountType === "percentage" ? (subtotal * discount) / 100 : discount;
-  const afterDiscount = Math.max(0, subtotal - discountAmount);
+  // Member pricing, then the promotion, come off before the manual discount (mirrors createSale)
+  const memberLineDiscounts = cart.map((item) => {
+    if (!activeMembership) return 0;
+    if (item.type === "service" && !item.clientPackageId && !item.membershipId) {
+      return memberLineDiscount(item.price, item.quantity, activeMembership.serviceDiscountPercent);
+    }
+    if (item.type === "product") {
+      return memberLineDiscount(item.price, item.quantity, activeMembership.productDiscountPercent);
+    }
+    return 0;
+  });
+  const memberDiscount = Math.round(memberLineDiscounts.reduce((sum, d) => sum + d, 0) * 100) / 100;
+  const promotionResult = appliedPromotion
+    ? applyPromotion(
+        appliedPromotion.terms,
+        cart.map((item, index) => ({
+          serviceId: item.type === "service" ? item.serviceId ?? null : null,
+          productId: item.type === "product" ? item.productId ?? null : null,
+          category: item.type === "service"
+            ? services.find((s) => s.id === item.serviceId)?.category ?? null
+            : item.type === "product"
+              ? products.find((p) => p.id === item.productId)?.category ?? null
+              : null,
+          price: item.price,
+          quantity: item.quantity,
+          memberDiscount: memberLineDiscounts[index],
+        }))
+      )
+    : null;
+  const promotionDiscount = promotionResult?.discount ?? 0;
+  // Gift cards sold keep their face value: the discount and points only come off services and
+  // products (mirrors createSale and completeSale)
+  const giftCardsInCart = cart.filter((item) => item.type === "giftCard").reduce((sum, item) => sum + item.price, 0);
+  const discountableAmount = Math.max(0, subtotal - giftCardsInCart - memberDiscount - promotionDiscount);
+  const discountAmount = Math.min(
+    discountType === "percentage" ? (discountableAmount * discount) / 100 : discount,
+    discountableAmount
+  );
+  const afterDiscount = Math.max(0, subtotal - memberDiscount - promotionDiscount - discountAmount);
+  const maxRedeemablePoints = Math.max(0, Math.floor((afterDiscount - giftCardsInCart) * pointsPerDollar));
   const pointsValue = redeemPoints / pointsPerDollar;
   const afterPoints = Math.max(0, afterDiscount - pointsValue);
-  const taxAmount = (afterPoints * taxRate) / 100;
-  const total = afterPoints + taxAmount;
+  // Each line at its tax class's rate or the standard rate; gift cards sold are not taxed (mirrors completeSale)
+  const lineTaxClass = (item: CartItem) => {
+    const taxClassId = item.type === "service"
+      ? services.find((s) => s.id === item.serviceId)?.taxClassId
+      : item.type === "product"
+        ? products.find((p) => p.id === item.productId)?.taxClassId
+        : null;
+    return taxClasses.find((c) => c.id === taxClassId) ?? null;
+  };
+  const saleTax = computeSaleTax(
+    cart.map((item, index) => ({
+      value: item.price * item.quantity - (promotionResult?.lineDiscounts[index] ?? 0),
+      taxRate: item.type === "giftCard" ? null : taxRateFor(lineTaxClass(item), taxRate),
+    })),
+    afterPoints
+  );
+  const total = saleTax.total;
+
+  // Deposits are credited against the total; the rest is paid now
+  const depositCredit = isWalkIn
+    ? 0
+    : heldDeposits
+        .filter((d) => appliedDepositIds.includes(d.id))
+        .reduce((sum, d) => sum + d.amount, 0);
+  const depositsExceedTotal = Math.round(depositCredit * 100) > Math.round(total * 100);
+
+  // Tips are paid on top of the total: not taxed, no points (mirrors completeSale)
+  const tipBase = Math.max(0, afterPoints - giftCardsInCart);
+  const tipAmount = tipPercent !== null
+    ? Math.round(tipBase * tipPercent) / 100
+    : Math.max(0, Math.round((parseFloat(customTip) || 0) * 100) / 100);
+  // Staff on service lines share the tip; with none it goes to whoever completes the sale
+  const serviceTipRecipients = cart.some((item) => item.type === "service" && item.staffId)
+    ? tipRecipients(
+        cart.map((item) => ({
+          serviceId: item.type === "service" ? item.serviceId ?? null : null,
+          staffId: item.staffId ?? null,
+          price: item.price,
+          quantity: item.quantity,
+        })),
+        ""
+      )
+    : [];
+  // Choosing how to split only applies with more than one staff member
+  const effectiveTipSplit: TipSplit = serviceTipRecipients.length > 1 ? tipSplit : "even";
+  const tipShares = effectiveTipSplit !== "manual"
+    ? allocateTip(tipAmount, serviceTipRecipients, effectiveTipSplit)
+    : serviceTipRecipients.map((r) => ({ staffId: r.staffId, amount: parseFloat(manualTips[r.staffId] || "") || 0 }));
+  const manualTipsMismatch =
+    tipAmount > 0 &&
+    effectiveTipSplit === "manual" &&
+    Math.round(tipShares.reduce((sum, share) => sum + share.amount, 0) * 100) !== Math.round(tipAmount * 100);
+  const staffName = (staffId: string) => {
+    const member = staff.find((s) => s.id === staffId);
+    return member ? `${member.firstName} ${member.lastName}` : "Staff";
+  };
+
+  const amountDue = Math.max(0, Math.round((total - depositCredit + tipAmount) * 100) / 100);
+
+  // Appointments still in the cart for the client they were booked for; these are linked to the sale
+  const checkoutAppointments =
+    appointmentCheckout && !isWalkIn && selectedClient?.id === appointmentCheckout.client.id
+      ? appointmentCheckout.appointments.filter((apt) => cart.some((item) => item.appointmentId === apt.id))
+      : [];
 
   // Calculate points to be earned
   const pointsToEarn = cart.reduce((sum, item) => sum + item.points * item.quantity, 0);
 
   const addServiceToCart = (service: Service) => {
     const existingItem = cart.find(
-      (item) => item.type === "service" && item.serviceId === service.id && item.staffId === selectedStaff
+      (item) =>
+        item.type === "service" &&
+        item.serviceId === service.id &&
+        item.staffId === selectedStaff &&
+        !item.clientPackageId &&
+        !item.membershipId
     );
 
     if (existingItem) {
@@ -247,6 +476,157 @@ export function CheckoutForm({
     }
   };
 
+  // Add the product with this SKU, or one more of it if it's already in the cart
+  const addProductBySku = async (code: string) => {
+    const sku = code.trim();
+    if (!sku) return;
+
+    let product =
+      products.find((p) => p.sku === sku) ?? products.find((p) => p.sku?.toLowerCase() === sku.toLowerCase());
+    if (!product) {
+      setIsLookingUpSku(true);
+      try {
+        const result = await getProductBySku(sku);
+        if (!result.success) {
+          toast.error(result.error);
+          return;
+        }
+        product = result.data ?? undefined;
+      } finally {
+        setIsLookingUpSku(false);
+      }
+    }
+
+    if (!product) {
+      toast.error(`No product with SKU "${sku}"`);
+      return;
+    }
+    if (product.stock <= 0) {
+      toast.error(`"${product.name}" is out of stock`);
+      return;
+    }
+    addProductToCart(product);
+  };
+
+  const addGiftCardToCart = () => {
+    const value = Math.round(parseFloat(giftCardValue) * 100) / 100;
+    if (!value || value < 1) {
+      toast.error(`Gift card value must be at least ${formatCurrency(1, currencyCode)}`);
+      return;
+    }
+    const recipientName = giftCardRecipient.trim();
+    setCart([
+      ...cart,
+      {
+        id: `giftcard-${Date.now()}`,
+        type: "giftCard",
+        name: recipientName ? `Gift card for ${recipientName}` : "Gift card",
+        recipientName: recipientName || undefined,
+        price: value,
+        quantity: 1,
+        points: 0,
+        maxQuantity: 1,
+      },
+    ]);
+    setGiftCardValue("");
+    setGiftCardRecipient("");
+  };
+
+  const addPackageToCart = (pkg: ServicePackage) => {
+    setCart([
+      ...cart,
+      {
+        id: `package-${pkg.id}-${Date.now()}`,
+        type: "package",
+        servicePackageId: pkg.id,
+        name: pkg.name,
+        price: pkg.price,
+        quantity: 1,
+        points: 0,
+        maxQuantity: 1,
+      },
+    ]);
+  };
+
+  // Sessions of a service left in a client package, less what other cart lines already use
+  const packageSessionsLeft = (clientPackageId: string, serviceId: string, excludeItemId?: string) => {
+    const remaining = clientPackages
+      .find((p) => p.id === clientPackageId)
+      ?.items.find((i) => i.serviceId === serviceId)?.sessionsRemaining ?? 0;
+    const inCart = cart
+      .filter((item) => item.id !== excludeItemId && item.clientPackageId === clientPackageId && item.serviceId === serviceId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    return Math.max(0, remaining - inCart);
+  };
+
+  const packagesForService = (serviceId: string) =>
+    clientPackages.filter((p) => p.items.some((i) => i.serviceId === serviceId && i.sessionsRemaining > 0));
+
+  const setPackageSession = (itemId: string, clientPackageId: string | null) => {
+    setCart(
+      cart.map((item) => {
+        if (item.id !== itemId || !item.serviceId) return item;
+        if (!clientPackageId) return releasePackageSession(item, services);
+        const left = packageSessionsLeft(clientPackageId, item.serviceId, item.id);
+        if (left <= 0) {
+          toast.error("No sessions left in this package for the service");
+          return item;
+        }
+        if (item.quantity > left) {
+          toast.info(`Only ${left} session${left === 1 ? "" : "s"} left, quantity adjusted`);
+        }
+        return {
+          ...item,
+          clientPackageId,
+          membershipId: undefined,
+          price: 0,
+          points: 0,
+          quantity: Math.min(item.quantity, left),
+          maxQuantity: left,
+        };
+      })
+    );
+  };
+
+  // Included sessions of a service left in the membership, less what other cart lines already use
+  const membershipCreditsLeft = (serviceId: string, excludeItemId?: string) => {
+    if (!activeMembership) return 0;
+    const remaining = activeMembership.credits.find((c) => c.serviceId === serviceId)?.remaining ?? 0;
+    const inCart = cart
+      .filter((item) => item.id !== excludeItemId && item.membershipId && item.serviceId === serviceId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    return Math.max(0, remaining - inCart);
+  };
+
+  const hasMembershipCredit = (serviceId: string) =>
+    activeMembership?.credits.some((c) => c.serviceId === serviceId && c.remaining > 0) ?? false;
+
+  const applyMembershipCredit = (itemId: string) => {
+    if (!activeMembership) return;
+    setCart(
+      cart.map((item) => {
+        if (item.id !== itemId || !item.serviceId) return item;
+        const left = membershipCreditsLeft(item.serviceId, item.id);
+        if (left <= 0) {
+          toast.error("No included sessions left in the membership for the service");
+          return item;
+        }
+        if (item.quantity > left) {
+          toast.info(`Only ${left} included session${left === 1 ? "" : "s"} left, quantity adjusted`);
+        }
+        return {
+          ...item,
+          clientPackageId: undefined,
+          membershipId: activeMembership.id,
+          price: 0,
+          points: 0,
+          quantity: Math.min(item.quantity, left),
+          maxQuantity: left,
+        };
+      })
+    );
+  };
+
   const updateQuantity = (itemId: string, delta: number) => {
     setCart(
       cart
@@ -255,7 +635,13 @@ export function CheckoutForm({
           const newQty = Math.max(0, item.quantity + delta);
           // Respect stock limit for products
           if (item.maxQuantity !== undefined && newQty > item.maxQuantity) {
-            toast.error(`Only ${item.maxQuantity} in stock`);
+            toast.error(
+              item.clientPackageId
+                ? `Only ${item.maxQuantity} session${item.maxQuantity === 1 ? "" : "s"} left in the package`
+                : item.membershipId
+                ? `Only ${item.maxQuantity} included session${item.maxQuantity === 1 ? "" : "s"} left in the membership`
+                : `Only ${item.maxQuantity} in stock`
+            );
             return item;
           }
           return { ...item, quantity: newQty };
@@ -268,39 +654,210 @@ export function CheckoutForm({
     setCart(cart.filter((item) => item.id !== itemId));
   };
 
-  // Reset split entries if total changes while in split mode (safety net)
-  const prevTotalRef = useRef(total);
+  // Load the selected client's held deposits; ones for today's (or past) appointments are applied by default
+  useEffect(() => {
+    setHeldDeposits([]);
+    setAppliedDepositIds([]);
+    if (!selectedClient) return;
+
+    let cancelled = false;
+    getHeldDeposits(selectedClient.id).then((result) => {
+      if (cancelled || !result.success) return;
+      setHeldDeposits(result.data);
+      setAppliedDepositIds(result.data.filter((d) => d.isDue).map((d) => d.id));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClient]);
+
+  // Load the selected client's usable packages and membership; lines paid by a previous client's
+  // package or membership go back to full price
+  useEffect(() => {
+    setClientPackages([]);
+    setActiveMembership(null);
+    setCart((prev) => prev.map((item) => releasePackageSession(item, services)));
+    if (!selectedClient) return;
+
+    let cancelled = false;
+    getClientPackages(selectedClient.id, { usableOnly: true }).then((result) => {
+      if (cancelled || !result.success) return;
+      setClientPackages(result.data);
+    });
+    getActiveMembership(selectedClient.id).then((result) => {
+      if (cancelled || !result.success) return;
+      setActiveMembership(result.data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClient, services]);
+
+  // The scanner listener is attached once, so it calls through a ref to see the current cart
+  const addProductBySkuRef = useRef(addProductBySku);
+  useEffect(() => {
+    addProductBySkuRef.current = addProductBySku;
+  });
+
+  // Keyboard-wedge barcode scans anywhere on the page outside a text field. Fields get the
+  // keystrokes as usual, and the scan box handles its own Enter.
+  useEffect(() => {
+    if (isPaymentOpen) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) {
+        buffer = "";
+        return;
+      }
+
+      const now = e.timeStamp;
+      if (now - lastKeyAt > SCAN_MAX_KEY_INTERVAL_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (e.key === "Enter") {
+        if (buffer.length >= SCAN_MIN_LENGTH) {
+          // Don't let the Enter also press whichever item button was clicked last
+          e.preventDefault();
+          e.stopPropagation();
+          addProductBySkuRef.current(buffer);
+        }
+        buffer = "";
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [isPaymentOpen]);
+
+  // A promo code is checked for one client; a different client has to apply it again
+  useEffect(() => {
+    setAppliedPromotion(null);
+  }, [selectedClient, isWalkIn]);
+
+  const applyPromoCode = async () => {
+    if (!promoCodeInput.trim()) return;
+    if (!isWalkIn && !selectedClient) {
+      toast.error("Select a client first");
+      return;
+    }
+    setIsCheckingPromo(true);
+    try {
+      const result = await checkPromoCode({
+        code: promoCodeInput,
+        clientId: isWalkIn ? undefined : selectedClient?.id,
+      });
+      if (result.success) {
+        setAppliedPromotion(result.data);
+        setPromoCodeInput("");
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("Failed to check promo code");
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  };
+
+  const toggleDeposit = (id: string, checked: boolean) => {
+    setAppliedDepositIds((prev) => (checked ? [...prev, id] : prev.filter((d) => d !== id)));
+  };
+
+  // Reset split entries if amount due changes while in split mode (safety net)
+  const prevTotalRef = useRef(amountDue);
   useEffect(() => {
-    if (isSplitMode && prevTotalRef.current !== total) {
-      setSplitAmount(total.toFixed(2));
+    if (isSplitMode && prevTotalRef.current !== amountDue) {
+      setSplitAmount(amountDue.toFixed(2));
       if (splitPayments.length > 0) {
         setSplitPayments([]);
         toast.info("Cart total changed — split payments have been reset.");
       }
     }
-    prevTotalRef.current = total;
-  }, [total, isSplitMode, splitPayments.length]);
+    prevTotalRef.current = amountDue;
+  }, [amountDue, isSplitMode, splitPayments.length]);
 
   // Split payment helpers
   const splitTotal = splitPayments.reduce((sum, p) => sum + p.amount, 0);
-  const splitRemaining = Math.round((total - splitTotal) * 100) / 100;
+  const splitRemaining = Math.round((amountDue - splitTotal) * 100) / 100;
   const isSplitComplete = Math.abs(splitRemaining) < 0.01;
 
+  // Only known clients can run up a balance; tips, gift cards and packages are paid at checkout
+  const canPayLater =
+    !isWalkIn && tipAmount === 0 && !cart.some((item) => item.type === "giftCard" || item.type === "package");
+  const today = format(getNow(timezone), "yyyy-MM-dd");
+  const isPayingLater = isSplitMode && payLaterDue !== null && !isSplitComplete;
+
+  // A gift card cannot pay for another gift card
+  const paymentMethods = giftCardsInCart > 0
+    ? SELECTABLE_PAYMENT_METHODS
+    : [...SELECTABLE_PAYMENT_METHODS, PaymentMethod.GIFT_CARD];
+
+  const resetGiftCardCheck = () => {
+    setGiftCardCode("");
+    setGiftCardCheck(null);
+  };
+
+  const checkGiftCard = async () => {
+    if (!giftCardCode.trim()) return;
+    setIsCheckingGiftCard(true);
+    try {
+      const result = await lookupGiftCard(giftCardCode);
+      if (!result.success) {
+        setGiftCardCheck(null);
+        toast.error(result.error);
+        return;
+      }
+      if (!result.data.redeemable) {
+        setGiftCardCheck(null);
+        toast.error(result.data.reason);
+        return;
+      }
+      if (splitPayments.some((p) => p.giftCardCode === result.data.code)) {
+        setGiftCardCheck(null);
+        toast.error("This gift card is already part of the payment");
+        return;
+      }
+      setGiftCardCheck(result.data);
+      setGiftCardCode(result.data.code);
+      setSplitAmount(Math.min(result.data.balance, splitRemaining).toFixed(2));
+    } finally {
+      setIsCheckingGiftCard(false);
+    }
+  };
+
   const addSplitPayment = () => {
     const parsed = parseFloat(splitAmount);
     if (!parsed || parsed <= 0) {
       toast.error(`Enter a valid amount greater than ${formatCurrency(0, currencyCode)}`);
       return;
     }
-    // Round to cents and clamp to remaining balance
-    const amount = Math.round(Math.min(parsed, splitRemaining) * 100) / 100;
+    const isGiftCard = splitMethod === PaymentMethod.GIFT_CARD;
+    if (isGiftCard && !giftCardCheck) {
+      toast.error("Check the gift card balance first");
+      return;
+    }
+    // Round to cents and clamp to remaining balance (and the gift card balance)
+    const limit = isGiftCard && giftCardCheck ? Math.min(splitRemaining, giftCardCheck.balance) : splitRemaining;
+    const amount = Math.round(Math.min(parsed, limit) * 100) / 100;
     if (amount <= 0) {
       toast.error(`Remaining balance is ${formatCurrency(splitRemaining, currencyCode)} — no more to split`);
       return;
     }
     const nextId = splitIdCounter + 1;
     setSplitIdCounter(nextId);
-    setSplitPayments([...splitPayments, { id: nextId, method: splitMethod, amount }]);
+    setSplitPayments([
+      ...splitPayments,
+      { id: nextId, method: splitMethod, amount, ...(isGiftCard && { giftCardCode: giftCardCheck?.code }) },
+    ]);
+    if (isGiftCard) {
+      resetGiftCardCheck();
+      setSplitMethod(PaymentMethod.CASH);
+    }
     // Auto-fill next amount with remaining, or clear
     const newRemaining = Math.round((splitRemaining - amount) * 100) / 100;
     setSplitAmount(newRemaining > 0 ? newRemaining.toFixed(2) : "");
@@ -310,7 +867,7 @@ export function CheckoutForm({
     setSplitPayments(splitPayments.filter((p) => p.id !== id));
   };
 
-  const submitPayment = async (payments: { method: PaymentMethod; amount: number }[]) => {
+  const submitPayment = async (payments: { method: PaymentMethod; amount: number; giftCardCode?: string }[]) => {
     if (cart.length === 0) {
       toast.error("Cart is empty");
       return;
@@ -357,23 +914,51 @@ export function CheckoutForm({
           serviceId: item.serviceId,
           staffId: item.staffId,
           productId: item.productId,
+          giftCard: item.type === "giftCard" ? { recipientName: item.recipientName } : undefined,
+          servicePackageId: item.servicePackageId,
+          clientPackageId: item.clientPackageId,
+          membershipId: item.membershipId,
           quantity: item.quantity,
           price: item.price,
         })),
         discount,
         discountType,
+        // Only sent once it takes something off, so the sale isn't rejected for an unmet minimum
+        promoCode: promotionDiscount > 0 ? appliedPromotion?.code : undefined,
         payments,
+        depositIds: isWalkIn ? [] : appliedDepositIds,
         redeemPoints: isWalkIn ? 0 : redeemPoints,
+        tip: tipAmount > 0
+          ? {
+              amount: tipAmount,
+              split: effectiveTipSplit,
+              allocations: effectiveTipSplit === "manual" ? tipShares.filter((share) => share.amount > 0) : [],
+            }
+          : undefined,
+        payLater: isPayingLater && payLaterDue ? { dueDate: payLaterDue } : undefined,
+        appointmentIds: checkoutAppointments.map((apt) => apt.id),
       });
 
       if (result.success) {
-        toast.success(`Sale completed! Invoice: ${result.data.invoiceNumber}`);
+        if (isPayingLater && payLaterDue) {
+          toast.success(
+            `Invoice ${result.data.invoiceNumber} issued — ${formatCurrency(splitRemaining, currencyCode)} due by ${format(new Date(`${payLaterDue}T00:00:00`), "MMM d, yyyy")}`
+          );
+        } else {
+          toast.success(`Sale completed! Invoice: ${result.data.invoiceNumber}`);
+        }
         if (result.data.pointsEarned > 0) {
           toast.info(`Client earned ${result.data.pointsEarned} loyalty points!`);
         }
         if (result.data.birthdayBonus > 0) {
           toast.success(`Happy Birthday! ${result.data.birthdayBonus} bonus points awarded!`);
         }
+        if (result.data.giftCardsIssued.length > 0) {
+          toast.success(`Gift card code: ${result.data.giftCardsIssued.join(", ")}`, {
+            description: "Write this on the card before handing it over.",
+            duration: 30000,
+          });
+        }
         setIsPaymentOpen(false);
         router.push(`/dashboard/sales`);
       } else {
@@ -389,16 +974,21 @@ export function CheckoutForm({
 
   const handleSinglePayment = (method: PaymentMethod) => {
     setSubmittingMethod(method);
-    submitPayment([{ method, amount: total }]);
+    submitPayment([{ method, amount: amountDue }]);
   };
 
   const handleSplitComplete = () => {
-    if (!isSplitComplete) return;
-    submitPayment(splitPayments.map(({ method, amount }) => ({ method, amount })));
+    if (!isSplitComplete && !isPayingLater) return;
+    submitPayment(splitPayments.map(({ method, amount, giftCardCode }) => ({ method, amount, giftCardCode })));
   };
 
   // Refresh stock for product cart items before opening payment modal
   const handleProceedToPayment = async () => {
+    // The cart may have shrunk since the points were entered
+    if (!isWalkIn && redeemPoints > maxRedeemablePoints) {
+      toast.error(`At most ${maxRedeemablePoints} points can be redeemed on the services and products in this sale`);
+      return;
+    }
     const productItems = cart.filter((item) => item.type === "product" && item.productId);
     if (productItems.length > 0) {
       const result = await getActiveProducts();
@@ -456,6 +1046,27 @@ export function CheckoutForm({
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            {checkoutAppointments.length > 0 && (
+              <div className="flex items-start gap-2 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm dark:border-blue-900 dark:bg-blue-900/20">
+                <CalendarClock className="h-4 w-4 mt-0.5 text-blue-600 dark:text-blue-400" />
+                <div>
+                  <p className="font-medium">
+                    Checking out {checkoutAppointments.length === 1 ? "appointment" : `${checkoutAppointments.length} appointments`}
+                  </p>
+                  <ul className="text-muted-foreground">
+                    {checkoutAppointments.map((apt) => (
+                      <li key={apt.id}>
+                        {formatInTz(apt.startTime, "h:mm a", timezone)} · {apt.serviceName} with {apt.staffName}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    They are marked completed once the sale goes through.
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Walk-in Toggle */}
             <div className="flex gap-2">
               <Button
@@ -530,6 +1141,12 @@ export function CheckoutForm({
                       {selectedClient.phone || <span className="italic">No phone</span>}
                     </p>
                   </div>
+                  {activeMembership && (
+                    <Badge variant="success" className="ml-2" title={activeMembership.planName}>
+                      <BadgeCheck className="h-3 w-3 mr-1" />
+                      Member
+                    </Badge>
+                  )}
                   {loyaltyProgramEnabled && selectedClient.loyaltyPoints && (
                     <div className="flex items-center gap-1 ml-2">
                       <Badge variant="secondary">
@@ -637,8 +1254,38 @@ export function CheckoutForm({
         {/* Services & Products Tabs */}
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle>Items</CardTitle>
-            <CardDescription>Click an item to add it to the cart</CardDescription>
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+              <div>
+                <CardTitle>Items</CardTitle>
+                <CardDescription>
+                  {products.length > 0
+                    ? "Click an item to add it to the cart, or scan a product barcode"
+                    : "Click an item to add it to the cart"}
+                </CardDescription>
+              </div>
+              {products.length > 0 && (
+                <div className="relative sm:w-56">
+                  {isLookingUpSku ? (
+                    <Loader2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+                  ) : (
+                    <ScanBarcode className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  )}
+                  <Input
+                    placeholder="Scan or enter SKU"
+                    value={skuInput}
+                    onChange={(e) => setSkuInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key !== "Enter") return;
+                      e.preventDefault();
+                      addProductBySku(skuInput);
+                      setSkuInput("");
+                    }}
+                    className="pl-9 font-mono"
+                    aria-label="Product SKU"
+                  />
+                </div>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="services">
@@ -653,6 +1300,16 @@ export function CheckoutForm({
                     Products
                   </TabsTrigger>
                 )}
+                {packages.length > 0 && (
+                  <TabsTrigger value="packages" className="gap-2">
+                    <Layers className="h-4 w-4" />
+                    Packages
+                  </TabsTrigger>
+                )}
+                <TabsTrigger value="giftCards" className="gap-2">
+                  <Gift className="h-4 w-4" />
+                  Gift Cards
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="services">
@@ -733,6 +1390,72 @@ export function CheckoutForm({
                   </div>
                 </TabsContent>
               )}
+
+              {packages.length > 0 && (
+                <TabsContent value="packages">
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {packages.map((pkg) => (
+                      <button
+                        key={pkg.id}
+                        onClick={() => addPackageToCart(pkg)}
+                        className="p-3 border rounded-lg hover:bg-muted hover:border-purple-300 text-left transition-colors"
+                      >
+                        <p className="font-medium text-sm truncate">{pkg.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {pkg.items.map((i) => `${i.sessions} × ${i.serviceName}`).join(", ")}
+                        </p>
+                        <div className="flex items-center justify-between mt-1">
+                          <span className="text-sm text-purple-600 font-semibold">
+                            {formatCurrency(pkg.price, currencyCode)}
+                          </span>
+                          {pkg.validityDays && (
+                            <span className="text-xs text-muted-foreground">{pkg.validityDays} days</span>
+                          )}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-4">
+                    Sessions are added to the client&apos;s account when the sale is paid.
+                  </p>
+                </TabsContent>
+              )}
+
+              <TabsContent value="giftCards">
+                <div className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="giftCardValue">Value</Label>
+                      <Input
+                        id="giftCardValue"
+                        type="number"
+                        min="1"
+                        step="0.01"
+                        value={giftCardValue}
+                        onChange={(e) => setGiftCardValue(e.target.value)}
+                        placeholder="50.00"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="giftCardRecipient">Recipient (optional)</Label>
+                      <Input
+                        id="giftCardRecipient"
+                        value={giftCardRecipient}
+                        onChange={(e) => setGiftCardRecipient(e.target.value)}
+                        maxLength={100}
+                        placeholder="Who it's for"
+                      />
+                    </div>
+                  </div>
+                  <Button type="button" variant="outline" onClick={addGiftCardToCart}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Gift Card
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    A redeemable code is issued when the sale is paid. Gift cards are not taxed until they are spent.
+                  </p>
+                </div>
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
@@ -768,32 +1491,74 @@ export function CheckoutForm({
                               Product
                             </Badge>
                           )}
+                          {item.type === "giftCard" && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0 shrink-0">
+                              Gift Card
+                            </Badge>
+                          )}
+                          {item.type === "package" && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0 shrink-0">
+                              Package
+                            </Badge>
+                          )}
                         </div>
                         {item.staffName && (
                           <p className="text-xs text-muted-foreground truncate">by {item.staffName}</p>
                         )}
+                        {item.serviceId &&
+                          (packagesForService(item.serviceId).length > 0 || hasMembershipCredit(item.serviceId)) && (
+                          <Select
+                            value={item.membershipId ? MEMBERSHIP_CREDIT : item.clientPackageId ?? "none"}
+                            onValueChange={(v) =>
+                              v === MEMBERSHIP_CREDIT
+                                ? applyMembershipCredit(item.id)
+                                : setPackageSession(item.id, v === "none" ? null : v)
+                            }
+                          >
+                            <SelectTrigger className="h-7 text-xs mt-1">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Regular price</SelectItem>
+                              {activeMembership && hasMembershipCredit(item.serviceId) && (
+                                <SelectItem value={MEMBERSHIP_CREDIT}>
+                                  Use membership ({membershipCreditsLeft(item.serviceId, item.id)} left)
+                                </SelectItem>
+                              )}
+                              {packagesForService(item.serviceId).map((pkg) => (
+                                <SelectItem key={pkg.id} value={pkg.id}>
+                                  Use {pkg.name} ({packageSessionsLeft(pkg.id, item.serviceId!, item.id)} left)
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
                         <p className="text-sm font-semibold text-purple-600">
                           {formatCurrency(item.price * item.quantity, currencyCode)}
                         </p>
                       </div>
                       <div className="flex items-center gap-1">
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          className="h-6 w-6"
-                          onClick={() => updateQuantity(item.id, -1)}
-                        >
-                          <Minus className="h-3 w-3" />
-                        </Button>
-                        <span className="w-6 text-center text-sm">{item.quantity}</span>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          className="h-6 w-6"
-                          onClick={() => updateQuantity(item.id, 1)}
-                        >
-                          <Plus className="h-3 w-3" />
-                        </Button>
+                        {item.type !== "giftCard" && item.type !== "package" && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="h-6 w-6"
+                              onClick={() => updateQuantity(item.id, -1)}
+                            >
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                            <span className="w-6 text-center text-sm">{item.quantity}</span>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="h-6 w-6"
+                              onClick={() => updateQuantity(item.id, 1)}
+                            >
+                              <Plus className="h-3 w-3" />
+                            </Button>
+                          </>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -809,6 +1574,67 @@ export function CheckoutForm({
 
                 <Separator />
 
+                {/* Promo Code */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-1">
+                    <Tag className="h-3 w-3" />
+                    Promo Code
+                  </Label>
+                  {appliedPromotion ? (
+                    <div className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm">
+                      <div>
+                        <p className="font-medium">
+                          {appliedPromotion.code}
+                          <span className="font-normal text-muted-foreground"> · {appliedPromotion.name}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {describePromotion(appliedPromotion.terms, (amount) => formatCurrency(amount, currencyCode))}
+                        </p>
+                        {promotionDiscount === 0 && (
+                          <p className="text-xs text-amber-600">
+                            {appliedPromotion.terms.minSpend !== null && (promotionResult?.eligibleSpend ?? 0) > 0
+                              ? `Spend ${formatCurrency(appliedPromotion.terms.minSpend, currencyCode)} on qualifying items to use this code`
+                              : "No items in the cart qualify for this code"}
+                          </p>
+                        )}
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => setAppliedPromotion(null)}
+                        aria-label="Remove promo code"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        value={promoCodeInput}
+                        onChange={(e) => setPromoCodeInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            applyPromoCode();
+                          }
+                        }}
+                        placeholder="Enter code"
+                        className="flex-1"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={applyPromoCode}
+                        disabled={isCheckingPromo || !promoCodeInput.trim()}
+                      >
+                        {isCheckingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
                 {/* Discount */}
                 <div className="space-y-2">
                   <Label className="flex items-center gap-1">
@@ -849,13 +1675,14 @@ export function CheckoutForm({
                       <Input
                         type="number"
                         min="0"
-                        max={selectedClient.loyaltyPoints.balance}
+                        max={Math.min(selectedClient.loyaltyPoints.balance, maxRedeemablePoints)}
                         value={redeemPoints}
                         onChange={(e) =>
                           setRedeemPoints(
                             Math.min(
                               parseInt(e.target.value) || 0,
-                              selectedClient.loyaltyPoints?.balance || 0
+                              selectedClient.loyaltyPoints?.balance || 0,
+                              maxRedeemablePoints
                             )
                           )
                         }
@@ -868,6 +1695,122 @@ export function CheckoutForm({
                   </div>
                 )}
 
+                {/* Booking Deposits */}
+                {!isWalkIn && heldDeposits.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Deposits Paid</Label>
+                    {heldDeposits.map((deposit) => (
+                      <label key={deposit.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={appliedDepositIds.includes(deposit.id)}
+                          onCheckedChange={(checked) => toggleDeposit(deposit.id, checked === true)}
+                        />
+                        <span className="flex-1">
+                          {deposit.serviceName ?? "Deposit"}
+                          {deposit.appointmentStart && (
+                            <span className="text-muted-foreground">
+                              {" "}· {new Date(deposit.appointmentStart).toLocaleDateString()}
+                            </span>
+                          )}
+                        </span>
+                        <span>{formatCurrency(deposit.amount, currencyCode)}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {/* Tip */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-1">
+                    <HandCoins className="h-3 w-3" />
+                    Tip
+                  </Label>
+                  <div className="flex gap-2">
+                    {TIP_PRESETS.map((percent) => (
+                      <Button
+                        key={percent}
+                        type="button"
+                        size="sm"
+                        variant={tipPercent === percent ? "default" : "outline"}
+                        onClick={() => {
+                          setTipPercent(tipPercent === percent ? null : percent);
+                          setCustomTip("");
+                        }}
+                      >
+                        {percent}%
+                      </Button>
+                    ))}
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={tipPercent !== null ? tipAmount.toFixed(2) : customTip}
+                      onChange={(e) => {
+                        if (e.target.value.startsWith("-")) return;
+                        setTipPercent(null);
+                        setCustomTip(e.target.value);
+                      }}
+                      className="flex-1"
+                      placeholder="Amount"
+                      aria-label="Tip amount"
+                    />
+                  </div>
+                  {tipAmount > 0 && serviceTipRecipients.length > 1 && (
+                    <Select value={tipSplit} onValueChange={(v) => setTipSplit(v as TipSplit)}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(TIP_SPLIT_LABELS) as TipSplit[]).map((split) => (
+                          <SelectItem key={split} value={split}>
+                            {TIP_SPLIT_LABELS[split]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {tipAmount > 0 && serviceTipRecipients.length > 1 && (
+                    <div className="space-y-1">
+                      {tipShares.map((share) => (
+                        <div key={share.staffId} className="flex items-center justify-between gap-2 text-xs">
+                          <span className="text-muted-foreground">{staffName(share.staffId)}</span>
+                          {tipSplit === "manual" ? (
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={manualTips[share.staffId] ?? ""}
+                              onChange={(e) => {
+                                if (e.target.value.startsWith("-")) return;
+                                setManualTips((prev) => ({ ...prev, [share.staffId]: e.target.value }));
+                              }}
+                              className="h-7 w-24 text-right"
+                              aria-label={`Tip for ${staffName(share.staffId)}`}
+                            />
+                          ) : (
+                            <span>{formatCurrency(share.amount, currencyCode)}</span>
+                          )}
+                        </div>
+                      ))}
+                      {manualTipsMismatch && (
+                        <p className="text-xs text-destructive">
+                          Shares must add up to {formatCurrency(tipAmount, currencyCode)}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {tipAmount > 0 && serviceTipRecipients.length === 1 && (
+                    <p className="text-xs text-muted-foreground">
+                      Goes to {staffName(serviceTipRecipients[0].staffId)}
+                    </p>
+                  )}
+                  {tipAmount > 0 && serviceTipRecipients.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      No services on this sale — the tip goes to you
+                    </p>
+                  )}
+                </div>
+
                 <Separator />
 
                 {/* Totals */}
@@ -876,6 +1819,18 @@ export function CheckoutForm({
                     <span className="text-muted-foreground">Subtotal</span>
                     <span>{formatCurrency(subtotal, currencyCode)}</span>
                   </div>
+                  {memberDiscount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Member Discount</span>
+                      <span>-{formatCurrency(memberDiscount, currencyCode)}</span>
+                    </div>
+                  )}
+                  {promotionDiscount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Promo ({appliedPromotion?.code})</span>
+                      <span>-{formatCurrency(promotionDiscount, currencyCode)}</span>
+                    </div>
+                  )}
                   {discountAmount > 0 && (
                     <div className="flex justify-between text-green-600">
                       <span>Discount</span>
@@ -888,17 +1843,47 @@ export function CheckoutForm({
                       <span>-{formatCurrency(pointsValue, currencyCode)}</span>
                     </div>
                   )}
-                  {taxRate > 0 && (
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">Tax ({taxRate}%)</span>
-                      <span>{formatCurrency(taxAmount, currencyCode)}</span>
+                  {saleTax.breakdown.map((line) => (
+                    <div
+                      key={`${line.taxClassId ?? ""}-${line.rate}-${line.inclusive}`}
+                      className="flex justify-between"
+                    >
+                      <span className="text-muted-foreground">{taxLineLabel(line)}</span>
+                      <span className={line.inclusive ? "text-muted-foreground" : undefined}>
+                        {formatCurrency(line.amount, currencyCode)}
+                      </span>
                     </div>
-                  )}
+                  ))}
                   <Separator />
                   <div className="flex justify-between text-lg font-bold">
                     <span>Total</span>
                     <span className="text-purple-600">{formatCurrency(total, currencyCode)}</span>
                   </div>
+                  {(depositCredit > 0 || tipAmount > 0) && (
+                    <>
+                      {depositCredit > 0 && (
+                        <div className="flex justify-between text-green-600">
+                          <span>Deposit Credit</span>
+                          <span>-{formatCurrency(depositCredit, currencyCode)}</span>
+                        </div>
+                      )}
+                      {tipAmount > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Tip</span>
+                          <span>{formatCurrency(tipAmount, currencyCode)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between font-semibold">
+                        <span>Amount Due</span>
+                        <span>{formatCurrency(amountDue, currencyCode)}</span>
+                      </div>
+                    </>
+                  )}
+                  {depositsExceedTotal && (
+                    <p className="text-xs text-destructive">
+                      Selected deposits are more than the total. Add items or deselect a deposit.
+                    </p>
+                  )}
                   {loyaltyProgramEnabled && pointsToEarn > 0 && (
                     <div className="flex justify-between text-xs text-amber-600">
                       <span>Points to earn</span>
@@ -913,7 +1898,7 @@ export function CheckoutForm({
             <Button
               className="w-full"
               size="lg"
-              disabled={(!selectedClient && !isWalkIn) || cart.length === 0}
+              disabled={(!selectedClient && !isWalkIn) || cart.length === 0 || depositsExceedTotal || manualTipsMismatch}
               onClick={handleProceedToPayment}
             >
               <CreditCard className="h-4 w-4 mr-2" />
@@ -933,6 +1918,8 @@ export function CheckoutForm({
             setSplitPayments([]);
             setSplitAmount("");
             setSplitMethod(PaymentMethod.CASH);
+            setPayLaterDue(null);
+            resetGiftCardCheck();
           }
         }}
       >
@@ -942,11 +1929,24 @@ export function CheckoutForm({
               {isSplitMode ? "Split Payment" : "Select Payment Method"}
             </DialogTitle>
             <DialogDescription>
-              Total: {formatCurrency(total, currencyCode)}
+              {depositCredit > 0
+                ? `Amount due: ${formatCurrency(amountDue, currencyCode)} (${formatCurrency(depositCredit, currencyCode)} paid by deposit)`
+                : `Total: ${formatCurrency(amountDue, currencyCode)}`}
+              {tipAmount > 0 && ` including ${formatCurrency(tipAmount, currencyCode)} tip`}
             </DialogDescription>
           </DialogHeader>
 
-          {!isSplitMode ? (
+          {amountDue === 0 ? (
+            <DialogFooter>
+              <Button variant="ghost" onClick={() => setIsPaymentOpen(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button onClick={() => submitPayment([])} disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Complete Sale
+              </Button>
+            </DialogFooter>
+          ) : !isSplitMode ? (
             <>
               <div className="grid grid-cols-2 gap-3 py-4">
                 {SELECTABLE_PAYMENT_METHODS.map((method) => (
@@ -970,19 +1970,49 @@ export function CheckoutForm({
                 ))}
               </div>
               <DialogFooter className="flex-row justify-between sm:justify-between">
-                {total > 0 && (
+                {amountDue > 0 && (
                   <Button
                     variant="link"
                     className="text-purple-600 px-0"
                     onClick={() => {
                       setIsSplitMode(true);
-                      setSplitAmount(total.toFixed(2));
+                      setSplitAmount(amountDue.toFixed(2));
                     }}
                     disabled={isSubmitting}
                   >
                     Split Payment
                   </Button>
                 )}
+                {amountDue > 0 && giftCardsInCart === 0 && (
+                  <Button
+                    variant="link"
+                    className="text-purple-600 px-0"
+                    onClick={() => {
+                      setIsSplitMode(true);
+                      setSplitMethod(PaymentMethod.GIFT_CARD);
+                      setSplitAmount(amountDue.toFixed(2));
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    <Gift className="h-4 w-4 mr-1" />
+                    Gift Card
+                  </Button>
+                )}
+                {amountDue > 0 && canPayLater && (
+                  <Button
+                    variant="link"
+                    className="text-purple-600 px-0"
+                    onClick={() => {
+                      setIsSplitMode(true);
+                      setPayLaterDue(format(addDays(getNow(timezone), DEFAULT_PAYMENT_TERMS_DAYS), "yyyy-MM-dd"));
+                      setSplitAmount("");
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    <CalendarClock className="h-4 w-4 mr-1" />
+                    Pay Later
+                  </Button>
+                )}
                 <Button variant="ghost" onClick={() => setIsPaymentOpen(false)} disabled={isSubmitting}>
                   Cancel
                 </Button>
@@ -1003,6 +2033,9 @@ export function CheckoutForm({
                         <span className="text-sm font-medium">
                           {PAYMENT_METHOD_LABELS[payment.method] ?? payment.method}
                         </span>
+                        {payment.giftCardCode && (
+                          <span className="text-xs font-mono text-muted-foreground">{payment.giftCardCode}</span>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         <span className="text-sm font-semibold">
@@ -1029,13 +2062,16 @@ export function CheckoutForm({
                     <Label className="text-xs">Method</Label>
                     <Select
                       value={splitMethod}
-                      onValueChange={(v) => setSplitMethod(v as PaymentMethod)}
+                      onValueChange={(v) => {
+                        setSplitMethod(v as PaymentMethod);
+                        resetGiftCardCheck();
+                      }}
                     >
                       <SelectTrigger className="h-9">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {SELECTABLE_PAYMENT_METHODS.map((m) => (
+                        {paymentMethods.map((m) => (
                           <SelectItem key={m} value={m}>
                             {PAYMENT_METHOD_LABELS[m]}
                           </SelectItem>
@@ -1070,13 +2106,81 @@ export function CheckoutForm({
                 </div>
               )}
 
+              {/* Gift card code and balance check */}
+              {!isSplitComplete && splitMethod === PaymentMethod.GIFT_CARD && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Gift Card Code</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={giftCardCode}
+                      onChange={(e) => {
+                        setGiftCardCode(e.target.value);
+                        setGiftCardCheck(null);
+                      }}
+                      onKeyDown={(e) => e.key === "Enter" && checkGiftCard()}
+                      className="h-9 font-mono uppercase"
+                      placeholder="GC-XXXX-XXXX-XXXX"
+                    />
+                    <Button
+                      variant="outline"
+                      className="h-9"
+                      onClick={checkGiftCard}
+                      disabled={isCheckingGiftCard || !giftCardCode.trim()}
+                    >
+                      {isCheckingGiftCard && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                      Check
+                    </Button>
+                  </div>
+                  {giftCardCheck && (
+                    <p className="text-xs text-green-600">
+                      Balance {formatCurrency(giftCardCheck.balance, currencyCode)}
+                      {giftCardCheck.expiresAt &&
+                        ` · expires ${new Date(giftCardCheck.expiresAt).toLocaleDateString()}`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Pay later: leave the remainder on the client's account */}
+              {canPayLater && !isSplitComplete && (
+                <div className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="pay-later"
+                      checked={payLaterDue !== null}
+                      onCheckedChange={(checked) =>
+                        setPayLaterDue(
+                          checked ? format(addDays(getNow(timezone), DEFAULT_PAYMENT_TERMS_DAYS), "yyyy-MM-dd") : null
+                        )
+                      }
+                    />
+                    <Label htmlFor="pay-later" className="text-sm font-normal">
+                      Put the remaining balance on the client&apos;s account
+                    </Label>
+                  </div>
+                  {payLaterDue !== null && (
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="pay-later-due" className="text-xs shrink-0">Due by</Label>
+                      <Input
+                        id="pay-later-due"
+                        type="date"
+                        min={today}
+                        value={payLaterDue}
+                        onChange={(e) => setPayLaterDue(e.target.value)}
+                        className="h-9"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Remaining bar */}
               <div className={`flex justify-between items-center p-2 rounded-lg text-sm font-medium ${
                 isSplitComplete
                   ? "bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400"
                   : "bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400"
               }`}>
-                <span>Remaining</span>
+                <span>{isPayingLater ? "On account" : "Remaining"}</span>
                 <span>{formatCurrency(Math.max(0, splitRemaining), currencyCode)}</span>
               </div>
 
@@ -1088,6 +2192,8 @@ export function CheckoutForm({
                     setSplitPayments([]);
                     setSplitAmount("");
                     setSplitMethod(PaymentMethod.CASH);
+                    setPayLaterDue(null);
+                    resetGiftCardCheck();
                   }}
                   disabled={isSubmitting}
                 >
@@ -1095,12 +2201,16 @@ export function CheckoutForm({
                 </Button>
                 <Button
                   onClick={handleSplitComplete}
-                  disabled={!isSplitComplete || splitPayments.length === 0 || isSubmitting}
+                  disabled={
+                    isPayingLater
+                      ? !payLaterDue || payLaterDue < today || isSubmitting
+                      : !isSplitComplete || splitPayments.length === 0 || isSubmitting
+                  }
                 >
                   {isSubmitting ? (
                     <Loader2 className="h-4 w-4 animate-spin mr-2" />
                   ) : null}
-                  Complete Payment
+                  {isPayingLater ? "Issue Invoice" : "Complete Payment"}
                 </Button>
               </DialogFooter>
             </div>
@@ -0,0 +1,380 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowLeftRight, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import { PaymentMethod, RefundMethod } from "@prisma/client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { createExchange } from "@/lib/actions/invoice";
+import { getActiveProducts } from "@/lib/actions/product";
+import { getActiveMembership } from "@/lib/actions/membership";
+import { getTaxClasses } from "@/lib/actions/tax-class";
+import { PAYMENT_METHOD_LABELS, SELECTABLE_PAYMENT_METHODS } from "@/lib/constants/payment-methods";
+import { formatCurrency } from "@/lib/utils/currency";
+import { memberLineDiscount } from "@/lib/utils/membership";
+import { REFUND_METHOD_LABELS, RefundBasis } from "@/lib/utils/refund";
+import { computeSaleTax, taxRateFor, TaxClassRate } from "@/lib/utils/tax";
+import {
+  ReturnLine,
+  ReturnLinesPicker,
+  ReturnSelection,
+  selectedReturnAmount,
+  selectedReturnItems,
+} from "@/components/sales/return-lines-picker";
+
+interface ExchangeProduct {
+  id: string;
+  name: string;
+  price: number;
+  stock: number;
+  taxClassId: string | null;
+}
+
+interface ExchangeDialogProps {
+  invoiceId: string;
+  invoiceNumber: string;
+  clientId: string;
+  lines: ReturnLine[];
+  basis: RefundBasis;
+  maxRefundable: number;
+  currencyCode: string;
+  taxRate: number; // Standard rate, for products without a tax class
+}
+
+/**
+ * Return items from a paid sale and sell other products against their value.
+ * The client pays any difference, or gets the balance back.
+ */
+export function ExchangeDialog({
+  invoiceId,
+  invoiceNumber,
+  clientId,
+  lines,
+  basis,
+  maxRefundable,
+  currencyCode,
+  taxRate,
+}: ExchangeDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [products, setProducts] = useState<ExchangeProduct[]>([]);
+  const [productDiscountPercent, setProductDiscountPercent] = useState(0);
+  const [taxClasses, setTaxClasses] = useState<TaxClassRate[]>([]);
+  const [selection, setSelection] = useState<ReturnSelection>({});
+  const [newItems, setNewItems] = useState<{ productId: string; quantity: number }[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(PaymentMethod.CASH);
+  const [method, setMethod] = useState<RefundMethod>(RefundMethod.ORIGINAL);
+  const [reason, setReason] = useState("");
+
+  const handleOpenChange = async (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (!newOpen) {
+      setSelection({});
+      setNewItems([]);
+      setPaymentMethod(PaymentMethod.CASH);
+      setMethod(RefundMethod.ORIGINAL);
+      setReason("");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [productsResult, membershipResult, taxClassesResult] = await Promise.all([
+        getActiveProducts(),
+        getActiveMembership(clientId),
+        getTaxClasses(),
+      ]);
+      if (productsResult.success) {
+        setProducts(productsResult.data.filter((p) => p.stock > 0));
+      } else {
+        toast.error(productsResult.error);
+      }
+      setProductDiscountPercent(
+        membershipResult.success && membershipResult.data ? membershipResult.data.productDiscountPercent : 0
+      );
+      setTaxClasses(taxClassesResult.success ? taxClassesResult.data : []);
+    } catch {
+      toast.error("Failed to load products");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const productMap = new Map(products.map((p) => [p.id, p]));
+  const credit = selectedReturnAmount(lines, selection, basis, maxRefundable);
+
+  // Estimate of the replacement sale, priced the way the server prices it
+  const subtotal = newItems.reduce((sum, item) => sum + (productMap.get(item.productId)?.price ?? 0) * item.quantity, 0);
+  const memberDiscount = Math.round(
+    newItems.reduce(
+      (sum, item) => sum + memberLineDiscount(productMap.get(item.productId)?.price ?? 0, item.quantity, productDiscountPercent),
+      0
+    ) * 100
+  ) / 100;
+  const afterDiscount = Math.max(0, subtotal - memberDiscount);
+  const total = computeSaleTax(
+    newItems.map((item) => {
+      const product = productMap.get(item.productId);
+      return {
+        value: (product?.price ?? 0) * item.quantity,
+        taxRate: taxRateFor(taxClasses.find((c) => c.id === product?.taxClassId) ?? null, taxRate),
+      };
+    }),
+    afterDiscount
+  ).total;
+  const amountDue = Math.max(0, Math.round((total - credit) * 100) / 100);
+  const amountBack = Math.max(0, Math.round((credit - total) * 100) / 100);
+
+  const addProduct = (productId: string) => {
+    setNewItems((items) => [...items, { productId, quantity: 1 }]);
+  };
+
+  const setQuantity = (productId: string, quantity: number) => {
+    const stock = productMap.get(productId)?.stock ?? 1;
+    setNewItems((items) =>
+      items.map((item) =>
+        item.productId === productId ? { ...item, quantity: Math.max(1, Math.min(stock, quantity)) } : item
+      )
+    );
+  };
+
+  const handleSubmit = async () => {
+    const returnItems = selectedReturnItems(selection);
+    if (returnItems.length === 0) {
+      toast.error("Select the items being returned");
+      return;
+    }
+    if (newItems.length === 0) {
+      toast.error("Add the replacement products");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await createExchange({
+        invoiceId,
+        returnItems,
+        newItems,
+        paymentMethod: amountDue > 0 ? paymentMethod : undefined,
+        method,
+        reason: reason || undefined,
+      });
+      if (result.success) {
+        let message = `Exchange completed as ${result.data.invoiceNumber}.`;
+        if (result.data.amountPaid > 0) {
+          message += ` ${formatCurrency(result.data.amountPaid, currencyCode)} collected.`;
+        }
+        if (result.data.storeCreditCode) {
+          message += ` ${formatCurrency(result.data.amountReturned, currencyCode)} issued as store credit on gift card ${result.data.storeCreditCode}.`;
+        } else if (result.data.amountReturned > 0) {
+          message += ` ${formatCurrency(result.data.amountReturned, currencyCode)} refunded to the client.`;
+        }
+        toast.success(message);
+        setOpen(false);
+        router.push(`/dashboard/sales/${result.data.saleId}`);
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const availableProducts = products.filter((p) => !newItems.some((item) => item.productId === p.id));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ArrowLeftRight className="h-4 w-4 mr-2" />
+          Exchange
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exchange Items</DialogTitle>
+          <DialogDescription>
+            Return items from invoice {invoiceNumber} and put their value towards other products.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Items Returned</Label>
+              <ReturnLinesPicker
+                lines={lines}
+                selection={selection}
+                onChange={setSelection}
+                basis={basis}
+                currencyCode={currencyCode}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Replacement Products</Label>
+              {newItems.map((item) => {
+                const product = productMap.get(item.productId);
+                if (!product) return null;
+                return (
+                  <div key={item.productId} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm">
+                      {product.name}
+                      <span className="text-muted-foreground"> · {formatCurrency(product.price, currencyCode)}</span>
+                    </span>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={product.stock}
+                      step={1}
+                      value={item.quantity}
+                      onChange={(e) => setQuantity(item.productId, Math.floor(Number(e.target.value) || 1))}
+                      className="h-8 w-20 text-center"
+                      aria-label={`Quantity of ${product.name}`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setNewItems((items) => items.filter((i) => i.productId !== item.productId))}
+                      aria-label={`Remove ${product.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Select value="" onValueChange={addProduct} disabled={availableProducts.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder={availableProducts.length === 0 ? "No products in stock" : "Add a product..."} />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableProducts.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name} ({formatCurrency(p.price, currencyCode)}, {p.stock} in stock)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="rounded-md border p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Return credit</span>
+                <span>{formatCurrency(credit, currencyCode)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Replacement total{memberDiscount > 0 ? " (member price, incl. tax)" : " (incl. tax)"}
+                </span>
+                <span>{formatCurrency(total, currencyCode)}</span>
+              </div>
+              <Separator className="my-1" />
+              {amountDue > 0 ? (
+                <div className="flex justify-between font-medium">
+                  <span>Client pays</span>
+                  <span>{formatCurrency(amountDue, currencyCode)}</span>
+                </div>
+              ) : (
+                <div className="flex justify-between font-medium">
+                  <span>Back to client</span>
+                  <span>{formatCurrency(amountBack, currencyCode)}</span>
+                </div>
+              )}
+            </div>
+
+            {amountDue > 0 ? (
+              <div className="space-y-2">
+                <Label>Payment Method</Label>
+                <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SELECTABLE_PAYMENT_METHODS.map((m) => (
+                      <SelectItem key={m} value={m}>
+                        {PAYMENT_METHOD_LABELS[m]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : amountBack > 0 && (
+              <div className="space-y-2">
+                <Label>Refund To</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as RefundMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(RefundMethod).map((m) => (
+                      <SelectItem key={m} value={m}>
+                        {REFUND_METHOD_LABELS[m]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="exchange-reason">Reason (Optional)</Label>
+              <Textarea
+                id="exchange-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                placeholder="Enter reason for exchange..."
+                rows={2}
+              />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={isSubmitting || isLoading}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Complete Exchange
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+import { PaymentMethod } from "@prisma/client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { addPaymentToInvoice } from "@/lib/actions/invoice";
+import { PAYMENT_METHOD_LABELS, SELECTABLE_PAYMENT_METHODS } from "@/lib/constants/payment-methods";
+import { formatCurrency, getCurrencyDecimals } from "@/lib/utils/currency";
+import { getCurrencySymbol } from "@/lib/currencies";
+
+interface RecordPaymentDialogProps {
+  invoiceId: string;
+  invoiceNumber: string;
+  balanceDue: number;
+  currencyCode: string;
+}
+
+/** Take payment against an unpaid invoice, e.g. a membership renewal. */
+export function RecordPaymentDialog({
+  invoiceId,
+  invoiceNumber,
+  balanceDue,
+  currencyCode,
+}: RecordPaymentDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState(balanceDue.toString());
+  const [method, setMethod] = useState<PaymentMethod>(PaymentMethod.CASH);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const decimals = getCurrencyDecimals(currencyCode);
+  const step = decimals === 0 ? "1" : Math.pow(10, -decimals).toFixed(decimals);
+  const symbol = getCurrencySymbol(currencyCode);
+  const inputPadding = symbol.length >= 3 ? "pl-12" : "pl-7";
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (!newOpen) {
+      setAmount(balanceDue.toString());
+      setMethod(PaymentMethod.CASH);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      toast.error("Enter an amount");
+      return;
+    }
+    if (value > balanceDue + 0.001) {
+      toast.error(`Payment cannot exceed the balance of ${formatCurrency(balanceDue, currencyCode)}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await addPaymentToInvoice({ invoiceId, amount: value, method });
+      if (result.success) {
+        toast.success(
+          result.data.status === "PAID"
+            ? `Invoice ${invoiceNumber} paid in full`
+            : `Payment of ${formatCurrency(value, currencyCode)} recorded`
+        );
+        handleOpenChange(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch (error) {
+      toast.error("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Wallet className="h-4 w-4 mr-2" />
+          Record Payment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            Invoice {invoiceNumber} has {formatCurrency(balanceDue, currencyCode)} outstanding.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="payment-amount">Amount</Label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                {symbol}
+              </span>
+              <Input
+                id="payment-amount"
+                type="number"
+                step={step}
+                min={step}
+                max={balanceDue}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputPadding}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={(v) => setMethod(v as PaymentMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SELECTABLE_PAYMENT_METHODS.map((m) => (
+                  <SelectItem key={m} value={m}>
+                    {PAYMENT_METHOD_LABELS[m] ?? m}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Record Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
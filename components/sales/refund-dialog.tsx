@@ -12,6 +12,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -25,9 +33,18 @@ import {
   Alert,
   AlertDescription,
 } from "@/components/ui/alert";
+import { RefundMethod } from "@prisma/client";
 import { createRefund } from "@/lib/actions/invoice";
 import { formatCurrency, getCurrencyDecimals } from "@/lib/utils/currency";
 import { getCurrencySymbol } from "@/lib/currencies";
+import { REFUND_METHOD_LABELS, RefundBasis } from "@/lib/utils/refund";
+import {
+  ReturnLine,
+  ReturnLinesPicker,
+  ReturnSelection,
+  selectedReturnAmount,
+  selectedReturnItems,
+} from "@/components/sales/return-lines-picker";
 
 function getMinAmount(currencyCode: string): number {
   const decimals = getCurrencyDecimals(currencyCode);
@@ -57,6 +74,9 @@ interface RefundDialogProps {
   invoiceNumber: string;
   maxRefundable: number;
   currencyCode: string;
+  // Lines that can still be returned; refunds are by amount only when empty
+  lines: ReturnLine[];
+  basis: RefundBasis;
 }
 
 export function RefundDialog({
@@ -64,10 +84,15 @@ export function RefundDialog({
   invoiceNumber,
   maxRefundable,
   currencyCode,
+  lines,
+  basis,
 }: RefundDialogProps) {
   const router = useRouter();
   const [open, setOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mode, setMode] = useState<"items" | "amount">(lines.length > 0 ? "items" : "amount");
+  const [selection, setSelection] = useState<ReturnSelection>({});
+  const [method, setMethod] = useState<RefundMethod>(RefundMethod.ORIGINAL);
 
   const refundSchema = useMemo(() => createRefundSchema(currencyCode), [currencyCode]);
   type RefundFormData = z.infer<typeof refundSchema>;
@@ -84,6 +109,7 @@ export function RefundDialog({
     reset,
     watch,
     setValue,
+    getValues,
     formState: { errors },
   } = useForm<RefundFormData>({
     resolver: zodResolver(refundSchema),
@@ -93,31 +119,32 @@ export function RefundDialog({
     },
   });
 
-  const currentAmount = watch("amount") || 0;
+  const itemsAmount = selectedReturnAmount(lines, selection, basis, maxRefundable);
+  const currentAmount = mode === "items" ? itemsAmount : watch("amount") || 0;
   const isFullRefund = currentAmount > maxRefundable - minAmount;
 
-  const onSubmit = async (data: RefundFormData) => {
-    if (data.amount > maxRefundable) {
-      toast.error(`Refund amount cannot exceed ${formatCurrency(maxRefundable, currencyCode)}`);
-      return;
-    }
-
+  const submitRefund = async (input: Parameters<typeof createRefund>[0]) => {
     setIsSubmitting(true);
 
     try {
-      const result = await createRefund({
-        invoiceId,
-        amount: data.amount,
-        reason: data.reason || undefined,
-      });
+      const result = await createRefund(input);
 
       if (result.success) {
-        const message = result.data.pointsReversed > 0
-          ? `Refund of ${formatCurrency(data.amount, currencyCode)} processed. ${result.data.pointsReversed} loyalty points reversed.`
-          : `Refund of ${formatCurrency(data.amount, currencyCode)} processed successfully.`;
+        const amount = formatCurrency(result.data.amount, currencyCode);
+        let message = result.data.pointsReversed > 0
+          ? `Refund of ${amount} processed. ${result.data.pointsReversed} loyalty points reversed.`
+          : `Refund of ${amount} processed successfully.`;
+        if (result.data.giftCardRestored > 0) {
+          message += ` ${formatCurrency(result.data.giftCardRestored, currencyCode)} returned to gift card.`;
+        }
+        if (result.data.cashRefunded > 0) {
+          message += ` Pay back ${formatCurrency(result.data.cashRefunded, currencyCode)} in cash from the drawer.`;
+        }
+        if (result.data.storeCreditCode) {
+          message += ` Store credit issued on gift card ${result.data.storeCreditCode}.`;
+        }
         toast.success(message);
-        setOpen(false);
-        reset();
+        handleOpenChange(false);
         router.refresh();
       } else {
         toast.error(result.error);
@@ -129,6 +156,41 @@ export function RefundDialog({
     }
   };
 
+  const onSubmit = async (data: RefundFormData) => {
+    if (data.amount > maxRefundable) {
+      toast.error(`Refund amount cannot exceed ${formatCurrency(maxRefundable, currencyCode)}`);
+      return;
+    }
+
+    await submitRefund({
+      invoiceId,
+      amount: data.amount,
+      method,
+      reason: data.reason || undefined,
+    });
+  };
+
+  const onSubmitItems = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = selectedReturnItems(selection);
+    if (items.length === 0) {
+      toast.error("Select the items to refund");
+      return;
+    }
+    const reason = getValues("reason");
+    if (reason && reason.length > 500) {
+      toast.error("Reason must be less than 500 characters");
+      return;
+    }
+
+    await submitRefund({
+      invoiceId,
+      items,
+      method,
+      reason: reason || undefined,
+    });
+  };
+
   const handleOpenChange = (newOpen: boolean) => {
     setOpen(newOpen);
     if (!newOpen) {
@@ -136,6 +198,9 @@ export function RefundDialog({
         amount: maxRefundable,
         reason: "",
       });
+      setMode(lines.length > 0 ? "items" : "amount");
+      setSelection({});
+      setMethod(RefundMethod.ORIGINAL);
     }
   };
 
@@ -143,6 +208,46 @@ export function RefundDialog({
     setValue("amount", maxRefundable);
   };
 
+  const amountField = (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="amount">Refund Amount</Label>
+        <Button
+          type="button"
+          variant="link"
+          size="sm"
+          className="h-auto p-0 text-xs"
+          onClick={handleFullRefund}
+        >
+          Full refund
+        </Button>
+      </div>
+      <div className="relative">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+          {symbol}
+        </span>
+        <Input
+          id="amount"
+          type="number"
+          step={stepValue}
+          min={stepValue}
+          max={maxRefundable}
+          {...register("amount", { valueAsNumber: true })}
+          className={inputPadding}
+          placeholder={placeholder}
+        />
+      </div>
+      {errors.amount && (
+        <p className="text-sm text-destructive">{errors.amount.message}</p>
+      )}
+      {isFullRefund && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          This will be a full refund and will mark the invoice as refunded.
+        </p>
+      )}
+    </div>
+  );
+
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
@@ -151,14 +256,14 @@ export function RefundDialog({
           Issue Refund
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className={lines.length > 0 ? "sm:max-w-2xl max-h-[90vh] overflow-y-auto" : "sm:max-w-md"}>
         <DialogHeader>
           <DialogTitle>Issue Refund</DialogTitle>
           <DialogDescription>
             Process a refund for invoice {invoiceNumber}. This action cannot be undone.
           </DialogDescription>
         </DialogHeader>
-        <form onSubmit={handleSubmit(onSubmit)}>
+        <form onSubmit={mode === "items" ? onSubmitItems : handleSubmit(onSubmit)}>
           <div className="space-y-4 py-4">
             <Alert>
               <AlertDescription>
@@ -166,40 +271,55 @@ export function RefundDialog({
               </AlertDescription>
             </Alert>
 
+            {lines.length > 0 ? (
+              <Tabs value={mode} onValueChange={(value) => setMode(value as "items" | "amount")}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="items">By item</TabsTrigger>
+                  <TabsTrigger value="amount">By amount</TabsTrigger>
+                </TabsList>
+                <TabsContent value="items" className="space-y-2">
+                  <ReturnLinesPicker
+                    lines={lines}
+                    selection={selection}
+                    onChange={setSelection}
+                    basis={basis}
+                    currencyCode={currencyCode}
+                  />
+                  <div className="flex justify-between text-sm font-medium">
+                    <span>Refund total</span>
+                    <span>{formatCurrency(itemsAmount, currencyCode)}</span>
+                  </div>
+                  {isFullRefund && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400">
+                      This will be a full refund and will mark the invoice as refunded.
+                    </p>
+                  )}
+                </TabsContent>
+                <TabsContent value="amount">
+                  {amountField}
+                </TabsContent>
+              </Tabs>
+            ) : (
+              amountField
+            )}
+
             <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="amount">Refund Amount</Label>
-                <Button
-                  type="button"
-                  variant="link"
-                  size="sm"
-                  className="h-auto p-0 text-xs"
-                  onClick={handleFullRefund}
-                >
-                  Full refund
-                </Button>
-              </div>
-              <div className="relative">
-                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
-                  {symbol}
-                </span>
-                <Input
-                  id="amount"
-                  type="number"
-                  step={stepValue}
-                  min={stepValue}
-                  max={maxRefundable}
-                  {...register("amount", { valueAsNumber: true })}
-                  className={inputPadding}
-                  placeholder={placeholder}
-                />
-              </div>
-              {errors.amount && (
-                <p className="text-sm text-destructive">{errors.amount.message}</p>
-              )}
-              {isFullRefund && (
-                <p className="text-xs text-amber-600 dark:text-amber-400">
-                  This will be a full refund and will mark the invoice as refunded.
+              <Label>Refund To</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as RefundMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(RefundMethod).map((m) => (
+                    <SelectItem key={m} value={m}>
+                      {REFUND_METHOD_LABELS[m]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {method === RefundMethod.STORE_CREDIT && (
+                <p className="text-xs text-muted-foreground">
+                  The client receives a gift card for the refund amount.
                 </p>
               )}
             </div>
@@ -219,7 +339,7 @@ export function RefundDialog({
 
             <Alert variant="destructive" className="bg-red-50 dark:bg-red-950 border-red-200 dark:border-red-800">
               <AlertDescription className="text-red-800 dark:text-red-200">
-                Issuing a refund will also reverse any loyalty points earned from this sale proportionally.
+                Issuing a refund will also reverse the loyalty points earned on the refunded items or amount.
               </AlertDescription>
             </Alert>
           </div>
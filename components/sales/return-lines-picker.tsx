@@ -0,0 +1,122 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency } from "@/lib/utils/currency";
+import { lineRefundAmount, RefundBasis } from "@/lib/utils/refund";
+
+export interface ReturnLine {
+  id: string;
+  name: string;
+  unitPrice: number;
+  unitPaid: number | null; // Tax included, for lines invoiced with per-line tax
+  returnable: number; // Units not yet refunded
+  isProduct: boolean;
+}
+
+export type ReturnSelection = Record<string, { quantity: number; restock: boolean }>;
+
+/** Selected lines as refund items, skipping any set to zero. */
+export function selectedReturnItems(selection: ReturnSelection) {
+  return Object.entries(selection)
+    .filter(([, s]) => s.quantity > 0)
+    .map(([saleItemId, s]) => ({ saleItemId, quantity: s.quantity, restock: s.restock }));
+}
+
+/** Refund value of the selected lines, capped at what is left on the invoice. */
+export function selectedReturnAmount(
+  lines: ReturnLine[],
+  selection: ReturnSelection,
+  basis: RefundBasis,
+  maxRefundable: number
+): number {
+  const total = lines.reduce(
+    (sum, line) => sum + lineRefundAmount(line.unitPrice, selection[line.id]?.quantity ?? 0, basis, line.unitPaid),
+    0
+  );
+  return Math.round(Math.min(total, maxRefundable) * 100) / 100;
+}
+
+interface ReturnLinesPickerProps {
+  lines: ReturnLine[];
+  selection: ReturnSelection;
+  onChange: (selection: ReturnSelection) => void;
+  basis: RefundBasis;
+  currencyCode: string;
+}
+
+/** Quantity to return for each refundable sale line, and whether products go back on the shelf. */
+export function ReturnLinesPicker({ lines, selection, onChange, basis, currencyCode }: ReturnLinesPickerProps) {
+  const update = (id: string, change: Partial<{ quantity: number; restock: boolean }>) => {
+    const current = selection[id] ?? { quantity: 0, restock: true };
+    onChange({ ...selection, [id]: { ...current, ...change } });
+  };
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead className="w-24 text-center">Return</TableHead>
+            <TableHead className="w-20 text-center">Restock</TableHead>
+            <TableHead className="text-right">Refund</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.map((line) => {
+            const selected = selection[line.id] ?? { quantity: 0, restock: true };
+            return (
+              <TableRow key={line.id}>
+                <TableCell>
+                  <div className="font-medium">{line.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {line.returnable} left · {formatCurrency(line.unitPrice, currencyCode)} each
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={line.returnable}
+                    step={1}
+                    value={selected.quantity}
+                    onChange={(e) => {
+                      const quantity = Math.floor(Number(e.target.value) || 0);
+                      update(line.id, { quantity: Math.max(0, Math.min(line.returnable, quantity)) });
+                    }}
+                    className="h-8 text-center"
+                    aria-label={`Quantity of ${line.name} to return`}
+                  />
+                </TableCell>
+                <TableCell className="text-center">
+                  {line.isProduct ? (
+                    <Checkbox
+                      checked={selected.restock}
+                      onCheckedChange={(checked) => update(line.id, { restock: checked === true })}
+                      disabled={selected.quantity === 0}
+                      aria-label={`Put ${line.name} back into stock`}
+                    />
+                  ) : (
+                    <span className="text-muted-foreground">-</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(lineRefundAmount(line.unitPrice, selected.quantity, basis, line.unitPaid), currencyCode)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
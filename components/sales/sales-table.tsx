@@ -13,6 +13,7 @@ import {
   Loader2,
   Calendar,
   DollarSign,
+  HandCoins,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -41,6 +42,7 @@ interface SalesTableProps {
   timezone: string;
   todaysSalesCount: number;
   todaysRevenue: number;
+  todaysTips: number;
   fetchSales: (params: {
     query?: string;
     page?: number;
@@ -67,6 +69,7 @@ export function SalesTable({
   timezone,
   todaysSalesCount,
   todaysRevenue,
+  todaysTips,
   fetchSales,
 }: SalesTableProps) {
   const router = useRouter();
@@ -196,6 +199,17 @@ export function SalesTable({
             </div>
           </CardContent>
         </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center space-x-2">
+              <HandCoins className="h-5 w-5 text-amber-600" />
+              <div>
+                <p className="text-sm font-medium">Today&apos;s Tips</p>
+                <p className="text-2xl font-bold">{formatCurrency(todaysTips, currencyCode)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Search */}
@@ -310,7 +324,7 @@ export function SalesTable({
                       <div className="max-w-[150px]">
                         {sale.items.slice(0, 2).map((item, idx) => (
                           <p key={idx} className="text-sm truncate">
-                            {item.service?.name || item.product?.name || "Unknown"}
+                            {item.service?.name || item.product?.name || item.description || "Unknown"}
                           </p>
                         ))}
                         {sale.items.length > 2 && (
@@ -330,9 +344,9 @@ export function SalesTable({
                         <p className="font-semibold text-purple-600">
                           {formatCurrency(Number(sale.finalAmount), currencyCode)}
                         </p>
-                        {Number(sale.discount) > 0 && (
+                        {Number(sale.discount) + Number(sale.memberDiscount) + Number(sale.promotionDiscount) > 0 && (
                           <p className="text-xs text-green-600">
-                            -{formatCurrency(Number(sale.discount), currencyCode)} discount
+                            -{formatCurrency(Number(sale.discount) + Number(sale.memberDiscount) + Number(sale.promotionDiscount), currencyCode)} discount
                           </p>
                         )}
                       </div>
@@ -0,0 +1,410 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { CalendarX, CalendarClock, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { createHoliday, deleteHoliday, HolidayListItem } from "@/lib/actions/holiday";
+import {
+  setScheduleOverride,
+  deleteScheduleOverride,
+  ScheduleOverrideListItem,
+} from "@/lib/actions/schedule-override";
+import { formatDateOnly } from "@/lib/utils/timezone";
+
+interface StaffOption {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface ScheduleExceptionsPanelProps {
+  holidays: HolidayListItem[];
+  overrides: ScheduleOverrideListItem[];
+  staff: StaffOption[];
+  canManage: boolean;
+  canManageOrganization: boolean;
+  today: string; // yyyy-MM-dd in the salon timezone
+}
+
+function formatTime(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  const period = h >= 12 ? "PM" : "AM";
+  const hour12 = h === 0 ? 12 : h > 12 ? h - 12 : h;
+  return `${hour12}:${m.toString().padStart(2, "0")} ${period}`;
+}
+
+export function ScheduleExceptionsPanel({
+  holidays,
+  overrides,
+  staff,
+  canManage,
+  canManageOrganization,
+  today,
+}: ScheduleExceptionsPanelProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Holiday form state
+  const [showHoliday, setShowHoliday] = useState(false);
+  const [holidayDate, setHolidayDate] = useState(today);
+  const [holidayName, setHolidayName] = useState("");
+  const [closedAllDay, setClosedAllDay] = useState(true);
+  const [openTime, setOpenTime] = useState("09:00");
+  const [closeTime, setCloseTime] = useState("14:00");
+  const [appliesToOrganization, setAppliesToOrganization] = useState(false);
+
+  // Override form state
+  const [showOverride, setShowOverride] = useState(false);
+  const [overrideStaffId, setOverrideStaffId] = useState("");
+  const [overrideDate, setOverrideDate] = useState(today);
+  const [isAvailable, setIsAvailable] = useState(true);
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("17:00");
+  const [reason, setReason] = useState("");
+
+  const openHolidayDialog = () => {
+    setHolidayDate(today);
+    setHolidayName("");
+    setClosedAllDay(true);
+    setOpenTime("09:00");
+    setCloseTime("14:00");
+    setAppliesToOrganization(false);
+    setShowHoliday(true);
+  };
+
+  const openOverrideDialog = () => {
+    setOverrideStaffId("");
+    setOverrideDate(today);
+    setIsAvailable(true);
+    setStartTime("09:00");
+    setEndTime("17:00");
+    setReason("");
+    setShowOverride(true);
+  };
+
+  const handleSaveHoliday = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await createHoliday({
+        date: holidayDate,
+        name: holidayName,
+        closedAllDay,
+        openTime,
+        closeTime,
+        appliesToOrganization,
+      });
+      if (result.success) {
+        toast.success("Holiday added");
+        setShowHoliday(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSaveOverride = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await setScheduleOverride({
+        staffId: overrideStaffId,
+        date: overrideDate,
+        isAvailable,
+        startTime,
+        endTime,
+        reason,
+      });
+      if (result.success) {
+        toast.success("Schedule override saved");
+        setShowOverride(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteHoliday = async (id: string) => {
+    const result = await deleteHoliday(id);
+    if (result.success) {
+      toast.success("Holiday removed");
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleDeleteOverride = async (id: string) => {
+    const result = await deleteScheduleOverride(id);
+    if (result.success) {
+      toast.success("Schedule override removed");
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const upcomingHolidays = holidays.filter((h) => formatDateOnly(h.date, "yyyy-MM-dd") >= today);
+  const upcomingOverrides = overrides.filter((o) => formatDateOnly(o.date, "yyyy-MM-dd") >= today);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Holidays */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Holidays &amp; Closures</CardTitle>
+            <CardDescription>Days the salon is closed or open reduced hours</CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={openHolidayDialog}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Holiday
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {upcomingHolidays.length === 0 ? (
+            <div className="text-center py-6">
+              <CalendarX className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No upcoming holidays</p>
+            </div>
+          ) : (
+            upcomingHolidays.map((holiday) => (
+              <div key={holiday.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <p className="font-medium text-sm">
+                    {holiday.name}
+                    {holiday.appliesToOrganization && (
+                      <Badge variant="outline" className="ml-2">All branches</Badge>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDateOnly(holiday.date, "EEE, MMM d, yyyy")} &middot;{" "}
+                    {holiday.openTime && holiday.closeTime
+                      ? `Open ${formatTime(holiday.openTime)} - ${formatTime(holiday.closeTime)}`
+                      : "Closed"}
+                  </p>
+                </div>
+                {canManage && (!holiday.appliesToOrganization || canManageOrganization) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleDeleteHoliday(holiday.id)}
+                    title="Remove holiday"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Date overrides */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Date Overrides</CardTitle>
+            <CardDescription>One-off changes to a staff member&apos;s weekly hours</CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={openOverrideDialog}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Override
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {upcomingOverrides.length === 0 ? (
+            <div className="text-center py-6">
+              <CalendarClock className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No upcoming overrides</p>
+            </div>
+          ) : (
+            upcomingOverrides.map((override) => (
+              <div key={override.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <p className="font-medium text-sm">
+                    {override.staff.firstName} {override.staff.lastName}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDateOnly(override.date, "EEE, MMM d, yyyy")} &middot;{" "}
+                    {override.isAvailable && override.startTime && override.endTime
+                      ? `${formatTime(override.startTime)} - ${formatTime(override.endTime)}`
+                      : "Off"}
+                  </p>
+                  {override.reason && <p className="text-xs text-muted-foreground italic">{override.reason}</p>}
+                </div>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => handleDeleteOverride(override.id)}
+                    title="Remove override"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Holiday Dialog */}
+      <Dialog open={showHoliday} onOpenChange={setShowHoliday}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Holiday</DialogTitle>
+            <DialogDescription>
+              Online booking and new appointments are blocked while the salon is closed
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Date</Label>
+                <Input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={holidayName}
+                  onChange={(e) => setHolidayName(e.target.value)}
+                  placeholder="e.g. Christmas Eve"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Closed all day</Label>
+              <Switch checked={closedAllDay} onCheckedChange={setClosedAllDay} />
+            </div>
+            {!closedAllDay && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Opens</Label>
+                  <Input type="time" value={openTime} onChange={(e) => setOpenTime(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Closes</Label>
+                  <Input type="time" value={closeTime} onChange={(e) => setCloseTime(e.target.value)} />
+                </div>
+              </div>
+            )}
+            {canManageOrganization && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Apply to all branches</Label>
+                  <p className="text-xs text-muted-foreground">Closes every salon in the organization</p>
+                </div>
+                <Switch checked={appliesToOrganization} onCheckedChange={setAppliesToOrganization} />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowHoliday(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveHoliday} disabled={!holidayName.trim() || isSubmitting}>
+              {isSubmitting ? "Saving..." : "Add Holiday"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Override Dialog */}
+      <Dialog open={showOverride} onOpenChange={setShowOverride}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Schedule Override</DialogTitle>
+            <DialogDescription>
+              Replaces the staff member&apos;s weekly shifts on this date
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Staff Member</Label>
+                <Select value={overrideStaffId} onValueChange={setOverrideStaffId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select staff" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {staff.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.firstName} {s.lastName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Date</Label>
+                <Input type="date" value={overrideDate} onChange={(e) => setOverrideDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Working this day</Label>
+              <Switch checked={isAvailable} onCheckedChange={setIsAvailable} />
+            </div>
+            {isAvailable && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Start Time</Label>
+                  <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>End Time</Label>
+                  <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Reason (optional)</Label>
+              <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Covering Sunday shift" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowOverride(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveOverride} disabled={!overrideStaffId || isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save Override"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
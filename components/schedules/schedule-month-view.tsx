@@ -10,6 +10,10 @@ import { ShiftType, Role } from "@prisma/client";
 import { toast } from "sonner";
 
 import { reassignSchedule } from "@/lib/actions/schedule";
+import { TimeOffListItem } from "@/lib/actions/time-off";
+import { HolidayListItem } from "@/lib/actions/holiday";
+import { ScheduleOverrideListItem } from "@/lib/actions/schedule-override";
+import { formatDateOnly } from "@/lib/utils/timezone";
 
 const DAY_NAMES = [
   "Sunday",
@@ -42,6 +46,9 @@ interface StaffWithSchedules {
 interface ScheduleMonthViewProps {
   staffWithSchedules: StaffWithSchedules[];
   canManage: boolean;
+  timeOff?: TimeOffListItem[];
+  holidays?: HolidayListItem[];
+  overrides?: ScheduleOverrideListItem[];
   onEditSchedule?: (staffId: string, dayOfWeek: number, schedule?: Schedule) => void;
 }
 
@@ -59,9 +66,27 @@ const SHIFT_BG_COLORS: Record<ShiftType, string> = {
   SPLIT: "#f97316",
 };
 
+const HOLIDAY_COLOR = "#6b7280";
+const OVERRIDE_COLOR = "#14b8a6";
+
+const TIME_OFF_COLORS = {
+  APPROVED: "#ef4444",
+  PENDING: "#f59e0b",
+};
+
+// FullCalendar all-day end dates are exclusive, so leave ends the day after its last day
+function dayAfter(date: Date): string {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
 export function ScheduleMonthView({
   staffWithSchedules,
   canManage,
+  timeOff = [],
+  holidays = [],
+  overrides = [],
   onEditSchedule,
 }: ScheduleMonthViewProps) {
   const router = useRouter();
@@ -98,6 +123,26 @@ export function ScheduleMonthView({
       };
     }[] = [];
 
+    // Approved leave, closures and date overrides replace the regular shifts on those days
+    const closedDays = new Set(
+      holidays
+        .filter((h) => !h.openTime || !h.closeTime)
+        .map((h) => formatDateOnly(h.date, "yyyy-MM-dd"))
+    );
+    const overriddenDays = new Set(
+      overrides.map((o) => `${o.staffId}:${formatDateOnly(o.date, "yyyy-MM-dd")}`)
+    );
+    const isReplaced = (staffId: string, dateStr: string) =>
+      closedDays.has(dateStr) ||
+      overriddenDays.has(`${staffId}:${dateStr}`) ||
+      timeOff.some(
+        (t) =>
+          t.staffId === staffId &&
+          t.status === "APPROVED" &&
+          formatDateOnly(t.startDate, "yyyy-MM-dd") <= dateStr &&
+          formatDateOnly(t.endDate, "yyyy-MM-dd") >= dateStr
+      );
+
     for (const staff of staffWithSchedules) {
       for (const schedule of staff.schedules) {
         // Find all dates within the window that match this dayOfWeek
@@ -114,6 +159,10 @@ export function ScheduleMonthView({
             String(current.getMonth() + 1).padStart(2, "0"),
             String(current.getDate()).padStart(2, "0"),
           ].join("-");
+          if (isReplaced(staff.id, dateStr)) {
+            current.setDate(current.getDate() + 7);
+            continue;
+          }
           const bgColor = schedule.isAvailable
             ? SHIFT_BG_COLORS[schedule.shiftType]
             : "#9ca3af";
@@ -142,7 +191,63 @@ export function ScheduleMonthView({
     }
 
     return result;
-  }, [staffWithSchedules, canManage, visibleRange]);
+  }, [staffWithSchedules, canManage, visibleRange, timeOff, holidays, overrides]);
+
+  const dateEvents = useMemo(() => {
+    const holidayEvents = holidays.map((h) => ({
+      id: `holiday-${h.id}`,
+      title: h.openTime && h.closeTime
+        ? `${h.name} (${formatTime(h.openTime)}-${formatTime(h.closeTime)})`
+        : `${h.name} - Closed`,
+      start: formatDateOnly(h.date, "yyyy-MM-dd"),
+      allDay: true,
+      backgroundColor: HOLIDAY_COLOR,
+      borderColor: HOLIDAY_COLOR,
+      textColor: "#ffffff",
+      editable: false,
+      extendedProps: { readOnly: true },
+    }));
+
+    const overrideEvents = overrides.map((o) => {
+      const dateStr = formatDateOnly(o.date, "yyyy-MM-dd");
+      const name = `${o.staff.firstName} ${o.staff.lastName}`;
+      const working = o.isAvailable && o.startTime && o.endTime;
+      return {
+        id: `override-${o.id}`,
+        title: working ? `${name} (${formatTime(o.startTime!)}-${formatTime(o.endTime!)})` : `${name} - Off`,
+        start: working ? `${dateStr}T${o.startTime}:00` : dateStr,
+        ...(working && { end: `${dateStr}T${o.endTime}:00` }),
+        allDay: !working,
+        backgroundColor: working ? OVERRIDE_COLOR : "#9ca3af",
+        borderColor: OVERRIDE_COLOR,
+        textColor: "#ffffff",
+        editable: false,
+        extendedProps: { readOnly: true },
+      };
+    });
+
+    return [...holidayEvents, ...overrideEvents];
+  }, [holidays, overrides]);
+
+  const timeOffEvents = useMemo(
+    () =>
+      timeOff.map((t) => {
+        const status = t.status === "PENDING" ? "PENDING" : "APPROVED";
+        return {
+          id: `time-off-${t.id}`,
+          title: `${t.staff.firstName} ${t.staff.lastName} - ${status === "PENDING" ? "Leave requested" : "Time off"}`,
+          start: formatDateOnly(t.startDate, "yyyy-MM-dd"),
+          end: dayAfter(t.endDate),
+          allDay: true,
+          backgroundColor: TIME_OFF_COLORS[status],
+          borderColor: TIME_OFF_COLORS[status],
+          textColor: "#ffffff",
+          editable: false,
+          extendedProps: { readOnly: true },
+        };
+      }),
+    [timeOff]
+  );
 
   // Handle drag-and-drop: reassign schedule to a new day of week
   const handleEventDrop = useCallback(
@@ -192,7 +297,7 @@ export function ScheduleMonthView({
   // Handle click on event to edit
   const handleEventClick = useCallback(
     (arg: EventClickArg) => {
-      if (!canManage || !onEditSchedule) return;
+      if (!canManage || !onEditSchedule || arg.event.extendedProps.readOnly) return;
       const { staffId, dayOfWeek, schedule } = arg.event.extendedProps;
       onEditSchedule(staffId, dayOfWeek, schedule);
     },
@@ -271,7 +376,7 @@ export function ScheduleMonthView({
           center: "title",
           right: "",
         }}
-        events={events}
+        events={[...dateEvents, ...timeOffEvents, ...events]}
         datesSet={handleDatesSet}
         eventClick={handleEventClick}
         eventDrop={handleEventDrop}
@@ -7,6 +7,11 @@ import { CalendarDays, CalendarRange } from "lucide-react";
 import { ScheduleWeekView } from "./schedule-week-view";
 import { ScheduleMonthView } from "./schedule-month-view";
 import { SchedulePDFExportButton } from "./schedule-pdf";
+import { TimeOffPanel } from "./time-off-panel";
+import { ScheduleExceptionsPanel } from "./schedule-exceptions-panel";
+import { TimeOffListItem } from "@/lib/actions/time-off";
+import { HolidayListItem } from "@/lib/actions/holiday";
+import { ScheduleOverrideListItem } from "@/lib/actions/schedule-override";
 
 interface Schedule {
   id: string;
@@ -29,13 +34,27 @@ interface StaffWithSchedules {
 interface SchedulePageClientProps {
   staffWithSchedules: StaffWithSchedules[];
   canManage: boolean;
+  canManageOrganization: boolean;
   salonName: string;
+  timeOff: TimeOffListItem[];
+  holidays: HolidayListItem[];
+  overrides: ScheduleOverrideListItem[];
+  currentUserId: string;
+  today: string;
+  timezone: string;
 }
 
 export function SchedulePageClient({
   staffWithSchedules,
   canManage,
+  canManageOrganization,
   salonName,
+  timeOff,
+  holidays,
+  overrides,
+  currentUserId,
+  today,
+  timezone,
 }: SchedulePageClientProps) {
   const [view, setView] = useState<string>("week");
 
@@ -72,6 +91,10 @@ export function SchedulePageClient({
           <ScheduleWeekView
             staffWithSchedules={staffWithSchedules}
             canManage={canManage}
+            timeOff={timeOff}
+            holidays={holidays}
+            overrides={overrides}
+            today={today}
           />
         </TabsContent>
 
@@ -79,9 +102,30 @@ export function SchedulePageClient({
           <ScheduleMonthView
             staffWithSchedules={staffWithSchedules}
             canManage={canManage}
+            timeOff={timeOff}
+            holidays={holidays}
+            overrides={overrides}
           />
         </TabsContent>
       </Tabs>
+
+      <TimeOffPanel
+        timeOff={timeOff}
+        staff={staffWithSchedules}
+        canManage={canManage}
+        currentUserId={currentUserId}
+        today={today}
+        timezone={timezone}
+      />
+
+      <ScheduleExceptionsPanel
+        holidays={holidays}
+        overrides={overrides}
+        staff={staffWithSchedules}
+        canManage={canManage}
+        canManageOrganization={canManageOrganization}
+        today={today}
+      />
     </div>
   );
 }
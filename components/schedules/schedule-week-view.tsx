@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   Clock,
@@ -53,6 +53,10 @@ import {
   toggleScheduleAvailability,
   copySchedule,
 } from "@/lib/actions/schedule";
+import { TimeOffListItem } from "@/lib/actions/time-off";
+import { HolidayListItem } from "@/lib/actions/holiday";
+import { ScheduleOverrideListItem } from "@/lib/actions/schedule-override";
+import { formatDateOnly } from "@/lib/utils/timezone";
 
 const DAY_NAMES = [
   "Sunday",
@@ -85,6 +89,10 @@ interface StaffWithSchedules {
 interface ScheduleWeekViewProps {
   staffWithSchedules: StaffWithSchedules[];
   canManage: boolean;
+  timeOff?: TimeOffListItem[];
+  holidays?: HolidayListItem[];
+  overrides?: ScheduleOverrideListItem[];
+  today?: string; // yyyy-MM-dd in the salon timezone; anchors date-specific entries to the current week
 }
 
 const SHIFT_COLORS: Record<ShiftType, string> = {
@@ -94,7 +102,17 @@ const SHIFT_COLORS: Record<ShiftType, string> = {
   SPLIT: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
 };
 
-export function ScheduleWeekView({ staffWithSchedules, canManage }: ScheduleWeekViewProps) {
+const TIME_OFF_COLOR = "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400";
+const OVERRIDE_COLOR = "bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-400";
+
+export function ScheduleWeekView({
+  staffWithSchedules,
+  canManage,
+  timeOff = [],
+  holidays = [],
+  overrides = [],
+  today,
+}: ScheduleWeekViewProps) {
   const router = useRouter();
   const [editingSchedule, setEditingSchedule] = useState<{
     staffId: string;
@@ -210,6 +228,40 @@ export function ScheduleWeekView({ staffWithSchedules, canManage }: ScheduleWeek
     return `${hour12}:${m.toString().padStart(2, "0")} ${period}`;
   };
 
+  // Calendar dates of the current week, Sunday first to match DAY_NAMES
+  const weekDates = useMemo(() => {
+    if (!today) return [];
+    const date = new Date(`${today}T00:00:00.000Z`);
+    date.setUTCDate(date.getUTCDate() - date.getUTCDay());
+    return DAY_NAMES.map(() => {
+      const day = date.toISOString().slice(0, 10);
+      date.setUTCDate(date.getUTCDate() + 1);
+      return day;
+    });
+  }, [today]);
+
+  const getTimeOffForDay = (staffId: string, dayOfWeek: number) => {
+    const day = weekDates[dayOfWeek];
+    if (!day) return undefined;
+    return timeOff.find(
+      (t) =>
+        t.staffId === staffId &&
+        formatDateOnly(t.startDate, "yyyy-MM-dd") <= day &&
+        formatDateOnly(t.endDate, "yyyy-MM-dd") >= day
+    );
+  };
+
+  const getHolidayForDay = (dayOfWeek: number) => {
+    const day = weekDates[dayOfWeek];
+    return day ? holidays.find((h) => formatDateOnly(h.date, "yyyy-MM-dd") === day) : undefined;
+  };
+
+  const getOverrideForDay = (staffId: string, dayOfWeek: number) => {
+    const day = weekDates[dayOfWeek];
+    if (!day) return undefined;
+    return overrides.find((o) => o.staffId === staffId && formatDateOnly(o.date, "yyyy-MM-dd") === day);
+  };
+
   const getSchedulesForDay = (staff: StaffWithSchedules, dayOfWeek: number) => {
     return staff.schedules
       .filter((s) => s.dayOfWeek === dayOfWeek)
@@ -259,11 +311,26 @@ export function ScheduleWeekView({ staffWithSchedules, canManage }: ScheduleWeek
             <thead>
               <tr className="border-b">
                 <th className="p-3 text-left font-medium w-48">Staff</th>
-                {DAY_NAMES.map((day, index) => (
-                  <th key={index} className="p-3 text-center font-medium min-w-[100px]">
-                    {day.slice(0, 3)}
-                  </th>
-                ))}
+                {DAY_NAMES.map((day, index) => {
+                  const holiday = getHolidayForDay(index);
+                  return (
+                    <th key={index} className="p-3 text-center font-medium min-w-[100px]">
+                      {day.slice(0, 3)}
+                      {weekDates[index] && (
+                        <p className="text-xs font-normal text-muted-foreground">
+                          {formatDateOnly(weekDates[index], "MMM d")}
+                        </p>
+                      )}
+                      {holiday && (
+                        <p className="text-xs font-normal text-destructive" title={holiday.name}>
+                          {holiday.openTime && holiday.closeTime
+                            ? `${formatTime(holiday.openTime)} - ${formatTime(holiday.closeTime)}`
+                            : "Closed"}
+                        </p>
+                      )}
+                    </th>
+                  );
+                })}
                 {canManage && <th className="p-3 text-center w-16">Actions</th>}
               </tr>
             </thead>
@@ -300,9 +367,30 @@ export function ScheduleWeekView({ staffWithSchedules, canManage }: ScheduleWeek
                     </td>
                     {DAY_NAMES.map((_, dayIndex) => {
                       const daySchedules = getSchedulesForDay(staff, dayIndex);
+                      const dayTimeOff = getTimeOffForDay(staff.id, dayIndex);
+                      const dayOverride = getOverrideForDay(staff.id, dayIndex);
                       return (
                         <td key={dayIndex} className="p-2 text-center">
                           <div className="space-y-1">
+                            {dayTimeOff && (
+                              <Badge
+                                variant={dayTimeOff.status === "PENDING" ? "outline" : "default"}
+                                className={`w-full justify-center ${dayTimeOff.status === "APPROVED" ? TIME_OFF_COLOR : ""}`}
+                                title={dayTimeOff.reason ?? undefined}
+                              >
+                                {dayTimeOff.status === "PENDING" ? "Leave requested" : "Time off"}
+                              </Badge>
+                            )}
+                            {dayOverride && (
+                              <Badge
+                                className={`w-full justify-center ${OVERRIDE_COLOR}`}
+                                title={dayOverride.reason ?? "Overrides the weekly schedule on this date"}
+                              >
+                                {dayOverride.isAvailable && dayOverride.startTime && dayOverride.endTime
+                                  ? `${formatTime(dayOverride.startTime)} - ${formatTime(dayOverride.endTime)}`
+                                  : "Off this date"}
+                              </Badge>
+                            )}
                             {daySchedules.map((schedule) => (
                               <Button
                                 type="button"
@@ -374,6 +462,12 @@ export function ScheduleWeekView({ staffWithSchedules, canManage }: ScheduleWeek
             <Badge className="bg-gray-100 text-gray-500 dark:bg-gray-800">
               Day Off
             </Badge>
+            <Badge className={TIME_OFF_COLOR}>
+              Time Off
+            </Badge>
+            <Badge className={OVERRIDE_COLOR}>
+              Date Override
+            </Badge>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,360 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { CalendarOff, Check, Plus, X, Repeat } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  requestTimeOff,
+  reviewTimeOff,
+  cancelTimeOff,
+  getTimeOffImpact,
+  TimeOffListItem,
+  TimeOffImpact,
+  AffectedAppointment,
+} from "@/lib/actions/time-off";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+
+interface StaffOption {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface TimeOffPanelProps {
+  timeOff: TimeOffListItem[];
+  staff: StaffOption[];
+  canManage: boolean;
+  currentUserId: string;
+  today: string; // yyyy-MM-dd in the salon timezone
+  timezone: string;
+}
+
+function formatRange(entry: TimeOffListItem): string {
+  const start = formatDateOnly(entry.startDate, "MMM d, yyyy");
+  const end = formatDateOnly(entry.endDate, "MMM d, yyyy");
+  return start === end ? start : `${start} - ${end}`;
+}
+
+export function TimeOffPanel({
+  timeOff,
+  staff,
+  canManage,
+  currentUserId,
+  today,
+  timezone,
+}: TimeOffPanelProps) {
+  const router = useRouter();
+  const [showRequest, setShowRequest] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [impact, setImpact] = useState<TimeOffImpact | null>(null);
+
+  // Form state
+  const [staffId, setStaffId] = useState(currentUserId);
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [reason, setReason] = useState("");
+
+  // Staff can only request leave for themselves
+  const canRequest = canManage || staff.some((s) => s.id === currentUserId);
+
+  const openRequestDialog = () => {
+    setStaffId(canManage ? "" : currentUserId);
+    setStartDate(today);
+    setEndDate(today);
+    setReason("");
+    setShowRequest(true);
+  };
+
+  // After leave is approved, show which bookings need reassigning
+  const showImpact = async (id: string) => {
+    const result = await getTimeOffImpact(id);
+    if (!result.success) {
+      toast.error(result.error);
+      return;
+    }
+    if (result.data.appointments.length === 0 && result.data.recurringOccurrences.length === 0) {
+      toast.success("No existing appointments are affected");
+      return;
+    }
+    setImpact(result.data);
+  };
+
+  const handleRequest = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await requestTimeOff({ staffId, startDate, endDate, reason });
+      if (result.success) {
+        toast.success(result.data.status === "APPROVED" ? "Time off added" : "Time off requested");
+        setShowRequest(false);
+        router.refresh();
+        if (result.data.status === "APPROVED" && canManage) {
+          await showImpact(result.data.id);
+        }
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReview = async (id: string, decision: "APPROVED" | "REJECTED") => {
+    const result = await reviewTimeOff({ id, decision });
+    if (result.success) {
+      toast.success(decision === "APPROVED" ? "Time off approved" : "Time off rejected");
+      router.refresh();
+      if (decision === "APPROVED") {
+        await showImpact(id);
+      }
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    const result = await cancelTimeOff(id);
+    if (result.success) {
+      toast.success("Time off cancelled");
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const pending = timeOff.filter((t) => t.status === "PENDING");
+  const approved = timeOff.filter((t) => t.status === "APPROVED");
+
+  const renderEntry = (entry: TimeOffListItem) => {
+    const canCancel = canManage || entry.staffId === currentUserId;
+    return (
+      <div key={entry.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-lg border p-3">
+        <div>
+          <p className="font-medium text-sm">
+            {entry.staff.firstName} {entry.staff.lastName}
+            {entry.status === "PENDING" && (
+              <Badge variant="outline" className="ml-2">Pending</Badge>
+            )}
+          </p>
+          <p className="text-sm text-muted-foreground">{formatRange(entry)}</p>
+          {entry.reason && <p className="text-xs text-muted-foreground italic">{entry.reason}</p>}
+        </div>
+        <div className="flex gap-2">
+          {canManage && entry.status === "PENDING" && (
+            <>
+              <Button size="sm" onClick={() => handleReview(entry.id, "APPROVED")}>
+                <Check className="h-4 w-4 mr-1" /> Approve
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleReview(entry.id, "REJECTED")}>
+                <X className="h-4 w-4 mr-1" /> Reject
+              </Button>
+            </>
+          )}
+          {canManage && entry.status === "APPROVED" && (
+            <Button size="sm" variant="outline" onClick={() => showImpact(entry.id)}>
+              Affected Appointments
+            </Button>
+          )}
+          {canCancel && (
+            <Button size="sm" variant="ghost" onClick={() => handleCancel(entry.id)}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderAffected = (apt: AffectedAppointment) => (
+    <div key={apt.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+      <div>
+        <p className="font-medium">{apt.clientName}</p>
+        <p className="text-muted-foreground">
+          {apt.serviceName}
+          {apt.clientPhone && <> &middot; {apt.clientPhone}</>}
+        </p>
+      </div>
+      <p className="text-muted-foreground text-right">
+        {formatInTz(apt.startTime, "EEE, MMM d", timezone)}
+        <br />
+        {formatInTz(apt.startTime, "h:mm a", timezone)}
+      </p>
+    </div>
+  );
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Time Off</CardTitle>
+            <CardDescription>
+              Approved leave blocks bookings for the whole day
+            </CardDescription>
+          </div>
+          {canRequest && (
+            <Button size="sm" onClick={openRequestDialog}>
+              <Plus className="h-4 w-4 mr-1" />
+              {canManage ? "Add Time Off" : "Request Time Off"}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {timeOff.length === 0 ? (
+            <div className="text-center py-6">
+              <CalendarOff className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No upcoming time off</p>
+            </div>
+          ) : (
+            <>
+              {pending.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Awaiting Approval</p>
+                  {pending.map(renderEntry)}
+                </div>
+              )}
+              {approved.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Upcoming</p>
+                  {approved.map(renderEntry)}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Request Time Off Dialog */}
+      <Dialog open={showRequest} onOpenChange={setShowRequest}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{canManage ? "Add Time Off" : "Request Time Off"}</DialogTitle>
+            <DialogDescription>
+              {canManage
+                ? "Time off added by a manager is approved immediately"
+                : "Your request will be sent to a manager for approval"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {canManage && (
+              <div className="space-y-2">
+                <Label>Staff Member</Label>
+                <Select value={staffId} onValueChange={setStaffId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select staff member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {staff.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.firstName} {s.lastName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>First Day</Label>
+                <Input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => {
+                    setStartDate(e.target.value);
+                    if (e.target.value > endDate) setEndDate(e.target.value);
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Last Day</Label>
+                <Input
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Reason (optional)</Label>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Vacation, sick leave"
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowRequest(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRequest} disabled={!staffId || isSubmitting}>
+              {isSubmitting ? "Saving..." : canManage ? "Add Time Off" : "Send Request"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Affected Appointments Dialog */}
+      <Dialog open={!!impact} onOpenChange={() => setImpact(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Appointments to Reassign</DialogTitle>
+            <DialogDescription>
+              {impact?.staffName} has bookings during this time off. Reassign or reschedule them
+              from the appointments page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {impact && impact.appointments.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Appointments ({impact.appointments.length})</p>
+                {impact.appointments.map(renderAffected)}
+              </div>
+            )}
+            {impact && impact.recurringOccurrences.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium flex items-center gap-1">
+                  <Repeat className="h-4 w-4" />
+                  Recurring Occurrences ({impact.recurringOccurrences.length})
+                </p>
+                {impact.recurringOccurrences.map(renderAffected)}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImpact(null)}>
+              Close
+            </Button>
+            <Button onClick={() => router.push("/dashboard/appointments")}>
+              Go to Appointments
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,399 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Layers, Pencil, Plus, Power, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  createServicePackage,
+  updateServicePackage,
+  deleteServicePackage,
+  ServicePackageListItem,
+} from "@/lib/actions/service-package";
+import { formatCurrency } from "@/lib/utils/currency";
+
+interface ServiceOption {
+  id: string;
+  name: string;
+  price: number;
+}
+
+interface PackageItemRow {
+  serviceId: string;
+  sessions: string;
+}
+
+interface PackagesPanelProps {
+  packages: ServicePackageListItem[];
+  services: ServiceOption[];
+  canManage: boolean;
+  currencyCode: string;
+}
+
+const emptyRow: PackageItemRow = { serviceId: "", sessions: "1" };
+
+export function PackagesPanel({ packages, services, canManage, currencyCode }: PackagesPanelProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<ServicePackageListItem | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [price, setPrice] = useState("");
+  const [validityDays, setValidityDays] = useState("");
+  const [isActive, setIsActive] = useState(true);
+  const [items, setItems] = useState<PackageItemRow[]>([emptyRow]);
+
+  const fmt = (value: number | { toString(): string }) => formatCurrency(Number(value), currencyCode);
+
+  // What the sessions would cost if booked one at a time
+  const regularValue = (pkg: ServicePackageListItem) =>
+    pkg.items.reduce((sum, item) => sum + Number(item.service.price) * item.sessions, 0);
+
+  const formRegularValue = items.reduce((sum, row) => {
+    const service = services.find((s) => s.id === row.serviceId);
+    return sum + (service ? service.price * (parseInt(row.sessions, 10) || 0) : 0);
+  }, 0);
+
+  const openCreate = () => {
+    setEditing(null);
+    setName("");
+    setDescription("");
+    setPrice("");
+    setValidityDays("");
+    setIsActive(true);
+    setItems([emptyRow]);
+    setIsOpen(true);
+  };
+
+  const openEdit = (pkg: ServicePackageListItem) => {
+    setEditing(pkg);
+    setName(pkg.name);
+    setDescription(pkg.description ?? "");
+    setPrice(String(Number(pkg.price)));
+    setValidityDays(pkg.validityDays ? String(pkg.validityDays) : "");
+    setIsActive(pkg.isActive);
+    setItems(pkg.items.map((item) => ({ serviceId: item.serviceId, sessions: String(item.sessions) })));
+    setIsOpen(true);
+  };
+
+  const updateRow = (index: number, changes: Partial<PackageItemRow>) => {
+    setItems((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSubmit = async () => {
+    const data = {
+      name: name.trim(),
+      description: description.trim(),
+      price: parseFloat(price) || 0,
+      validityDays: validityDays ? parseInt(validityDays, 10) : null,
+      isActive,
+      items: items
+        .filter((row) => row.serviceId)
+        .map((row) => ({ serviceId: row.serviceId, sessions: parseInt(row.sessions, 10) || 0 })),
+    };
+
+    setIsSubmitting(true);
+    try {
+      const result = editing
+        ? await updateServicePackage({ id: editing.id, ...data })
+        : await createServicePackage(data);
+      if (result.success) {
+        toast.success(editing ? "Package updated" : "Package created");
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeactivate = async (pkg: ServicePackageListItem) => {
+    const result = await deleteServicePackage(pkg.id);
+    if (result.success) {
+      toast.success(`${pkg.name} is no longer on sale`);
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Packages</CardTitle>
+            <CardDescription>
+              Clients pay up front and use their sessions at checkout; unused sessions are reported as deferred revenue
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Package
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {packages.length === 0 ? (
+            <div className="text-center py-6">
+              <Layers className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No packages have been set up yet</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Package</TableHead>
+                    <TableHead>Includes</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead>Valid For</TableHead>
+                    <TableHead className="text-center">Sold</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="w-[100px]" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {packages.map((pkg) => {
+                    const value = regularValue(pkg);
+                    return (
+                      <TableRow key={pkg.id}>
+                        <TableCell>
+                          <p className="font-medium">{pkg.name}</p>
+                          {pkg.description && (
+                            <p className="text-xs text-muted-foreground">{pkg.description}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {pkg.items.map((item) => (
+                            <p key={item.id}>
+                              {item.sessions} × {item.service.name}
+                            </p>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <p className="font-medium">{fmt(pkg.price)}</p>
+                          {value > Number(pkg.price) && (
+                            <p className="text-xs text-muted-foreground">Save {fmt(value - Number(pkg.price))}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {pkg.validityDays ? `${pkg.validityDays} days` : "No expiry"}
+                        </TableCell>
+                        <TableCell className="text-center text-muted-foreground">
+                          {pkg._count.clientPackages}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={pkg.isActive ? "default" : "secondary"}>
+                            {pkg.isActive ? "On sale" : "Retired"}
+                          </Badge>
+                        </TableCell>
+                        {canManage && (
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button size="icon" variant="ghost" title="Edit" onClick={() => openEdit(pkg)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              {pkg.isActive && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  title="Take off sale"
+                                  onClick={() => handleDeactivate(pkg)}
+                                >
+                                  <Power className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Package" : "New Package"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Changes apply to future sales. Clients who already bought this package keep what they paid for."
+                : "Choose the services and number of sessions included"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="packageName">Name *</Label>
+              <Input
+                id="packageName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. 5 Blow-dries"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="packageDescription">Description</Label>
+              <Textarea
+                id="packageDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Services *</Label>
+              {items.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={row.serviceId} onValueChange={(v) => updateRow(index, { serviceId: v })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select service" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {services.map((service) => (
+                        <SelectItem
+                          key={service.id}
+                          value={service.id}
+                          disabled={items.some((r, i) => i !== index && r.serviceId === service.id)}
+                        >
+                          {service.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={row.sessions}
+                    onChange={(e) => updateRow(index, { sessions: e.target.value })}
+                    className="w-20"
+                    aria-label="Sessions"
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setItems((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={items.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setItems((prev) => [...prev, emptyRow])}
+                disabled={items.length >= services.length}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Service
+              </Button>
+              {formRegularValue > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Regular price for these sessions: {fmt(formRegularValue)}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="packagePrice">Package Price *</Label>
+                <Input
+                  id="packagePrice"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="validityDays">Valid For (days)</Label>
+                <Input
+                  id="validityDays"
+                  type="number"
+                  min={1}
+                  max={3650}
+                  value={validityDays}
+                  onChange={(e) => setValidityDays(e.target.value)}
+                  placeholder="No expiry"
+                />
+              </div>
+            </div>
+
+            {editing && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="packageActive"
+                  checked={isActive}
+                  onCheckedChange={(checked) => setIsActive(checked === true)}
+                />
+                <Label htmlFor="packageActive" className="font-normal">
+                  On sale at checkout
+                </Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {editing ? "Save Changes" : "Create Package"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
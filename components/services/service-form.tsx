@@ -11,9 +11,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { serviceSchema, ServiceFormData, ServiceFormInput } from "@/lib/validations/service";
 import { createService, updateService } from "@/lib/actions/service";
 import { getCurrencyDecimals } from "@/lib/utils/currency";
+import { describeTaxClass, TaxClassRate } from "@/lib/utils/tax";
 
 interface ServiceFormProps {
   service?: {
@@ -26,13 +34,17 @@ interface ServiceFormProps {
     points: number;
     category: string | null;
     isActive: boolean;
+    depositType: "FIXED" | "PERCENTAGE" | null;
+    depositValue: number | null;
+    taxClassId: string | null;
   };
   mode: "create" | "edit";
   categories: string[];
+  taxClasses: TaxClassRate[];
   currencyCode?: string;
 }
 
-export function ServiceForm({ service, mode, categories, currencyCode = "USD" }: ServiceFormProps) {
+export function ServiceForm({ service, mode, categories, taxClasses, currencyCode = "USD" }: ServiceFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const decimals = getCurrencyDecimals(currencyCode);
@@ -42,6 +54,8 @@ export function ServiceForm({ service, mode, categories, currencyCode = "USD" }:
   const {
     register,
     handleSubmit,
+    watch,
+    setValue,
     formState: { errors },
   } = useForm<ServiceFormInput, unknown, ServiceFormData>({
     resolver: zodResolver(serviceSchema),
@@ -54,9 +68,15 @@ export function ServiceForm({ service, mode, categories, currencyCode = "USD" }:
       points: service?.points || 0,
       category: service?.category || "",
       isActive: service?.isActive ?? true,
+      depositType: service?.depositType ?? null,
+      depositValue: service?.depositValue ?? 0,
+      taxClassId: service?.taxClassId ?? null,
     },
   });
 
+  const depositType = watch("depositType");
+  const taxClassId = watch("taxClassId");
+
   const onSubmit = async (data: ServiceFormData) => {
     setIsSubmitting(true);
 
@@ -199,6 +219,67 @@ export function ServiceForm({ service, mode, categories, currencyCode = "USD" }:
               )}
             </div>
           </div>
+
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Tax Class</Label>
+              <Select
+                value={taxClassId ?? "STANDARD"}
+                onValueChange={(value) => setValue("taxClassId", value === "STANDARD" ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="STANDARD">Standard rate</SelectItem>
+                  {taxClasses.map((taxClass) => (
+                    <SelectItem key={taxClass.id} value={taxClass.id}>
+                      {describeTaxClass(taxClass)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Classes are managed in Settings</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Booking Deposit</Label>
+              <Select
+                value={depositType ?? "NONE"}
+                onValueChange={(value) =>
+                  setValue("depositType", value === "NONE" ? null : (value as "FIXED" | "PERCENTAGE"))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="NONE">No deposit</SelectItem>
+                  <SelectItem value="FIXED">Fixed amount</SelectItem>
+                  <SelectItem value="PERCENTAGE">Percentage of price</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {depositType && (
+              <div className="space-y-2">
+                <Label htmlFor="depositValue">
+                  {depositType === "PERCENTAGE" ? "Deposit (%)" : `Deposit (${currencyCode})`}
+                </Label>
+                <Input
+                  id="depositValue"
+                  type="number"
+                  step={depositType === "PERCENTAGE" ? "1" : priceStep}
+                  {...register("depositValue", { valueAsNumber: true })}
+                  placeholder={depositType === "PERCENTAGE" ? "0" : pricePlaceholder}
+                  min="0"
+                  max={depositType === "PERCENTAGE" ? "100" : undefined}
+                />
+                {errors.depositValue && (
+                  <p className="text-sm text-destructive">{errors.depositValue.message}</p>
+                )}
+                <p className="text-xs text-muted-foreground">Taken when booking and credited at checkout</p>
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
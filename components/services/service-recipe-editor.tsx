@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { updateServiceRecipe, RecipeProductOption, ServiceRecipeLine } from "@/lib/actions/service";
+import { recipeCost } from "@/lib/utils/service-recipe";
+import { formatCurrency } from "@/lib/utils/currency";
+
+interface RecipeLine {
+  productId: string;
+  quantity: string;
+}
+
+interface ServiceRecipeEditorProps {
+  serviceId: string;
+  price: number;
+  cost: number | null;
+  recipe: ServiceRecipeLine[];
+  products: RecipeProductOption[];
+  currencyCode: string;
+}
+
+/**
+ * The backbar products a service uses each time it is performed. They come
+ * out of stock when the service is checked out, and their cost is added to
+ * the service's cost for profit reporting.
+ */
+export function ServiceRecipeEditor({ serviceId, price, cost, recipe, products, currencyCode }: ServiceRecipeEditorProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lines, setLines] = useState<RecipeLine[]>(
+    recipe.map((item) => ({ productId: item.productId, quantity: String(item.quantity) }))
+  );
+
+  // Products already in the recipe stay listed even if they have since been deactivated
+  const productsById = new Map<string, { name: string; sku: string | null; cost: number | null }>(
+    recipe.map((item) => [item.productId, { name: item.isActive ? item.name : `${item.name} (inactive)`, sku: item.sku, cost: item.cost }])
+  );
+  for (const product of products) productsById.set(product.id, product);
+  const addableProducts = products.filter((p) => !lines.some((line) => line.productId === p.id));
+
+  const parsedLines = lines.map((line) => ({
+    productId: line.productId,
+    quantity: parseFloat(line.quantity) || 0,
+  }));
+  const productsCost = recipeCost(
+    parsedLines.map((line) => ({ quantity: line.quantity, cost: productsById.get(line.productId)?.cost ?? null }))
+  );
+  const totalCost = (cost ?? 0) + productsCost;
+  const missingCosts = lines.filter((line) => productsById.get(line.productId)?.cost == null).length;
+  const fmt = (value: number) => formatCurrency(value, currencyCode);
+
+  const updateLine = (productId: string, quantity: string) => {
+    setLines((current) => current.map((line) => (line.productId === productId ? { ...line, quantity } : line)));
+  };
+
+  const handleSave = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await updateServiceRecipe({ serviceId, items: parsedLines });
+      if (result.success) {
+        toast.success("Recipe saved");
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recipe</CardTitle>
+        <CardDescription>
+          Backbar products used each time this service is performed. They are taken out of stock at checkout, and
+          part units like half a tube are tracked until the unit is used up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lines.length > 0 && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="w-32">Units Used</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => {
+                  const product = productsById.get(line.productId);
+                  const unitCost = product?.cost ?? null;
+                  return (
+                    <TableRow key={line.productId}>
+                      <TableCell>
+                        <p className="font-medium">{product?.name ?? "Unavailable product"}</p>
+                        {product?.sku && <p className="text-xs text-muted-foreground font-mono">{product.sku}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0.001}
+                          step="0.001"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.productId, e.target.value)}
+                          aria-label="Units used"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">{unitCost !== null ? fmt(unitCost) : "—"}</TableCell>
+                      <TableCell className="text-right">
+                        {unitCost !== null ? fmt(recipeCost([{ quantity: parsedLines[index].quantity, cost: unitCost }])) : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Remove"
+                          onClick={() => setLines((current) => current.filter((l) => l.productId !== line.productId))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <Select
+          value=""
+          onValueChange={(productId) => setLines((current) => [...current, { productId, quantity: "1" }])}
+          disabled={addableProducts.length === 0}
+        >
+          <SelectTrigger className="sm:w-80">
+            <SelectValue placeholder={addableProducts.length === 0 ? "No more products to add" : "Add a product"} />
+          </SelectTrigger>
+          <SelectContent>
+            {addableProducts.map((product) => (
+              <SelectItem key={product.id} value={product.id}>
+                {product.name} ({product.stock} in stock)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Products per service</span>
+            <span>{fmt(productsCost)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Other cost to deliver</span>
+            <span>{cost !== null ? fmt(cost) : "—"}</span>
+          </div>
+          <div className="flex justify-between font-medium">
+            <span>Margin at {fmt(price)}</span>
+            <span className={price - totalCost < 0 ? "text-destructive" : ""}>{fmt(price - totalCost)}</span>
+          </div>
+          {missingCosts > 0 && (
+            <p className="text-xs text-amber-600">
+              {missingCosts} product{missingCosts === 1 ? " has" : "s have"} no cost set and {missingCosts === 1 ? "is" : "are"} counted as free
+            </p>
+          )}
+        </div>
+
+        <Button onClick={handleSave} disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Recipe
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
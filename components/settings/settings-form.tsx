@@ -6,7 +6,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMemo } from "react";
-import { Loader2, Building2, Clock, DollarSign, Star, Globe, Check, ChevronsUpDown } from "lucide-react";
+import { Loader2, Building2, Clock, DollarSign, Star, Globe, Check, ChevronsUpDown, CalendarCheck, Bell, ShieldAlert, Gift } from "lucide-react";
 import { toast } from "sonner";
 
 import { cn } from "@/lib/utils";
@@ -52,6 +52,14 @@ const settingsSchema = z.object({
   businessHoursStart: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, "Invalid time format"),
   businessHoursEnd: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, "Invalid time format"),
   appointmentInterval: z.coerce.number().min(15).max(120),
+  allowOnlineBooking: z.boolean(),
+  cancellationWindowHours: z.coerce.number().int().min(0, "Cannot be negative").max(168, "Maximum 168 hours"),
+  waitlistHoldMinutes: z.coerce.number().int().min(5, "Minimum 5 minutes").max(1440, "Maximum 1440 minutes"),
+  noShowFeeType: z.enum(["FIXED", "PERCENTAGE"]),
+  noShowFeeValue: z.coerce.number().min(0, "Cannot be negative"),
+  lateCancellationFeeType: z.enum(["FIXED", "PERCENTAGE"]),
+  lateCancellationFeeValue: z.coerce.number().min(0, "Cannot be negative"),
+  giftCardExpiryMonths: z.coerce.number().int().min(0, "Cannot be negative").max(120, "Maximum 120 months"),
   loyaltyProgramEnabled: z.boolean(),
   loyaltyPointsPerDollar: z.coerce.number().min(0).max(100),
   goldThreshold: z.coerce.number().int().min(1, "Must be at least 1"),
@@ -64,12 +72,23 @@ const settingsSchema = z.object({
   birthdayBonusPoints: z.coerce.number().int().min(1, "Must be at least 1"),
   pointsExpiryEnabled: z.boolean(),
   pointsExpiryMonths: z.coerce.number().int().min(1, "Must be at least 1 month").max(120, "Maximum 120 months"),
+  remindersEnabled: z.boolean(),
+  reminderOffsetsHours: z
+    .array(z.number().int().min(1, "Must be at least 1 hour").max(168, "Maximum 168 hours"))
+    .max(3, "At most 3 reminder times"),
+  smsRemindersEnabled: z.boolean(),
 }).refine((data) => data.platinumThreshold > data.goldThreshold, {
   message: "Platinum threshold must be greater than Gold threshold",
   path: ["platinumThreshold"],
 }).refine((data) => data.silverMultiplier <= data.goldMultiplier && data.goldMultiplier <= data.platinumMultiplier, {
   message: "Multipliers must be in ascending order (Silver <= Gold <= Platinum)",
   path: ["platinumMultiplier"],
+}).refine((data) => data.noShowFeeType !== "PERCENTAGE" || data.noShowFeeValue <= 100, {
+  message: "Cannot exceed 100%",
+  path: ["noShowFeeValue"],
+}).refine((data) => data.lateCancellationFeeType !== "PERCENTAGE" || data.lateCancellationFeeValue <= 100, {
+  message: "Cannot exceed 100%",
+  path: ["lateCancellationFeeValue"],
 });
 
 type SettingsFormData = {
@@ -83,6 +102,14 @@ type SettingsFormData = {
   businessHoursStart: string;
   businessHoursEnd: string;
   appointmentInterval: number;
+  allowOnlineBooking: boolean;
+  cancellationWindowHours: number;
+  waitlistHoldMinutes: number;
+  noShowFeeType: "FIXED" | "PERCENTAGE";
+  noShowFeeValue: number;
+  lateCancellationFeeType: "FIXED" | "PERCENTAGE";
+  lateCancellationFeeValue: number;
+  giftCardExpiryMonths: number;
   loyaltyProgramEnabled: boolean;
   loyaltyPointsPerDollar: number;
   goldThreshold: number;
@@ -95,11 +122,15 @@ type SettingsFormData = {
   birthdayBonusPoints: number;
   pointsExpiryEnabled: boolean;
   pointsExpiryMonths: number;
+  remindersEnabled: boolean;
+  reminderOffsetsHours: number[];
+  smsRemindersEnabled: boolean;
 };
 
 interface SettingsFormProps {
   settings: SettingsData;
   canManage: boolean;
+  bookingSlug?: string;
 }
 
 // Generate time options in 30-minute intervals
@@ -137,7 +168,7 @@ function getTimezoneOptions() {
   });
 }
 
-export function SettingsForm({ settings, canManage }: SettingsFormProps) {
+export function SettingsForm({ settings, canManage, bookingSlug }: SettingsFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -160,6 +191,14 @@ export function SettingsForm({ settings, canManage }: SettingsFormProps) {
       businessHoursStart: settings.businessHoursStart,
       businessHoursEnd: settings.businessHoursEnd,
       appointmentInterval: settings.appointmentInterval,
+      allowOnlineBooking: settings.allowOnlineBooking,
+      cancellationWindowHours: settings.cancellationWindowHours,
+      waitlistHoldMinutes: settings.waitlistHoldMinutes,
+      noShowFeeType: settings.noShowFeeType,
+      noShowFeeValue: settings.noShowFeeValue,
+      lateCancellationFeeType: settings.lateCancellationFeeType,
+      lateCancellationFeeValue: settings.lateCancellationFeeValue,
+      giftCardExpiryMonths: settings.giftCardExpiryMonths,
       loyaltyProgramEnabled: settings.loyaltyProgramEnabled,
       loyaltyPointsPerDollar: settings.loyaltyPointsPerDollar,
       goldThreshold: settings.goldThreshold,
@@ -172,6 +211,9 @@ export function SettingsForm({ settings, canManage }: SettingsFormProps) {
       birthdayBonusPoints: settings.birthdayBonusPoints,
       pointsExpiryEnabled: settings.pointsExpiryEnabled,
       pointsExpiryMonths: settings.pointsExpiryMonths,
+      remindersEnabled: settings.remindersEnabled,
+      reminderOffsetsHours: settings.reminderOffsetsHours,
+      smsRemindersEnabled: settings.smsRemindersEnabled,
     },
   });
 
@@ -183,6 +225,7 @@ export function SettingsForm({ settings, canManage }: SettingsFormProps) {
   const watchedBusinessHoursEnd = watch("businessHoursEnd");
 
   const timezoneOptions = useMemo(() => getTimezoneOptions(), []);
+  const [reminderOffsetsText, setReminderOffsetsText] = useState(settings.reminderOffsetsHours.join(", "));
 
   const onSubmit = async (data: SettingsFormData) => {
     if (!canManage) {
@@ -464,6 +507,272 @@ export function SettingsForm({ settings, canManage }: SettingsFormProps) {
         </CardContent>
       </Card>
 
+      {/* Online Booking */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            Online Booking
+          </CardTitle>
+          <CardDescription>
+            Let clients book appointments themselves from a public page
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="allowOnlineBooking" className="text-base font-medium">
+                Enable Online Booking
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Clients confirm their booking with a code sent to their email
+              </p>
+            </div>
+            <Switch
+              id="allowOnlineBooking"
+              checked={watch("allowOnlineBooking")}
+              onCheckedChange={(checked) => setValue("allowOnlineBooking", checked, { shouldDirty: true })}
+              disabled={!canManage}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cancellationWindowHours">Cancellation Notice (hours)</Label>
+            <Input
+              id="cancellationWindowHours"
+              type="number"
+              min="0"
+              max="168"
+              {...register("cancellationWindowHours")}
+              disabled={!canManage}
+            />
+            <p className="text-xs text-muted-foreground">
+              Clients can cancel or reschedule from their email links up to this many hours before the appointment
+            </p>
+            {errors.cancellationWindowHours && (
+              <p className="text-sm text-destructive">{errors.cancellationWindowHours.message}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="waitlistHoldMinutes">Waitlist Hold (minutes)</Label>
+            <Input
+              id="waitlistHoldMinutes"
+              type="number"
+              min="5"
+              max="1440"
+              {...register("waitlistHoldMinutes")}
+              disabled={!canManage}
+            />
+            <p className="text-xs text-muted-foreground">
+              When a cancellation frees a slot, the next waitlisted client has this long to claim it
+            </p>
+            {errors.waitlistHoldMinutes && (
+              <p className="text-sm text-destructive">{errors.waitlistHoldMinutes.message}</p>
+            )}
+          </div>
+          {bookingSlug && watch("allowOnlineBooking") && (
+            <div className="space-y-2">
+              <Label>Booking Page</Label>
+              <a
+                href={`/book/${bookingSlug}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block text-sm font-mono break-all rounded-md bg-muted px-3 py-2 hover:underline"
+              >
+                /book/{bookingSlug}
+              </a>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Cancellation Policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Cancellation Policy
+          </CardTitle>
+          <CardDescription>
+            Fees for missed appointments and late cancellations. A deposit taken at booking is kept and counted toward the fee
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="lateCancellationFeeValue">Late Cancellation Fee</Label>
+            <div className="flex gap-2">
+              <Select
+                value={watch("lateCancellationFeeType")}
+                onValueChange={(value) => setValue("lateCancellationFeeType", value as "FIXED" | "PERCENTAGE", { shouldDirty: true })}
+                disabled={!canManage}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PERCENTAGE">% of service</SelectItem>
+                  <SelectItem value="FIXED">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                id="lateCancellationFeeValue"
+                type="number"
+                step="0.01"
+                min="0"
+                {...register("lateCancellationFeeValue")}
+                disabled={!canManage}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Charged when an appointment is cancelled within the cancellation notice period. Set to 0 for no fee
+            </p>
+            {errors.lateCancellationFeeValue && (
+              <p className="text-sm text-destructive">{errors.lateCancellationFeeValue.message}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="noShowFeeValue">No-Show Fee</Label>
+            <div className="flex gap-2">
+              <Select
+                value={watch("noShowFeeType")}
+                onValueChange={(value) => setValue("noShowFeeType", value as "FIXED" | "PERCENTAGE", { shouldDirty: true })}
+                disabled={!canManage}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PERCENTAGE">% of service</SelectItem>
+                  <SelectItem value="FIXED">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                id="noShowFeeValue"
+                type="number"
+                step="0.01"
+                min="0"
+                {...register("noShowFeeValue")}
+                disabled={!canManage}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Charged when an appointment is marked as a no-show. Set to 0 for no fee
+            </p>
+            {errors.noShowFeeValue && (
+              <p className="text-sm text-destructive">{errors.noShowFeeValue.message}</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Gift Cards */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gift className="h-5 w-5" />
+            Gift Cards
+          </CardTitle>
+          <CardDescription>
+            Rules for gift cards sold at checkout
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="giftCardExpiryMonths">Expiry (months)</Label>
+            <Input
+              id="giftCardExpiryMonths"
+              type="number"
+              min="0"
+              max="120"
+              {...register("giftCardExpiryMonths")}
+              disabled={!canManage}
+            />
+            <p className="text-xs text-muted-foreground">
+              How long a new gift card stays valid after it is sold. Set to 0 for cards that never expire
+            </p>
+            {errors.giftCardExpiryMonths && (
+              <p className="text-sm text-destructive">{errors.giftCardExpiryMonths.message}</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Appointment Reminders */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Appointment Reminders
+          </CardTitle>
+          <CardDescription>
+            Automatically remind clients before their appointments
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="remindersEnabled" className="text-base font-medium">
+                Enable Reminders
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Email clients who have an email address on file
+              </p>
+            </div>
+            <Switch
+              id="remindersEnabled"
+              checked={watch("remindersEnabled")}
+              onCheckedChange={(checked) => setValue("remindersEnabled", checked, { shouldDirty: true })}
+              disabled={!canManage}
+            />
+          </div>
+
+          <div className={!watch("remindersEnabled") ? "opacity-50 pointer-events-none space-y-4" : "space-y-4"}>
+            <div className="space-y-2">
+              <Label htmlFor="reminderOffsetsHours">Send Reminders (hours before)</Label>
+              <Input
+                id="reminderOffsetsHours"
+                placeholder="24, 2"
+                value={reminderOffsetsText}
+                onChange={(e) => {
+                  setReminderOffsetsText(e.target.value);
+                  const offsets = e.target.value
+                    .split(",")
+                    .map((v) => v.trim())
+                    .filter(Boolean)
+                    .map(Number);
+                  setValue("reminderOffsetsHours", offsets, { shouldDirty: true, shouldValidate: true });
+                }}
+                disabled={!canManage}
+              />
+              <p className="text-xs text-muted-foreground">
+                Comma-separated, up to 3 (e.g. 24, 2)
+              </p>
+              {errors.reminderOffsetsHours && (
+                <p className="text-sm text-destructive">
+                  {errors.reminderOffsetsHours.message ?? "Enter whole hours between 1 and 168"}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="smsRemindersEnabled" className="text-base font-medium">
+                  SMS Reminders
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Also text clients at their phone number on file
+                </p>
+              </div>
+              <Switch
+                id="smsRemindersEnabled"
+                checked={watch("smsRemindersEnabled")}
+                onCheckedChange={(checked) => setValue("smsRemindersEnabled", checked, { shouldDirty: true })}
+                disabled={!canManage}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Loyalty Program */}
       <Card>
         <CardHeader>
@@ -0,0 +1,269 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Pencil, Percent, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  createTaxClass,
+  updateTaxClass,
+  deleteTaxClass,
+  TaxClassItem,
+} from "@/lib/actions/tax-class";
+
+interface TaxClassesPanelProps {
+  taxClasses: TaxClassItem[];
+  standardRate: number;
+  canManage: boolean;
+}
+
+export function TaxClassesPanel({ taxClasses, standardRate, canManage }: TaxClassesPanelProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<TaxClassItem | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deleting, setDeleting] = useState<TaxClassItem | null>(null);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [rate, setRate] = useState("");
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(false);
+
+  const openCreate = () => {
+    setEditing(null);
+    setName("");
+    setRate("");
+    setPricesIncludeTax(false);
+    setIsOpen(true);
+  };
+
+  const openEdit = (taxClass: TaxClassItem) => {
+    setEditing(taxClass);
+    setName(taxClass.name);
+    setRate(String(taxClass.rate));
+    setPricesIncludeTax(taxClass.pricesIncludeTax);
+    setIsOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    const data = { name: name.trim(), rate: parseFloat(rate) || 0, pricesIncludeTax };
+
+    setIsSubmitting(true);
+    try {
+      const result = editing ? await updateTaxClass(editing.id, data) : await createTaxClass(data);
+      if (result.success) {
+        toast.success(editing ? "Tax class updated" : "Tax class created");
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const result = await deleteTaxClass(deleting.id);
+    if (result.success) {
+      toast.success(`${deleting.name} deleted`);
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setDeleting(null);
+  };
+
+  const deletingUsage = deleting ? deleting._count.services + deleting._count.products : 0;
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              Tax Classes
+            </CardTitle>
+            <CardDescription>
+              Rates for services and products taxed differently. Items without a class use the standard
+              rate of {standardRate}%, added on top of the price.
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Tax Class
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {taxClasses.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No tax classes yet — everything is taxed at the standard rate
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead>Prices</TableHead>
+                    <TableHead className="text-right">Services</TableHead>
+                    <TableHead className="text-right">Products</TableHead>
+                    {canManage && <TableHead className="w-[100px]" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {taxClasses.map((taxClass) => (
+                    <TableRow key={taxClass.id}>
+                      <TableCell className="font-medium">{taxClass.name}</TableCell>
+                      <TableCell className="text-right">{taxClass.rate}%</TableCell>
+                      <TableCell>
+                        <Badge variant={taxClass.pricesIncludeTax ? "default" : "outline"}>
+                          {taxClass.pricesIncludeTax ? "Include tax" : "Plus tax"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{taxClass._count.services}</TableCell>
+                      <TableCell className="text-right">{taxClass._count.products}</TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button size="icon" variant="ghost" title="Edit" onClick={() => openEdit(taxClass)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" title="Delete" onClick={() => setDeleting(taxClass)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Tax Class" : "New Tax Class"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Changes apply to sales from now on; issued invoices keep the tax they were charged."
+                : "Assign it to services and products from their edit forms"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="taxClassName">Name *</Label>
+                <Input
+                  id="taxClassName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Retail VAT"
+                  maxLength={50}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="taxClassRate">Rate (%) *</Label>
+                <Input
+                  id="taxClassRate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="taxClassInclusive"
+                checked={pricesIncludeTax}
+                onCheckedChange={(checked) => setPricesIncludeTax(checked === true)}
+              />
+              <Label htmlFor="taxClassInclusive" className="font-normal">
+                Prices already include this tax
+              </Label>
+            </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Inclusive tax is worked out of the price the client pays; otherwise it is added at checkout.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting || !name.trim() || !rate.trim()}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editing ? "Save Changes" : "Create Tax Class"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingUsage > 0
+                ? `The ${deletingUsage} service${deletingUsage === 1 ? " or product" : "s and products"} using it will be taxed at the standard rate. `
+                : ""}
+              Issued invoices keep their tax breakdown.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ClipboardList, Pencil, Plus, Power, Truck } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { createSupplier, updateSupplier, toggleSupplier, SupplierItem } from "@/lib/actions/supplier";
+
+interface SuppliersPanelProps {
+  suppliers: SupplierItem[];
+  canManage: boolean;
+  canOrder: boolean;
+}
+
+export function SuppliersPanel({ suppliers, canManage, canOrder }: SuppliersPanelProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<SupplierItem | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [contactName, setContactName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [address, setAddress] = useState("");
+  const [leadTimeDays, setLeadTimeDays] = useState("");
+  const [paymentTermsDays, setPaymentTermsDays] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const openCreate = () => {
+    setEditing(null);
+    setName("");
+    setContactName("");
+    setEmail("");
+    setPhone("");
+    setAddress("");
+    setLeadTimeDays("");
+    setPaymentTermsDays("");
+    setNotes("");
+    setIsOpen(true);
+  };
+
+  const openEdit = (supplier: SupplierItem) => {
+    setEditing(supplier);
+    setName(supplier.name);
+    setContactName(supplier.contactName ?? "");
+    setEmail(supplier.email ?? "");
+    setPhone(supplier.phone ?? "");
+    setAddress(supplier.address ?? "");
+    setLeadTimeDays(supplier.leadTimeDays !== null ? String(supplier.leadTimeDays) : "");
+    setPaymentTermsDays(supplier.paymentTermsDays !== null ? String(supplier.paymentTermsDays) : "");
+    setNotes(supplier.notes ?? "");
+    setIsOpen(true);
+  };
+
+  const optionalDays = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return value.trim() && !Number.isNaN(parsed) ? parsed : null;
+  };
+
+  const handleSubmit = async () => {
+    const data = {
+      name: name.trim(),
+      contactName: contactName.trim(),
+      email: email.trim(),
+      phone: phone.trim(),
+      address: address.trim(),
+      leadTimeDays: optionalDays(leadTimeDays),
+      paymentTermsDays: optionalDays(paymentTermsDays),
+      notes: notes.trim(),
+    };
+
+    setIsSubmitting(true);
+    try {
+      const result = editing
+        ? await updateSupplier(editing.id, data)
+        : await createSupplier(data);
+      if (result.success) {
+        toast.success(editing ? "Supplier updated" : "Supplier added");
+        setIsOpen(false);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } catch {
+      toast.error("An unexpected error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (supplier: SupplierItem) => {
+    const result = await toggleSupplier(supplier.id);
+    if (result.success) {
+      toast.success(result.data.isActive ? `${supplier.name} reactivated` : `${supplier.name} deactivated`);
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const describeTerms = (supplier: SupplierItem) => {
+    if (supplier.paymentTermsDays === null) return "—";
+    return supplier.paymentTermsDays === 0 ? "On delivery" : `Net ${supplier.paymentTermsDays}`;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Suppliers</CardTitle>
+            <CardDescription>
+              Set a product&apos;s preferred supplier to have its low stock reordered from them
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Supplier
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {suppliers.length === 0 ? (
+            <div className="text-center py-6">
+              <Truck className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">No suppliers have been added yet</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead className="text-right">Lead Time</TableHead>
+                    <TableHead>Terms</TableHead>
+                    <TableHead className="text-right">Products</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[120px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppliers.map((supplier) => (
+                    <TableRow key={supplier.id}>
+                      <TableCell>
+                        <p className="font-medium">{supplier.name}</p>
+                        {supplier.address && (
+                          <p className="text-xs text-muted-foreground">{supplier.address}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {supplier.contactName && <p>{supplier.contactName}</p>}
+                        {supplier.email && <p className="text-muted-foreground">{supplier.email}</p>}
+                        {supplier.phone && <p className="text-muted-foreground">{supplier.phone}</p>}
+                        {!supplier.contactName && !supplier.email && !supplier.phone && "—"}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {supplier.leadTimeDays !== null
+                          ? `${supplier.leadTimeDays} day${supplier.leadTimeDays === 1 ? "" : "s"}`
+                          : "—"}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{describeTerms(supplier)}</TableCell>
+                      <TableCell className="text-right">
+                        <p className="font-medium">{supplier._count.products}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {supplier._count.purchaseOrders} order{supplier._count.purchaseOrders === 1 ? "" : "s"}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        {supplier.isActive ? <Badge>Active</Badge> : <Badge variant="secondary">Inactive</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          {canOrder && supplier.isActive && (
+                            <Button size="icon" variant="ghost" title="New purchase order" asChild>
+                              <Link href={`/dashboard/purchase-orders/new?supplier=${supplier.id}`}>
+                                <ClipboardList className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                          )}
+                          {canManage && (
+                            <>
+                              <Button size="icon" variant="ghost" title="Edit" onClick={() => openEdit(supplier)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title={supplier.isActive ? "Deactivate" : "Reactivate"}
+                                onClick={() => handleToggle(supplier)}
+                              >
+                                <Power className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Supplier" : "New Supplier"}</DialogTitle>
+            <DialogDescription>
+              Details printed on purchase orders sent to this supplier
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="supplierName">Name *</Label>
+              <Input
+                id="supplierName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Pro Beauty Wholesale"
+                maxLength={100}
+              />
+            </div>
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="supplierContact">Contact Name</Label>
+                <Input
+                  id="supplierContact"
+                  value={contactName}
+                  onChange={(e) => setContactName(e.target.value)}
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplierPhone">Phone</Label>
+                <Input
+                  id="supplierPhone"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  maxLength={30}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierEmail">Email</Label>
+              <Input
+                id="supplierEmail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="orders@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierAddress">Address</Label>
+              <Textarea
+                id="supplierAddress"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                maxLength={300}
+                rows={2}
+              />
+            </div>
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="supplierLeadTime">Lead Time (days)</Label>
+                <Input
+                  id="supplierLeadTime"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={leadTimeDays}
+                  onChange={(e) => setLeadTimeDays(e.target.value)}
+                  placeholder="Unknown"
+                />
+                <p className="text-xs text-muted-foreground">Sets the expected delivery date when an order is placed</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplierTerms">Payment Terms (days)</Label>
+                <Input
+                  id="supplierTerms"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={paymentTermsDays}
+                  onChange={(e) => setPaymentTermsDays(e.target.value)}
+                  placeholder="Not set"
+                />
+                <p className="text-xs text-muted-foreground">0 means payment is due on delivery</p>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierNotes">Notes</Label>
+              <Textarea
+                id="supplierNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                maxLength={500}
+                placeholder="e.g. Account number, minimum order, delivery days"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {editing ? "Save Changes" : "Add Supplier"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
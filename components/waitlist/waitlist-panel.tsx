@@ -0,0 +1,468 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Hourglass, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { TimeOfDay } from "@prisma/client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  createWaitlistEntry,
+  updateWaitlistEntry,
+  cancelWaitlistEntry,
+  WaitlistListItem,
+} from "@/lib/actions/waitlist";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+
+const ANY_STAFF = "any";
+
+const timeOfDayLabels: Record<TimeOfDay, string> = {
+  MORNING: "Morning",
+  AFTERNOON: "Afternoon",
+  EVENING: "Evening",
+};
+
+interface ClientOption {
+  id: string;
+  firstName: string;
+  lastName: string | null;
+  phone: string | null;
+}
+
+interface ServiceOption {
+  id: string;
+  name: string;
+  duration: number;
+}
+
+interface StaffOption {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface WaitlistPrefill {
+  clientId: string;
+  serviceId: string;
+  staffId: string;
+  date: string;
+}
+
+interface WaitlistPanelProps {
+  entries: WaitlistListItem[];
+  clients: ClientOption[];
+  services: ServiceOption[];
+  staff: StaffOption[];
+  canManage: boolean;
+  today: string; // yyyy-MM-dd in the salon timezone
+  timezone: string;
+  prefill?: WaitlistPrefill;
+}
+
+function formatWindow(entry: WaitlistListItem): string {
+  const start = formatDateOnly(entry.earliestDate, "MMM d");
+  const end = formatDateOnly(entry.latestDate, "MMM d, yyyy");
+  return formatDateOnly(entry.earliestDate, "yyyy-MM-dd") === formatDateOnly(entry.latestDate, "yyyy-MM-dd")
+    ? end
+    : `${start} - ${end}`;
+}
+
+export function WaitlistPanel({
+  entries,
+  clients,
+  services,
+  staff,
+  canManage,
+  today,
+  timezone,
+  prefill,
+}: WaitlistPanelProps) {
+  const router = useRouter();
+  const [showAdd, setShowAdd] = useState(!!prefill);
+  const [editing, setEditing] = useState<WaitlistListItem | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Add form state
+  const [clientId, setClientId] = useState(prefill?.clientId ?? "");
+  const [serviceId, setServiceId] = useState(prefill?.serviceId ?? "");
+  const [staffId, setStaffId] = useState(prefill?.staffId || ANY_STAFF);
+  const [earliestDate, setEarliestDate] = useState(prefill?.date ?? today);
+  const [latestDate, setLatestDate] = useState(prefill?.date ?? today);
+  const [timePreferences, setTimePreferences] = useState<TimeOfDay[]>([]);
+  const [priority, setPriority] = useState("0");
+  const [notes, setNotes] = useState("");
+
+  const openAddDialog = () => {
+    setClientId("");
+    setServiceId("");
+    setStaffId(ANY_STAFF);
+    setEarliestDate(today);
+    setLatestDate(today);
+    setTimePreferences([]);
+    setPriority("0");
+    setNotes("");
+    setShowAdd(true);
+  };
+
+  const openEditDialog = (entry: WaitlistListItem) => {
+    setPriority(String(entry.priority));
+    setNotes(entry.notes ?? "");
+    setEditing(entry);
+  };
+
+  const toggleTimePreference = (value: TimeOfDay, checked: boolean) => {
+    setTimePreferences((prev) => (checked ? [...prev, value] : prev.filter((t) => t !== value)));
+  };
+
+  const handleAdd = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await createWaitlistEntry({
+        clientId,
+        serviceId,
+        staffId: staffId === ANY_STAFF ? "" : staffId,
+        earliestDate,
+        latestDate,
+        timePreferences,
+        priority,
+        notes,
+      });
+      if (result.success) {
+        toast.success("Client added to the waitlist");
+        setShowAdd(false);
+        router.replace("/dashboard/waitlist");
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editing) return;
+    setIsSubmitting(true);
+    try {
+      const result = await updateWaitlistEntry({ id: editing.id, priority, notes });
+      if (result.success) {
+        toast.success("Waitlist entry updated");
+        setEditing(null);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    const result = await cancelWaitlistEntry(id);
+    if (result.success) {
+      toast.success("Removed from the waitlist");
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const renderStatus = (entry: WaitlistListItem) => {
+    const offer = entry.offers[0];
+    if (entry.status === "OFFERED" && offer) {
+      return (
+        <div className="space-y-1">
+          <Badge>Offered</Badge>
+          <p className="text-xs text-muted-foreground">
+            {formatInTz(offer.startTime, "EEE, MMM d 'at' h:mm a", timezone)} with {offer.staff.firstName}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Held until {formatInTz(offer.expiresAt, "h:mm a", timezone)}
+          </p>
+        </div>
+      );
+    }
+    return <Badge variant="outline">Waiting</Badge>;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Waiting Clients</CardTitle>
+            <CardDescription>
+              Higher priority clients are offered freed slots first; ties go to whoever joined earliest
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={openAddDialog}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add to Waitlist
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <div className="text-center py-6">
+              <Hourglass className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">Nobody is on the waitlist</p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Service</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Preferred Times</TableHead>
+                    <TableHead className="text-center">Priority</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="w-[100px]" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <p className="font-medium">
+                          {entry.client.firstName} {entry.client.lastName}
+                        </p>
+                        {entry.client.phone && (
+                          <p className="text-xs text-muted-foreground">{entry.client.phone}</p>
+                        )}
+                        {entry.notes && (
+                          <p className="text-xs text-muted-foreground italic">{entry.notes}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p>{entry.service.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {entry.staff ? `with ${entry.staff.firstName} ${entry.staff.lastName}` : "Any staff"}
+                        </p>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatWindow(entry)}</TableCell>
+                      <TableCell>
+                        {entry.timePreferences.length === 0
+                          ? "Any time"
+                          : entry.timePreferences.map((t) => timeOfDayLabels[t]).join(", ")}
+                      </TableCell>
+                      <TableCell className="text-center">{entry.priority}</TableCell>
+                      <TableCell>{renderStatus(entry)}</TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button size="icon" variant="ghost" onClick={() => openEditDialog(entry)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" onClick={() => handleRemove(entry.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add to Waitlist Dialog */}
+      <Dialog open={showAdd} onOpenChange={setShowAdd}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add to Waitlist</DialogTitle>
+            <DialogDescription>
+              The client is notified when a matching slot opens up
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select value={clientId} onValueChange={setClientId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.firstName} {c.lastName} {c.phone && `(${c.phone})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Service</Label>
+                <Select value={serviceId} onValueChange={setServiceId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select service" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {services.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name} ({s.duration} min)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Staff Member</Label>
+                <Select value={staffId} onValueChange={setStaffId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_STAFF}>Any staff member</SelectItem>
+                    {staff.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.firstName} {s.lastName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Earliest Date</Label>
+                <Input
+                  type="date"
+                  value={earliestDate}
+                  min={today}
+                  onChange={(e) => {
+                    setEarliestDate(e.target.value);
+                    if (e.target.value > latestDate) setLatestDate(e.target.value);
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Latest Date</Label>
+                <Input
+                  type="date"
+                  value={latestDate}
+                  min={earliestDate}
+                  onChange={(e) => setLatestDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Preferred Times</Label>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(timeOfDayLabels) as TimeOfDay[]).map((value) => (
+                  <label key={value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={timePreferences.includes(value)}
+                      onCheckedChange={(checked) => toggleTimePreference(value, checked === true)}
+                    />
+                    {timeOfDayLabels[value]}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Leave all unchecked for any time of day</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Input
+                type="number"
+                min="0"
+                max="10"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Notes (optional)</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. Can come in at short notice"
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowAdd(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdd} disabled={!clientId || !serviceId || isSubmitting}>
+              {isSubmitting ? "Saving..." : "Add to Waitlist"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Entry Dialog */}
+      <Dialog open={!!editing} onOpenChange={() => setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Waitlist Entry</DialogTitle>
+            <DialogDescription>
+              {editing?.client.firstName} {editing?.client.lastName} &middot; {editing?.service.name}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Input
+                type="number"
+                min="0"
+                max="10"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleUpdate} disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,135 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { Prisma } from "@prisma/client";
+import { depositMethodEnum, DepositMethodType } from "@/lib/validations/appointment";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { logAudit } from "./audit";
+
+/** Record payment of the balance left on a no-show or late cancellation charge. */
+export async function collectAppointmentCharge(data: {
+  chargeId: string;
+  method: DepositMethodType;
+}): Promise<ActionResult<{ amount: number }>> {
+  const authResult = await checkAuth("sales:create");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const method = depositMethodEnum.safeParse(data.method);
+  if (!method.success) {
+    return { success: false, error: "Invalid payment method" };
+  }
+
+  try {
+    const amount = await prisma.$transaction(async (tx) => {
+      const charge = await tx.appointmentCharge.findFirst({
+        where: { id: data.chargeId, salonId: authResult.salonId },
+      });
+      if (!charge) {
+        throw new Error("Charge not found");
+      }
+
+      const claimed = await tx.appointmentCharge.updateMany({
+        where: { id: charge.id, status: "OUTSTANDING" },
+        data: { status: "PAID", resolvedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error("This charge has already been settled");
+      }
+
+      const balance = Number(charge.amount) - Number(charge.depositApplied);
+      await tx.payment.create({
+        data: {
+          salonId: authResult.salonId,
+          clientId: charge.clientId,
+          chargeId: charge.id,
+          type: "FEE",
+          amount: balance,
+          method: method.data,
+        },
+      });
+
+      return balance;
+    });
+
+    await logAudit({
+      action: "APPOINTMENT_CHARGE_PAID",
+      entityType: "AppointmentCharge",
+      entityId: data.chargeId,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { amount, method: method.data },
+    });
+
+    revalidatePath("/dashboard/appointments");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: { amount } };
+  } catch (error) {
+    console.error("Error collecting appointment charge:", error);
+    if (error instanceof Error && !(error instanceof Prisma.PrismaClientKnownRequestError)) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to record payment" };
+  }
+}
+
+/**
+ * Drop a no-show or late cancellation charge. Any deposit that was forfeited
+ * toward it is released for refund.
+ */
+export async function waiveAppointmentCharge(chargeId: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("invoices:refund");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const charge = await prisma.appointmentCharge.findFirst({
+      where: { id: chargeId, salonId: authResult.salonId },
+      select: { id: true, appointmentId: true, status: true, payments: { select: { id: true } } },
+    });
+
+    if (!charge) {
+      return { success: false, error: "Charge not found" };
+    }
+    if (charge.status === "WAIVED") {
+      return { success: false, error: "This charge has already been waived" };
+    }
+    if (charge.payments.length > 0) {
+      return { success: false, error: "This charge has been paid by the client and cannot be waived" };
+    }
+
+    await prisma.$transaction([
+      prisma.appointmentCharge.update({
+        where: { id: charge.id },
+        data: { status: "WAIVED", resolvedAt: new Date() },
+      }),
+      prisma.payment.updateMany({
+        where: { appointmentId: charge.appointmentId, type: "DEPOSIT", depositStatus: "FORFEITED" },
+        data: { depositStatus: "REFUNDED" },
+      }),
+    ]);
+
+    await logAudit({
+      action: "APPOINTMENT_CHARGE_WAIVED",
+      entityType: "AppointmentCharge",
+      entityId: charge.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { appointmentId: charge.appointmentId, previousStatus: charge.status },
+    });
+
+    revalidatePath("/dashboard/appointments");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error waiving appointment charge:", error);
+    return { success: false, error: "Failed to waive charge" };
+  }
+}
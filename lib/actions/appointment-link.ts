@@ -0,0 +1,243 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { AppointmentStatus, Prisma } from "@prisma/client";
+import { manageSlotsSchema, manageRescheduleSchema, ManageSlotsInput, ManageRescheduleInput } from "@/lib/validations/booking";
+import { verifyAppointmentToken, createAppointmentToken } from "@/lib/appointment-links";
+import { transitionAppointmentStatus, moveAppointment, AppointmentActor } from "@/lib/appointment-operations";
+import { computeAvailableSlots, TimeSlot, DEFAULT_SLOT_SETTINGS } from "@/lib/availability";
+import { formatInTz } from "@/lib/utils/timezone";
+import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import { ActionResult } from "@/lib/types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const CLIENT_ACTOR: AppointmentActor = { userId: null, role: "CLIENT" };
+const CHANGEABLE_STATUSES: AppointmentStatus[] = ["SCHEDULED", "CONFIRMED"];
+
+export interface ManagedAppointment {
+  status: AppointmentStatus;
+  startTime: Date;
+  endTime: Date;
+  serviceName: string;
+  staffName: string;
+  clientFirstName: string;
+  salonName: string;
+  salonPhone: string | null;
+  timezone: string;
+  changeDeadline: Date; // Last moment the client may cancel or reschedule online
+  canConfirm: boolean;
+  canChange: boolean;
+}
+
+const managedAppointmentInclude = Prisma.validator<Prisma.AppointmentInclude>()({
+  client: { select: { id: true, firstName: true } },
+  service: { select: { name: true, duration: true } },
+  staff: { select: { firstName: true, lastName: true } },
+  salon: { select: { name: true, phone: true, settings: true } },
+});
+
+type AppointmentForLink = Prisma.AppointmentGetPayload<{ include: typeof managedAppointmentInclude }>;
+
+// Verify the token and load the appointment it grants access to
+async function resolveToken(token: string): Promise<AppointmentForLink | null> {
+  const ip = await getClientIp();
+  const limit = await rateLimit(`appointment-link:${ip}`, 60, 5 * 60);
+  if (!limit.allowed) return null;
+
+  const verified = verifyAppointmentToken(token);
+  if (!verified) return null;
+
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: verified.appointmentId },
+    include: managedAppointmentInclude,
+  });
+  // A link issued before a reschedule is stale
+  if (!appointment || appointment.startTime.getTime() !== verified.startTime.getTime()) return null;
+  return appointment;
+}
+
+function getChangeDeadline(appointment: AppointmentForLink): Date {
+  const windowHours = appointment.salon.settings?.cancellationWindowHours ?? 24;
+  return new Date(appointment.startTime.getTime() - windowHours * HOUR_MS);
+}
+
+function canChange(appointment: AppointmentForLink): boolean {
+  return CHANGEABLE_STATUSES.includes(appointment.status) && new Date() < getChangeDeadline(appointment);
+}
+
+function auditDetails(appointment: AppointmentForLink) {
+  return { via: "client_link", clientId: appointment.client.id };
+}
+
+/** Appointment details for the client self-service page. */
+export async function getAppointmentByToken(token: string): Promise<ActionResult<ManagedAppointment>> {
+  try {
+    const appointment = await resolveToken(token);
+    if (!appointment) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+
+    const settings = appointment.salon.settings;
+    return {
+      success: true,
+      data: {
+        status: appointment.status,
+        startTime: appointment.startTime,
+        endTime: appointment.endTime,
+        serviceName: appointment.service.name,
+        staffName: `${appointment.staff.firstName} ${appointment.staff.lastName}`,
+        clientFirstName: appointment.client.firstName,
+        salonName: settings?.salonName ?? appointment.salon.name,
+        salonPhone: settings?.salonPhone ?? appointment.salon.phone,
+        timezone: settings?.timezone ?? "UTC",
+        changeDeadline: getChangeDeadline(appointment),
+        canConfirm: appointment.status === "SCHEDULED",
+        canChange: canChange(appointment),
+      },
+    };
+  } catch (error) {
+    console.error("Error loading appointment from link:", error);
+    return { success: false, error: "Failed to load appointment" };
+  }
+}
+
+/** Client confirms they will attend (SCHEDULED → CONFIRMED). */
+export async function confirmAppointmentByToken(token: string): Promise<ActionResult<void>> {
+  try {
+    const appointment = await resolveToken(token);
+    if (!appointment) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+
+    if (appointment.status !== "SCHEDULED") {
+      return { success: false, error: "This appointment can no longer be confirmed" };
+    }
+
+    const result = await transitionAppointmentStatus({
+      id: appointment.id,
+      salonId: appointment.salonId,
+      status: "CONFIRMED",
+      actor: CLIENT_ACTOR,
+      auditDetails: auditDetails(appointment),
+    });
+    if (!result.success) return result;
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error confirming appointment from link:", error);
+    return { success: false, error: "Failed to confirm appointment" };
+  }
+}
+
+/** Client cancels, allowed until the salon's cancellation window. */
+export async function cancelAppointmentByToken(token: string): Promise<ActionResult<void>> {
+  try {
+    const appointment = await resolveToken(token);
+    if (!appointment) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+
+    if (!canChange(appointment)) {
+      return { success: false, error: "This appointment can no longer be cancelled online. Please contact the salon." };
+    }
+
+    const result = await transitionAppointmentStatus({
+      id: appointment.id,
+      salonId: appointment.salonId,
+      status: "CANCELLED",
+      actor: CLIENT_ACTOR,
+      auditDetails: auditDetails(appointment),
+    });
+    if (!result.success) return result;
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error cancelling appointment from link:", error);
+    return { success: false, error: "Failed to cancel appointment" };
+  }
+}
+
+// Slots the client may move to: same staff and service, outside the cancellation window
+async function getRescheduleSlots(appointment: AppointmentForLink, day: string): Promise<TimeSlot[]> {
+  const settings = appointment.salon.settings;
+  const slots = await computeAvailableSlots({
+    salonId: appointment.salonId,
+    staffId: appointment.staffId,
+    day,
+    duration: appointment.service.duration,
+    settings: settings ?? DEFAULT_SLOT_SETTINGS,
+    excludeAppointmentId: appointment.id,
+  });
+
+  const earliest = Date.now() + (settings?.cancellationWindowHours ?? 24) * HOUR_MS;
+  return slots.filter((slot) => slot.startTime.getTime() >= earliest);
+}
+
+/** Available times the client can reschedule to on a given day. */
+export async function getRescheduleSlotsByToken(params: ManageSlotsInput): Promise<ActionResult<TimeSlot[]>> {
+  const validationResult = manageSlotsSchema.safeParse(params);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  try {
+    const appointment = await resolveToken(validationResult.data.token);
+    if (!appointment) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+    if (!canChange(appointment)) {
+      return { success: false, error: "This appointment can no longer be rescheduled online" };
+    }
+
+    const slots = await getRescheduleSlots(appointment, validationResult.data.date);
+    return { success: true, data: slots };
+  } catch (error) {
+    console.error("Error getting reschedule slots:", error);
+    return { success: false, error: "Failed to get available times" };
+  }
+}
+
+/**
+ * Client moves the appointment to a new slot. Returns a fresh link token,
+ * since the old one is tied to the original appointment time.
+ */
+export async function rescheduleAppointmentByToken(
+  params: ManageRescheduleInput
+): Promise<ActionResult<{ token: string }>> {
+  const validationResult = manageRescheduleSchema.safeParse(params);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { token, startTime } = validationResult.data;
+
+  try {
+    const appointment = await resolveToken(token);
+    if (!appointment) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+    if (!canChange(appointment)) {
+      return { success: false, error: "This appointment can no longer be rescheduled online. Please contact the salon." };
+    }
+
+    const day = formatInTz(startTime, "yyyy-MM-dd", appointment.salon.settings?.timezone ?? "UTC");
+    const slots = await getRescheduleSlots(appointment, day);
+    if (!slots.some((slot) => slot.startTime.getTime() === startTime.getTime())) {
+      return { success: false, error: "This time is no longer available. Please choose another." };
+    }
+
+    const result = await moveAppointment({
+      id: appointment.id,
+      salonId: appointment.salonId,
+      startTime,
+      actor: CLIENT_ACTOR,
+      auditDetails: auditDetails(appointment),
+    });
+    if (!result.success) return result;
+
+    return { success: true, data: { token: createAppointmentToken(appointment.id, startTime) } };
+  } catch (error) {
+    console.error("Error rescheduling appointment from link:", error);
+    return { success: false, error: "Failed to reschedule appointment" };
+  }
+}
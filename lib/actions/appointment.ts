@@ -18,6 +18,16 @@ import { getSettings } from "./settings";
 import { ActionResult } from "@/lib/types";
 import { invalidateDashboardCache } from "@/lib/redis";
 import { getOrganizationSalonIds } from "./branch";
+import { computeAvailableSlots, getUnavailableReason, DEFAULT_SLOT_SETTINGS } from "@/lib/availability";
+import { offerFreedSlot } from "@/lib/waitlist";
+import { applyCancellationPolicy } from "@/lib/appointment-charges";
+import { getServiceDeposit } from "@/lib/utils/deposit";
+import { formatInTz } from "@/lib/utils/timezone";
+import {
+  appointmentListInclude,
+  transitionAppointmentStatus,
+  moveAppointment,
+} from "@/lib/appointment-operations";
 
 async function checkAuth(permission: Permission): Promise<{ userId: string; role: Role; salonId: string } | null> {
   const session = await auth();
@@ -35,44 +45,6 @@ async function checkAuth(permission: Permission): Promise<{ userId: string; role
   return { userId: session.user.id, role, salonId };
 }
 
-// Include relations for appointment list
-const appointmentListInclude = Prisma.validator<Prisma.AppointmentInclude>()({
-  client: {
-    select: {
-      id: true,
-      firstName: true,
-      lastName: true,
-      phone: true,
-      email: true,
-      isWalkIn: true,
-    },
-  },
-  service: {
-    select: {
-      id: true,
-      name: true,
-      duration: true,
-      price: true,
-      category: true,
-    },
-  },
-  staff: {
-    select: {
-      id: true,
-      firstName: true,
-      lastName: true,
-    },
-  },
-  series: {
-    select: {
-      id: true,
-      pattern: true,
-      customWeeks: true,
-      isActive: true,
-    },
-  },
-});
-
 export type AppointmentListItem = Prisma.AppointmentGetPayload<{
   include: typeof appointmentListInclude;
 }>;
@@ -177,14 +149,14 @@ export async function getAppointment(id: string): Promise<ActionResult<Appointme
   }
 }
 
-// Check for appointment conflicts
+// Check for appointment conflicts, salon closures and time off; returns the reason, or null if the slot is free
 async function checkConflict(
   staffId: string,
   startTime: Date,
   endTime: Date,
   excludeId?: string,
   salonId?: string
-): Promise<boolean> {
+): Promise<string | null> {
   const conflict = await prisma.appointment.findFirst({
     where: {
       staffId,
@@ -202,7 +174,10 @@ async function checkConflict(
     },
   });
 
-  return !!conflict;
+  if (conflict) return "This time slot conflicts with another appointment";
+
+  if (!salonId) return null;
+  return getUnavailableReason(prisma, { salonId, staffId, startTime, endTime });
 }
 
 // Create appointment
@@ -219,7 +194,7 @@ export async function createAppointment(
     return { success: false, error: validationResult.error.issues[0].message };
   }
 
-  const { clientId, serviceId, staffId, startTime, notes } = validationResult.data;
+  const { clientId, serviceId, staffId, startTime, notes, depositMethod } = validationResult.data;
 
   try {
     // Get org salon IDs to validate cross-branch references within the organization
@@ -228,7 +203,7 @@ export async function createAppointment(
     // Get service to calculate end time (org-scoped)
     const service = await prisma.service.findFirst({
       where: { id: serviceId, salonId: { in: orgSalonIds } },
-      select: { duration: true, isActive: true },
+      select: { duration: true, isActive: true, price: true, depositType: true, depositValue: true },
     });
 
     if (!service) {
@@ -239,14 +214,16 @@ export async function createAppointment(
       return { success: false, error: "Service is not available" };
     }
 
+    const depositAmount = depositMethod ? getServiceDeposit(service) : 0;
+
     // Calculate end time
     const endTime = new Date(startTime);
     endTime.setMinutes(endTime.getMinutes() + service.duration);
 
     // Check for conflicts
-    const hasConflict = await checkConflict(staffId, startTime, endTime, undefined, authResult.salonId);
-    if (hasConflict) {
-      return { success: false, error: "This time slot conflicts with another appointment" };
+    const conflict = await checkConflict(staffId, startTime, endTime, undefined, authResult.salonId);
+    if (conflict) {
+      return { success: false, error: conflict };
     }
 
     // Verify client exists and is active (org-scoped)
@@ -279,6 +256,18 @@ export async function createAppointment(
         endTime,
         notes: notes || null,
         status: "SCHEDULED",
+        ...(depositMethod && depositAmount > 0 && {
+          deposits: {
+            create: {
+              salonId: authResult.salonId,
+              clientId,
+              type: "DEPOSIT",
+              depositStatus: "HELD",
+              amount: depositAmount,
+              method: depositMethod,
+            },
+          },
+        }),
       },
       include: appointmentListInclude,
     });
@@ -289,7 +278,13 @@ export async function createAppointment(
       entityId: appointment.id,
       userId: authResult.userId,
       userRole: authResult.role,
-      details: { clientId, serviceId, staffId, startTime: startTime.toISOString() },
+      details: {
+        clientId,
+        serviceId,
+        staffId,
+        startTime: startTime.toISOString(),
+        ...(depositAmount > 0 && { deposit: depositAmount, depositMethod }),
+      },
     });
 
     revalidatePath("/dashboard/appointments");
@@ -358,9 +353,9 @@ export async function updateAppointment(
     }
 
     // Check for conflicts (excluding this appointment)
-    const hasConflict = await checkConflict(staffId, startTime, endTime, id, authResult.salonId);
-    if (hasConflict) {
-      return { success: false, error: "This time slot conflicts with another appointment" };
+    const conflict = await checkConflict(staffId, startTime, endTime, id, authResult.salonId);
+    if (conflict) {
+      return { success: false, error: conflict };
     }
 
     const appointment = await prisma.appointment.update({
@@ -410,51 +405,12 @@ export async function updateAppointmentStatus(
   }
 
   try {
-    const existing = await prisma.appointment.findFirst({
-      where: { id, salonId: authResult.salonId },
-      select: { status: true },
-    });
-
-    if (!existing) {
-      return { success: false, error: "Appointment not found" };
-    }
-
-    // Validate status transitions
-    const validTransitions: Record<AppointmentStatus, AppointmentStatus[]> = {
-      SCHEDULED: ["CONFIRMED", "IN_PROGRESS", "CANCELLED", "NO_SHOW"],
-      CONFIRMED: ["IN_PROGRESS", "CANCELLED", "NO_SHOW"],
-      IN_PROGRESS: ["COMPLETED", "CANCELLED"],
-      COMPLETED: [],
-      CANCELLED: [],
-      NO_SHOW: [],
-    };
-
-    const allowedNextStatuses = validTransitions[existing.status];
-    if (!allowedNextStatuses.includes(validationResult.data.status)) {
-      return {
-        success: false,
-        error: `Cannot change status from ${existing.status} to ${validationResult.data.status}`,
-      };
-    }
-
-    const appointment = await prisma.appointment.update({
-      where: { id },
-      data: { status: validationResult.data.status },
-      include: appointmentListInclude,
-    });
-
-    await logAudit({
-      action: "APPOINTMENT_STATUS_CHANGED",
-      entityType: "Appointment",
-      entityId: id,
-      userId: authResult.userId,
-      userRole: authResult.role,
-      details: { from: existing.status, to: validationResult.data.status },
+    return await transitionAppointmentStatus({
+      id,
+      salonId: authResult.salonId,
+      status: validationResult.data.status,
+      actor: { userId: authResult.userId, role: authResult.role },
     });
-
-    revalidatePath("/dashboard/appointments");
-    await invalidateDashboardCache(authResult.salonId);
-    return { success: true, data: appointment };
   } catch (error) {
     console.error("Error updating appointment status:", error);
     return { success: false, error: "Failed to update appointment status" };
@@ -479,53 +435,13 @@ export async function rescheduleAppointment(
   const { startTime, staffId: newStaffId } = validationResult.data;
 
   try {
-    const existing = await prisma.appointment.findFirst({
-      where: { id, salonId: authResult.salonId },
-      include: { service: { select: { duration: true } } },
+    return await moveAppointment({
+      id,
+      salonId: authResult.salonId,
+      startTime,
+      staffId: newStaffId,
+      actor: { userId: authResult.userId, role: authResult.role },
     });
-
-    if (!existing) {
-      return { success: false, error: "Appointment not found" };
-    }
-
-    if (existing.status === "COMPLETED" || existing.status === "CANCELLED") {
-      return { success: false, error: "Cannot reschedule completed or cancelled appointments" };
-    }
-
-    const staffId = newStaffId || existing.staffId;
-
-    // Calculate end time
-    const endTime = new Date(startTime);
-    endTime.setMinutes(endTime.getMinutes() + existing.service.duration);
-
-    // Check for conflicts
-    const hasConflict = await checkConflict(staffId, startTime, endTime, id, authResult.salonId);
-    if (hasConflict) {
-      return { success: false, error: "This time slot conflicts with another appointment" };
-    }
-
-    const appointment = await prisma.appointment.update({
-      where: { id },
-      data: {
-        startTime,
-        endTime,
-        staffId,
-      },
-      include: appointmentListInclude,
-    });
-
-    await logAudit({
-      action: "APPOINTMENT_RESCHEDULED",
-      entityType: "Appointment",
-      entityId: id,
-      userId: authResult.userId,
-      userRole: authResult.role,
-      details: { newStartTime: startTime.toISOString(), staffId },
-    });
-
-    revalidatePath("/dashboard/appointments");
-    await invalidateDashboardCache(authResult.salonId);
-    return { success: true, data: appointment };
   } catch (error) {
     console.error("Error rescheduling appointment:", error);
     return { success: false, error: "Failed to reschedule appointment" };
@@ -557,9 +473,15 @@ export async function cancelAppointment(id: string): Promise<ActionResult<Appoin
       return { success: false, error: "Appointment is already cancelled" };
     }
 
-    const appointment = await prisma.appointment.update({
+    await prisma.appointment.update({
       where: { id },
       data: { status: "CANCELLED" },
+    });
+
+    const charge = await applyCancellationPolicy(id, "CANCELLED");
+
+    const appointment = await prisma.appointment.findUniqueOrThrow({
+      where: { id },
       include: appointmentListInclude,
     });
 
@@ -569,10 +491,17 @@ export async function cancelAppointment(id: string): Promise<ActionResult<Appoin
       entityId: id,
       userId: authResult.userId,
       userRole: authResult.role,
+      ...(charge && { details: { chargeId: charge.id, chargeAmount: Number(charge.amount) } }),
     });
 
     revalidatePath("/dashboard/appointments");
     await invalidateDashboardCache(authResult.salonId);
+
+    // Offer the freed time to waitlisted clients
+    if (await offerFreedSlot(appointment)) {
+      revalidatePath("/dashboard/waitlist");
+    }
+
     return { success: true, data: appointment };
   } catch (error) {
     console.error("Error cancelling appointment:", error);
@@ -623,16 +552,17 @@ export async function deleteAppointment(id: string): Promise<ActionResult<void>>
 // Get available time slots for a staff member on a given date
 export async function getAvailableSlots(params: {
   staffId: string;
-  date: Date;
+  date: Date | string; // Calendar day; strings are yyyy-MM-dd in the salon timezone
   serviceId: string;
   excludeAppointmentId?: string; // Exclude this appointment from conflict check (for edit mode)
+  bufferMinutes?: number; // Extra time to keep free after the appointment (recurring series)
 }): Promise<ActionResult<{ startTime: Date; endTime: Date }[]>> {
   const authResult = await checkAuth("appointments:view");
   if (!authResult) {
     return { success: false, error: "Unauthorized" };
   }
 
-  const { staffId, date, serviceId, excludeAppointmentId } = params;
+  const { staffId, date, serviceId, excludeAppointmentId, bufferMinutes } = params;
 
   try {
     // Get service duration (org-scoped)
@@ -646,79 +576,22 @@ export async function getAvailableSlots(params: {
       return { success: false, error: "Service not found" };
     }
 
-    // Get business hours from settings
+    // Get business hours, interval and timezone from settings
     const settingsResult = await getSettings();
-    const settings = settingsResult.success
-      ? settingsResult.data
-      : { businessHoursStart: "09:00", businessHoursEnd: "19:00" };
-
-    // Parse business hours (format: "HH:MM") with validation and fallback
-    const parseTime = (timeStr: string, defaultHour: number, defaultMin: number): [number, number] => {
-      const parts = timeStr?.split(":");
-      if (!parts || parts.length !== 2) return [defaultHour, defaultMin];
-      const hour = parseInt(parts[0], 10);
-      const min = parseInt(parts[1], 10);
-      if (isNaN(hour) || isNaN(min) || hour < 0 || hour > 23 || min < 0 || min > 59) {
-        return [defaultHour, defaultMin];
-      }
-      return [hour, min];
-    };
-
-    const [startHour, startMin] = parseTime(settings.businessHoursStart, 9, 0);
-    const [endHour, endMin] = parseTime(settings.businessHoursEnd, 19, 0);
+    const settings = settingsResult.success ? settingsResult.data : DEFAULT_SLOT_SETTINGS;
 
-    const dayStart = new Date(date);
-    dayStart.setHours(startHour, startMin, 0, 0);
-    const dayEnd = new Date(date);
-    dayEnd.setHours(endHour, endMin, 0, 0);
+    const day = typeof date === "string" ? date : formatInTz(date, "yyyy-MM-dd", settings.timezone);
 
-    // Get existing appointments for the staff on that day
-    const existingAppointments = await prisma.appointment.findMany({
-      where: {
-        salonId: authResult.salonId,
-        staffId,
-        startTime: { gte: dayStart, lt: dayEnd },
-        status: { notIn: ["CANCELLED", "NO_SHOW"] },
-        ...(excludeAppointmentId && { id: { not: excludeAppointmentId } }),
-      },
-      orderBy: { startTime: "asc" },
-      select: { startTime: true, endTime: true },
+    const slots = await computeAvailableSlots({
+      salonId: authResult.salonId,
+      staffId,
+      day,
+      duration: service.duration,
+      settings,
+      bufferMinutes,
+      excludeAppointmentId,
     });
 
-    // Calculate available slots
-    const slots: { startTime: Date; endTime: Date }[] = [];
-    let currentTime = new Date(dayStart);
-
-    // Generate slots in 30-minute increments
-    while (currentTime < dayEnd) {
-      const slotEnd = new Date(currentTime);
-      slotEnd.setMinutes(slotEnd.getMinutes() + service.duration);
-
-      // Check if slot fits within business hours
-      if (slotEnd <= dayEnd) {
-        // Check if slot conflicts with any existing appointment
-        const hasConflict = existingAppointments.some((apt) => {
-          const aptStart = new Date(apt.startTime);
-          const aptEnd = new Date(apt.endTime);
-          return (
-            (currentTime >= aptStart && currentTime < aptEnd) ||
-            (slotEnd > aptStart && slotEnd <= aptEnd) ||
-            (currentTime <= aptStart && slotEnd >= aptEnd)
-          );
-        });
-
-        if (!hasConflict) {
-          slots.push({
-            startTime: new Date(currentTime),
-            endTime: new Date(slotEnd),
-          });
-        }
-      }
-
-      // Move to next 30-minute slot
-      currentTime.setMinutes(currentTime.getMinutes() + 30);
-    }
-
     return { success: true, data: slots };
   } catch (error) {
     console.error("Error getting available slots:", error);
@@ -11,7 +11,7 @@ interface LogAuditParams {
   action: string;
   entityType: string;
   entityId?: string | null;
-  userId: string;
+  userId: string | null; // null for actions performed by clients via public links
   userRole: string;
   salonId?: string | null;
   details?: Prisma.InputJsonValue | null;
@@ -0,0 +1,465 @@
+"use server";
+
+import { randomInt } from "crypto";
+import bcrypt from "bcryptjs";
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { Prisma, Role } from "@prisma/client";
+import {
+  bookingRequestSchema,
+  bookingVerifySchema,
+  publicSlotsSchema,
+  BookingRequestInput,
+  BookingVerifyInput,
+  PublicSlotsInput,
+} from "@/lib/validations/booking";
+import { computeAvailableSlots, hasAppointmentConflict, getUnavailableReason, TimeSlot, DEFAULT_SLOT_SETTINGS } from "@/lib/availability";
+import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import { sendEmail } from "@/lib/email";
+import { bookingVerificationEmailHtml, bookingConfirmationEmailHtml } from "@/lib/email-templates";
+import { formatInTz } from "@/lib/utils/timezone";
+import { getAppointmentManageUrl } from "@/lib/appointment-links";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { logAudit } from "./audit";
+
+const CODE_TTL_MINUTES = 15;
+const MAX_VERIFY_ATTEMPTS = 5;
+const BOOKABLE_ROLES: Role[] = ["STAFF", "ADMIN", "OWNER"];
+
+export interface PublicBookingInfo {
+  salon: {
+    name: string;
+    slug: string;
+    address: string | null;
+    phone: string | null;
+    timezone: string;
+    currencyCode: string;
+  };
+  services: {
+    id: string;
+    name: string;
+    description: string | null;
+    duration: number;
+    price: number;
+    category: string | null;
+  }[];
+  staff: { id: string; firstName: string; lastName: string }[];
+}
+
+// Resolve a salon by its public slug, only if it accepts online bookings
+async function getBookableSalon(slug: string) {
+  const salon = await prisma.salon.findUnique({
+    where: { slug },
+    include: { settings: true },
+  });
+
+  if (!salon || !salon.isActive) return null;
+  // Salons without a settings row fall back to the schema default (enabled)
+  if (salon.settings && !salon.settings.allowOnlineBooking) return null;
+
+  return {
+    id: salon.id,
+    slug: salon.slug,
+    name: salon.settings?.salonName ?? salon.name,
+    address: salon.settings?.salonAddress ?? salon.address,
+    phone: salon.settings?.salonPhone ?? salon.phone,
+    timezone: salon.settings?.timezone ?? "UTC",
+    currencyCode: salon.settings?.currencyCode ?? "USD",
+    slotSettings: salon.settings ?? DEFAULT_SLOT_SETTINGS,
+  };
+}
+
+// Staff who can take bookings at this salon (via their salon membership)
+function bookableStaffWhere(salonId: string): Prisma.UserWhereInput {
+  return {
+    isActive: true,
+    userSalons: { some: { salonId, isActive: true, role: { in: BOOKABLE_ROLES } } },
+  };
+}
+
+async function getSlotsForDay(
+  salon: NonNullable<Awaited<ReturnType<typeof getBookableSalon>>>,
+  staffId: string,
+  day: string,
+  duration: number
+): Promise<TimeSlot[]> {
+  const slots = await computeAvailableSlots({
+    salonId: salon.id,
+    staffId,
+    day,
+    duration,
+    settings: salon.slotSettings,
+  });
+
+  // Clients can't book slots that have already started
+  const now = new Date();
+  return slots.filter((slot) => slot.startTime > now);
+}
+
+/** Public salon profile, services and staff for the booking portal. */
+export async function getPublicBookingInfo(slug: string): Promise<ActionResult<PublicBookingInfo>> {
+  try {
+    const salon = await getBookableSalon(slug);
+    if (!salon) {
+      return { success: false, error: "Online booking is not available for this salon" };
+    }
+
+    const [services, staff] = await Promise.all([
+      prisma.service.findMany({
+        where: { salonId: salon.id, isActive: true },
+        orderBy: [{ category: "asc" }, { name: "asc" }],
+        select: { id: true, name: true, description: true, duration: true, price: true, category: true },
+      }),
+      prisma.user.findMany({
+        where: bookableStaffWhere(salon.id),
+        orderBy: { firstName: "asc" },
+        select: { id: true, firstName: true, lastName: true },
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        salon: {
+          name: salon.name,
+          slug: salon.slug,
+          address: salon.address,
+          phone: salon.phone,
+          timezone: salon.timezone,
+          currencyCode: salon.currencyCode,
+        },
+        services: services.map((s) => ({ ...s, price: Number(s.price) })),
+        staff,
+      },
+    };
+  } catch (error) {
+    console.error("Error loading booking info:", error);
+    return { success: false, error: "Failed to load booking information" };
+  }
+}
+
+/** Available start times for a service with a staff member on a given day. */
+export async function getPublicAvailableSlots(
+  params: PublicSlotsInput
+): Promise<ActionResult<TimeSlot[]>> {
+  const validationResult = publicSlotsSchema.safeParse(params);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { slug, serviceId, staffId, date } = validationResult.data;
+
+  try {
+    const ip = await getClientIp();
+    const limit = await rateLimit(`booking:slots:${ip}`, 60, 60);
+    if (!limit.allowed) {
+      return { success: false, error: "Too many requests. Please try again shortly." };
+    }
+
+    const salon = await getBookableSalon(slug);
+    if (!salon) {
+      return { success: false, error: "Online booking is not available for this salon" };
+    }
+
+    const [service, staff] = await Promise.all([
+      prisma.service.findFirst({
+        where: { id: serviceId, salonId: salon.id, isActive: true },
+        select: { duration: true },
+      }),
+      prisma.user.findFirst({
+        where: { id: staffId, ...bookableStaffWhere(salon.id) },
+        select: { id: true },
+      }),
+    ]);
+
+    if (!service) return { success: false, error: "Service not found" };
+    if (!staff) return { success: false, error: "Staff member not found" };
+
+    const slots = await getSlotsForDay(salon, staffId, date, service.duration);
+    return { success: true, data: slots };
+  } catch (error) {
+    console.error("Error getting public slots:", error);
+    return { success: false, error: "Failed to get available times" };
+  }
+}
+
+/**
+ * Start an online booking: validates the slot, stores a pending request and
+ * emails a 6-digit verification code. The appointment is only created once
+ * the code is confirmed.
+ */
+export async function requestOnlineBooking(
+  data: BookingRequestInput
+): Promise<ActionResult<{ requestId: string; expiresAt: Date }>> {
+  const validationResult = bookingRequestSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const input = validationResult.data;
+  const email = input.email.toLowerCase();
+
+  try {
+    const ip = await getClientIp();
+    const [ipLimit, emailLimit] = await Promise.all([
+      rateLimit(`booking:request:ip:${ip}`, 10, 60 * 60),
+      rateLimit(`booking:request:email:${email}`, 5, 60 * 60),
+    ]);
+    if (!ipLimit.allowed || !emailLimit.allowed) {
+      return { success: false, error: "Too many booking attempts. Please try again later." };
+    }
+
+    const salon = await getBookableSalon(input.slug);
+    if (!salon) {
+      return { success: false, error: "Online booking is not available for this salon" };
+    }
+
+    const [service, staff] = await Promise.all([
+      prisma.service.findFirst({
+        where: { id: input.serviceId, salonId: salon.id, isActive: true },
+        select: { id: true, name: true, duration: true },
+      }),
+      prisma.user.findFirst({
+        where: { id: input.staffId, ...bookableStaffWhere(salon.id) },
+        select: { id: true, firstName: true, lastName: true },
+      }),
+    ]);
+
+    if (!service) return { success: false, error: "Service not found" };
+    if (!staff) return { success: false, error: "Staff member not found" };
+
+    // The requested time must be one of the offered slots
+    const day = formatInTz(input.startTime, "yyyy-MM-dd", salon.timezone);
+    const slots = await getSlotsForDay(salon, staff.id, day, service.duration);
+    const isOffered = slots.some((slot) => slot.startTime.getTime() === input.startTime.getTime());
+    if (!isOffered) {
+      return { success: false, error: "This time is no longer available. Please choose another." };
+    }
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+    const codeHash = await bcrypt.hash(code, 10);
+    const expiresAt = new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000);
+
+    const request = await prisma.onlineBookingRequest.create({
+      data: {
+        salonId: salon.id,
+        serviceId: service.id,
+        staffId: staff.id,
+        startTime: input.startTime,
+        firstName: input.firstName,
+        lastName: input.lastName || null,
+        email,
+        phone: input.phone,
+        notes: input.notes || null,
+        codeHash,
+        expiresAt,
+        ipAddress: ip,
+      },
+    });
+
+    try {
+      await sendEmail({
+        to: email,
+        subject: `Your booking code for ${salon.name}`,
+        html: bookingVerificationEmailHtml({
+          salonName: salon.name,
+          clientName: input.firstName,
+          code,
+          expiresInMinutes: CODE_TTL_MINUTES,
+          serviceName: service.name,
+          staffName: `${staff.firstName} ${staff.lastName}`,
+          dateTime: formatInTz(input.startTime, "EEEE, MMMM d 'at' h:mm a", salon.timezone),
+        }),
+        salonName: salon.name,
+      });
+    } catch (error) {
+      console.error("Error sending booking verification email:", error);
+      await prisma.onlineBookingRequest.delete({ where: { id: request.id } });
+      return { success: false, error: "We couldn't send the verification email. Please check the address and try again." };
+    }
+
+    return { success: true, data: { requestId: request.id, expiresAt } };
+  } catch (error) {
+    console.error("Error requesting online booking:", error);
+    return { success: false, error: "Failed to start booking" };
+  }
+}
+
+/**
+ * Confirm a pending online booking with its emailed code. Creates (or reuses)
+ * the client record and books the appointment, re-checking availability.
+ * Only the email is verified, so an existing client matched by phone keeps
+ * their contact details; the email given stays on the booking request.
+ */
+export async function confirmOnlineBooking(
+  data: BookingVerifyInput
+): Promise<ActionResult<{ appointmentId: string; startTime: Date }>> {
+  const validationResult = bookingVerifySchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { requestId, code } = validationResult.data;
+
+  try {
+    const ip = await getClientIp();
+    const limit = await rateLimit(`booking:verify:ip:${ip}`, 20, 15 * 60);
+    if (!limit.allowed) {
+      return { success: false, error: "Too many attempts. Please try again later." };
+    }
+
+    const request = await prisma.onlineBookingRequest.findUnique({
+      where: { id: requestId },
+      include: { salon: { select: { slug: true } } },
+    });
+
+    if (!request || request.verifiedAt) {
+      return { success: false, error: "Booking request not found" };
+    }
+    if (request.expiresAt < new Date()) {
+      return { success: false, error: "This code has expired. Please start your booking again." };
+    }
+    if (request.attempts >= MAX_VERIFY_ATTEMPTS) {
+      return { success: false, error: "Too many incorrect attempts. Please start your booking again." };
+    }
+
+    const isValid = await bcrypt.compare(code, request.codeHash);
+    if (!isValid) {
+      await prisma.onlineBookingRequest.update({
+        where: { id: request.id },
+        data: { attempts: { increment: 1 } },
+      });
+      return { success: false, error: "Incorrect code" };
+    }
+
+    // The salon may have turned off online booking since the code was sent
+    const salon = await getBookableSalon(request.salon.slug);
+    if (!salon) {
+      return { success: false, error: "Online booking is not available for this salon" };
+    }
+
+    const [service, staff] = await Promise.all([
+      prisma.service.findFirst({
+        where: { id: request.serviceId, salonId: request.salonId, isActive: true },
+        select: { id: true, name: true, duration: true },
+      }),
+      prisma.user.findFirst({
+        where: { id: request.staffId, ...bookableStaffWhere(request.salonId) },
+        select: { id: true, firstName: true, lastName: true },
+      }),
+    ]);
+
+    if (!service || !staff) {
+      return { success: false, error: "This service is no longer available. Please start your booking again." };
+    }
+
+    const startTime = request.startTime;
+    const endTime = new Date(startTime.getTime() + service.duration * 60 * 1000);
+
+    const appointment = await prisma.$transaction(async (tx) => {
+      // Claim the request first so a concurrent confirm can't double-book it
+      const claimed = await tx.onlineBookingRequest.updateMany({
+        where: { id: request.id, verifiedAt: null },
+        data: { verifiedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error("This booking has already been confirmed");
+      }
+
+      const slot = { salonId: request.salonId, staffId: staff.id, startTime, endTime };
+      if ((await hasAppointmentConflict(tx, slot)) || (await getUnavailableReason(tx, slot))) {
+        throw new Error("This time is no longer available. Please choose another.");
+      }
+
+      let client = await tx.client.findUnique({
+        where: { salonId_phone: { salonId: request.salonId, phone: request.phone } },
+      });
+
+      if (client && !client.isActive) {
+        throw new Error("We couldn't complete this booking online. Please contact the salon.");
+      }
+
+      if (!client) {
+        client = await tx.client.create({
+          data: {
+            salonId: request.salonId,
+            firstName: request.firstName,
+            lastName: request.lastName,
+            email: request.email,
+            phone: request.phone,
+          },
+        });
+      }
+
+      const created = await tx.appointment.create({
+        data: {
+          salonId: request.salonId,
+          clientId: client.id,
+          serviceId: service.id,
+          staffId: staff.id,
+          startTime,
+          endTime,
+          notes: request.notes,
+          source: "ONLINE",
+        },
+      });
+
+      await tx.onlineBookingRequest.update({
+        where: { id: request.id },
+        data: { appointmentId: created.id },
+      });
+
+      return created;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    logAudit({
+      action: "ONLINE_BOOKING_CONFIRMED",
+      entityType: "Appointment",
+      entityId: appointment.id,
+      userId: null,
+      userRole: "CLIENT",
+      salonId: request.salonId,
+      details: {
+        clientId: appointment.clientId,
+        serviceId: service.id,
+        staffId: staff.id,
+        startTime: startTime.toISOString(),
+        bookingRequestId: request.id,
+        ipAddress: ip,
+      },
+    });
+
+    revalidatePath("/dashboard/appointments");
+    await invalidateDashboardCache(request.salonId);
+
+    try {
+      await sendEmail({
+        to: request.email,
+        subject: `Appointment confirmed at ${salon.name}`,
+        html: bookingConfirmationEmailHtml({
+          salonName: salon.name,
+          clientName: request.firstName,
+          serviceName: service.name,
+          staffName: `${staff.firstName} ${staff.lastName}`,
+          dateTime: formatInTz(startTime, "EEEE, MMMM d 'at' h:mm a", salon.timezone),
+          salonAddress: salon.address,
+          salonPhone: salon.phone,
+          manageUrl: getAppointmentManageUrl(appointment.id, startTime),
+        }),
+        salonName: salon.name,
+      });
+    } catch (error) {
+      // The booking stands even if the confirmation email fails
+      console.error("Error sending booking confirmation email:", error);
+    }
+
+    return { success: true, data: { appointmentId: appointment.id, startTime } };
+  } catch (error) {
+    console.error("Error confirming online booking:", error);
+    if (error instanceof Error && !(error instanceof Prisma.PrismaClientKnownRequestError)) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to confirm booking" };
+  }
+}
@@ -0,0 +1,376 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { CashMovementType, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { ActionResult } from "@/lib/types";
+import { cashDrawerTotals, DrawerPaymentSummary } from "@/lib/cash-drawer";
+import {
+  CashDrawerTotals,
+  DenominationCount,
+  cashVariance,
+  countedCashTotal,
+} from "@/lib/utils/cash-drawer";
+import {
+  openCashDrawerSchema,
+  cashMovementSchema,
+  closeCashDrawerSchema,
+  OpenCashDrawerInput,
+  CashMovementInput,
+  CloseCashDrawerInput,
+} from "@/lib/validations/cash-drawer";
+import { logAudit } from "./audit";
+
+const staffSelect = { select: { firstName: true, lastName: true } } as const;
+
+const sessionInclude = Prisma.validator<Prisma.CashDrawerSessionInclude>()({
+  salon: { select: { name: true } },
+  openedBy: staffSelect,
+  closedBy: staffSelect,
+  movements: {
+    include: { createdBy: staffSelect },
+    orderBy: { createdAt: "asc" },
+  },
+});
+
+type CashDrawerSessionWithRelations = Prisma.CashDrawerSessionGetPayload<{
+  include: typeof sessionInclude;
+}>;
+
+export interface CashDrawerSessionItem {
+  id: string;
+  openedAt: Date;
+  closedAt: Date | null;
+  openedBy: string;
+  closedBy: string | null;
+  openingFloat: number;
+  expectedCash: number | null; // Set at close
+  countedCash: number | null;
+  variance: number | null; // Counted less expected: positive is over, negative is short
+}
+
+export interface CashMovementItem {
+  id: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/** A drawer session with everything the Z report shows. */
+export interface CashDrawerDetail extends CashDrawerSessionItem {
+  branchName: string;
+  openingNote: string | null;
+  closingNote: string | null;
+  totals: CashDrawerTotals;
+  payments: DrawerPaymentSummary[];
+  cashRefundCount: number;
+  movements: CashMovementItem[];
+  denominations: DenominationCount[];
+}
+
+function staffName(user: { firstName: string; lastName: string }): string {
+  return `${user.firstName} ${user.lastName}`;
+}
+
+function toSessionItem(session: Omit<CashDrawerSessionWithRelations, "salon" | "movements">): CashDrawerSessionItem {
+  const expected = session.expectedCash !== null ? Number(session.expectedCash) : null;
+  const counted = session.countedCash !== null ? Number(session.countedCash) : null;
+  return {
+    id: session.id,
+    openedAt: session.openedAt,
+    closedAt: session.closedAt,
+    openedBy: staffName(session.openedBy),
+    closedBy: session.closedBy ? staffName(session.closedBy) : null,
+    openingFloat: Number(session.openingFloat),
+    expectedCash: expected,
+    countedCash: counted,
+    variance: expected !== null && counted !== null ? cashVariance(counted, expected) : null,
+  };
+}
+
+async function toSessionDetail(session: CashDrawerSessionWithRelations): Promise<CashDrawerDetail> {
+  const { totals, payments, cashRefundCount } = await cashDrawerTotals(prisma, session);
+  return {
+    ...toSessionItem(session),
+    branchName: session.salon.name,
+    openingNote: session.openingNote,
+    closingNote: session.closingNote,
+    // A closed drawer keeps the expected cash it was counted against
+    totals: session.expectedCash !== null ? { ...totals, expected: Number(session.expectedCash) } : totals,
+    payments,
+    cashRefundCount,
+    movements: session.movements.map((m) => ({
+      id: m.id,
+      type: m.type,
+      amount: Number(m.amount),
+      reason: m.reason,
+      createdBy: staffName(m.createdBy),
+      createdAt: m.createdAt,
+    })),
+    denominations: (session.denominations as DenominationCount[] | null) ?? [],
+  };
+}
+
+/** The branch's open drawer, if any, and its most recent closed sessions. */
+export async function getCashDrawer(): Promise<ActionResult<{
+  current: CashDrawerDetail | null;
+  sessions: CashDrawerSessionItem[];
+}>> {
+  const authResult = await checkAuth("cash-drawer:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const [current, sessions] = await Promise.all([
+      prisma.cashDrawerSession.findFirst({
+        where: { salonId: authResult.salonId, closedAt: null },
+        include: sessionInclude,
+      }),
+      prisma.cashDrawerSession.findMany({
+        where: { salonId: authResult.salonId, closedAt: { not: null } },
+        include: { openedBy: staffSelect, closedBy: staffSelect },
+        orderBy: { closedAt: "desc" },
+        take: 30,
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        current: current ? await toSessionDetail(current) : null,
+        sessions: sessions.map(toSessionItem),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching cash drawer:", error);
+    return { success: false, error: "Failed to fetch cash drawer" };
+  }
+}
+
+/** One drawer session at this branch, for its Z report. */
+export async function getCashDrawerSession(id: string): Promise<ActionResult<CashDrawerDetail>> {
+  const authResult = await checkAuth("cash-drawer:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const session = await prisma.cashDrawerSession.findFirst({
+      where: { id, salonId: authResult.salonId },
+      include: sessionInclude,
+    });
+    if (!session) {
+      return { success: false, error: "Cash drawer session not found" };
+    }
+
+    return { success: true, data: await toSessionDetail(session) };
+  } catch (error) {
+    console.error("Error fetching cash drawer session:", error);
+    return { success: false, error: "Failed to fetch cash drawer session" };
+  }
+}
+
+/** Open the branch's drawer with a float. Only one drawer can be open per branch. */
+export async function openCashDrawer(data: OpenCashDrawerInput): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("cash-drawer:operate");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = openCashDrawerSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { openingFloat, note } = validationResult.data;
+
+  try {
+    const session = await prisma.$transaction(
+      async (tx) => {
+        const open = await tx.cashDrawerSession.findFirst({
+          where: { salonId: authResult.salonId, closedAt: null },
+          select: { id: true },
+        });
+        if (open) {
+          throw new Error("A cash drawer is already open at this branch");
+        }
+
+        return tx.cashDrawerSession.create({
+          data: {
+            salonId: authResult.salonId,
+            openedById: authResult.userId,
+            openingFloat,
+            openingNote: note,
+          },
+        });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    await logAudit({
+      action: "CASH_DRAWER_OPENED",
+      entityType: "CashDrawerSession",
+      entityId: session.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { openingFloat, note },
+    });
+
+    revalidatePath("/dashboard/cash-drawer");
+    return { success: true, data: { id: session.id } };
+  } catch (error) {
+    console.error("Error opening cash drawer:", error);
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to open cash drawer" };
+  }
+}
+
+/** Record petty cash paid into or out of the open drawer. */
+export async function recordCashMovement(data: CashMovementInput): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("cash-drawer:operate");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = cashMovementSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { type, amount, reason } = validationResult.data;
+
+  try {
+    const session = await prisma.cashDrawerSession.findFirst({
+      where: { salonId: authResult.salonId, closedAt: null },
+      select: { id: true },
+    });
+    if (!session) {
+      return { success: false, error: "Open the cash drawer first" };
+    }
+
+    const movement = await prisma.cashMovement.create({
+      data: {
+        sessionId: session.id,
+        type,
+        amount,
+        reason,
+        createdById: authResult.userId,
+      },
+    });
+
+    await logAudit({
+      action: type === CashMovementType.PAY_IN ? "CASH_DRAWER_PAY_IN" : "CASH_DRAWER_PAY_OUT",
+      entityType: "CashDrawerSession",
+      entityId: session.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { movementId: movement.id, amount, reason },
+    });
+
+    revalidatePath("/dashboard/cash-drawer");
+    return { success: true, data: { id: movement.id } };
+  } catch (error) {
+    console.error("Error recording cash movement:", error);
+    return { success: false, error: "Failed to record cash movement" };
+  }
+}
+
+/**
+ * Close the open drawer with a count of the notes and coins in it. Expected
+ * cash is worked out at that moment and stored with the count, so the
+ * session's Z report shows what the drawer was closed against.
+ */
+export async function closeCashDrawer(data: CloseCashDrawerInput): Promise<ActionResult<{
+  id: string;
+  expected: number;
+  counted: number;
+  variance: number;
+}>> {
+  const authResult = await checkAuth("cash-drawer:operate");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = closeCashDrawerSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { note } = validationResult.data;
+  const denominations = validationResult.data.denominations
+    .filter((d) => d.count > 0)
+    .sort((a, b) => b.value - a.value);
+  const counted = countedCashTotal(denominations);
+
+  try {
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const session = await tx.cashDrawerSession.findFirst({
+          where: { salonId: authResult.salonId, closedAt: null },
+          include: { movements: { select: { type: true, amount: true } } },
+        });
+        if (!session) {
+          throw new Error("There is no open cash drawer at this branch");
+        }
+
+        const closedAt = new Date();
+        const { totals } = await cashDrawerTotals(tx, { ...session, closedAt });
+
+        const closed = await tx.cashDrawerSession.updateMany({
+          where: { id: session.id, closedAt: null },
+          data: {
+            closedAt,
+            closedById: authResult.userId,
+            expectedCash: totals.expected,
+            countedCash: counted,
+            denominations,
+            closingNote: note,
+          },
+        });
+        if (closed.count === 0) {
+          throw new Error("This cash drawer has already been closed");
+        }
+
+        return { id: session.id, totals };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    const variance = cashVariance(counted, result.totals.expected);
+
+    await logAudit({
+      action: "CASH_DRAWER_CLOSED",
+      entityType: "CashDrawerSession",
+      entityId: result.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: {
+        ...result.totals,
+        counted,
+        variance,
+        note,
+      },
+    });
+
+    revalidatePath("/dashboard/cash-drawer");
+    return {
+      success: true,
+      data: { id: result.id, expected: result.totals.expected, counted, variance },
+    };
+  } catch (error) {
+    console.error("Error closing cash drawer:", error);
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to close cash drawer" };
+  }
+}
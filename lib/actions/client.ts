@@ -29,6 +29,11 @@ async function checkAuth(permission: string): Promise<{ userId: string; role: Ro
 
 const clientListInclude = Prisma.validator<Prisma.ClientInclude>()({
   loyaltyPoints: true,
+  memberships: {
+    where: { status: { not: "CANCELLED" } },
+    select: { status: true, cancelAtPeriodEnd: true },
+    take: 1,
+  },
   _count: {
     select: {
       appointments: true,
@@ -0,0 +1,254 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { ActionResult } from "@/lib/types";
+import { commissionPlanSchema, CommissionPlanFormData } from "@/lib/validations/commission";
+import { getOrganizationSalonIds } from "./branch";
+import { logAudit } from "./audit";
+
+const commissionPlanInclude = Prisma.validator<Prisma.CommissionPlanInclude>()({
+  tiers: { orderBy: { minRevenue: "asc" } },
+  serviceRates: {
+    include: { service: { select: { id: true, name: true } } },
+    orderBy: { service: { name: "asc" } },
+  },
+  staff: {
+    select: { userId: true, user: { select: { firstName: true, lastName: true } } },
+    orderBy: { user: { firstName: "asc" } },
+  },
+});
+
+export type CommissionPlanListItem = Prisma.CommissionPlanGetPayload<{
+  include: typeof commissionPlanInclude;
+}>;
+
+// Override services must exist within the organization and staff must work at the branch
+async function validatePlanReferences(
+  salonId: string,
+  serviceIds: string[],
+  staffIds: string[]
+): Promise<string | null> {
+  if (serviceIds.length > 0) {
+    const orgSalonIds = await getOrganizationSalonIds(salonId);
+    const count = await prisma.service.count({
+      where: { id: { in: serviceIds }, salonId: { in: orgSalonIds } },
+    });
+    if (count !== serviceIds.length) return "One or more services are not available";
+  }
+  if (staffIds.length > 0) {
+    const count = await prisma.userSalon.count({
+      where: { salonId, userId: { in: staffIds }, isActive: true },
+    });
+    if (count !== staffIds.length) return "One or more staff members do not work at this branch";
+  }
+  return null;
+}
+
+/** Commission plans at this branch. */
+export async function getCommissionPlans(): Promise<ActionResult<CommissionPlanListItem[]>> {
+  const authResult = await checkAuth("commissions:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const plans = await prisma.commissionPlan.findMany({
+      where: { salonId: authResult.salonId },
+      include: commissionPlanInclude,
+      orderBy: [{ isActive: "desc" }, { name: "asc" }],
+    });
+
+    return { success: true, data: plans };
+  } catch (error) {
+    console.error("Error fetching commission plans:", error);
+    return { success: false, error: "Failed to fetch commission plans" };
+  }
+}
+
+export async function createCommissionPlan(data: CommissionPlanFormData): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("commissions:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = commissionPlanSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { tiers, serviceRates, staffIds, ...rest } = validationResult.data;
+
+  try {
+    const referenceError = await validatePlanReferences(
+      authResult.salonId,
+      serviceRates.map((r) => r.serviceId),
+      staffIds
+    );
+    if (referenceError) {
+      return { success: false, error: referenceError };
+    }
+
+    const plan = await prisma.$transaction(async (tx) => {
+      const created = await tx.commissionPlan.create({
+        data: {
+          ...rest,
+          salonId: authResult.salonId,
+          tiers: { create: tiers },
+          serviceRates: { create: serviceRates },
+        },
+      });
+
+      // A staff member earns under one plan per branch, so this moves them off any other
+      if (staffIds.length > 0) {
+        await tx.userSalon.updateMany({
+          where: { salonId: authResult.salonId, userId: { in: staffIds } },
+          data: { commissionPlanId: created.id },
+        });
+      }
+
+      return created;
+    });
+
+    await logAudit({
+      action: "COMMISSION_PLAN_CREATED",
+      entityType: "CommissionPlan",
+      entityId: plan.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { ...rest, tiers, serviceRates, staffIds },
+    });
+
+    revalidatePath("/dashboard/payroll/commissions");
+    return { success: true, data: { id: plan.id } };
+  } catch (error) {
+    console.error("Error creating commission plan:", error);
+    return { success: false, error: "Failed to create commission plan" };
+  }
+}
+
+/**
+ * Update a plan and who earns under it. Rates apply to payroll runs created
+ * (or recalculated) from now on; finalized runs keep the rates they were
+ * calculated with.
+ */
+export async function updateCommissionPlan(
+  data: { id: string } & CommissionPlanFormData
+): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("commissions:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = commissionPlanSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { tiers, serviceRates, staffIds, ...rest } = validationResult.data;
+
+  try {
+    const existing = await prisma.commissionPlan.findFirst({
+      where: { id: data.id, salonId: authResult.salonId },
+      select: { id: true, name: true, serviceRate: true, retailRate: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Commission plan not found" };
+    }
+
+    const referenceError = await validatePlanReferences(
+      authResult.salonId,
+      serviceRates.map((r) => r.serviceId),
+      staffIds
+    );
+    if (referenceError) {
+      return { success: false, error: referenceError };
+    }
+
+    await prisma.$transaction([
+      prisma.commissionTier.deleteMany({ where: { planId: existing.id } }),
+      prisma.commissionServiceRate.deleteMany({ where: { planId: existing.id } }),
+      prisma.commissionPlan.update({
+        where: { id: existing.id },
+        data: {
+          ...rest,
+          tiers: { create: tiers },
+          serviceRates: { create: serviceRates },
+        },
+      }),
+      prisma.userSalon.updateMany({
+        where: { commissionPlanId: existing.id, userId: { notIn: staffIds } },
+        data: { commissionPlanId: null },
+      }),
+      prisma.userSalon.updateMany({
+        where: { salonId: authResult.salonId, userId: { in: staffIds } },
+        data: { commissionPlanId: existing.id },
+      }),
+    ]);
+
+    await logAudit({
+      action: "COMMISSION_PLAN_UPDATED",
+      entityType: "CommissionPlan",
+      entityId: existing.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: {
+        name: { from: existing.name, to: rest.name },
+        serviceRate: { from: Number(existing.serviceRate), to: rest.serviceRate },
+        retailRate: { from: Number(existing.retailRate), to: rest.retailRate },
+        tiers,
+        serviceRates,
+        staffIds,
+      },
+    });
+
+    revalidatePath("/dashboard/payroll/commissions");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error updating commission plan:", error);
+    return { success: false, error: "Failed to update commission plan" };
+  }
+}
+
+/**
+ * Delete a plan. Its staff stop earning commission; commission already in
+ * payroll runs is unaffected.
+ */
+export async function deleteCommissionPlan(id: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("commissions:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const plan = await prisma.commissionPlan.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { id: true, name: true },
+    });
+    if (!plan) {
+      return { success: false, error: "Commission plan not found" };
+    }
+
+    await prisma.commissionPlan.delete({ where: { id: plan.id } });
+
+    await logAudit({
+      action: "COMMISSION_PLAN_DELETED",
+      entityType: "CommissionPlan",
+      entityId: plan.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { name: plan.name },
+    });
+
+    revalidatePath("/dashboard/payroll/commissions");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error deleting commission plan:", error);
+    return { success: false, error: "Failed to delete commission plan" };
+  }
+}
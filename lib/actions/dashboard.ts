@@ -4,7 +4,7 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { hasPermission } from "@/lib/permissions";
 import { subDays, startOfDay, endOfDay } from "date-fns";
-import { Role, AppointmentStatus } from "@prisma/client";
+import { Prisma, Role, AppointmentStatus } from "@prisma/client";
 import { getSettings } from "./settings";
 import {
   getNow,
@@ -17,6 +17,16 @@ import {
 import { ActionResult } from "@/lib/types";
 import { cacheGet, cacheSet } from "@/lib/redis";
 import { getOrganizationSalonIds, getOrgRootSalonId } from "./branch";
+import { excludingTax } from "@/lib/utils/tax";
+import { OPEN_INVOICE_STATUSES } from "@/lib/receivables";
+import {
+  AGING_BUCKETS,
+  AgingBucket,
+  agingBucket,
+  daysPastDue,
+  invoiceBalance,
+  invoiceDueDate,
+} from "@/lib/utils/receivables";
 
 async function checkAuth(): Promise<{ userId: string; role: Role; salonId: string; isSuperAdmin: boolean } | null> {
   const session = await auth();
@@ -449,12 +459,26 @@ export async function getDashboardStats(params?: {
 export interface ReportData {
   revenueByDay: { date: string; revenue: number; salesCount: number; expenses: number; cost?: number; profit?: number }[];
   revenueByItem: { item: string; revenue: number; percentage: number; cost?: number; profit?: number; margin?: number }[];
-  revenueByStaff: { staff: string; revenue: number; appointments: number; cost?: number; profit?: number }[];
+  revenueByStaff: { staff: string; revenue: number; appointments: number; tips: number; cost?: number; profit?: number }[];
   profitByClient?: { client: string; revenue: number; cost: number; profit: number; margin: number; salesCount: number }[];
   appointmentsByStatus: { status: string; count: number }[];
   clientGrowth: { date: string; newClients: number; totalClients: number }[];
   peakHours: { hour: number; count: number }[];
   expensesByCategory: { category: string; color: string; amount: number }[];
+  // Unspent value on active gift cards (as of now) and card activity in the period
+  giftCardLiability: { outstanding: number; activeCards: number; issued: number; redeemed: number };
+  // Prepaid package sessions not yet used (as of now), and package sales / sessions used in the period
+  packageDeferredRevenue: { outstanding: number; activePackages: number; sold: number; recognized: number };
+  // Promo code redemptions on sales paid in the period
+  promotions: { code: string; name: string; redemptions: number; discount: number }[];
+  // Tax charged on invoices paid in the period, by rate, less tax refunded in the period
+  taxSummary: { name: string; rate: number; inclusive: boolean; taxable: number; tax: number; refunded: number; net: number }[];
+  // Unpaid invoices (as of now) by days past their due date, and the clients owing the most
+  receivablesAging: {
+    buckets: { bucket: AgingBucket; label: string; invoices: number; amount: number }[];
+    clients: { client: string; balances: Record<AgingBucket, number>; total: number }[];
+    total: number;
+  };
   totals: {
     revenue: number;
     sales: number;
@@ -518,12 +542,22 @@ export async function getReportData(params: {
     }
 
     // Fetch all report data in parallel
+    const now = new Date();
     const [
       salesData,
       appointmentsData,
       clientsData,
       saleItemsData,
       expensesData,
+      giftCardBalances,
+      giftCardActivity,
+      unusedPackageSessions,
+      packageActivity,
+      tipsData,
+      redemptionsData,
+      invoiceTaxesData,
+      refundsData,
+      openInvoicesData,
     ] = await Promise.all([
       // Sales in date range
       prisma.sale.findMany({
@@ -535,6 +569,7 @@ export async function getReportData(params: {
         select: {
           createdAt: true,
           finalAmount: true,
+          invoice: { select: { taxes: { where: { inclusive: true }, select: { amount: true } } } },
         },
         orderBy: { createdAt: "asc" },
       }),
@@ -587,14 +622,133 @@ export async function getReportData(params: {
           category: { select: { name: true, color: true } },
         },
       }),
+
+      // Outstanding gift card balances (unexpired, not voided)
+      prisma.giftCard.aggregate({
+        where: {
+          salonId: salonFilter,
+          status: "ACTIVE",
+          balance: { gt: 0 },
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        },
+        _sum: { balance: true },
+        _count: true,
+      }),
+
+      // Gift card issuance and redemption in date range
+      prisma.giftCardTransaction.groupBy({
+        by: ["type"],
+        where: {
+          salonId: salonFilter,
+          type: { in: ["ISSUED", "REDEEMED"] },
+          createdAt: { gte: startDate, lte: endDate },
+        },
+        _sum: { amount: true },
+      }),
+
+      // Unused sessions on active, unexpired client packages
+      prisma.clientPackageItem.findMany({
+        where: {
+          sessionsRemaining: { gt: 0 },
+          clientPackage: {
+            salonId: salonFilter,
+            status: "ACTIVE",
+            OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+          },
+        },
+        select: { clientPackageId: true, sessionsRemaining: true, sessionValue: true },
+      }),
+
+      // Package sales and session use in date range (value is the signed change in deferred revenue)
+      prisma.packageTransaction.groupBy({
+        by: ["type"],
+        where: {
+          salonId: salonFilter,
+          type: { in: ["PURCHASED", "REDEEMED", "RESTORED"] },
+          createdAt: { gte: startDate, lte: endDate },
+        },
+        _sum: { value: true },
+      }),
+
+      // Tips received by staff in date range
+      prisma.tip.findMany({
+        where: {
+          salonId: salonFilter,
+          createdAt: { gte: startDate, lte: endDate },
+        },
+        select: {
+          amount: true,
+          staff: { select: { id: true, firstName: true, lastName: true } },
+        },
+      }),
+
+      // Promo code redemptions in date range
+      prisma.promotionRedemption.findMany({
+        where: {
+          salonId: salonFilter,
+          createdAt: { gte: startDate, lte: endDate },
+        },
+        select: {
+          amount: true,
+          promotion: { select: { id: true, code: true, name: true } },
+        },
+      }),
+
+      // Tax on invoices paid in date range
+      prisma.invoiceTax.findMany({
+        where: {
+          salonId: salonFilter,
+          invoice: { status: { in: ["PAID", "REFUNDED"] }, paidAt: { gte: startDate, lte: endDate } },
+        },
+        select: { name: true, rate: true, inclusive: true, taxableAmount: true, amount: true },
+      }),
+
+      // Refunds in date range, with the tax on the invoices they refund
+      prisma.refund.findMany({
+        where: {
+          invoice: { salonId: salonFilter },
+          createdAt: { gte: startDate, lte: endDate },
+        },
+        select: {
+          amount: true,
+          invoice: {
+            select: {
+              total: true,
+              taxes: { select: { name: true, rate: true, inclusive: true, amount: true } },
+            },
+          },
+        },
+      }),
+
+      // Invoices still owing money, regardless of the date range
+      prisma.invoice.findMany({
+        where: { salonId: salonFilter, status: { in: OPEN_INVOICE_STATUSES } },
+        select: {
+          clientId: true,
+          dueDate: true,
+          issuedAt: true,
+          total: true,
+          payments: { select: { amount: true } },
+          client: { select: { firstName: true, lastName: true } },
+        },
+      }),
     ]);
 
+    // Revenue excludes tax included in prices
+    const saleRevenue = (sale: (typeof salesData)[number]) =>
+      Number(sale.finalAmount) - (sale.invoice?.taxes.reduce((sum, t) => sum + Number(t.amount), 0) ?? 0);
+    const lineRevenue = (item: (typeof saleItemsData)[number]) =>
+      excludingTax(Number(item.price) * item.quantity - Number(item.discount), {
+        taxRate: item.taxRate != null ? Number(item.taxRate) : null,
+        taxInclusive: item.taxInclusive,
+      });
+
     // Revenue by day
     const revenueByDayMap = new Map<string, { revenue: number; salesCount: number }>();
     salesData.forEach((sale) => {
       const dateKey = formatInTz(sale.createdAt, "yyyy-MM-dd", tz);
       const existing = revenueByDayMap.get(dateKey) || { revenue: 0, salesCount: 0 };
-      existing.revenue += Number(sale.finalAmount);
+      existing.revenue += saleRevenue(sale);
       existing.salesCount += 1;
       revenueByDayMap.set(dateKey, existing);
     });
@@ -640,9 +794,13 @@ export async function getReportData(params: {
         ? `svc:${saleItem.service.id}`
         : saleItem.product?.id
           ? `prod:${saleItem.product.id}`
-          : `unknown:${saleItem.id}`;
-      const itemName = saleItem.service?.name || saleItem.product?.name || "Unknown";
-      const amount = Number(saleItem.price) * saleItem.quantity;
+          : saleItem.isGiftCard
+            ? "giftcard"
+            : saleItem.servicePackageId
+              ? `pkg:${saleItem.servicePackageId}`
+              : `unknown:${saleItem.id}`;
+      const itemName = saleItem.service?.name || saleItem.product?.name || (saleItem.isGiftCard ? "Gift Cards" : saleItem.description || "Unknown");
+      const amount = lineRevenue(saleItem);
       const itemCost = saleItem.costAtSale != null ? Number(saleItem.costAtSale) * saleItem.quantity : 0;
       const existing = itemDataMap.get(itemKey) || { name: itemName, revenue: 0, cost: 0 };
       existing.revenue += amount;
@@ -666,25 +824,33 @@ export async function getReportData(params: {
       .slice(0, 10);
 
     // Revenue by staff with cost tracking (keyed by staff ID for stability)
-    const staffRevenueMap = new Map<string, { name: string; revenue: number; cost: number; appointments: number }>();
+    const staffRevenueMap = new Map<string, { name: string; revenue: number; cost: number; appointments: number; tips: number }>();
     saleItemsData.forEach((item) => {
       if (!item.staff) return; // skip product-only items with no staff
       const staffId = item.staff.id;
       const staffName = `${item.staff.firstName} ${item.staff.lastName}`;
-      const amount = Number(item.price) * item.quantity;
+      const amount = lineRevenue(item);
       const itemCost = item.costAtSale != null ? Number(item.costAtSale) * item.quantity : 0;
-      const existing = staffRevenueMap.get(staffId) || { name: staffName, revenue: 0, cost: 0, appointments: 0 };
+      const existing = staffRevenueMap.get(staffId) || { name: staffName, revenue: 0, cost: 0, appointments: 0, tips: 0 };
       existing.revenue += amount;
       existing.cost += itemCost;
       existing.appointments += 1;
       staffRevenueMap.set(staffId, existing);
     });
+    // Tips are not revenue, but are reported alongside it per staff member
+    tipsData.forEach((tip) => {
+      const staffName = `${tip.staff.firstName} ${tip.staff.lastName}`;
+      const existing = staffRevenueMap.get(tip.staff.id) || { name: staffName, revenue: 0, cost: 0, appointments: 0, tips: 0 };
+      existing.tips += Number(tip.amount);
+      staffRevenueMap.set(tip.staff.id, existing);
+    });
 
     const revenueByStaff = Array.from(staffRevenueMap.values())
       .map((data) => ({
         staff: data.name,
         revenue: data.revenue,
         appointments: data.appointments,
+        tips: Math.round(data.tips * 100) / 100,
         ...(canViewProfit && { cost: data.cost, profit: data.revenue - data.cost }),
       }))
       .sort((a, b) => b.revenue - a.revenue);
@@ -698,7 +864,7 @@ export async function getReportData(params: {
         const clientName = item.sale?.client
           ? `${item.sale.client.firstName} ${item.sale.client.lastName || ""}`.trim()
           : "Unknown";
-        const amount = Number(item.price) * item.quantity;
+        const amount = lineRevenue(item);
         const itemCost = item.costAtSale != null ? Number(item.costAtSale) * item.quantity : 0;
         const existing = clientProfitMap.get(clientId) || { name: clientName, revenue: 0, cost: 0, saleIds: new Set<string>() };
         existing.revenue += amount;
@@ -784,8 +950,109 @@ export async function getReportData(params: {
 
     const totalExpenses = expensesData.reduce((sum, e) => sum + Number(e.amount), 0);
 
+    // Gift card liability
+    const giftCardActivityTotal = (type: "ISSUED" | "REDEEMED") =>
+      Math.abs(Number(giftCardActivity.find((g) => g.type === type)?._sum.amount ?? 0));
+    const giftCardLiability: ReportData["giftCardLiability"] = {
+      outstanding: Number(giftCardBalances._sum.balance ?? 0),
+      activeCards: giftCardBalances._count,
+      issued: giftCardActivityTotal("ISSUED"),
+      redeemed: giftCardActivityTotal("REDEEMED"),
+    };
+
+    // Package deferred revenue
+    const packageActivityTotal = (type: "PURCHASED" | "REDEEMED" | "RESTORED") =>
+      Number(packageActivity.find((p) => p.type === type)?._sum.value ?? 0);
+    const packageDeferredRevenue: ReportData["packageDeferredRevenue"] = {
+      outstanding: unusedPackageSessions.reduce((sum, i) => sum + i.sessionsRemaining * Number(i.sessionValue), 0),
+      activePackages: new Set(unusedPackageSessions.map((i) => i.clientPackageId)).size,
+      sold: packageActivityTotal("PURCHASED"),
+      recognized: -(packageActivityTotal("REDEEMED") + packageActivityTotal("RESTORED")),
+    };
+
+    // Promotions by redemptions
+    const promotionMap = new Map<string, ReportData["promotions"][number]>();
+    redemptionsData.forEach((redemption) => {
+      const existing = promotionMap.get(redemption.promotion.id)
+        || { code: redemption.promotion.code, name: redemption.promotion.name, redemptions: 0, discount: 0 };
+      existing.redemptions += 1;
+      existing.discount += Number(redemption.amount);
+      promotionMap.set(redemption.promotion.id, existing);
+    });
+    const promotions = Array.from(promotionMap.values())
+      .map((p) => ({ ...p, discount: Math.round(p.discount * 100) / 100 }))
+      .sort((a, b) => b.discount - a.discount);
+
+    // Tax summary by rate; refunds give back the refunded share of each tax line
+    const taxSummaryMap = new Map<string, ReportData["taxSummary"][number]>();
+    const taxSummaryEntry = (line: { name: string; rate: Prisma.Decimal; inclusive: boolean }) => {
+      const key = [line.name, Number(line.rate), line.inclusive].join("|");
+      const existing = taxSummaryMap.get(key)
+        || { name: line.name, rate: Number(line.rate), inclusive: line.inclusive, taxable: 0, tax: 0, refunded: 0, net: 0 };
+      taxSummaryMap.set(key, existing);
+      return existing;
+    };
+    invoiceTaxesData.forEach((line) => {
+      const entry = taxSummaryEntry(line);
+      entry.taxable += Number(line.taxableAmount);
+      entry.tax += Number(line.amount);
+    });
+    refundsData.forEach((refund) => {
+      const total = Number(refund.invoice.total);
+      if (total <= 0) return;
+      const fraction = Math.min(1, Number(refund.amount) / total);
+      refund.invoice.taxes.forEach((line) => {
+        taxSummaryEntry(line).refunded += Number(line.amount) * fraction;
+      });
+    });
+    const taxSummary = Array.from(taxSummaryMap.values())
+      .map((t) => ({
+        ...t,
+        taxable: Math.round(t.taxable * 100) / 100,
+        tax: Math.round(t.tax * 100) / 100,
+        refunded: Math.round(t.refunded * 100) / 100,
+        net: Math.round((t.tax - t.refunded) * 100) / 100,
+      }))
+      .sort((a, b) => b.rate - a.rate || a.name.localeCompare(b.name));
+
+    // Receivables aging by days past due; invoices raised before due dates count from their issue date
+    const today = formatInTz(now, "yyyy-MM-dd", tz);
+    const emptyBalances = () =>
+      Object.fromEntries(AGING_BUCKETS.map((b) => [b.key, 0])) as Record<AgingBucket, number>;
+    const agingBuckets = AGING_BUCKETS.map((b) => ({ bucket: b.key, label: b.label, invoices: 0, amount: 0 }));
+    const agingByClient = new Map<string, ReportData["receivablesAging"]["clients"][number]>();
+    openInvoicesData.forEach((invoice) => {
+      const paid = invoice.payments.reduce((sum, p) => sum + Number(p.amount), 0);
+      const balance = invoiceBalance(Number(invoice.total), paid);
+      if (balance <= 0) return;
+      const bucket = agingBucket(daysPastDue(invoiceDueDate(invoice, tz), today));
+      const entry = agingBuckets.find((b) => b.bucket === bucket)!;
+      entry.invoices += 1;
+      entry.amount += balance;
+      const client = agingByClient.get(invoice.clientId)
+        || { client: `${invoice.client.firstName} ${invoice.client.lastName ?? ""}`.trim(), balances: emptyBalances(), total: 0 };
+      client.balances[bucket] += balance;
+      client.total += balance;
+      agingByClient.set(invoice.clientId, client);
+    });
+    const roundCents = (n: number) => Math.round(n * 100) / 100;
+    const receivablesAging: ReportData["receivablesAging"] = {
+      buckets: agingBuckets.map((b) => ({ ...b, amount: roundCents(b.amount) })),
+      clients: Array.from(agingByClient.values())
+        .map((c) => ({
+          ...c,
+          balances: Object.fromEntries(
+            Object.entries(c.balances).map(([key, amount]) => [key, roundCents(amount)])
+          ) as Record<AgingBucket, number>,
+          total: roundCents(c.total),
+        }))
+        .sort((a, b) => b.total - a.total)
+        .slice(0, 20),
+      total: roundCents(agingBuckets.reduce((sum, b) => sum + b.amount, 0)),
+    };
+
     // Totals
-    const totalRevenue = salesData.reduce((sum, s) => sum + Number(s.finalAmount), 0);
+    const totalRevenue = salesData.reduce((sum, s) => sum + saleRevenue(s), 0);
     const totals: ReportData["totals"] = {
       revenue: totalRevenue,
       sales: salesData.length,
@@ -807,7 +1074,7 @@ export async function getReportData(params: {
       totals.profitMargin = totalRevenue > 0 ? Math.round((grossProfit / totalRevenue) * 1000) / 10 : 0;
       totals.netProfit = grossProfit - totalExpenses;
 
-      hasMissingCosts = saleItemsData.some((item) => item.costAtSale == null);
+      hasMissingCosts = saleItemsData.some((item) => item.costAtSale == null && !item.isGiftCard && !item.servicePackageId);
     }
 
     const data: ReportData = {
@@ -819,6 +1086,11 @@ export async function getReportData(params: {
       clientGrowth,
       peakHours,
       expensesByCategory,
+      giftCardLiability,
+      packageDeferredRevenue,
+      promotions,
+      taxSummary,
+      receivablesAging,
       totals,
       ...(canViewProfit && { hasMissingCosts }),
       capabilities: canViewProfit ? ["profit:view"] : [],
@@ -0,0 +1,208 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { PaymentMethod } from "@prisma/client";
+import { depositMethodEnum, DepositMethodType } from "@/lib/validations/appointment";
+import { getServiceDeposit } from "@/lib/utils/deposit";
+import { formatInTz } from "@/lib/utils/timezone";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { logAudit } from "./audit";
+
+export interface HeldDeposit {
+  id: string;
+  amount: number;
+  method: PaymentMethod;
+  paidAt: Date;
+  appointmentId: string | null;
+  appointmentStart: Date | null;
+  serviceName: string | null;
+  isDue: boolean; // The appointment is today or earlier, so the deposit should be credited now
+}
+
+/** Deposits a client has paid that are still waiting to be credited at checkout. */
+export async function getHeldDeposits(clientId: string): Promise<ActionResult<HeldDeposit[]>> {
+  const authResult = await checkAuth("sales:create");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const [deposits, settings] = await Promise.all([
+      prisma.payment.findMany({
+        where: { salonId: authResult.salonId, clientId, type: "DEPOSIT", depositStatus: "HELD" },
+        select: {
+          id: true,
+          amount: true,
+          method: true,
+          paidAt: true,
+          appointment: { select: { id: true, startTime: true, service: { select: { name: true } } } },
+        },
+        orderBy: { paidAt: "asc" },
+      }),
+      prisma.settings.findUnique({
+        where: { salonId: authResult.salonId },
+        select: { timezone: true },
+      }),
+    ]);
+
+    const tz = settings?.timezone ?? "UTC";
+    const today = formatInTz(new Date(), "yyyy-MM-dd", tz);
+
+    return {
+      success: true,
+      data: deposits.map((deposit) => ({
+        id: deposit.id,
+        amount: Number(deposit.amount),
+        method: deposit.method,
+        paidAt: deposit.paidAt,
+        appointmentId: deposit.appointment?.id ?? null,
+        appointmentStart: deposit.appointment?.startTime ?? null,
+        serviceName: deposit.appointment?.service.name ?? null,
+        isDue: !deposit.appointment || formatInTz(deposit.appointment.startTime, "yyyy-MM-dd", tz) <= today,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching held deposits:", error);
+    return { success: false, error: "Failed to fetch deposits" };
+  }
+}
+
+/** Take the service's deposit for an upcoming appointment that was booked without one. */
+export async function collectDeposit(data: {
+  appointmentId: string;
+  method: DepositMethodType;
+}): Promise<ActionResult<{ id: string; amount: number }>> {
+  const authResult = await checkAuth("sales:create");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const method = depositMethodEnum.safeParse(data.method);
+  if (!method.success) {
+    return { success: false, error: "Invalid payment method" };
+  }
+
+  try {
+    const appointment = await prisma.appointment.findFirst({
+      where: { id: data.appointmentId, salonId: authResult.salonId },
+      select: {
+        id: true,
+        clientId: true,
+        status: true,
+        service: { select: { price: true, depositType: true, depositValue: true } },
+        deposits: {
+          where: { type: "DEPOSIT", depositStatus: { in: ["HELD", "APPLIED"] } },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!appointment) {
+      return { success: false, error: "Appointment not found" };
+    }
+    if (appointment.status !== "SCHEDULED" && appointment.status !== "CONFIRMED") {
+      return { success: false, error: "Deposits can only be taken for upcoming appointments" };
+    }
+    if (appointment.deposits.length > 0) {
+      return { success: false, error: "A deposit has already been taken for this appointment" };
+    }
+
+    const amount = getServiceDeposit(appointment.service);
+    if (amount <= 0) {
+      return { success: false, error: "This service does not take a deposit" };
+    }
+
+    const deposit = await prisma.payment.create({
+      data: {
+        salonId: authResult.salonId,
+        clientId: appointment.clientId,
+        appointmentId: appointment.id,
+        type: "DEPOSIT",
+        depositStatus: "HELD",
+        amount,
+        method: method.data,
+      },
+    });
+
+    await logAudit({
+      action: "DEPOSIT_COLLECTED",
+      entityType: "Appointment",
+      entityId: appointment.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { paymentId: deposit.id, amount, method: method.data },
+    });
+
+    revalidatePath("/dashboard/appointments");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: { id: deposit.id, amount } };
+  } catch (error) {
+    console.error("Error collecting deposit:", error);
+    return { success: false, error: "Failed to collect deposit" };
+  }
+}
+
+/**
+ * Record paying back a deposit released for refund by a timely cancellation
+ * or a waived fee. Cash refunds come out of the drawer.
+ */
+export async function refundDeposit(data: {
+  paymentId: string;
+  method: DepositMethodType;
+}): Promise<ActionResult<{ amount: number }>> {
+  const authResult = await checkAuth("invoices:refund");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const method = depositMethodEnum.safeParse(data.method);
+  if (!method.success) {
+    return { success: false, error: "Invalid payment method" };
+  }
+
+  try {
+    const deposit = await prisma.payment.findFirst({
+      where: { id: data.paymentId, salonId: authResult.salonId, type: "DEPOSIT" },
+      select: { id: true, appointmentId: true, amount: true, depositStatus: true, refundedAt: true },
+    });
+
+    if (!deposit) {
+      return { success: false, error: "Deposit not found" };
+    }
+    if (deposit.depositStatus !== "REFUNDED") {
+      return { success: false, error: "This deposit has not been released for refund" };
+    }
+
+    // Only a deposit not yet paid back flips, so a double click can't refund it twice
+    const refunded = await prisma.payment.updateMany({
+      where: { id: deposit.id, depositStatus: "REFUNDED", refundedAt: null },
+      data: { refundMethod: method.data, refundedAt: new Date() },
+    });
+    if (refunded.count === 0) {
+      return { success: false, error: "This deposit has already been refunded" };
+    }
+
+    const amount = Number(deposit.amount);
+    await logAudit({
+      action: "DEPOSIT_REFUNDED",
+      entityType: "Appointment",
+      entityId: deposit.appointmentId ?? deposit.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { paymentId: deposit.id, amount, method: method.data },
+    });
+
+    revalidatePath("/dashboard/appointments");
+    revalidatePath("/dashboard/cash-drawer");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: { amount } };
+  } catch (error) {
+    console.error("Error refunding deposit:", error);
+    return { success: false, error: "Failed to refund deposit" };
+  }
+}
@@ -4,12 +4,16 @@ import { prisma } from "@/lib/prisma";
 import { checkAuth } from "@/lib/auth-helpers";
 import { sendEmail } from "@/lib/email";
 import { receiptEmailHtml, invoiceEmailHtml } from "@/lib/email-templates";
+import { invoiceTaxLines, invoiceTaxSelect } from "@/lib/taxes";
+import { clientAccount, sendStatement } from "@/lib/receivables";
 import { getSettings } from "./settings";
-import { formatInTz } from "@/lib/utils/timezone";
+import { getOrganizationSalonIds } from "./branch";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
 import { ActionResult } from "@/lib/types";
 import { logAudit } from "./audit";
 import { PAYMENT_METHOD_LABELS } from "@/lib/constants/payment-methods";
 import { PaymentMethod } from "@prisma/client";
+import { bulkInvoiceSchema, BulkInvoiceInput } from "@/lib/validations/invoice";
 
 export async function sendReceiptEmail(saleId: string): Promise<ActionResult<{ emailId: string }>> {
   const authResult = await checkAuth("sales:view");
@@ -32,7 +36,9 @@ export async function sendReceiptEmail(saleId: string): Promise<ActionResult<{ e
         select: {
           invoiceNumber: true,
           tax: true,
+          taxes: { select: invoiceTaxSelect },
           total: true,
+          tip: true,
           payments: { select: { method: true } },
         },
       },
@@ -58,15 +64,17 @@ export async function sendReceiptEmail(saleId: string): Promise<ActionResult<{ e
       invoiceNumber: sale.invoice.invoiceNumber,
       date: formatInTz(sale.createdAt, "MMMM d, yyyy", tz),
       items: sale.items.map((item) => ({
-        name: item.service?.name || item.product?.name || "Unknown",
+        name: item.service?.name || item.product?.name || item.description || "Unknown",
         staff: item.staff ? `${item.staff.firstName} ${item.staff.lastName}` : undefined,
         price: Number(item.price),
         quantity: item.quantity,
       })),
       subtotal: Number(sale.totalAmount),
-      discount: Number(sale.discount),
+      discount: Number(sale.discount) + Number(sale.memberDiscount) + Number(sale.promotionDiscount),
       tax: Number(sale.invoice.tax),
+      taxLines: invoiceTaxLines(sale.invoice.taxes),
       total: Number(sale.invoice.total),
+      tip: Number(sale.invoice.tip),
       currencyCode: settings.currencyCode,
       paymentMethods: sale.invoice.payments.map(
         (p) => PAYMENT_METHOD_LABELS[p.method as PaymentMethod] ?? p.method
@@ -120,7 +128,10 @@ export async function sendInvoiceEmail(saleId: string): Promise<ActionResult<{ e
           invoiceNumber: true,
           status: true,
           tax: true,
+          taxes: { select: invoiceTaxSelect },
           total: true,
+          tip: true,
+          dueDate: true,
           createdAt: true,
         },
       },
@@ -150,16 +161,19 @@ export async function sendInvoiceEmail(saleId: string): Promise<ActionResult<{ e
       invoiceNumber: sale.invoice.invoiceNumber,
       status: sale.invoice.status,
       date: formatInTz(sale.invoice.createdAt, "MMMM d, yyyy", tz),
+      dueDate: sale.invoice.dueDate ? formatDateOnly(sale.invoice.dueDate, "MMMM d, yyyy") : undefined,
       items: sale.items.map((item) => ({
-        name: item.service?.name || item.product?.name || "Unknown",
+        name: item.service?.name || item.product?.name || item.description || "Unknown",
         staff: item.staff ? `${item.staff.firstName} ${item.staff.lastName}` : undefined,
         price: Number(item.price),
         quantity: item.quantity,
       })),
       subtotal: Number(sale.totalAmount),
-      discount: Number(sale.discount),
+      discount: Number(sale.discount) + Number(sale.memberDiscount) + Number(sale.promotionDiscount),
       tax: Number(sale.invoice.tax),
+      taxLines: invoiceTaxLines(sale.invoice.taxes),
       total: Number(sale.invoice.total),
+      tip: Number(sale.invoice.tip),
       currencyCode: settings.currencyCode,
     });
 
@@ -189,3 +203,96 @@ export async function sendInvoiceEmail(saleId: string): Promise<ActionResult<{ e
     return { success: false, error: message };
   }
 }
+
+/**
+ * Re-send the invoices picked in the invoices table. Invoices from other
+ * branches, or for clients without an email address, are skipped.
+ */
+export async function sendInvoiceEmails(data: BulkInvoiceInput): Promise<ActionResult<{
+  sent: number;
+  skipped: number;
+  failed: number;
+}>> {
+  const authResult = await checkAuth("invoices:view");
+  if (!authResult) return { success: false, error: "Unauthorized" };
+
+  const validationResult = bulkInvoiceSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+  const { invoiceIds } = validationResult.data;
+
+  try {
+    const invoices = await prisma.invoice.findMany({
+      where: { id: { in: invoiceIds }, salonId: authResult.salonId, client: { email: { not: null } } },
+      select: { saleId: true },
+    });
+
+    let sent = 0;
+    let failed = 0;
+    for (const invoice of invoices) {
+      const result = await sendInvoiceEmail(invoice.saleId);
+      if (result.success) {
+        sent++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { success: true, data: { sent, skipped: invoiceIds.length - invoices.length, failed } };
+  } catch (error) {
+    console.error("Failed to send invoice emails:", error);
+    return { success: false, error: "Failed to send invoice emails" };
+  }
+}
+
+export async function sendStatementEmail(clientId: string): Promise<ActionResult<{ emailId: string }>> {
+  const authResult = await checkAuth("invoices:view");
+  if (!authResult) return { success: false, error: "Unauthorized" };
+
+  const { salonId, userId, role } = authResult;
+
+  const orgSalonIds = await getOrganizationSalonIds(salonId);
+  const client = await prisma.client.findFirst({
+    where: { id: clientId, salonId: { in: orgSalonIds } },
+    select: { firstName: true, email: true },
+  });
+
+  if (!client) return { success: false, error: "Client not found" };
+  if (!client.email) return { success: false, error: "Client has no email address" };
+
+  try {
+    const settingsResult = await getSettings();
+    if (!settingsResult.success) {
+      return { success: false, error: "Unable to load salon settings" };
+    }
+    const settings = settingsResult.data;
+
+    const account = await clientAccount(salonId, clientId, settings.timezone);
+    if (account.invoices.length === 0) {
+      return { success: false, error: "Client has no outstanding invoices" };
+    }
+
+    const emailId = await sendStatement(
+      { ...settings, salonId },
+      { firstName: client.firstName, email: client.email },
+      account
+    );
+
+    await logAudit({
+      action: "STATEMENT_EMAIL_SENT",
+      entityType: "Client",
+      entityId: clientId,
+      userId,
+      userRole: role as string,
+      salonId,
+      details: { outstanding: account.outstanding, overdue: account.overdue, invoices: account.invoices.length },
+    });
+
+    return { success: true, data: { emailId: emailId ?? "sent" } };
+  } catch (error) {
+    console.error("Failed to send statement email:", error);
+    const message = error instanceof Error ? error.message : "Failed to send email";
+    return { success: false, error: message };
+  }
+}
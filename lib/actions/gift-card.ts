@@ -0,0 +1,188 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { GiftCardStatus, Prisma } from "@prisma/client";
+import { isGiftCardRedeemable, normalizeGiftCardCode } from "@/lib/utils/gift-card";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { getOrganizationSalonIds } from "./branch";
+import { logAudit } from "./audit";
+
+const giftCardListInclude = Prisma.validator<Prisma.GiftCardInclude>()({
+  purchaser: { select: { id: true, firstName: true, lastName: true } },
+  saleItem: { select: { description: true, sale: { select: { id: true } } } },
+  transactions: {
+    select: {
+      id: true,
+      type: true,
+      amount: true,
+      balanceAfter: true,
+      note: true,
+      createdAt: true,
+      invoice: { select: { id: true, invoiceNumber: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  },
+});
+
+export type GiftCardListItem = Prisma.GiftCardGetPayload<{
+  include: typeof giftCardListInclude;
+}>;
+
+export interface GiftCardBalance {
+  code: string;
+  balance: number;
+  expiresAt: Date | null;
+  redeemable: boolean;
+  reason?: string; // Why the card cannot be used
+}
+
+/** Check a code at the till before taking it as payment. */
+export async function lookupGiftCard(code: string): Promise<ActionResult<GiftCardBalance>> {
+  const authResult = await checkAuth("sales:create");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const normalized = normalizeGiftCardCode(code);
+  if (!normalized) {
+    return { success: false, error: "Enter a gift card code" };
+  }
+
+  try {
+    const orgSalonIds = await getOrganizationSalonIds(authResult.salonId);
+    const card = await prisma.giftCard.findFirst({
+      where: { code: normalized, salonId: { in: orgSalonIds } },
+      select: { code: true, balance: true, status: true, expiresAt: true },
+    });
+
+    if (!card) {
+      return { success: false, error: "Gift card not found" };
+    }
+
+    const redeemable = isGiftCardRedeemable(card) && Number(card.balance) > 0;
+    return {
+      success: true,
+      data: {
+        code: card.code,
+        balance: Number(card.balance),
+        expiresAt: card.expiresAt,
+        redeemable,
+        reason: redeemable
+          ? undefined
+          : card.status === "VOIDED"
+            ? "This gift card has been voided"
+            : card.expiresAt && card.expiresAt <= new Date()
+              ? "This gift card has expired"
+              : "This gift card has no balance left",
+      },
+    };
+  } catch (error) {
+    console.error("Error looking up gift card:", error);
+    return { success: false, error: "Failed to look up gift card" };
+  }
+}
+
+/** Gift cards issued by this salon, newest first, optionally filtered by code or purchaser. */
+export async function getGiftCards(params?: {
+  query?: string;
+  status?: GiftCardStatus;
+}): Promise<ActionResult<GiftCardListItem[]>> {
+  const authResult = await checkAuth("giftcards:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const query = params?.query?.trim();
+
+  try {
+    const cards = await prisma.giftCard.findMany({
+      where: {
+        salonId: authResult.salonId,
+        ...(params?.status && { status: params.status }),
+        ...(query && {
+          OR: [
+            { code: { contains: normalizeGiftCardCode(query), mode: "insensitive" as const } },
+            { code: { contains: query, mode: "insensitive" as const } },
+            { purchaser: { firstName: { contains: query, mode: "insensitive" as const } } },
+            { purchaser: { lastName: { contains: query, mode: "insensitive" as const } } },
+          ],
+        }),
+      },
+      include: giftCardListInclude,
+      orderBy: { createdAt: "desc" },
+      take: 200,
+    });
+
+    return { success: true, data: cards };
+  } catch (error) {
+    console.error("Error fetching gift cards:", error);
+    return { success: false, error: "Failed to fetch gift cards" };
+  }
+}
+
+/** Cancel a lost or fraudulent card. Its remaining balance is written off. */
+export async function voidGiftCard(id: string, reason?: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("giftcards:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const note = reason?.trim().slice(0, 500) || null;
+
+  try {
+    const balance = await prisma.$transaction(async (tx) => {
+      const card = await tx.giftCard.findFirst({
+        where: { id, salonId: authResult.salonId },
+        select: { id: true, status: true, balance: true },
+      });
+      if (!card) {
+        throw new Error("Gift card not found");
+      }
+
+      const voided = await tx.giftCard.updateMany({
+        where: { id: card.id, status: "ACTIVE", balance: card.balance },
+        data: { status: "VOIDED", balance: 0 },
+      });
+      if (voided.count === 0) {
+        throw new Error(card.status === "VOIDED" ? "This gift card is already voided" : "Gift card changed, please try again");
+      }
+
+      await tx.giftCardTransaction.create({
+        data: {
+          giftCardId: card.id,
+          salonId: authResult.salonId,
+          type: "VOIDED",
+          amount: -Number(card.balance),
+          balanceAfter: 0,
+          createdById: authResult.userId,
+          note,
+        },
+      });
+
+      return Number(card.balance);
+    });
+
+    await logAudit({
+      action: "GIFT_CARD_VOIDED",
+      entityType: "GiftCard",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { balanceWrittenOff: balance, reason: note },
+    });
+
+    revalidatePath("/dashboard/gift-cards");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error voiding gift card:", error);
+    if (error instanceof Error && !(error instanceof Prisma.PrismaClientKnownRequestError)) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to void gift card" };
+  }
+}
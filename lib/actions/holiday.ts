@@ -0,0 +1,203 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { hasPermission } from "@/lib/permissions";
+import { holidaySchema, HolidayFormData } from "@/lib/validations/schedule";
+import { Prisma } from "@prisma/client";
+import { dayToDate, getClosurePeriods } from "@/lib/availability";
+import { formatInTz } from "@/lib/utils/timezone";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { getOrgRootSalonId } from "./branch";
+import { getTimezone } from "./settings";
+import { logAudit } from "./audit";
+
+export interface HolidayListItem {
+  id: string;
+  date: Date;
+  name: string;
+  openTime: string | null;
+  closeTime: string | null;
+  appliesToOrganization: boolean;
+  isInherited: boolean; // Organization-wide holiday defined on the main salon
+}
+
+export interface ClosurePeriod {
+  day: string;
+  name: string;
+  start: Date;
+  end: Date;
+}
+
+/** Holidays for the current salon, including organization-wide ones, from `from` onwards. */
+export async function getHolidays(params?: { from?: string }): Promise<ActionResult<HolidayListItem[]>> {
+  const authResult = await checkAuth("schedules:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const rootSalonId = await getOrgRootSalonId(authResult.salonId);
+
+    const holidays = await prisma.salonHoliday.findMany({
+      where: {
+        OR: [
+          { salonId: authResult.salonId },
+          { salonId: rootSalonId, appliesToOrganization: true },
+        ],
+        ...(params?.from && { date: { gte: dayToDate(params.from) } }),
+      },
+      orderBy: { date: "asc" },
+    });
+
+    return {
+      success: true,
+      data: holidays.map((h) => ({
+        id: h.id,
+        date: h.date,
+        name: h.name,
+        openTime: h.openTime,
+        closeTime: h.closeTime,
+        appliesToOrganization: h.appliesToOrganization,
+        isInherited: h.salonId !== authResult.salonId,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching holidays:", error);
+    return { success: false, error: "Failed to fetch holidays" };
+  }
+}
+
+/**
+ * Add a closure or reduced-hours day. Organization-wide holidays are stored on
+ * the main salon and require branch management rights (OWNER).
+ */
+export async function createHoliday(data: HolidayFormData): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("schedules:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = holidaySchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { date, name, closedAllDay, openTime, closeTime, appliesToOrganization } = validationResult.data;
+
+  if (appliesToOrganization && !hasPermission(authResult.role, "branches:manage", authResult.isSuperAdmin)) {
+    return { success: false, error: "Only the owner can add organization-wide holidays" };
+  }
+
+  try {
+    const salonId = appliesToOrganization
+      ? await getOrgRootSalonId(authResult.salonId)
+      : authResult.salonId;
+
+    const holiday = await prisma.salonHoliday.create({
+      data: {
+        salonId,
+        date: dayToDate(date),
+        name,
+        openTime: closedAllDay ? null : openTime || null,
+        closeTime: closedAllDay ? null : closeTime || null,
+        appliesToOrganization,
+      },
+    });
+
+    await logAudit({
+      action: "HOLIDAY_CREATED",
+      entityType: "SalonHoliday",
+      entityId: holiday.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { date, name, closedAllDay, appliesToOrganization },
+    });
+
+    revalidatePath("/dashboard/schedules");
+    revalidatePath("/dashboard/appointments");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: { id: holiday.id } };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { success: false, error: "A holiday already exists on this date" };
+    }
+    console.error("Error creating holiday:", error);
+    return { success: false, error: "Failed to create holiday" };
+  }
+}
+
+/** Remove a holiday. Organization-wide holidays can only be removed by the owner. */
+export async function deleteHoliday(id: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("schedules:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const rootSalonId = await getOrgRootSalonId(authResult.salonId);
+    const holiday = await prisma.salonHoliday.findFirst({
+      where: { id, salonId: { in: [authResult.salonId, rootSalonId] } },
+    });
+
+    if (!holiday || (holiday.salonId !== authResult.salonId && !holiday.appliesToOrganization)) {
+      return { success: false, error: "Holiday not found" };
+    }
+
+    if (holiday.appliesToOrganization && !hasPermission(authResult.role, "branches:manage", authResult.isSuperAdmin)) {
+      return { success: false, error: "Only the owner can remove organization-wide holidays" };
+    }
+
+    await prisma.salonHoliday.delete({ where: { id } });
+
+    await logAudit({
+      action: "HOLIDAY_DELETED",
+      entityType: "SalonHoliday",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { date: holiday.date.toISOString().slice(0, 10), name: holiday.name },
+    });
+
+    revalidatePath("/dashboard/schedules");
+    revalidatePath("/dashboard/appointments");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error deleting holiday:", error);
+    return { success: false, error: "Failed to delete holiday" };
+  }
+}
+
+/** Closed periods in a date range, for shading the appointment calendar. */
+export async function getCalendarClosures(params: {
+  startDate: Date;
+  endDate: Date;
+}): Promise<ActionResult<ClosurePeriod[]>> {
+  const authResult = await checkAuth("appointments:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const tz = await getTimezone();
+    const periods = await getClosurePeriods(
+      authResult.salonId,
+      formatInTz(params.startDate, "yyyy-MM-dd", tz),
+      formatInTz(params.endDate, "yyyy-MM-dd", tz),
+      tz
+    );
+
+    return { success: true, data: periods };
+  } catch (error) {
+    console.error("Error fetching calendar closures:", error);
+    return { success: false, error: "Failed to fetch closures" };
+  }
+}
@@ -9,17 +9,36 @@ import {
   addPaymentSchema,
   updateInvoiceStatusSchema,
   createRefundSchema,
+  createExchangeSchema,
+  bulkInvoiceSchema,
   InvoiceSearchParams,
   AddPaymentInput,
   UpdateInvoiceStatusInput,
   CreateRefundInput,
+  CreateExchangeInput,
+  BulkInvoiceInput,
 } from "@/lib/validations/invoice";
-import { Role, Prisma, InvoiceStatus, LoyaltyTransactionType } from "@prisma/client";
+import { Role, Prisma, InvoiceStatus, LoyaltyTransactionType, PaymentMethod, RefundMethod } from "@prisma/client";
 import { getSettings } from "./settings";
-import { calculateTier } from "@/lib/utils/loyalty";
+import { getOrganizationSalonIds } from "./branch";
+import { calculateTier, getTierMultiplier } from "@/lib/utils/loyalty";
+import { isLineRefundable, lineRefundAmount, netUnitPrice, paidUnitPrice, RefundBasis } from "@/lib/utils/refund";
+import { memberLineDiscount } from "@/lib/utils/membership";
+import { generateInvoiceNumber } from "@/lib/invoice-number";
 import { ActionResult } from "@/lib/types";
 import { logAudit } from "./audit";
 import { invalidateDashboardCache } from "@/lib/redis";
+import { issueGiftCard, restoreGiftCardPayments, voidIssuedGiftCards } from "@/lib/gift-cards";
+import { restorePackageSessions, voidPurchasedPackages } from "@/lib/packages";
+import { restoreMembershipCredits } from "@/lib/memberships";
+import { computeSaleTax, taxRateFor } from "@/lib/utils/tax";
+import { invoiceTaxLines, invoiceTaxSelect, recordSaleTax, taxClassRate, taxClassSelect } from "@/lib/taxes";
+import { cashRefundAmount } from "@/lib/cash-drawer";
+import { moveStock } from "@/lib/stock";
+import { OPEN_INVOICE_STATUSES } from "@/lib/receivables";
+import { invoiceBalance, isInvoiceCancellable } from "@/lib/utils/receivables";
+import { formatDateOnly, getMonthRange, startOfDayInTz } from "@/lib/utils/timezone";
+import type { InvoicePDFData } from "@/components/invoices/invoice-pdf";
 
 async function checkAuth(permission: Permission): Promise<{ userId: string; role: Role; salonId: string } | null> {
   const session = await auth();
@@ -37,8 +56,25 @@ async function checkAuth(permission: Permission): Promise<{ userId: string; role
   return { userId: session.user.id, role, salonId };
 }
 
+// Salons an invoice lookup covers — only owners can see every branch in their organization
+async function invoiceSalonIds(
+  authResult: { role: Role; salonId: string },
+  branchFilter: "current" | "all" = "current"
+): Promise<string[]> {
+  if (branchFilter === "all" && authResult.role === Role.OWNER) {
+    return getOrganizationSalonIds(authResult.salonId);
+  }
+  return [authResult.salonId];
+}
+
 // Include relations for invoice list
 const invoiceListInclude = Prisma.validator<Prisma.InvoiceInclude>()({
+  salon: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
   client: {
     select: {
       id: true,
@@ -113,6 +149,85 @@ export type InvoiceListItem = Prisma.InvoiceGetPayload<{
   include: typeof invoiceListInclude;
 }>;
 
+// Include relations for the invoice detail view and PDF export
+const invoiceDetailInclude = Prisma.validator<Prisma.InvoiceInclude>()({
+  ...invoiceListInclude,
+  client: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      phone: true,
+      email: true,
+      isWalkIn: true,
+    },
+  },
+  sale: {
+    select: {
+      id: true,
+      createdAt: true,
+      totalAmount: true,
+      discount: true,
+      memberDiscount: true,
+      promotionDiscount: true,
+      finalAmount: true,
+      staff: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+      items: {
+        include: {
+          service: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          product: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          staff: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      },
+    },
+  },
+  refunds: {
+    select: {
+      id: true,
+      amount: true,
+      method: true,
+      reason: true,
+      pointsReversed: true,
+      createdAt: true,
+      refundedBy: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+  },
+  taxes: { select: invoiceTaxSelect },
+});
+
+export type InvoiceDetail = Prisma.InvoiceGetPayload<{
+  include: typeof invoiceDetailInclude;
+}>;
+
 // Get invoices with filters
 export async function getInvoices(params: InvoiceSearchParams = {}): Promise<ActionResult<{
   invoices: InvoiceListItem[];
@@ -130,35 +245,40 @@ export async function getInvoices(params: InvoiceSearchParams = {}): Promise<Act
     return { success: false, error: "Invalid search parameters" };
   }
 
-  const { query, clientId, status, startDate, endDate, page = 1, limit = 20 } = validatedParams.data;
+  const { query, clientId, status, startDate, endDate, branchFilter, page = 1, limit = 20 } = validatedParams.data;
   const safePage = Number.isInteger(page) && page > 0 ? page : 1;
   const safeLimit = Number.isInteger(limit) && limit > 0 ? Math.min(limit, 100) : 20;
   const skip = (safePage - 1) * safeLimit;
 
-  // Build date filter
-  let dateFilter: Prisma.DateTimeFilter | undefined;
-  if (startDate || endDate) {
-    dateFilter = {};
-    if (startDate) dateFilter.gte = startDate;
-    if (endDate) dateFilter.lte = endDate;
-  }
-
-  const where: Prisma.InvoiceWhereInput = {
-    salonId: authResult.salonId,
-    ...(dateFilter && { createdAt: dateFilter }),
-    ...(clientId && { clientId }),
-    ...(status && { status }),
-    ...(query && {
-      OR: [
-        { invoiceNumber: { contains: query, mode: "insensitive" } },
-        { client: { firstName: { contains: query, mode: "insensitive" } } },
-        { client: { lastName: { contains: query, mode: "insensitive" } } },
-        { client: { phone: { contains: query } } },
-      ],
-    }),
-  };
-
   try {
+    const salonIds = await invoiceSalonIds(authResult, branchFilter);
+
+    // Build date filter over whole days in the salon's timezone
+    let dateFilter: Prisma.DateTimeFilter | undefined;
+    if (startDate || endDate) {
+      const settingsResult = await getSettings();
+      const tz = settingsResult.success ? settingsResult.data.timezone : "UTC";
+      dateFilter = {};
+      if (startDate) dateFilter.gte = startOfDayInTz(startDate, tz);
+      if (endDate) dateFilter.lt = startOfDayInTz(endDate, tz, 1);
+    }
+
+    const where: Prisma.InvoiceWhereInput = {
+      salonId: { in: salonIds },
+      ...(dateFilter && { createdAt: dateFilter }),
+      ...(clientId && { clientId }),
+      ...(status && { status }),
+      ...(query && {
+        OR: [
+          { invoiceNumber: { contains: query, mode: "insensitive" } },
+          { client: { firstName: { contains: query, mode: "insensitive" } } },
+          { client: { lastName: { contains: query, mode: "insensitive" } } },
+          { client: { phone: { contains: query } } },
+          { client: { email: { contains: query, mode: "insensitive" } } },
+        ],
+      }),
+    };
+
     const [invoices, total] = await Promise.all([
       prisma.invoice.findMany({
         where,
@@ -185,17 +305,18 @@ export async function getInvoices(params: InvoiceSearchParams = {}): Promise<Act
   }
 }
 
-// Get single invoice
-export async function getInvoice(id: string): Promise<ActionResult<InvoiceListItem>> {
+// Get single invoice — owners can open invoices from any branch
+export async function getInvoice(id: string): Promise<ActionResult<InvoiceDetail>> {
   const authResult = await checkAuth("invoices:view");
   if (!authResult) {
     return { success: false, error: "Unauthorized" };
   }
 
   try {
+    const salonIds = await invoiceSalonIds(authResult, "all");
     const invoice = await prisma.invoice.findFirst({
-      where: { id, salonId: authResult.salonId },
-      include: invoiceListInclude,
+      where: { id, salonId: { in: salonIds } },
+      include: invoiceDetailInclude,
     });
 
     if (!invoice) {
@@ -277,6 +398,8 @@ export async function addPaymentToInvoice(data: AddPaymentInput): Promise<Action
     await prisma.payment.create({
       data: {
         invoiceId,
+        salonId: authResult.salonId,
+        clientId: invoice.clientId,
         amount,
         method,
       },
@@ -310,6 +433,8 @@ export async function addPaymentToInvoice(data: AddPaymentInput): Promise<Action
     });
 
     revalidatePath("/dashboard/invoices");
+    revalidatePath(`/dashboard/invoices/${invoiceId}`);
+    revalidatePath(`/dashboard/clients/${invoice.clientId}`);
     await invalidateDashboardCache(authResult.salonId);
     return { success: true, data: updatedInvoice! };
   } catch (error) {
@@ -343,10 +468,10 @@ export async function updateInvoiceStatus(
       return { success: false, error: "Invoice not found" };
     }
 
-    // Validate status transitions
+    // Validate status transitions; cancelling goes through cancelInvoice, which checks the sale can be voided
     const validTransitions: Record<InvoiceStatus, InvoiceStatus[]> = {
-      PENDING: [InvoiceStatus.PAID, InvoiceStatus.OVERDUE, InvoiceStatus.CANCELLED],
-      OVERDUE: [InvoiceStatus.PAID, InvoiceStatus.CANCELLED],
+      PENDING: [InvoiceStatus.PAID, InvoiceStatus.OVERDUE],
+      OVERDUE: [InvoiceStatus.PAID],
       PAID: [], // Cannot change from paid (refunds are handled separately)
       CANCELLED: [], // Cannot change from cancelled
       REFUNDED: [], // Cannot change from refunded
@@ -384,6 +509,7 @@ export async function updateInvoiceStatus(
     });
 
     revalidatePath("/dashboard/invoices");
+    revalidatePath(`/dashboard/invoices/${id}`);
     await invalidateDashboardCache(authResult.salonId);
     return { success: true, data: updatedInvoice };
   } catch (error) {
@@ -402,7 +528,11 @@ export async function cancelInvoice(id: string): Promise<ActionResult<InvoiceLis
   try {
     const invoice = await prisma.invoice.findFirst({
       where: { id, salonId: authResult.salonId },
-      select: { status: true },
+      select: {
+        status: true,
+        _count: { select: { payments: true } },
+        sale: { select: { items: { select: { billedMembershipId: true } } } },
+      },
     });
 
     if (!invoice) {
@@ -417,9 +547,30 @@ export async function cancelInvoice(id: string): Promise<ActionResult<InvoiceLis
       return { success: false, error: "Invoice is already cancelled" };
     }
 
-    const updatedInvoice = await prisma.invoice.update({
-      where: { id },
+    if (!OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+      return { success: false, error: "Only unpaid invoices can be cancelled" };
+    }
+
+    if (!isInvoiceCancellable({ paymentCount: invoice._count.payments, items: invoice.sale.items })) {
+      return {
+        success: false,
+        error: invoice._count.payments > 0
+          ? "Payments have been recorded on this invoice. Collect the balance and refund it instead of cancelling"
+          : "This invoice is for a completed sale. Collect the balance and refund it to reverse the sale",
+      };
+    }
+
+    // A payment recorded in the meantime stops the cancellation
+    const cancelled = await prisma.invoice.updateMany({
+      where: { id, status: { in: OPEN_INVOICE_STATUSES }, payments: { none: {} } },
       data: { status: InvoiceStatus.CANCELLED },
+    });
+    if (cancelled.count === 0) {
+      return { success: false, error: "The invoice changed while cancelling. Refresh and try again" };
+    }
+
+    const updatedInvoice = await prisma.invoice.findUniqueOrThrow({
+      where: { id },
       include: invoiceListInclude,
     });
 
@@ -433,6 +584,7 @@ export async function cancelInvoice(id: string): Promise<ActionResult<InvoiceLis
     });
 
     revalidatePath("/dashboard/invoices");
+    revalidatePath(`/dashboard/invoices/${id}`);
     await invalidateDashboardCache(authResult.salonId);
     return { success: true, data: updatedInvoice };
   } catch (error) {
@@ -464,11 +616,15 @@ export async function getClientInvoices(clientId: string): Promise<ActionResult<
 }
 
 // Get invoice statistics
-export async function getInvoiceStats(): Promise<ActionResult<{
-  totalPending: number;
-  totalOverdue: number;
+export async function getInvoiceStats(params?: {
+  branchFilter?: "current" | "all";
+}): Promise<ActionResult<{
+  totalPending: number; // Still owed on PENDING invoices
+  totalOverdue: number; // Still owed on OVERDUE invoices
   pendingCount: number;
   overdueCount: number;
+  receivedThisMonth: number;
+  refundedThisMonth: number;
 }>> {
   const authResult = await checkAuth("invoices:view");
   if (!authResult) {
@@ -476,24 +632,52 @@ export async function getInvoiceStats(): Promise<ActionResult<{
   }
 
   try {
-    const [pendingInvoices, overdueInvoices] = await Promise.all([
+    const salonIds = await invoiceSalonIds(authResult, params?.branchFilter);
+    const settingsResult = await getSettings();
+    const tz = settingsResult.success ? settingsResult.data.timezone : "UTC";
+    const { start, end } = getMonthRange(tz);
+
+    const [openInvoices, received, refunded] = await Promise.all([
       prisma.invoice.findMany({
-        where: { salonId: authResult.salonId, status: InvoiceStatus.PENDING },
-        select: { total: true },
+        where: { salonId: { in: salonIds }, status: { in: OPEN_INVOICE_STATUSES } },
+        select: { status: true, total: true, tip: true, payments: { select: { amount: true } } },
       }),
-      prisma.invoice.findMany({
-        where: { salonId: authResult.salonId, status: InvoiceStatus.OVERDUE },
-        select: { total: true },
+      prisma.payment.aggregate({
+        where: { invoice: { salonId: { in: salonIds } }, paidAt: { gte: start, lte: end } },
+        _sum: { amount: true },
+      }),
+      prisma.refund.aggregate({
+        where: { invoice: { salonId: { in: salonIds } }, createdAt: { gte: start, lte: end } },
+        _sum: { amount: true },
       }),
     ]);
 
+    // Sum balances in cents so partly paid invoices only count what is still owed
+    let pendingCents = 0;
+    let overdueCents = 0;
+    let pendingCount = 0;
+    let overdueCount = 0;
+    for (const invoice of openInvoices) {
+      const paid = invoice.payments.reduce((sum, p) => sum + Number(p.amount), 0);
+      const balanceCents = Math.round(invoiceBalance(Number(invoice.total) + Number(invoice.tip), paid) * 100);
+      if (invoice.status === InvoiceStatus.OVERDUE) {
+        overdueCents += balanceCents;
+        overdueCount++;
+      } else {
+        pendingCents += balanceCents;
+        pendingCount++;
+      }
+    }
+
     return {
       success: true,
       data: {
-        totalPending: pendingInvoices.reduce((sum, i) => sum + Number(i.total), 0),
-        totalOverdue: overdueInvoices.reduce((sum, i) => sum + Number(i.total), 0),
-        pendingCount: pendingInvoices.length,
-        overdueCount: overdueInvoices.length,
+        totalPending: pendingCents / 100,
+        totalOverdue: overdueCents / 100,
+        pendingCount,
+        overdueCount,
+        receivedThisMonth: Number(received._sum.amount ?? 0),
+        refundedThisMonth: Number(refunded._sum.amount ?? 0),
       },
     };
   } catch (error) {
@@ -502,10 +686,488 @@ export async function getInvoiceStats(): Promise<ActionResult<{
   }
 }
 
+const pdfSettingsSelect = Prisma.validator<Prisma.SettingsSelect>()({
+  salonId: true,
+  salonName: true,
+  salonAddress: true,
+  salonPhone: true,
+  salonEmail: true,
+  salonLogo: true,
+  currencyCode: true,
+  taxRate: true,
+  timezone: true,
+});
+
+/**
+ * Everything needed to render the picked invoices as PDFs, in the order they
+ * were picked. Each invoice carries its own branch's name, currency and
+ * timezone, so owners can export across branches.
+ */
+export async function getInvoicePDFData(data: BulkInvoiceInput): Promise<ActionResult<InvoicePDFData[]>> {
+  const authResult = await checkAuth("invoices:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = bulkInvoiceSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+  const { invoiceIds } = validationResult.data;
+
+  try {
+    const salonIds = await invoiceSalonIds(authResult, "all");
+    const invoices = await prisma.invoice.findMany({
+      where: { id: { in: invoiceIds }, salonId: { in: salonIds } },
+      include: invoiceDetailInclude,
+    });
+    if (invoices.length === 0) {
+      return { success: false, error: "Invoices not found" };
+    }
+
+    const settingsRows = await prisma.settings.findMany({
+      where: { salonId: { in: [...new Set(invoices.map((i) => i.salonId))] } },
+      select: pdfSettingsSelect,
+    });
+    const settingsBySalon = new Map(settingsRows.map((row) => [row.salonId, row]));
+
+    const pdfData = invoices
+      .sort((a, b) => invoiceIds.indexOf(a.id) - invoiceIds.indexOf(b.id))
+      .map((invoice): InvoicePDFData => {
+        const settings = settingsBySalon.get(invoice.salonId);
+        return {
+          invoiceNumber: invoice.invoiceNumber,
+          status: invoice.status,
+          createdAt: invoice.sale.createdAt.toISOString(),
+          dueDate: invoice.dueDate ? formatDateOnly(invoice.dueDate, "yyyy-MM-dd") : null,
+          salonName: settings?.salonName ?? invoice.salon.name,
+          salonAddress: settings?.salonAddress ?? null,
+          salonPhone: settings?.salonPhone ?? null,
+          salonEmail: settings?.salonEmail ?? null,
+          salonLogo: settings?.salonLogo ?? null,
+          currencyCode: settings?.currencyCode ?? "USD",
+          taxRate: Number(settings?.taxRate ?? 0),
+          timezone: settings?.timezone ?? "UTC",
+          client: {
+            firstName: invoice.client.firstName,
+            lastName: invoice.client.lastName,
+            email: invoice.client.email,
+            phone: invoice.client.phone,
+            isWalkIn: invoice.client.isWalkIn,
+          },
+          items: invoice.sale.items.map((item) => ({
+            id: item.id,
+            service: item.service ? { name: item.service.name } : null,
+            staff: item.staff ? { firstName: item.staff.firstName, lastName: item.staff.lastName } : null,
+            product: item.product ? { name: item.product.name } : null,
+            description: item.description,
+            price: Number(item.price),
+            quantity: item.quantity,
+          })),
+          subtotal: Number(invoice.sale.totalAmount),
+          discount: Number(invoice.sale.discount) + Number(invoice.sale.memberDiscount) + Number(invoice.sale.promotionDiscount),
+          tax: Number(invoice.tax),
+          taxLines: invoiceTaxLines(invoice.taxes),
+          total: Number(invoice.total),
+          tip: Number(invoice.tip),
+          loyaltyPointsEarned: 0,
+          loyaltyPointsRedeemed: 0,
+        };
+      });
+
+    return { success: true, data: pdfData };
+  } catch (error) {
+    console.error("Error preparing invoice PDFs:", error);
+    return { success: false, error: "Failed to prepare invoice PDFs" };
+  }
+}
+
+interface RefundResult {
+  refundId: string;
+  amount: number;
+  pointsReversed: number;
+  giftCardRestored: number;
+  cashRefunded: number;
+  storeCreditCode: string | null;
+  exchangeCredit: number;
+  restocked: { productId: string; quantity: number }[];
+  voidedGiftCards: string[];
+  voidedPackages: string[];
+  sessionsRestored: number;
+  saleId: string;
+  clientId: string;
+}
+
+/**
+ * Refund an invoice inside a transaction: by amount, or by the sale lines and
+ * quantities returned. Returned lines restock their products and reverse the
+ * loyalty points they earned; a full refund also voids what the sale issued
+ * and restocks anything not yet returned. Up to `exchangeTotal` is kept as
+ * credit for a replacement sale; the rest goes back to the client by `method`.
+ */
+async function refundInvoice(
+  tx: Prisma.TransactionClient,
+  params: {
+    salonId: string;
+    userId: string;
+    invoiceId: string;
+    amount?: number;
+    items: { saleItemId: string; quantity: number; restock: boolean }[];
+    method: RefundMethod;
+    reason?: string;
+    exchangeSaleId?: string;
+    exchangeTotal?: number;
+    settings: {
+      goldThreshold: number;
+      platinumThreshold: number;
+      loyaltyPointsPerDollar: number;
+      giftCardExpiryMonths: number;
+    };
+  }
+): Promise<RefundResult> {
+  const { salonId, userId, invoiceId, items, method, reason, settings } = params;
+
+  // Get the invoice with sale and loyalty transaction info (inside transaction)
+  const invoice = await tx.invoice.findFirst({
+    where: { id: invoiceId, salonId },
+    include: {
+      sale: {
+        include: {
+          items: {
+            include: {
+              service: { select: { name: true, points: true } },
+              product: { select: { name: true, points: true } },
+              refundItems: { select: { quantity: true } },
+            },
+          },
+          loyaltyTransactions: {
+            where: { type: LoyaltyTransactionType.EARNED },
+          },
+        },
+      },
+      refunds: true,
+    },
+  });
+
+  if (!invoice) {
+    throw new Error("Invoice not found");
+  }
+
+  if (invoice.status !== InvoiceStatus.PAID) {
+    throw new Error("Only paid invoices can be refunded");
+  }
+
+  // Calculate total already refunded (inside transaction for atomicity)
+  const totalRefunded = invoice.refunds.reduce((sum, r) => sum + Number(r.amount), 0);
+  const remainingRefundable = Number(invoice.total) - totalRefunded;
+
+  const saleItems = new Map(invoice.sale.items.map((item) => [item.id, item]));
+  const returnedBefore = (item: (typeof invoice.sale.items)[number]) =>
+    item.refundItems.reduce((sum, r) => sum + r.quantity, 0);
+
+  // Price the returned lines at what the client paid for them
+  const basis: RefundBasis = {
+    saleTotal: Number(invoice.sale.totalAmount) - Number(invoice.sale.promotionDiscount),
+    invoiceAmount: Number(invoice.amount),
+    invoiceTax: Number(invoice.tax),
+    untaxedValue: invoice.sale.items
+      .filter((item) => item.isGiftCard)
+      .reduce((sum, item) => sum + Number(item.price) * item.quantity, 0),
+  };
+
+  const unitPrice = (item: (typeof invoice.sale.items)[number]) =>
+    netUnitPrice({ price: Number(item.price), discount: Number(item.discount), quantity: item.quantity });
+
+  if (new Set(items.map((i) => i.saleItemId)).size !== items.length) {
+    throw new Error("Each item can only be selected once");
+  }
+  const returnLines = items.map((line) => {
+    const item = saleItems.get(line.saleItemId);
+    if (!item) {
+      throw new Error("Item not found on this invoice");
+    }
+    const name = item.service?.name || item.product?.name || item.description || "Item";
+    if (!isLineRefundable({ serviceId: item.serviceId, productId: item.productId, price: Number(item.price) })) {
+      throw new Error(`"${name}" cannot be refunded as a line item`);
+    }
+    const available = item.quantity - returnedBefore(item);
+    if (line.quantity > available) {
+      throw new Error(`Only ${available} of "${name}" can still be refunded`);
+    }
+    return {
+      item,
+      quantity: line.quantity,
+      restock: line.restock && !!item.productId,
+      amount: lineRefundAmount(
+        unitPrice(item),
+        line.quantity,
+        basis,
+        paidUnitPrice({
+          netAmount: item.netAmount !== null ? Number(item.netAmount) : null,
+          tax: Number(item.tax),
+          quantity: item.quantity,
+        })
+      ),
+    };
+  });
+
+  // Line refunds never take more than is left on the invoice
+  const amount = returnLines.length > 0
+    ? Math.round(Math.min(returnLines.reduce((sum, l) => sum + l.amount, 0), remainingRefundable) * 100) / 100
+    : params.amount ?? 0;
+
+  if (amount < 0.01) {
+    throw new Error("Nothing left to refund on the selected items");
+  }
+
+  if (amount > remainingRefundable + 0.01) {
+    throw new Error(`Refund amount exceeds remaining refundable balance of ${remainingRefundable.toFixed(2)}`);
+  }
+
+  // Check if this will be a full refund (remaining becomes 0 or negative)
+  const newTotalRefunded = totalRefunded + amount;
+  const isFullRefund = newTotalRefunded >= Number(invoice.total) - 0.01;
+
+  // Gift cards and packages sold on this invoice can only be refunded by
+  // voiding them, which happens on a full refund. A partial refund must leave their value.
+  if (!isFullRefund) {
+    const [issuedCards, soldPackages] = await Promise.all([
+      tx.giftCard.findMany({
+        where: { saleItem: { saleId: invoice.saleId }, status: "ACTIVE" },
+        select: { initialValue: true },
+      }),
+      tx.clientPackage.findMany({
+        where: { saleItem: { saleId: invoice.saleId }, status: "ACTIVE" },
+        select: { price: true },
+      }),
+    ]);
+    const issuedValue =
+      issuedCards.reduce((sum, c) => sum + Number(c.initialValue), 0) +
+      soldPackages.reduce((sum, p) => sum + Number(p.price), 0);
+    if (issuedValue > 0 && amount > remainingRefundable - issuedValue + 0.01) {
+      throw new Error(
+        `Only ${Math.max(0, remainingRefundable - issuedValue).toFixed(2)} can be refunded without refunding the gift cards or packages sold on this invoice`
+      );
+    }
+  }
+
+  // Calculate points to reverse
+  const totalPointsEarned = invoice.sale.loyaltyTransactions.reduce(
+    (sum, t) => sum + t.points,
+    0
+  );
+  const pointsAlreadyReversed = invoice.refunds.reduce(
+    (sum, r) => sum + r.pointsReversed,
+    0
+  );
+
+  // If full refund, reverse all remaining points to avoid rounding loss.
+  // Returned lines reverse their share of the points the sale earned,
+  // otherwise use proportional calculation
+  let pointsToReverse: number;
+  if (isFullRefund) {
+    pointsToReverse = totalPointsEarned - pointsAlreadyReversed;
+  } else if (returnLines.length > 0) {
+    const spendRatio = basis.saleTotal > 0 ? Number(invoice.sale.finalAmount) / basis.saleTotal : 0;
+    const pointsBase = (item: (typeof invoice.sale.items)[number], quantity: number) =>
+      item.isGiftCard || item.clientPackageId || item.membershipId
+        ? 0
+        : ((item.service?.points || 0) + (item.product?.points || 0)) * quantity +
+          unitPrice(item) * quantity * spendRatio * settings.loyaltyPointsPerDollar;
+    const saleBase = invoice.sale.items.reduce((sum, item) => sum + pointsBase(item, item.quantity), 0);
+    const returnedBase = returnLines.reduce((sum, l) => sum + pointsBase(l.item, l.quantity), 0);
+    pointsToReverse = saleBase > 0 ? Math.floor(totalPointsEarned * (returnedBase / saleBase)) : 0;
+  } else {
+    const refundRatio = amount / Number(invoice.total);
+    pointsToReverse = Math.floor(totalPointsEarned * refundRatio);
+  }
+  pointsToReverse = Math.max(0, Math.min(pointsToReverse, totalPointsEarned - pointsAlreadyReversed));
+
+  // Credit kept for the replacement sale in an exchange; the rest goes back to the client
+  const exchangeCredit = Math.min(amount, params.exchangeTotal ?? 0);
+  const amountReturned = Math.round((amount - exchangeCredit) * 100) / 100;
+
+  // Create refund record
+  const refund = await tx.refund.create({
+    data: {
+      invoiceId,
+      amount,
+      reason,
+      refundedById: userId,
+      pointsReversed: pointsToReverse,
+      method,
+      exchangeSaleId: params.exchangeSaleId,
+      items: {
+        create: returnLines.map((line) => ({
+          saleItemId: line.item.id,
+          quantity: line.quantity,
+          amount: line.amount,
+          restocked: line.restock,
+        })),
+      },
+    },
+  });
+
+  // Update invoice status if fully refunded
+  if (isFullRefund) {
+    await tx.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        status: InvoiceStatus.REFUNDED,
+        refundedAt: new Date(),
+      },
+    });
+  }
+
+  // Reverse loyalty points if any
+  if (pointsToReverse > 0) {
+    // Get current loyalty points balance
+    const loyaltyPoints = await tx.loyaltyPoints.findUnique({
+      where: { clientId: invoice.sale.clientId },
+    });
+
+    if (loyaltyPoints) {
+      const newBalance = Math.max(0, loyaltyPoints.balance - pointsToReverse);
+      const newTier = calculateTier(newBalance, settings);
+
+      await tx.loyaltyPoints.update({
+        where: { clientId: invoice.sale.clientId },
+        data: { balance: newBalance, tier: newTier },
+      });
+
+      // Record the adjustment transaction
+      await tx.loyaltyTransaction.create({
+        data: {
+          salonId,
+          clientId: invoice.sale.clientId,
+          saleId: invoice.saleId,
+          points: -pointsToReverse,
+          type: LoyaltyTransactionType.ADJUSTMENT,
+          description: `Points reversed due to refund on invoice ${invoice.invoiceNumber}`,
+        },
+      });
+    }
+  }
+
+  // Store credit is issued as a new gift card; otherwise money paid by
+  // gift card goes back onto the card first, then cash paid comes out of the drawer
+  let giftCardRestored = 0;
+  let cashRefunded = 0;
+  let storeCreditCode: string | null = null;
+  if (amountReturned > 0 && method === RefundMethod.STORE_CREDIT) {
+    const card = await issueGiftCard(tx, {
+      salonId,
+      purchaserClientId: invoice.sale.clientId,
+      value: amountReturned,
+      expiryMonths: settings.giftCardExpiryMonths,
+      invoiceId,
+      createdById: userId,
+      note: `Store credit for refund on invoice ${invoice.invoiceNumber}`,
+    });
+    await tx.refund.update({
+      where: { id: refund.id },
+      data: { giftCardId: card.id },
+    });
+    storeCreditCode = card.code;
+  } else if (amountReturned > 0) {
+    giftCardRestored = await restoreGiftCardPayments(tx, {
+      invoiceId,
+      amount: amountReturned,
+      salonId,
+      createdById: userId,
+    });
+    cashRefunded = await cashRefundAmount(tx, {
+      invoiceId,
+      refundId: refund.id,
+      amount: amountReturned - giftCardRestored,
+    });
+    if (cashRefunded > 0) {
+      await tx.refund.update({
+        where: { id: refund.id },
+        data: { cashAmount: cashRefunded },
+      });
+    }
+  }
+
+  // Void gift cards sold on this invoice on full refund
+  const voidedGiftCards = isFullRefund
+    ? await voidIssuedGiftCards(tx, {
+        saleId: invoice.saleId,
+        invoiceId,
+        salonId,
+        createdById: userId,
+      })
+    : [];
+
+  // On full refund, void packages sold on this invoice and give back package sessions and membership credits it used
+  const voidedPackages = isFullRefund
+    ? await voidPurchasedPackages(tx, {
+        saleId: invoice.saleId,
+        invoiceId,
+        salonId,
+        createdById: userId,
+      })
+    : [];
+  const sessionsRestored = isFullRefund
+    ? (await restorePackageSessions(tx, {
+        invoiceId,
+        salonId,
+        createdById: userId,
+      })) + (await restoreMembershipCredits(tx, { saleId: invoice.saleId }))
+    : 0;
+
+  // Restock the products returned; a full refund also restocks every unit not returned before
+  const restock = new Map<string, number>();
+  for (const line of returnLines) {
+    if (line.restock) {
+      restock.set(line.item.productId!, (restock.get(line.item.productId!) ?? 0) + line.quantity);
+    }
+  }
+  if (isFullRefund) {
+    for (const item of invoice.sale.items) {
+      if (!item.productId) continue;
+      const returnedNow = returnLines.find((l) => l.item.id === item.id)?.quantity ?? 0;
+      const remaining = item.quantity - returnedBefore(item) - returnedNow;
+      if (remaining > 0) {
+        restock.set(item.productId, (restock.get(item.productId) ?? 0) + remaining);
+      }
+    }
+  }
+  for (const [productId, quantity] of restock) {
+    await moveStock(tx, {
+      productId,
+      type: "REFUND",
+      quantity,
+      refundId: refund.id,
+      createdById: userId,
+    });
+  }
+
+  return {
+    refundId: refund.id,
+    amount,
+    pointsReversed: pointsToReverse,
+    giftCardRestored,
+    cashRefunded,
+    storeCreditCode,
+    exchangeCredit,
+    restocked: Array.from(restock, ([productId, quantity]) => ({ productId, quantity })),
+    voidedGiftCards,
+    voidedPackages,
+    sessionsRestored,
+    saleId: invoice.saleId,
+    clientId: invoice.sale.clientId,
+  };
+}
+
 // Create refund for an invoice
 export async function createRefund(data: CreateRefundInput): Promise<ActionResult<{
   refundId: string;
+  amount: number;
   pointsReversed: number;
+  giftCardRestored: number;
+  cashRefunded: number;
+  storeCreditCode: string | null;
 }>> {
   const authResult = await checkAuth("invoices:refund");
   if (!authResult) {
@@ -517,173 +1179,387 @@ export async function createRefund(data: CreateRefundInput): Promise<ActionResul
     return { success: false, error: validationResult.error.issues[0].message };
   }
 
-  const { invoiceId, amount, reason } = validationResult.data;
+  const { invoiceId, amount, items, method, reason } = validationResult.data;
 
   try {
     // Fetch settings outside transaction since they're static configuration
     const settingsResult = await getSettings();
-    const thresholds = {
+    const settings = {
       goldThreshold: settingsResult.success ? settingsResult.data.goldThreshold : 500,
       platinumThreshold: settingsResult.success ? settingsResult.data.platinumThreshold : 1000,
+      loyaltyPointsPerDollar: settingsResult.success ? settingsResult.data.loyaltyPointsPerDollar : 1,
+      giftCardExpiryMonths: settingsResult.success ? settingsResult.data.giftCardExpiryMonths : 0,
     };
 
     // Execute transaction with Serializable isolation to prevent race conditions
-    const result = await prisma.$transaction(async (tx) => {
-      // Get the invoice with sale and loyalty transaction info (inside transaction)
-      const invoice = await tx.invoice.findFirst({
-        where: { id: invoiceId, salonId: authResult.salonId },
-        include: {
-          sale: {
-            include: {
-              items: {
-                where: { productId: { not: null } },
-                select: { productId: true, quantity: true },
-              },
-              loyaltyTransactions: {
-                where: { type: LoyaltyTransactionType.EARNED },
-              },
-            },
-          },
-          refunds: true,
+    const result = await prisma.$transaction(
+      (tx) => refundInvoice(tx, {
+        salonId: authResult.salonId,
+        userId: authResult.userId,
+        invoiceId,
+        amount,
+        items,
+        method,
+        reason,
+        settings,
+      }),
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    await logAudit({
+      action: "REFUND_CREATED",
+      entityType: "Invoice",
+      entityId: invoiceId,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: {
+        amount: result.amount,
+        reason,
+        method,
+        items,
+        restocked: result.restocked,
+        pointsReversed: result.pointsReversed,
+        giftCardRestored: result.giftCardRestored,
+        cashRefunded: result.cashRefunded,
+        storeCreditCode: result.storeCreditCode,
+        voidedGiftCards: result.voidedGiftCards,
+        voidedPackages: result.voidedPackages,
+        sessionsRestored: result.sessionsRestored,
+        refundId: result.refundId,
+      },
+    });
+
+    revalidatePath("/dashboard/invoices");
+    revalidatePath("/dashboard/sales");
+    revalidatePath(`/dashboard/sales/${result.saleId}`);
+    revalidatePath(`/dashboard/clients/${result.clientId}`);
+    if (result.restocked.length > 0) revalidatePath("/dashboard/products");
+    await invalidateDashboardCache(authResult.salonId);
+
+    return {
+      success: true,
+      data: {
+        refundId: result.refundId,
+        amount: result.amount,
+        pointsReversed: result.pointsReversed,
+        giftCardRestored: result.giftCardRestored,
+        cashRefunded: result.cashRefunded,
+        storeCreditCode: result.storeCreditCode,
+      },
+    };
+  } catch (error) {
+    console.error("Error creating refund:", error);
+    // Return the error message if it's a known validation error
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to create refund" };
+  }
+}
+
+// Exchange returned items for other products: the return is refunded and
+// its value pays for a new sale, all in one transaction
+export async function createExchange(data: CreateExchangeInput): Promise<ActionResult<{
+  saleId: string;
+  invoiceNumber: string;
+  credit: number;
+  amountPaid: number;
+  amountReturned: number;
+  storeCreditCode: string | null;
+}>> {
+  const authResult = await checkAuth("invoices:refund");
+  if (!authResult || !hasPermission(authResult.role, "sales:create")) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = createExchangeSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { invoiceId, returnItems, newItems, paymentMethod, method, reason } = validationResult.data;
+
+  try {
+    const original = await prisma.invoice.findFirst({
+      where: { id: invoiceId, salonId: authResult.salonId },
+      select: { status: true, invoiceNumber: true, clientId: true },
+    });
+    if (!original) {
+      return { success: false, error: "Invoice not found" };
+    }
+    if (original.status !== InvoiceStatus.PAID) {
+      return { success: false, error: "Only paid invoices can be exchanged" };
+    }
+
+    const productIds = [...new Set(newItems.map((i) => i.productId))];
+    if (productIds.length !== newItems.length) {
+      return { success: false, error: "Each replacement product can only be selected once" };
+    }
+
+    const orgSalonIds = await getOrganizationSalonIds(authResult.salonId);
+    const [products, membership, settingsResult] = await Promise.all([
+      prisma.product.findMany({
+        where: { id: { in: productIds }, salonId: { in: orgSalonIds } },
+        select: {
+          id: true,
+          name: true,
+          price: true,
+          cost: true,
+          points: true,
+          isActive: true,
+          stock: true,
+          taxClass: { select: taxClassSelect },
         },
-      });
+      }),
+      prisma.clientMembership.findFirst({
+        where: { clientId: original.clientId, status: "ACTIVE", salonId: { in: orgSalonIds } },
+        select: { plan: { select: { productDiscountPercent: true } } },
+      }),
+      getSettings(),
+    ]);
 
-      if (!invoice) {
-        throw new Error("Invoice not found");
+    const productMap = new Map(products.map((p) => [p.id, p]));
+    for (const item of newItems) {
+      const product = productMap.get(item.productId);
+      if (!product || !product.isActive) {
+        return { success: false, error: "One or more products are not available" };
       }
-
-      if (invoice.status !== InvoiceStatus.PAID) {
-        throw new Error("Only paid invoices can be refunded");
+      if (product.stock < item.quantity) {
+        return { success: false, error: `Insufficient stock for "${product.name}". Available: ${product.stock}, requested: ${item.quantity}` };
       }
+    }
 
-      // Calculate total already refunded (inside transaction for atomicity)
-      const totalRefunded = invoice.refunds.reduce((sum, r) => sum + Number(r.amount), 0);
-      const remainingRefundable = Number(invoice.total) - totalRefunded;
+    const settings = settingsResult.success ? settingsResult.data : null;
+    const tz = settings?.timezone ?? "UTC";
+    const taxRate = settings?.taxRate ?? 0;
+    const loyaltyEnabled = settings?.loyaltyProgramEnabled ?? true;
+    const loyaltyPointsPerDollar = settings?.loyaltyPointsPerDollar ?? 1;
+    const refundSettings = {
+      goldThreshold: settings?.goldThreshold ?? 500,
+      platinumThreshold: settings?.platinumThreshold ?? 1000,
+      loyaltyPointsPerDollar,
+      giftCardExpiryMonths: settings?.giftCardExpiryMonths ?? 0,
+    };
+    const multipliers = {
+      silverMultiplier: settings?.silverMultiplier ?? 1.0,
+      goldMultiplier: settings?.goldMultiplier ?? 1.5,
+      platinumMultiplier: settings?.platinumMultiplier ?? 2.0,
+    };
 
-      if (amount > remainingRefundable + 0.01) {
-        throw new Error(`Refund amount exceeds remaining refundable balance of ${remainingRefundable.toFixed(2)}`);
-      }
+    // Replacement sale at today's prices, with the client's member discount
+    const productDiscountPercent = membership ? Number(membership.plan.productDiscountPercent) : 0;
+    let totalAmount = 0;
+    let memberDiscount = 0;
+    for (const item of newItems) {
+      const price = Number(productMap.get(item.productId)!.price);
+      totalAmount += price * item.quantity;
+      memberDiscount += memberLineDiscount(price, item.quantity, productDiscountPercent);
+    }
+    memberDiscount = Math.round(memberDiscount * 100) / 100;
+    const finalAmount = Math.max(0, totalAmount - memberDiscount);
+    const taxRates = newItems.map((item) =>
+      taxRateFor(taxClassRate(productMap.get(item.productId)!.taxClass), taxRate)
+    );
+    const saleTax = computeSaleTax(
+      newItems.map((item, index) => ({
+        value: Number(productMap.get(item.productId)!.price) * item.quantity,
+        taxRate: taxRates[index],
+      })),
+      finalAmount
+    );
+    const tax = saleTax.tax;
+    const total = saleTax.total;
+
+    const toIntCents = (n: number) => Math.round(n * 100);
+    const invoiceNumber = await generateInvoiceNumber(tz, authResult.salonId);
 
-      // Check if this will be a full refund (remaining becomes 0 or negative)
-      const newTotalRefunded = totalRefunded + amount;
-      const isFullRefund = newTotalRefunded >= Number(invoice.total) - 0.01;
+    const result = await prisma.$transaction(async (tx) => {
+      const sale = await tx.sale.create({
+        data: {
+          salonId: authResult.salonId,
+          clientId: original.clientId,
+          staffId: authResult.userId,
+          totalAmount,
+          memberDiscount,
+          finalAmount,
+          items: {
+            create: newItems.map((item) => {
+              const product = productMap.get(item.productId)!;
+              return {
+                salonId: authResult.salonId,
+                productId: product.id,
+                quantity: item.quantity,
+                price: product.price,
+                costAtSale: product.cost,
+              };
+            }),
+          },
+        },
+        include: { items: { select: { id: true, productId: true } } },
+      });
 
-      // Calculate points to reverse (proportional to refund amount)
-      const totalPointsEarned = invoice.sale.loyaltyTransactions.reduce(
-        (sum, t) => sum + t.points,
-        0
-      );
-      const pointsAlreadyReversed = invoice.refunds.reduce(
-        (sum, r) => sum + r.pointsReversed,
-        0
-      );
+      const refund = await refundInvoice(tx, {
+        salonId: authResult.salonId,
+        userId: authResult.userId,
+        invoiceId,
+        items: returnItems,
+        method,
+        reason,
+        exchangeSaleId: sale.id,
+        exchangeTotal: total,
+        settings: refundSettings,
+      });
 
-      // If full refund, reverse all remaining points to avoid rounding loss
-      // Otherwise use proportional calculation
-      let pointsToReverse: number;
-      if (isFullRefund) {
-        pointsToReverse = totalPointsEarned - pointsAlreadyReversed;
-      } else {
-        const refundRatio = amount / Number(invoice.total);
-        pointsToReverse = Math.floor(totalPointsEarned * refundRatio);
+      // The client pays whatever the return does not cover
+      const creditCents = toIntCents(refund.exchangeCredit);
+      const dueCents = Math.max(0, toIntCents(total) - creditCents);
+      if (dueCents > 0 && !paymentMethod) {
+        throw new Error(`Choose how the client pays the difference of ${(dueCents / 100).toFixed(2)}`);
       }
 
-      // Create refund record
-      const refund = await tx.refund.create({
+      for (const item of newItems) {
+        await moveStock(tx, {
+          productId: item.productId,
+          type: "SALE",
+          quantity: -item.quantity,
+          reason: `Exchange for ${original.invoiceNumber}`,
+          saleId: sale.id,
+          createdById: authResult.userId,
+        });
+      }
+
+      const invoice = await tx.invoice.create({
         data: {
-          invoiceId,
-          amount,
-          reason,
-          refundedById: authResult.userId,
-          pointsReversed: pointsToReverse,
+          salonId: authResult.salonId,
+          invoiceNumber,
+          saleId: sale.id,
+          clientId: original.clientId,
+          amount: saleTax.net,
+          tax,
+          total,
+          status: InvoiceStatus.PAID,
+          paidAt: new Date(),
         },
       });
 
-      // Update invoice status if fully refunded
-      if (isFullRefund) {
-        await tx.invoice.update({
-          where: { id: invoiceId },
+      await recordSaleTax(tx, {
+        invoiceId: invoice.id,
+        salonId: authResult.salonId,
+        items: newItems.map((item) => sale.items.find((saleItem) => saleItem.productId === item.productId)!),
+        rates: taxRates,
+        saleTax,
+      });
+
+      const salePayments = [
+        ...(creditCents > 0 ? [{ method: PaymentMethod.EXCHANGE_CREDIT, amount: creditCents / 100 }] : []),
+        ...(dueCents > 0 ? [{ method: paymentMethod!, amount: dueCents / 100 }] : []),
+      ];
+      for (const payment of salePayments) {
+        await tx.payment.create({
           data: {
-            status: InvoiceStatus.REFUNDED,
-            refundedAt: new Date(),
+            invoiceId: invoice.id,
+            salonId: authResult.salonId,
+            clientId: original.clientId,
+            amount: payment.amount,
+            method: payment.method,
           },
         });
       }
 
-      // Reverse loyalty points if any
-      if (pointsToReverse > 0) {
-        // Get current loyalty points balance
+      // The replacement earns points like any other sale
+      let pointsEarned = 0;
+      if (loyaltyEnabled) {
         const loyaltyPoints = await tx.loyaltyPoints.findUnique({
-          where: { clientId: invoice.sale.clientId },
+          where: { clientId: original.clientId },
         });
-
-        if (loyaltyPoints) {
-          const newBalance = Math.max(0, loyaltyPoints.balance - pointsToReverse);
-          const newTier = calculateTier(newBalance, thresholds);
-
-          await tx.loyaltyPoints.update({
-            where: { clientId: invoice.sale.clientId },
-            data: { balance: newBalance, tier: newTier },
+        const tierMultiplier = getTierMultiplier(loyaltyPoints?.tier ?? "SILVER", multipliers);
+        const basePoints =
+          newItems.reduce((sum, item) => sum + (productMap.get(item.productId)!.points || 0) * item.quantity, 0) +
+          Math.floor(finalAmount * loyaltyPointsPerDollar);
+        pointsEarned = Math.floor(basePoints * tierMultiplier);
+
+        if (pointsEarned > 0) {
+          const newBalance = (loyaltyPoints?.balance ?? 0) + pointsEarned;
+          await tx.loyaltyPoints.upsert({
+            where: { clientId: original.clientId },
+            update: { balance: newBalance, tier: calculateTier(newBalance, refundSettings) },
+            create: {
+              salonId: authResult.salonId,
+              clientId: original.clientId,
+              balance: newBalance,
+              tier: calculateTier(newBalance, refundSettings),
+            },
           });
-
-          // Record the adjustment transaction
           await tx.loyaltyTransaction.create({
             data: {
               salonId: authResult.salonId,
-              clientId: invoice.sale.clientId,
-              saleId: invoice.saleId,
-              points: -pointsToReverse,
-              type: LoyaltyTransactionType.ADJUSTMENT,
-              description: `Points reversed due to refund on invoice ${invoice.invoiceNumber}`,
+              clientId: original.clientId,
+              saleId: sale.id,
+              points: pointsEarned,
+              type: LoyaltyTransactionType.EARNED,
+              description: `Earned from exchange ${invoiceNumber}`,
             },
           });
         }
       }
 
-      // Restore product stock on full refund
-      if (isFullRefund) {
-        for (const item of invoice.sale.items) {
-          if (item.productId) {
-            await tx.product.update({
-              where: { id: item.productId },
-              data: { stock: { increment: item.quantity } },
-            });
-          }
-        }
-      }
-
-      return {
-        refundId: refund.id,
-        pointsReversed: pointsToReverse,
-        saleId: invoice.saleId,
-        clientId: invoice.sale.clientId,
-      };
+      return { saleId: sale.id, refund, amountPaid: dueCents / 100, pointsEarned };
     }, {
       isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
     });
 
+    const amountReturned = Math.round((result.refund.amount - result.refund.exchangeCredit) * 100) / 100;
+
     await logAudit({
-      action: "REFUND_CREATED",
+      action: "EXCHANGE_CREATED",
       entityType: "Invoice",
       entityId: invoiceId,
       userId: authResult.userId,
       userRole: authResult.role,
-      details: { amount, reason, pointsReversed: result.pointsReversed, refundId: result.refundId },
+      details: {
+        refundId: result.refund.refundId,
+        exchangeSaleId: result.saleId,
+        invoiceNumber,
+        returnItems,
+        newItems,
+        refundAmount: result.refund.amount,
+        credit: result.refund.exchangeCredit,
+        amountPaid: result.amountPaid,
+        paymentMethod,
+        amountReturned,
+        cashRefunded: result.refund.cashRefunded,
+        method,
+        reason,
+        restocked: result.refund.restocked,
+        pointsReversed: result.refund.pointsReversed,
+        pointsEarned: result.pointsEarned,
+        storeCreditCode: result.refund.storeCreditCode,
+      },
     });
 
     revalidatePath("/dashboard/invoices");
     revalidatePath("/dashboard/sales");
-    revalidatePath(`/dashboard/sales/${result.saleId}`);
-    revalidatePath(`/dashboard/clients/${result.clientId}`);
+    revalidatePath(`/dashboard/sales/${result.refund.saleId}`);
+    revalidatePath(`/dashboard/clients/${original.clientId}`);
+    revalidatePath("/dashboard/products");
     await invalidateDashboardCache(authResult.salonId);
 
-    return { success: true, data: { refundId: result.refundId, pointsReversed: result.pointsReversed } };
+    return {
+      success: true,
+      data: {
+        saleId: result.saleId,
+        invoiceNumber,
+        credit: result.refund.exchangeCredit,
+        amountPaid: result.amountPaid,
+        amountReturned,
+        storeCreditCode: result.refund.storeCreditCode,
+      },
+    };
   } catch (error) {
-    console.error("Error creating refund:", error);
-    // Return the error message if it's a known validation error
+    console.error("Error creating exchange:", error);
     if (error instanceof Error) {
       return { success: false, error: error.message };
     }
-    return { success: false, error: "Failed to create refund" };
+    return { success: false, error: "Failed to process exchange" };
   }
 }
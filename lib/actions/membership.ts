@@ -0,0 +1,682 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { MembershipStatus, Prisma } from "@prisma/client";
+import {
+  membershipPlanSchema,
+  enrollMembershipSchema,
+  cancelMembershipSchema,
+  MembershipPlanFormData,
+  EnrollMembershipInput,
+  CancelMembershipInput,
+} from "@/lib/validations/membership";
+import { beginMembershipCycle, hasOverdueMembershipInvoice, renewMemberships } from "@/lib/memberships";
+import { generateInvoiceNumber } from "@/lib/invoice-number";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { getOrganizationSalonIds } from "./branch";
+import { getSettings } from "./settings";
+import { logAudit } from "./audit";
+
+const planListInclude = Prisma.validator<Prisma.MembershipPlanInclude>()({
+  credits: {
+    include: { service: { select: { id: true, name: true } } },
+    orderBy: { service: { name: "asc" } },
+  },
+  _count: { select: { memberships: { where: { status: { not: "CANCELLED" } } } } },
+});
+
+export type MembershipPlanListItem = Prisma.MembershipPlanGetPayload<{
+  include: typeof planListInclude;
+}>;
+
+const membershipInclude = Prisma.validator<Prisma.ClientMembershipInclude>()({
+  client: { select: { id: true, firstName: true, lastName: true, phone: true } },
+  plan: {
+    select: {
+      id: true,
+      name: true,
+      price: true,
+      billingIntervalMonths: true,
+      serviceDiscountPercent: true,
+      productDiscountPercent: true,
+    },
+  },
+  credits: {
+    include: { service: { select: { id: true, name: true } } },
+    orderBy: { service: { name: "asc" } },
+  },
+  // Latest billing invoices, to show what is still owed
+  charges: {
+    select: {
+      id: true,
+      description: true,
+      price: true,
+      sale: { select: { id: true, invoice: { select: { invoiceNumber: true, status: true, total: true } } } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: 6,
+  },
+});
+
+export type ClientMembershipListItem = Prisma.ClientMembershipGetPayload<{
+  include: typeof membershipInclude;
+}>;
+
+/** What checkout needs to apply a client's member benefits. */
+export interface ActiveMembership {
+  id: string;
+  planName: string;
+  serviceDiscountPercent: number;
+  productDiscountPercent: number;
+  credits: { serviceId: string; serviceName: string; remaining: number }[];
+}
+
+// Services in a plan must exist within the organization; returns an error message if not
+async function validatePlanServices(salonId: string, serviceIds: string[]): Promise<string | null> {
+  if (serviceIds.length === 0) return null;
+  const orgSalonIds = await getOrganizationSalonIds(salonId);
+  const count = await prisma.service.count({
+    where: { id: { in: serviceIds }, salonId: { in: orgSalonIds }, isActive: true },
+  });
+  return count === serviceIds.length ? null : "One or more services are not available";
+}
+
+function revalidateMembershipPaths(clientId?: string) {
+  revalidatePath("/dashboard/memberships");
+  revalidatePath("/dashboard/clients");
+  if (clientId) revalidatePath(`/dashboard/clients/${clientId}`);
+}
+
+/** Plans offered by this salon (and, optionally, retired ones). */
+export async function getMembershipPlans(params?: {
+  includeInactive?: boolean;
+}): Promise<ActionResult<MembershipPlanListItem[]>> {
+  const authResult = await checkAuth("memberships:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const plans = await prisma.membershipPlan.findMany({
+      where: {
+        salonId: authResult.salonId,
+        ...(!params?.includeInactive && { isActive: true }),
+      },
+      include: planListInclude,
+      orderBy: [{ isActive: "desc" }, { name: "asc" }],
+    });
+
+    return { success: true, data: plans };
+  } catch (error) {
+    console.error("Error fetching membership plans:", error);
+    return { success: false, error: "Failed to fetch membership plans" };
+  }
+}
+
+export async function createMembershipPlan(data: MembershipPlanFormData): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("memberships:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = membershipPlanSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { description, credits, ...rest } = validationResult.data;
+
+  try {
+    const serviceError = await validatePlanServices(authResult.salonId, credits.map((c) => c.serviceId));
+    if (serviceError) {
+      return { success: false, error: serviceError };
+    }
+
+    const plan = await prisma.membershipPlan.create({
+      data: {
+        ...rest,
+        salonId: authResult.salonId,
+        description: description || null,
+        credits: { create: credits },
+      },
+    });
+
+    await logAudit({
+      action: "MEMBERSHIP_PLAN_CREATED",
+      entityType: "MembershipPlan",
+      entityId: plan.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { ...rest, credits },
+    });
+
+    revalidatePath("/dashboard/memberships");
+    return { success: true, data: { id: plan.id } };
+  } catch (error) {
+    console.error("Error creating membership plan:", error);
+    return { success: false, error: "Failed to create membership plan" };
+  }
+}
+
+/**
+ * Update a plan. Price and included services apply from each member's next
+ * billing cycle; discount changes apply straight away.
+ */
+export async function updateMembershipPlan(
+  data: { id: string } & MembershipPlanFormData
+): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("memberships:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = membershipPlanSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { description, credits, ...rest } = validationResult.data;
+
+  try {
+    const existing = await prisma.membershipPlan.findFirst({
+      where: { id: data.id, salonId: authResult.salonId },
+      select: { id: true, name: true, price: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Membership plan not found" };
+    }
+
+    const serviceError = await validatePlanServices(authResult.salonId, credits.map((c) => c.serviceId));
+    if (serviceError) {
+      return { success: false, error: serviceError };
+    }
+
+    await prisma.$transaction([
+      prisma.membershipPlanCredit.deleteMany({ where: { planId: existing.id } }),
+      prisma.membershipPlan.update({
+        where: { id: existing.id },
+        data: {
+          ...rest,
+          description: description || null,
+          credits: { create: credits },
+        },
+      }),
+    ]);
+
+    await logAudit({
+      action: "MEMBERSHIP_PLAN_UPDATED",
+      entityType: "MembershipPlan",
+      entityId: existing.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: {
+        name: { from: existing.name, to: rest.name },
+        price: { from: Number(existing.price), to: rest.price },
+        serviceDiscountPercent: rest.serviceDiscountPercent,
+        productDiscountPercent: rest.productDiscountPercent,
+        credits,
+      },
+    });
+
+    revalidatePath("/dashboard/memberships");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error updating membership plan:", error);
+    return { success: false, error: "Failed to update membership plan" };
+  }
+}
+
+/** Stop selling a plan. Existing members keep being billed until they cancel. */
+export async function deleteMembershipPlan(id: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("memberships:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const plan = await prisma.membershipPlan.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { id: true, name: true },
+    });
+    if (!plan) {
+      return { success: false, error: "Membership plan not found" };
+    }
+
+    // Soft delete - mark as inactive
+    await prisma.membershipPlan.update({
+      where: { id: plan.id },
+      data: { isActive: false },
+    });
+
+    await logAudit({
+      action: "MEMBERSHIP_PLAN_DELETED",
+      entityType: "MembershipPlan",
+      entityId: plan.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { name: plan.name },
+    });
+
+    revalidatePath("/dashboard/memberships");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error deleting membership plan:", error);
+    return { success: false, error: "Failed to delete membership plan" };
+  }
+}
+
+/** Memberships billed by this salon, current ones first. */
+export async function getMemberships(params?: {
+  status?: MembershipStatus;
+}): Promise<ActionResult<ClientMembershipListItem[]>> {
+  const authResult = await checkAuth("memberships:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const memberships = await prisma.clientMembership.findMany({
+      where: {
+        salonId: authResult.salonId,
+        ...(params?.status && { status: params.status }),
+      },
+      include: membershipInclude,
+      orderBy: [{ status: "asc" }, { currentPeriodEnd: "asc" }],
+      take: 500,
+    });
+
+    return { success: true, data: memberships };
+  } catch (error) {
+    console.error("Error fetching memberships:", error);
+    return { success: false, error: "Failed to fetch memberships" };
+  }
+}
+
+/** A client's memberships anywhere in the organization, newest first. */
+export async function getClientMemberships(clientId: string): Promise<ActionResult<ClientMembershipListItem[]>> {
+  const authResult = await checkAuth("clients:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const orgSalonIds = await getOrganizationSalonIds(authResult.salonId);
+    const memberships = await prisma.clientMembership.findMany({
+      where: { clientId, salonId: { in: orgSalonIds } },
+      include: membershipInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return { success: true, data: memberships };
+  } catch (error) {
+    console.error("Error fetching client memberships:", error);
+    return { success: false, error: "Failed to fetch client memberships" };
+  }
+}
+
+/** The client's active membership, if any, for applying member benefits at checkout. */
+export async function getActiveMembership(clientId: string): Promise<ActionResult<ActiveMembership | null>> {
+  const authResult = await checkAuth("sales:create");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const orgSalonIds = await getOrganizationSalonIds(authResult.salonId);
+    const membership = await prisma.clientMembership.findFirst({
+      where: { clientId, status: "ACTIVE", salonId: { in: orgSalonIds } },
+      select: {
+        id: true,
+        plan: { select: { name: true, serviceDiscountPercent: true, productDiscountPercent: true } },
+        credits: { select: { serviceId: true, remaining: true, service: { select: { name: true } } } },
+      },
+    });
+
+    return {
+      success: true,
+      data: membership
+        ? {
+            id: membership.id,
+            planName: membership.plan.name,
+            serviceDiscountPercent: Number(membership.plan.serviceDiscountPercent),
+            productDiscountPercent: Number(membership.plan.productDiscountPercent),
+            credits: membership.credits.map((c) => ({
+              serviceId: c.serviceId,
+              serviceName: c.service.name,
+              remaining: c.remaining,
+            })),
+          }
+        : null,
+    };
+  } catch (error) {
+    console.error("Error fetching active membership:", error);
+    return { success: false, error: "Failed to fetch membership" };
+  }
+}
+
+/**
+ * Sign a client up to a plan. The first cycle starts now and its invoice is
+ * raised straight away for the front desk to collect.
+ */
+export async function enrollMembership(
+  data: EnrollMembershipInput
+): Promise<ActionResult<{ id: string; saleId: string; invoiceNumber: string }>> {
+  const authResult = await checkAuth("memberships:sell");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = enrollMembershipSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { clientId, planId } = validationResult.data;
+
+  try {
+    const orgSalonIds = await getOrganizationSalonIds(authResult.salonId);
+    const [client, plan, current] = await Promise.all([
+      prisma.client.findFirst({
+        where: { id: clientId, salonId: { in: orgSalonIds } },
+        select: { id: true, isActive: true },
+      }),
+      prisma.membershipPlan.findFirst({
+        where: { id: planId, salonId: authResult.salonId },
+        include: { credits: { select: { serviceId: true, quantity: true } } },
+      }),
+      prisma.clientMembership.findFirst({
+        where: { clientId, status: { not: "CANCELLED" }, salonId: { in: orgSalonIds } },
+        select: { id: true },
+      }),
+    ]);
+
+    if (!client || !client.isActive) {
+      return { success: false, error: "Client not found or inactive" };
+    }
+    if (!plan || !plan.isActive) {
+      return { success: false, error: "Membership plan is not available" };
+    }
+    if (current) {
+      return { success: false, error: "This client already has a membership. Cancel it before starting a new one." };
+    }
+
+    const settingsResult = await getSettings();
+    const timezone = settingsResult.success ? settingsResult.data.timezone : "UTC";
+    const taxRate = settingsResult.success ? settingsResult.data.taxRate : 0;
+    const invoiceNumber = await generateInvoiceNumber(timezone, authResult.salonId);
+    const now = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const membership = await tx.clientMembership.create({
+        data: {
+          salonId: authResult.salonId,
+          clientId,
+          planId: plan.id,
+          currentPeriodStart: now,
+          currentPeriodEnd: now,
+          soldById: authResult.userId,
+        },
+        select: { id: true },
+      });
+
+      const cycle = await beginMembershipCycle(tx, {
+        membershipId: membership.id,
+        salonId: authResult.salonId,
+        clientId,
+        soldById: authResult.userId,
+        plan,
+        periodStart: now,
+        invoiceNumber,
+        taxRate,
+        timezone,
+      });
+
+      return { id: membership.id, saleId: cycle.saleId };
+    });
+
+    await logAudit({
+      action: "MEMBERSHIP_CREATED",
+      entityType: "ClientMembership",
+      entityId: result.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { clientId, plan: plan.name, price: Number(plan.price), invoiceNumber },
+    });
+
+    revalidateMembershipPaths(clientId);
+    revalidatePath("/dashboard/sales");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: { ...result, invoiceNumber } };
+  } catch (error) {
+    console.error("Error creating membership:", error);
+    return { success: false, error: "Failed to create membership" };
+  }
+}
+
+/** Freeze billing and member benefits until the membership is resumed. */
+export async function pauseMembership(id: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("memberships:sell");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const membership = await prisma.clientMembership.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { id: true, clientId: true, status: true },
+    });
+    if (!membership) {
+      return { success: false, error: "Membership not found" };
+    }
+
+    const paused = await prisma.clientMembership.updateMany({
+      where: { id: membership.id, status: "ACTIVE" },
+      data: { status: "PAUSED", pausedAt: new Date() },
+    });
+    if (paused.count === 0) {
+      return { success: false, error: "Only active memberships can be paused" };
+    }
+
+    await logAudit({
+      action: "MEMBERSHIP_PAUSED",
+      entityType: "ClientMembership",
+      entityId: membership.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { clientId: membership.clientId },
+    });
+
+    revalidateMembershipPaths(membership.clientId);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error pausing membership:", error);
+    return { success: false, error: "Failed to pause membership" };
+  }
+}
+
+/**
+ * Resume a paused membership, or keep one that was set to cancel at the end
+ * of its cycle. One paused for an unpaid invoice can only be resumed once it
+ * is paid. If the paid cycle ran out while paused, a new one starts now and
+ * is invoiced.
+ */
+export async function resumeMembership(id: string): Promise<ActionResult<{ invoiceNumber: string | null }>> {
+  const authResult = await checkAuth("memberships:sell");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const membership = await prisma.clientMembership.findFirst({
+      where: { id, salonId: authResult.salonId },
+      include: { plan: { include: { credits: { select: { serviceId: true, quantity: true } } } } },
+    });
+    if (!membership) {
+      return { success: false, error: "Membership not found" };
+    }
+
+    const now = new Date();
+    let invoiceNumber: string | null = null;
+
+    if (membership.status === "ACTIVE") {
+      if (!membership.cancelAtPeriodEnd) {
+        return { success: false, error: "Membership is already active" };
+      }
+      await prisma.clientMembership.update({
+        where: { id: membership.id },
+        data: { cancelAtPeriodEnd: false },
+      });
+    } else if (membership.status === "PAUSED") {
+      if (await hasOverdueMembershipInvoice(membership.id)) {
+        return { success: false, error: "This membership has an overdue invoice. Collect payment before resuming it" };
+      }
+      const needsNewCycle = membership.currentPeriodEnd <= now;
+      if (needsNewCycle) {
+        const settingsResult = await getSettings();
+        const timezone = settingsResult.success ? settingsResult.data.timezone : "UTC";
+        invoiceNumber = await generateInvoiceNumber(timezone, authResult.salonId);
+        await prisma.$transaction(async (tx) => {
+          const resumed = await tx.clientMembership.updateMany({
+            where: { id: membership.id, status: "PAUSED" },
+            data: { status: "ACTIVE", pausedAt: null },
+          });
+          if (resumed.count === 0) {
+            throw new Error("Membership changed, please try again");
+          }
+          await beginMembershipCycle(tx, {
+            membershipId: membership.id,
+            salonId: membership.salonId,
+            clientId: membership.clientId,
+            soldById: membership.soldById,
+            plan: membership.plan,
+            periodStart: now,
+            invoiceNumber: invoiceNumber!,
+            taxRate: settingsResult.success ? settingsResult.data.taxRate : 0,
+            timezone,
+          });
+        });
+      } else {
+        await prisma.clientMembership.update({
+          where: { id: membership.id },
+          data: { status: "ACTIVE", pausedAt: null },
+        });
+      }
+    } else {
+      return { success: false, error: "Cancelled memberships cannot be resumed" };
+    }
+
+    await logAudit({
+      action: "MEMBERSHIP_RESUMED",
+      entityType: "ClientMembership",
+      entityId: membership.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { clientId: membership.clientId, from: membership.status, invoiceNumber },
+    });
+
+    revalidateMembershipPaths(membership.clientId);
+    if (invoiceNumber) {
+      revalidatePath("/dashboard/sales");
+      await invalidateDashboardCache(authResult.salonId);
+    }
+    return { success: true, data: { invoiceNumber } };
+  } catch (error) {
+    console.error("Error resuming membership:", error);
+    if (error instanceof Error && !(error instanceof Prisma.PrismaClientKnownRequestError)) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to resume membership" };
+  }
+}
+
+/**
+ * Cancel a membership. By default it stays active until the end of the
+ * cycle already paid for; `immediately` ends it now.
+ */
+export async function cancelMembership(data: CancelMembershipInput): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("memberships:sell");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = cancelMembershipSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { id, immediately } = validationResult.data;
+
+  try {
+    const membership = await prisma.clientMembership.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { id: true, clientId: true, status: true, currentPeriodEnd: true },
+    });
+    if (!membership) {
+      return { success: false, error: "Membership not found" };
+    }
+    if (membership.status === "CANCELLED") {
+      return { success: false, error: "Membership is already cancelled" };
+    }
+
+    // A paused membership has no running cycle to finish
+    const endNow = immediately || membership.status === "PAUSED";
+    await prisma.clientMembership.update({
+      where: { id: membership.id },
+      data: endNow
+        ? { status: "CANCELLED", cancelledAt: new Date(), cancelAtPeriodEnd: false }
+        : { cancelAtPeriodEnd: true },
+    });
+
+    await logAudit({
+      action: "MEMBERSHIP_CANCELLED",
+      entityType: "ClientMembership",
+      entityId: membership.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: {
+        clientId: membership.clientId,
+        immediately: endNow,
+        endsAt: endNow ? null : membership.currentPeriodEnd,
+      },
+    });
+
+    revalidateMembershipPaths(membership.clientId);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error cancelling membership:", error);
+    return { success: false, error: "Failed to cancel membership" };
+  }
+}
+
+/**
+ * Invoice this branch's memberships whose billing cycle has ended and close
+ * ones set to cancel. The daily run across every branch is the cron route.
+ */
+export async function processMembershipBilling(): Promise<ActionResult<{
+  cyclesBilled: number;
+  membershipsCancelled: number;
+}>> {
+  const authResult = await checkAuth("memberships:manage");
+  if (!authResult) return { success: false, error: "Unauthorized" };
+
+  try {
+    const result = await renewMemberships(authResult.salonId);
+    revalidateMembershipPaths();
+    revalidatePath("/dashboard/sales");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error processing membership billing:", error);
+    return { success: false, error: "Failed to process membership billing" };
+  }
+}
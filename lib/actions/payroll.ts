@@ -13,7 +13,10 @@ import {
   UpdatePayrollEntryInput,
   PayrollSearchParams,
 } from "@/lib/validations/payroll";
+import { calculateCommissions } from "@/lib/commissions";
+import { collectUnpaidTips } from "@/lib/tips";
 import { getOrganizationSalonIds, getOrgRootSalonId } from "./branch";
+import { getSettings } from "./settings";
 import { logAudit } from "./audit";
 import { invalidateDashboardCache } from "@/lib/redis";
 
@@ -25,6 +28,8 @@ export type PayrollRunListItem = {
   periodEnd: Date;
   status: PayrollRunStatus;
   totalBasePay: Prisma.Decimal;
+  totalCommission: Prisma.Decimal;
+  totalTips: Prisma.Decimal;
   totalBonus: Prisma.Decimal;
   totalDeductions: Prisma.Decimal;
   totalNetPay: Prisma.Decimal;
@@ -55,6 +60,8 @@ export type PayrollRunDetail = PayrollRunListItem & {
 export type PayrollEntryItem = {
   id: string;
   basePay: Prisma.Decimal;
+  commission: Prisma.Decimal;
+  tips: Prisma.Decimal;
   bonus: Prisma.Decimal;
   deductions: Prisma.Decimal;
   deductionNotes: string | null;
@@ -83,6 +90,8 @@ const payrollRunListSelect = {
   periodEnd: true,
   status: true,
   totalBasePay: true,
+  totalCommission: true,
+  totalTips: true,
   totalBonus: true,
   totalDeductions: true,
   totalNetPay: true,
@@ -200,6 +209,8 @@ export async function getPayrollRun(id: string): Promise<ActionResult<PayrollRun
           select: {
             id: true,
             basePay: true,
+            commission: true,
+            tips: true,
             bonus: true,
             deductions: true,
             deductionNotes: true,
@@ -231,8 +242,10 @@ export async function getPayrollRun(id: string): Promise<ActionResult<PayrollRun
 export type PayrollPreviewStaff = {
   userId: string;
   name: string;
-  payType: string;
+  payType: string | null; // null when included for commission or tips only
   baseRate: number;
+  commission: number;
+  tips: number;
 };
 
 export type PayrollPreviewSkipped = {
@@ -245,8 +258,21 @@ export type PayrollPreview = {
   totalStaff: number;
   included: PayrollPreviewStaff[];
   skipped: PayrollPreviewSkipped[];
+  totalCommission: number;
+  totalTips: number;
 };
 
+// Period timezone for matching sales and refunds to payroll dates
+async function getPayrollTimezone(): Promise<string> {
+  const settingsResult = await getSettings();
+  return settingsResult.success ? settingsResult.data.timezone : "UTC";
+}
+
+// Commission- and tip-only staff get an entry once they have earned something
+function hasBasePay(payType: string | undefined): boolean {
+  return payType !== undefined && payType !== "HOURLY";
+}
+
 /**
  * Preview a payroll run before creating it.
  * Shows which staff will be included and which will be skipped.
@@ -264,9 +290,11 @@ export async function previewPayrollRun(
     return { success: false, error: validation.error.issues[0].message };
   }
 
-  const { periodEnd } = validation.data;
+  const { periodStart, periodEnd } = validation.data;
 
   try {
+    const timezone = await getPayrollTimezone();
+
     // Get all active staff at this branch
     const activeStaff = await prisma.userSalon.findMany({
       where: { salonId: authResult.salonId, isActive: true },
@@ -301,30 +329,46 @@ export async function previewPayrollRun(
       }
     }
 
+    const period = { salonId: authResult.salonId, periodStart, periodEnd, timezone };
+    const [commissions, tips] = await Promise.all([
+      calculateCommissions(prisma, period),
+      collectUnpaidTips(prisma, period),
+    ]);
+
     const included: PayrollPreviewStaff[] = [];
     const skipped: PayrollPreviewSkipped[] = [];
 
     for (const staff of activeStaff) {
       const config = configByUser.get(staff.userId);
       const name = `${staff.user.firstName} ${staff.user.lastName}`;
+      const commission = commissions.get(staff.userId)?.commission ?? 0;
+      const staffTips = tips.get(staff.userId)?.tips ?? 0;
 
-      if (!config) {
-        skipped.push({ userId: staff.userId, name, reason: "No salary configuration" });
-      } else if (config.payType === "HOURLY") {
-        skipped.push({ userId: staff.userId, name, reason: "Hourly rate — hours not tracked" });
-      } else {
+      if (hasBasePay(config?.payType) || commission > 0 || staffTips > 0) {
         included.push({
           userId: staff.userId,
           name,
-          payType: config.payType,
-          baseRate: config.baseRate,
+          payType: hasBasePay(config?.payType) ? config!.payType : null,
+          baseRate: hasBasePay(config?.payType) ? config!.baseRate : 0,
+          commission,
+          tips: staffTips,
         });
+      } else if (!config) {
+        skipped.push({ userId: staff.userId, name, reason: "No salary configuration" });
+      } else {
+        skipped.push({ userId: staff.userId, name, reason: "Hourly rate — hours not tracked" });
       }
     }
 
     return {
       success: true,
-      data: { totalStaff: activeStaff.length, included, skipped },
+      data: {
+        totalStaff: activeStaff.length,
+        included,
+        skipped,
+        totalCommission: included.reduce((sum, s) => sum + s.commission, 0),
+        totalTips: included.reduce((sum, s) => sum + s.tips, 0),
+      },
     };
   } catch (error) {
     console.error("Error previewing payroll run:", error);
@@ -333,7 +377,8 @@ export async function previewPayrollRun(
 }
 
 /**
- * Create a new payroll run. Auto-populates entries from salary configs.
+ * Create a new payroll run. Auto-populates entries from salary configs and
+ * each staff member's commission and tips for the period.
  */
 export async function createPayrollRun(
   data: CreatePayrollRunInput
@@ -351,6 +396,8 @@ export async function createPayrollRun(
   const { periodStart, periodEnd, notes } = validation.data;
 
   try {
+    const timezone = await getPayrollTimezone();
+
     const run = await prisma.$transaction(async (tx) => {
       // Check for duplicate
       const existing = await tx.payrollRun.findUnique({
@@ -400,20 +447,36 @@ export async function createPayrollRun(
         }
       }
 
-      // Only include monthly staff; skip hourly (hours not tracked) and staff without configs
-      const entries: { userId: string; basePay: number }[] = [];
-      for (const [userId, config] of configByUser) {
-        if (config.payType !== "HOURLY") {
-          entries.push({ userId, basePay: config.baseRate });
-        }
-      }
+      const period = { salonId: authResult.salonId, periodStart, periodEnd, timezone };
+      const commissions = await calculateCommissions(tx, period);
+      const tips = await collectUnpaidTips(tx, period);
+
+      // Include monthly staff and anyone who earned commission or tips; skip hourly (hours not tracked)
+      // and staff without configs who earned nothing
+      const entries = staffIds.flatMap((userId) => {
+        const config = configByUser.get(userId);
+        const earned = commissions.get(userId);
+        const commission = earned?.commission ?? 0;
+        const staffTips = tips.get(userId);
+        if (!hasBasePay(config?.payType) && commission <= 0 && !staffTips) return [];
+        return [{
+          userId,
+          basePay: hasBasePay(config?.payType) ? config!.baseRate : 0,
+          commission,
+          lines: earned?.lines ?? [],
+          tips: staffTips?.tips ?? 0,
+          tipIds: staffTips?.tipIds ?? [],
+        }];
+      });
 
       if (entries.length === 0) {
-        throw new Error("No salary configurations found for any staff member. Please set up salary configs first.");
+        throw new Error("No salary configurations, commission or tips found for any staff member. Please set up salary configs first.");
       }
 
       // Calculate totals
       const totalBasePay = entries.reduce((sum, e) => sum + e.basePay, 0);
+      const totalCommission = entries.reduce((sum, e) => sum + e.commission, 0);
+      const totalTips = entries.reduce((sum, e) => sum + e.tips, 0);
 
       // Create run with entries
       const newRun = await tx.payrollRun.create({
@@ -423,19 +486,25 @@ export async function createPayrollRun(
           periodEnd,
           status: "DRAFT",
           totalBasePay,
+          totalCommission,
+          totalTips,
           totalBonus: 0,
           totalDeductions: 0,
-          totalNetPay: totalBasePay,
+          totalNetPay: totalBasePay + totalCommission + totalTips,
           notes: notes || null,
           createdById: authResult.userId,
           entries: {
             create: entries.map((e) => ({
               userId: e.userId,
               basePay: e.basePay,
+              commission: e.commission,
+              tips: e.tips,
               bonus: 0,
               deductions: 0,
-              netPay: e.basePay,
+              netPay: e.basePay + e.commission + e.tips,
               status: "PENDING",
+              commissionLines: { create: e.lines },
+              tipLines: { connect: e.tipIds.map((tipId) => ({ id: tipId })) },
             })),
           },
         },
@@ -466,8 +535,29 @@ export async function createPayrollRun(
   }
 }
 
+// Recalculate run totals (findMany returns updated values within the transaction)
+async function recalculateRunTotals(tx: Prisma.TransactionClient, payrollRunId: string) {
+  const allEntries = await tx.payrollEntry.findMany({
+    where: { payrollRunId },
+    select: { basePay: true, commission: true, tips: true, bonus: true, deductions: true, netPay: true },
+  });
+
+  await tx.payrollRun.update({
+    where: { id: payrollRunId },
+    data: {
+      totalBasePay: allEntries.reduce((sum, e) => sum + Number(e.basePay), 0),
+      totalCommission: allEntries.reduce((sum, e) => sum + Number(e.commission), 0),
+      totalTips: allEntries.reduce((sum, e) => sum + Number(e.tips), 0),
+      totalBonus: allEntries.reduce((sum, e) => sum + Number(e.bonus), 0),
+      totalDeductions: allEntries.reduce((sum, e) => sum + Number(e.deductions), 0),
+      totalNetPay: allEntries.reduce((sum, e) => sum + Number(e.netPay), 0),
+    },
+  });
+}
+
 /**
- * Update a payroll entry (only if run is DRAFT).
+ * Update a payroll entry (only if run is DRAFT). Commission and tips are
+ * calculated, not edited; use the bonus for any manual adjustment.
  */
 export async function updatePayrollEntry(
   data: UpdatePayrollEntryInput
@@ -513,7 +603,7 @@ export async function updatePayrollEntry(
           throw new Error("Can only edit entries in DRAFT payroll runs");
         }
 
-        const netPay = basePay + bonus - deductions;
+        const netPay = basePay + Number(entry.commission) + Number(entry.tips) + bonus - deductions;
 
         // Update entry
         await tx.payrollEntry.update({
@@ -528,21 +618,7 @@ export async function updatePayrollEntry(
           },
         });
 
-        // Recalculate run totals (findMany returns updated values within the transaction)
-        const allEntries = await tx.payrollEntry.findMany({
-          where: { payrollRunId: entry.payrollRunId },
-          select: { basePay: true, bonus: true, deductions: true, netPay: true },
-        });
-
-        await tx.payrollRun.update({
-          where: { id: entry.payrollRunId },
-          data: {
-            totalBasePay: allEntries.reduce((sum, e) => sum + Number(e.basePay), 0),
-            totalBonus: allEntries.reduce((sum, e) => sum + Number(e.bonus), 0),
-            totalDeductions: allEntries.reduce((sum, e) => sum + Number(e.deductions), 0),
-            totalNetPay: allEntries.reduce((sum, e) => sum + Number(e.netPay), 0),
-          },
-        });
+        await recalculateRunTotals(tx, entry.payrollRunId);
       },
       { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
     );
@@ -568,6 +644,230 @@ export async function updatePayrollEntry(
   }
 }
 
+/**
+ * Recalculate commission and tips on a DRAFT run, e.g. after refunds, plan
+ * changes or late tips. Staff who have since earned either but have no entry
+ * are added.
+ */
+export async function recalculatePayrollCommissions(
+  id: string
+): Promise<ActionResult<{ totalCommission: number; totalTips: number }>> {
+  const authResult = await checkAuth("payroll:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const salonIds =
+      authResult.role === "OWNER" || authResult.isSuperAdmin
+        ? await getOrganizationSalonIds(authResult.salonId)
+        : [authResult.salonId];
+    const timezone = await getPayrollTimezone();
+
+    const totals = await prisma.$transaction(
+      async (tx) => {
+        const run = await tx.payrollRun.findUnique({
+          where: { id },
+          include: {
+            entries: { select: { id: true, userId: true, basePay: true, bonus: true, deductions: true } },
+          },
+        });
+
+        if (!run) {
+          throw new Error("Payroll run not found");
+        }
+
+        if (!salonIds.includes(run.salonId)) {
+          throw new Error("Branch no longer accessible");
+        }
+
+        if (run.status !== "DRAFT") {
+          throw new Error("Can only recalculate commission on DRAFT payroll runs");
+        }
+
+        // Release this run's lines and tips first so they are calculated afresh rather than skipped as already paid
+        await tx.payrollCommissionLine.deleteMany({ where: { payrollEntry: { payrollRunId: id } } });
+        await tx.tip.updateMany({
+          where: { payrollEntry: { payrollRunId: id } },
+          data: { payrollEntryId: null },
+        });
+
+        const period = {
+          salonId: run.salonId,
+          periodStart: run.periodStart,
+          periodEnd: run.periodEnd,
+          timezone,
+        };
+        const commissions = await calculateCommissions(tx, period);
+        const tips = await collectUnpaidTips(tx, period);
+
+        for (const entry of run.entries) {
+          const earned = commissions.get(entry.userId);
+          const commission = earned?.commission ?? 0;
+          const staffTips = tips.get(entry.userId);
+          await tx.payrollEntry.update({
+            where: { id: entry.id },
+            data: {
+              commission,
+              tips: staffTips?.tips ?? 0,
+              netPay:
+                Number(entry.basePay) + commission + (staffTips?.tips ?? 0) + Number(entry.bonus) - Number(entry.deductions),
+              commissionLines: { create: earned?.lines ?? [] },
+              tipLines: { connect: (staffTips?.tipIds ?? []).map((tipId) => ({ id: tipId })) },
+            },
+          });
+        }
+
+        const existingUserIds = new Set(run.entries.map((e) => e.userId));
+        const activeStaff = await tx.userSalon.findMany({
+          where: { salonId: run.salonId, isActive: true },
+          select: { userId: true },
+        });
+        for (const { userId } of activeStaff) {
+          if (existingUserIds.has(userId)) continue;
+          const earned = commissions.get(userId);
+          const commission = earned && earned.commission > 0 ? earned.commission : 0;
+          const staffTips = tips.get(userId);
+          if (commission <= 0 && !staffTips) continue;
+          await tx.payrollEntry.create({
+            data: {
+              payrollRunId: id,
+              userId,
+              basePay: 0,
+              commission,
+              tips: staffTips?.tips ?? 0,
+              netPay: commission + (staffTips?.tips ?? 0),
+              status: "PENDING",
+              commissionLines: { create: commission > 0 ? earned!.lines : [] },
+              tipLines: { connect: (staffTips?.tipIds ?? []).map((tipId) => ({ id: tipId })) },
+            },
+          });
+        }
+
+        await recalculateRunTotals(tx, id);
+
+        const updated = await tx.payrollRun.findUniqueOrThrow({
+          where: { id },
+          select: { totalCommission: true, totalTips: true },
+        });
+        return { totalCommission: Number(updated.totalCommission), totalTips: Number(updated.totalTips) };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    await logAudit({
+      action: "PAYROLL_COMMISSIONS_RECALCULATED",
+      entityType: "PayrollRun",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: totals,
+    });
+
+    revalidatePath("/dashboard/payroll");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: totals };
+  } catch (error) {
+    if (error instanceof Error) {
+      return { success: false, error: error.message };
+    }
+    console.error("Error recalculating payroll commissions:", error);
+    return { success: false, error: "Failed to recalculate commission and tips" };
+  }
+}
+
+export type CommissionBreakdownLine = {
+  id: string;
+  revenue: number;
+  rate: number;
+  amount: number;
+  itemName: string;
+  quantity: number;
+  saleId: string;
+  saleDate: Date;
+  invoiceNumber: string | null;
+  refundedAt: Date | null; // Set on clawback lines
+};
+
+/**
+ * Line-by-line commission for a payroll entry. Staff can see their own
+ * breakdown; anyone else's needs payroll:view.
+ */
+export async function getPayrollEntryCommission(
+  entryId: string
+): Promise<ActionResult<CommissionBreakdownLine[]>> {
+  const { checkAuthBasic } = await import("@/lib/auth-helpers");
+  const authResult = await checkAuthBasic();
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const salonIds =
+      authResult.role === "OWNER" || authResult.isSuperAdmin
+        ? await getOrganizationSalonIds(authResult.salonId)
+        : [authResult.salonId];
+
+    const entry = await prisma.payrollEntry.findFirst({
+      where: { id: entryId, payrollRun: { salonId: { in: salonIds } } },
+      select: { userId: true },
+    });
+
+    if (!entry) {
+      return { success: false, error: "Payroll entry not found" };
+    }
+
+    if (entry.userId !== authResult.userId) {
+      const { hasPermission } = await import("@/lib/permissions");
+      if (!hasPermission(authResult.role, "payroll:view", authResult.isSuperAdmin)) {
+        return { success: false, error: "Unauthorized" };
+      }
+    }
+
+    const lines = await prisma.payrollCommissionLine.findMany({
+      where: { payrollEntryId: entryId },
+      select: {
+        id: true,
+        revenue: true,
+        rate: true,
+        amount: true,
+        refund: { select: { createdAt: true } },
+        saleItem: {
+          select: {
+            description: true,
+            quantity: true,
+            service: { select: { name: true } },
+            product: { select: { name: true } },
+            sale: { select: { id: true, createdAt: true, invoice: { select: { invoiceNumber: true } } } },
+          },
+        },
+      },
+      orderBy: [{ saleItem: { sale: { createdAt: "asc" } } }, { createdAt: "asc" }],
+    });
+
+    return {
+      success: true,
+      data: lines.map((line) => ({
+        id: line.id,
+        revenue: Number(line.revenue),
+        rate: Number(line.rate),
+        amount: Number(line.amount),
+        itemName:
+          line.saleItem.service?.name || line.saleItem.product?.name || line.saleItem.description || "Unknown",
+        quantity: line.saleItem.quantity,
+        saleId: line.saleItem.sale.id,
+        saleDate: line.saleItem.sale.createdAt,
+        invoiceNumber: line.saleItem.sale.invoice?.invoiceNumber ?? null,
+        refundedAt: line.refund?.createdAt ?? null,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching commission breakdown:", error);
+    return { success: false, error: "Failed to fetch commission breakdown" };
+  }
+}
+
 /**
  * Finalize a payroll run (DRAFT → FINALIZED). Locks entries.
  */
@@ -989,6 +1289,7 @@ export async function getStaffPayrollHistory(
       select: {
         id: true,
         basePay: true,
+        commission: true,
         bonus: true,
         deductions: true,
         deductionNotes: true,
@@ -13,6 +13,9 @@ import { Prisma } from "@prisma/client";
 import { ActionResult } from "@/lib/types";
 import { logAudit } from "./audit";
 import { getOrganizationSalonIds } from "./branch";
+import { isSalonTaxClass } from "@/lib/taxes";
+import { moveStock } from "@/lib/stock";
+import { isOrgSupplier } from "@/lib/purchase-orders";
 
 const productListInclude = Prisma.validator<Prisma.ProductInclude>()({
   _count: {
@@ -20,6 +23,7 @@ const productListInclude = Prisma.validator<Prisma.ProductInclude>()({
       saleItems: true,
     },
   },
+  supplier: { select: { id: true, name: true } },
 });
 
 export type ProductListItem = Prisma.ProductGetPayload<{
@@ -145,18 +149,39 @@ export async function createProduct(data: ProductFormData): Promise<ActionResult
     return { success: false, error: validationResult.error.issues[0].message };
   }
 
-  const { description, category, sku, cost, ...rest } = validationResult.data;
+  const { description, category, sku, cost, stock, ...rest } = validationResult.data;
 
   try {
-    const product = await prisma.product.create({
-      data: {
-        ...rest,
-        salonId: authResult.salonId,
-        description: description || null,
-        category: category || null,
-        sku: sku || null,
-        cost: cost ?? null,
-      },
+    if (!(await isSalonTaxClass(authResult.salonId, rest.taxClassId))) {
+      return { success: false, error: "Tax class not found" };
+    }
+
+    if (!(await isOrgSupplier(authResult.salonId, rest.supplierId))) {
+      return { success: false, error: "Supplier not found" };
+    }
+
+    // Opening stock is the product's first ledger movement
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          ...rest,
+          salonId: authResult.salonId,
+          description: description || null,
+          category: category || null,
+          sku: sku || null,
+          cost: cost ?? null,
+        },
+      });
+      if (stock > 0) {
+        await moveStock(tx, {
+          productId: created.id,
+          type: "ADJUSTMENT",
+          quantity: stock,
+          reason: "Opening stock",
+          createdById: authResult.userId,
+        });
+      }
+      return created;
     });
 
     await logAudit({
@@ -165,7 +190,7 @@ export async function createProduct(data: ProductFormData): Promise<ActionResult
       entityId: product.id,
       userId: authResult.userId,
       userRole: authResult.role,
-      details: { name: rest.name, price: rest.price, stock: rest.stock, sku },
+      details: { name: rest.name, price: rest.price, stock, sku },
     });
 
     revalidatePath("/dashboard/products");
@@ -195,7 +220,7 @@ export async function updateProduct(
     return { success: false, error: validationResult.error.issues[0].message };
   }
 
-  const { id, description, category, sku, cost, ...rest } = validationResult.data;
+  const { id, description, category, sku, cost, stock, ...rest } = validationResult.data;
 
   try {
     const existingProduct = await prisma.product.findFirst({
@@ -206,23 +231,46 @@ export async function updateProduct(
       return { success: false, error: "Product not found" };
     }
 
-    await prisma.product.update({
-      where: { id },
-      data: {
-        ...rest,
-        ...(description !== undefined && { description: description || null }),
-        ...(category !== undefined && { category: category || null }),
-        ...(sku !== undefined && { sku: sku || null }),
-        ...(cost !== undefined && { cost: cost ?? null }),
-      },
+    if (!(await isSalonTaxClass(authResult.salonId, rest.taxClassId))) {
+      return { success: false, error: "Tax class not found" };
+    }
+
+    if (!(await isOrgSupplier(authResult.salonId, rest.supplierId))) {
+      return { success: false, error: "Supplier not found" };
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.product.update({
+        where: { id },
+        data: {
+          ...rest,
+          ...(description !== undefined && { description: description || null }),
+          ...(category !== undefined && { category: category || null }),
+          ...(sku !== undefined && { sku: sku || null }),
+          ...(cost !== undefined && { cost: cost ?? null }),
+        },
+        select: { stock: true },
+      });
+      // A new count on the form is recorded as an adjustment from whatever stock is now
+      if (stock !== undefined && stock !== updated.stock) {
+        await moveStock(tx, {
+          productId: id,
+          type: "ADJUSTMENT",
+          quantity: stock - updated.stock,
+          reason: "Stock count edited on the product",
+          createdById: authResult.userId,
+        });
+      }
     });
 
     const changes: Record<string, { from: string | number | null; to: string | number | null }> = {};
     if (rest.name !== undefined && rest.name !== existingProduct.name) changes.name = { from: existingProduct.name, to: rest.name };
     if (rest.price !== undefined && Number(rest.price) !== Number(existingProduct.price)) changes.price = { from: Number(existingProduct.price), to: Number(rest.price) };
-    if (rest.stock !== undefined && rest.stock !== existingProduct.stock) changes.stock = { from: existingProduct.stock, to: rest.stock };
+    if (stock !== undefined && stock !== existingProduct.stock) changes.stock = { from: existingProduct.stock, to: stock };
     if (sku !== undefined && (sku || null) !== existingProduct.sku) changes.sku = { from: existingProduct.sku, to: sku || null };
     if (category !== undefined && (category || null) !== existingProduct.category) changes.category = { from: existingProduct.category, to: category || null };
+    if (rest.taxClassId !== undefined && rest.taxClassId !== existingProduct.taxClassId) changes.taxClassId = { from: existingProduct.taxClassId, to: rest.taxClassId };
+    if (rest.supplierId !== undefined && rest.supplierId !== existingProduct.supplierId) changes.supplierId = { from: existingProduct.supplierId, to: rest.supplierId };
 
     await logAudit({
       action: "PRODUCT_UPDATED",
@@ -348,16 +396,23 @@ export async function getAllProductCategories(): Promise<ActionResult<string[]>>
   }
 }
 
-export async function getActiveProducts(): Promise<ActionResult<{
-  id: string;
-  name: string;
+const activeProductSelect = Prisma.validator<Prisma.ProductSelect>()({
+  id: true,
+  name: true,
+  price: true,
+  stock: true,
+  category: true,
+  points: true,
+  sku: true,
+  lowStockThreshold: true,
+  taxClassId: true,
+});
+
+export type ActiveProduct = Omit<Prisma.ProductGetPayload<{ select: typeof activeProductSelect }>, "price"> & {
   price: number;
-  stock: number;
-  category: string | null;
-  points: number;
-  sku: string | null;
-  lowStockThreshold: number;
-}[]>> {
+};
+
+export async function getActiveProducts(): Promise<ActionResult<ActiveProduct[]>> {
   const authResult = await checkAuth("products:view");
   if (!authResult) {
     return { success: false, error: "Unauthorized" };
@@ -367,16 +422,7 @@ export async function getActiveProducts(): Promise<ActionResult<{
     // Use current branch only — inventory/stock is branch-specific
     const products = await prisma.product.findMany({
       where: { salonId: authResult.salonId, isActive: true },
-      select: {
-        id: true,
-        name: true,
-        price: true,
-        stock: true,
-        category: true,
-        points: true,
-        sku: true,
-        lowStockThreshold: true,
-      },
+      select: activeProductSelect,
       orderBy: [{ category: "asc" }, { name: "asc" }],
     });
 
@@ -392,3 +438,75 @@ export async function getActiveProducts(): Promise<ActionResult<{
     return { success: false, error: "Failed to fetch products" };
   }
 }
+
+/**
+ * Active product at the current branch with this SKU, for barcode scans at
+ * the till. Keyboard-wedge scanners type through caps lock, so an exact match
+ * wins and a case-insensitive one is the fallback.
+ */
+export async function getProductBySku(sku: string): Promise<ActionResult<ActiveProduct | null>> {
+  const authResult = await checkAuth("products:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const code = sku.trim();
+  if (!code) {
+    return { success: true, data: null };
+  }
+
+  try {
+    const where = { salonId: authResult.salonId, isActive: true };
+    const product =
+      (await prisma.product.findFirst({ where: { ...where, sku: code }, select: activeProductSelect })) ??
+      (await prisma.product.findFirst({
+        where: { ...where, sku: { equals: code, mode: "insensitive" } },
+        select: activeProductSelect,
+      }));
+
+    return { success: true, data: product ? { ...product, price: Number(product.price) } : null };
+  } catch (error) {
+    console.error("Error looking up product by SKU:", error);
+    return { success: false, error: "Failed to look up product" };
+  }
+}
+
+export interface BarcodeLabelData {
+  salonName: string;
+  currencyCode: string;
+  products: { id: string; name: string; sku: string; price: number; category: string | null }[];
+}
+
+/** Active products at the current branch that have a SKU to print on a label. */
+export async function getBarcodeLabelData(): Promise<ActionResult<BarcodeLabelData>> {
+  const authResult = await checkAuth("products:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const [products, settings] = await Promise.all([
+      prisma.product.findMany({
+        where: { salonId: authResult.salonId, isActive: true, sku: { not: null } },
+        select: { id: true, name: true, sku: true, price: true, category: true },
+        orderBy: [{ category: "asc" }, { name: "asc" }],
+      }),
+      prisma.settings.findUnique({
+        where: { salonId: authResult.salonId },
+        select: { salonName: true, currencyCode: true },
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        salonName: settings?.salonName ?? "Salon",
+        currencyCode: settings?.currencyCode ?? "USD",
+        products: products.flatMap((p) => (p.sku ? [{ ...p, sku: p.sku, price: Number(p.price) }] : [])),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching barcode label data:", error);
+    return { success: false, error: "Failed to fetch products" };
+  }
+}
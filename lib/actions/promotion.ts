@@ -0,0 +1,343 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { Prisma } from "@prisma/client";
+import {
+  promotionSchema,
+  checkPromoCodeSchema,
+  PromotionFormInput,
+  CheckPromoCodeInput,
+} from "@/lib/validations/promotion";
+import { promotionIneligibility, promotionTerms } from "@/lib/promotions";
+import { PromotionTerms } from "@/lib/utils/promotion";
+import { dateRangeToInterval, dayToDate } from "@/lib/availability";
+import { ActionResult } from "@/lib/types";
+import { getOrganizationSalonIds } from "./branch";
+import { getSettings } from "./settings";
+import { logAudit } from "./audit";
+
+const promotionListInclude = Prisma.validator<Prisma.PromotionInclude>()({
+  _count: { select: { redemptions: true } },
+});
+
+export type PromotionListItem = Prisma.PromotionGetPayload<{
+  include: typeof promotionListInclude;
+}> & { totalDiscount: number };
+
+const redemptionInclude = Prisma.validator<Prisma.PromotionRedemptionInclude>()({
+  client: { select: { id: true, firstName: true, lastName: true } },
+  sale: { select: { id: true, invoice: { select: { invoiceNumber: true } } } },
+});
+
+export type PromotionRedemptionItem = Prisma.PromotionRedemptionGetPayload<{
+  include: typeof redemptionInclude;
+}>;
+
+/** A promo code checked against a client, with what checkout needs to price it. */
+export interface AppliedPromotion {
+  id: string;
+  code: string;
+  name: string;
+  terms: PromotionTerms;
+}
+
+// Scoped services and products must exist within the organization; returns an error message if not
+async function validatePromotionScope(
+  salonId: string,
+  serviceIds: string[],
+  productIds: string[]
+): Promise<string | null> {
+  if (serviceIds.length === 0 && productIds.length === 0) return null;
+  const orgSalonIds = await getOrganizationSalonIds(salonId);
+  const [serviceCount, productCount] = await Promise.all([
+    serviceIds.length > 0
+      ? prisma.service.count({ where: { id: { in: serviceIds }, salonId: { in: orgSalonIds } } })
+      : 0,
+    productIds.length > 0
+      ? prisma.product.count({ where: { id: { in: productIds }, salonId: { in: orgSalonIds } } })
+      : 0,
+  ]);
+  if (serviceCount !== serviceIds.length) return "One or more services are not available";
+  if (productCount !== productIds.length) return "One or more products are not available";
+  return null;
+}
+
+// Salon-local validity days as the instants the promotion starts and stops
+async function validityWindow(
+  startsOn: string | null,
+  endsOn: string | null
+): Promise<{ startsAt: Date | null; endsAt: Date | null }> {
+  const settingsResult = await getSettings();
+  const tz = settingsResult.success ? settingsResult.data.timezone : "UTC";
+  const startsAt = startsOn ? new Date(dateRangeToInterval(dayToDate(startsOn), dayToDate(startsOn), tz).start) : null;
+  const endsAt = endsOn ? new Date(dateRangeToInterval(dayToDate(endsOn), dayToDate(endsOn), tz).end) : null;
+  return { startsAt, endsAt };
+}
+
+/** This salon's promotions, with how often each has been redeemed and for how much. */
+export async function getPromotions(): Promise<ActionResult<PromotionListItem[]>> {
+  const authResult = await checkAuth("promotions:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const [promotions, totals] = await Promise.all([
+      prisma.promotion.findMany({
+        where: { salonId: authResult.salonId },
+        include: promotionListInclude,
+        orderBy: [{ isActive: "desc" }, { createdAt: "desc" }],
+      }),
+      prisma.promotionRedemption.groupBy({
+        by: ["promotionId"],
+        where: { salonId: authResult.salonId },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const totalMap = new Map(totals.map((t) => [t.promotionId, Number(t._sum.amount ?? 0)]));
+    return {
+      success: true,
+      data: promotions.map((p) => ({ ...p, totalDiscount: totalMap.get(p.id) ?? 0 })),
+    };
+  } catch (error) {
+    console.error("Error fetching promotions:", error);
+    return { success: false, error: "Failed to fetch promotions" };
+  }
+}
+
+export async function createPromotion(data: PromotionFormInput): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("promotions:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = promotionSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { description, startsOn, endsOn, ...rest } = validationResult.data;
+
+  try {
+    const scopeError = await validatePromotionScope(authResult.salonId, rest.serviceIds, rest.productIds);
+    if (scopeError) {
+      return { success: false, error: scopeError };
+    }
+
+    const promotion = await prisma.promotion.create({
+      data: {
+        ...rest,
+        ...(await validityWindow(startsOn, endsOn)),
+        salonId: authResult.salonId,
+        description: description || null,
+      },
+    });
+
+    await logAudit({
+      action: "PROMOTION_CREATED",
+      entityType: "Promotion",
+      entityId: promotion.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: {
+        code: rest.code,
+        discountType: rest.discountType,
+        discountValue: rest.discountValue,
+        startsOn,
+        endsOn,
+        minSpend: rest.minSpend,
+        usageLimit: rest.usageLimit,
+        perClientLimit: rest.perClientLimit,
+        firstVisitOnly: rest.firstVisitOnly,
+      },
+    });
+
+    revalidatePath("/dashboard/promotions");
+    return { success: true, data: { id: promotion.id } };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { success: false, error: `Promo code "${validationResult.data.code}" already exists` };
+    }
+    console.error("Error creating promotion:", error);
+    return { success: false, error: "Failed to create promotion" };
+  }
+}
+
+/** Update a promotion. Sales already made keep the discount they were given. */
+export async function updatePromotion(
+  data: { id: string } & PromotionFormInput
+): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("promotions:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = promotionSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { description, startsOn, endsOn, ...rest } = validationResult.data;
+
+  try {
+    const existing = await prisma.promotion.findFirst({
+      where: { id: data.id, salonId: authResult.salonId },
+      select: { id: true, code: true, discountType: true, discountValue: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Promotion not found" };
+    }
+
+    const scopeError = await validatePromotionScope(authResult.salonId, rest.serviceIds, rest.productIds);
+    if (scopeError) {
+      return { success: false, error: scopeError };
+    }
+
+    await prisma.promotion.update({
+      where: { id: existing.id },
+      data: { ...rest, ...(await validityWindow(startsOn, endsOn)), description: description || null },
+    });
+
+    await logAudit({
+      action: "PROMOTION_UPDATED",
+      entityType: "Promotion",
+      entityId: existing.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: {
+        code: { from: existing.code, to: rest.code },
+        discountType: { from: existing.discountType, to: rest.discountType },
+        discountValue: { from: Number(existing.discountValue), to: rest.discountValue },
+        isActive: rest.isActive,
+      },
+    });
+
+    revalidatePath("/dashboard/promotions");
+    return { success: true, data: undefined };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { success: false, error: `Promo code "${validationResult.data.code}" already exists` };
+    }
+    console.error("Error updating promotion:", error);
+    return { success: false, error: "Failed to update promotion" };
+  }
+}
+
+/**
+ * Delete a promotion that was never used. One with redemptions is switched
+ * off instead, so its history stays reportable.
+ */
+export async function deletePromotion(id: string): Promise<ActionResult<{ deactivated: boolean }>> {
+  const authResult = await checkAuth("promotions:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const promotion = await prisma.promotion.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { id: true, code: true, _count: { select: { redemptions: true } } },
+    });
+    if (!promotion) {
+      return { success: false, error: "Promotion not found" };
+    }
+
+    const deactivated = promotion._count.redemptions > 0;
+    if (deactivated) {
+      await prisma.promotion.update({ where: { id: promotion.id }, data: { isActive: false } });
+    } else {
+      await prisma.promotion.delete({ where: { id: promotion.id } });
+    }
+
+    await logAudit({
+      action: deactivated ? "PROMOTION_DEACTIVATED" : "PROMOTION_DELETED",
+      entityType: "Promotion",
+      entityId: promotion.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { code: promotion.code },
+    });
+
+    revalidatePath("/dashboard/promotions");
+    return { success: true, data: { deactivated } };
+  } catch (error) {
+    console.error("Error deleting promotion:", error);
+    return { success: false, error: "Failed to delete promotion" };
+  }
+}
+
+/** Every redemption of a promotion, newest first. */
+export async function getPromotionRedemptions(
+  promotionId: string
+): Promise<ActionResult<PromotionRedemptionItem[]>> {
+  const authResult = await checkAuth("promotions:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const redemptions = await prisma.promotionRedemption.findMany({
+      where: { promotionId, salonId: authResult.salonId },
+      include: redemptionInclude,
+      orderBy: { createdAt: "desc" },
+      take: 500,
+    });
+
+    return { success: true, data: redemptions };
+  } catch (error) {
+    console.error("Error fetching promotion redemptions:", error);
+    return { success: false, error: "Failed to fetch redemptions" };
+  }
+}
+
+/**
+ * Look up a promo code at checkout and check the client may use it. The sale
+ * is re-checked when it is created and again when it is paid.
+ */
+export async function checkPromoCode(data: CheckPromoCodeInput): Promise<ActionResult<AppliedPromotion>> {
+  const authResult = await checkAuth("sales:create");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = checkPromoCodeSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { code, clientId } = validationResult.data;
+
+  try {
+    const promotion = await prisma.promotion.findUnique({
+      where: { salonId_code: { salonId: authResult.salonId, code } },
+    });
+    if (!promotion) {
+      return { success: false, error: `Promo code ${code} was not found` };
+    }
+
+    const ineligible = await promotionIneligibility(prisma, { promotion, clientId: clientId ?? null });
+    if (ineligible) {
+      return { success: false, error: ineligible };
+    }
+
+    return {
+      success: true,
+      data: { id: promotion.id, code: promotion.code, name: promotion.name, terms: promotionTerms(promotion) },
+    };
+  } catch (error) {
+    console.error("Error checking promo code:", error);
+    return { success: false, error: "Failed to check promo code" };
+  }
+}
@@ -0,0 +1,752 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { addDays } from "date-fns";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { findReorderSuggestions, generatePurchaseOrderNumber, receiveIntoStock } from "@/lib/purchase-orders";
+import { formatInTz } from "@/lib/utils/timezone";
+import {
+  OPEN_PURCHASE_ORDER_STATUSES,
+  purchaseOrderTotal,
+  ReorderSuggestion,
+} from "@/lib/utils/purchase-order";
+import {
+  purchaseOrderSchema,
+  purchaseOrderSearchSchema,
+  purchaseOrderUpdateSchema,
+  receivePurchaseOrderSchema,
+  PurchaseOrderInput,
+  PurchaseOrderSearchParams,
+  PurchaseOrderUpdateInput,
+  ReceivePurchaseOrderInput,
+} from "@/lib/validations/purchase-order";
+import type { PurchaseOrderPDFData } from "@/components/purchase-orders/purchase-order-pdf";
+import { logAudit } from "./audit";
+import { getOrgRootSalonId } from "./branch";
+import { getTimezone } from "./settings";
+
+const purchaseOrderListInclude = Prisma.validator<Prisma.PurchaseOrderInclude>()({
+  supplier: { select: { id: true, name: true } },
+  items: { select: { quantity: true, quantityReceived: true, unitCost: true } },
+});
+
+export type PurchaseOrderListItem = Prisma.PurchaseOrderGetPayload<{
+  include: typeof purchaseOrderListInclude;
+}>;
+
+const purchaseOrderDetailInclude = Prisma.validator<Prisma.PurchaseOrderInclude>()({
+  supplier: true,
+  createdBy: { select: { firstName: true, lastName: true } },
+  expenseCategory: { select: { id: true, name: true } },
+  expense: { select: { id: true, amount: true, date: true } },
+  items: {
+    include: { product: { select: { id: true, name: true, sku: true, stock: true, cost: true } } },
+    orderBy: { product: { name: "asc" } },
+  },
+  stockMovements: {
+    select: {
+      id: true,
+      quantity: true,
+      createdAt: true,
+      product: { select: { name: true } },
+      createdBy: { select: { firstName: true, lastName: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  },
+});
+
+export type PurchaseOrderDetail = Prisma.PurchaseOrderGetPayload<{
+  include: typeof purchaseOrderDetailInclude;
+}>;
+
+/** Purchase orders placed by this branch, newest first. */
+export async function getPurchaseOrders(params: PurchaseOrderSearchParams = {}): Promise<ActionResult<{
+  purchaseOrders: PurchaseOrderListItem[];
+  total: number;
+  page: number;
+  totalPages: number;
+}>> {
+  const authResult = await checkAuth("purchase-orders:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = purchaseOrderSearchSchema.safeParse(params);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { status, supplierId, page = 1, limit = 20 } = validationResult.data;
+
+  try {
+    const where: Prisma.PurchaseOrderWhereInput = {
+      salonId: authResult.salonId,
+      ...(status && { status }),
+      ...(supplierId && { supplierId }),
+    };
+
+    const [purchaseOrders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        include: purchaseOrderListInclude,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.purchaseOrder.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        purchaseOrders,
+        total,
+        page,
+        totalPages: Math.max(1, Math.ceil(total / limit)),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching purchase orders:", error);
+    return { success: false, error: "Failed to fetch purchase orders" };
+  }
+}
+
+export async function getPurchaseOrder(id: string): Promise<ActionResult<PurchaseOrderDetail>> {
+  const authResult = await checkAuth("purchase-orders:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const purchaseOrder = await prisma.purchaseOrder.findFirst({
+      where: { id, salonId: authResult.salonId },
+      include: purchaseOrderDetailInclude,
+    });
+
+    if (!purchaseOrder) {
+      return { success: false, error: "Purchase order not found" };
+    }
+
+    return { success: true, data: purchaseOrder };
+  } catch (error) {
+    console.error("Error fetching purchase order:", error);
+    return { success: false, error: "Failed to fetch purchase order" };
+  }
+}
+
+/** Products due for reordering, optionally only those preferring one supplier. */
+export async function getReorderSuggestions(supplierId?: string): Promise<ActionResult<ReorderSuggestion[]>> {
+  const authResult = await checkAuth("purchase-orders:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    return { success: true, data: await findReorderSuggestions(authResult.salonId, supplierId) };
+  } catch (error) {
+    console.error("Error fetching reorder suggestions:", error);
+    return { success: false, error: "Failed to fetch low-stock products" };
+  }
+}
+
+export type OrderableProduct = {
+  id: string;
+  name: string;
+  sku: string | null;
+  stock: number;
+  lowStockThreshold: number;
+  cost: number | null;
+  supplierId: string | null;
+};
+
+/**
+ * This branch's products that can go on an order: the active ones, plus any
+ * already on the order being edited.
+ */
+export async function getOrderableProducts(includeIds: string[] = []): Promise<ActionResult<OrderableProduct[]>> {
+  const authResult = await checkAuth("purchase-orders:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const products = await prisma.product.findMany({
+      where: { salonId: authResult.salonId, OR: [{ isActive: true }, { id: { in: includeIds } }] },
+      select: { id: true, name: true, sku: true, stock: true, lowStockThreshold: true, cost: true, supplierId: true },
+      orderBy: { name: "asc" },
+    });
+
+    return {
+      success: true,
+      data: products.map((p) => ({ ...p, cost: p.cost === null ? null : Number(p.cost) })),
+    };
+  } catch (error) {
+    console.error("Error fetching orderable products:", error);
+    return { success: false, error: "Failed to fetch products" };
+  }
+}
+
+/**
+ * Check that an order's supplier, products and expense category are ones this
+ * branch can use. Returns an error message, or null when everything is valid.
+ */
+async function checkPurchaseOrderReferences(
+  salonId: string,
+  data: { supplierId: string; expenseCategoryId: string | null; items: { productId: string }[] }
+): Promise<string | null> {
+  const orgRootId = await getOrgRootSalonId(salonId);
+  const productIds = data.items.map((i) => i.productId);
+
+  const [supplier, productCount, category] = await Promise.all([
+    prisma.supplier.findFirst({ where: { id: data.supplierId, salonId: orgRootId, isActive: true } }),
+    // Stock is kept per branch, so only this branch's products can be ordered
+    prisma.product.count({ where: { id: { in: productIds }, salonId } }),
+    data.expenseCategoryId
+      ? prisma.expenseCategory.findFirst({ where: { id: data.expenseCategoryId, salonId: orgRootId, isActive: true } })
+      : null,
+  ]);
+
+  if (!supplier) return "Supplier not found";
+  if (productCount !== productIds.length) return "Product not found";
+  if (data.expenseCategoryId && !category) return "Expense category not found";
+  return null;
+}
+
+/** Draft a purchase order. Nothing is sent or received until it's placed. */
+export async function createPurchaseOrder(data: PurchaseOrderInput): Promise<ActionResult<{ id: string; poNumber: string }>> {
+  const authResult = await checkAuth("purchase-orders:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = purchaseOrderSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { supplierId, expectedOn, expenseCategoryId, notes, items } = validationResult.data;
+
+  try {
+    const referenceError = await checkPurchaseOrderReferences(authResult.salonId, validationResult.data);
+    if (referenceError) {
+      return { success: false, error: referenceError };
+    }
+
+    const timezone = await getTimezone();
+    const purchaseOrder = await prisma.$transaction(async (tx) => {
+      const poNumber = await generatePurchaseOrderNumber(tx, timezone, authResult.salonId);
+      return tx.purchaseOrder.create({
+        data: {
+          salonId: authResult.salonId,
+          supplierId,
+          poNumber,
+          expectedOn: expectedOn ? new Date(`${expectedOn}T00:00:00Z`) : null,
+          expenseCategoryId,
+          notes: notes || null,
+          createdById: authResult.userId,
+          items: { create: items },
+        },
+        select: { id: true, poNumber: true },
+      });
+    });
+
+    await logAudit({
+      action: "PURCHASE_ORDER_CREATED",
+      entityType: "PurchaseOrder",
+      entityId: purchaseOrder.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { poNumber: purchaseOrder.poNumber, supplierId, lines: items.length, total: purchaseOrderTotal(items) },
+    });
+
+    revalidatePath("/dashboard/purchase-orders");
+    return { success: true, data: purchaseOrder };
+  } catch (error) {
+    console.error("Error creating purchase order:", error);
+    return { success: false, error: "Failed to create purchase order" };
+  }
+}
+
+/** Change a draft's supplier, dates or lines. Placed orders can't be edited. */
+export async function updatePurchaseOrder(data: PurchaseOrderUpdateInput): Promise<ActionResult> {
+  const authResult = await checkAuth("purchase-orders:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = purchaseOrderUpdateSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { id, supplierId, expectedOn, expenseCategoryId, notes, items } = validationResult.data;
+
+  try {
+    const existing = await prisma.purchaseOrder.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { status: true, poNumber: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Purchase order not found" };
+    }
+    if (existing.status !== "DRAFT") {
+      return { success: false, error: "Only draft purchase orders can be edited" };
+    }
+
+    const referenceError = await checkPurchaseOrderReferences(authResult.salonId, validationResult.data);
+    if (referenceError) {
+      return { success: false, error: referenceError };
+    }
+
+    await prisma.$transaction([
+      prisma.purchaseOrderItem.deleteMany({ where: { purchaseOrderId: id } }),
+      prisma.purchaseOrder.update({
+        where: { id },
+        data: {
+          supplierId,
+          expectedOn: expectedOn ? new Date(`${expectedOn}T00:00:00Z`) : null,
+          expenseCategoryId,
+          notes: notes || null,
+          items: { create: items },
+        },
+      }),
+    ]);
+
+    await logAudit({
+      action: "PURCHASE_ORDER_UPDATED",
+      entityType: "PurchaseOrder",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { poNumber: existing.poNumber, supplierId, lines: items.length, total: purchaseOrderTotal(items) },
+    });
+
+    revalidatePath("/dashboard/purchase-orders");
+    revalidatePath(`/dashboard/purchase-orders/${id}`);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error updating purchase order:", error);
+    return { success: false, error: "Failed to update purchase order" };
+  }
+}
+
+/**
+ * Draft one purchase order per preferred supplier for every product due for
+ * reordering, at each product's current cost.
+ * Products without an active preferred supplier are left for ordering by hand.
+ */
+export async function draftReorderPurchaseOrders(): Promise<ActionResult<{
+  purchaseOrders: { id: string; poNumber: string }[];
+  unassigned: number;
+}>> {
+  const authResult = await checkAuth("purchase-orders:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const suggestions = await findReorderSuggestions(authResult.salonId);
+    const bySupplier = new Map<string, ReorderSuggestion[]>();
+    for (const suggestion of suggestions) {
+      if (!suggestion.supplierId) continue;
+      bySupplier.set(suggestion.supplierId, [...(bySupplier.get(suggestion.supplierId) ?? []), suggestion]);
+    }
+    const unassigned = suggestions.filter((s) => !s.supplierId).length;
+
+    if (bySupplier.size === 0) {
+      return {
+        success: false,
+        error: unassigned > 0
+          ? "None of the low-stock products have a preferred supplier"
+          : "No products need reordering",
+      };
+    }
+
+    const timezone = await getTimezone();
+    const purchaseOrders = await prisma.$transaction(async (tx) => {
+      const created: { id: string; poNumber: string }[] = [];
+      for (const [supplierId, lines] of bySupplier) {
+        const poNumber = await generatePurchaseOrderNumber(tx, timezone, authResult.salonId);
+        created.push(await tx.purchaseOrder.create({
+          data: {
+            salonId: authResult.salonId,
+            supplierId,
+            poNumber,
+            createdById: authResult.userId,
+            items: {
+              create: lines.map((line) => ({
+                productId: line.productId,
+                quantity: line.suggestedQuantity,
+                unitCost: line.cost ?? 0,
+              })),
+            },
+          },
+          select: { id: true, poNumber: true },
+        }));
+      }
+      return created;
+    });
+
+    await logAudit({
+      action: "PURCHASE_ORDERS_DRAFTED",
+      entityType: "PurchaseOrder",
+      entityId: purchaseOrders.length === 1 ? purchaseOrders[0].id : null,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { poNumbers: purchaseOrders.map((po) => po.poNumber), unassigned },
+    });
+
+    revalidatePath("/dashboard/purchase-orders");
+    return { success: true, data: { purchaseOrders, unassigned } };
+  } catch (error) {
+    console.error("Error drafting reorder purchase orders:", error);
+    return { success: false, error: "Failed to draft purchase orders" };
+  }
+}
+
+/**
+ * Mark a draft as sent to the supplier. Without an expected date, delivery is
+ * expected after the supplier's lead time.
+ */
+export async function placePurchaseOrder(id: string): Promise<ActionResult> {
+  const authResult = await checkAuth("purchase-orders:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const existing = await prisma.purchaseOrder.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { status: true, poNumber: true, expectedOn: true, supplier: { select: { leadTimeDays: true } } },
+    });
+    if (!existing) {
+      return { success: false, error: "Purchase order not found" };
+    }
+    if (existing.status !== "DRAFT") {
+      return { success: false, error: "This purchase order has already been placed" };
+    }
+
+    const timezone = await getTimezone();
+    const now = new Date();
+    const leadTimeDays = existing.supplier.leadTimeDays;
+    const expectedOn = existing.expectedOn ?? (leadTimeDays !== null
+      ? new Date(`${formatInTz(addDays(now, leadTimeDays), "yyyy-MM-dd", timezone)}T00:00:00Z`)
+      : null);
+
+    await prisma.purchaseOrder.update({
+      where: { id },
+      data: { status: "ORDERED", orderedAt: now, expectedOn },
+    });
+
+    await logAudit({
+      action: "PURCHASE_ORDER_PLACED",
+      entityType: "PurchaseOrder",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { poNumber: existing.poNumber, expectedOn: expectedOn?.toISOString().slice(0, 10) ?? null },
+    });
+
+    revalidatePath("/dashboard/purchase-orders");
+    revalidatePath(`/dashboard/purchase-orders/${id}`);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error placing purchase order:", error);
+    return { success: false, error: "Failed to place purchase order" };
+  }
+}
+
+/**
+ * Book a delivery against a placed order. Each line's units go on the shelf
+ * with the product's cost re-averaged, and the goods' value is added to the
+ * order's expense, which is created in its category on the first delivery.
+ */
+export async function receivePurchaseOrder(data: ReceivePurchaseOrderInput): Promise<ActionResult<{
+  status: string;
+  received: number;
+}>> {
+  const authResult = await checkAuth("purchase-orders:receive");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = receivePurchaseOrderSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { purchaseOrderId } = validationResult.data;
+  const lines = validationResult.data.lines.filter((l) => l.quantity > 0);
+
+  try {
+    const purchaseOrder = await prisma.purchaseOrder.findFirst({
+      where: { id: purchaseOrderId, salonId: authResult.salonId },
+      include: {
+        supplier: { select: { name: true } },
+        items: { include: { product: { select: { name: true } } } },
+      },
+    });
+    if (!purchaseOrder) {
+      return { success: false, error: "Purchase order not found" };
+    }
+    if (purchaseOrder.status !== "ORDERED" && purchaseOrder.status !== "PARTIALLY_RECEIVED") {
+      return {
+        success: false,
+        error: purchaseOrder.status === "DRAFT"
+          ? "Place the purchase order before receiving it"
+          : "This purchase order is closed",
+      };
+    }
+
+    const items = new Map(purchaseOrder.items.map((item) => [item.id, item]));
+    for (const line of lines) {
+      const item = items.get(line.itemId);
+      if (!item) {
+        return { success: false, error: "Purchase order line not found" };
+      }
+      const outstanding = item.quantity - item.quantityReceived;
+      if (line.quantity > outstanding) {
+        return { success: false, error: `Only ${outstanding} of "${item.product.name}" are still due` };
+      }
+    }
+
+    const orgRootId = await getOrgRootSalonId(authResult.salonId);
+    const timezone = await getTimezone();
+
+    const status = await prisma.$transaction(async (tx) => {
+      // Re-check the order is still open now that its row is locked, so a delivery booked
+      // twice at the same time waits for the first and reads its expense
+      const claimed = await tx.purchaseOrder.updateMany({
+        where: { id: purchaseOrderId, status: { in: ["ORDERED", "PARTIALLY_RECEIVED"] } },
+        data: { updatedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error("Cannot receive: this purchase order was closed in the meantime");
+      }
+      const current = await tx.purchaseOrder.findUniqueOrThrow({
+        where: { id: purchaseOrderId },
+        select: { expenseId: true },
+      });
+
+      let valueCents = 0;
+      for (const line of lines) {
+        const item = items.get(line.itemId)!;
+        // The outstanding check and the increment are one conditional update
+        const booked = await tx.purchaseOrderItem.updateMany({
+          where: { id: item.id, quantityReceived: { lte: item.quantity - line.quantity } },
+          data: { quantityReceived: { increment: line.quantity } },
+        });
+        if (booked.count === 0) {
+          throw new Error(`Cannot receive: fewer than ${line.quantity} of "${item.product.name}" are still due`);
+        }
+        await receiveIntoStock(tx, {
+          productId: item.productId,
+          quantity: line.quantity,
+          unitCost: Number(item.unitCost),
+          purchaseOrderId,
+          poNumber: purchaseOrder.poNumber,
+          createdById: authResult.userId,
+        });
+        valueCents += Math.round(Number(item.unitCost) * 100) * line.quantity;
+      }
+
+      // The goods are booked as one expense per order, growing with each delivery
+      let expenseId = current.expenseId;
+      if (valueCents > 0) {
+        if (expenseId) {
+          await tx.expense.update({
+            where: { id: expenseId },
+            data: { amount: { increment: valueCents / 100 } },
+          });
+        } else {
+          const categoryId = purchaseOrder.expenseCategoryId ?? (await tx.expenseCategory.findFirst({
+            where: { salonId: orgRootId, name: "Supplies", isActive: true },
+            select: { id: true },
+          }))?.id;
+          if (!categoryId) {
+            throw new Error(
+              "Cannot book this delivery: the \"Supplies\" expense category was not found. Please create it under Expense Categories or choose a category on the purchase order, then try again."
+            );
+          }
+          const expense = await tx.expense.create({
+            data: {
+              salonId: purchaseOrder.salonId,
+              categoryId,
+              amount: valueCents / 100,
+              description: `Purchase order ${purchaseOrder.poNumber} — ${purchaseOrder.supplier.name}`,
+              date: new Date(`${formatInTz(new Date(), "yyyy-MM-dd", timezone)}T00:00:00Z`),
+              createdById: authResult.userId,
+            },
+          });
+          expenseId = expense.id;
+        }
+      }
+
+      const remaining = await tx.purchaseOrderItem.count({
+        where: { purchaseOrderId, quantityReceived: { lt: tx.purchaseOrderItem.fields.quantity } },
+      });
+      const updated = await tx.purchaseOrder.update({
+        where: { id: purchaseOrderId },
+        data: {
+          status: remaining === 0 ? "RECEIVED" : "PARTIALLY_RECEIVED",
+          receivedAt: remaining === 0 ? new Date() : null,
+          expenseId,
+        },
+        select: { status: true },
+      });
+      return updated.status;
+    });
+
+    const received = lines.reduce((sum, l) => sum + l.quantity, 0);
+
+    await logAudit({
+      action: "PURCHASE_ORDER_RECEIVED",
+      entityType: "PurchaseOrder",
+      entityId: purchaseOrderId,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { poNumber: purchaseOrder.poNumber, status, lines, received },
+    });
+
+    revalidatePath("/dashboard/purchase-orders");
+    revalidatePath(`/dashboard/purchase-orders/${purchaseOrderId}`);
+    revalidatePath("/dashboard/products");
+    revalidatePath("/dashboard/expenses");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: { status, received } };
+  } catch (error) {
+    console.error("Error receiving purchase order:", error);
+    const message = error instanceof Error && error.message.startsWith("Cannot ")
+      ? error.message
+      : "Failed to receive purchase order";
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Cancel an order, or whatever is still due on a partly received one. Stock
+ * and expenses already booked for delivered units are kept.
+ */
+export async function cancelPurchaseOrder(id: string): Promise<ActionResult> {
+  const authResult = await checkAuth("purchase-orders:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const existing = await prisma.purchaseOrder.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { status: true, poNumber: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Purchase order not found" };
+    }
+    if (!OPEN_PURCHASE_ORDER_STATUSES.includes(existing.status)) {
+      return { success: false, error: "This purchase order is already closed" };
+    }
+
+    await prisma.purchaseOrder.update({
+      where: { id },
+      data: { status: "CANCELLED" },
+    });
+
+    await logAudit({
+      action: "PURCHASE_ORDER_CANCELLED",
+      entityType: "PurchaseOrder",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { poNumber: existing.poNumber, previousStatus: existing.status },
+    });
+
+    revalidatePath("/dashboard/purchase-orders");
+    revalidatePath(`/dashboard/purchase-orders/${id}`);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error cancelling purchase order:", error);
+    return { success: false, error: "Failed to cancel purchase order" };
+  }
+}
+
+/** Everything the purchase order PDF needs, with the salon's letterhead. */
+export async function getPurchaseOrderPDFData(id: string): Promise<ActionResult<PurchaseOrderPDFData>> {
+  const authResult = await checkAuth("purchase-orders:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const [purchaseOrder, settings] = await Promise.all([
+      prisma.purchaseOrder.findFirst({
+        where: { id, salonId: authResult.salonId },
+        include: {
+          supplier: true,
+          items: {
+            include: { product: { select: { name: true, sku: true } } },
+            orderBy: { product: { name: "asc" } },
+          },
+        },
+      }),
+      prisma.settings.findUnique({
+        where: { salonId: authResult.salonId },
+        select: {
+          salonName: true,
+          salonAddress: true,
+          salonPhone: true,
+          salonEmail: true,
+          salonLogo: true,
+          currencyCode: true,
+          timezone: true,
+        },
+      }),
+    ]);
+
+    if (!purchaseOrder) {
+      return { success: false, error: "Purchase order not found" };
+    }
+
+    const items = purchaseOrder.items.map((item) => ({
+      id: item.id,
+      name: item.product.name,
+      sku: item.product.sku,
+      quantity: item.quantity,
+      unitCost: Number(item.unitCost),
+    }));
+
+    return {
+      success: true,
+      data: {
+        poNumber: purchaseOrder.poNumber,
+        status: purchaseOrder.status,
+        createdAt: purchaseOrder.createdAt.toISOString(),
+        orderedAt: purchaseOrder.orderedAt?.toISOString() ?? null,
+        expectedOn: purchaseOrder.expectedOn?.toISOString().slice(0, 10) ?? null,
+        notes: purchaseOrder.notes,
+        salonName: settings?.salonName ?? "Salon",
+        salonAddress: settings?.salonAddress ?? null,
+        salonPhone: settings?.salonPhone ?? null,
+        salonEmail: settings?.salonEmail ?? null,
+        salonLogo: settings?.salonLogo ?? null,
+        currencyCode: settings?.currencyCode ?? "USD",
+        timezone: settings?.timezone ?? "UTC",
+        supplier: {
+          name: purchaseOrder.supplier.name,
+          contactName: purchaseOrder.supplier.contactName,
+          email: purchaseOrder.supplier.email,
+          phone: purchaseOrder.supplier.phone,
+          address: purchaseOrder.supplier.address,
+          paymentTermsDays: purchaseOrder.supplier.paymentTermsDays,
+        },
+        items,
+        total: purchaseOrderTotal(items),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching purchase order PDF data:", error);
+    return { success: false, error: "Failed to generate purchase order PDF" };
+  }
+}
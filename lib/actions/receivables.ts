@@ -0,0 +1,59 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { checkAuth } from "@/lib/auth-helpers";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { clientAccount, runOverdueInvoices } from "@/lib/receivables";
+import { ClientAccount } from "@/lib/utils/receivables";
+import { getSettings } from "./settings";
+
+/** What a client owes this branch: their open invoices and totals. */
+export async function getClientAccount(clientId: string): Promise<ActionResult<ClientAccount>> {
+  const authResult = await checkAuth("invoices:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const settingsResult = await getSettings();
+    const timezone = settingsResult.success ? settingsResult.data.timezone : "UTC";
+    return { success: true, data: await clientAccount(authResult.salonId, clientId, timezone) };
+  } catch (error) {
+    console.error("Error fetching client account:", error);
+    return { success: false, error: "Failed to fetch client account" };
+  }
+}
+
+/**
+ * Mark this branch's invoices past their due date as OVERDUE, pause
+ * memberships left unpaid, and email each client with a newly overdue invoice
+ * a statement of what they owe.
+ */
+export async function processOverdueInvoices(): Promise<ActionResult<{
+  invoicesMarked: number;
+  membershipsPaused: number;
+  statementsSent: number;
+  statementsFailed: number;
+}>> {
+  const authResult = await checkAuth("invoices:update");
+  if (!authResult) return { success: false, error: "Unauthorized" };
+
+  try {
+    const result = await runOverdueInvoices(authResult.salonId);
+
+    if (result.invoicesMarked > 0) {
+      revalidatePath("/dashboard/invoices");
+      revalidatePath("/dashboard/sales");
+      await invalidateDashboardCache(authResult.salonId);
+    }
+    if (result.membershipsPaused > 0) {
+      revalidatePath("/dashboard/memberships");
+      revalidatePath("/dashboard/clients");
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error processing overdue invoices:", error);
+    return { success: false, error: "Failed to process overdue invoices" };
+  }
+}
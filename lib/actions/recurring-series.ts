@@ -29,6 +29,8 @@ import {
   RecurringDateConfig,
 } from "@/lib/utils/recurring";
 import { ActionResult } from "@/lib/types";
+import { getUnavailableReason, getClosedDates } from "@/lib/availability";
+import { offerFreedSlot } from "@/lib/waitlist";
 import { getOrganizationSalonIds } from "./branch";
 
 async function checkAuth(permission: Permission): Promise<{ userId: string; role: Role; salonId: string } | null> {
@@ -94,7 +96,7 @@ export type RecurringSeriesListItem = Prisma.RecurringAppointmentSeriesGetPayloa
   include: typeof recurringSeriesInclude;
 }>;
 
-// Check for appointment conflicts
+// Check for appointment conflicts, salon closures and approved staff time off
 async function checkConflict(
   staffId: string,
   startTime: Date,
@@ -116,7 +118,9 @@ async function checkConflict(
     },
   });
 
-  return !!conflict;
+  if (conflict) return true;
+
+  return !!salonId && !!(await getUnavailableReason(prisma, { salonId, staffId, startTime, endTime }));
 }
 
 // Log audit action
@@ -205,9 +209,11 @@ export async function createRecurringSeries(
     });
 
     // Calculate dates based on pattern (use user-provided startDate or default to now)
+    // Salon closure days are skipped like per-series exception dates
+    const seriesStart = validData.startDate ?? new Date();
     const dateConfig: RecurringDateConfig = {
       pattern: validData.pattern,
-      startDate: validData.startDate ?? new Date(),
+      startDate: seriesStart,
       timeOfDay: validData.timeOfDay,
       dayOfWeek: validData.dayOfWeek ?? 0,
       customWeeks: validData.customWeeks,
@@ -216,7 +222,7 @@ export async function createRecurringSeries(
       endType: validData.endType,
       endAfterCount: validData.endAfterCount,
       endByDate: validData.endByDate,
-      exceptionDates: [],
+      exceptionDates: await getClosedDates(authResult.salonId, format(seriesStart, "yyyy-MM-dd")),
     };
 
     const dates = calculateRecurringDates(dateConfig);
@@ -626,12 +632,21 @@ export async function cancelRecurringSeries(seriesId: string): Promise<ActionRes
     }
 
     // Cancel all future appointments in the series
-    const result = await prisma.appointment.updateMany({
+    const futureAppointments = await prisma.appointment.findMany({
       where: {
         seriesId,
         startTime: { gte: new Date() },
         status: { notIn: ["COMPLETED", "CANCELLED", "NO_SHOW"] },
       },
+      select: { id: true, salonId: true, staffId: true, startTime: true, endTime: true },
+      orderBy: { startTime: "asc" },
+    });
+
+    const result = await prisma.appointment.updateMany({
+      where: {
+        id: { in: futureAppointments.map((apt) => apt.id) },
+        status: { notIn: ["COMPLETED", "CANCELLED", "NO_SHOW"] },
+      },
       data: { status: "CANCELLED" },
     });
 
@@ -648,6 +663,15 @@ export async function cancelRecurringSeries(seriesId: string): Promise<ActionRes
     revalidatePath("/dashboard/appointments");
     revalidatePath("/dashboard/clients");
 
+    // Offer the freed occurrences to waitlisted clients, soonest first
+    let offered = 0;
+    for (const apt of futureAppointments) {
+      offered += await offerFreedSlot(apt);
+    }
+    if (offered > 0) {
+      revalidatePath("/dashboard/waitlist");
+    }
+
     return { success: true, data: { cancelledCount: result.count } };
   } catch (error) {
     console.error("Error cancelling recurring series:", error);
@@ -837,7 +861,10 @@ export async function extendSeries(
       : new Date();
 
     // Calculate dates (extend from last appointment, not from "now")
-    const exceptionDates = series.exceptions.map((e) => new Date(e.date));
+    const exceptionDates = [
+      ...series.exceptions.map((e) => new Date(e.date)),
+      ...(await getClosedDates(authResult.salonId, format(startFrom, "yyyy-MM-dd"))),
+    ];
     const endDate = addMonths(startFrom, additionalMonths);
 
     const dateConfig: RecurringDateConfig = {
@@ -1267,7 +1294,9 @@ export async function getRecurringPreviewDates(
   params: PreviewDatesParams
 ): Promise<ActionResult<{ dates: Date[] }>> {
   // No auth required for preview - it's just date calculation
-  // The actual creation will have proper auth checks
+  // The actual creation will have proper auth checks; signed-in users also
+  // see their salon's closure days skipped
+  const authResult = await checkAuth("appointments:view");
 
   const {
     pattern,
@@ -1297,7 +1326,9 @@ export async function getRecurringPreviewDates(
         ? Math.min(endAfterCount || 6, maxPreviewCount)
         : undefined,
       endByDate: endType === "BY_DATE" ? endByDate : undefined,
-      exceptionDates: [],
+      exceptionDates: authResult
+        ? await getClosedDates(authResult.salonId, format(new Date(startDate), "yyyy-MM-dd"))
+        : [],
       maxDates: maxPreviewCount,
     };
 
@@ -1379,9 +1410,11 @@ export async function previewRecurringConflicts(
     const businessEnd = settings?.businessHoursEnd || "19:00";
 
     // Calculate dates based on pattern (use user-provided startDate or default to now)
+    // Salon closure days are skipped like per-series exception dates
+    const seriesStart = validData.startDate ?? new Date();
     const dateConfig: RecurringDateConfig = {
       pattern: validData.pattern,
-      startDate: validData.startDate ?? new Date(),
+      startDate: seriesStart,
       timeOfDay: validData.timeOfDay,
       dayOfWeek: validData.dayOfWeek ?? 0,
       customWeeks: validData.customWeeks,
@@ -1390,7 +1423,7 @@ export async function previewRecurringConflicts(
       endType: validData.endType,
       endAfterCount: validData.endAfterCount,
       endByDate: validData.endByDate,
-      exceptionDates: [],
+      exceptionDates: await getClosedDates(authResult.salonId, format(seriesStart, "yyyy-MM-dd")),
     };
 
     const dates = calculateRecurringDates(dateConfig);
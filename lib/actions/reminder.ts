@@ -0,0 +1,22 @@
+"use server";
+
+import { checkAuth } from "@/lib/auth-helpers";
+import { sendDueReminders } from "@/lib/reminders";
+import { ActionResult } from "@/lib/types";
+
+/** Send this branch's due appointment reminders now rather than waiting for the scheduled run. */
+export async function processAppointmentReminders(): Promise<ActionResult<{
+  sent: number;
+  failed: number;
+  skipped: number;
+}>> {
+  const authResult = await checkAuth("settings:manage");
+  if (!authResult) return { success: false, error: "Unauthorized" };
+
+  try {
+    return { success: true, data: await sendDueReminders(authResult.salonId) };
+  } catch (error) {
+    console.error("Error processing appointment reminders:", error);
+    return { success: false, error: "Failed to process appointment reminders" };
+  }
+}
@@ -12,15 +12,30 @@ import {
   CreateSaleInput,
   CompleteSaleInput,
   SaleSearchParams,
+  TipInput,
+  PayLaterInput,
 } from "@/lib/validations/sale";
 import { Role, Prisma, PaymentMethod, InvoiceStatus } from "@prisma/client";
 import { getSettings } from "./settings";
 import { calculateTier, getTierMultiplier, isBirthday } from "@/lib/utils/loyalty";
-import { getNow, getMonthRange, getTodayRange } from "@/lib/utils/timezone";
+import { formatInTz, getNow, getTodayRange, startOfDayInTz } from "@/lib/utils/timezone";
 import { ActionResult } from "@/lib/types";
 import { logAudit } from "./audit";
 import { invalidateDashboardCache } from "@/lib/redis";
 import { getOrganizationSalonIds } from "./branch";
+import { issueGiftCard, redeemGiftCard } from "@/lib/gift-cards";
+import { createClientPackage, redeemPackageSessions } from "@/lib/packages";
+import { isClientPackageUsable } from "@/lib/utils/package";
+import { generateInvoiceNumber } from "@/lib/invoice-number";
+import { redeemMembershipCredits } from "@/lib/memberships";
+import { memberLineDiscount } from "@/lib/utils/membership";
+import { applyPromotion } from "@/lib/utils/promotion";
+import { promotionIneligibility, promotionTerms } from "@/lib/promotions";
+import { allocateTip, tipRecipients } from "@/lib/utils/tip";
+import { computeSaleTax, taxRateFor } from "@/lib/utils/tax";
+import { invoiceTaxSelect, recordSaleTax, taxClassRate, taxClassSelect } from "@/lib/taxes";
+import { consumeBackbarProduct, moveStock } from "@/lib/stock";
+import { drawBackbarUnits, recipeCost } from "@/lib/utils/service-recipe";
 
 async function checkAuth(permission: Permission): Promise<{ userId: string; role: Role; salonId: string } | null> {
   const session = await auth();
@@ -81,6 +96,17 @@ const saleListInclude = Prisma.validator<Prisma.SaleInclude>()({
           price: true,
         },
       },
+      refundItems: {
+        select: { quantity: true },
+      },
+    },
+  },
+  promotion: {
+    select: { id: true, code: true, name: true },
+  },
+  exchangeRefund: {
+    select: {
+      invoice: { select: { invoiceNumber: true, saleId: true } },
     },
   },
   invoice: {
@@ -89,8 +115,12 @@ const saleListInclude = Prisma.validator<Prisma.SaleInclude>()({
       invoiceNumber: true,
       status: true,
       total: true,
+      amount: true,
       tax: true,
+      tip: true,
+      dueDate: true,
       refundedAt: true,
+      taxes: { select: invoiceTaxSelect },
       payments: {
         select: {
           id: true,
@@ -100,13 +130,39 @@ const saleListInclude = Prisma.validator<Prisma.SaleInclude>()({
         },
         orderBy: { paidAt: "asc" as const },
       },
+      tips: {
+        select: {
+          id: true,
+          amount: true,
+          staff: { select: { id: true, firstName: true, lastName: true } },
+        },
+      },
       refunds: {
         select: {
           id: true,
           amount: true,
           reason: true,
           pointsReversed: true,
+          method: true,
           createdAt: true,
+          giftCard: { select: { code: true } },
+          exchangeSale: {
+            select: { id: true, invoice: { select: { invoiceNumber: true } } },
+          },
+          items: {
+            select: {
+              id: true,
+              quantity: true,
+              restocked: true,
+              saleItem: {
+                select: {
+                  description: true,
+                  service: { select: { name: true } },
+                  product: { select: { name: true } },
+                },
+              },
+            },
+          },
           refundedBy: {
             select: {
               id: true,
@@ -125,29 +181,6 @@ export type SaleListItem = Prisma.SaleGetPayload<{
   include: typeof saleListInclude;
 }>;
 
-// Generate invoice number
-async function generateInvoiceNumber(timezone: string, salonId: string): Promise<string> {
-  const now = getNow(timezone);
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, "0");
-
-  // Get count of invoices this month (timezone-aware boundaries)
-  const { start, end } = getMonthRange(timezone);
-
-  const count = await prisma.invoice.count({
-    where: {
-      salonId,
-      createdAt: {
-        gte: start,
-        lte: end,
-      },
-    },
-  });
-
-  const sequence = String(count + 1).padStart(4, "0");
-  return `INV-${year}${month}-${sequence}`;
-}
-
 // Get sales with filters
 export async function getSales(params: SaleSearchParams = {}): Promise<ActionResult<{
   sales: SaleListItem[];
@@ -256,7 +289,7 @@ export async function createSale(data: CreateSaleInput): Promise<ActionResult<Sa
     return { success: false, error: validationResult.error.issues[0].message };
   }
 
-  const { clientId, items, discount, discountType } = validationResult.data;
+  const { clientId, items, discount, discountType, promoCode, appointmentIds = [] } = validationResult.data;
 
   try {
     // Get org salon IDs to validate cross-branch references within the organization
@@ -272,27 +305,80 @@ export async function createSale(data: CreateSaleInput): Promise<ActionResult<Sa
       return { success: false, error: "Client not found or inactive" };
     }
 
+    // Appointments being checked out must be this client's, at this branch and still billable.
+    // One left linked to an abandoned draft is simply moved over to this sale.
+    if (appointmentIds.length > 0) {
+      const appointments = await prisma.appointment.findMany({
+        where: { id: { in: appointmentIds }, salonId: authResult.salonId },
+        select: { clientId: true, status: true, sale: { select: { invoice: { select: { id: true } } } } },
+      });
+      if (appointments.length !== new Set(appointmentIds).size) {
+        return { success: false, error: "Appointment not found" };
+      }
+      if (appointments.some((a) => a.clientId !== clientId)) {
+        return { success: false, error: "Appointments must belong to the client on the sale" };
+      }
+      if (appointments.some((a) => a.status === "CANCELLED" || a.status === "NO_SHOW")) {
+        return { success: false, error: "Cancelled or no-show appointments cannot be checked out" };
+      }
+      if (appointments.some((a) => a.sale?.invoice)) {
+        return { success: false, error: "One or more appointments have already been checked out" };
+      }
+    }
+
     // Verify services and products belong to the organization
     const serviceIds = items.filter((i) => i.serviceId).map((i) => i.serviceId!);
     const productIds = items.filter((i) => i.productId).map((i) => i.productId!);
+    const packageIds = items.filter((i) => i.servicePackageId).map((i) => i.servicePackageId!);
+    const clientPackageIds = items.filter((i) => i.clientPackageId).map((i) => i.clientPackageId!);
 
-    const [services, products] = await Promise.all([
+    const [services, products, packages, clientPackages, membership] = await Promise.all([
       serviceIds.length > 0
         ? prisma.service.findMany({
             where: { id: { in: serviceIds }, salonId: { in: orgSalonIds } },
-            select: { id: true, price: true, cost: true, isActive: true },
+            select: { id: true, price: true, cost: true, category: true, isActive: true },
           })
         : [],
       productIds.length > 0
         ? prisma.product.findMany({
             where: { id: { in: productIds }, salonId: { in: orgSalonIds } },
-            select: { id: true, name: true, price: true, cost: true, isActive: true, stock: true },
+            select: { id: true, name: true, price: true, cost: true, category: true, isActive: true, stock: true },
+          })
+        : [],
+      packageIds.length > 0
+        ? prisma.servicePackage.findMany({
+            where: { id: { in: packageIds }, salonId: { in: orgSalonIds } },
+            select: { id: true, name: true, isActive: true },
+          })
+        : [],
+      clientPackageIds.length > 0
+        ? prisma.clientPackage.findMany({
+            where: { id: { in: clientPackageIds }, clientId, salonId: { in: orgSalonIds } },
+            select: {
+              id: true,
+              name: true,
+              status: true,
+              expiresAt: true,
+              items: { select: { serviceId: true, sessionsRemaining: true } },
+            },
           })
         : [],
+      // Member benefits apply to any sale for a client with an active membership
+      prisma.clientMembership.findFirst({
+        where: { clientId, status: "ACTIVE", salonId: { in: orgSalonIds } },
+        select: {
+          id: true,
+          plan: { select: { serviceDiscountPercent: true, productDiscountPercent: true } },
+          credits: { select: { serviceId: true, remaining: true } },
+        },
+      }),
     ]);
 
     const serviceMap = new Map(services.map((s) => [s.id, s]));
     const productMap = new Map(products.map((p) => [p.id, p]));
+    const packageMap = new Map(packages.map((p) => [p.id, p]));
+    const clientPackageMap = new Map(clientPackages.map((p) => [p.id, p]));
+    const sessionsNeeded = new Map<string, number>();
 
     // Validate all services exist and are active
     for (const item of items) {
@@ -317,6 +403,40 @@ export async function createSale(data: CreateSaleInput): Promise<ActionResult<Sa
           return { success: false, error: `Insufficient stock for "${product.name}". Available: ${product.stock}, requested: ${item.quantity}` };
         }
       }
+      if (item.servicePackageId) {
+        const pkg = packageMap.get(item.servicePackageId);
+        if (!pkg) {
+          return { success: false, error: `Package not found: ${item.servicePackageId}` };
+        }
+        if (!pkg.isActive) {
+          return { success: false, error: "One or more packages are not available" };
+        }
+      }
+      if (item.clientPackageId) {
+        const clientPackage = clientPackageMap.get(item.clientPackageId);
+        if (!clientPackage || !isClientPackageUsable(clientPackage)) {
+          return { success: false, error: "One or more of the client's packages are expired or no longer available" };
+        }
+        const key = `${item.clientPackageId}:${item.serviceId}`;
+        const needed = (sessionsNeeded.get(key) ?? 0) + item.quantity;
+        const remaining = clientPackage.items.find((i) => i.serviceId === item.serviceId)?.sessionsRemaining ?? 0;
+        if (needed > remaining) {
+          return { success: false, error: `"${clientPackage.name}" has ${remaining} session${remaining === 1 ? "" : "s"} left for this service` };
+        }
+        sessionsNeeded.set(key, needed);
+      }
+      if (item.membershipId) {
+        if (!membership || membership.id !== item.membershipId) {
+          return { success: false, error: "The client's membership is not active" };
+        }
+        const key = `membership:${item.serviceId}`;
+        const needed = (sessionsNeeded.get(key) ?? 0) + item.quantity;
+        const remaining = membership.credits.find((c) => c.serviceId === item.serviceId)?.remaining ?? 0;
+        if (needed > remaining) {
+          return { success: false, error: `The membership has ${remaining} included session${remaining === 1 ? "" : "s"} left for this service` };
+        }
+        sessionsNeeded.set(key, needed);
+      }
     }
 
     // Calculate total
@@ -325,13 +445,75 @@ export async function createSale(data: CreateSaleInput): Promise<ActionResult<Sa
       totalAmount += item.price * item.quantity;
     }
 
-    // Apply discount
+    // Member discount on services and retail, before any other discount
+    const memberLineDiscounts = items.map((item) => {
+      if (!membership) return 0;
+      if (item.serviceId && !item.clientPackageId && !item.membershipId) {
+        return memberLineDiscount(item.price, item.quantity, Number(membership.plan.serviceDiscountPercent));
+      }
+      if (item.productId) {
+        return memberLineDiscount(item.price, item.quantity, Number(membership.plan.productDiscountPercent));
+      }
+      return 0;
+    });
+    const memberDiscount = Math.round(memberLineDiscounts.reduce((sum, d) => sum + d, 0) * 100) / 100;
+
+    // Promotion, split across the lines it applies to so per-line revenue stays accurate
+    let promotion: { id: string; code: string } | null = null;
+    let promotionDiscount = 0;
+    let promotionLineDiscounts = items.map(() => 0);
+    if (promoCode) {
+      const found = await prisma.promotion.findUnique({
+        where: { salonId_code: { salonId: authResult.salonId, code: promoCode } },
+      });
+      if (!found) {
+        return { success: false, error: `Promo code ${promoCode} was not found` };
+      }
+      const ineligible = await promotionIneligibility(prisma, { promotion: found, clientId });
+      if (ineligible) {
+        return { success: false, error: ineligible };
+      }
+
+      const terms = promotionTerms(found);
+      const applied = applyPromotion(
+        terms,
+        items.map((item, index) => ({
+          serviceId: item.serviceId ?? null,
+          productId: item.productId ?? null,
+          category: item.serviceId
+            ? serviceMap.get(item.serviceId)?.category ?? null
+            : item.productId
+              ? productMap.get(item.productId)?.category ?? null
+              : null,
+          price: item.price,
+          quantity: item.quantity,
+          memberDiscount: memberLineDiscounts[index],
+        }))
+      );
+      if (applied.discount === 0) {
+        return {
+          success: false,
+          error: terms.minSpend !== null && applied.eligibleSpend > 0
+            ? `Promo code ${found.code} needs a minimum spend of ${terms.minSpend.toFixed(2)} on qualifying items`
+            : `Promo code ${found.code} doesn't apply to any items in this sale`,
+        };
+      }
+      promotion = { id: found.id, code: found.code };
+      promotionDiscount = applied.discount;
+      promotionLineDiscounts = applied.lineDiscounts;
+    }
+
+    // Apply discount. Gift cards sold are stored value at face value, so like promotions
+    // the discount only comes off the services and products
+    const giftCardTotal = items.reduce((sum, item) => sum + (item.giftCard ? item.price * item.quantity : 0), 0);
+    const discountableAmount = Math.max(0, totalAmount - giftCardTotal - memberDiscount - promotionDiscount);
     let discountAmount = discount;
     if (discountType === "percentage") {
-      discountAmount = (totalAmount * discount) / 100;
+      discountAmount = (discountableAmount * discount) / 100;
     }
+    discountAmount = Math.min(discountAmount, discountableAmount);
 
-    const finalAmount = Math.max(0, totalAmount - discountAmount);
+    const finalAmount = Math.max(0, totalAmount - memberDiscount - promotionDiscount - discountAmount);
 
     // Create sale with items
     const sale = await prisma.sale.create({
@@ -341,9 +523,12 @@ export async function createSale(data: CreateSaleInput): Promise<ActionResult<Sa
         staffId: authResult.userId,
         totalAmount,
         discount: discountAmount,
+        memberDiscount,
+        promotionId: promotion?.id ?? null,
+        promotionDiscount,
         finalAmount,
         items: {
-          create: items.map((item) => {
+          create: items.map((item, index) => {
             // Snapshot cost at time of sale for profit tracking
             let costAtSale: number | null = null;
             if (item.serviceId) {
@@ -353,17 +538,31 @@ export async function createSale(data: CreateSaleInput): Promise<ActionResult<Sa
               const prod = productMap.get(item.productId);
               if (prod?.cost != null) costAtSale = Number(prod.cost);
             }
+            const recipientName = item.giftCard?.recipientName;
             return {
               salonId: authResult.salonId,
               serviceId: item.serviceId || null,
               staffId: item.staffId || null,
               productId: item.productId || null,
+              isGiftCard: !!item.giftCard,
+              servicePackageId: item.servicePackageId || null,
+              clientPackageId: item.clientPackageId || null,
+              membershipId: item.membershipId || null,
+              description: item.giftCard
+                ? (recipientName ? `Gift card for ${recipientName}` : "Gift card")
+                : item.servicePackageId
+                  ? packageMap.get(item.servicePackageId)!.name
+                  : null,
               quantity: item.quantity,
               price: item.price,
+              discount: promotionLineDiscounts[index],
               costAtSale,
             };
           }),
         },
+        ...(appointmentIds.length > 0 && {
+          appointments: { connect: appointmentIds.map((id) => ({ id })) },
+        }),
       },
       include: saleListInclude,
     });
@@ -374,7 +573,15 @@ export async function createSale(data: CreateSaleInput): Promise<ActionResult<Sa
       entityId: sale.id,
       userId: authResult.userId,
       userRole: authResult.role,
-      details: { clientId, itemsCount: items.length, totalAmount, finalAmount },
+      details: {
+        clientId,
+        itemsCount: items.length,
+        totalAmount,
+        memberDiscount,
+        ...(promotion && { promoCode: promotion.code, promotionDiscount }),
+        finalAmount,
+        ...(appointmentIds.length > 0 && { appointmentIds }),
+      },
     });
 
     revalidatePath("/dashboard/sales");
@@ -392,6 +599,7 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
   invoiceNumber: string;
   pointsEarned: number;
   birthdayBonus: number;
+  giftCardsIssued: string[];
 }>> {
   const authResult = await checkAuth("sales:create");
   if (!authResult) {
@@ -403,7 +611,7 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
     return { success: false, error: validationResult.error.issues[0].message };
   }
 
-  const { saleId, payments, redeemPoints } = validationResult.data;
+  const { saleId, payments, depositIds, redeemPoints, tip, payLater } = validationResult.data;
 
   try {
     // Get the sale
@@ -411,13 +619,28 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
       where: { id: saleId, salonId: authResult.salonId },
       include: {
         invoice: true,
+        promotion: true,
         client: {
           include: { loyaltyPoints: true },
         },
         items: {
           include: {
-            service: { select: { points: true } },
-            product: { select: { id: true, points: true, stock: true } },
+            service: {
+              select: {
+                name: true,
+                points: true,
+                cost: true,
+                taxClass: { select: taxClassSelect },
+                recipeItems: {
+                  select: {
+                    productId: true,
+                    quantity: true,
+                    product: { select: { name: true, cost: true, stock: true, backbarRemaining: true } },
+                  },
+                },
+              },
+            },
+            product: { select: { id: true, points: true, stock: true, taxClass: { select: taxClassSelect } } },
           },
         },
       },
@@ -431,6 +654,70 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
       return { success: false, error: "Sale already has an invoice" };
     }
 
+    // Backbar products the services use must be on the shelf, after any sold in the same sale
+    const backbarNeeded = new Map<string, { name: string; quantity: number; stock: number; remaining: number }>();
+    for (const item of sale.items) {
+      for (const recipeItem of item.service?.recipeItems ?? []) {
+        const entry = backbarNeeded.get(recipeItem.productId) ?? {
+          name: recipeItem.product.name,
+          quantity: 0,
+          stock: recipeItem.product.stock,
+          remaining: Number(recipeItem.product.backbarRemaining),
+        };
+        entry.quantity += Number(recipeItem.quantity) * item.quantity;
+        backbarNeeded.set(recipeItem.productId, entry);
+      }
+    }
+    for (const [productId, needed] of backbarNeeded) {
+      const soldHere = sale.items
+        .filter((item) => item.productId === productId)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      if (drawBackbarUnits(needed.remaining, needed.quantity).opened > needed.stock - soldHere) {
+        return { success: false, error: `Not enough "${needed.name}" in stock for the services in this sale` };
+      }
+    }
+
+    // Deposits must belong to this client and not have been used yet
+    const uniqueDepositIds = [...new Set(depositIds)];
+    const deposits = uniqueDepositIds.length > 0
+      ? await prisma.payment.findMany({
+          where: {
+            id: { in: uniqueDepositIds },
+            salonId: authResult.salonId,
+            clientId: sale.clientId,
+            type: "DEPOSIT",
+            depositStatus: "HELD",
+          },
+          select: { id: true, amount: true },
+        })
+      : [];
+    if (deposits.length !== uniqueDepositIds.length) {
+      return { success: false, error: "One or more deposits are no longer available" };
+    }
+
+    // Gift card payments: one entry per card, and a card cannot pay for another gift card
+    const giftCardPayments = payments.filter((p) => p.method === PaymentMethod.GIFT_CARD);
+    const giftCardCodes = giftCardPayments.map((p) => p.giftCardCode!);
+    if (new Set(giftCardCodes).size !== giftCardCodes.length) {
+      return { success: false, error: "Each gift card can only be used once per sale" };
+    }
+    const giftCardItemsValue = sale.items
+      .filter((item) => item.isGiftCard)
+      .reduce((sum, item) => sum + Number(item.price) * item.quantity, 0);
+    if (giftCardPayments.length > 0 && giftCardItemsValue > 0) {
+      return { success: false, error: "Gift cards cannot be used to buy other gift cards" };
+    }
+
+    // Paying later: the tip goes to staff on payday, and stored value is only issued once paid for
+    if (payLater) {
+      if (tip) {
+        return { success: false, error: "Tips must be paid at checkout, not on account" };
+      }
+      if (giftCardItemsValue > 0 || sale.items.some((item) => item.servicePackageId)) {
+        return { success: false, error: "Gift cards and packages must be paid in full at checkout" };
+      }
+    }
+
     // Validate points redemption
     if (redeemPoints > 0) {
       const clientPoints = sale.client.loyaltyPoints?.balance || 0;
@@ -443,6 +730,9 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
     const settingsResult = await getSettings();
     const settings = settingsResult.success ? settingsResult.data : null;
     const tz = settings?.timezone ?? "UTC";
+    if (payLater && payLater.dueDate < formatInTz(new Date(), "yyyy-MM-dd", tz)) {
+      return { success: false, error: "Due date cannot be in the past" };
+    }
     const taxRate = settings?.taxRate ?? 0;
     const loyaltyEnabled = settings?.loyaltyProgramEnabled ?? true;
     const loyaltyPointsPerDollar = settings?.loyaltyPointsPerDollar ?? 1;
@@ -451,6 +741,7 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
     const birthdayBonusPointsSetting = settings?.birthdayBonusPoints ?? 50;
     const pointsExpiryEnabled = settings?.pointsExpiryEnabled ?? false;
     const pointsExpiryMonths = settings?.pointsExpiryMonths ?? 12;
+    const giftCardExpiryMonths = settings?.giftCardExpiryMonths ?? 0;
 
     // Block redemption when loyalty program is disabled
     if (!loyaltyEnabled && redeemPoints > 0) {
@@ -470,22 +761,90 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
       platinumMultiplier: settings?.platinumMultiplier ?? 2.0,
     };
 
-    // Calculate amounts
+    // Calculate amounts. Points only pay for services and products, never stored value
     const pointsValue = loyaltyEnabled ? redeemPoints / pointsPerDollar : 0;
+    if (Math.round(pointsValue * 100) > Math.round((Number(sale.finalAmount) - giftCardItemsValue) * 100)) {
+      return { success: false, error: "Points redeemed are worth more than the services and products in this sale" };
+    }
     const amountAfterPoints = Number(sale.finalAmount) - pointsValue;
-    const tax = (amountAfterPoints * taxRate) / 100;
-    const totalWithTax = amountAfterPoints + tax;
+    // Each line is taxed at its class's rate, or the standard rate. Gift cards are stored value,
+    // not a taxable supply — tax is charged when they are spent
+    const taxRates = sale.items.map((item) =>
+      item.isGiftCard
+        ? null
+        : taxRateFor(taxClassRate(item.service?.taxClass ?? item.product?.taxClass ?? null), taxRate)
+    );
+    const saleTax = computeSaleTax(
+      sale.items.map((item, index) => ({
+        value: Number(item.price) * item.quantity - Number(item.discount),
+        taxRate: taxRates[index],
+      })),
+      amountAfterPoints
+    );
+    const tax = saleTax.tax;
+    const totalWithTax = saleTax.total;
 
     // Validate payment total using integer-cents to avoid floating-point drift
     const toIntCents = (n: number) => Math.round(n * 100);
-    const paymentTotalCents = payments.reduce((sum, p) => sum + toIntCents(p.amount), 0);
+    const depositTotalCents = deposits.reduce((sum, d) => sum + toIntCents(Number(d.amount)), 0);
+    const paymentTotalCents =
+      payments.reduce((sum, p) => sum + toIntCents(p.amount), 0) + depositTotalCents;
     const invoiceTotalCents = toIntCents(totalWithTax);
-    if (paymentTotalCents !== invoiceTotalCents) {
+    // The tip is collected on top of the invoice total
+    const tipCents = tip ? toIntCents(tip.amount) : 0;
+    const amountDueCents = invoiceTotalCents + tipCents;
+    // Nothing to pay is fine when the sale is covered in full by package sessions, or put on account
+    if (payments.length === 0 && depositIds.length === 0 && amountDueCents > 0 && !payLater) {
+      return { success: false, error: "At least one payment method is required" };
+    }
+    if (depositTotalCents > invoiceTotalCents) {
+      return { success: false, error: "Deposits exceed the invoice total" };
+    }
+    if (payLater) {
+      if (paymentTotalCents > amountDueCents) {
+        return {
+          success: false,
+          error: `Payment total (${(paymentTotalCents / 100).toFixed(2)}) is more than the invoice total (${(invoiceTotalCents / 100).toFixed(2)})`,
+        };
+      }
+    } else if (paymentTotalCents !== amountDueCents) {
       return {
         success: false,
-        error: `Payment total (${(paymentTotalCents / 100).toFixed(2)}) doesn't match invoice total (${(invoiceTotalCents / 100).toFixed(2)})`
+        error: tipCents > 0
+          ? `Payment total (${(paymentTotalCents / 100).toFixed(2)}) doesn't match invoice total plus tip (${(amountDueCents / 100).toFixed(2)})`
+          : `Payment total (${(paymentTotalCents / 100).toFixed(2)}) doesn't match invoice total (${(invoiceTotalCents / 100).toFixed(2)})`
       };
     }
+    // Whatever isn't paid now stays on the client's account until the due date
+    const isPaidInFull = paymentTotalCents === amountDueCents;
+
+    // Share the tip between the staff who performed the services
+    let tipShares: { staffId: string; amount: number }[] = [];
+    if (tip) {
+      const recipients = tipRecipients(
+        sale.items.map((item) => ({
+          serviceId: item.serviceId,
+          staffId: item.staffId,
+          price: Number(item.price),
+          quantity: item.quantity,
+        })),
+        sale.staffId
+      );
+      if (tip.split === "manual") {
+        const recipientIds = new Set(recipients.map((r) => r.staffId));
+        const staffIds = tip.allocations.map((a) => a.staffId);
+        if (new Set(staffIds).size !== staffIds.length || staffIds.some((id) => !recipientIds.has(id))) {
+          return { success: false, error: "Tips can only go to staff who worked on this sale" };
+        }
+        if (tip.allocations.reduce((sum, a) => sum + toIntCents(a.amount), 0) !== tipCents) {
+          return { success: false, error: "Tip shares must add up to the tip" };
+        }
+        tipShares = tip.allocations;
+      } else {
+        tipShares = allocateTip(tip.amount, recipients, tip.split);
+      }
+      tipShares = tipShares.filter((share) => toIntCents(share.amount) > 0);
+    }
 
     // Generate invoice number
     const invoiceNumber = await generateInvoiceNumber(tz, authResult.salonId);
@@ -498,11 +857,12 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
     if (loyaltyEnabled) {
       let basePoints = 0;
       for (const item of sale.items) {
+        if (item.clientPackageId || item.membershipId) continue; // Paid with a package session or membership credit, not money
         basePoints += (item.service?.points || 0) * item.quantity;
         basePoints += (item.product?.points || 0) * item.quantity;
       }
-      // Also add points based on amount spent
-      basePoints += Math.floor(Number(sale.finalAmount) * loyaltyPointsPerDollar);
+      // Also add points based on amount spent (gift cards earn points when spent, not when bought)
+      basePoints += Math.floor(Math.max(0, Number(sale.finalAmount) - giftCardItemsValue) * loyaltyPointsPerDollar);
       pointsEarned = Math.floor(basePoints * tierMultiplier);
     }
 
@@ -519,22 +879,50 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
         })()
       : null;
 
+    const orgSalonIds = giftCardPayments.length > 0 ? await getOrganizationSalonIds(authResult.salonId) : [];
+
     // Execute transaction
     let birthdayBonusPoints = 0;
+    const issuedGiftCards: string[] = [];
+    let appointmentsCompleted = 0;
     await prisma.$transaction(async (tx) => {
       // Deduct stock for product items
       for (const item of sale.items) {
         if (item.product) {
-          const updated = await tx.product.update({
-            where: { id: item.product.id },
-            data: { stock: { decrement: item.quantity } },
+          await moveStock(tx, {
+            productId: item.product.id,
+            type: "SALE",
+            quantity: -item.quantity,
+            saleId,
+            createdById: authResult.userId,
           });
-          if (updated.stock < 0) {
-            throw new Error(`Insufficient stock for product "${updated.name}"`);
-          }
         }
       }
 
+      // Use up the backbar products in each service's recipe, and count their cost against the service
+      for (const item of sale.items) {
+        if (!item.service || item.service.recipeItems.length === 0) continue;
+        for (const recipeItem of item.service.recipeItems) {
+          await consumeBackbarProduct(tx, {
+            productId: recipeItem.productId,
+            quantity: Number(recipeItem.quantity) * item.quantity,
+            reason: `Used for ${item.service.name}`,
+            saleId,
+            createdById: authResult.userId,
+          });
+        }
+        const consumedCost = recipeCost(
+          item.service.recipeItems.map((recipeItem) => ({
+            quantity: Number(recipeItem.quantity),
+            cost: recipeItem.product.cost === null ? null : Number(recipeItem.product.cost),
+          }))
+        );
+        await tx.saleItem.update({
+          where: { id: item.id },
+          data: { costAtSale: Math.round((Number(item.service.cost ?? 0) + consumedCost) * 100) / 100 },
+        });
+      }
+
       // Create invoice
       const invoice = await tx.invoice.create({
         data: {
@@ -542,25 +930,148 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
           invoiceNumber,
           saleId,
           clientId: sale.clientId,
-          amount: amountAfterPoints,
+          amount: saleTax.net,
           tax,
           total: totalWithTax,
-          status: InvoiceStatus.PAID,
-          paidAt: new Date(),
+          tip: tipCents / 100,
+          status: isPaidInFull ? InvoiceStatus.PAID : InvoiceStatus.PENDING,
+          paidAt: isPaidInFull ? new Date() : null,
+          dueDate: isPaidInFull ? null : new Date(`${payLater!.dueDate}T00:00:00Z`),
         },
       });
 
+      await recordSaleTax(tx, {
+        invoiceId: invoice.id,
+        salonId: authResult.salonId,
+        items: sale.items,
+        rates: taxRates,
+        saleTax,
+      });
+
+      if (tipShares.length > 0) {
+        await tx.tip.createMany({
+          data: tipShares.map((share) => ({
+            salonId: authResult.salonId,
+            invoiceId: invoice.id,
+            staffId: share.staffId,
+            amount: share.amount,
+          })),
+        });
+      }
+
       // Create payments
       for (const payment of payments) {
+        if (payment.method === PaymentMethod.GIFT_CARD) {
+          await redeemGiftCard(tx, {
+            code: payment.giftCardCode!,
+            amount: payment.amount,
+            orgSalonIds,
+            salonId: authResult.salonId,
+            clientId: sale.clientId,
+            invoiceId: invoice.id,
+            createdById: authResult.userId,
+          });
+          continue;
+        }
         await tx.payment.create({
           data: {
             invoiceId: invoice.id,
+            salonId: authResult.salonId,
+            clientId: sale.clientId,
             amount: payment.amount,
             method: payment.method,
           },
         });
       }
 
+      // Attach deposits to the invoice as payments already received
+      if (deposits.length > 0) {
+        const applied = await tx.payment.updateMany({
+          where: { id: { in: deposits.map((d) => d.id) }, depositStatus: "HELD" },
+          data: { invoiceId: invoice.id, depositStatus: "APPLIED" },
+        });
+        if (applied.count !== deposits.length) {
+          throw new Error("A deposit was already applied to another sale");
+        }
+      }
+
+      // Appointments checked out by this sale are done
+      const completed = await tx.appointment.updateMany({
+        where: { saleId, status: { in: ["SCHEDULED", "CONFIRMED", "IN_PROGRESS"] } },
+        data: { status: "COMPLETED" },
+      });
+      appointmentsCompleted = completed.count;
+
+      // Issue gift cards sold on this sale
+      for (const item of sale.items) {
+        if (!item.isGiftCard) continue;
+        const card = await issueGiftCard(tx, {
+          salonId: authResult.salonId,
+          saleItemId: item.id,
+          purchaserClientId: sale.clientId,
+          value: Number(item.price),
+          expiryMonths: giftCardExpiryMonths,
+          invoiceId: invoice.id,
+          createdById: authResult.userId,
+        });
+        issuedGiftCards.push(card.code);
+      }
+
+      // Create client packages sold on this sale, and use package sessions and membership credits paid with
+      for (const [index, item] of sale.items.entries()) {
+        if (item.servicePackageId) {
+          await createClientPackage(tx, {
+            salonId: authResult.salonId,
+            clientId: sale.clientId,
+            servicePackageId: item.servicePackageId,
+            saleItemId: item.id,
+            // Deferred revenue is what was charged for the package, after every discount and excluding tax
+            price: saleTax.lines[index].net,
+            invoiceId: invoice.id,
+            createdById: authResult.userId,
+          });
+        }
+        if (item.membershipId && item.serviceId) {
+          await redeemMembershipCredits(tx, {
+            membershipId: item.membershipId,
+            serviceId: item.serviceId,
+            quantity: item.quantity,
+          });
+        }
+        if (item.clientPackageId && item.serviceId) {
+          await redeemPackageSessions(tx, {
+            clientPackageId: item.clientPackageId,
+            serviceId: item.serviceId,
+            quantity: item.quantity,
+            salonId: authResult.salonId,
+            saleItemId: item.id,
+            invoiceId: invoice.id,
+            createdById: authResult.userId,
+          });
+        }
+      }
+
+      // Record the promotion's use, checking again that the client may still have it
+      if (sale.promotion) {
+        const ineligible = await promotionIneligibility(tx, {
+          promotion: sale.promotion,
+          clientId: sale.clientId,
+          excludeSaleId: saleId,
+        });
+        if (ineligible) {
+          throw new Error(ineligible);
+        }
+        await tx.promotionRedemption.create({
+          data: {
+            promotionId: sale.promotion.id,
+            salonId: authResult.salonId,
+            saleId,
+            clientId: sale.clientId,
+            amount: sale.promotionDiscount,
+          },
+        });
+      }
+
       // Handle loyalty points (only when program is enabled)
       if (loyaltyEnabled) {
         const currentYear = getNow(tz).getFullYear();
@@ -665,12 +1176,15 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
       entityId: saleId,
       userId: authResult.userId,
       userRole: authResult.role,
-      details: { invoiceNumber, subtotal: Number(sale.finalAmount), redeemPoints, tax: Number(tax), total: Number(totalWithTax), pointsEarned, birthdayBonus: birthdayBonusPoints },
+      details: { invoiceNumber, subtotal: Number(sale.finalAmount), redeemPoints, balanceDue: (amountDueCents - paymentTotalCents) / 100, dueDate: isPaidInFull ? null : payLater!.dueDate, depositsApplied: depositTotalCents / 100, giftCardsRedeemed: giftCardCodes, giftCardsIssued: issuedGiftCards, tax: Number(tax), total: Number(totalWithTax), tip: tipCents / 100, tipShares, pointsEarned, birthdayBonus: birthdayBonusPoints, appointmentsCompleted },
     });
 
     revalidatePath("/dashboard/sales");
     revalidatePath("/dashboard/invoices");
     revalidatePath(`/dashboard/clients/${sale.clientId}`);
+    if (appointmentsCompleted > 0) {
+      revalidatePath("/dashboard/appointments");
+    }
     await invalidateDashboardCache(authResult.salonId);
 
     return {
@@ -680,6 +1194,7 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
         invoiceNumber,
         pointsEarned,
         birthdayBonus: birthdayBonusPoints,
+        giftCardsIssued: issuedGiftCards,
       },
     };
   } catch (error) {
@@ -691,13 +1206,17 @@ export async function completeSale(data: CompleteSaleInput): Promise<ActionResul
 
 // Quick sale - create and complete in one step
 export async function quickSale(data: CreateSaleInput & {
-  payments: { method: PaymentMethod; amount: number }[];
+  payments: { method: PaymentMethod; amount: number; giftCardCode?: string }[];
+  depositIds?: string[];
   redeemPoints?: number;
+  tip?: TipInput;
+  payLater?: PayLaterInput;
 }): Promise<ActionResult<{
   sale: SaleListItem;
   invoiceNumber: string;
   pointsEarned: number;
   birthdayBonus: number;
+  giftCardsIssued: string[];
 }>> {
   const authResult = await checkAuth("sales:create");
   if (!authResult) {
@@ -714,10 +1233,126 @@ export async function quickSale(data: CreateSaleInput & {
   return completeSale({
     saleId: createResult.data.id,
     payments: data.payments,
+    depositIds: data.depositIds ?? [],
     redeemPoints: data.redeemPoints || 0,
+    tip: data.tip,
+    payLater: data.payLater,
   });
 }
 
+export interface AppointmentCheckout {
+  client: {
+    id: string;
+    firstName: string;
+    lastName: string | null;
+    phone: string | null;
+    email: string | null;
+    isWalkIn: boolean;
+    loyaltyPoints: { balance: number; tier: string } | null;
+  };
+  appointments: {
+    id: string;
+    startTime: Date;
+    serviceId: string;
+    serviceName: string;
+    staffId: string;
+    staffName: string;
+    price: number; // The series' locked price when booked as part of one
+    points: number;
+  }[];
+}
+
+/**
+ * Prefill for checking out an appointment at the POS: its client plus every appointment they
+ * have at this branch the same day that is still to be paid for.
+ */
+export async function getAppointmentCheckout(appointmentId: string): Promise<ActionResult<AppointmentCheckout>> {
+  const authResult = await checkAuth("sales:create");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const appointment = await prisma.appointment.findFirst({
+      where: { id: appointmentId, salonId: authResult.salonId },
+      select: {
+        startTime: true,
+        status: true,
+        sale: { select: { invoice: { select: { id: true } } } },
+        client: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            phone: true,
+            email: true,
+            isWalkIn: true,
+            loyaltyPoints: { select: { balance: true, tier: true } },
+          },
+        },
+      },
+    });
+
+    if (!appointment) {
+      return { success: false, error: "Appointment not found" };
+    }
+    if (appointment.status === "CANCELLED" || appointment.status === "NO_SHOW") {
+      return { success: false, error: "Cancelled or no-show appointments cannot be checked out" };
+    }
+    if (appointment.sale?.invoice) {
+      return { success: false, error: "This appointment has already been checked out" };
+    }
+
+    const settingsResult = await getSettings();
+    const tz = settingsResult.success ? settingsResult.data.timezone : "UTC";
+
+    const sameDay = await prisma.appointment.findMany({
+      where: {
+        salonId: authResult.salonId,
+        clientId: appointment.client.id,
+        startTime: {
+          gte: startOfDayInTz(appointment.startTime, tz),
+          lt: startOfDayInTz(appointment.startTime, tz, 1),
+        },
+        status: { notIn: ["CANCELLED", "NO_SHOW"] },
+        OR: [{ saleId: null }, { sale: { invoice: { is: null } } }],
+      },
+      select: {
+        id: true,
+        startTime: true,
+        service: { select: { id: true, name: true, price: true, points: true } },
+        staff: { select: { id: true, firstName: true, lastName: true } },
+        series: { select: { serviceId: true, lockedPrice: true } },
+      },
+      orderBy: { startTime: "asc" },
+    });
+
+    return {
+      success: true,
+      data: {
+        client: appointment.client,
+        appointments: sameDay.map((apt) => {
+          // A locked price only holds while the occurrence is still for the series' service
+          const lockedPrice = apt.series?.serviceId === apt.service.id ? apt.series.lockedPrice : null;
+          return {
+            id: apt.id,
+            startTime: apt.startTime,
+            serviceId: apt.service.id,
+            serviceName: apt.service.name,
+            staffId: apt.staff.id,
+            staffName: `${apt.staff.firstName} ${apt.staff.lastName}`,
+            price: Number(lockedPrice ?? apt.service.price),
+            points: apt.service.points,
+          };
+        }),
+      },
+    };
+  } catch (error) {
+    console.error("Error loading appointment checkout:", error);
+    return { success: false, error: "Failed to load appointment for checkout" };
+  }
+}
+
 // Delete sale (only if no invoice)
 export async function deleteSale(id: string): Promise<ActionResult<void>> {
   const authResult = await checkAuth("sales:delete");
@@ -764,6 +1399,7 @@ export async function getTodaysSalesSummary(): Promise<ActionResult<{
   count: number;
   revenue: number;
   averageTicket: number;
+  tips: number; // Collected on top of revenue, owed to staff
 }>> {
   const authResult = await checkAuth("sales:view");
   if (!authResult) {
@@ -781,16 +1417,17 @@ export async function getTodaysSalesSummary(): Promise<ActionResult<{
         createdAt: { gte: today, lt: tomorrow },
         invoice: { isNot: null },
       },
-      select: { finalAmount: true },
+      select: { finalAmount: true, invoice: { select: { tip: true } } },
     });
 
     const count = sales.length;
     const revenue = sales.reduce((sum, s) => sum + Number(s.finalAmount), 0);
     const averageTicket = count > 0 ? revenue / count : 0;
+    const tips = sales.reduce((sum, s) => sum + Number(s.invoice?.tip ?? 0), 0);
 
     return {
       success: true,
-      data: { count, revenue, averageTicket },
+      data: { count, revenue, averageTicket, tips },
     };
   } catch (error) {
     console.error("Error fetching today's sales:", error);
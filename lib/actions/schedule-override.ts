@@ -0,0 +1,140 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { scheduleOverrideSchema, ScheduleOverrideFormData } from "@/lib/validations/schedule";
+import { Prisma } from "@prisma/client";
+import { dayToDate } from "@/lib/availability";
+import { ActionResult } from "@/lib/types";
+import { logAudit } from "./audit";
+
+const scheduleOverrideInclude = Prisma.validator<Prisma.ScheduleOverrideInclude>()({
+  staff: { select: { id: true, firstName: true, lastName: true } },
+});
+
+export type ScheduleOverrideListItem = Prisma.ScheduleOverrideGetPayload<{
+  include: typeof scheduleOverrideInclude;
+}>;
+
+/** Date-specific schedule overrides for the salon from `from` onwards. */
+export async function getScheduleOverrides(params?: {
+  from?: string;
+}): Promise<ActionResult<ScheduleOverrideListItem[]>> {
+  const authResult = await checkAuth("schedules:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const overrides = await prisma.scheduleOverride.findMany({
+      where: {
+        salonId: authResult.salonId,
+        ...(params?.from && { date: { gte: dayToDate(params.from) } }),
+      },
+      include: scheduleOverrideInclude,
+      orderBy: [{ date: "asc" }, { startTime: "asc" }],
+    });
+
+    return { success: true, data: overrides };
+  } catch (error) {
+    console.error("Error fetching schedule overrides:", error);
+    return { success: false, error: "Failed to fetch schedule overrides" };
+  }
+}
+
+/**
+ * Set a staff member's hours for a single date, replacing their weekly
+ * shifts for that day. Saving again for the same date updates the override.
+ */
+export async function setScheduleOverride(
+  data: ScheduleOverrideFormData
+): Promise<ActionResult<ScheduleOverrideListItem>> {
+  const authResult = await checkAuth("schedules:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = scheduleOverrideSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { staffId, date, isAvailable, startTime, endTime, reason } = validationResult.data;
+
+  try {
+    const membership = await prisma.userSalon.findUnique({
+      where: { userId_salonId: { userId: staffId, salonId: authResult.salonId } },
+      select: { isActive: true },
+    });
+
+    if (!membership || !membership.isActive) {
+      return { success: false, error: "Staff member not found or inactive" };
+    }
+
+    const hours = {
+      isAvailable,
+      startTime: isAvailable ? startTime || null : null,
+      endTime: isAvailable ? endTime || null : null,
+      reason: reason || null,
+    };
+
+    const override = await prisma.scheduleOverride.upsert({
+      where: {
+        salonId_staffId_date: { salonId: authResult.salonId, staffId, date: dayToDate(date) },
+      },
+      create: { salonId: authResult.salonId, staffId, date: dayToDate(date), ...hours },
+      update: hours,
+      include: scheduleOverrideInclude,
+    });
+
+    await logAudit({
+      action: "SCHEDULE_OVERRIDE_SET",
+      entityType: "ScheduleOverride",
+      entityId: override.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { staffId, date, isAvailable, startTime: hours.startTime, endTime: hours.endTime },
+    });
+
+    revalidatePath("/dashboard/schedules");
+    return { success: true, data: override };
+  } catch (error) {
+    console.error("Error setting schedule override:", error);
+    return { success: false, error: "Failed to save schedule override" };
+  }
+}
+
+/** Remove an override so the weekly schedule applies again on that date. */
+export async function deleteScheduleOverride(id: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("schedules:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const deleted = await prisma.scheduleOverride.deleteMany({
+      where: { id, salonId: authResult.salonId },
+    });
+
+    if (deleted.count === 0) {
+      return { success: false, error: "Schedule override not found" };
+    }
+
+    await logAudit({
+      action: "SCHEDULE_OVERRIDE_DELETED",
+      entityType: "ScheduleOverride",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+    });
+
+    revalidatePath("/dashboard/schedules");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error deleting schedule override:", error);
+    return { success: false, error: "Failed to delete schedule override" };
+  }
+}
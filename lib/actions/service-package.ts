@@ -0,0 +1,258 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { Prisma } from "@prisma/client";
+import { servicePackageSchema, ServicePackageFormData } from "@/lib/validations/service-package";
+import { isClientPackageUsable } from "@/lib/utils/package";
+import { ActionResult } from "@/lib/types";
+import { getOrganizationSalonIds } from "./branch";
+import { logAudit } from "./audit";
+
+const packageListInclude = Prisma.validator<Prisma.ServicePackageInclude>()({
+  items: {
+    include: { service: { select: { id: true, name: true, price: true } } },
+    orderBy: { service: { name: "asc" } },
+  },
+  _count: { select: { clientPackages: true } },
+});
+
+export type ServicePackageListItem = Prisma.ServicePackageGetPayload<{
+  include: typeof packageListInclude;
+}>;
+
+const clientPackageInclude = Prisma.validator<Prisma.ClientPackageInclude>()({
+  items: {
+    include: { service: { select: { id: true, name: true } } },
+    orderBy: { service: { name: "asc" } },
+  },
+});
+
+export type ClientPackageListItem = Prisma.ClientPackageGetPayload<{
+  include: typeof clientPackageInclude;
+}>;
+
+// Services in a package must exist within the organization; returns an error message if not
+async function validatePackageServices(salonId: string, serviceIds: string[]): Promise<string | null> {
+  const orgSalonIds = await getOrganizationSalonIds(salonId);
+  const count = await prisma.service.count({
+    where: { id: { in: serviceIds }, salonId: { in: orgSalonIds }, isActive: true },
+  });
+  return count === serviceIds.length ? null : "One or more services are not available";
+}
+
+/** Packages on sale at this salon (and, optionally, retired ones). */
+export async function getServicePackages(params?: {
+  includeInactive?: boolean;
+}): Promise<ActionResult<ServicePackageListItem[]>> {
+  const authResult = await checkAuth("services:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const packages = await prisma.servicePackage.findMany({
+      where: {
+        salonId: authResult.salonId,
+        ...(!params?.includeInactive && { isActive: true }),
+      },
+      include: packageListInclude,
+      orderBy: [{ isActive: "desc" }, { name: "asc" }],
+    });
+
+    return { success: true, data: packages };
+  } catch (error) {
+    console.error("Error fetching packages:", error);
+    return { success: false, error: "Failed to fetch packages" };
+  }
+}
+
+export async function createServicePackage(data: ServicePackageFormData): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("services:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = servicePackageSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { description, validityDays, items, ...rest } = validationResult.data;
+
+  try {
+    const serviceError = await validatePackageServices(authResult.salonId, items.map((i) => i.serviceId));
+    if (serviceError) {
+      return { success: false, error: serviceError };
+    }
+
+    const pkg = await prisma.servicePackage.create({
+      data: {
+        ...rest,
+        salonId: authResult.salonId,
+        description: description || null,
+        validityDays: validityDays ?? null,
+        items: { create: items },
+      },
+    });
+
+    await logAudit({
+      action: "PACKAGE_CREATED",
+      entityType: "ServicePackage",
+      entityId: pkg.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { name: rest.name, price: rest.price, validityDays: validityDays ?? null, items },
+    });
+
+    revalidatePath("/dashboard/services/packages");
+    return { success: true, data: { id: pkg.id } };
+  } catch (error) {
+    console.error("Error creating package:", error);
+    return { success: false, error: "Failed to create package" };
+  }
+}
+
+/**
+ * Update a package. Clients who already bought it keep the sessions and
+ * expiry they paid for; changes apply to future sales only.
+ */
+export async function updateServicePackage(
+  data: { id: string } & ServicePackageFormData
+): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("services:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = servicePackageSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { description, validityDays, items, ...rest } = validationResult.data;
+
+  try {
+    const existing = await prisma.servicePackage.findFirst({
+      where: { id: data.id, salonId: authResult.salonId },
+      select: { id: true, name: true, price: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Package not found" };
+    }
+
+    const serviceError = await validatePackageServices(authResult.salonId, items.map((i) => i.serviceId));
+    if (serviceError) {
+      return { success: false, error: serviceError };
+    }
+
+    await prisma.$transaction([
+      prisma.servicePackageItem.deleteMany({ where: { packageId: existing.id } }),
+      prisma.servicePackage.update({
+        where: { id: existing.id },
+        data: {
+          ...rest,
+          description: description || null,
+          validityDays: validityDays ?? null,
+          items: { create: items },
+        },
+      }),
+    ]);
+
+    await logAudit({
+      action: "PACKAGE_UPDATED",
+      entityType: "ServicePackage",
+      entityId: existing.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: {
+        name: { from: existing.name, to: rest.name },
+        price: { from: Number(existing.price), to: rest.price },
+        validityDays: validityDays ?? null,
+        items,
+      },
+    });
+
+    revalidatePath("/dashboard/services/packages");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error updating package:", error);
+    return { success: false, error: "Failed to update package" };
+  }
+}
+
+/** Take a package off sale. Packages clients already own are unaffected. */
+export async function deleteServicePackage(id: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("services:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const pkg = await prisma.servicePackage.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { id: true, name: true },
+    });
+    if (!pkg) {
+      return { success: false, error: "Package not found" };
+    }
+
+    // Soft delete - mark as inactive
+    await prisma.servicePackage.update({
+      where: { id: pkg.id },
+      data: { isActive: false },
+    });
+
+    await logAudit({
+      action: "PACKAGE_DELETED",
+      entityType: "ServicePackage",
+      entityId: pkg.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { name: pkg.name },
+    });
+
+    revalidatePath("/dashboard/services/packages");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error deleting package:", error);
+    return { success: false, error: "Failed to delete package" };
+  }
+}
+
+/**
+ * Packages a client has bought anywhere in the organization, newest first.
+ * With `usableOnly`, just the active, unexpired ones with sessions left.
+ */
+export async function getClientPackages(
+  clientId: string,
+  params?: { usableOnly?: boolean }
+): Promise<ActionResult<ClientPackageListItem[]>> {
+  const authResult = await checkAuth("clients:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const orgSalonIds = await getOrganizationSalonIds(authResult.salonId);
+    const packages = await prisma.clientPackage.findMany({
+      where: { clientId, salonId: { in: orgSalonIds } },
+      include: clientPackageInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return {
+      success: true,
+      data: params?.usableOnly
+        ? packages.filter((p) => isClientPackageUsable(p) && p.items.some((i) => i.sessionsRemaining > 0))
+        : packages,
+    };
+  } catch (error) {
+    console.error("Error fetching client packages:", error);
+    return { success: false, error: "Failed to fetch client packages" };
+  }
+}
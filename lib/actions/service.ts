@@ -6,12 +6,15 @@ import { checkAuth } from "@/lib/auth-helpers";
 import {
   serviceSchema,
   serviceUpdateSchema,
+  serviceRecipeSchema,
   ServiceFormData,
+  ServiceRecipeInput,
   ServiceSearchParams,
 } from "@/lib/validations/service";
-import { Prisma } from "@prisma/client";
+import { AmountType, Prisma } from "@prisma/client";
 import { ActionResult } from "@/lib/types";
 import { logAudit } from "./audit";
+import { isSalonTaxClass } from "@/lib/taxes";
 
 const serviceListInclude = Prisma.validator<Prisma.ServiceInclude>()({
   _count: {
@@ -26,6 +29,20 @@ export type ServiceListItem = Prisma.ServiceGetPayload<{
   include: typeof serviceListInclude;
 }>;
 
+// A deposit rule with no value is stored as "no deposit"; returns an error message if invalid
+function normalizeDepositRule(
+  depositType: AmountType | null,
+  depositValue: number
+): { depositType: AmountType | null; depositValue: number | null } | string {
+  if (!depositType || depositValue <= 0) {
+    return { depositType: null, depositValue: null };
+  }
+  if (depositType === "PERCENTAGE" && depositValue > 100) {
+    return "Deposit percentage cannot exceed 100%";
+  }
+  return { depositType, depositValue };
+}
+
 export async function getServices(params: ServiceSearchParams = {}): Promise<ActionResult<{
   services: ServiceListItem[];
   total: number;
@@ -127,7 +144,16 @@ export async function createService(data: ServiceFormData): Promise<ActionResult
     return { success: false, error: validationResult.error.issues[0].message };
   }
 
-  const { description, category, cost, ...rest } = validationResult.data;
+  const { description, category, cost, depositType, depositValue, ...rest } = validationResult.data;
+
+  const deposit = normalizeDepositRule(depositType ?? null, depositValue ?? 0);
+  if (typeof deposit === "string") {
+    return { success: false, error: deposit };
+  }
+
+  if (!(await isSalonTaxClass(authResult.salonId, rest.taxClassId))) {
+    return { success: false, error: "Tax class not found" };
+  }
 
   const service = await prisma.service.create({
     data: {
@@ -136,6 +162,7 @@ export async function createService(data: ServiceFormData): Promise<ActionResult
       description: description || null,
       category: category || null,
       cost: cost ?? null,
+      ...deposit,
     },
   });
 
@@ -165,7 +192,7 @@ export async function updateService(
     return { success: false, error: validationResult.error.issues[0].message };
   }
 
-  const { id, description, category, cost, ...rest } = validationResult.data;
+  const { id, description, category, cost, depositType, depositValue, ...rest } = validationResult.data;
 
   const existingService = await prisma.service.findFirst({
     where: { id, salonId: authResult.salonId },
@@ -175,6 +202,19 @@ export async function updateService(
     return { success: false, error: "Service not found" };
   }
 
+  const depositChanged = depositType !== undefined || depositValue !== undefined;
+  const deposit = normalizeDepositRule(
+    depositType !== undefined ? depositType : existingService.depositType,
+    depositValue ?? Number(existingService.depositValue ?? 0)
+  );
+  if (typeof deposit === "string") {
+    return { success: false, error: deposit };
+  }
+
+  if (!(await isSalonTaxClass(authResult.salonId, rest.taxClassId))) {
+    return { success: false, error: "Tax class not found" };
+  }
+
   await prisma.service.update({
     where: { id },
     data: {
@@ -182,6 +222,7 @@ export async function updateService(
       ...(description !== undefined && { description: description || null }),
       ...(category !== undefined && { category: category || null }),
       ...(cost !== undefined && { cost: cost ?? null }),
+      ...(depositChanged && deposit),
     },
   });
 
@@ -191,6 +232,13 @@ export async function updateService(
   if (cost !== undefined && Number(cost ?? 0) !== Number(existingService.cost ?? 0)) changes.cost = { from: Number(existingService.cost ?? 0), to: Number(cost ?? 0) };
   if (rest.duration !== undefined && rest.duration !== existingService.duration) changes.duration = { from: existingService.duration, to: rest.duration };
   if (category !== undefined && (category || null) !== existingService.category) changes.category = { from: existingService.category, to: category || null };
+  if (rest.taxClassId !== undefined && rest.taxClassId !== existingService.taxClassId) changes.taxClassId = { from: existingService.taxClassId, to: rest.taxClassId };
+  if (depositChanged && (deposit.depositType !== existingService.depositType || Number(deposit.depositValue ?? 0) !== Number(existingService.depositValue ?? 0))) {
+    changes.deposit = {
+      from: existingService.depositType ? `${existingService.depositType} ${Number(existingService.depositValue)}` : null,
+      to: deposit.depositType ? `${deposit.depositType} ${deposit.depositValue}` : null,
+    };
+  }
 
   await logAudit({
     action: "SERVICE_UPDATED",
@@ -302,3 +350,130 @@ export async function getAllCategories(): Promise<ActionResult<string[]>> {
     return { success: false, error: "Failed to fetch categories" };
   }
 }
+
+export interface ServiceRecipeLine {
+  productId: string;
+  name: string;
+  sku: string | null;
+  quantity: number;
+  cost: number | null;
+  isActive: boolean;
+}
+
+export interface RecipeProductOption {
+  id: string;
+  name: string;
+  sku: string | null;
+  cost: number | null;
+  stock: number;
+}
+
+// The backbar products a service uses, with what they cost now
+export async function getServiceRecipe(serviceId: string): Promise<ActionResult<ServiceRecipeLine[]>> {
+  const authResult = await checkAuth("services:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const items = await prisma.serviceRecipeItem.findMany({
+      where: { serviceId, service: { salonId: authResult.salonId } },
+      include: { product: { select: { name: true, sku: true, cost: true, isActive: true } } },
+      orderBy: { product: { name: "asc" } },
+    });
+
+    return {
+      success: true,
+      data: items.map((item) => ({
+        productId: item.productId,
+        name: item.product.name,
+        sku: item.product.sku,
+        quantity: Number(item.quantity),
+        cost: item.product.cost === null ? null : Number(item.product.cost),
+        isActive: item.product.isActive,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching service recipe:", error);
+    return { success: false, error: "Failed to fetch service recipe" };
+  }
+}
+
+// Products that can go into a recipe
+export async function getRecipeProducts(): Promise<ActionResult<RecipeProductOption[]>> {
+  const authResult = await checkAuth("services:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const products = await prisma.product.findMany({
+      where: { salonId: authResult.salonId, isActive: true },
+      select: { id: true, name: true, sku: true, cost: true, stock: true },
+      orderBy: { name: "asc" },
+    });
+
+    return {
+      success: true,
+      data: products.map((p) => ({ ...p, cost: p.cost === null ? null : Number(p.cost) })),
+    };
+  } catch (error) {
+    console.error("Error fetching recipe products:", error);
+    return { success: false, error: "Failed to fetch products" };
+  }
+}
+
+// Replace a service's recipe; an empty list removes it
+export async function updateServiceRecipe(data: ServiceRecipeInput): Promise<ActionResult> {
+  const authResult = await checkAuth("services:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = serviceRecipeSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { serviceId, items } = validationResult.data;
+
+  try {
+    const service = await prisma.service.findFirst({
+      where: { id: serviceId, salonId: authResult.salonId },
+      select: { id: true, name: true },
+    });
+    if (!service) {
+      return { success: false, error: "Service not found" };
+    }
+
+    const productCount = await prisma.product.count({
+      where: { id: { in: items.map((i) => i.productId) }, salonId: authResult.salonId },
+    });
+    if (productCount !== items.length) {
+      return { success: false, error: "One or more products were not found" };
+    }
+
+    await prisma.$transaction([
+      prisma.serviceRecipeItem.deleteMany({ where: { serviceId } }),
+      prisma.serviceRecipeItem.createMany({
+        data: items.map((item) => ({ serviceId, productId: item.productId, quantity: item.quantity })),
+      }),
+    ]);
+
+    await logAudit({
+      action: "SERVICE_RECIPE_UPDATED",
+      entityType: "Service",
+      entityId: serviceId,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { name: service.name, items },
+    });
+
+    revalidatePath("/dashboard/services");
+    revalidatePath(`/dashboard/services/${serviceId}/edit`);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error updating service recipe:", error);
+    return { success: false, error: "Failed to update service recipe" };
+  }
+}
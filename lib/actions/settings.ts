@@ -7,6 +7,7 @@ import { ActionResult } from "@/lib/types";
 import { checkAuth } from "@/lib/auth-helpers";
 import { logAudit } from "./audit";
 import { invalidateDashboardCache } from "@/lib/redis";
+import { AmountType } from "@prisma/client";
 
 export interface SettingsData {
   id: string;
@@ -34,6 +35,16 @@ export interface SettingsData {
   birthdayBonusPoints: number;
   pointsExpiryEnabled: boolean;
   pointsExpiryMonths: number;
+  remindersEnabled: boolean;
+  reminderOffsetsHours: number[];
+  smsRemindersEnabled: boolean;
+  cancellationWindowHours: number;
+  waitlistHoldMinutes: number;
+  noShowFeeType: AmountType;
+  noShowFeeValue: number;
+  lateCancellationFeeType: AmountType;
+  lateCancellationFeeValue: number;
+  giftCardExpiryMonths: number;
 }
 
 /** Fetches salon settings, creating defaults if none exist. */
@@ -77,6 +88,16 @@ export async function getSettings(): Promise<ActionResult<SettingsData>> {
           birthdayBonusPoints: 50,
           pointsExpiryEnabled: false,
           pointsExpiryMonths: 12,
+          remindersEnabled: true,
+          reminderOffsetsHours: [24, 2],
+          smsRemindersEnabled: false,
+          cancellationWindowHours: 24,
+          waitlistHoldMinutes: 30,
+          noShowFeeType: "PERCENTAGE",
+          noShowFeeValue: 0,
+          lateCancellationFeeType: "PERCENTAGE",
+          lateCancellationFeeValue: 0,
+          giftCardExpiryMonths: 0,
         },
       });
 
@@ -88,6 +109,8 @@ export async function getSettings(): Promise<ActionResult<SettingsData>> {
           silverMultiplier: Number(defaultSettings.silverMultiplier),
           goldMultiplier: Number(defaultSettings.goldMultiplier),
           platinumMultiplier: Number(defaultSettings.platinumMultiplier),
+          noShowFeeValue: Number(defaultSettings.noShowFeeValue),
+          lateCancellationFeeValue: Number(defaultSettings.lateCancellationFeeValue),
         },
       };
     }
@@ -100,6 +123,8 @@ export async function getSettings(): Promise<ActionResult<SettingsData>> {
         silverMultiplier: Number(settings.silverMultiplier),
         goldMultiplier: Number(settings.goldMultiplier),
         platinumMultiplier: Number(settings.platinumMultiplier),
+        noShowFeeValue: Number(settings.noShowFeeValue),
+        lateCancellationFeeValue: Number(settings.lateCancellationFeeValue),
       },
     };
   } catch (error) {
@@ -175,6 +200,61 @@ export async function updateSettings(
       return { success: false, error: "Points expiry period must be at least 1 month" };
     }
 
+    // Validate cancellation window if provided
+    if (data.cancellationWindowHours !== undefined) {
+      if (!Number.isInteger(data.cancellationWindowHours) || data.cancellationWindowHours < 0 || data.cancellationWindowHours > 168) {
+        return { success: false, error: "Cancellation notice must be between 0 and 168 hours" };
+      }
+    }
+
+    // Validate waitlist hold if provided
+    if (data.waitlistHoldMinutes !== undefined) {
+      if (!Number.isInteger(data.waitlistHoldMinutes) || data.waitlistHoldMinutes < 5 || data.waitlistHoldMinutes > 1440) {
+        return { success: false, error: "Waitlist hold must be between 5 and 1440 minutes" };
+      }
+    }
+
+    // Validate policy fees if provided (percentages are of the service price)
+    const feeRules = [
+      {
+        label: "No-show fee",
+        type: data.noShowFeeType ?? existingSettings.noShowFeeType,
+        value: data.noShowFeeValue ?? Number(existingSettings.noShowFeeValue),
+      },
+      {
+        label: "Late cancellation fee",
+        type: data.lateCancellationFeeType ?? existingSettings.lateCancellationFeeType,
+        value: data.lateCancellationFeeValue ?? Number(existingSettings.lateCancellationFeeValue),
+      },
+    ];
+    for (const rule of feeRules) {
+      if (!Number.isFinite(rule.value) || rule.value < 0) {
+        return { success: false, error: `${rule.label} cannot be negative` };
+      }
+      if (rule.type === "PERCENTAGE" && rule.value > 100) {
+        return { success: false, error: `${rule.label} cannot exceed 100%` };
+      }
+    }
+
+    // Validate gift card expiry if provided
+    if (data.giftCardExpiryMonths !== undefined) {
+      if (!Number.isInteger(data.giftCardExpiryMonths) || data.giftCardExpiryMonths < 0 || data.giftCardExpiryMonths > 120) {
+        return { success: false, error: "Gift card expiry must be between 0 and 120 months" };
+      }
+    }
+
+    // Validate reminder offsets if provided (stored de-duplicated, furthest first)
+    if (data.reminderOffsetsHours !== undefined) {
+      const offsets = data.reminderOffsetsHours;
+      if (offsets.length > 3) {
+        return { success: false, error: "At most 3 reminder times are allowed" };
+      }
+      if (offsets.some((h) => !Number.isInteger(h) || h < 1 || h > 168)) {
+        return { success: false, error: "Reminder times must be whole hours between 1 and 168" };
+      }
+      data = { ...data, reminderOffsetsHours: [...new Set(offsets)].sort((a, b) => b - a) };
+    }
+
     const updatedSettings = await prisma.settings.update({
       where: { id: existingSettings.id },
       data,
@@ -232,6 +312,8 @@ export async function updateSettings(
         silverMultiplier: Number(updatedSettings.silverMultiplier),
         goldMultiplier: Number(updatedSettings.goldMultiplier),
         platinumMultiplier: Number(updatedSettings.platinumMultiplier),
+        noShowFeeValue: Number(updatedSettings.noShowFeeValue),
+        lateCancellationFeeValue: Number(updatedSettings.lateCancellationFeeValue),
       },
     };
   } catch (error) {
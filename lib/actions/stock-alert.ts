@@ -0,0 +1,115 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { ActionResult } from "@/lib/types";
+import { runStockAlerts } from "@/lib/stock-alerts";
+import { logAudit } from "./audit";
+
+const stockAlertInclude = Prisma.validator<Prisma.StockAlertInclude>()({
+  product: { select: { id: true, name: true, sku: true, stock: true, lowStockThreshold: true } },
+});
+
+export type StockAlertItem = Omit<
+  Prisma.StockAlertGetPayload<{ include: typeof stockAlertInclude }>,
+  "dailyUsage" | "daysOfCover"
+> & {
+  dailyUsage: number;
+  daysOfCover: number | null;
+};
+
+/** Open alerts at this branch that haven't been dismissed, lowest cover first. */
+export async function getStockAlerts(): Promise<ActionResult<StockAlertItem[]>> {
+  const authResult = await checkAuth("stock-alerts:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const alerts = await prisma.stockAlert.findMany({
+      where: { salonId: authResult.salonId, resolvedAt: null, dismissedAt: null },
+      include: stockAlertInclude,
+      orderBy: [{ daysOfCover: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    });
+    return {
+      success: true,
+      data: alerts.map((alert) => ({
+        ...alert,
+        dailyUsage: Number(alert.dailyUsage),
+        daysOfCover: alert.daysOfCover === null ? null : Number(alert.daysOfCover),
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching stock alerts:", error);
+    return { success: false, error: "Failed to fetch stock alerts" };
+  }
+}
+
+/** Hide an alert. It stays open, so the product isn't alerted again until it has been restocked. */
+export async function dismissStockAlert(id: string): Promise<ActionResult> {
+  const authResult = await checkAuth("stock-alerts:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const alert = await prisma.stockAlert.findFirst({
+      where: { id, salonId: authResult.salonId },
+      include: { product: { select: { name: true } } },
+    });
+    if (!alert) {
+      return { success: false, error: "Alert not found" };
+    }
+    if (alert.dismissedAt || alert.resolvedAt) {
+      return { success: true, data: undefined };
+    }
+
+    await prisma.stockAlert.update({
+      where: { id },
+      data: { dismissedAt: new Date(), dismissedById: authResult.userId },
+    });
+
+    await logAudit({
+      action: "STOCK_ALERT_DISMISSED",
+      entityType: "Product",
+      entityId: alert.productId,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { product: alert.product.name, stock: alert.stock },
+    });
+
+    revalidatePath("/dashboard/products/reorder");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error dismissing stock alert:", error);
+    return { success: false, error: "Failed to dismiss alert" };
+  }
+}
+
+/**
+ * Raise alerts for this branch's products that have fallen to their low-stock
+ * threshold, resolve those that recovered, and email owners and admins about
+ * the new ones. The daily run across every branch is the cron route.
+ */
+export async function processStockAlerts(): Promise<ActionResult<{
+  alertsRaised: number;
+  alertsResolved: number;
+  emailsSent: number;
+  emailsFailed: number;
+}>> {
+  const authResult = await checkAuth("stock-alerts:view");
+  if (!authResult) return { success: false, error: "Unauthorized" };
+
+  try {
+    const result = await runStockAlerts(authResult.salonId);
+    if (result.alertsRaised > 0 || result.alertsResolved > 0) {
+      revalidatePath("/dashboard/products/reorder");
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error processing stock alerts:", error);
+    return { success: false, error: "Failed to check stock levels" };
+  }
+}
@@ -0,0 +1,192 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { ActionResult } from "@/lib/types";
+import { findStockDrift, moveStock, settleStockDrift } from "@/lib/stock";
+import { StockDrift } from "@/lib/utils/stock";
+import {
+  stockAdjustmentSchema,
+  stockMovementSearchSchema,
+  StockAdjustmentInput,
+  StockMovementSearchParams,
+} from "@/lib/validations/stock";
+import { logAudit } from "./audit";
+
+const stockMovementInclude = Prisma.validator<Prisma.StockMovementInclude>()({
+  createdBy: { select: { firstName: true, lastName: true } },
+  sale: { select: { id: true, invoice: { select: { id: true, invoiceNumber: true } } } },
+  refund: { select: { invoice: { select: { id: true, invoiceNumber: true } } } },
+});
+
+export type StockMovementItem = Prisma.StockMovementGetPayload<{
+  include: typeof stockMovementInclude;
+}>;
+
+/** A product's stock history, newest first. */
+export async function getStockMovements(params: StockMovementSearchParams): Promise<ActionResult<{
+  movements: StockMovementItem[];
+  total: number;
+  page: number;
+  totalPages: number;
+}>> {
+  const authResult = await checkAuth("products:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = stockMovementSearchSchema.safeParse(params);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { productId, page = 1, limit = 25 } = validationResult.data;
+
+  try {
+    const where: Prisma.StockMovementWhereInput = { productId, salonId: authResult.salonId };
+
+    const [movements, total] = await Promise.all([
+      prisma.stockMovement.findMany({
+        where,
+        include: stockMovementInclude,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.stockMovement.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        movements,
+        total,
+        page,
+        totalPages: Math.max(1, Math.ceil(total / limit)),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching stock movements:", error);
+    return { success: false, error: "Failed to fetch stock history" };
+  }
+}
+
+/** Record stock received, counted, damaged, transferred or used on the backbar. */
+export async function adjustStock(data: StockAdjustmentInput): Promise<ActionResult<{ stock: number }>> {
+  const authResult = await checkAuth("products:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = stockAdjustmentSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { productId, type, quantity, reason } = validationResult.data;
+
+  try {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, salonId: authResult.salonId },
+      select: { id: true, name: true },
+    });
+    if (!product) {
+      return { success: false, error: "Product not found" };
+    }
+
+    const updated = await prisma.$transaction((tx) =>
+      moveStock(tx, {
+        productId,
+        type,
+        quantity,
+        reason,
+        createdById: authResult.userId,
+      })
+    );
+
+    await logAudit({
+      action: "STOCK_ADJUSTED",
+      entityType: "Product",
+      entityId: productId,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { name: product.name, type, quantity, reason, stockAfter: updated.stock },
+    });
+
+    revalidatePath("/dashboard/products");
+    revalidatePath(`/dashboard/products/${productId}`);
+    return { success: true, data: { stock: updated.stock } };
+  } catch (error) {
+    console.error("Error adjusting stock:", error);
+    const message = error instanceof Error && error.message.startsWith("Insufficient stock")
+      ? error.message
+      : "Failed to adjust stock";
+    return { success: false, error: message };
+  }
+}
+
+/** Products at this branch whose stock doesn't add up to their movements. */
+export async function getStockDrift(): Promise<ActionResult<StockDrift[]>> {
+  const authResult = await checkAuth("products:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    return { success: true, data: await findStockDrift(prisma, authResult.salonId) };
+  } catch (error) {
+    console.error("Error checking stock drift:", error);
+    return { success: false, error: "Failed to check stock against the ledger" };
+  }
+}
+
+/**
+ * Record the drift found by the reconciliation check as adjustments, after
+ * the counts have been checked, so the ledger matches stock again.
+ */
+export async function reconcileStock(productIds: string[]): Promise<ActionResult<{ reconciled: number }>> {
+  const authResult = await checkAuth("products:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  if (productIds.length === 0) {
+    return { success: false, error: "Select at least one product" };
+  }
+
+  try {
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds }, salonId: authResult.salonId },
+      select: { id: true },
+    });
+    if (products.length !== new Set(productIds).size) {
+      return { success: false, error: "Product not found" };
+    }
+
+    const drifts = await prisma.$transaction(async (tx) => {
+      const settled: { productId: string; drift: number }[] = [];
+      for (const { id } of products) {
+        const drift = await settleStockDrift(tx, { productId: id, createdById: authResult.userId });
+        if (drift !== 0) settled.push({ productId: id, drift });
+      }
+      return settled;
+    });
+
+    await logAudit({
+      action: "STOCK_RECONCILED",
+      entityType: "Product",
+      entityId: drifts.length === 1 ? drifts[0].productId : null,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { products: drifts },
+    });
+
+    revalidatePath("/dashboard/products");
+    return { success: true, data: { reconciled: drifts.length } };
+  } catch (error) {
+    console.error("Error reconciling stock:", error);
+    return { success: false, error: "Failed to reconcile stock" };
+  }
+}
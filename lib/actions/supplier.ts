@@ -0,0 +1,230 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { ActionResult } from "@/lib/types";
+import { supplierSchema, SupplierInput } from "@/lib/validations/supplier";
+import { getOrgRootSalonId } from "./branch";
+import { logAudit } from "./audit";
+
+const supplierListInclude = Prisma.validator<Prisma.SupplierInclude>()({
+  _count: { select: { products: true, purchaseOrders: true } },
+});
+
+export type SupplierItem = Prisma.SupplierGetPayload<{ include: typeof supplierListInclude }>;
+
+export type SupplierOption = {
+  id: string;
+  name: string;
+  leadTimeDays: number | null;
+};
+
+function supplierData(data: ReturnType<typeof supplierSchema.parse>) {
+  return {
+    name: data.name,
+    contactName: data.contactName || null,
+    email: data.email || null,
+    phone: data.phone || null,
+    address: data.address || null,
+    leadTimeDays: data.leadTimeDays,
+    paymentTermsDays: data.paymentTermsDays,
+    notes: data.notes || null,
+  };
+}
+
+/**
+ * Get all suppliers for the organization.
+ */
+export async function getSuppliers(): Promise<ActionResult<SupplierItem[]>> {
+  const authResult = await checkAuth("suppliers:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const orgRootId = await getOrgRootSalonId(authResult.salonId);
+
+    const suppliers = await prisma.supplier.findMany({
+      where: { salonId: orgRootId },
+      include: supplierListInclude,
+      orderBy: [{ isActive: "desc" }, { name: "asc" }],
+    });
+
+    return { success: true, data: suppliers };
+  } catch (error) {
+    console.error("Error fetching suppliers:", error);
+    return { success: false, error: "Failed to fetch suppliers" };
+  }
+}
+
+/**
+ * Get only active suppliers (for dropdowns).
+ */
+export async function getActiveSuppliers(): Promise<ActionResult<SupplierOption[]>> {
+  const authResult = await checkAuth("products:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const orgRootId = await getOrgRootSalonId(authResult.salonId);
+
+    const suppliers = await prisma.supplier.findMany({
+      where: { salonId: orgRootId, isActive: true },
+      select: { id: true, name: true, leadTimeDays: true },
+      orderBy: { name: "asc" },
+    });
+
+    return { success: true, data: suppliers };
+  } catch (error) {
+    console.error("Error fetching active suppliers:", error);
+    return { success: false, error: "Failed to fetch suppliers" };
+  }
+}
+
+/**
+ * Create a new supplier.
+ */
+export async function createSupplier(data: SupplierInput): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("suppliers:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validation = supplierSchema.safeParse(data);
+  if (!validation.success) {
+    return { success: false, error: validation.error.issues[0].message };
+  }
+
+  try {
+    const orgRootId = await getOrgRootSalonId(authResult.salonId);
+
+    const supplier = await prisma.supplier.create({
+      data: { salonId: orgRootId, ...supplierData(validation.data) },
+    });
+
+    await logAudit({
+      action: "SUPPLIER_CREATED",
+      entityType: "Supplier",
+      entityId: supplier.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { name: supplier.name },
+    });
+
+    revalidatePath("/dashboard/suppliers");
+    return { success: true, data: { id: supplier.id } };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { success: false, error: "A supplier with this name already exists" };
+    }
+    console.error("Error creating supplier:", error);
+    return { success: false, error: "Failed to create supplier" };
+  }
+}
+
+/**
+ * Update a supplier's details.
+ */
+export async function updateSupplier(
+  id: string,
+  data: SupplierInput
+): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("suppliers:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validation = supplierSchema.safeParse(data);
+  if (!validation.success) {
+    return { success: false, error: validation.error.issues[0].message };
+  }
+
+  try {
+    const orgRootId = await getOrgRootSalonId(authResult.salonId);
+
+    // Verify the supplier belongs to this org
+    const existing = await prisma.supplier.findFirst({
+      where: { id, salonId: orgRootId },
+    });
+
+    if (!existing) {
+      return { success: false, error: "Supplier not found" };
+    }
+
+    const supplier = await prisma.supplier.update({
+      where: { id },
+      data: supplierData(validation.data),
+    });
+
+    await logAudit({
+      action: "SUPPLIER_UPDATED",
+      entityType: "Supplier",
+      entityId: supplier.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { name: supplier.name, previousName: existing.name },
+    });
+
+    revalidatePath("/dashboard/suppliers");
+    revalidatePath("/dashboard/purchase-orders");
+    return { success: true, data: { id: supplier.id } };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { success: false, error: "A supplier with this name already exists" };
+    }
+    console.error("Error updating supplier:", error);
+    return { success: false, error: "Failed to update supplier" };
+  }
+}
+
+/**
+ * Toggle a supplier's active status. Inactive suppliers keep their purchase
+ * order history but can't be picked for new orders.
+ */
+export async function toggleSupplier(id: string): Promise<ActionResult<{ isActive: boolean }>> {
+  const authResult = await checkAuth("suppliers:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const orgRootId = await getOrgRootSalonId(authResult.salonId);
+
+    const existing = await prisma.supplier.findFirst({
+      where: { id, salonId: orgRootId },
+    });
+
+    if (!existing) {
+      return { success: false, error: "Supplier not found" };
+    }
+
+    const updated = await prisma.supplier.update({
+      where: { id },
+      data: { isActive: !existing.isActive },
+    });
+
+    await logAudit({
+      action: updated.isActive ? "SUPPLIER_RESTORED" : "SUPPLIER_DEACTIVATED",
+      entityType: "Supplier",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      details: { name: existing.name },
+    });
+
+    revalidatePath("/dashboard/suppliers");
+    return { success: true, data: { isActive: updated.isActive } };
+  } catch (error) {
+    console.error("Error toggling supplier:", error);
+    return { success: false, error: "Failed to update supplier" };
+  }
+}
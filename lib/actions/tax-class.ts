@@ -0,0 +1,187 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { checkAuth, checkAuthBasic } from "@/lib/auth-helpers";
+import { ActionResult } from "@/lib/types";
+import { taxClassSchema, TaxClassFormInput } from "@/lib/validations/tax-class";
+import { logAudit } from "./audit";
+
+export type TaxClassItem = {
+  id: string;
+  name: string;
+  rate: number;
+  pricesIncludeTax: boolean;
+  _count: { services: number; products: number };
+};
+
+/**
+ * This salon's tax classes, with how many services and products use each.
+ * Anyone at the salon can read them: checkout and the catalog forms need them.
+ */
+export async function getTaxClasses(): Promise<ActionResult<TaxClassItem[]>> {
+  const authResult = await checkAuthBasic();
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const taxClasses = await prisma.taxClass.findMany({
+      where: { salonId: authResult.salonId },
+      include: { _count: { select: { services: true, products: true } } },
+      orderBy: { name: "asc" },
+    });
+
+    return {
+      success: true,
+      data: taxClasses.map((taxClass) => ({
+        id: taxClass.id,
+        name: taxClass.name,
+        rate: Number(taxClass.rate),
+        pricesIncludeTax: taxClass.pricesIncludeTax,
+        _count: taxClass._count,
+      })),
+    };
+  } catch (error) {
+    console.error("Error fetching tax classes:", error);
+    return { success: false, error: "Failed to fetch tax classes" };
+  }
+}
+
+export async function createTaxClass(data: TaxClassFormInput): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("settings:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validation = taxClassSchema.safeParse(data);
+  if (!validation.success) {
+    return { success: false, error: validation.error.issues[0].message };
+  }
+
+  try {
+    const taxClass = await prisma.taxClass.create({
+      data: { ...validation.data, salonId: authResult.salonId },
+    });
+
+    await logAudit({
+      action: "TAX_CLASS_CREATED",
+      entityType: "TaxClass",
+      entityId: taxClass.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { ...validation.data },
+    });
+
+    revalidatePath("/dashboard/settings");
+    return { success: true, data: { id: taxClass.id } };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { success: false, error: "A tax class with this name already exists" };
+    }
+    console.error("Error creating tax class:", error);
+    return { success: false, error: "Failed to create tax class" };
+  }
+}
+
+/** Update a tax class. Invoices already issued keep the tax they were charged. */
+export async function updateTaxClass(
+  id: string,
+  data: TaxClassFormInput
+): Promise<ActionResult<{ id: string }>> {
+  const authResult = await checkAuth("settings:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validation = taxClassSchema.safeParse(data);
+  if (!validation.success) {
+    return { success: false, error: validation.error.issues[0].message };
+  }
+
+  try {
+    const existing = await prisma.taxClass.findFirst({
+      where: { id, salonId: authResult.salonId },
+    });
+    if (!existing) {
+      return { success: false, error: "Tax class not found" };
+    }
+
+    await prisma.taxClass.update({
+      where: { id: existing.id },
+      data: validation.data,
+    });
+
+    await logAudit({
+      action: "TAX_CLASS_UPDATED",
+      entityType: "TaxClass",
+      entityId: existing.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: {
+        name: { from: existing.name, to: validation.data.name },
+        rate: { from: Number(existing.rate), to: validation.data.rate },
+        pricesIncludeTax: { from: existing.pricesIncludeTax, to: validation.data.pricesIncludeTax },
+      },
+    });
+
+    revalidatePath("/dashboard/settings");
+    return { success: true, data: { id: existing.id } };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return { success: false, error: "A tax class with this name already exists" };
+    }
+    console.error("Error updating tax class:", error);
+    return { success: false, error: "Failed to update tax class" };
+  }
+}
+
+/**
+ * Delete a tax class. Its services and products fall back to the standard
+ * rate; invoices keep the class name in their tax breakdown.
+ */
+export async function deleteTaxClass(id: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("settings:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const existing = await prisma.taxClass.findFirst({
+      where: { id, salonId: authResult.salonId },
+      select: { id: true, name: true },
+    });
+    if (!existing) {
+      return { success: false, error: "Tax class not found" };
+    }
+
+    await prisma.taxClass.delete({ where: { id: existing.id } });
+
+    await logAudit({
+      action: "TAX_CLASS_DELETED",
+      entityType: "TaxClass",
+      entityId: existing.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { name: existing.name },
+    });
+
+    revalidatePath("/dashboard/settings");
+    revalidatePath("/dashboard/services");
+    revalidatePath("/dashboard/products");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error deleting tax class:", error);
+    return { success: false, error: "Failed to delete tax class" };
+  }
+}
@@ -0,0 +1,327 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import { hasPermission } from "@/lib/permissions";
+import {
+  timeOffSchema,
+  timeOffReviewSchema,
+  TimeOffFormData,
+  TimeOffReviewData,
+} from "@/lib/validations/schedule";
+import { Prisma, RecurrencePattern } from "@prisma/client";
+import { dayToDate, dateRangeToInterval } from "@/lib/availability";
+import { formatDateOnly } from "@/lib/utils/timezone";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { getTimezone } from "./settings";
+import { logAudit } from "./audit";
+
+const timeOffListInclude = Prisma.validator<Prisma.StaffTimeOffInclude>()({
+  staff: { select: { id: true, firstName: true, lastName: true } },
+  requestedBy: { select: { id: true, firstName: true, lastName: true } },
+  reviewedBy: { select: { id: true, firstName: true, lastName: true } },
+});
+
+export type TimeOffListItem = Prisma.StaffTimeOffGetPayload<{
+  include: typeof timeOffListInclude;
+}>;
+
+export interface AffectedAppointment {
+  id: string;
+  startTime: Date;
+  endTime: Date;
+  status: string;
+  clientName: string;
+  clientPhone: string | null;
+  serviceName: string;
+  seriesId: string | null;
+  seriesPattern: RecurrencePattern | null;
+}
+
+export interface TimeOffImpact {
+  timeOffId: string;
+  staffName: string;
+  appointments: AffectedAppointment[]; // One-off appointments to reassign
+  recurringOccurrences: AffectedAppointment[]; // Generated occurrences of recurring series
+}
+
+/**
+ * Time off for the salon that is still relevant to the schedule: pending and
+ * approved entries ending on or after `from` (defaults to all).
+ */
+export async function getTimeOff(params?: { from?: string }): Promise<ActionResult<TimeOffListItem[]>> {
+  const authResult = await checkAuth("schedules:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const timeOff = await prisma.staffTimeOff.findMany({
+      where: {
+        salonId: authResult.salonId,
+        status: { in: ["PENDING", "APPROVED"] },
+        ...(params?.from && { endDate: { gte: dayToDate(params.from) } }),
+      },
+      include: timeOffListInclude,
+      orderBy: { startDate: "asc" },
+    });
+
+    return { success: true, data: timeOff };
+  } catch (error) {
+    console.error("Error fetching time off:", error);
+    return { success: false, error: "Failed to fetch time off" };
+  }
+}
+
+/**
+ * Request time off. Staff may only request leave for themselves and it starts
+ * out pending; entries created by OWNER/ADMIN are approved immediately.
+ */
+export async function requestTimeOff(data: TimeOffFormData): Promise<ActionResult<TimeOffListItem>> {
+  const authResult = await checkAuth("schedules:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = timeOffSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { staffId, startDate, endDate, reason } = validationResult.data;
+  const canManage = hasPermission(authResult.role, "schedules:manage", authResult.isSuperAdmin);
+
+  if (!canManage && staffId !== authResult.userId) {
+    return { success: false, error: "You can only request time off for yourself" };
+  }
+
+  try {
+    const membership = await prisma.userSalon.findUnique({
+      where: { userId_salonId: { userId: staffId, salonId: authResult.salonId } },
+      select: { isActive: true },
+    });
+
+    if (!membership || !membership.isActive) {
+      return { success: false, error: "Staff member not found or inactive" };
+    }
+
+    const timeOff = await prisma.$transaction(async (tx) => {
+      const overlapping = await tx.staffTimeOff.findFirst({
+        where: {
+          salonId: authResult.salonId,
+          staffId,
+          status: { in: ["PENDING", "APPROVED"] },
+          startDate: { lte: dayToDate(endDate) },
+          endDate: { gte: dayToDate(startDate) },
+        },
+        select: { startDate: true, endDate: true },
+      });
+      if (overlapping) {
+        throw new Error(
+          `Overlaps existing time off (${formatDateOnly(overlapping.startDate, "MMM d")} - ${formatDateOnly(overlapping.endDate, "MMM d")})`
+        );
+      }
+
+      return tx.staffTimeOff.create({
+        data: {
+          salonId: authResult.salonId,
+          staffId,
+          startDate: dayToDate(startDate),
+          endDate: dayToDate(endDate),
+          reason: reason || null,
+          status: canManage ? "APPROVED" : "PENDING",
+          requestedById: authResult.userId,
+          ...(canManage && { reviewedById: authResult.userId, reviewedAt: new Date() }),
+        },
+        include: timeOffListInclude,
+      });
+    });
+
+    await logAudit({
+      action: canManage ? "TIME_OFF_APPROVED" : "TIME_OFF_REQUESTED",
+      entityType: "StaffTimeOff",
+      entityId: timeOff.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { staffId, startDate, endDate },
+    });
+
+    revalidatePath("/dashboard/schedules");
+    if (canManage) await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: timeOff };
+  } catch (error) {
+    console.error("Error requesting time off:", error);
+    const message = error instanceof Error ? error.message : "Failed to request time off";
+    return { success: false, error: message };
+  }
+}
+
+/** Approve or reject a pending time-off request (OWNER/ADMIN). */
+export async function reviewTimeOff(data: TimeOffReviewData): Promise<ActionResult<TimeOffListItem>> {
+  const authResult = await checkAuth("schedules:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = timeOffReviewSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { id, decision } = validationResult.data;
+
+  try {
+    // Guard on status so two reviewers can't both act on the same request
+    const updated = await prisma.staffTimeOff.updateMany({
+      where: { id, salonId: authResult.salonId, status: "PENDING" },
+      data: { status: decision, reviewedById: authResult.userId, reviewedAt: new Date() },
+    });
+
+    if (updated.count === 0) {
+      return { success: false, error: "Time-off request not found or already reviewed" };
+    }
+
+    const timeOff = await prisma.staffTimeOff.findUniqueOrThrow({
+      where: { id },
+      include: timeOffListInclude,
+    });
+
+    await logAudit({
+      action: decision === "APPROVED" ? "TIME_OFF_APPROVED" : "TIME_OFF_REJECTED",
+      entityType: "StaffTimeOff",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: {
+        staffId: timeOff.staffId,
+        startDate: formatDateOnly(timeOff.startDate, "yyyy-MM-dd"),
+        endDate: formatDateOnly(timeOff.endDate, "yyyy-MM-dd"),
+      },
+    });
+
+    revalidatePath("/dashboard/schedules");
+    if (decision === "APPROVED") await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: timeOff };
+  } catch (error) {
+    console.error("Error reviewing time off:", error);
+    return { success: false, error: "Failed to review time off" };
+  }
+}
+
+/** Withdraw a pending request or cancel approved leave. Staff may cancel their own. */
+export async function cancelTimeOff(id: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("schedules:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const canManage = hasPermission(authResult.role, "schedules:manage", authResult.isSuperAdmin);
+
+  try {
+    const updated = await prisma.staffTimeOff.updateMany({
+      where: {
+        id,
+        salonId: authResult.salonId,
+        status: { in: ["PENDING", "APPROVED"] },
+        ...(!canManage && { staffId: authResult.userId }),
+      },
+      data: { status: "CANCELLED" },
+    });
+
+    if (updated.count === 0) {
+      return { success: false, error: "Time off not found" };
+    }
+
+    await logAudit({
+      action: "TIME_OFF_CANCELLED",
+      entityType: "StaffTimeOff",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+    });
+
+    revalidatePath("/dashboard/schedules");
+    await invalidateDashboardCache(authResult.salonId);
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error cancelling time off:", error);
+    return { success: false, error: "Failed to cancel time off" };
+  }
+}
+
+/**
+ * Upcoming appointments booked with the staff member during their leave, so
+ * the front desk can reassign or reschedule them. Recurring-series
+ * occurrences are listed separately since they are usually handled per series.
+ */
+export async function getTimeOffImpact(id: string): Promise<ActionResult<TimeOffImpact>> {
+  const authResult = await checkAuth("schedules:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const timeOff = await prisma.staffTimeOff.findFirst({
+      where: { id, salonId: authResult.salonId },
+      include: { staff: { select: { firstName: true, lastName: true } } },
+    });
+
+    if (!timeOff) {
+      return { success: false, error: "Time off not found" };
+    }
+
+    const tz = await getTimezone();
+    const range = dateRangeToInterval(timeOff.startDate, timeOff.endDate, tz);
+
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        salonId: authResult.salonId,
+        staffId: timeOff.staffId,
+        status: { in: ["SCHEDULED", "CONFIRMED"] },
+        startTime: { lt: new Date(range.end), gte: new Date() },
+        endTime: { gt: new Date(range.start) },
+      },
+      select: {
+        id: true,
+        startTime: true,
+        endTime: true,
+        status: true,
+        seriesId: true,
+        client: { select: { firstName: true, lastName: true, phone: true } },
+        service: { select: { name: true } },
+        series: { select: { pattern: true } },
+      },
+      orderBy: { startTime: "asc" },
+    });
+
+    const affected: AffectedAppointment[] = appointments.map((apt) => ({
+      id: apt.id,
+      startTime: apt.startTime,
+      endTime: apt.endTime,
+      status: apt.status,
+      clientName: `${apt.client.firstName} ${apt.client.lastName ?? ""}`.trim(),
+      clientPhone: apt.client.phone,
+      serviceName: apt.service.name,
+      seriesId: apt.seriesId,
+      seriesPattern: apt.series?.pattern ?? null,
+    }));
+
+    return {
+      success: true,
+      data: {
+        timeOffId: timeOff.id,
+        staffName: `${timeOff.staff.firstName} ${timeOff.staff.lastName}`,
+        appointments: affected.filter((apt) => !apt.seriesId),
+        recurringOccurrences: affected.filter((apt) => apt.seriesId),
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching time-off impact:", error);
+    return { success: false, error: "Failed to fetch affected appointments" };
+  }
+}
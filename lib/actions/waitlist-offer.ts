@@ -0,0 +1,233 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { Prisma, WaitlistOfferStatus } from "@prisma/client";
+import { verifyWaitlistOfferToken, getAppointmentManageUrl } from "@/lib/appointment-links";
+import { hasAppointmentConflict, getUnavailableReason } from "@/lib/availability";
+import { releaseWaitlistOffer } from "@/lib/waitlist";
+import { sendEmail } from "@/lib/email";
+import { bookingConfirmationEmailHtml } from "@/lib/email-templates";
+import { formatInTz } from "@/lib/utils/timezone";
+import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { logAudit } from "./audit";
+
+export interface WaitlistOfferDetails {
+  status: WaitlistOfferStatus;
+  startTime: Date;
+  endTime: Date;
+  expiresAt: Date;
+  serviceName: string;
+  staffName: string;
+  clientFirstName: string;
+  salonName: string;
+  salonPhone: string | null;
+  timezone: string;
+  canRespond: boolean;
+}
+
+const offerForLinkInclude = Prisma.validator<Prisma.WaitlistOfferInclude>()({
+  entry: {
+    include: {
+      client: { select: { id: true, firstName: true, email: true } },
+      service: { select: { id: true, name: true } },
+    },
+  },
+  staff: { select: { firstName: true, lastName: true } },
+  salon: { select: { name: true, phone: true, address: true, settings: true } },
+});
+
+type OfferForLink = Prisma.WaitlistOfferGetPayload<{ include: typeof offerForLinkInclude }>;
+
+// Verify the token and load the offer it grants access to
+async function resolveToken(token: string): Promise<OfferForLink | null> {
+  const ip = await getClientIp();
+  const limit = await rateLimit(`waitlist-offer:${ip}`, 60, 5 * 60);
+  if (!limit.allowed) return null;
+
+  const offerId = verifyWaitlistOfferToken(token);
+  if (!offerId) return null;
+
+  return prisma.waitlistOffer.findUnique({
+    where: { id: offerId },
+    include: offerForLinkInclude,
+  });
+}
+
+function canRespond(offer: OfferForLink): boolean {
+  return offer.status === "PENDING" && offer.expiresAt > new Date();
+}
+
+/** Offer details for the public claim page. */
+export async function getWaitlistOfferByToken(token: string): Promise<ActionResult<WaitlistOfferDetails>> {
+  try {
+    const offer = await resolveToken(token);
+    if (!offer) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+
+    const settings = offer.salon.settings;
+    return {
+      success: true,
+      data: {
+        status: offer.status,
+        startTime: offer.startTime,
+        endTime: offer.endTime,
+        expiresAt: offer.expiresAt,
+        serviceName: offer.entry.service.name,
+        staffName: `${offer.staff.firstName} ${offer.staff.lastName}`,
+        clientFirstName: offer.entry.client.firstName,
+        salonName: settings?.salonName ?? offer.salon.name,
+        salonPhone: settings?.salonPhone ?? offer.salon.phone,
+        timezone: settings?.timezone ?? "UTC",
+        canRespond: canRespond(offer),
+      },
+    };
+  } catch (error) {
+    console.error("Error loading waitlist offer from link:", error);
+    return { success: false, error: "Failed to load offer" };
+  }
+}
+
+/** Client claims the held slot, which books the appointment. */
+export async function acceptWaitlistOffer(token: string): Promise<ActionResult<{ appointmentId: string }>> {
+  try {
+    const offer = await resolveToken(token);
+    if (!offer) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+    if (!canRespond(offer)) {
+      return { success: false, error: "This offer has expired or was already answered" };
+    }
+
+    const { salonId, staffId, startTime, endTime, entry } = offer;
+
+    const appointment = await prisma.$transaction(async (tx) => {
+      // Claim the offer first so a double-click can't book it twice
+      const claimed = await tx.waitlistOffer.updateMany({
+        where: { id: offer.id, status: "PENDING", expiresAt: { gt: new Date() } },
+        data: { status: "ACCEPTED", respondedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new Error("This offer has expired or was already answered");
+      }
+
+      const slot = { salonId, staffId, startTime, endTime };
+      if (
+        (await hasAppointmentConflict(tx, slot)) ||
+        (await getUnavailableReason(tx, { ...slot, excludeWaitlistOfferId: offer.id }))
+      ) {
+        throw new Error("Sorry, this time is no longer available. Please contact the salon.");
+      }
+
+      const created = await tx.appointment.create({
+        data: {
+          salonId,
+          clientId: entry.clientId,
+          serviceId: entry.serviceId,
+          staffId,
+          startTime,
+          endTime,
+          notes: entry.notes,
+          source: "WAITLIST",
+        },
+      });
+
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: "BOOKED", appointmentId: created.id },
+      });
+
+      return created;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    logAudit({
+      action: "WAITLIST_OFFER_ACCEPTED",
+      entityType: "Appointment",
+      entityId: appointment.id,
+      userId: null,
+      userRole: "CLIENT",
+      salonId,
+      details: {
+        via: "waitlist_link",
+        clientId: entry.clientId,
+        waitlistEntryId: entry.id,
+        offerId: offer.id,
+        startTime: startTime.toISOString(),
+      },
+    });
+
+    revalidatePath("/dashboard/appointments");
+    revalidatePath("/dashboard/waitlist");
+    await invalidateDashboardCache(salonId);
+
+    const settings = offer.salon.settings;
+    const salonName = settings?.salonName ?? offer.salon.name;
+    if (entry.client.email) {
+      try {
+        await sendEmail({
+          to: entry.client.email,
+          subject: `Appointment confirmed at ${salonName}`,
+          html: bookingConfirmationEmailHtml({
+            salonName,
+            clientName: entry.client.firstName,
+            serviceName: entry.service.name,
+            staffName: `${offer.staff.firstName} ${offer.staff.lastName}`,
+            dateTime: formatInTz(startTime, "EEEE, MMMM d 'at' h:mm a", settings?.timezone ?? "UTC"),
+            salonAddress: settings?.salonAddress ?? offer.salon.address,
+            salonPhone: settings?.salonPhone ?? offer.salon.phone,
+            manageUrl: getAppointmentManageUrl(appointment.id, startTime),
+          }),
+          salonName,
+        });
+      } catch (error) {
+        // The booking stands even if the confirmation email fails
+        console.error("Error sending waitlist booking confirmation email:", error);
+      }
+    }
+
+    return { success: true, data: { appointmentId: appointment.id } };
+  } catch (error) {
+    console.error("Error accepting waitlist offer:", error);
+    if (error instanceof Error && !(error instanceof Prisma.PrismaClientKnownRequestError)) {
+      return { success: false, error: error.message };
+    }
+    return { success: false, error: "Failed to book this time" };
+  }
+}
+
+/** Client passes on the held slot; they stay on the waitlist for the next opening. */
+export async function declineWaitlistOffer(token: string): Promise<ActionResult<void>> {
+  try {
+    const offer = await resolveToken(token);
+    if (!offer) {
+      return { success: false, error: "This link is invalid or has expired" };
+    }
+    if (!canRespond(offer)) {
+      return { success: false, error: "This offer has expired or was already answered" };
+    }
+
+    const released = await releaseWaitlistOffer(offer.id, "DECLINED");
+    if (!released) {
+      return { success: false, error: "This offer has expired or was already answered" };
+    }
+
+    await logAudit({
+      action: "WAITLIST_OFFER_DECLINED",
+      entityType: "WaitlistEntry",
+      entityId: offer.entryId,
+      userId: null,
+      userRole: "CLIENT",
+      salonId: offer.salonId,
+      details: { via: "waitlist_link", clientId: offer.entry.clientId, offerId: offer.id },
+    });
+
+    revalidatePath("/dashboard/waitlist");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error declining waitlist offer:", error);
+    return { success: false, error: "Failed to decline offer" };
+  }
+}
@@ -0,0 +1,278 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkAuth } from "@/lib/auth-helpers";
+import {
+  waitlistEntrySchema,
+  waitlistUpdateSchema,
+  WaitlistEntryFormData,
+  WaitlistUpdateFormData,
+} from "@/lib/validations/waitlist";
+import { Prisma, WaitlistStatus } from "@prisma/client";
+import { dayToDate } from "@/lib/availability";
+import { expireWaitlist, releaseWaitlistOffer } from "@/lib/waitlist";
+import { ActionResult } from "@/lib/types";
+import { getOrganizationSalonIds } from "./branch";
+import { logAudit } from "./audit";
+
+const waitlistListInclude = Prisma.validator<Prisma.WaitlistEntryInclude>()({
+  client: { select: { id: true, firstName: true, lastName: true, phone: true, email: true } },
+  service: { select: { id: true, name: true, duration: true } },
+  staff: { select: { id: true, firstName: true, lastName: true } },
+  offers: {
+    where: { status: "PENDING" },
+    select: {
+      id: true,
+      startTime: true,
+      endTime: true,
+      expiresAt: true,
+      staff: { select: { firstName: true, lastName: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: 1,
+  },
+  appointment: { select: { id: true, startTime: true } },
+});
+
+export type WaitlistListItem = Prisma.WaitlistEntryGetPayload<{
+  include: typeof waitlistListInclude;
+}>;
+
+/**
+ * Waitlist entries for the salon, highest priority first. Defaults to the
+ * active ones (waiting, or holding an offer).
+ */
+export async function getWaitlist(params?: {
+  statuses?: WaitlistStatus[];
+}): Promise<ActionResult<WaitlistListItem[]>> {
+  const authResult = await checkAuth("waitlist:view");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const entries = await prisma.waitlistEntry.findMany({
+      where: {
+        salonId: authResult.salonId,
+        status: { in: params?.statuses ?? ["WAITING", "OFFERED"] },
+      },
+      include: waitlistListInclude,
+      orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    });
+
+    return { success: true, data: entries };
+  } catch (error) {
+    console.error("Error fetching waitlist:", error);
+    return { success: false, error: "Failed to fetch waitlist" };
+  }
+}
+
+/** Add a client to the waitlist for a service within a date window. */
+export async function createWaitlistEntry(
+  data: WaitlistEntryFormData
+): Promise<ActionResult<WaitlistListItem>> {
+  const authResult = await checkAuth("waitlist:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = waitlistEntrySchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { clientId, serviceId, staffId, earliestDate, latestDate, timePreferences, priority, notes } =
+    validationResult.data;
+
+  try {
+    // Clients and services are shared across the organization's branches
+    const orgSalonIds = await getOrganizationSalonIds(authResult.salonId);
+    const [client, service, membership] = await Promise.all([
+      prisma.client.findFirst({
+        where: { id: clientId, salonId: { in: orgSalonIds }, isActive: true },
+        select: { id: true },
+      }),
+      prisma.service.findFirst({
+        where: { id: serviceId, salonId: { in: orgSalonIds }, isActive: true },
+        select: { id: true },
+      }),
+      staffId
+        ? prisma.userSalon.findUnique({
+            where: { userId_salonId: { userId: staffId, salonId: authResult.salonId } },
+            select: { isActive: true },
+          })
+        : null,
+    ]);
+
+    if (!client) {
+      return { success: false, error: "Client not found or inactive" };
+    }
+    if (!service) {
+      return { success: false, error: "Service not found or inactive" };
+    }
+    if (staffId && !membership?.isActive) {
+      return { success: false, error: "Staff member not found or inactive" };
+    }
+
+    const existing = await prisma.waitlistEntry.findFirst({
+      where: {
+        salonId: authResult.salonId,
+        clientId,
+        serviceId,
+        status: { in: ["WAITING", "OFFERED"] },
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      return { success: false, error: "This client is already on the waitlist for this service" };
+    }
+
+    const entry = await prisma.waitlistEntry.create({
+      data: {
+        salonId: authResult.salonId,
+        clientId,
+        serviceId,
+        staffId: staffId || null,
+        earliestDate: dayToDate(earliestDate),
+        latestDate: dayToDate(latestDate),
+        timePreferences: [...new Set(timePreferences)],
+        priority,
+        notes: notes || null,
+        createdById: authResult.userId,
+      },
+      include: waitlistListInclude,
+    });
+
+    await logAudit({
+      action: "WAITLIST_ENTRY_CREATED",
+      entityType: "WaitlistEntry",
+      entityId: entry.id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { clientId, serviceId, staffId: staffId || null, earliestDate, latestDate },
+    });
+
+    revalidatePath("/dashboard/waitlist");
+    return { success: true, data: entry };
+  } catch (error) {
+    console.error("Error creating waitlist entry:", error);
+    return { success: false, error: "Failed to add to waitlist" };
+  }
+}
+
+/** Change an entry's priority or notes. */
+export async function updateWaitlistEntry(
+  data: WaitlistUpdateFormData
+): Promise<ActionResult<WaitlistListItem>> {
+  const authResult = await checkAuth("waitlist:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  const validationResult = waitlistUpdateSchema.safeParse(data);
+  if (!validationResult.success) {
+    return { success: false, error: validationResult.error.issues[0].message };
+  }
+
+  const { id, priority, notes } = validationResult.data;
+
+  try {
+    const updated = await prisma.waitlistEntry.updateMany({
+      where: { id, salonId: authResult.salonId, status: { in: ["WAITING", "OFFERED"] } },
+      data: { priority, notes: notes || null },
+    });
+
+    if (updated.count === 0) {
+      return { success: false, error: "Waitlist entry not found" };
+    }
+
+    const entry = await prisma.waitlistEntry.findUniqueOrThrow({
+      where: { id },
+      include: waitlistListInclude,
+    });
+
+    await logAudit({
+      action: "WAITLIST_ENTRY_UPDATED",
+      entityType: "WaitlistEntry",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+      details: { priority },
+    });
+
+    revalidatePath("/dashboard/waitlist");
+    return { success: true, data: entry };
+  } catch (error) {
+    console.error("Error updating waitlist entry:", error);
+    return { success: false, error: "Failed to update waitlist entry" };
+  }
+}
+
+/**
+ * Take a client off the waitlist. A slot currently held for them is
+ * released and offered to the next matching entry.
+ */
+export async function cancelWaitlistEntry(id: string): Promise<ActionResult<void>> {
+  const authResult = await checkAuth("waitlist:manage");
+  if (!authResult) {
+    return { success: false, error: "Unauthorized" };
+  }
+
+  try {
+    const updated = await prisma.waitlistEntry.updateMany({
+      where: { id, salonId: authResult.salonId, status: { in: ["WAITING", "OFFERED"] } },
+      data: { status: "CANCELLED" },
+    });
+
+    if (updated.count === 0) {
+      return { success: false, error: "Waitlist entry not found" };
+    }
+
+    const pendingOffers = await prisma.waitlistOffer.findMany({
+      where: { entryId: id, status: "PENDING" },
+      select: { id: true },
+    });
+    for (const offer of pendingOffers) {
+      await releaseWaitlistOffer(offer.id, "DECLINED");
+    }
+
+    await logAudit({
+      action: "WAITLIST_ENTRY_CANCELLED",
+      entityType: "WaitlistEntry",
+      entityId: id,
+      userId: authResult.userId,
+      userRole: authResult.role,
+      salonId: authResult.salonId,
+    });
+
+    revalidatePath("/dashboard/waitlist");
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Error cancelling waitlist entry:", error);
+    return { success: false, error: "Failed to cancel waitlist entry" };
+  }
+}
+
+/**
+ * Release this branch's lapsed slot holds to the next client in line and
+ * expire entries whose date window has passed.
+ */
+export async function processWaitlistOffers(): Promise<ActionResult<{
+  expiredOffers: number;
+  expiredEntries: number;
+}>> {
+  const authResult = await checkAuth("waitlist:manage");
+  if (!authResult) return { success: false, error: "Unauthorized" };
+
+  try {
+    const result = await expireWaitlist(authResult.salonId);
+    revalidatePath("/dashboard/waitlist");
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error processing waitlist offers:", error);
+    return { success: false, error: "Failed to process waitlist offers" };
+  }
+}
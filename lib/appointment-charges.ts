@@ -0,0 +1,100 @@
+import "server-only";
+import { AppointmentCharge, ChargeType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { calculateRuleAmount } from "@/lib/utils/deposit";
+
+/**
+ * Cancellation policy. A no-show, or a cancellation inside the salon's
+ * cancellation notice window, forfeits any deposit held for the appointment
+ * and raises a charge for the configured fee. The forfeited deposit counts
+ * toward the fee (and is the minimum charged). A timely cancellation releases
+ * the deposit for refund instead; staff record paying it back with
+ * refundDeposit.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const toCents = (n: number) => Math.round(n * 100);
+
+async function enforcePolicy(
+  appointmentId: string,
+  status: "CANCELLED" | "NO_SHOW"
+): Promise<AppointmentCharge | null> {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    select: {
+      id: true,
+      salonId: true,
+      clientId: true,
+      startTime: true,
+      service: { select: { price: true } },
+      salon: { select: { settings: true } },
+      deposits: { where: { type: "DEPOSIT", depositStatus: "HELD" }, select: { amount: true } },
+    },
+  });
+  if (!appointment) return null;
+
+  const settings = appointment.salon.settings;
+  const windowMs = (settings?.cancellationWindowHours ?? 24) * HOUR_MS;
+  const isLate = status === "NO_SHOW" || appointment.startTime.getTime() - Date.now() < windowMs;
+
+  if (!isLate) {
+    await prisma.payment.updateMany({
+      where: { appointmentId, type: "DEPOSIT", depositStatus: "HELD" },
+      data: { depositStatus: "REFUNDED" },
+    });
+    return null;
+  }
+
+  const type: ChargeType = status === "NO_SHOW" ? "NO_SHOW" : "LATE_CANCELLATION";
+  const price = Number(appointment.service.price);
+  const fee = settings
+    ? type === "NO_SHOW"
+      ? calculateRuleAmount(settings.noShowFeeType, Number(settings.noShowFeeValue), price)
+      : calculateRuleAmount(settings.lateCancellationFeeType, Number(settings.lateCancellationFeeValue), price)
+    : 0;
+  const depositCents = appointment.deposits.reduce((sum, d) => sum + toCents(Number(d.amount)), 0);
+  const amountCents = Math.max(toCents(fee), depositCents);
+
+  return prisma.$transaction(async (tx) => {
+    await tx.payment.updateMany({
+      where: { appointmentId, type: "DEPOSIT", depositStatus: "HELD" },
+      data: { depositStatus: "FORFEITED" },
+    });
+
+    if (amountCents === 0) return null;
+
+    const existing = await tx.appointmentCharge.findUnique({ where: { appointmentId } });
+    if (existing) return existing;
+
+    const settled = depositCents >= amountCents;
+    return tx.appointmentCharge.create({
+      data: {
+        salonId: appointment.salonId,
+        appointmentId,
+        clientId: appointment.clientId,
+        type,
+        amount: amountCents / 100,
+        depositApplied: depositCents / 100,
+        status: settled ? "PAID" : "OUTSTANDING",
+        resolvedAt: settled ? new Date() : null,
+      },
+    });
+  });
+}
+
+/**
+ * Apply the cancellation policy after an appointment is cancelled or marked
+ * as a no-show. Never throws — the status change stands even if this fails.
+ */
+export async function applyCancellationPolicy(
+  appointmentId: string,
+  status: "CANCELLED" | "NO_SHOW"
+): Promise<AppointmentCharge | null> {
+  try {
+    return await enforcePolicy(appointmentId, status);
+  } catch (error) {
+    console.error("Error applying cancellation policy:", error);
+    return null;
+  }
+}
@@ -0,0 +1,102 @@
+import "server-only";
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signed, expiring tokens that let a client manage a single appointment or
+ * claim a waitlist offer without logging in.
+ * Format: base64url(payload).base64url(hmac-sha256).
+ */
+
+interface AppointmentTokenPayload {
+  a: string; // appointment ID
+  s: number; // start time the link was issued for (unix ms); also when it expires
+}
+
+interface WaitlistOfferTokenPayload {
+  w: string; // waitlist offer ID
+  e: number; // expiry (unix ms)
+}
+
+function getSecret(): string {
+  const secret = process.env.APPOINTMENT_LINK_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("APPOINTMENT_LINK_SECRET or NEXTAUTH_SECRET must be set to sign appointment links");
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+function encode(payload: object): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+// Returns the decoded payload if the signature matches, otherwise null
+function decode(token: string): Record<string, unknown> | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(data, "base64url").toString());
+  } catch {
+    return null;
+  }
+}
+
+// Absolute base URL of the app, for links sent by email
+export function getBaseUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+export function createAppointmentToken(appointmentId: string, startTime: Date): string {
+  const payload: AppointmentTokenPayload = { a: appointmentId, s: startTime.getTime() };
+  return encode(payload);
+}
+
+/**
+ * Returns the appointment ID and the start time the link was issued for if
+ * the token is authentic and unexpired, otherwise null. The caller rejects the
+ * link if the appointment has been rescheduled since.
+ */
+export function verifyAppointmentToken(token: string): { appointmentId: string; startTime: Date } | null {
+  const payload = decode(token);
+  if (!payload || typeof payload.a !== "string" || typeof payload.s !== "number") return null;
+  if (payload.s < Date.now()) return null;
+  return { appointmentId: payload.a, startTime: new Date(payload.s) };
+}
+
+export function createWaitlistOfferToken(offerId: string, expiresAt: Date): string {
+  const payload: WaitlistOfferTokenPayload = { w: offerId, e: expiresAt.getTime() };
+  return encode(payload);
+}
+
+/** Returns the waitlist offer ID if the token is authentic and unexpired, otherwise null. */
+export function verifyWaitlistOfferToken(token: string): string | null {
+  const payload = decode(token);
+  if (!payload || typeof payload.w !== "string" || typeof payload.e !== "number") return null;
+  if (payload.e < Date.now()) return null;
+  return payload.w;
+}
+
+/**
+ * Absolute URL of the client self-service page for an appointment.
+ * Links stay valid until the appointment starts, and stop working once it
+ * is moved to another time.
+ */
+export function getAppointmentManageUrl(appointmentId: string, startTime: Date): string {
+  return `${getBaseUrl()}/appointment/${createAppointmentToken(appointmentId, startTime)}`;
+}
+
+/** Absolute URL where a waitlisted client can claim an offered slot until the hold expires. */
+export function getWaitlistOfferUrl(offerId: string, expiresAt: Date): string {
+  return `${getBaseUrl()}/waitlist/${createWaitlistOfferToken(offerId, expiresAt)}`;
+}
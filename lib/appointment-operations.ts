@@ -0,0 +1,255 @@
+import "server-only";
+import { revalidatePath } from "next/cache";
+import { AppointmentStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ActionResult } from "@/lib/types";
+import { invalidateDashboardCache } from "@/lib/redis";
+import { hasAppointmentConflict, getUnavailableReason } from "@/lib/availability";
+import { offerFreedSlot } from "@/lib/waitlist";
+import { applyCancellationPolicy } from "@/lib/appointment-charges";
+import { logAudit } from "@/lib/actions/audit";
+
+/**
+ * Appointment mutations shared by the dashboard actions and the client
+ * self-service links. Callers authorize first and pass who is acting.
+ */
+
+// Include relations for appointment list
+export const appointmentListInclude = Prisma.validator<Prisma.AppointmentInclude>()({
+  client: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      phone: true,
+      email: true,
+      isWalkIn: true,
+    },
+  },
+  service: {
+    select: {
+      id: true,
+      name: true,
+      duration: true,
+      price: true,
+      category: true,
+      depositType: true,
+      depositValue: true,
+    },
+  },
+  staff: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  series: {
+    select: {
+      id: true,
+      pattern: true,
+      customWeeks: true,
+      isActive: true,
+    },
+  },
+  deposits: {
+    where: { type: "DEPOSIT" },
+    select: {
+      id: true,
+      amount: true,
+      method: true,
+      depositStatus: true,
+      paidAt: true,
+      refundMethod: true,
+      refundedAt: true,
+    },
+    orderBy: { paidAt: "asc" },
+  },
+  charge: {
+    select: {
+      id: true,
+      type: true,
+      amount: true,
+      depositApplied: true,
+      status: true,
+    },
+  },
+  sale: {
+    select: {
+      id: true,
+      invoice: { select: { invoiceNumber: true } },
+    },
+  },
+  // Contact details given when booking online, which are never copied onto an existing client
+  bookingRequest: {
+    select: {
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+});
+
+type AppointmentWithRelations = Prisma.AppointmentGetPayload<{
+  include: typeof appointmentListInclude;
+}>;
+
+export interface AppointmentActor {
+  userId: string | null; // null when a client acts through a signed link
+  role: string;
+}
+
+export const VALID_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  SCHEDULED: ["CONFIRMED", "IN_PROGRESS", "CANCELLED", "NO_SHOW"],
+  CONFIRMED: ["IN_PROGRESS", "CANCELLED", "NO_SHOW"],
+  IN_PROGRESS: ["COMPLETED", "CANCELLED"],
+  COMPLETED: [],
+  CANCELLED: [],
+  NO_SHOW: [],
+};
+
+/** Move an appointment to a new status, enforcing the allowed transitions. */
+export async function transitionAppointmentStatus(params: {
+  id: string;
+  salonId: string;
+  status: AppointmentStatus;
+  actor: AppointmentActor;
+  auditDetails?: Record<string, string>;
+}): Promise<ActionResult<AppointmentWithRelations>> {
+  const { id, salonId, status, actor } = params;
+
+  const existing = await prisma.appointment.findFirst({
+    where: { id, salonId },
+    select: { status: true },
+  });
+
+  if (!existing) {
+    return { success: false, error: "Appointment not found" };
+  }
+
+  if (!VALID_STATUS_TRANSITIONS[existing.status].includes(status)) {
+    return {
+      success: false,
+      error: `Cannot change status from ${existing.status} to ${status}`,
+    };
+  }
+
+  // Guard against a concurrent change between the read and the write
+  const updated = await prisma.appointment.updateMany({
+    where: { id, salonId, status: existing.status },
+    data: { status },
+  });
+  if (updated.count === 0) {
+    return { success: false, error: "Appointment was modified. Please refresh and try again." };
+  }
+
+  const charge = status === "CANCELLED" || status === "NO_SHOW"
+    ? await applyCancellationPolicy(id, status)
+    : null;
+
+  const appointment = await prisma.appointment.findUniqueOrThrow({
+    where: { id },
+    include: appointmentListInclude,
+  });
+
+  await logAudit({
+    action: "APPOINTMENT_STATUS_CHANGED",
+    entityType: "Appointment",
+    entityId: id,
+    userId: actor.userId,
+    userRole: actor.role,
+    salonId,
+    details: {
+      from: existing.status,
+      to: status,
+      ...(charge && { chargeId: charge.id, chargeAmount: Number(charge.amount) }),
+      ...params.auditDetails,
+    },
+  });
+
+  revalidatePath("/dashboard/appointments");
+  await invalidateDashboardCache(salonId);
+
+  if (status === "CANCELLED" && (await offerFreedSlot(appointment))) {
+    revalidatePath("/dashboard/waitlist");
+  }
+
+  return { success: true, data: appointment };
+}
+
+/** Move an appointment to a new start time (and optionally staff member). */
+export async function moveAppointment(params: {
+  id: string;
+  salonId: string;
+  startTime: Date;
+  staffId?: string;
+  actor: AppointmentActor;
+  auditDetails?: Record<string, string>;
+}): Promise<ActionResult<AppointmentWithRelations>> {
+  const { id, salonId, startTime, actor } = params;
+
+  const existing = await prisma.appointment.findFirst({
+    where: { id, salonId },
+    include: { service: { select: { duration: true } } },
+  });
+
+  if (!existing) {
+    return { success: false, error: "Appointment not found" };
+  }
+
+  if (existing.status === "COMPLETED" || existing.status === "CANCELLED") {
+    return { success: false, error: "Cannot reschedule completed or cancelled appointments" };
+  }
+
+  const staffId = params.staffId || existing.staffId;
+
+  // Calculate end time
+  const endTime = new Date(startTime);
+  endTime.setMinutes(endTime.getMinutes() + existing.service.duration);
+
+  // Check for conflicts
+  const hasConflict = await hasAppointmentConflict(prisma, {
+    salonId,
+    staffId,
+    startTime,
+    endTime,
+    excludeAppointmentId: id,
+  });
+  if (hasConflict) {
+    return { success: false, error: "This time slot conflicts with another appointment" };
+  }
+
+  const unavailable = await getUnavailableReason(prisma, { salonId, staffId, startTime, endTime });
+  if (unavailable) {
+    return { success: false, error: unavailable };
+  }
+
+  const appointment = await prisma.appointment.update({
+    where: { id },
+    data: {
+      startTime,
+      endTime,
+      staffId,
+    },
+    include: appointmentListInclude,
+  });
+
+  await logAudit({
+    action: "APPOINTMENT_RESCHEDULED",
+    entityType: "Appointment",
+    entityId: id,
+    userId: actor.userId,
+    userRole: actor.role,
+    salonId,
+    details: {
+      previousStartTime: existing.startTime.toISOString(),
+      newStartTime: startTime.toISOString(),
+      staffId,
+      ...params.auditDetails,
+    },
+  });
+
+  revalidatePath("/dashboard/appointments");
+  await invalidateDashboardCache(salonId);
+  return { success: true, data: appointment };
+}
@@ -0,0 +1,450 @@
+import "server-only";
+import { Prisma } from "@prisma/client";
+import { TZDate } from "@date-fns/tz";
+import { prisma } from "@/lib/prisma";
+import { formatInTz } from "@/lib/utils/timezone";
+
+export interface TimeSlot {
+  startTime: Date;
+  endTime: Date;
+}
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface SlotSettings {
+  timezone: string;
+  businessHoursStart: string;
+  businessHoursEnd: string;
+  appointmentInterval: number;
+}
+
+export const DEFAULT_SLOT_SETTINGS: SlotSettings = {
+  timezone: "UTC",
+  businessHoursStart: "09:00",
+  businessHoursEnd: "19:00",
+  appointmentInterval: 30,
+};
+
+export interface Interval {
+  start: number; // unix ms
+  end: number;
+}
+
+// Parse a "HH:MM" string into minutes since midnight, with fallback
+function parseTime(timeStr: string, fallback: number): number {
+  const parts = timeStr?.split(":");
+  if (!parts || parts.length !== 2) return fallback;
+  const hour = parseInt(parts[0], 10);
+  const min = parseInt(parts[1], 10);
+  if (isNaN(hour) || isNaN(min) || hour < 0 || hour > 24 || min < 0 || min > 59) {
+    return fallback;
+  }
+  return Math.min(hour * 60 + min, 24 * 60);
+}
+
+/** Parse a "yyyy-MM-dd" calendar day. */
+function parseDay(day: string): [number, number, number] {
+  const [year, month, date] = day.split("-").map(Number);
+  return [year, month - 1, date];
+}
+
+// The instant `minutes` past midnight on a salon-local day
+function atMinutes(day: string, minutes: number, tz: string): number {
+  const [year, month, date] = parseDay(day);
+  return new TZDate(year, month, date, Math.floor(minutes / 60), minutes % 60, tz).getTime();
+}
+
+/** A salon-local "yyyy-MM-dd" day as the midnight-UTC Date Prisma uses for @db.Date. */
+export function dayToDate(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+/**
+ * The instants covered by an inclusive range of @db.Date days in the salon
+ * timezone: from midnight on the first day to midnight after the last.
+ */
+export function dateRangeToInterval(startDate: Date, endDate: Date, timezone: string): Interval {
+  const start = new TZDate(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate(), timezone);
+  const end = new TZDate(endDate.getUTCFullYear(), endDate.getUTCMonth(), endDate.getUTCDate() + 1, timezone);
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+// Intersect two sorted, non-overlapping interval lists
+function intersect(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  for (const x of a) {
+    for (const y of b) {
+      const start = Math.max(x.start, y.start);
+      const end = Math.min(x.end, y.end);
+      if (start < end) result.push({ start, end });
+    }
+  }
+  return merge(result);
+}
+
+function merge(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((x, y) => x.start - y.start);
+  const result: Interval[] = [];
+  for (const interval of sorted) {
+    const last = result[result.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      result.push({ ...interval });
+    }
+  }
+  return result;
+}
+
+export interface SalonHolidayDay {
+  name: string;
+  openTime: string | null;
+  closeTime: string | null;
+}
+
+function isClosedAllDay(holiday: SalonHolidayDay): boolean {
+  return !holiday.openTime || !holiday.closeTime;
+}
+
+/**
+ * Holidays affecting a salon between two salon-local days (inclusive), keyed
+ * by day. Includes organization-wide holidays from the root salon; a salon's
+ * own entry for the same day takes precedence.
+ */
+export async function getSalonHolidays(
+  db: DbClient,
+  salonId: string,
+  fromDay: string,
+  toDay?: string
+): Promise<Map<string, SalonHolidayDay>> {
+  const salon = await db.salon.findUnique({
+    where: { id: salonId },
+    select: { parentSalonId: true },
+  });
+  const rootSalonId = salon?.parentSalonId || salonId;
+
+  const holidays = await db.salonHoliday.findMany({
+    where: {
+      date: { gte: dayToDate(fromDay), ...(toDay && { lte: dayToDate(toDay) }) },
+      OR: [{ salonId }, { salonId: rootSalonId, appliesToOrganization: true }],
+    },
+    select: { salonId: true, date: true, name: true, openTime: true, closeTime: true },
+  });
+
+  // Organization-wide entries first so the salon's own entry overwrites them
+  holidays.sort((a, b) => Number(a.salonId === salonId) - Number(b.salonId === salonId));
+
+  const result = new Map<string, SalonHolidayDay>();
+  for (const holiday of holidays) {
+    result.set(holiday.date.toISOString().slice(0, 10), {
+      name: holiday.name,
+      openTime: holiday.openTime,
+      closeTime: holiday.closeTime,
+    });
+  }
+  return result;
+}
+
+/**
+ * Days the salon is closed all day from `fromDay` onwards, as local-midnight
+ * Dates so they can be passed to calculateRecurringDates as exclusions.
+ */
+export async function getClosedDates(salonId: string, fromDay: string): Promise<Date[]> {
+  const holidays = await getSalonHolidays(prisma, salonId, fromDay);
+  return [...holidays]
+    .filter(([, holiday]) => isClosedAllDay(holiday))
+    .map(([day]) => {
+      const [year, month, date] = parseDay(day);
+      return new Date(year, month, date);
+    });
+}
+
+/**
+ * Periods the salon is closed between two salon-local days, for shading
+ * calendars: whole holidays, or the time outside reduced opening hours.
+ */
+export async function getClosurePeriods(
+  salonId: string,
+  fromDay: string,
+  toDay: string,
+  timezone: string
+): Promise<{ day: string; name: string; start: Date; end: Date }[]> {
+  const holidays = await getSalonHolidays(prisma, salonId, fromDay, toDay);
+  const periods: { day: string; name: string; start: Date; end: Date }[] = [];
+
+  for (const [day, holiday] of holidays) {
+    const dayStart = atMinutes(day, 0, timezone);
+    const dayEnd = atMinutes(day, 24 * 60, timezone);
+
+    if (isClosedAllDay(holiday)) {
+      periods.push({ day, name: holiday.name, start: new Date(dayStart), end: new Date(dayEnd) });
+      continue;
+    }
+
+    const open = atMinutes(day, parseTime(holiday.openTime!, 0), timezone);
+    const close = atMinutes(day, parseTime(holiday.closeTime!, 24 * 60), timezone);
+    if (open > dayStart) periods.push({ day, name: holiday.name, start: new Date(dayStart), end: new Date(open) });
+    if (close < dayEnd) periods.push({ day, name: holiday.name, start: new Date(close), end: new Date(dayEnd) });
+  }
+
+  return periods;
+}
+
+// Whether approved time off covers any salon-local day in the inclusive range
+async function isOnTimeOff(
+  db: DbClient,
+  params: { salonId: string; staffId: string; firstDay: string; lastDay: string }
+): Promise<boolean> {
+  const timeOff = await db.staffTimeOff.findFirst({
+    where: {
+      salonId: params.salonId,
+      staffId: params.staffId,
+      status: "APPROVED",
+      startDate: { lte: dayToDate(params.lastDay) },
+      endDate: { gte: dayToDate(params.firstDay) },
+    },
+    select: { id: true },
+  });
+
+  return !!timeOff;
+}
+
+/**
+ * Working windows for a staff member on a salon-local day.
+ *
+ * Salon holidays close the day or replace business hours, and approved time
+ * off removes the day entirely. A date-specific ScheduleOverride replaces the
+ * weekly template for that day. Otherwise staff with no Schedule rows at all
+ * fall back to business hours, so salons that don't use schedules keep
+ * working; staff with rows only work on weekdays with rows, a row with
+ * isAvailable=false marks a day off, and multiple rows (split shifts) produce
+ * multiple windows. Windows are always clipped to business hours.
+ */
+export async function getStaffWorkingWindows(params: {
+  salonId: string;
+  staffId: string;
+  day: string;
+  settings: SlotSettings;
+}): Promise<Interval[]> {
+  const { salonId, staffId, day, settings } = params;
+  const tz = settings.timezone;
+  const at = (minutes: number) => atMinutes(day, minutes, tz);
+
+  const holiday = (await getSalonHolidays(prisma, salonId, day, day)).get(day);
+  if (holiday && isClosedAllDay(holiday)) return [];
+
+  const business: Interval[] = [{
+    start: at(parseTime(holiday?.openTime ?? settings.businessHoursStart, 9 * 60)),
+    end: at(parseTime(holiday?.closeTime ?? settings.businessHoursEnd, 19 * 60)),
+  }];
+  if (business[0].start >= business[0].end) return [];
+
+  if (await isOnTimeOff(prisma, { salonId, staffId, firstDay: day, lastDay: day })) return [];
+
+  const override = await prisma.scheduleOverride.findUnique({
+    where: { salonId_staffId_date: { salonId, staffId, date: dayToDate(day) } },
+    select: { startTime: true, endTime: true, isAvailable: true },
+  });
+  if (override) {
+    if (!override.isAvailable || !override.startTime || !override.endTime) return [];
+    return intersect(
+      [{ start: at(parseTime(override.startTime, 0)), end: at(parseTime(override.endTime, 0)) }],
+      business
+    );
+  }
+
+  const schedules = await prisma.schedule.findMany({
+    where: { salonId, staffId },
+    select: { dayOfWeek: true, startTime: true, endTime: true, isAvailable: true },
+  });
+
+  if (schedules.length === 0) return business;
+
+  const [year, month, date] = parseDay(day);
+  const dayOfWeek = new TZDate(year, month, date, tz).getDay();
+  const dayRows = schedules.filter((s) => s.dayOfWeek === dayOfWeek);
+  if (dayRows.length === 0 || dayRows.some((s) => !s.isAvailable)) return [];
+
+  const shifts = merge(
+    dayRows.map((s) => ({ start: at(parseTime(s.startTime, 0)), end: at(parseTime(s.endTime, 0)) }))
+  );
+  return intersect(shifts, business);
+}
+
+/**
+ * Compute the bookable slots for a staff member on a salon-local day.
+ *
+ * Slots step by the salon's appointment interval within the staff member's
+ * working windows and skip existing appointments and slots held for
+ * waitlisted clients. Recurring-series appointments also block their series
+ * buffer after the service ends.
+ * Shared by the dashboard slot picker and the public booking portal;
+ * callers are responsible for authorization and for resolving the salon.
+ */
+export async function computeAvailableSlots(params: {
+  salonId: string;
+  staffId: string;
+  day: string; // yyyy-MM-dd in the salon timezone
+  duration: number;
+  settings: SlotSettings;
+  bufferMinutes?: number; // Extra time to keep free after the new appointment
+  excludeAppointmentId?: string;
+}): Promise<TimeSlot[]> {
+  const { salonId, staffId, day, duration, settings, excludeAppointmentId } = params;
+
+  const windows = await getStaffWorkingWindows({ salonId, staffId, day, settings });
+  if (windows.length === 0) return [];
+
+  const rangeStart = windows[0].start;
+  const rangeEnd = windows[windows.length - 1].end;
+
+  // Existing appointments overlapping the working day
+  const existingAppointments = await prisma.appointment.findMany({
+    where: {
+      salonId,
+      staffId,
+      startTime: { lt: new Date(rangeEnd) },
+      endTime: { gt: new Date(rangeStart) },
+      status: { notIn: ["CANCELLED", "NO_SHOW"] },
+      ...(excludeAppointmentId && { id: { not: excludeAppointmentId } }),
+    },
+    select: {
+      startTime: true,
+      endTime: true,
+      service: { select: { duration: true } },
+      series: { select: { bufferMinutes: true } },
+    },
+  });
+
+  // Freed slots currently offered to a waitlisted client
+  const heldOffers = await prisma.waitlistOffer.findMany({
+    where: {
+      salonId,
+      staffId,
+      status: "PENDING",
+      expiresAt: { gt: new Date() },
+      startTime: { lt: new Date(rangeEnd) },
+      endTime: { gt: new Date(rangeStart) },
+    },
+    select: { startTime: true, endTime: true },
+  });
+
+  const busy = merge([
+    ...existingAppointments.map((apt) => {
+      const start = apt.startTime.getTime();
+      const bufferedEnd = apt.series
+        ? start + (apt.service.duration + apt.series.bufferMinutes) * MINUTE_MS
+        : 0;
+      return { start, end: Math.max(apt.endTime.getTime(), bufferedEnd) };
+    }),
+    ...heldOffers.map((offer) => ({ start: offer.startTime.getTime(), end: offer.endTime.getTime() })),
+  ]);
+
+  const step = Math.max(5, settings.appointmentInterval || 30) * MINUTE_MS;
+  const length = duration * MINUTE_MS;
+  const blockedLength = (duration + (params.bufferMinutes ?? 0)) * MINUTE_MS;
+  const slots: TimeSlot[] = [];
+
+  for (const window of windows) {
+    for (let start = window.start; start + blockedLength <= window.end; start += step) {
+      const blockedEnd = start + blockedLength;
+      const hasConflict = busy.some((b) => start < b.end && blockedEnd > b.start);
+      if (!hasConflict) {
+        slots.push({ startTime: new Date(start), endTime: new Date(start + length) });
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Check whether a staff member already has an active appointment overlapping
+ * the given window. Accepts a transaction client so bookings can re-check
+ * inside the transaction that creates them.
+ */
+export async function hasAppointmentConflict(
+  db: DbClient,
+  params: { salonId: string; staffId: string; startTime: Date; endTime: Date; excludeAppointmentId?: string }
+): Promise<boolean> {
+  const { salonId, staffId, startTime, endTime, excludeAppointmentId } = params;
+  const conflict = await db.appointment.findFirst({
+    where: {
+      salonId,
+      staffId,
+      ...(excludeAppointmentId && { id: { not: excludeAppointmentId } }),
+      status: { notIn: ["CANCELLED", "NO_SHOW"] },
+      startTime: { lt: endTime },
+      endTime: { gt: startTime },
+    },
+    select: { id: true },
+  });
+
+  return !!conflict;
+}
+
+/**
+ * Why a staff member can't be booked for the given window, or null if they
+ * can: the salon is closed or on reduced hours for a holiday, the staff
+ * member has approved time off, or the time is held for a waitlisted client
+ * (pass `excludeWaitlistOfferId` when that client is the one booking).
+ * Checks every salon-local day the window touches. Accepts a transaction
+ * client so bookings can re-check inside the transaction that creates them.
+ */
+export async function getUnavailableReason(
+  db: DbClient,
+  params: {
+    salonId: string;
+    staffId: string;
+    startTime: Date;
+    endTime: Date;
+    excludeWaitlistOfferId?: string;
+  }
+): Promise<string | null> {
+  const { salonId, staffId, startTime, endTime, excludeWaitlistOfferId } = params;
+  const settings = await db.settings.findUnique({
+    where: { salonId },
+    select: { timezone: true },
+  });
+  const tz = settings?.timezone ?? DEFAULT_SLOT_SETTINGS.timezone;
+
+  // End is exclusive, so an appointment ending at midnight stays on its own day
+  const firstDay = formatInTz(startTime, "yyyy-MM-dd", tz);
+  const lastDay = formatInTz(new Date(Math.max(startTime.getTime(), endTime.getTime() - 1)), "yyyy-MM-dd", tz);
+
+  const holidays = await getSalonHolidays(db, salonId, firstDay, lastDay);
+  for (const [day, holiday] of holidays) {
+    if (isClosedAllDay(holiday)) {
+      return `The salon is closed on this date (${holiday.name})`;
+    }
+    const open = atMinutes(day, parseTime(holiday.openTime!, 0), tz);
+    const close = atMinutes(day, parseTime(holiday.closeTime!, 24 * 60), tz);
+    if (startTime.getTime() < open || endTime.getTime() > close) {
+      return `The salon has reduced hours on this date (${holiday.openTime} - ${holiday.closeTime})`;
+    }
+  }
+
+  if (await isOnTimeOff(db, { salonId, staffId, firstDay, lastDay })) {
+    return "Staff member is on approved time off on this date";
+  }
+
+  const heldOffer = await db.waitlistOffer.findFirst({
+    where: {
+      salonId,
+      staffId,
+      status: "PENDING",
+      expiresAt: { gt: new Date() },
+      startTime: { lt: endTime },
+      endTime: { gt: startTime },
+      ...(excludeWaitlistOfferId && { id: { not: excludeWaitlistOfferId } }),
+    },
+    select: { expiresAt: true },
+  });
+  if (heldOffer) {
+    return `This time is being held for a waitlisted client until ${formatInTz(heldOffer.expiresAt, "h:mm a", tz)}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,95 @@
+import "server-only";
+import { CashMovementType, PaymentMethod, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { CashDrawerTotals, expectedCash } from "@/lib/utils/cash-drawer";
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface DrawerPaymentSummary {
+  method: PaymentMethod;
+  count: number;
+  amount: number;
+}
+
+/**
+ * The part of a refund paid back in cash: what gift cards didn't take back,
+ * up to the cash paid on the invoice that earlier refunds haven't returned.
+ */
+export async function cashRefundAmount(
+  tx: Prisma.TransactionClient,
+  params: { invoiceId: string; refundId: string; amount: number }
+): Promise<number> {
+  const [cashPaid, cashRefunded] = await Promise.all([
+    tx.payment.aggregate({
+      where: { invoiceId: params.invoiceId, method: PaymentMethod.CASH },
+      _sum: { amount: true },
+    }),
+    tx.refund.aggregate({
+      where: { invoiceId: params.invoiceId, id: { not: params.refundId } },
+      _sum: { cashAmount: true },
+    }),
+  ]);
+  const available = Number(cashPaid._sum.amount ?? 0) - Number(cashRefunded._sum.cashAmount ?? 0);
+  return Math.round(Math.max(0, Math.min(params.amount, available)) * 100) / 100;
+}
+
+/**
+ * What went through a branch's till while a drawer session was open: cash
+ * taken (sales, deposits and fees) and paid back on refunds and returned
+ * deposits, the session's pay-ins and pay-outs, and every payment method for
+ * the Z report.
+ */
+export async function cashDrawerTotals(
+  db: DbClient,
+  session: {
+    salonId: string;
+    openedAt: Date;
+    closedAt: Date | null;
+    openingFloat: Prisma.Decimal;
+    movements: { type: CashMovementType; amount: Prisma.Decimal }[];
+  }
+): Promise<{ totals: CashDrawerTotals; payments: DrawerPaymentSummary[]; cashRefundCount: number }> {
+  const window = { gte: session.openedAt, ...(session.closedAt && { lte: session.closedAt }) };
+
+  const [payments, refunds, depositRefunds] = await Promise.all([
+    db.payment.groupBy({
+      by: ["method"],
+      where: { salonId: session.salonId, paidAt: window },
+      _sum: { amount: true },
+      _count: true,
+    }),
+    db.refund.aggregate({
+      where: { invoice: { salonId: session.salonId }, createdAt: window, cashAmount: { gt: 0 } },
+      _sum: { cashAmount: true },
+      _count: true,
+    }),
+    db.payment.aggregate({
+      where: { salonId: session.salonId, type: "DEPOSIT", refundMethod: PaymentMethod.CASH, refundedAt: window },
+      _sum: { amount: true },
+      _count: true,
+    }),
+  ]);
+
+  const movementTotal = (type: CashMovementType) =>
+    session.movements
+      .filter((m) => m.type === type)
+      .reduce((sum, m) => sum + Math.round(Number(m.amount) * 100), 0) / 100;
+
+  const base = {
+    openingFloat: Number(session.openingFloat),
+    cashSales: Number(payments.find((p) => p.method === PaymentMethod.CASH)?._sum.amount ?? 0),
+    cashRefunds:
+      (Math.round(Number(refunds._sum.cashAmount ?? 0) * 100) +
+        Math.round(Number(depositRefunds._sum.amount ?? 0) * 100)) / 100,
+    payIns: movementTotal(CashMovementType.PAY_IN),
+    payOuts: movementTotal(CashMovementType.PAY_OUT),
+  };
+
+  return {
+    totals: { ...base, expected: expectedCash(base) },
+    payments: payments
+      .map((p) => ({ method: p.method, count: p._count, amount: Number(p._sum.amount ?? 0) }))
+      .sort((a, b) => b.amount - a.amount),
+    cashRefundCount: refunds._count + depositRefunds._count,
+  };
+}
@@ -0,0 +1,207 @@
+import "server-only";
+import { Prisma } from "@prisma/client";
+import { dateRangeToInterval } from "@/lib/availability";
+import { CommissionRates, commissionAmount, commissionRateFor } from "@/lib/utils/commission";
+import { excludingTax } from "@/lib/utils/tax";
+
+/**
+ * Staff commissions for a payroll period. Service and retail lines on sales
+ * paid in the period earn commission for whoever performed them (retail
+ * without a staff member goes to whoever rang up the sale) under the plan
+ * assigned to them at the branch. Revenue is the line total less its share
+ * of sale-level discounts and any tax included in its price. Refunds issued
+ * in the period claw back the same share of the commission earned on the
+ * refunded sale, or on just the lines returned, whichever period it was
+ * earned in. Lines already counted in another non-cancelled run are
+ * skipped, so overlapping runs never pay twice.
+ */
+
+export interface CommissionLineDraft {
+  saleItemId: string;
+  refundId: string | null;
+  revenue: number;
+  rate: number;
+  amount: number;
+}
+
+export interface StaffCommission {
+  commission: number;
+  lines: CommissionLineDraft[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Lines in runs that still count towards pay
+const liveRunLine = { payrollEntry: { payrollRun: { status: { not: "CANCELLED" as const } } } };
+
+export async function calculateCommissions(
+  tx: Prisma.TransactionClient,
+  params: { salonId: string; periodStart: Date; periodEnd: Date; timezone: string }
+): Promise<Map<string, StaffCommission>> {
+  const interval = dateRangeToInterval(params.periodStart, params.periodEnd, params.timezone);
+  const inPeriod = { gte: new Date(interval.start), lt: new Date(interval.end) };
+
+  const assignments = await tx.userSalon.findMany({
+    where: { salonId: params.salonId, commissionPlan: { isActive: true } },
+    select: {
+      userId: true,
+      commissionPlan: {
+        select: {
+          serviceRate: true,
+          retailRate: true,
+          tiers: { select: { minRevenue: true, rate: true } },
+          serviceRates: { select: { serviceId: true, rate: true } },
+        },
+      },
+    },
+  });
+
+  const plans = new Map<string, CommissionRates>();
+  for (const assignment of assignments) {
+    const plan = assignment.commissionPlan;
+    if (!plan) continue;
+    plans.set(assignment.userId, {
+      serviceRate: Number(plan.serviceRate),
+      retailRate: Number(plan.retailRate),
+      tiers: plan.tiers.map((t) => ({ minRevenue: Number(t.minRevenue), rate: Number(t.rate) })),
+      serviceRates: plan.serviceRates.map((r) => ({ serviceId: r.serviceId, rate: Number(r.rate) })),
+    });
+  }
+
+  const result = new Map<string, StaffCommission>();
+  const entryFor = (userId: string) => {
+    let entry = result.get(userId);
+    if (!entry) {
+      entry = { commission: 0, lines: [] };
+      result.set(userId, entry);
+    }
+    return entry;
+  };
+
+  // Earnings: paid sales in the period
+  const items = await tx.saleItem.findMany({
+    where: {
+      salonId: params.salonId,
+      price: { gt: 0 },
+      OR: [{ serviceId: { not: null } }, { productId: { not: null } }],
+      sale: { invoice: { status: { in: ["PAID", "REFUNDED"] }, paidAt: inPeriod } },
+      commissionLines: { none: { refundId: null, ...liveRunLine } },
+    },
+    select: {
+      id: true,
+      saleId: true,
+      serviceId: true,
+      productId: true,
+      staffId: true,
+      price: true,
+      quantity: true,
+      discount: true,
+      taxRate: true,
+      taxInclusive: true,
+      sale: { select: { staffId: true, totalAmount: true, promotionDiscount: true, finalAmount: true } },
+    },
+  });
+
+  const earned = items
+    .map((item) => {
+      const userId = item.staffId ?? (item.productId ? item.sale.staffId : null);
+      // Promotion discounts sit on their lines; other discounts are shared across the sale
+      const total = Number(item.sale.totalAmount) - Number(item.sale.promotionDiscount);
+      const share = total > 0 ? Number(item.sale.finalAmount) / total : 0;
+      const gross = (Number(item.price) * item.quantity - Number(item.discount)) * share;
+      const revenue = excludingTax(gross, {
+        taxRate: item.taxRate != null ? Number(item.taxRate) : null,
+        taxInclusive: item.taxInclusive,
+      });
+      return { item, userId, revenue: round2(revenue) };
+    })
+    .filter((e): e is typeof e & { userId: string } => !!e.userId && plans.has(e.userId) && e.revenue > 0);
+
+  // Tiers are reached on service revenue for the whole period
+  const serviceRevenue = new Map<string, number>();
+  for (const e of earned) {
+    if (e.item.serviceId) {
+      serviceRevenue.set(e.userId, (serviceRevenue.get(e.userId) ?? 0) + e.revenue);
+    }
+  }
+
+  // Earned lines by sale, for clawing back refunds on sales paid in this same period
+  const earnedBySale = new Map<string, { userId: string; line: CommissionLineDraft }[]>();
+  for (const e of earned) {
+    const rate = commissionRateFor(plans.get(e.userId)!, e.item, serviceRevenue.get(e.userId) ?? 0);
+    if (rate <= 0) continue;
+    const line: CommissionLineDraft = {
+      saleItemId: e.item.id,
+      refundId: null,
+      revenue: e.revenue,
+      rate,
+      amount: commissionAmount(e.revenue, rate),
+    };
+    entryFor(e.userId).lines.push(line);
+    const bySale = earnedBySale.get(e.item.saleId) ?? [];
+    bySale.push({ userId: e.userId, line });
+    earnedBySale.set(e.item.saleId, bySale);
+  }
+
+  // Clawbacks: refunds issued in the period not yet clawed back
+  const refunds = await tx.refund.findMany({
+    where: {
+      createdAt: inPeriod,
+      invoice: { salonId: params.salonId },
+      commissionLines: { none: liveRunLine },
+    },
+    select: {
+      id: true,
+      amount: true,
+      invoice: { select: { saleId: true, total: true } },
+      items: { select: { saleItemId: true, quantity: true, saleItem: { select: { quantity: true } } } },
+    },
+  });
+
+  for (const refund of refunds) {
+    const invoiceTotal = Number(refund.invoice.total);
+    if (invoiceTotal <= 0) continue;
+    // Line refunds claw back only the units returned; amount refunds a share of every line
+    const returned = new Map(refund.items.map((i) => [i.saleItemId, i.quantity / i.saleItem.quantity]));
+    const invoiceFraction = Math.min(1, Number(refund.amount) / invoiceTotal);
+    const fractionFor = (saleItemId: string) =>
+      refund.items.length > 0 ? Math.min(1, returned.get(saleItemId) ?? 0) : invoiceFraction;
+
+    const paidBefore = await tx.payrollCommissionLine.findMany({
+      where: { refundId: null, saleItem: { saleId: refund.invoice.saleId }, ...liveRunLine },
+      select: {
+        saleItemId: true,
+        revenue: true,
+        rate: true,
+        amount: true,
+        payrollEntry: { select: { userId: true } },
+      },
+    });
+    const original = [
+      ...paidBefore.map((l) => ({
+        userId: l.payrollEntry.userId,
+        line: { saleItemId: l.saleItemId, revenue: Number(l.revenue), rate: Number(l.rate), amount: Number(l.amount) },
+      })),
+      ...(earnedBySale.get(refund.invoice.saleId) ?? []),
+    ];
+
+    for (const { userId, line } of original) {
+      const fraction = fractionFor(line.saleItemId);
+      const amount = round2(line.amount * fraction);
+      if (amount <= 0) continue;
+      entryFor(userId).lines.push({
+        saleItemId: line.saleItemId,
+        refundId: refund.id,
+        revenue: -round2(line.revenue * fraction),
+        rate: line.rate,
+        amount: -amount,
+      });
+    }
+  }
+
+  for (const entry of result.values()) {
+    entry.commission = round2(entry.lines.reduce((sum, l) => sum + l.amount, 0));
+  }
+
+  return result;
+}
@@ -1,9 +1,11 @@
 import {
+  ArrowLeftRight,
   Banknote,
   CreditCard,
   Wallet,
   Receipt,
   Star,
+  Gift,
 } from "lucide-react";
 import { PaymentMethod } from "@prisma/client";
 
@@ -12,6 +14,8 @@ export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
   CARD: "Card",
   DIGITAL_WALLET: "Digital Wallet",
   LOYALTY_POINTS: "Loyalty Points",
+  GIFT_CARD: "Gift Card",
+  EXCHANGE_CREDIT: "Exchange Credit",
   OTHER: "Other",
 };
 
@@ -20,10 +24,12 @@ const METHOD_ICONS: Record<PaymentMethod, React.ComponentType<{ className?: stri
   CARD: CreditCard,
   DIGITAL_WALLET: Wallet,
   LOYALTY_POINTS: Star,
+  GIFT_CARD: Gift,
+  EXCHANGE_CREDIT: ArrowLeftRight,
   OTHER: Receipt,
 };
 
-/** Payment methods available for selection in checkout (excludes LOYALTY_POINTS, which is handled separately via point redemption). */
+/** Payment methods available for selection in checkout (excludes LOYALTY_POINTS, GIFT_CARD and EXCHANGE_CREDIT, which are handled separately via point redemption, gift card codes and exchanges). */
 export const SELECTABLE_PAYMENT_METHODS: PaymentMethod[] = [
   PaymentMethod.CASH,
   PaymentMethod.CARD,
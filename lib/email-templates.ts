@@ -14,7 +14,9 @@ interface ReceiptEmailData {
   subtotal: number;
   discount: number;
   tax: number;
+  taxLines?: InvoiceTaxLine[]; // Per-rate breakdown; older invoices only have the total
   total: number;
+  tip?: number;
   currencyCode: string;
   paymentMethods: string[];
 }
@@ -34,11 +36,93 @@ interface InvoiceEmailData {
   subtotal: number;
   discount: number;
   tax: number;
+  taxLines?: InvoiceTaxLine[]; // Per-rate breakdown; older invoices only have the total
   total: number;
+  tip?: number;
   currencyCode: string;
 }
 
+interface StatementInvoice {
+  invoiceNumber: string;
+  date: string;
+  dueDate: string;
+  total: number;
+  paid: number;
+  balance: number;
+  overdue: boolean;
+}
+
+interface StatementEmailData {
+  salonName: string;
+  salonAddress?: string | null;
+  salonPhone?: string | null;
+  salonEmail?: string | null;
+  clientName: string;
+  date: string;
+  invoices: StatementInvoice[];
+  outstanding: number;
+  overdue: number;
+  currencyCode: string;
+}
+
+interface BookingVerificationEmailData {
+  salonName: string;
+  clientName: string;
+  code: string;
+  expiresInMinutes: number;
+  serviceName: string;
+  staffName: string;
+  dateTime: string;
+}
+
+interface BookingConfirmationEmailData {
+  salonName: string;
+  clientName: string;
+  serviceName: string;
+  staffName: string;
+  dateTime: string;
+  salonAddress?: string | null;
+  salonPhone?: string | null;
+  manageUrl?: string;
+}
+
+interface AppointmentReminderEmailData {
+  salonName: string;
+  clientName: string;
+  serviceName: string;
+  staffName: string;
+  dateTime: string;
+  salonAddress?: string | null;
+  salonPhone?: string | null;
+  manageUrl?: string;
+}
+
+interface WaitlistOfferEmailData {
+  salonName: string;
+  clientName: string;
+  serviceName: string;
+  staffName: string;
+  dateTime: string;
+  holdUntil: string;
+  salonAddress?: string | null;
+  claimUrl: string;
+}
+
+interface StockAlertEmailData {
+  salonName: string;
+  recipientName: string;
+  products: {
+    name: string;
+    sku: string | null;
+    stock: number;
+    lowStockThreshold: number;
+    daysOfCover: number | null;
+  }[];
+  reorderUrl: string;
+}
+
 import { formatCurrencyHtml } from "@/lib/utils/currency";
+import { InvoiceTaxLine, taxLineLabel } from "@/lib/utils/tax";
 
 function escapeHtml(str: string): string {
   return str
@@ -62,6 +146,21 @@ function itemRows(items: ReceiptItem[], currencyCode: string): string {
     .join("");
 }
 
+function taxRows(tax: number, taxLines: InvoiceTaxLine[] | undefined, currencyCode: string): string {
+  const lines = taxLines && taxLines.length > 0
+    ? taxLines.map((line) => ({ label: taxLineLabel(line), amount: line.amount }))
+    : tax > 0 ? [{ label: "Tax", amount: tax }] : [];
+  return lines
+    .map(
+      (line) => `
+              <tr>
+                <td style="font-size: 14px; color: #6b7280; padding: 4px 0;">${escapeHtml(line.label)}</td>
+                <td style="font-size: 14px; text-align: right; padding: 4px 0;">${formatCurrencyHtml(line.amount, currencyCode)}</td>
+              </tr>`
+    )
+    .join("");
+}
+
 export function receiptEmailHtml(data: ReceiptEmailData): string {
   return `
 <!DOCTYPE html>
@@ -134,15 +233,20 @@ export function receiptEmailHtml(data: ReceiptEmailData): string {
                 <td style="font-size: 14px; color: #16a34a; padding: 4px 0;">Discount</td>
                 <td style="font-size: 14px; color: #16a34a; text-align: right; padding: 4px 0;">-${formatCurrencyHtml(data.discount, data.currencyCode)}</td>
               </tr>` : ''}
-              ${data.tax > 0 ? `
-              <tr>
-                <td style="font-size: 14px; color: #6b7280; padding: 4px 0;">Tax</td>
-                <td style="font-size: 14px; text-align: right; padding: 4px 0;">${formatCurrencyHtml(data.tax, data.currencyCode)}</td>
-              </tr>` : ''}
+              ${taxRows(data.tax, data.taxLines, data.currencyCode)}
               <tr>
                 <td style="font-size: 18px; font-weight: bold; color: #8b5cf6; padding: 12px 0 0; border-top: 1px solid #e5e7eb;">Total</td>
                 <td style="font-size: 18px; font-weight: bold; color: #8b5cf6; text-align: right; padding: 12px 0 0; border-top: 1px solid #e5e7eb;">${formatCurrencyHtml(data.total, data.currencyCode)}</td>
               </tr>
+              ${data.tip ? `
+              <tr>
+                <td style="font-size: 14px; color: #6b7280; padding: 8px 0 4px;">Tip</td>
+                <td style="font-size: 14px; text-align: right; padding: 8px 0 4px;">${formatCurrencyHtml(data.tip, data.currencyCode)}</td>
+              </tr>
+              <tr>
+                <td style="font-size: 14px; font-weight: bold; padding: 4px 0;">Total Paid</td>
+                <td style="font-size: 14px; font-weight: bold; text-align: right; padding: 4px 0;">${formatCurrencyHtml(data.total + data.tip, data.currencyCode)}</td>
+              </tr>` : ''}
             </table>
           </td>
         </tr>
@@ -212,6 +316,11 @@ export function invoiceEmailHtml(data: InvoiceEmailData): string {
                 <td style="font-size: 13px; color: #6b7280;">Status</td>
                 <td style="font-size: 13px; font-weight: bold; text-align: right; color: ${statusColor};">${statusLabel}</td>
               </tr>
+              ${data.dueDate ? `
+              <tr>
+                <td style="font-size: 13px; color: #6b7280;">Due Date</td>
+                <td style="font-size: 13px; text-align: right;">${escapeHtml(data.dueDate)}</td>
+              </tr>` : ''}
             </table>
           </td>
         </tr>
@@ -257,15 +366,20 @@ export function invoiceEmailHtml(data: InvoiceEmailData): string {
                 <td style="font-size: 14px; color: #16a34a; padding: 4px 0;">Discount</td>
                 <td style="font-size: 14px; color: #16a34a; text-align: right; padding: 4px 0;">-${formatCurrencyHtml(data.discount, data.currencyCode)}</td>
               </tr>` : ''}
-              ${data.tax > 0 ? `
-              <tr>
-                <td style="font-size: 14px; color: #6b7280; padding: 4px 0;">Tax</td>
-                <td style="font-size: 14px; text-align: right; padding: 4px 0;">${formatCurrencyHtml(data.tax, data.currencyCode)}</td>
-              </tr>` : ''}
+              ${taxRows(data.tax, data.taxLines, data.currencyCode)}
               <tr>
                 <td style="font-size: 18px; font-weight: bold; color: #8b5cf6; padding: 12px 0 0; border-top: 1px solid #e5e7eb;">Total</td>
                 <td style="font-size: 18px; font-weight: bold; color: #8b5cf6; text-align: right; padding: 12px 0 0; border-top: 1px solid #e5e7eb;">${formatCurrencyHtml(data.total, data.currencyCode)}</td>
               </tr>
+              ${data.tip ? `
+              <tr>
+                <td style="font-size: 14px; color: #6b7280; padding: 8px 0 4px;">Tip</td>
+                <td style="font-size: 14px; text-align: right; padding: 8px 0 4px;">${formatCurrencyHtml(data.tip, data.currencyCode)}</td>
+              </tr>
+              <tr>
+                <td style="font-size: 14px; font-weight: bold; padding: 4px 0;">Total Paid</td>
+                <td style="font-size: 14px; font-weight: bold; text-align: right; padding: 4px 0;">${formatCurrencyHtml(data.total + data.tip, data.currencyCode)}</td>
+              </tr>` : ''}
             </table>
           </td>
         </tr>
@@ -283,3 +397,272 @@ export function invoiceEmailHtml(data: InvoiceEmailData): string {
 </body>
 </html>`;
 }
+
+// Shared layout for short transactional emails (booking, reminders)
+function emailShell(salonName: string, subtitle: string, body: string): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8" /></head>
+<body style="margin: 0; padding: 0; background-color: #f3f4f6; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f3f4f6; padding: 40px 0;">
+    <tr><td align="center">
+      <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+        <!-- Header -->
+        <tr>
+          <td style="background-color: #8b5cf6; padding: 32px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 24px;">${escapeHtml(salonName)}</h1>
+            <p style="color: #e9d5ff; margin: 8px 0 0; font-size: 14px;">${escapeHtml(subtitle)}</p>
+          </td>
+        </tr>
+        ${body}
+        <!-- Footer -->
+        <tr>
+          <td style="background-color: #f9fafb; padding: 24px 32px; text-align: center; border-top: 1px solid #e5e7eb;">
+            <p style="margin: 0; font-size: 12px; color: #9ca3af;">${escapeHtml(salonName)}</p>
+          </td>
+        </tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
+
+function actionButton(url: string, label: string): string {
+  return `
+            <p style="margin: 24px 0 0; text-align: center;">
+              <a href="${escapeHtml(url)}" style="display: inline-block; background-color: #8b5cf6; color: #ffffff; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-size: 14px; font-weight: 600;">${escapeHtml(label)}</a>
+            </p>`;
+}
+
+function detailRows(rows: [string, string | null | undefined][]): string {
+  return rows
+    .filter(([, value]) => !!value)
+    .map(
+      ([label, value]) => `
+              <tr>
+                <td style="font-size: 13px; color: #6b7280; padding: 2px 0;">${escapeHtml(label)}</td>
+                <td style="font-size: 13px; text-align: right; padding: 2px 0;">${escapeHtml(value as string)}</td>
+              </tr>`
+    )
+    .join("");
+}
+
+export function bookingVerificationEmailHtml(data: BookingVerificationEmailData): string {
+  return emailShell(
+    data.salonName,
+    "Confirm Your Booking",
+    `
+        <tr>
+          <td style="padding: 32px 32px 16px;">
+            <p style="margin: 0; font-size: 16px; color: #111827;">Hi ${escapeHtml(data.clientName)},</p>
+            <p style="margin: 8px 0 0; font-size: 14px; color: #6b7280;">Enter this code to confirm your appointment. It expires in ${data.expiresInMinutes} minutes.</p>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 32px 16px; text-align: center;">
+            <p style="margin: 0; font-size: 32px; font-weight: bold; letter-spacing: 8px; color: #8b5cf6;">${escapeHtml(data.code)}</p>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 32px 32px;">
+            <table width="100%" style="background-color: #f9fafb; border-radius: 6px; padding: 16px;">
+              ${detailRows([
+                ["Service", data.serviceName],
+                ["With", data.staffName],
+                ["When", data.dateTime],
+              ])}
+            </table>
+            <p style="margin: 16px 0 0; font-size: 12px; color: #9ca3af;">If you didn&rsquo;t request this booking, you can ignore this email.</p>
+          </td>
+        </tr>`
+  );
+}
+
+export function bookingConfirmationEmailHtml(data: BookingConfirmationEmailData): string {
+  return emailShell(
+    data.salonName,
+    "Appointment Confirmed",
+    `
+        <tr>
+          <td style="padding: 32px 32px 16px;">
+            <p style="margin: 0; font-size: 16px; color: #111827;">Hi ${escapeHtml(data.clientName)},</p>
+            <p style="margin: 8px 0 0; font-size: 14px; color: #6b7280;">Your appointment is booked. We look forward to seeing you!</p>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 32px 32px;">
+            <table width="100%" style="background-color: #f9fafb; border-radius: 6px; padding: 16px;">
+              ${detailRows([
+                ["Service", data.serviceName],
+                ["With", data.staffName],
+                ["When", data.dateTime],
+                ["Where", data.salonAddress],
+                ["Phone", data.salonPhone],
+              ])}
+            </table>${data.manageUrl ? actionButton(data.manageUrl, "Manage Appointment") : ""}
+          </td>
+        </tr>`
+  );
+}
+
+export function appointmentReminderEmailHtml(data: AppointmentReminderEmailData): string {
+  return emailShell(
+    data.salonName,
+    "Appointment Reminder",
+    `
+        <tr>
+          <td style="padding: 32px 32px 16px;">
+            <p style="margin: 0; font-size: 16px; color: #111827;">Hi ${escapeHtml(data.clientName)},</p>
+            <p style="margin: 8px 0 0; font-size: 14px; color: #6b7280;">This is a reminder of your upcoming appointment.</p>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 32px 32px;">
+            <table width="100%" style="background-color: #f9fafb; border-radius: 6px; padding: 16px;">
+              ${detailRows([
+                ["Service", data.serviceName],
+                ["With", data.staffName],
+                ["When", data.dateTime],
+                ["Where", data.salonAddress],
+                ["Phone", data.salonPhone],
+              ])}
+            </table>${data.manageUrl
+              ? actionButton(data.manageUrl, "Confirm or Change Appointment")
+              : `
+            <p style="margin: 16px 0 0; font-size: 12px; color: #9ca3af;">Need to make a change? Please contact the salon.</p>`}
+          </td>
+        </tr>`
+  );
+}
+
+export function waitlistOfferEmailHtml(data: WaitlistOfferEmailData): string {
+  return emailShell(
+    data.salonName,
+    "A Spot Opened Up",
+    `
+        <tr>
+          <td style="padding: 32px 32px 16px;">
+            <p style="margin: 0; font-size: 16px; color: #111827;">Hi ${escapeHtml(data.clientName)},</p>
+            <p style="margin: 8px 0 0; font-size: 14px; color: #6b7280;">Good news &mdash; an appointment you were waiting for is available. We&rsquo;re holding it for you until ${escapeHtml(data.holdUntil)}.</p>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 32px 32px;">
+            <table width="100%" style="background-color: #f9fafb; border-radius: 6px; padding: 16px;">
+              ${detailRows([
+                ["Service", data.serviceName],
+                ["With", data.staffName],
+                ["When", data.dateTime],
+                ["Where", data.salonAddress],
+              ])}
+            </table>${actionButton(data.claimUrl, "Book This Time")}
+            <p style="margin: 16px 0 0; font-size: 12px; color: #9ca3af;">If the time doesn&rsquo;t suit you, you can decline from the same page and stay on the waitlist.</p>
+          </td>
+        </tr>`
+  );
+}
+
+export function statementEmailHtml(data: StatementEmailData): string {
+  const rows = data.invoices
+    .map(
+      (invoice, i) => `
+              <tr style="border-bottom: 1px solid #e5e7eb;${i % 2 === 1 ? ' background-color: #f9fafb;' : ''}">
+                <td style="padding: 10px 12px; font-size: 13px;">${escapeHtml(invoice.invoiceNumber)}<br/><span style="color: #6b7280; font-size: 12px;">${escapeHtml(invoice.date)}</span></td>
+                <td style="padding: 10px 12px; font-size: 13px;${invoice.overdue ? ' color: #dc2626; font-weight: 600;' : ''}">${escapeHtml(invoice.dueDate)}${invoice.overdue ? '<br/><span style="font-size: 12px;">Overdue</span>' : ''}</td>
+                <td style="padding: 10px 12px; text-align: right; font-size: 13px;">${formatCurrencyHtml(invoice.total, data.currencyCode)}</td>
+                <td style="padding: 10px 12px; text-align: right; font-size: 13px;">${formatCurrencyHtml(invoice.paid, data.currencyCode)}</td>
+                <td style="padding: 10px 12px; text-align: right; font-size: 13px; font-weight: 600;">${formatCurrencyHtml(invoice.balance, data.currencyCode)}</td>
+              </tr>`
+    )
+    .join("");
+
+  return emailShell(
+    data.salonName,
+    `Statement of Account — ${data.date}`,
+    `
+        <tr>
+          <td style="padding: 32px 32px 16px;">
+            <p style="margin: 0; font-size: 16px; color: #111827;">Hi ${escapeHtml(data.clientName)},</p>
+            <p style="margin: 8px 0 0; font-size: 14px; color: #6b7280;">Here is a summary of the invoices on your account that are still open.${data.overdue > 0 ? ' Some of them are past their due date &mdash; please arrange payment at your earliest convenience.' : ''}</p>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 32px 16px;">
+            <table width="100%" cellpadding="0" cellspacing="0" style="border: 1px solid #e5e7eb; border-radius: 6px; overflow: hidden;">
+              <tr style="background-color: #8b5cf6;">
+                <th style="padding: 10px 12px; text-align: left; color: #ffffff; font-size: 12px; font-weight: 600;">Invoice</th>
+                <th style="padding: 10px 12px; text-align: left; color: #ffffff; font-size: 12px; font-weight: 600;">Due</th>
+                <th style="padding: 10px 12px; text-align: right; color: #ffffff; font-size: 12px; font-weight: 600;">Total</th>
+                <th style="padding: 10px 12px; text-align: right; color: #ffffff; font-size: 12px; font-weight: 600;">Paid</th>
+                <th style="padding: 10px 12px; text-align: right; color: #ffffff; font-size: 12px; font-weight: 600;">Balance</th>
+              </tr>
+              ${rows}
+            </table>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 32px 32px;">
+            <table width="100%" style="border-top: 2px solid #e5e7eb; padding-top: 12px;">
+              ${data.overdue > 0 ? `
+              <tr>
+                <td style="font-size: 14px; color: #dc2626; padding: 4px 0;">Overdue</td>
+                <td style="font-size: 14px; color: #dc2626; text-align: right; padding: 4px 0;">${formatCurrencyHtml(data.overdue, data.currencyCode)}</td>
+              </tr>` : ''}
+              <tr>
+                <td style="font-size: 18px; font-weight: bold; color: #8b5cf6; padding: 12px 0 0;">Balance Due</td>
+                <td style="font-size: 18px; font-weight: bold; color: #8b5cf6; text-align: right; padding: 12px 0 0;">${formatCurrencyHtml(data.outstanding, data.currencyCode)}</td>
+              </tr>
+            </table>
+            <table width="100%" style="margin-top: 16px;">
+              ${detailRows([
+                ["Phone", data.salonPhone],
+                ["Email", data.salonEmail],
+                ["Address", data.salonAddress],
+              ])}
+            </table>
+            <p style="margin: 16px 0 0; font-size: 12px; color: #9ca3af;">If you have already paid, thank you &mdash; please disregard this statement.</p>
+          </td>
+        </tr>`
+  );
+}
+
+export function stockAlertEmailHtml(data: StockAlertEmailData): string {
+  const rows = data.products
+    .map(
+      (product, i) => `
+              <tr style="border-bottom: 1px solid #e5e7eb;${i % 2 === 1 ? ' background-color: #f9fafb;' : ''}">
+                <td style="padding: 10px 12px; font-size: 13px;">${escapeHtml(product.name)}${product.sku ? `<br/><span style="color: #6b7280; font-size: 12px;">${escapeHtml(product.sku)}</span>` : ''}</td>
+                <td style="padding: 10px 12px; text-align: right; font-size: 13px;${product.stock === 0 ? ' color: #dc2626; font-weight: 600;' : ''}">${product.stock}</td>
+                <td style="padding: 10px 12px; text-align: right; font-size: 13px;">${product.lowStockThreshold}</td>
+                <td style="padding: 10px 12px; text-align: right; font-size: 13px;">${product.daysOfCover === null ? '&mdash;' : `${product.daysOfCover} days`}</td>
+              </tr>`
+    )
+    .join("");
+
+  return emailShell(
+    data.salonName,
+    "Low Stock Alert",
+    `
+        <tr>
+          <td style="padding: 32px 32px 16px;">
+            <p style="margin: 0; font-size: 16px; color: #111827;">Hi ${escapeHtml(data.recipientName)},</p>
+            <p style="margin: 8px 0 0; font-size: 14px; color: #6b7280;">${data.products.length === 1 ? 'A product has' : `${data.products.length} products have`} fallen to the low-stock threshold. Days of cover is how long what&rsquo;s left lasts at the recent rate of sales and use on services.</p>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 32px 32px;">
+            <table width="100%" cellpadding="0" cellspacing="0" style="border: 1px solid #e5e7eb; border-radius: 6px; overflow: hidden;">
+              <tr style="background-color: #8b5cf6;">
+                <th style="padding: 10px 12px; text-align: left; color: #ffffff; font-size: 12px; font-weight: 600;">Product</th>
+                <th style="padding: 10px 12px; text-align: right; color: #ffffff; font-size: 12px; font-weight: 600;">In Stock</th>
+                <th style="padding: 10px 12px; text-align: right; color: #ffffff; font-size: 12px; font-weight: 600;">Threshold</th>
+                <th style="padding: 10px 12px; text-align: right; color: #ffffff; font-size: 12px; font-weight: 600;">Days of Cover</th>
+              </tr>
+              ${rows}
+            </table>${actionButton(data.reorderUrl, "Review Reorders")}
+          </td>
+        </tr>`
+  );
+}
@@ -0,0 +1,214 @@
+import "server-only";
+import { addMonths } from "date-fns";
+import { GiftCard, Prisma } from "@prisma/client";
+import { generateGiftCardCode } from "@/lib/utils/gift-card";
+
+/**
+ * Gift card ledger. Every change to a card's balance is written as a
+ * GiftCardTransaction in the same database transaction as the change, so the
+ * ledger always sums to the current balance. Cards are issued by one salon
+ * and can be redeemed anywhere in its organization.
+ */
+
+const toCents = (n: number) => Math.round(n * 100);
+
+/**
+ * Issue a card worth `value` to a client. Sold cards are linked to their
+ * sale item; store credit from a refund has none.
+ */
+export async function issueGiftCard(
+  tx: Prisma.TransactionClient,
+  params: {
+    salonId: string;
+    saleItemId?: string;
+    purchaserClientId: string;
+    value: number;
+    expiryMonths: number;
+    invoiceId: string;
+    createdById: string;
+    note?: string;
+  }
+): Promise<GiftCard> {
+  let code = generateGiftCardCode();
+  for (let attempt = 1; await tx.giftCard.findUnique({ where: { code }, select: { id: true } }); attempt++) {
+    if (attempt === 5) throw new Error("Could not generate a unique gift card code");
+    code = generateGiftCardCode();
+  }
+
+  return tx.giftCard.create({
+    data: {
+      salonId: params.salonId,
+      code,
+      initialValue: params.value,
+      balance: params.value,
+      expiresAt: params.expiryMonths > 0 ? addMonths(new Date(), params.expiryMonths) : null,
+      purchaserClientId: params.purchaserClientId,
+      saleItemId: params.saleItemId ?? null,
+      transactions: {
+        create: {
+          salonId: params.salonId,
+          type: "ISSUED",
+          amount: params.value,
+          balanceAfter: params.value,
+          invoiceId: params.invoiceId,
+          createdById: params.createdById,
+          note: params.note ?? null,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Spend `amount` from a card as a payment on an invoice. The balance check
+ * and decrement are a single conditional update so concurrent checkouts
+ * cannot overdraw the card.
+ */
+export async function redeemGiftCard(
+  tx: Prisma.TransactionClient,
+  params: {
+    code: string;
+    amount: number;
+    orgSalonIds: string[];
+    salonId: string;
+    clientId: string;
+    invoiceId: string;
+    createdById: string;
+  }
+): Promise<void> {
+  const card = await tx.giftCard.findFirst({
+    where: { code: params.code, salonId: { in: params.orgSalonIds } },
+    select: { id: true },
+  });
+  if (!card) {
+    throw new Error(`Gift card ${params.code} not found`);
+  }
+
+  const now = new Date();
+  const debited = await tx.giftCard.updateMany({
+    where: {
+      id: card.id,
+      status: "ACTIVE",
+      balance: { gte: params.amount },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    },
+    data: { balance: { decrement: params.amount } },
+  });
+  if (debited.count === 0) {
+    throw new Error(`Gift card ${params.code} is expired, voided or has insufficient balance`);
+  }
+
+  const { balance } = await tx.giftCard.findUniqueOrThrow({ where: { id: card.id }, select: { balance: true } });
+
+  await tx.payment.create({
+    data: {
+      invoiceId: params.invoiceId,
+      salonId: params.salonId,
+      clientId: params.clientId,
+      giftCardId: card.id,
+      amount: params.amount,
+      method: "GIFT_CARD",
+    },
+  });
+  await tx.giftCardTransaction.create({
+    data: {
+      giftCardId: card.id,
+      salonId: params.salonId,
+      type: "REDEEMED",
+      amount: -params.amount,
+      balanceAfter: balance,
+      invoiceId: params.invoiceId,
+      createdById: params.createdById,
+    },
+  });
+}
+
+/**
+ * Put up to `amount` of a refund back on the gift cards that paid the
+ * invoice, net of anything already restored by earlier refunds. Voided cards
+ * are skipped. Returns the amount restored; the rest is refunded by other means.
+ */
+export async function restoreGiftCardPayments(
+  tx: Prisma.TransactionClient,
+  params: { invoiceId: string; amount: number; salonId: string; createdById: string }
+): Promise<number> {
+  const entries = await tx.giftCardTransaction.findMany({
+    where: { invoiceId: params.invoiceId, type: { in: ["REDEEMED", "REFUNDED"] } },
+    select: { giftCardId: true, amount: true, giftCard: { select: { status: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // Net amount still owed back to each card, in cents
+  const owed = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.giftCard.status !== "ACTIVE") continue;
+    owed.set(entry.giftCardId, (owed.get(entry.giftCardId) ?? 0) - toCents(Number(entry.amount)));
+  }
+
+  let remainingCents = toCents(params.amount);
+  let restoredCents = 0;
+  for (const [giftCardId, owedCents] of owed) {
+    if (remainingCents <= 0) break;
+    const cents = Math.min(owedCents, remainingCents);
+    if (cents <= 0) continue;
+
+    const card = await tx.giftCard.update({
+      where: { id: giftCardId },
+      data: { balance: { increment: cents / 100 } },
+      select: { balance: true },
+    });
+    await tx.giftCardTransaction.create({
+      data: {
+        giftCardId,
+        salonId: params.salonId,
+        type: "REFUNDED",
+        amount: cents / 100,
+        balanceAfter: card.balance,
+        invoiceId: params.invoiceId,
+        createdById: params.createdById,
+      },
+    });
+    remainingCents -= cents;
+    restoredCents += cents;
+  }
+
+  return restoredCents / 100;
+}
+
+/**
+ * Void the cards a sale issued when the sale is fully refunded. A card that
+ * has already been spent from cannot be taken back.
+ */
+export async function voidIssuedGiftCards(
+  tx: Prisma.TransactionClient,
+  params: { saleId: string; invoiceId: string; salonId: string; createdById: string }
+): Promise<string[]> {
+  const cards = await tx.giftCard.findMany({
+    where: { saleItem: { saleId: params.saleId }, status: "ACTIVE" },
+    select: { id: true, code: true, initialValue: true, balance: true },
+  });
+
+  for (const card of cards) {
+    if (toCents(Number(card.balance)) !== toCents(Number(card.initialValue))) {
+      throw new Error(`Gift card ${card.code} has already been used and cannot be refunded`);
+    }
+    await tx.giftCard.update({
+      where: { id: card.id },
+      data: { status: "VOIDED", balance: 0 },
+    });
+    await tx.giftCardTransaction.create({
+      data: {
+        giftCardId: card.id,
+        salonId: params.salonId,
+        type: "VOIDED",
+        amount: -Number(card.balance),
+        balanceAfter: 0,
+        invoiceId: params.invoiceId,
+        createdById: params.createdById,
+        note: "Purchase refunded",
+      },
+    });
+  }
+
+  return cards.map((c) => c.code);
+}
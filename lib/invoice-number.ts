@@ -0,0 +1,26 @@
+import "server-only";
+import { prisma } from "@/lib/prisma";
+import { getNow, getMonthRange } from "@/lib/utils/timezone";
+
+// Generate invoice number
+export async function generateInvoiceNumber(timezone: string, salonId: string): Promise<string> {
+  const now = getNow(timezone);
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+
+  // Get count of invoices this month (timezone-aware boundaries)
+  const { start, end } = getMonthRange(timezone);
+
+  const count = await prisma.invoice.count({
+    where: {
+      salonId,
+      createdAt: {
+        gte: start,
+        lte: end,
+      },
+    },
+  });
+
+  const sequence = String(count + 1).padStart(4, "0");
+  return `INV-${year}${month}-${sequence}`;
+}
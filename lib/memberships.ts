@@ -0,0 +1,283 @@
+import "server-only";
+import { addMonths, subDays } from "date-fns";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { generateInvoiceNumber } from "@/lib/invoice-number";
+import { formatInTz } from "@/lib/utils/timezone";
+import { computeSaleTax, taxRateFor } from "@/lib/utils/tax";
+import { recordSaleTax } from "@/lib/taxes";
+
+/**
+ * Client memberships. Each billing cycle resets the included service credits
+ * and raises an invoice for the plan price, recorded as a one-line sale so it
+ * shows up with the rest of the salon's revenue. Invoices are left PENDING
+ * for the front desk to collect, due on the first day of the cycle. Services
+ * paid with a credit are zero-priced sale items tied to the membership.
+ * A membership whose invoice goes overdue is paused, with no benefits and no
+ * further billing, until it has been paid and the membership resumed.
+ */
+
+// Memberships with a cycle invoice left unpaid past its due date
+const hasOverdueChargeWhere = {
+  charges: { some: { sale: { invoice: { is: { status: "OVERDUE" } } } } },
+} satisfies Prisma.ClientMembershipWhereInput;
+
+const MAX_CATCH_UP_CYCLES = 12;
+
+export interface MembershipCyclePlan {
+  name: string;
+  price: Prisma.Decimal | number;
+  billingIntervalMonths: number;
+  credits: { serviceId: string; quantity: number }[];
+}
+
+/**
+ * Start a billing cycle: move the membership's period forward, reset its
+ * credits and invoice the client. The caller decides the cycle is due and
+ * passes an invoice number generated outside the transaction.
+ */
+export async function beginMembershipCycle(
+  tx: Prisma.TransactionClient,
+  params: {
+    membershipId: string;
+    salonId: string;
+    clientId: string;
+    soldById: string;
+    plan: MembershipCyclePlan;
+    periodStart: Date;
+    invoiceNumber: string;
+    taxRate: number;
+    timezone: string;
+  }
+): Promise<{ invoiceId: string; saleId: string; periodEnd: Date }> {
+  const periodEnd = addMonths(params.periodStart, params.plan.billingIntervalMonths);
+
+  await tx.clientMembership.update({
+    where: { id: params.membershipId },
+    data: { currentPeriodStart: params.periodStart, currentPeriodEnd: periodEnd },
+  });
+
+  // Unused credits do not roll over
+  await tx.clientMembershipCredit.deleteMany({ where: { membershipId: params.membershipId } });
+  if (params.plan.credits.length > 0) {
+    await tx.clientMembershipCredit.createMany({
+      data: params.plan.credits.map((credit) => ({
+        membershipId: params.membershipId,
+        serviceId: credit.serviceId,
+        remaining: credit.quantity,
+      })),
+    });
+  }
+
+  // Memberships have no tax class; they are taxed at the standard rate
+  const price = Number(params.plan.price);
+  const taxRate = taxRateFor(null, params.taxRate);
+  const saleTax = computeSaleTax([{ value: price, taxRate }], price);
+  const total = saleTax.total;
+  const period = `${formatInTz(params.periodStart, "MMM d", params.timezone)} - ${formatInTz(subDays(periodEnd, 1), "MMM d, yyyy", params.timezone)}`;
+
+  const sale = await tx.sale.create({
+    data: {
+      salonId: params.salonId,
+      clientId: params.clientId,
+      staffId: params.soldById,
+      totalAmount: price,
+      discount: 0,
+      finalAmount: price,
+      items: {
+        create: {
+          salonId: params.salonId,
+          billedMembershipId: params.membershipId,
+          description: `${params.plan.name} membership (${period})`,
+          quantity: 1,
+          price,
+        },
+      },
+    },
+    select: { id: true, items: { select: { id: true } } },
+  });
+
+  const invoice = await tx.invoice.create({
+    data: {
+      salonId: params.salonId,
+      invoiceNumber: params.invoiceNumber,
+      saleId: sale.id,
+      clientId: params.clientId,
+      amount: saleTax.net,
+      tax: saleTax.tax,
+      total,
+      // Nothing to collect on a free plan
+      status: total > 0 ? "PENDING" : "PAID",
+      paidAt: total > 0 ? null : new Date(),
+      dueDate: total > 0 ? new Date(`${formatInTz(params.periodStart, "yyyy-MM-dd", params.timezone)}T00:00:00Z`) : null,
+    },
+    select: { id: true },
+  });
+
+  await recordSaleTax(tx, {
+    invoiceId: invoice.id,
+    salonId: params.salonId,
+    items: sale.items,
+    rates: [taxRate],
+    saleTax,
+  });
+
+  return { invoiceId: invoice.id, saleId: sale.id, periodEnd };
+}
+
+/**
+ * Use `quantity` included sessions of a service. The check and decrement
+ * are a single conditional update so two checkouts cannot spend the same credit.
+ */
+export async function redeemMembershipCredits(
+  tx: Prisma.TransactionClient,
+  params: { membershipId: string; serviceId: string; quantity: number }
+): Promise<void> {
+  const used = await tx.clientMembershipCredit.updateMany({
+    where: {
+      membershipId: params.membershipId,
+      serviceId: params.serviceId,
+      remaining: { gte: params.quantity },
+      membership: { status: "ACTIVE" },
+    },
+    data: { remaining: { decrement: params.quantity } },
+  });
+  if (used.count === 0) {
+    throw new Error("A membership used in this sale is not active or has no included sessions left for the service");
+  }
+}
+
+/**
+ * Give back the included sessions a refunded sale used, as long as the
+ * membership is still active and in the same billing cycle. Returns the
+ * number of sessions restored.
+ */
+export async function restoreMembershipCredits(
+  tx: Prisma.TransactionClient,
+  params: { saleId: string }
+): Promise<number> {
+  const items = await tx.saleItem.findMany({
+    where: { saleId: params.saleId, membershipId: { not: null }, serviceId: { not: null } },
+    select: {
+      serviceId: true,
+      quantity: true,
+      createdAt: true,
+      membership: { select: { id: true, status: true, currentPeriodStart: true } },
+    },
+  });
+
+  let restored = 0;
+  for (const item of items) {
+    const membership = item.membership!;
+    if (membership.status !== "ACTIVE" || item.createdAt < membership.currentPeriodStart) continue;
+    const updated = await tx.clientMembershipCredit.updateMany({
+      where: { membershipId: membership.id, serviceId: item.serviceId! },
+      data: { remaining: { increment: item.quantity } },
+    });
+    if (updated.count > 0) restored += item.quantity;
+  }
+
+  return restored;
+}
+
+/** Pause active memberships with an overdue cycle invoice. Returns how many were paused. */
+export async function pauseOverdueMemberships(salonId?: string): Promise<number> {
+  const paused = await prisma.clientMembership.updateMany({
+    where: { status: "ACTIVE", ...hasOverdueChargeWhere, ...(salonId && { salonId }) },
+    data: { status: "PAUSED", pausedAt: new Date() },
+  });
+  return paused.count;
+}
+
+/** Whether a membership still has a cycle invoice overdue, which keeps it from being resumed. */
+export async function hasOverdueMembershipInvoice(membershipId: string): Promise<boolean> {
+  const count = await prisma.clientMembership.count({ where: { id: membershipId, ...hasOverdueChargeWhere } });
+  return count > 0;
+}
+
+/**
+ * Bill memberships whose cycle has ended and close the ones set to cancel.
+ * A membership missed by several runs is billed once for each elapsed cycle.
+ */
+export async function renewMemberships(salonId?: string): Promise<{
+  cyclesBilled: number;
+  membershipsCancelled: number;
+}> {
+  const now = new Date();
+
+  const due = await prisma.clientMembership.findMany({
+    where: {
+      status: "ACTIVE",
+      currentPeriodEnd: { lte: now },
+      NOT: hasOverdueChargeWhere,
+      ...(salonId && { salonId }),
+    },
+    select: {
+      id: true,
+      salonId: true,
+      clientId: true,
+      soldById: true,
+      currentPeriodEnd: true,
+      cancelAtPeriodEnd: true,
+      plan: {
+        select: {
+          name: true,
+          price: true,
+          billingIntervalMonths: true,
+          credits: { select: { serviceId: true, quantity: true } },
+        },
+      },
+      salon: { select: { settings: { select: { timezone: true, taxRate: true } } } },
+    },
+    orderBy: { currentPeriodEnd: "asc" },
+  });
+
+  let cyclesBilled = 0;
+  let membershipsCancelled = 0;
+
+  for (const membership of due) {
+    if (membership.cancelAtPeriodEnd) {
+      const cancelled = await prisma.clientMembership.updateMany({
+        where: { id: membership.id, status: "ACTIVE", currentPeriodEnd: membership.currentPeriodEnd },
+        data: { status: "CANCELLED", cancelledAt: membership.currentPeriodEnd },
+      });
+      membershipsCancelled += cancelled.count;
+      continue;
+    }
+
+    const timezone = membership.salon.settings?.timezone ?? "UTC";
+    const taxRate = Number(membership.salon.settings?.taxRate ?? 0);
+    let periodStart = membership.currentPeriodEnd;
+
+    for (let cycle = 0; periodStart <= now && cycle < MAX_CATCH_UP_CYCLES; cycle++) {
+      const invoiceNumber = await generateInvoiceNumber(timezone, membership.salonId);
+      const expectedEnd = periodStart;
+      const billed = await prisma.$transaction(async (tx) => {
+        // Claim the cycle so overlapping runs cannot bill it twice
+        const claimed = await tx.clientMembership.updateMany({
+          where: { id: membership.id, status: "ACTIVE", cancelAtPeriodEnd: false, currentPeriodEnd: expectedEnd },
+          data: { updatedAt: now },
+        });
+        if (claimed.count === 0) return null;
+
+        return beginMembershipCycle(tx, {
+          membershipId: membership.id,
+          salonId: membership.salonId,
+          clientId: membership.clientId,
+          soldById: membership.soldById,
+          plan: membership.plan,
+          periodStart: expectedEnd,
+          invoiceNumber,
+          taxRate,
+          timezone,
+        });
+      });
+      if (!billed) break;
+
+      cyclesBilled++;
+      periodStart = billed.periodEnd;
+    }
+  }
+
+  return { cyclesBilled, membershipsCancelled };
+}
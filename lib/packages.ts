@@ -0,0 +1,212 @@
+import "server-only";
+import { addDays } from "date-fns";
+import { ClientPackage, Prisma } from "@prisma/client";
+import { allocateSessionValues } from "@/lib/utils/package";
+
+/**
+ * Prepaid service packages. Buying a package creates a ClientPackage holding
+ * the sessions it includes; checking out a matching service as a zero-priced
+ * sale item tied to the package uses one up. Every change is written to the
+ * PackageTransaction ledger with the deferred revenue it moves, so the
+ * package price is recognized as revenue session by session.
+ */
+
+const toCents = (n: number) => Math.round(n * 100);
+
+/**
+ * Create the client's package for a package sale item once the sale is paid.
+ * `price` is the line's net charged amount, which is spread over the sessions.
+ */
+export async function createClientPackage(
+  tx: Prisma.TransactionClient,
+  params: {
+    salonId: string;
+    clientId: string;
+    servicePackageId: string;
+    saleItemId: string;
+    price: number;
+    invoiceId: string;
+    createdById: string;
+  }
+): Promise<ClientPackage> {
+  const pkg = await tx.servicePackage.findUniqueOrThrow({
+    where: { id: params.servicePackageId },
+    include: { items: { include: { service: { select: { price: true } } } } },
+  });
+
+  const sessionValues = allocateSessionValues(
+    params.price,
+    pkg.items.map((item) => ({ servicePrice: Number(item.service.price), sessions: item.sessions }))
+  );
+
+  return tx.clientPackage.create({
+    data: {
+      salonId: params.salonId,
+      clientId: params.clientId,
+      packageId: pkg.id,
+      name: pkg.name,
+      price: params.price,
+      expiresAt: pkg.validityDays ? addDays(new Date(), pkg.validityDays) : null,
+      saleItemId: params.saleItemId,
+      items: {
+        create: pkg.items.map((item, index) => ({
+          serviceId: item.serviceId,
+          sessionsTotal: item.sessions,
+          sessionsRemaining: item.sessions,
+          sessionValue: sessionValues[index],
+        })),
+      },
+      transactions: {
+        create: {
+          salonId: params.salonId,
+          type: "PURCHASED",
+          sessions: pkg.items.reduce((sum, item) => sum + item.sessions, 0),
+          value: params.price,
+          saleItemId: params.saleItemId,
+          invoiceId: params.invoiceId,
+          createdById: params.createdById,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Use `quantity` sessions of a service from a client package. The check and
+ * decrement are a single conditional update so two checkouts cannot spend
+ * the same session.
+ */
+export async function redeemPackageSessions(
+  tx: Prisma.TransactionClient,
+  params: {
+    clientPackageId: string;
+    serviceId: string;
+    quantity: number;
+    salonId: string;
+    saleItemId: string;
+    invoiceId: string;
+    createdById: string;
+  }
+): Promise<void> {
+  const now = new Date();
+  const used = await tx.clientPackageItem.updateMany({
+    where: {
+      clientPackageId: params.clientPackageId,
+      serviceId: params.serviceId,
+      sessionsRemaining: { gte: params.quantity },
+      clientPackage: {
+        status: "ACTIVE",
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      },
+    },
+    data: { sessionsRemaining: { decrement: params.quantity } },
+  });
+  if (used.count === 0) {
+    throw new Error("A package used in this sale has expired or has no sessions left for the service");
+  }
+
+  const item = await tx.clientPackageItem.findUniqueOrThrow({
+    where: { clientPackageId_serviceId: { clientPackageId: params.clientPackageId, serviceId: params.serviceId } },
+    select: { sessionValue: true },
+  });
+
+  await tx.packageTransaction.create({
+    data: {
+      clientPackageId: params.clientPackageId,
+      salonId: params.salonId,
+      serviceId: params.serviceId,
+      type: "REDEEMED",
+      sessions: -params.quantity,
+      value: -(toCents(Number(item.sessionValue)) * params.quantity) / 100,
+      saleItemId: params.saleItemId,
+      invoiceId: params.invoiceId,
+      createdById: params.createdById,
+    },
+  });
+}
+
+/**
+ * Give back the package sessions a refunded invoice used. Only called on a
+ * full refund; sessions on voided packages are not restored.
+ */
+export async function restorePackageSessions(
+  tx: Prisma.TransactionClient,
+  params: { invoiceId: string; salonId: string; createdById: string }
+): Promise<number> {
+  const entries = await tx.packageTransaction.findMany({
+    where: { invoiceId: params.invoiceId, type: { in: ["REDEEMED", "RESTORED"] }, serviceId: { not: null } },
+    select: { clientPackageId: true, serviceId: true, sessions: true, clientPackage: { select: { status: true } } },
+  });
+
+  // Net sessions still owed back per package and service
+  const owed = new Map<string, { clientPackageId: string; serviceId: string; sessions: number }>();
+  for (const entry of entries) {
+    if (entry.clientPackage.status !== "ACTIVE") continue;
+    const key = `${entry.clientPackageId}:${entry.serviceId}`;
+    const current = owed.get(key) ?? { clientPackageId: entry.clientPackageId, serviceId: entry.serviceId!, sessions: 0 };
+    current.sessions -= entry.sessions;
+    owed.set(key, current);
+  }
+
+  let restored = 0;
+  for (const { clientPackageId, serviceId, sessions } of owed.values()) {
+    if (sessions <= 0) continue;
+    const item = await tx.clientPackageItem.update({
+      where: { clientPackageId_serviceId: { clientPackageId, serviceId } },
+      data: { sessionsRemaining: { increment: sessions } },
+      select: { sessionValue: true },
+    });
+    await tx.packageTransaction.create({
+      data: {
+        clientPackageId,
+        salonId: params.salonId,
+        serviceId,
+        type: "RESTORED",
+        sessions,
+        value: (toCents(Number(item.sessionValue)) * sessions) / 100,
+        invoiceId: params.invoiceId,
+        createdById: params.createdById,
+        note: "Sale refunded",
+      },
+    });
+    restored += sessions;
+  }
+
+  return restored;
+}
+
+/**
+ * Void the packages a sale sold when the sale is fully refunded. A package
+ * that has already been used cannot be taken back.
+ */
+export async function voidPurchasedPackages(
+  tx: Prisma.TransactionClient,
+  params: { saleId: string; invoiceId: string; salonId: string; createdById: string }
+): Promise<string[]> {
+  const packages = await tx.clientPackage.findMany({
+    where: { saleItem: { saleId: params.saleId }, status: "ACTIVE" },
+    select: { id: true, name: true, price: true, items: { select: { sessionsTotal: true, sessionsRemaining: true } } },
+  });
+
+  for (const pkg of packages) {
+    if (pkg.items.some((item) => item.sessionsRemaining !== item.sessionsTotal)) {
+      throw new Error(`Package "${pkg.name}" has already been used and cannot be refunded`);
+    }
+    await tx.clientPackage.update({ where: { id: pkg.id }, data: { status: "VOIDED" } });
+    await tx.clientPackageItem.updateMany({ where: { clientPackageId: pkg.id }, data: { sessionsRemaining: 0 } });
+    await tx.packageTransaction.create({
+      data: {
+        clientPackageId: pkg.id,
+        salonId: params.salonId,
+        type: "VOIDED",
+        sessions: -pkg.items.reduce((sum, item) => sum + item.sessionsTotal, 0),
+        value: -Number(pkg.price),
+        invoiceId: params.invoiceId,
+        createdById: params.createdById,
+        note: "Purchase refunded",
+      },
+    });
+  }
+
+  return packages.map((p) => p.name);
+}
@@ -14,6 +14,10 @@ export const permissions: Record<string, Role[]> = {
   "appointments:update": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
   "appointments:delete": [Role.OWNER, Role.ADMIN],
 
+  // Waitlist
+  "waitlist:view": [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
+  "waitlist:manage": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+
   // Sales
   "sales:view": [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
   "sales:create": [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
@@ -27,6 +31,23 @@ export const permissions: Record<string, Role[]> = {
   "invoices:delete": [Role.OWNER],
   "invoices:refund": [Role.OWNER, Role.ADMIN],
 
+  // Cash Drawer
+  "cash-drawer:view": [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
+  "cash-drawer:operate": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+
+  // Gift Cards
+  "giftcards:view": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+  "giftcards:manage": [Role.OWNER, Role.ADMIN],
+
+  // Memberships
+  "memberships:view": [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
+  "memberships:sell": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+  "memberships:manage": [Role.OWNER, Role.ADMIN],
+
+  // Promotions
+  "promotions:view": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+  "promotions:manage": [Role.OWNER, Role.ADMIN],
+
   // Staff Management
   "staff:view": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
   "staff:create": [Role.OWNER, Role.ADMIN],
@@ -52,6 +73,16 @@ export const permissions: Record<string, Role[]> = {
   // Products
   "products:view": [Role.OWNER, Role.ADMIN, Role.STAFF, Role.RECEPTIONIST],
   "products:manage": [Role.OWNER, Role.ADMIN],
+  "stock-alerts:view": [Role.OWNER, Role.ADMIN],
+
+  // Suppliers
+  "suppliers:view": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+  "suppliers:manage": [Role.OWNER, Role.ADMIN],
+
+  // Purchase Orders
+  "purchase-orders:view": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
+  "purchase-orders:manage": [Role.OWNER, Role.ADMIN],
+  "purchase-orders:receive": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
 
   // Loyalty
   "loyalty:view": [Role.OWNER, Role.ADMIN, Role.RECEPTIONIST],
@@ -78,6 +109,8 @@ export const permissions: Record<string, Role[]> = {
   "payroll:delete": [Role.OWNER],
   "salary-config:view": [Role.OWNER, Role.ADMIN],
   "salary-config:manage": [Role.OWNER, Role.ADMIN],
+  "commissions:view": [Role.OWNER, Role.ADMIN],
+  "commissions:manage": [Role.OWNER, Role.ADMIN],
 
   // Profit & Cost Analytics
   "profit:view": [Role.OWNER],
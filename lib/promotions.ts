@@ -0,0 +1,57 @@
+import "server-only";
+import { Prisma, Promotion } from "@prisma/client";
+import { PromotionTerms } from "@/lib/utils/promotion";
+
+export function promotionTerms(promotion: Promotion): PromotionTerms {
+  return {
+    discountType: promotion.discountType,
+    discountValue: Number(promotion.discountValue),
+    maxDiscount: promotion.maxDiscount !== null ? Number(promotion.maxDiscount) : null,
+    minSpend: promotion.minSpend !== null ? Number(promotion.minSpend) : null,
+    serviceIds: promotion.serviceIds,
+    productIds: promotion.productIds,
+    categories: promotion.categories,
+  };
+}
+
+/**
+ * Why a client cannot use a promotion right now, or null if they can: it must
+ * be active and in its validity window, under its overall and per-client
+ * caps, and first-visit promotions need a client with no earlier paid sale.
+ * A null client is a walk-in not yet created, who has no history.
+ * `excludeSaleId` leaves out the sale being completed.
+ */
+export async function promotionIneligibility(
+  db: Prisma.TransactionClient,
+  params: { promotion: Promotion; clientId: string | null; now?: Date; excludeSaleId?: string }
+): Promise<string | null> {
+  const { promotion, clientId } = params;
+  const now = params.now ?? new Date();
+
+  if (!promotion.isActive) return `Promo code ${promotion.code} is no longer active`;
+  if (promotion.startsAt && promotion.startsAt > now) return `Promo code ${promotion.code} is not valid yet`;
+  if (promotion.endsAt && promotion.endsAt <= now) return `Promo code ${promotion.code} has expired`;
+
+  if (promotion.usageLimit !== null) {
+    const used = await db.promotionRedemption.count({ where: { promotionId: promotion.id } });
+    if (used >= promotion.usageLimit) return `Promo code ${promotion.code} has been fully redeemed`;
+  }
+  if (!clientId) return null;
+  if (promotion.perClientLimit !== null) {
+    const usedByClient = await db.promotionRedemption.count({ where: { promotionId: promotion.id, clientId } });
+    if (usedByClient >= promotion.perClientLimit) return `This client has already used promo code ${promotion.code}`;
+  }
+  if (promotion.firstVisitOnly) {
+    const earlierSale = await db.sale.findFirst({
+      where: {
+        clientId,
+        invoice: { status: { in: ["PAID", "REFUNDED"] } },
+        ...(params.excludeSaleId && { id: { not: params.excludeSaleId } }),
+      },
+      select: { id: true },
+    });
+    if (earlierSale) return `Promo code ${promotion.code} is for first visits only`;
+  }
+
+  return null;
+}
@@ -0,0 +1,140 @@
+import "server-only";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getOrgRootSalonId } from "@/lib/actions/branch";
+import { moveStock, productDailyUsage } from "@/lib/stock";
+import { getNow, getMonthRange } from "@/lib/utils/timezone";
+import { daysOfCover } from "@/lib/utils/stock";
+import {
+  OPEN_PURCHASE_ORDER_STATUSES,
+  needsReorder,
+  ReorderSuggestion,
+  suggestedReorderQuantity,
+  weightedAverageCost,
+} from "@/lib/utils/purchase-order";
+
+/** Whether a supplier chosen for a product or order is one of the organization's. No supplier is always fine. */
+export async function isOrgSupplier(salonId: string, supplierId: string | null | undefined): Promise<boolean> {
+  if (!supplierId) return true;
+  const orgRootId = await getOrgRootSalonId(salonId);
+  return (await prisma.supplier.count({ where: { id: supplierId, salonId: orgRootId } })) > 0;
+}
+
+// PO-YYYYMM-0001, numbered per branch per month like invoices
+export async function generatePurchaseOrderNumber(
+  tx: Prisma.TransactionClient,
+  timezone: string,
+  salonId: string
+): Promise<string> {
+  const now = getNow(timezone);
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const { start, end } = getMonthRange(timezone);
+
+  const count = await tx.purchaseOrder.count({
+    where: { salonId, createdAt: { gte: start, lte: end } },
+  });
+
+  const sequence = String(count + 1).padStart(4, "0");
+  return `PO-${year}${month}-${sequence}`;
+}
+
+/**
+ * Put delivered units on the shelf: a RECEIPT movement linked to the order,
+ * and the product's cost re-averaged over what was there and what arrived.
+ */
+export async function receiveIntoStock(
+  tx: Prisma.TransactionClient,
+  params: {
+    productId: string;
+    quantity: number;
+    unitCost: number;
+    purchaseOrderId: string;
+    poNumber: string;
+    createdById: string;
+  }
+): Promise<{ stock: number; cost: number }> {
+  const before = await tx.product.findUniqueOrThrow({
+    where: { id: params.productId },
+    select: { stock: true, cost: true },
+  });
+
+  const cost = weightedAverageCost(
+    before.stock,
+    before.cost === null ? null : Number(before.cost),
+    params.quantity,
+    params.unitCost
+  );
+
+  const product = await moveStock(tx, {
+    productId: params.productId,
+    type: "RECEIPT",
+    quantity: params.quantity,
+    reason: `Received on ${params.poNumber}`,
+    purchaseOrderId: params.purchaseOrderId,
+    createdById: params.createdById,
+  });
+
+  await tx.product.update({
+    where: { id: params.productId },
+    data: { cost },
+  });
+
+  return { stock: product.stock, cost };
+}
+
+/**
+ * Active products at a branch that are due for reordering: at their
+ * low-stock threshold, or going to be within their supplier's lead time at
+ * the recent usage rate. Units still due on open purchase orders count as
+ * stock, so products they cover are left out.
+ */
+export async function findReorderSuggestions(salonId: string, supplierId?: string): Promise<ReorderSuggestion[]> {
+  const [products, openItems, usage] = await Promise.all([
+    prisma.product.findMany({
+      where: { salonId, isActive: true, ...(supplierId && { supplierId }) },
+      select: {
+        id: true,
+        name: true,
+        sku: true,
+        stock: true,
+        lowStockThreshold: true,
+        cost: true,
+        supplier: { select: { id: true, name: true, isActive: true, leadTimeDays: true } },
+      },
+      orderBy: { name: "asc" },
+    }),
+    prisma.purchaseOrderItem.findMany({
+      where: { purchaseOrder: { salonId, status: { in: OPEN_PURCHASE_ORDER_STATUSES } } },
+      select: { productId: true, quantity: true, quantityReceived: true },
+    }),
+    productDailyUsage(prisma, salonId),
+  ]);
+
+  const onOrder = new Map<string, number>();
+  for (const item of openItems) {
+    onOrder.set(item.productId, (onOrder.get(item.productId) ?? 0) + item.quantity - item.quantityReceived);
+  }
+
+  return products.flatMap((p) => {
+    const pending = onOrder.get(p.id) ?? 0;
+    const supplier = p.supplier?.isActive ? p.supplier : null;
+    const rate = { dailyUsage: usage.get(p.id) ?? 0, leadTimeDays: supplier?.leadTimeDays ?? 0 };
+    if (!needsReorder(p.stock, p.lowStockThreshold, pending, rate)) return [];
+    return [{
+      productId: p.id,
+      name: p.name,
+      sku: p.sku,
+      stock: p.stock,
+      lowStockThreshold: p.lowStockThreshold,
+      cost: p.cost === null ? null : Number(p.cost),
+      supplierId: supplier?.id ?? null,
+      supplierName: supplier?.name ?? null,
+      leadTimeDays: supplier?.leadTimeDays ?? null,
+      onOrder: pending,
+      dailyUsage: Math.round(rate.dailyUsage * 1000) / 1000,
+      daysOfCover: daysOfCover(p.stock, rate.dailyUsage),
+      suggestedQuantity: suggestedReorderQuantity(p.stock, p.lowStockThreshold, pending, rate),
+    }];
+  });
+}
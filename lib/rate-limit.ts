@@ -0,0 +1,73 @@
+import "server-only";
+import { headers } from "next/headers";
+import { getRedis } from "@/lib/redis";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// In-memory fallback used when Redis is not configured or unreachable.
+// Only effective within a single server instance.
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitBuckets: Map<string, { count: number; resetAt: number }> | undefined;
+};
+
+function memoryRateLimit(key: string, limit: number, windowSeconds: number): RateLimitResult {
+  const buckets = (globalForRateLimit.rateLimitBuckets ??= new Map());
+  const now = Date.now();
+
+  // Drop expired buckets so the map doesn't grow unbounded
+  if (buckets.size > 10_000) {
+    for (const [k, bucket] of buckets) {
+      if (bucket.resetAt <= now) buckets.delete(k);
+    }
+  }
+
+  let bucket = buckets.get(key);
+  if (!bucket || bucket.resetAt <= now) {
+    bucket = { count: 0, resetAt: now + windowSeconds * 1000 };
+    buckets.set(key, bucket);
+  }
+  bucket.count++;
+
+  return {
+    allowed: bucket.count <= limit,
+    retryAfterSeconds: Math.max(0, Math.ceil((bucket.resetAt - now) / 1000)),
+  };
+}
+
+/**
+ * Fixed-window rate limiter keyed by an arbitrary string (e.g. IP or email).
+ * Uses Redis when available so limits hold across instances.
+ */
+export async function rateLimit(
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<RateLimitResult> {
+  const redis = getRedis();
+  if (!redis) return memoryRateLimit(key, limit, windowSeconds);
+
+  const redisKey = `ratelimit:${key}`;
+  try {
+    const count = await redis.incr(redisKey);
+    if (count === 1) {
+      await redis.expire(redisKey, windowSeconds);
+    }
+    const ttl = await redis.ttl(redisKey);
+    return {
+      allowed: count <= limit,
+      retryAfterSeconds: ttl > 0 ? ttl : windowSeconds,
+    };
+  } catch {
+    return memoryRateLimit(key, limit, windowSeconds);
+  }
+}
+
+/** Best-effort client IP for keying public endpoints. */
+export async function getClientIp(): Promise<string> {
+  const headerList = await headers();
+  const forwarded = headerList.get("x-forwarded-for");
+  return forwarded?.split(",")[0]?.trim() || headerList.get("x-real-ip") || "unknown";
+}
@@ -0,0 +1,200 @@
+import "server-only";
+import { InvoiceStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/email";
+import { statementEmailHtml } from "@/lib/email-templates";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+import { pauseOverdueMemberships } from "@/lib/memberships";
+import {
+  ClientAccount,
+  OpenInvoice,
+  daysPastDue,
+  invoiceBalance,
+  invoiceDueDate,
+} from "@/lib/utils/receivables";
+
+/**
+ * Accounts receivable. Invoices issued at checkout with money still owing, and
+ * membership invoices, stay PENDING until paid; once their due date passes a
+ * scheduled job marks them OVERDUE and emails the client a statement.
+ */
+
+export const OPEN_INVOICE_STATUSES: InvoiceStatus[] = [InvoiceStatus.PENDING, InvoiceStatus.OVERDUE];
+
+export const statementSalonSelect = Prisma.validator<Prisma.SettingsSelect>()({
+  salonId: true,
+  salonName: true,
+  salonAddress: true,
+  salonPhone: true,
+  salonEmail: true,
+  timezone: true,
+  currencyCode: true,
+});
+
+export type StatementSalon = Prisma.SettingsGetPayload<{ select: typeof statementSalonSelect }>;
+
+/** A client's unpaid invoices at a branch, oldest due first. */
+export async function clientAccount(salonId: string, clientId: string, timezone: string): Promise<ClientAccount> {
+  const invoices = await prisma.invoice.findMany({
+    where: { salonId, clientId, status: { in: OPEN_INVOICE_STATUSES } },
+    select: {
+      id: true,
+      invoiceNumber: true,
+      saleId: true,
+      status: true,
+      issuedAt: true,
+      dueDate: true,
+      total: true,
+      payments: { select: { amount: true } },
+    },
+  });
+
+  const today = formatInTz(new Date(), "yyyy-MM-dd", timezone);
+  const open = invoices
+    .map((invoice) => {
+      const total = Number(invoice.total);
+      const paid = invoice.payments.reduce((sum, p) => sum + Number(p.amount), 0);
+      const dueDate = invoiceDueDate(invoice, timezone);
+      return {
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        saleId: invoice.saleId,
+        status: invoice.status,
+        issuedAt: invoice.issuedAt,
+        dueDate,
+        total,
+        paid,
+        balance: invoiceBalance(total, paid),
+        daysPastDue: daysPastDue(dueDate, today),
+      };
+    })
+    .filter((invoice) => invoice.balance > 0)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  const sumCents = (list: OpenInvoice[]) => list.reduce((sum, i) => sum + Math.round(i.balance * 100), 0) / 100;
+  return {
+    invoices: open,
+    outstanding: sumCents(open),
+    overdue: sumCents(open.filter((i) => i.daysPastDue > 0)),
+  };
+}
+
+/** Email a client their statement of account. Returns the provider's message id. */
+export async function sendStatement(
+  salon: StatementSalon,
+  client: { firstName: string; email: string },
+  account: ClientAccount
+): Promise<string | null> {
+  const html = statementEmailHtml({
+    salonName: salon.salonName,
+    salonAddress: salon.salonAddress,
+    salonPhone: salon.salonPhone,
+    salonEmail: salon.salonEmail,
+    clientName: client.firstName,
+    date: formatInTz(new Date(), "MMMM d, yyyy", salon.timezone),
+    invoices: account.invoices.map((invoice) => ({
+      invoiceNumber: invoice.invoiceNumber,
+      date: formatInTz(invoice.issuedAt, "MMM d, yyyy", salon.timezone),
+      dueDate: formatDateOnly(invoice.dueDate, "MMM d, yyyy"),
+      total: invoice.total,
+      paid: invoice.paid,
+      balance: invoice.balance,
+      overdue: invoice.daysPastDue > 0,
+    })),
+    outstanding: account.outstanding,
+    overdue: account.overdue,
+    currencyCode: salon.currencyCode,
+  });
+
+  const result = await sendEmail({
+    to: client.email,
+    subject: account.overdue > 0
+      ? `Payment overdue — statement from ${salon.salonName}`
+      : `Your statement from ${salon.salonName}`,
+    html,
+    salonName: salon.salonName,
+  });
+  return result?.id ?? null;
+}
+
+/**
+ * Mark PENDING invoices whose due date has passed in their branch's timezone
+ * as OVERDUE, and pause memberships left unpaid. Returns, per branch, the
+ * clients with an invoice that just turned overdue so they can be sent a
+ * statement.
+ */
+export async function markOverdueInvoices(salonId?: string): Promise<{
+  invoicesMarked: number;
+  membershipsPaused: number;
+  branches: { salon: StatementSalon; clientIds: string[] }[];
+}> {
+  const salons = await prisma.settings.findMany({
+    where: { salon: { isActive: true }, ...(salonId && { salonId }) },
+    select: statementSalonSelect,
+  });
+
+  let invoicesMarked = 0;
+  const branches: { salon: StatementSalon; clientIds: string[] }[] = [];
+
+  for (const salon of salons) {
+    const today = formatInTz(new Date(), "yyyy-MM-dd", salon.timezone);
+    const due = await prisma.invoice.findMany({
+      where: {
+        salonId: salon.salonId,
+        status: InvoiceStatus.PENDING,
+        dueDate: { lt: new Date(`${today}T00:00:00Z`) },
+      },
+      select: { id: true, clientId: true },
+    });
+    if (due.length === 0) continue;
+
+    // Only PENDING rows flip, so an invoice paid meanwhile is left alone
+    const marked = await prisma.invoice.updateMany({
+      where: { id: { in: due.map((i) => i.id) }, status: InvoiceStatus.PENDING },
+      data: { status: InvoiceStatus.OVERDUE },
+    });
+    invoicesMarked += marked.count;
+    branches.push({ salon, clientIds: [...new Set(due.map((i) => i.clientId))] });
+  }
+
+  const membershipsPaused = await pauseOverdueMemberships(salonId);
+
+  return { invoicesMarked, membershipsPaused, branches };
+}
+
+/**
+ * Mark overdue invoices and email each client with a newly overdue invoice a
+ * statement of what they owe. Covers every active branch unless `salonId` is
+ * given.
+ */
+export async function runOverdueInvoices(salonId?: string): Promise<{
+  invoicesMarked: number;
+  membershipsPaused: number;
+  statementsSent: number;
+  statementsFailed: number;
+}> {
+  const { invoicesMarked, membershipsPaused, branches } = await markOverdueInvoices(salonId);
+
+  let statementsSent = 0;
+  let statementsFailed = 0;
+  for (const { salon, clientIds } of branches) {
+    const clients = await prisma.client.findMany({
+      where: { id: { in: clientIds }, isActive: true, email: { not: null } },
+      select: { id: true, firstName: true, email: true },
+    });
+
+    for (const client of clients) {
+      try {
+        const account = await clientAccount(salon.salonId, client.id, salon.timezone);
+        if (account.invoices.length === 0) continue;
+        await sendStatement(salon, { firstName: client.firstName, email: client.email! }, account);
+        statementsSent++;
+      } catch (error) {
+        console.error(`Failed to send statement to client ${client.id}:`, error);
+        statementsFailed++;
+      }
+    }
+  }
+
+  return { invoicesMarked, membershipsPaused, statementsSent, statementsFailed };
+}
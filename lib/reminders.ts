@@ -0,0 +1,198 @@
+import "server-only";
+import { Prisma, ReminderChannel } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/email";
+import { sendSms } from "@/lib/sms";
+import { appointmentReminderEmailHtml } from "@/lib/email-templates";
+import { formatInTz } from "@/lib/utils/timezone";
+import { getAppointmentManageUrl } from "@/lib/appointment-links";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const reminderAppointmentInclude = Prisma.validator<Prisma.AppointmentInclude>()({
+  client: { select: { firstName: true, email: true, phone: true, isActive: true } },
+  service: { select: { name: true } },
+  staff: { select: { firstName: true, lastName: true } },
+  reminders: { select: { startTime: true, offsetHours: true, channel: true } },
+});
+
+type ReminderAppointment = Prisma.AppointmentGetPayload<{ include: typeof reminderAppointmentInclude }>;
+
+interface ReminderSalon {
+  salonId: string;
+  salonName: string;
+  salonAddress: string | null;
+  salonPhone: string | null;
+  timezone: string;
+}
+
+async function deliverReminder(
+  appointment: ReminderAppointment,
+  salon: ReminderSalon,
+  channel: ReminderChannel
+): Promise<{ recipient: string; providerId: string | null }> {
+  const staffName = `${appointment.staff.firstName} ${appointment.staff.lastName}`;
+  const dateTime = formatInTz(appointment.startTime, "EEEE, MMMM d 'at' h:mm a", salon.timezone);
+  const manageUrl = getAppointmentManageUrl(appointment.id, appointment.startTime);
+
+  if (channel === "EMAIL") {
+    const recipient = appointment.client.email!;
+    const result = await sendEmail({
+      to: recipient,
+      subject: `Reminder: your appointment at ${salon.salonName}`,
+      html: appointmentReminderEmailHtml({
+        salonName: salon.salonName,
+        clientName: appointment.client.firstName,
+        serviceName: appointment.service.name,
+        staffName,
+        dateTime,
+        salonAddress: salon.salonAddress,
+        salonPhone: salon.salonPhone,
+        manageUrl,
+      }),
+      salonName: salon.salonName,
+    });
+    return { recipient, providerId: result?.id ?? null };
+  }
+
+  const recipient = appointment.client.phone!;
+  const result = await sendSms({
+    to: recipient,
+    body:
+      `Hi ${appointment.client.firstName}, this is a reminder of your ${appointment.service.name} ` +
+      `appointment with ${staffName} at ${salon.salonName} on ${dateTime}. ` +
+      `Confirm or change: ${manageUrl}`,
+  });
+  return { recipient, providerId: result.id };
+}
+
+/**
+ * Send due appointment reminders. Covers every salon with reminders enabled
+ * unless `salonId` is given.
+ *
+ * Each (appointment time, offset, channel) is claimed by inserting its delivery log
+ * row before sending, so overlapping cron runs never send a reminder twice.
+ * When several offsets are due at once only the closest one is sent; offsets
+ * that were already due when the appointment was booked are skipped.
+ */
+export async function sendDueReminders(salonId?: string): Promise<{
+  sent: number;
+  failed: number;
+  skipped: number;
+}> {
+  const salons = await prisma.settings.findMany({
+    where: {
+      remindersEnabled: true,
+      salon: { isActive: true },
+      ...(salonId && { salonId }),
+    },
+    select: {
+      salonId: true,
+      salonName: true,
+      salonAddress: true,
+      salonPhone: true,
+      timezone: true,
+      reminderOffsetsHours: true,
+      smsRemindersEnabled: true,
+    },
+  });
+
+  const now = new Date();
+  let sent = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  for (const salon of salons) {
+    const offsets = [...new Set(salon.reminderOffsetsHours.filter((h) => h > 0))].sort((a, b) => a - b);
+    if (offsets.length === 0) continue;
+
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        salonId: salon.salonId,
+        status: { in: ["SCHEDULED", "CONFIRMED"] },
+        startTime: { gt: now, lte: new Date(now.getTime() + offsets[offsets.length - 1] * HOUR_MS) },
+      },
+      include: reminderAppointmentInclude,
+    });
+
+    for (const appointment of appointments) {
+      if (!appointment.client.isActive) continue;
+
+      const channels: ReminderChannel[] = [];
+      if (appointment.client.email) channels.push("EMAIL");
+      if (salon.smsRemindersEnabled && appointment.client.phone) channels.push("SMS");
+
+      for (const channel of channels) {
+        const startMs = appointment.startTime.getTime();
+        const logged = new Set(
+          appointment.reminders
+            .filter((r) => r.channel === channel && r.startTime.getTime() === startMs)
+            .map((r) => r.offsetHours)
+        );
+        // Offsets whose send time has passed, closest to the appointment first
+        const passed = offsets.filter((h) => startMs - h * HOUR_MS <= now.getTime());
+        if (passed.length === 0) continue;
+
+        const closest = passed[0];
+        const bookedAfterDue = appointment.createdAt.getTime() > startMs - closest * HOUR_MS;
+        const sendClosest = !logged.has(closest) && !bookedAfterDue;
+        const toSkip = passed.filter((h) => !logged.has(h) && !(sendClosest && h === closest));
+
+        if (toSkip.length > 0) {
+          const result = await prisma.appointmentReminder.createMany({
+            data: toSkip.map((offsetHours) => ({
+              salonId: salon.salonId,
+              appointmentId: appointment.id,
+              startTime: appointment.startTime,
+              offsetHours,
+              channel,
+              status: "SKIPPED" as const,
+            })),
+            skipDuplicates: true,
+          });
+          skipped += result.count;
+        }
+        if (!sendClosest) continue;
+
+        // Claim the reminder; a unique violation means another run already has it
+        let reminderId: string;
+        try {
+          const claim = await prisma.appointmentReminder.create({
+            data: {
+              salonId: salon.salonId,
+              appointmentId: appointment.id,
+              startTime: appointment.startTime,
+              offsetHours: closest,
+              channel,
+            },
+          });
+          reminderId = claim.id;
+        } catch (error) {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") continue;
+          throw error;
+        }
+
+        try {
+          const { recipient, providerId } = await deliverReminder(appointment, salon, channel);
+          await prisma.appointmentReminder.update({
+            where: { id: reminderId },
+            data: { status: "SENT", recipient, providerId, sentAt: new Date() },
+          });
+          sent++;
+        } catch (error) {
+          console.error(`Failed to send ${channel} reminder for appointment ${appointment.id}:`, error);
+          await prisma.appointmentReminder.update({
+            where: { id: reminderId },
+            data: {
+              status: "FAILED",
+              error: error instanceof Error ? error.message.slice(0, 500) : "Unknown error",
+            },
+          });
+          failed++;
+        }
+      }
+    }
+  }
+
+  return { sent, failed, skipped };
+}
@@ -0,0 +1,51 @@
+import "server-only";
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+/**
+ * Transport for outgoing SMS. Implement this for a real gateway
+ * (Twilio, Vonage, ...) and register it in `smsProviders`.
+ */
+export interface SmsProvider {
+  name: string;
+  send(message: SmsMessage): Promise<{ id: string | null }>;
+}
+
+// Logs messages instead of sending them — the default for local development
+const consoleSmsProvider: SmsProvider = {
+  name: "console",
+  async send({ to, body }) {
+    console.log(`[sms:console] to=${to}\n${body}`);
+    return { id: null };
+  },
+};
+
+const smsProviders: Record<string, () => SmsProvider> = {
+  console: () => consoleSmsProvider,
+};
+
+const globalForSms = globalThis as unknown as {
+  smsProvider: SmsProvider | undefined;
+};
+
+/** Returns the provider selected by SMS_PROVIDER (defaults to the console transport). */
+export function getSmsProvider(): SmsProvider {
+  if (globalForSms.smsProvider) return globalForSms.smsProvider;
+
+  const name = process.env.SMS_PROVIDER || "console";
+  const factory = smsProviders[name];
+  if (!factory) {
+    console.warn(`Unknown SMS_PROVIDER "${name}" — falling back to console transport`);
+  }
+
+  const provider = (factory ?? smsProviders.console)();
+  globalForSms.smsProvider = provider;
+  return provider;
+}
+
+export async function sendSms(message: SmsMessage): Promise<{ id: string | null }> {
+  return getSmsProvider().send(message);
+}
@@ -0,0 +1,177 @@
+import "server-only";
+import { Prisma, Role } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/email";
+import { stockAlertEmailHtml } from "@/lib/email-templates";
+import { getBaseUrl } from "@/lib/appointment-links";
+import { productDailyUsage } from "@/lib/stock";
+import { daysOfCover } from "@/lib/utils/stock";
+
+/**
+ * Low-stock alerts. A daily job checks each branch's products against their
+ * low-stock threshold: a product that has fallen to it gets an alert, shown
+ * in the app and emailed to the branch's owners and admins, which stays open
+ * until stock is back above the threshold. A product has at most one open
+ * alert, so it is only announced once each time it runs low.
+ */
+
+export const stockAlertSalonSelect = Prisma.validator<Prisma.SettingsSelect>()({
+  salonId: true,
+  salonName: true,
+});
+
+export type StockAlertSalon = Prisma.SettingsGetPayload<{ select: typeof stockAlertSalonSelect }>;
+
+export interface RaisedStockAlert {
+  name: string;
+  sku: string | null;
+  stock: number;
+  lowStockThreshold: number;
+  daysOfCover: number | null;
+}
+
+/**
+ * Raise alerts for products at or below their threshold and resolve the ones
+ * whose product has recovered or was deactivated. Returns, per branch, the
+ * alerts raised so they can be emailed.
+ */
+export async function checkStockAlerts(salonId?: string): Promise<{
+  alertsRaised: number;
+  alertsResolved: number;
+  branches: { salon: StockAlertSalon; alerts: RaisedStockAlert[] }[];
+}> {
+  const salons = await prisma.settings.findMany({
+    where: { salon: { isActive: true }, ...(salonId && { salonId }) },
+    select: stockAlertSalonSelect,
+  });
+
+  let alertsRaised = 0;
+  let alertsResolved = 0;
+  const branches: { salon: StockAlertSalon; alerts: RaisedStockAlert[] }[] = [];
+
+  for (const salon of salons) {
+    const [products, openAlerts] = await Promise.all([
+      prisma.product.findMany({
+        where: { salonId: salon.salonId, isActive: true },
+        select: { id: true, name: true, sku: true, stock: true, lowStockThreshold: true },
+      }),
+      prisma.stockAlert.findMany({
+        where: { salonId: salon.salonId, resolvedAt: null },
+        select: { id: true, productId: true },
+      }),
+    ]);
+
+    // Prisma can't compare two columns, so the threshold is checked here
+    const low = new Map(products.filter((p) => p.stock <= p.lowStockThreshold).map((p) => [p.id, p]));
+    const alerted = new Set(openAlerts.map((a) => a.productId));
+
+    const recovered = openAlerts.filter((a) => !low.has(a.productId)).map((a) => a.id);
+    if (recovered.length > 0) {
+      const resolved = await prisma.stockAlert.updateMany({
+        where: { id: { in: recovered }, resolvedAt: null },
+        data: { resolvedAt: new Date() },
+      });
+      alertsResolved += resolved.count;
+    }
+
+    const newlyLow = [...low.values()].filter((p) => !alerted.has(p.id));
+    if (newlyLow.length === 0) continue;
+
+    const usage = await productDailyUsage(prisma, salon.salonId);
+    const alerts = newlyLow.map((p) => {
+      const dailyUsage = usage.get(p.id) ?? 0;
+      return {
+        productId: p.id,
+        name: p.name,
+        sku: p.sku,
+        stock: p.stock,
+        lowStockThreshold: p.lowStockThreshold,
+        dailyUsage: Math.round(dailyUsage * 1000) / 1000,
+        daysOfCover: daysOfCover(p.stock, dailyUsage),
+      };
+    });
+
+    await prisma.stockAlert.createMany({
+      data: alerts.map((alert) => ({
+        salonId: salon.salonId,
+        productId: alert.productId,
+        stock: alert.stock,
+        dailyUsage: alert.dailyUsage,
+        daysOfCover: alert.daysOfCover,
+      })),
+    });
+    alertsRaised += alerts.length;
+    branches.push({
+      salon,
+      alerts: alerts
+        .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) || a.name.localeCompare(b.name))
+        .map(({ name, sku, stock, lowStockThreshold, daysOfCover }) => ({ name, sku, stock, lowStockThreshold, daysOfCover })),
+    });
+  }
+
+  return { alertsRaised, alertsResolved, branches };
+}
+
+/** Email a branch's owners and admins the alerts just raised. Returns how many emails were sent and failed. */
+export async function sendStockAlertEmails(
+  salon: StockAlertSalon,
+  alerts: RaisedStockAlert[]
+): Promise<{ sent: number; failed: number }> {
+  const recipients = await prisma.userSalon.findMany({
+    where: {
+      salonId: salon.salonId,
+      isActive: true,
+      role: { in: [Role.OWNER, Role.ADMIN] },
+      user: { isActive: true },
+    },
+    select: { user: { select: { id: true, firstName: true, email: true } } },
+  });
+
+  let sent = 0;
+  let failed = 0;
+  for (const { user } of recipients) {
+    try {
+      await sendEmail({
+        to: user.email,
+        subject: alerts.length === 1
+          ? `Low stock: ${alerts[0].name}`
+          : `Low stock: ${alerts.length} products at ${salon.salonName}`,
+        html: stockAlertEmailHtml({
+          salonName: salon.salonName,
+          recipientName: user.firstName,
+          products: alerts,
+          reorderUrl: `${getBaseUrl()}/dashboard/products/reorder`,
+        }),
+        salonName: salon.salonName,
+      });
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send stock alert to user ${user.id}:`, error);
+      failed++;
+    }
+  }
+  return { sent, failed };
+}
+
+/**
+ * Check stock and email owners and admins about the alerts raised. Covers
+ * every active branch unless `salonId` is given.
+ */
+export async function runStockAlerts(salonId?: string): Promise<{
+  alertsRaised: number;
+  alertsResolved: number;
+  emailsSent: number;
+  emailsFailed: number;
+}> {
+  const { alertsRaised, alertsResolved, branches } = await checkStockAlerts(salonId);
+
+  let emailsSent = 0;
+  let emailsFailed = 0;
+  for (const { salon, alerts } of branches) {
+    const result = await sendStockAlertEmails(salon, alerts);
+    emailsSent += result.sent;
+    emailsFailed += result.failed;
+  }
+
+  return { alertsRaised, alertsResolved, emailsSent, emailsFailed };
+}
@@ -0,0 +1,204 @@
+import "server-only";
+import { subDays } from "date-fns";
+import { Prisma, StockMovementType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { STOCK_USAGE_WINDOW_DAYS, StockDrift } from "@/lib/utils/stock";
+import { drawBackbarUnits } from "@/lib/utils/service-recipe";
+
+/**
+ * Stock ledger. Every change to Product.stock goes through moveStock so it is
+ * written as a StockMovement in the same database transaction as the change;
+ * the movements for a product always sum to its stock. Anything that still
+ * writes stock directly shows up as drift in findStockDrift.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Add `quantity` units (negative to take them away) and record why. Removals
+ * that would take stock below zero fail, rolling back the transaction.
+ */
+export async function moveStock(
+  tx: Prisma.TransactionClient,
+  params: {
+    productId: string;
+    type: StockMovementType;
+    quantity: number;
+    reason?: string | null;
+    saleId?: string;
+    refundId?: string;
+    purchaseOrderId?: string;
+    createdById?: string | null;
+  }
+): Promise<{ name: string; stock: number; salonId: string }> {
+  const product = await tx.product.update({
+    where: { id: params.productId },
+    data: { stock: { increment: params.quantity } },
+    select: { name: true, stock: true, salonId: true },
+  });
+  if (params.quantity < 0 && product.stock < 0) {
+    throw new Error(`Insufficient stock for product "${product.name}"`);
+  }
+
+  await tx.stockMovement.create({
+    data: {
+      productId: params.productId,
+      salonId: product.salonId,
+      type: params.type,
+      quantity: params.quantity,
+      stockAfter: product.stock,
+      reason: params.reason ?? null,
+      saleId: params.saleId ?? null,
+      refundId: params.refundId ?? null,
+      purchaseOrderId: params.purchaseOrderId ?? null,
+      createdById: params.createdById ?? null,
+    },
+  });
+
+  return product;
+}
+
+/**
+ * Use part of a backbar product on a service. Stock counts unopened units, so
+ * only units opened to cover the quantity leave stock (as BACKBAR_USE); the
+ * rest of an opened unit is kept in backbarRemaining for the next service.
+ */
+export async function consumeBackbarProduct(
+  tx: Prisma.TransactionClient,
+  params: {
+    productId: string;
+    quantity: number;
+    reason: string;
+    saleId?: string;
+    createdById?: string | null;
+  }
+): Promise<void> {
+  const product = await tx.product.findUniqueOrThrow({
+    where: { id: params.productId },
+    select: { backbarRemaining: true },
+  });
+
+  const drawn = drawBackbarUnits(Number(product.backbarRemaining), params.quantity);
+  if (drawn.opened > 0) {
+    await moveStock(tx, {
+      productId: params.productId,
+      type: "BACKBAR_USE",
+      quantity: -drawn.opened,
+      reason: params.reason,
+      saleId: params.saleId,
+      createdById: params.createdById,
+    });
+  }
+
+  await tx.product.update({
+    where: { id: params.productId },
+    data: { backbarRemaining: drawn.remaining },
+  });
+}
+
+/**
+ * Bring a product's ledger back in line with its stock by recording the
+ * unexplained difference as an adjustment. Stock itself is left alone, as it
+ * is what was counted or sold against; the drift is only acknowledged.
+ */
+export async function settleStockDrift(
+  tx: Prisma.TransactionClient,
+  params: { productId: string; createdById: string }
+): Promise<number> {
+  const [product, ledger] = await Promise.all([
+    tx.product.findUniqueOrThrow({
+      where: { id: params.productId },
+      select: { salonId: true, stock: true },
+    }),
+    tx.stockMovement.aggregate({
+      where: { productId: params.productId },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  const drift = product.stock - (ledger._sum.quantity ?? 0);
+  if (drift !== 0) {
+    await tx.stockMovement.create({
+      data: {
+        productId: params.productId,
+        salonId: product.salonId,
+        type: "ADJUSTMENT",
+        quantity: drift,
+        stockAfter: product.stock,
+        reason: "Reconciliation: stock changed without a movement",
+        createdById: params.createdById,
+      },
+    });
+  }
+  return drift;
+}
+
+/**
+ * Products at a branch whose stock no longer matches their ledger, such as
+ * ones stocked before the ledger existed or changed outside moveStock.
+ */
+export async function findStockDrift(db: DbClient, salonId: string): Promise<StockDrift[]> {
+  const [products, sums] = await Promise.all([
+    db.product.findMany({
+      where: { salonId },
+      select: { id: true, name: true, sku: true, stock: true },
+      orderBy: { name: "asc" },
+    }),
+    db.stockMovement.groupBy({
+      by: ["productId"],
+      where: { salonId },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  const ledger = new Map(sums.map((s) => [s.productId, s._sum.quantity ?? 0]));
+  return products
+    .map((product) => {
+      const ledgerStock = ledger.get(product.id) ?? 0;
+      return {
+        productId: product.id,
+        name: product.name,
+        sku: product.sku,
+        stock: product.stock,
+        ledgerStock,
+        drift: product.stock - ledgerStock,
+      };
+    })
+    .filter((p) => p.drift !== 0);
+}
+
+/**
+ * Units a day each product at a branch goes through: what completed sales
+ * sold plus units opened for services, averaged over the last
+ * STOCK_USAGE_WINDOW_DAYS. Products that weren't used are left out.
+ */
+export async function productDailyUsage(db: DbClient, salonId: string): Promise<Map<string, number>> {
+  const since = subDays(new Date(), STOCK_USAGE_WINDOW_DAYS);
+  const [sold, usedOnServices] = await Promise.all([
+    db.saleItem.groupBy({
+      by: ["productId"],
+      where: { productId: { not: null }, sale: { salonId, createdAt: { gte: since }, invoice: { isNot: null } } },
+      _sum: { quantity: true },
+    }),
+    db.stockMovement.groupBy({
+      by: ["productId"],
+      where: { salonId, type: "BACKBAR_USE", createdAt: { gte: since } },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  const units = new Map<string, number>();
+  for (const row of sold) {
+    if (row.productId) units.set(row.productId, row._sum.quantity ?? 0);
+  }
+  for (const row of usedOnServices) {
+    // Backbar movements take stock away, so their quantities are negative
+    units.set(row.productId, (units.get(row.productId) ?? 0) - (row._sum.quantity ?? 0));
+  }
+
+  const usage = new Map<string, number>();
+  for (const [productId, total] of units) {
+    if (total > 0) usage.set(productId, total / STOCK_USAGE_WINDOW_DAYS);
+  }
+  return usage;
+}
@@ -0,0 +1,95 @@
+import "server-only";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { InvoiceTaxLine, SaleTax, TaxClassRate, TaxRate } from "@/lib/utils/tax";
+
+export const taxClassSelect = Prisma.validator<Prisma.TaxClassSelect>()({
+  id: true,
+  name: true,
+  rate: true,
+  pricesIncludeTax: true,
+});
+
+export function taxClassRate(
+  taxClass: Prisma.TaxClassGetPayload<{ select: typeof taxClassSelect }> | null
+): TaxClassRate | null {
+  return taxClass
+    ? { id: taxClass.id, name: taxClass.name, rate: Number(taxClass.rate), pricesIncludeTax: taxClass.pricesIncludeTax }
+    : null;
+}
+
+export const invoiceTaxSelect = Prisma.validator<Prisma.InvoiceTaxSelect>()({
+  id: true,
+  name: true,
+  rate: true,
+  inclusive: true,
+  taxableAmount: true,
+  amount: true,
+});
+
+/** An invoice's stored tax breakdown, highest rate first, for receipts. */
+export function invoiceTaxLines(
+  taxes: Prisma.InvoiceTaxGetPayload<{ select: typeof invoiceTaxSelect }>[]
+): InvoiceTaxLine[] {
+  return taxes
+    .map((line) => ({
+      name: line.name,
+      rate: Number(line.rate),
+      inclusive: line.inclusive,
+      taxableAmount: Number(line.taxableAmount),
+      amount: Number(line.amount),
+    }))
+    .sort((a, b) => b.rate - a.rate);
+}
+
+/** Whether a tax class chosen for a service or product is one of the salon's own. No class is always fine. */
+export async function isSalonTaxClass(salonId: string, taxClassId: string | null | undefined): Promise<boolean> {
+  if (!taxClassId) return true;
+  return (await prisma.taxClass.count({ where: { id: taxClassId, salonId } })) > 0;
+}
+
+/**
+ * Store a sale's computed tax: the rate and net amount on each line, so
+ * returns refund what was actually charged, and the invoice's breakdown by
+ * rate for receipts and tax filing. `items` and `rates` line up with the
+ * lines `saleTax` was computed from.
+ */
+export async function recordSaleTax(
+  tx: Prisma.TransactionClient,
+  params: {
+    invoiceId: string;
+    salonId: string;
+    items: { id: string }[];
+    rates: (TaxRate | null)[];
+    saleTax: SaleTax;
+  }
+): Promise<void> {
+  for (const [index, item] of params.items.entries()) {
+    const rate = params.rates[index];
+    const line = params.saleTax.lines[index];
+    await tx.saleItem.update({
+      where: { id: item.id },
+      data: {
+        taxRate: rate?.rate ?? null,
+        taxInclusive: rate?.inclusive ?? false,
+        netAmount: line.net,
+        tax: line.tax,
+      },
+    });
+  }
+
+  if (params.saleTax.breakdown.length > 0) {
+    await tx.invoiceTax.createMany({
+      data: params.saleTax.breakdown.map((line) => ({
+        invoiceId: params.invoiceId,
+        salonId: params.salonId,
+        taxClassId: line.taxClassId,
+        name: line.name,
+        rate: line.rate,
+        inclusive: line.inclusive,
+        taxableAmount: line.taxableAmount,
+        amount: line.amount,
+      })),
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import "server-only";
+import { Prisma } from "@prisma/client";
+import { dateRangeToInterval } from "@/lib/availability";
+
+export interface StaffTips {
+  tips: number;
+  tipIds: string[];
+}
+
+/**
+ * Tips left on invoices paid in a payroll period that have not been paid out
+ * in another live run. Tips in cancelled runs become payable again.
+ */
+export async function collectUnpaidTips(
+  tx: Prisma.TransactionClient,
+  params: { salonId: string; periodStart: Date; periodEnd: Date; timezone: string }
+): Promise<Map<string, StaffTips>> {
+  const interval = dateRangeToInterval(params.periodStart, params.periodEnd, params.timezone);
+
+  const tips = await tx.tip.findMany({
+    where: {
+      salonId: params.salonId,
+      invoice: { paidAt: { gte: new Date(interval.start), lt: new Date(interval.end) } },
+      OR: [
+        { payrollEntryId: null },
+        { payrollEntry: { payrollRun: { status: "CANCELLED" } } },
+      ],
+    },
+    select: { id: true, staffId: true, amount: true },
+  });
+
+  const result = new Map<string, StaffTips>();
+  for (const tip of tips) {
+    const entry = result.get(tip.staffId) ?? { tips: 0, tipIds: [] };
+    entry.tips = Math.round((entry.tips + Number(tip.amount)) * 100) / 100;
+    entry.tipIds.push(tip.id);
+    result.set(tip.staffId, entry);
+  }
+  return result;
+}
@@ -0,0 +1,156 @@
+export type BarcodeSymbology = "EAN13" | "CODE128";
+
+export const BARCODE_SYMBOLOGY_LABELS: Record<BarcodeSymbology, string> = {
+  EAN13: "EAN-13",
+  CODE128: "Code 128",
+};
+
+export interface Barcode {
+  symbology: BarcodeSymbology;
+  text: string; // Human-readable line printed under the bars
+  modules: string; // One character per module: "1" bar, "0" space, quiet zones included
+}
+
+// Bar/space widths of each Code 128 symbol value, 0-105 then stop
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_CODE_B = 100;
+const CODE128_CODE_C = 99;
+const CODE128_STOP = 106;
+const CODE128_QUIET_ZONE = 10;
+
+// Left-hand odd parity digits; even parity and right-hand digits derive from these
+const EAN_L_CODES = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+// Which of digits 2-7 use even parity, chosen by the first digit
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+const EAN_LEFT_QUIET_ZONE = 11;
+const EAN_RIGHT_QUIET_ZONE = 7;
+
+function widthsToModules(widths: string): string {
+  return [...widths].map((w, i) => (i % 2 === 0 ? "1" : "0").repeat(Number(w))).join("");
+}
+
+/** Check digit for the first 12 digits of an EAN-13. */
+export function ean13CheckDigit(digits: string): number {
+  const sum = [...digits.slice(0, 12)].reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/** Whether a code is 13 digits ending in the right check digit. */
+export function isValidEan13(code: string): boolean {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code) === Number(code[12]);
+}
+
+/** Whether a code only uses characters Code 128 can print (ASCII space to tilde). */
+export function isCode128Encodable(code: string): boolean {
+  return code.length > 0 && /^[\x20-\x7e]+$/.test(code);
+}
+
+/**
+ * Symbol values for a Code 128 barcode. Runs of four or more digits are packed
+ * two to a symbol with code set C; everything else uses code set B.
+ */
+function code128Values(code: string): number[] {
+  const values: number[] = [];
+  let set: "B" | "C" | null = null;
+  let i = 0;
+
+  while (i < code.length) {
+    const digitRun = code.slice(i).match(/^\d+/)?.[0].length ?? 0;
+    // Switching to C only pays off for four digits, or two at the very start or end
+    const useC =
+      digitRun >= 4 || (digitRun >= 2 && digitRun % 2 === 0 && (i === 0 || i + digitRun === code.length));
+
+    if (useC) {
+      // An odd run leaves its first digit in set B so the rest pair up
+      if (digitRun % 2 === 1) {
+        if (set !== "B") values.push(set === null ? CODE128_START_B : CODE128_CODE_B);
+        set = "B";
+        values.push(code.charCodeAt(i) - 32);
+        i++;
+      }
+      if (set !== "C") values.push(set === null ? CODE128_START_C : CODE128_CODE_C);
+      set = "C";
+      const end = i + digitRun - (digitRun % 2);
+      for (; i < end; i += 2) values.push(Number(code.slice(i, i + 2)));
+    } else {
+      if (set !== "B") values.push(set === null ? CODE128_START_B : CODE128_CODE_B);
+      set = "B";
+      values.push(code.charCodeAt(i) - 32);
+      i++;
+    }
+  }
+
+  return values;
+}
+
+export function encodeCode128(code: string): Barcode {
+  if (!isCode128Encodable(code)) {
+    throw new Error("Code 128 can only encode printable ASCII characters");
+  }
+
+  const values = code128Values(code);
+  const checksum = values.reduce((acc, value, i) => acc + value * Math.max(i, 1), 0) % 103;
+  const quiet = "0".repeat(CODE128_QUIET_ZONE);
+
+  return {
+    symbology: "CODE128",
+    text: code,
+    modules:
+      quiet +
+      [...values, checksum, CODE128_STOP].map((value) => widthsToModules(CODE128_PATTERNS[value])).join("") +
+      quiet,
+  };
+}
+
+export function encodeEan13(code: string): Barcode {
+  if (!isValidEan13(code)) {
+    throw new Error("EAN-13 needs 13 digits with a valid check digit");
+  }
+
+  const parity = EAN_PARITY[Number(code[0])];
+  const rightCode = (d: string) => [...EAN_L_CODES[Number(d)]].map((bit) => (bit === "1" ? "0" : "1")).join("");
+  const left = [...code.slice(1, 7)]
+    .map((d, i) => (parity[i] === "L" ? EAN_L_CODES[Number(d)] : [...rightCode(d)].reverse().join("")))
+    .join("");
+  const right = [...code.slice(7)].map(rightCode).join("");
+
+  return {
+    symbology: "EAN13",
+    text: code,
+    modules: "0".repeat(EAN_LEFT_QUIET_ZONE) + "101" + left + "01010" + right + "101" + "0".repeat(EAN_RIGHT_QUIET_ZONE),
+  };
+}
+
+/**
+ * Barcode for a product label: EAN-13 when the SKU already is a valid
+ * EAN-13 (so manufacturer codes scan the same as on the packaging),
+ * Code 128 otherwise. Null when the SKU can't be encoded at all.
+ */
+export function encodeSkuBarcode(sku: string): Barcode | null {
+  if (isValidEan13(sku)) return encodeEan13(sku);
+  if (isCode128Encodable(sku)) return encodeCode128(sku);
+  return null;
+}
+
+/** Collapse a module string into bars, as offsets and widths in modules. */
+export function barcodeBars(modules: string): { x: number; width: number }[] {
+  const bars: { x: number; width: number }[] = [];
+  for (const match of modules.matchAll(/1+/g)) {
+    bars.push({ x: match.index, width: match[0].length });
+  }
+  return bars;
+}
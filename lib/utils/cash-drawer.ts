@@ -0,0 +1,64 @@
+import { getCurrencyDecimals } from "@/lib/utils/currency";
+
+/** Notes and coins counted at close: how many of each face value. */
+export interface DenominationCount {
+  value: number;
+  count: number;
+}
+
+// Common notes and coins; currencies without minor units skip the coins below 1
+const CASH_DENOMINATIONS: Record<string, number[]> = {
+  USD: [100, 50, 20, 10, 5, 1, 0.25, 0.1, 0.05, 0.01],
+  CAD: [100, 50, 20, 10, 5, 2, 1, 0.25, 0.1, 0.05],
+  AUD: [100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05],
+  GBP: [50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  EUR: [500, 200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  JPY: [10000, 5000, 1000, 500, 100, 50, 10, 5, 1],
+  PKR: [5000, 1000, 500, 100, 50, 20, 10, 5, 2, 1],
+  INR: [500, 200, 100, 50, 20, 10, 5, 2, 1],
+};
+const DEFAULT_DENOMINATIONS = [500, 200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.01];
+
+/** Face values offered in the closing count, largest first. */
+export function cashDenominations(currencyCode: string): number[] {
+  const known = CASH_DENOMINATIONS[currencyCode];
+  if (known) return known;
+  return getCurrencyDecimals(currencyCode) === 0
+    ? DEFAULT_DENOMINATIONS.filter((value) => value >= 1)
+    : DEFAULT_DENOMINATIONS;
+}
+
+/** Total of a denomination count, added up in cents so coins don't drift. */
+export function countedCashTotal(denominations: DenominationCount[]): number {
+  return denominations.reduce((sum, d) => sum + Math.round(d.value * 100) * d.count, 0) / 100;
+}
+
+/** Cash the drawer should hold: the float plus cash taken, less cash paid back or out. */
+export interface CashDrawerTotals {
+  openingFloat: number;
+  cashSales: number; // CASH payments received: sales, deposits and fees
+  cashRefunds: number;
+  payIns: number;
+  payOuts: number;
+  expected: number;
+}
+
+export function expectedCash(totals: Omit<CashDrawerTotals, "expected">): number {
+  const cents = Math.round(totals.openingFloat * 100)
+    + Math.round(totals.cashSales * 100)
+    - Math.round(totals.cashRefunds * 100)
+    + Math.round(totals.payIns * 100)
+    - Math.round(totals.payOuts * 100);
+  return cents / 100;
+}
+
+/** Counted less expected: positive is over, negative is short. */
+export function cashVariance(counted: number, expected: number): number {
+  return (Math.round(counted * 100) - Math.round(expected * 100)) / 100;
+}
+
+export function varianceLabel(variance: number): "Over" | "Short" | "Balanced" {
+  if (variance > 0) return "Over";
+  if (variance < 0) return "Short";
+  return "Balanced";
+}
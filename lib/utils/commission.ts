@@ -0,0 +1,39 @@
+export interface CommissionRates {
+  serviceRate: number;
+  retailRate: number;
+  tiers: { minRevenue: number; rate: number }[];
+  serviceRates: { serviceId: string; rate: number }[];
+}
+
+/**
+ * Commission % for a sale line. A per-service override wins; otherwise
+ * services earn the highest tier reached by the staff member's service
+ * revenue for the period (or the base service rate), and products earn the
+ * retail rate.
+ */
+export function commissionRateFor(
+  plan: CommissionRates,
+  line: { serviceId: string | null; productId: string | null },
+  periodServiceRevenue: number
+): number {
+  if (line.productId) return plan.retailRate;
+  if (!line.serviceId) return 0;
+
+  const override = plan.serviceRates.find((r) => r.serviceId === line.serviceId);
+  if (override) return override.rate;
+
+  let rate = plan.serviceRate;
+  let reached = -1;
+  for (const tier of plan.tiers) {
+    if (periodServiceRevenue >= tier.minRevenue && tier.minRevenue > reached) {
+      rate = tier.rate;
+      reached = tier.minRevenue;
+    }
+  }
+  return rate;
+}
+
+/** Commission on an amount at a % rate, rounded to cents. */
+export function commissionAmount(revenue: number, rate: number): number {
+  return Math.round(revenue * rate) / 100;
+}
@@ -0,0 +1,25 @@
+import { AmountType } from "@prisma/client";
+
+/**
+ * Resolves a fixed-or-percentage rule against a service price, rounded to
+ * cents and capped at the price. Used for booking deposits and for the
+ * no-show / late cancellation fees.
+ */
+export function calculateRuleAmount(type: AmountType | null, value: number | null, price: number): number {
+  if (!type || !value || value <= 0 || price <= 0) return 0;
+  const raw = type === "PERCENTAGE" ? (price * value) / 100 : value;
+  return Math.round(Math.min(raw, price) * 100) / 100;
+}
+
+/** Deposit required to book a service, or 0 if the service takes none. */
+export function getServiceDeposit(service: {
+  price: number | { toString(): string };
+  depositType: AmountType | null;
+  depositValue: number | { toString(): string } | null;
+}): number {
+  return calculateRuleAmount(
+    service.depositType,
+    service.depositValue === null ? null : Number(service.depositValue),
+    Number(service.price)
+  );
+}
@@ -0,0 +1,25 @@
+// Unambiguous characters only — no 0/O, 1/I/L
+const CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+/** A random code in the form GC-XXXX-XXXX-XXXX. */
+export function generateGiftCardCode(): string {
+  const bytes = new Uint8Array(12);
+  crypto.getRandomValues(bytes);
+  const chars = Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+  return `GC-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+/** Canonical form of a code typed at the till: upper-case, dashes restored. */
+export function normalizeGiftCardCode(input: string): string {
+  const chars = input.toUpperCase().replace(/[^0-9A-Z]/g, "").replace(/^GC/, "");
+  if (chars.length !== 12) return input.trim().toUpperCase();
+  return `GC-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+/** Whether a card can still be spent. Expired cards keep their balance on record. */
+export function isGiftCardRedeemable(
+  card: { status: string; expiresAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  return card.status === "ACTIVE" && (!card.expiresAt || card.expiresAt > now);
+}
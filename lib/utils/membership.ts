@@ -0,0 +1,15 @@
+/**
+ * Member discount on a line, rounded to cents. Shared by checkout (preview)
+ * and createSale so the cart total matches what the sale records.
+ */
+export function memberLineDiscount(price: number, quantity: number, percent: number): number {
+  if (percent <= 0 || price <= 0) return 0;
+  return Math.round(price * quantity * percent) / 100;
+}
+
+/** "Monthly", "Every 3 months", ... */
+export function formatBillingInterval(months: number): string {
+  if (months === 1) return "Monthly";
+  if (months === 12) return "Yearly";
+  return `Every ${months} months`;
+}
@@ -0,0 +1,25 @@
+/**
+ * Splits a package price across its sessions in proportion to each service's
+ * list price, so each session used recognizes its share of the deferred
+ * revenue. Falls back to an even split when the services have no price.
+ * Returns the per-session value for each item, rounded to cents.
+ */
+export function allocateSessionValues(
+  packagePrice: number,
+  items: { servicePrice: number; sessions: number }[]
+): number[] {
+  const listTotal = items.reduce((sum, i) => sum + i.servicePrice * i.sessions, 0);
+  const totalSessions = items.reduce((sum, i) => sum + i.sessions, 0);
+  return items.map((item) => {
+    const share = listTotal > 0 ? item.servicePrice / listTotal : 1 / totalSessions;
+    return Math.round(packagePrice * share * 100) / 100;
+  });
+}
+
+/** Whether a client package can still be used. Expired packages keep their sessions on record. */
+export function isClientPackageUsable(
+  pkg: { status: string; expiresAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  return pkg.status === "ACTIVE" && (!pkg.expiresAt || pkg.expiresAt > now);
+}
@@ -0,0 +1,89 @@
+import { PromotionDiscountType } from "@prisma/client";
+
+/** What a promotion takes off, and which lines it applies to. */
+export interface PromotionTerms {
+  discountType: PromotionDiscountType;
+  discountValue: number;
+  maxDiscount: number | null;
+  minSpend: number | null;
+  // Empty lists mean every service and product
+  serviceIds: string[];
+  productIds: string[];
+  categories: string[];
+}
+
+export interface PromotionLine {
+  serviceId: string | null;
+  productId: string | null;
+  category: string | null;
+  price: number;
+  quantity: number;
+  memberDiscount: number; // Already taken off this line
+}
+
+/** Canonical form of a promo code: upper-case, no spaces. */
+export function normalizePromoCode(input: string): string {
+  return input.trim().toUpperCase().replace(/\s+/g, "");
+}
+
+/**
+ * Whether a promotion covers a line. Gift cards and packages are never
+ * discounted; an unscoped promotion covers every service and product.
+ */
+export function isLineInScope(terms: PromotionTerms, line: PromotionLine): boolean {
+  if (!line.serviceId && !line.productId) return false;
+  if (terms.serviceIds.length === 0 && terms.productIds.length === 0 && terms.categories.length === 0) {
+    return true;
+  }
+  return (
+    (!!line.serviceId && terms.serviceIds.includes(line.serviceId)) ||
+    (!!line.productId && terms.productIds.includes(line.productId)) ||
+    (!!line.category && terms.categories.includes(line.category))
+  );
+}
+
+/**
+ * The discount a promotion gives on a cart, and its split across lines in
+ * proportion to each line's value after member pricing, in whole cents with
+ * any remainder on the first lines. Minimum spend is measured on the lines in
+ * scope; below it there is no discount.
+ */
+export function applyPromotion(
+  terms: PromotionTerms,
+  lines: PromotionLine[]
+): { eligibleSpend: number; discount: number; lineDiscounts: number[] } {
+  const values = lines.map((line) =>
+    isLineInScope(terms, line) ? Math.max(0, Math.round((line.price * line.quantity - line.memberDiscount) * 100)) : 0
+  );
+  const eligibleCents = values.reduce((sum, v) => sum + v, 0);
+  const eligibleSpend = eligibleCents / 100;
+  const none = { eligibleSpend, discount: 0, lineDiscounts: lines.map(() => 0) };
+  if (eligibleCents === 0 || (terms.minSpend !== null && eligibleSpend < terms.minSpend)) return none;
+
+  let discountCents = terms.discountType === "PERCENTAGE"
+    ? Math.round((eligibleCents * terms.discountValue) / 100)
+    : Math.round(terms.discountValue * 100);
+  if (terms.maxDiscount !== null) discountCents = Math.min(discountCents, Math.round(terms.maxDiscount * 100));
+  discountCents = Math.min(discountCents, eligibleCents);
+
+  const cents = values.map((v) => Math.floor((discountCents * v) / eligibleCents));
+  let remainder = discountCents - cents.reduce((sum, c) => sum + c, 0);
+  for (let i = 0; remainder > 0; i = (i + 1) % cents.length) {
+    if (cents[i] < values[i]) {
+      cents[i] += 1;
+      remainder--;
+    }
+  }
+
+  return { eligibleSpend, discount: discountCents / 100, lineDiscounts: cents.map((c) => c / 100) };
+}
+
+/** Short description of the discount, e.g. "20% off (max $15.00)". */
+export function describePromotion(
+  terms: Pick<PromotionTerms, "discountType" | "discountValue" | "maxDiscount">,
+  formatAmount: (amount: number) => string
+): string {
+  if (terms.discountType === "FIXED") return `${formatAmount(terms.discountValue)} off`;
+  const cap = terms.maxDiscount !== null ? ` (max ${formatAmount(terms.maxDiscount)})` : "";
+  return `${terms.discountValue}% off${cap}`;
+}
@@ -0,0 +1,87 @@
+import { PurchaseOrderStatus } from "@prisma/client";
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  DRAFT: "Draft",
+  ORDERED: "Ordered",
+  PARTIALLY_RECEIVED: "Partially received",
+  RECEIVED: "Received",
+  CANCELLED: "Cancelled",
+};
+
+// Statuses whose outstanding units are still expected to arrive
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ["DRAFT", "ORDERED", "PARTIALLY_RECEIVED"];
+
+/**
+ * Cost per unit after receiving a delivery, averaged over the units already
+ * on the shelf and the ones received. Products with no cost yet, or nothing
+ * on the shelf, take the delivery's cost.
+ */
+export function weightedAverageCost(
+  stock: number,
+  cost: number | null,
+  quantityReceived: number,
+  unitCost: number
+): number {
+  const onHand = Math.max(stock, 0);
+  if (cost === null || onHand === 0) return unitCost;
+  const averageCents = (onHand * Math.round(cost * 100) + quantityReceived * Math.round(unitCost * 100)) / (onHand + quantityReceived);
+  return Math.round(averageCents) / 100;
+}
+
+// A reorder aims to last this many days once it arrives
+export const REORDER_COVER_DAYS = 30;
+
+/**
+ * Whether a product should be reordered: it is at its low-stock threshold, or
+ * at its usage rate it will be before an order placed today could arrive.
+ * Units already on order count as stock.
+ */
+export function needsReorder(
+  stock: number,
+  lowStockThreshold: number,
+  onOrder = 0,
+  usage: { dailyUsage: number; leadTimeDays: number } = { dailyUsage: 0, leadTimeDays: 0 }
+): boolean {
+  const expected = stock + onOrder;
+  if (expected <= lowStockThreshold) return true;
+  return usage.dailyUsage > 0 && expected - usage.dailyUsage * usage.leadTimeDays <= lowStockThreshold;
+}
+
+/**
+ * Units to order, less anything already on order. With a usage rate, enough
+ * to cover the supplier's lead time and REORDER_COVER_DAYS after it on top of
+ * the low-stock threshold; without one, enough to reach twice the threshold.
+ * At least one unit is suggested.
+ */
+export function suggestedReorderQuantity(
+  stock: number,
+  lowStockThreshold: number,
+  onOrder = 0,
+  usage: { dailyUsage: number; leadTimeDays: number } = { dailyUsage: 0, leadTimeDays: 0 }
+): number {
+  const target = usage.dailyUsage > 0
+    ? lowStockThreshold + Math.ceil(usage.dailyUsage * (usage.leadTimeDays + REORDER_COVER_DAYS))
+    : Math.max(lowStockThreshold * 2, 1);
+  return Math.max(target - Math.max(stock, 0) - onOrder, 1);
+}
+
+/** Total of a purchase order's lines, in currency units. */
+export function purchaseOrderTotal(items: { quantity: number; unitCost: number }[]): number {
+  return items.reduce((sum, item) => sum + Math.round(item.unitCost * 100) * item.quantity, 0) / 100;
+}
+
+export interface ReorderSuggestion {
+  productId: string;
+  name: string;
+  sku: string | null;
+  stock: number;
+  lowStockThreshold: number;
+  cost: number | null;
+  supplierId: string | null;
+  supplierName: string | null;
+  leadTimeDays: number | null;
+  onOrder: number; // Outstanding on open purchase orders
+  dailyUsage: number; // Units a day sold or used on services, over the recent window
+  daysOfCover: number | null; // Null = not used recently
+  suggestedQuantity: number;
+}
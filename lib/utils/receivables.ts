@@ -0,0 +1,79 @@
+import { InvoiceStatus } from "@prisma/client";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+
+/** Days a pay-later invoice is given at checkout unless the front desk picks another date. */
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+/** Aging buckets by days past the due date; invoices not yet past due are current. */
+export const AGING_BUCKETS = [
+  { key: "current", label: "Current" },
+  { key: "0-30", label: "0-30 days" },
+  { key: "31-60", label: "31-60 days" },
+  { key: "61-90", label: "61-90 days" },
+  { key: "90+", label: "90+ days" },
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]["key"];
+
+/**
+ * The calendar date an invoice is due, as yyyy-MM-dd. Invoices raised before
+ * due dates existed are treated as due on the day they were issued.
+ */
+export function invoiceDueDate(
+  invoice: { dueDate: Date | null; issuedAt: Date },
+  timezone: string
+): string {
+  return invoice.dueDate
+    ? formatDateOnly(invoice.dueDate, "yyyy-MM-dd")
+    : formatInTz(invoice.issuedAt, "yyyy-MM-dd", timezone);
+}
+
+/** Whole days from a due date to today (both yyyy-MM-dd); zero or less until it is past due. */
+export function daysPastDue(dueDate: string, today: string): number {
+  return Math.round((Date.parse(`${today}T00:00:00Z`) - Date.parse(`${dueDate}T00:00:00Z`)) / 86_400_000);
+}
+
+export function agingBucket(days: number): AgingBucket {
+  if (days <= 0) return "current";
+  if (days <= 30) return "0-30";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+}
+
+/** What is still owed on an invoice, worked out in cents. */
+export function invoiceBalance(total: number, paid: number): number {
+  return Math.max(0, Math.round(total * 100) - Math.round(paid * 100)) / 100;
+}
+
+/**
+ * Whether an open invoice can be cancelled outright. Checkout has already
+ * taken stock, awarded points and issued what was sold, which only a refund
+ * reverses, so that leaves unpaid membership renewals.
+ */
+export function isInvoiceCancellable(invoice: {
+  paymentCount: number;
+  items: { billedMembershipId: string | null }[];
+}): boolean {
+  return invoice.paymentCount === 0 && invoice.items.every((item) => item.billedMembershipId !== null);
+}
+
+export interface OpenInvoice {
+  id: string;
+  invoiceNumber: string;
+  saleId: string;
+  status: InvoiceStatus;
+  issuedAt: Date;
+  dueDate: string; // yyyy-MM-dd
+  total: number;
+  paid: number;
+  balance: number;
+  daysPastDue: number;
+}
+
+/** A client's unpaid invoices at a branch. */
+export interface ClientAccount {
+  invoices: OpenInvoice[];
+  outstanding: number;
+  overdue: number; // Owed on invoices past their due date
+}
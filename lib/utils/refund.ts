@@ -0,0 +1,62 @@
+import { RefundMethod } from "@prisma/client";
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  ORIGINAL: "Original payment",
+  STORE_CREDIT: "Store credit",
+};
+
+/** What a sale's invoice charged, used to price the lines being returned. */
+export interface RefundBasis {
+  saleTotal: number; // sale.totalAmount less the promotion discount, which is already off each line
+  invoiceAmount: number; // invoice.amount: after discounts and redeemed points, before tax
+  invoiceTax: number;
+  untaxedValue: number; // Gift card lines, which are sold tax-free
+}
+
+/**
+ * Services and products can be returned line by line. Gift cards and
+ * packages are refunded by voiding them, and lines paid with a package
+ * session or membership credit carried no charge.
+ */
+export function isLineRefundable(item: {
+  serviceId: string | null;
+  productId: string | null;
+  price: number;
+}): boolean {
+  return (!!item.serviceId || !!item.productId) && item.price > 0;
+}
+
+/** A line's unit price after its share of the promotion discount. */
+export function netUnitPrice(item: { price: number; discount: number; quantity: number }): number {
+  return item.quantity > 0 ? item.price - item.discount / item.quantity : item.price;
+}
+
+/**
+ * What the client paid per unit of a line, tax included, from the tax
+ * recorded on it at invoicing. Null for lines invoiced before per-line tax.
+ */
+export function paidUnitPrice(item: { netAmount: number | null; tax: number; quantity: number }): number | null {
+  if (item.netAmount === null || item.quantity <= 0) return null;
+  return (item.netAmount + item.tax) / item.quantity;
+}
+
+/**
+ * What the client paid for `quantity` units of a line. Lines with recorded
+ * tax use what was charged for them (`unitPaid`); older lines are priced at
+ * their list price less their share of sale-level discounts and redeemed
+ * points, spread in proportion to price, plus their share of tax. Rounded
+ * to cents.
+ */
+export function lineRefundAmount(
+  unitPrice: number,
+  quantity: number,
+  basis: RefundBasis,
+  unitPaid: number | null = null
+): number {
+  if (unitPaid !== null) return Math.round(unitPaid * quantity * 100) / 100;
+  if (basis.saleTotal <= 0) return 0;
+  const net = unitPrice * quantity * (basis.invoiceAmount / basis.saleTotal);
+  const taxable = basis.invoiceAmount - basis.untaxedValue;
+  const tax = taxable > 0 ? net * (basis.invoiceTax / taxable) : 0;
+  return Math.round((net + tax) * 100) / 100;
+}
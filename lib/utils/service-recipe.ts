@@ -0,0 +1,31 @@
+// Recipe quantities are kept to thousandths of a unit
+const toThousandths = (n: number) => Math.round(n * 1000);
+
+/** Cost of the products one performance of a service uses up. Products with no cost count as free. */
+export function recipeCost(items: { quantity: number; cost: number | null }[]): number {
+  const cents = items.reduce(
+    (sum, item) => sum + (item.cost === null ? 0 : (toThousandths(item.quantity) * Math.round(item.cost * 100)) / 1000),
+    0
+  );
+  return Math.round(cents) / 100;
+}
+
+/**
+ * Take `quantity` units of a backbar product, starting with what is left in
+ * the unit already open. Returns how many new units have to be opened (taken
+ * out of stock) and what is left open afterwards.
+ */
+export function drawBackbarUnits(remaining: number, quantity: number): { opened: number; remaining: number } {
+  const left = toThousandths(remaining);
+  const needed = toThousandths(quantity);
+  if (needed <= left) {
+    return { opened: 0, remaining: (left - needed) / 1000 };
+  }
+  const opened = Math.ceil((needed - left) / 1000);
+  return { opened, remaining: (left + opened * 1000 - needed) / 1000 };
+}
+
+/** A recipe quantity for display: up to three decimals, without trailing zeros. */
+export function formatRecipeQuantity(quantity: number): string {
+  return String(toThousandths(quantity) / 1000);
+}
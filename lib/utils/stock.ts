@@ -0,0 +1,29 @@
+import { StockMovementType } from "@prisma/client";
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  SALE: "Sale",
+  REFUND: "Return",
+  RECEIPT: "Delivery",
+  ADJUSTMENT: "Adjustment",
+  DAMAGE: "Damage",
+  TRANSFER: "Transfer",
+  BACKBAR_USE: "Backbar use",
+};
+
+export interface StockDrift {
+  productId: string;
+  name: string;
+  sku: string | null;
+  stock: number;
+  ledgerStock: number; // What the movements add up to
+  drift: number; // stock - ledgerStock
+}
+
+// Sales and backbar use over this many days set how fast a product is used
+export const STOCK_USAGE_WINDOW_DAYS = 30;
+
+/** Days the units on the shelf last at the given daily usage; null when the product isn't being used. */
+export function daysOfCover(stock: number, dailyUsage: number): number | null {
+  if (dailyUsage <= 0) return null;
+  return Math.round((Math.max(stock, 0) / dailyUsage) * 10) / 10;
+}
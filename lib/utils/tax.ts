@@ -0,0 +1,129 @@
+/** The rate a line is taxed at, and whether its price already includes the tax. */
+export interface TaxRate {
+  taxClassId: string | null; // Null = the salon's standard rate
+  name: string;
+  rate: number; // percentage
+  inclusive: boolean;
+}
+
+export interface TaxClassRate {
+  id: string;
+  name: string;
+  rate: number;
+  pricesIncludeTax: boolean;
+}
+
+export const STANDARD_TAX_NAME = "Tax";
+
+/** Label for a tax class in pickers, e.g. "Retail VAT (20%, included in price)". */
+export function describeTaxClass(taxClass: TaxClassRate): string {
+  return `${taxClass.name} (${taxClass.rate}%${taxClass.pricesIncludeTax ? ", included in price" : ""})`;
+}
+
+/** A line's tax class, or the salon's standard rate (charged on top of price) for items without one. */
+export function taxRateFor(taxClass: TaxClassRate | null, standardRate: number): TaxRate {
+  return taxClass
+    ? { taxClassId: taxClass.id, name: taxClass.name, rate: taxClass.rate, inclusive: taxClass.pricesIncludeTax }
+    : { taxClassId: null, name: STANDARD_TAX_NAME, rate: standardRate, inclusive: false };
+}
+
+/** An amount with any tax included in it taken out, for revenue figures. */
+export function excludingTax(amount: number, line: { taxRate: number | null; taxInclusive: boolean }): number {
+  return line.taxInclusive && line.taxRate ? (amount * 100) / (100 + line.taxRate) : amount;
+}
+
+export interface TaxLine {
+  value: number; // The line before sale-level discounts: price × quantity less its promotion discount
+  taxRate: TaxRate | null; // Null = not taxed, e.g. gift cards
+}
+
+/** One line of an invoice's tax breakdown, as shown on receipts. */
+export interface InvoiceTaxLine {
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  taxableAmount: number; // Net of tax
+  amount: number;
+}
+
+export interface TaxBreakdownLine extends InvoiceTaxLine {
+  taxClassId: string | null;
+}
+
+/** Receipt label for a tax line; inclusive tax is already in the prices above it. */
+export function taxLineLabel(line: Pick<InvoiceTaxLine, "name" | "rate" | "inclusive">): string {
+  return `${line.inclusive ? "Includes " : ""}${line.name} (${line.rate}%)`;
+}
+
+export interface SaleTax {
+  lines: { net: number; tax: number }[];
+  net: number; // What was charged, less any tax included in prices
+  tax: number;
+  total: number;
+  breakdown: TaxBreakdownLine[];
+}
+
+/**
+ * Tax on a sale charged `amount` before tax (after every discount and
+ * redeemed points). Untaxed lines keep their full value; the rest of the
+ * amount is spread over the taxed lines in proportion to value, in whole
+ * cents with any remainder on the first lines, and each line is taxed at
+ * its own rate. Inclusive tax is carved out of what was charged, exclusive
+ * tax is added on top.
+ */
+export function computeSaleTax(lines: TaxLine[], amount: number): SaleTax {
+  const amountCents = Math.round(amount * 100);
+  const values = lines.map((line) => Math.max(0, Math.round(line.value * 100)));
+  const untaxedCents = lines.reduce((sum, line, i) => sum + (line.taxRate ? 0 : values[i]), 0);
+  const taxedValueCents = lines.reduce((sum, line, i) => sum + (line.taxRate ? values[i] : 0), 0);
+  const chargeableCents = Math.max(0, amountCents - untaxedCents);
+
+  const charged = lines.map((line, i) =>
+    line.taxRate && taxedValueCents > 0 ? Math.floor((chargeableCents * values[i]) / taxedValueCents) : 0
+  );
+  let remainder = taxedValueCents > 0 ? chargeableCents - charged.reduce((sum, c) => sum + c, 0) : 0;
+  for (let i = 0; remainder > 0; i = (i + 1) % lines.length) {
+    if (lines[i].taxRate && values[i] > 0) {
+      charged[i] += 1;
+      remainder--;
+    }
+  }
+
+  const breakdown = new Map<string, TaxBreakdownLine>();
+  let inclusiveCents = 0;
+  let taxCents = 0;
+  const taxed = lines.map((line, i) => {
+    const rate = line.taxRate;
+    if (!rate) return { net: values[i] / 100, tax: 0 };
+
+    const tax = rate.inclusive
+      ? Math.round((charged[i] * rate.rate) / (100 + rate.rate))
+      : Math.round((charged[i] * rate.rate) / 100);
+    const net = rate.inclusive ? charged[i] - tax : charged[i];
+    if (rate.inclusive) inclusiveCents += tax;
+    taxCents += tax;
+
+    // A zero standard rate means the salon charges no tax; leave it off the breakdown
+    if (net > 0 && (rate.rate > 0 || rate.taxClassId)) {
+      const key = [rate.taxClassId ?? "", rate.name, rate.rate, rate.inclusive].join("|");
+      const group = breakdown.get(key) ?? { ...rate, taxableAmount: 0, amount: 0 };
+      group.taxableAmount += net;
+      group.amount += tax;
+      breakdown.set(key, group);
+    }
+    return { net: net / 100, tax: tax / 100 };
+  });
+
+  const netCents = amountCents - inclusiveCents;
+  return {
+    lines: taxed,
+    net: netCents / 100,
+    tax: taxCents / 100,
+    total: (netCents + taxCents) / 100,
+    breakdown: [...breakdown.values()].map((group) => ({
+      ...group,
+      taxableAmount: group.taxableAmount / 100,
+      amount: group.amount / 100,
+    })),
+  };
+}
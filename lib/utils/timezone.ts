@@ -29,6 +29,16 @@ export function formatDateOnly(date: Date | string, pattern: string): string {
   return format(utcDate, pattern);
 }
 
+/**
+ * Returns when a calendar day (a @db.Date or "yyyy-MM-dd" value) begins in the
+ * salon timezone, as a UTC Date for Prisma queries. `addDays` shifts the day,
+ * so `addDays = 1` gives the exclusive end of the day.
+ */
+export function startOfDayInTz(date: Date | string, tz: string, addDays = 0): Date {
+  const d = new Date(date);
+  return new Date(new TZDate(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + addDays, tz).getTime());
+}
+
 /**
  * Returns today's start/end as UTC Dates for Prisma queries,
  * based on the salon timezone.
@@ -0,0 +1,58 @@
+export type TipSplit = "even" | "proportional" | "manual";
+
+/** Percentage buttons offered at checkout, applied to the amount due before tax. */
+export const TIP_PRESETS = [10, 15, 20] as const;
+
+export const TIP_SPLIT_LABELS: Record<TipSplit, string> = {
+  even: "Split evenly",
+  proportional: "By service value",
+  manual: "Enter amounts",
+};
+
+export interface TipRecipient {
+  staffId: string;
+  revenue: number;
+}
+
+/**
+ * Staff who share a sale's tip: everyone on a service line, with the value of
+ * the services they performed. Sales without services tip whoever rang them up.
+ */
+export function tipRecipients(
+  items: { serviceId: string | null; staffId: string | null; price: number; quantity: number }[],
+  fallbackStaffId: string
+): TipRecipient[] {
+  const byStaff = new Map<string, number>();
+  for (const item of items) {
+    if (!item.serviceId || !item.staffId) continue;
+    byStaff.set(item.staffId, (byStaff.get(item.staffId) ?? 0) + item.price * item.quantity);
+  }
+  if (byStaff.size === 0) return [{ staffId: fallbackStaffId, revenue: 0 }];
+  return Array.from(byStaff, ([staffId, revenue]) => ({ staffId, revenue }));
+}
+
+/**
+ * Split a tip evenly or in proportion to service value, in whole cents. Any
+ * rounding remainder goes to the first recipients so shares always add up.
+ * Proportional falls back to even when no service carried a price.
+ */
+export function allocateTip(
+  amount: number,
+  recipients: TipRecipient[],
+  split: Exclude<TipSplit, "manual">
+): { staffId: string; amount: number }[] {
+  if (recipients.length === 0) return [];
+  const totalCents = Math.round(amount * 100);
+  const totalRevenue = recipients.reduce((sum, r) => sum + r.revenue, 0);
+  const weights = split === "proportional" && totalRevenue > 0
+    ? recipients.map((r) => r.revenue / totalRevenue)
+    : recipients.map(() => 1 / recipients.length);
+
+  const cents = weights.map((w) => Math.floor(totalCents * w));
+  let remainder = totalCents - cents.reduce((sum, c) => sum + c, 0);
+  for (let i = 0; remainder > 0; i = (i + 1) % cents.length, remainder--) {
+    cents[i] += 1;
+  }
+
+  return recipients.map((r, i) => ({ staffId: r.staffId, amount: cents[i] / 100 }));
+}
@@ -35,6 +35,11 @@ export const recurrenceEndTypeEnum = z.enum([
 
 export type RecurrenceEndTypeType = z.infer<typeof recurrenceEndTypeEnum>;
 
+// Payment methods accepted for deposits and policy fees
+export const depositMethodEnum = z.enum(["CASH", "CARD", "DIGITAL_WALLET", "OTHER"]);
+
+export type DepositMethodType = z.infer<typeof depositMethodEnum>;
+
 // Schema for creating/updating appointments
 export const appointmentSchema = z.object({
   clientId: z.string().min(1, "Client is required"),
@@ -42,6 +47,8 @@ export const appointmentSchema = z.object({
   staffId: z.string().min(1, "Staff member is required"),
   startTime: z.coerce.date({ message: "Start time is required" }),
   notes: z.string().max(500, "Notes must be at most 500 characters").optional().or(z.literal("")),
+  // Take the service's booking deposit with this method (new appointments only)
+  depositMethod: depositMethodEnum.optional(),
 });
 
 // Schema for updating appointment status
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+// Client-entered details on the public booking form
+export const bookingDetailsSchema = z.object({
+  firstName: z
+    .string()
+    .trim()
+    .min(1, "First name is required")
+    .max(50, "First name must be less than 50 characters"),
+  lastName: z
+    .string()
+    .trim()
+    .max(50, "Last name must be less than 50 characters")
+    .optional()
+    .or(z.literal("")),
+  email: z
+    .string()
+    .trim()
+    .min(1, "Email is required")
+    .email("Invalid email address"),
+  phone: z
+    .string()
+    .trim()
+    .min(10, "Phone number must be at least 10 digits")
+    .max(20, "Phone number must be less than 20 characters")
+    .regex(/^[\d\s\-+()]+$/, "Invalid phone number format"),
+  notes: z.string().max(500, "Notes must be less than 500 characters").optional().or(z.literal("")),
+});
+
+// Schema for requesting an online booking (before verification)
+export const bookingRequestSchema = bookingDetailsSchema.extend({
+  slug: z.string().min(1, "Salon is required"),
+  serviceId: z.string().min(1, "Service is required"),
+  staffId: z.string().min(1, "Staff member is required"),
+  startTime: z.coerce.date({ message: "Start time is required" }),
+});
+
+// Schema for public slot lookup — date is a salon-local calendar day
+export const publicSlotsSchema = z.object({
+  slug: z.string().min(1, "Salon is required"),
+  serviceId: z.string().min(1, "Service is required"),
+  staffId: z.string().min(1, "Staff member is required"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+});
+
+// Schema for confirming a booking with the emailed code
+export const bookingVerifySchema = z.object({
+  requestId: z.string().min(1, "Booking request is required"),
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code from your email"),
+});
+
+// Schemas for client self-service links
+export const manageSlotsSchema = z.object({
+  token: z.string().min(1, "Invalid link"),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+});
+
+export const manageRescheduleSchema = z.object({
+  token: z.string().min(1, "Invalid link"),
+  startTime: z.coerce.date({ message: "Start time is required" }),
+});
+
+// Types
+export type BookingDetailsFormData = z.infer<typeof bookingDetailsSchema>;
+export type BookingRequestInput = z.input<typeof bookingRequestSchema>;
+export type PublicSlotsInput = z.infer<typeof publicSlotsSchema>;
+export type BookingVerifyInput = z.infer<typeof bookingVerifySchema>;
+export type ManageSlotsInput = z.infer<typeof manageSlotsSchema>;
+export type ManageRescheduleInput = z.input<typeof manageRescheduleSchema>;
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { CashMovementType } from "@prisma/client";
+
+const cashAmount = z
+  .number()
+  .max(99999999.99, "Amount must not exceed 99,999,999.99");
+
+const note = z
+  .string()
+  .trim()
+  .max(500, "Note must be less than 500 characters")
+  .optional()
+  .transform((value) => value || null);
+
+export const openCashDrawerSchema = z.object({
+  openingFloat: cashAmount.min(0, "Opening float cannot be negative"),
+  note,
+});
+
+export const cashMovementSchema = z.object({
+  type: z.nativeEnum(CashMovementType),
+  amount: cashAmount.min(0.01, "Amount must be positive"),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "Reason is required")
+    .max(200, "Reason must be less than 200 characters"),
+});
+
+export const closeCashDrawerSchema = z.object({
+  denominations: z
+    .array(
+      z.object({
+        value: z.number().positive("Denomination must be positive"),
+        count: z.number().int("Count must be a whole number").min(0, "Count cannot be negative"),
+      })
+    )
+    .refine(
+      (denominations) => new Set(denominations.map((d) => d.value)).size === denominations.length,
+      { message: "Each denomination can only be counted once" }
+    ),
+  note,
+});
+
+export type OpenCashDrawerInput = z.input<typeof openCashDrawerSchema>;
+export type CashMovementInput = z.input<typeof cashMovementSchema>;
+export type CloseCashDrawerInput = z.input<typeof closeCashDrawerSchema>;
@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+const ratePercent = z
+  .number()
+  .min(0, "Commission rate cannot be negative")
+  .max(100, "Commission rate cannot be more than 100%");
+
+export const commissionTierSchema = z.object({
+  minRevenue: z
+    .number()
+    .min(0, "Tier revenue cannot be negative")
+    .max(99999999.99, "Tier revenue must not exceed 99,999,999.99"),
+  rate: ratePercent,
+});
+
+export const commissionServiceRateSchema = z.object({
+  serviceId: z.string().min(1, "Service is required"),
+  rate: ratePercent,
+});
+
+export const commissionPlanSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Plan name is required")
+    .max(100, "Plan name must be less than 100 characters"),
+  serviceRate: ratePercent.default(0),
+  retailRate: ratePercent.default(0),
+  isActive: z.boolean().default(true),
+  // Tiers replace the service rate once period revenue reaches the threshold
+  tiers: z.array(commissionTierSchema).default([]),
+  serviceRates: z.array(commissionServiceRateSchema).default([]),
+  // Staff at this branch who earn under the plan
+  staffIds: z.array(z.string().min(1)).default([]),
+}).refine(
+  (data) => new Set(data.tiers.map((t) => t.minRevenue)).size === data.tiers.length,
+  { message: "Each tier needs a different revenue threshold" }
+).refine(
+  (data) => new Set(data.serviceRates.map((r) => r.serviceId)).size === data.serviceRates.length,
+  { message: "Each service can only have one rate" }
+);
+
+export type CommissionPlanFormData = z.infer<typeof commissionPlanSchema>;
+export type CommissionPlanFormInput = z.input<typeof commissionPlanSchema>;
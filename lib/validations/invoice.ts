@@ -1,38 +1,97 @@
 import { z } from "zod";
-import { InvoiceStatus, PaymentMethod } from "@prisma/client";
+import { InvoiceStatus, PaymentMethod, RefundMethod } from "@prisma/client";
 
 // Schema for invoice search/filter
 export const invoiceSearchSchema = z.object({
   query: z.string().optional(),
   clientId: z.string().optional(),
   status: z.nativeEnum(InvoiceStatus).optional(),
+  // Calendar days in the salon's timezone, both inclusive
   startDate: z.coerce.date().optional(),
   endDate: z.coerce.date().optional(),
+  // Owners can search every branch in their organization
+  branchFilter: z.enum(["current", "all"]).optional(),
   page: z.number().int().positive().optional(),
   limit: z.number().int().positive().max(100).optional(),
 });
 
+// Invoices picked in the invoices table for a bulk export or re-send
+export const bulkInvoiceSchema = z.object({
+  invoiceIds: z
+    .array(z.string().min(1))
+    .min(1, "Select at least one invoice")
+    .max(50, "Select up to 50 invoices at a time"),
+});
+
 // Schema for adding payment to invoice
 export const addPaymentSchema = z.object({
   invoiceId: z.string().min(1, "Invoice ID is required"),
   amount: z.number().min(0.01, "Payment amount must be positive"),
   method: z.nativeEnum(PaymentMethod),
-});
+}).refine(
+  (data) => data.method !== PaymentMethod.GIFT_CARD,
+  { message: "Gift card payments are taken at checkout" }
+).refine(
+  (data) => data.method !== PaymentMethod.EXCHANGE_CREDIT,
+  { message: "Exchange credit is applied when items are exchanged" }
+);
 
 // Schema for updating invoice status
 export const updateInvoiceStatusSchema = z.object({
   status: z.nativeEnum(InvoiceStatus),
 });
 
+// Sale line units being returned
+export const refundItemSchema = z.object({
+  saleItemId: z.string().min(1, "Sale item is required"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  // Put returned products back into stock; off for damaged or used goods
+  restock: z.boolean().default(true),
+});
+
 // Schema for creating a refund
 export const createRefundSchema = z.object({
   invoiceId: z.string().min(1, "Invoice ID is required"),
-  amount: z.number().min(0.01, "Refund amount must be positive"),
+  // Amount-only refunds; with items the amount is worked out from the lines returned
+  amount: z.number().min(0.01, "Refund amount must be positive").optional(),
+  items: z.array(refundItemSchema).default([]),
+  method: z.nativeEnum(RefundMethod).default(RefundMethod.ORIGINAL),
   reason: z.string().max(500, "Reason must be less than 500 characters").optional(),
-});
+}).refine(
+  (data) => data.items.length > 0 || data.amount !== undefined,
+  { message: "Select the items to refund or enter an amount" }
+).refine(
+  (data) => data.items.length === 0 || data.amount === undefined,
+  { message: "Item refunds are calculated from the items returned" }
+);
+
+// Schema for exchanging returned items for other products in one step
+export const createExchangeSchema = z.object({
+  invoiceId: z.string().min(1, "Invoice ID is required"),
+  returnItems: z.array(refundItemSchema).min(1, "Select at least one item to return"),
+  newItems: z
+    .array(z.object({
+      productId: z.string().min(1, "Product is required"),
+      quantity: z.number().int().min(1, "Quantity must be at least 1"),
+    }))
+    .min(1, "Select at least one replacement product"),
+  // How the client pays any difference when the replacement costs more than the return
+  paymentMethod: z.nativeEnum(PaymentMethod).optional(),
+  // How any credit left over after the replacement is returned
+  method: z.nativeEnum(RefundMethod).default(RefundMethod.ORIGINAL),
+  reason: z.string().max(500, "Reason must be less than 500 characters").optional(),
+}).refine(
+  (data) => data.paymentMethod !== PaymentMethod.GIFT_CARD &&
+    data.paymentMethod !== PaymentMethod.LOYALTY_POINTS &&
+    data.paymentMethod !== PaymentMethod.EXCHANGE_CREDIT,
+  { message: "Pay the difference by cash, card, digital wallet or other" }
+);
 
 // Types
 export type InvoiceSearchParams = z.input<typeof invoiceSearchSchema>;
+export type BulkInvoiceInput = z.infer<typeof bulkInvoiceSchema>;
 export type AddPaymentInput = z.infer<typeof addPaymentSchema>;
 export type UpdateInvoiceStatusInput = z.infer<typeof updateInvoiceStatusSchema>;
-export type CreateRefundInput = z.infer<typeof createRefundSchema>;
+export type RefundItemInput = z.infer<typeof refundItemSchema>;
+export type CreateRefundInput = z.input<typeof createRefundSchema>;
+export type CreateExchangeInput = z.input<typeof createExchangeSchema>;
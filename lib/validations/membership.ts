@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+export const membershipPlanCreditSchema = z.object({
+  serviceId: z.string().min(1, "Service is required"),
+  quantity: z
+    .number()
+    .int("Sessions must be a whole number")
+    .min(1, "Each included service needs at least 1 session")
+    .max(31, "A plan can include at most 31 sessions of a service per cycle"),
+});
+
+const discountPercent = z
+  .number()
+  .min(0, "Discount cannot be negative")
+  .max(100, "Discount cannot be more than 100%");
+
+export const membershipPlanSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Plan name is required")
+    .max(100, "Plan name must be less than 100 characters"),
+  description: z
+    .string()
+    .max(500, "Description must be less than 500 characters")
+    .optional()
+    .or(z.literal("")),
+  price: z
+    .number()
+    .min(0, "Price must be a positive number")
+    .max(100000, "Price must be less than $100,000"),
+  billingIntervalMonths: z
+    .number()
+    .int("Billing interval must be a whole number of months")
+    .min(1, "Billing interval must be at least 1 month")
+    .max(12, "Billing interval must be 12 months or less"),
+  serviceDiscountPercent: discountPercent.default(0),
+  productDiscountPercent: discountPercent.default(0),
+  isActive: z.boolean().default(true),
+  // A plan can be discount-only, so included services are optional
+  credits: z.array(membershipPlanCreditSchema).default([]),
+}).refine(
+  (data) => new Set(data.credits.map((c) => c.serviceId)).size === data.credits.length,
+  { message: "Each service can only appear once in a plan" }
+).refine(
+  (data) => data.credits.length > 0 || data.serviceDiscountPercent > 0 || data.productDiscountPercent > 0,
+  { message: "A plan needs included services or a member discount" }
+);
+
+export const enrollMembershipSchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  planId: z.string().min(1, "Plan is required"),
+});
+
+export const cancelMembershipSchema = z.object({
+  id: z.string().min(1),
+  // Otherwise the membership runs to the end of the paid cycle
+  immediately: z.boolean().default(false),
+});
+
+export type MembershipPlanFormData = z.infer<typeof membershipPlanSchema>;
+export type MembershipPlanFormInput = z.input<typeof membershipPlanSchema>;
+export type EnrollMembershipInput = z.infer<typeof enrollMembershipSchema>;
+export type CancelMembershipInput = z.input<typeof cancelMembershipSchema>;
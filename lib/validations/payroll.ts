@@ -41,7 +41,7 @@ export const updatePayrollEntrySchema = z.object({
   id: z.string().min(1, "Entry ID is required"),
   basePay: z
     .number()
-    .positive("Base pay must be greater than 0")
+    .min(0, "Base pay cannot be negative")
     .max(99999999.99, "Base pay must not exceed 99,999,999.99")
     .refine((val) => Math.round(val * 100) / 100 === val, {
       message: "Base pay can have at most 2 decimal places",
@@ -45,6 +45,8 @@ export const productSchema = z.object({
     .max(50, "Category must be less than 50 characters")
     .optional()
     .or(z.literal("")),
+  taxClassId: z.string().min(1).nullable().optional(), // Null = the standard tax rate
+  supplierId: z.string().min(1).nullable().optional(), // Preferred supplier
   isActive: z.boolean().default(true),
 });
 
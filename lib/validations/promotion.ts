@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { PromotionDiscountType } from "@prisma/client";
+import { normalizePromoCode } from "@/lib/utils/promotion";
+
+const optionalAmount = z
+  .number()
+  .min(0.01, "Amount must be positive")
+  .max(99999999.99, "Amount must not exceed 99,999,999.99")
+  .nullable()
+  .default(null);
+
+// Calendar day validation (yyyy-MM-dd, salon-local)
+const dayRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const optionalLimit = z
+  .number()
+  .int("Limit must be a whole number")
+  .min(1, "Limit must be at least 1")
+  .nullable()
+  .default(null);
+
+export const promotionSchema = z.object({
+  code: z
+    .string()
+    .transform(normalizePromoCode)
+    .pipe(
+      z
+        .string()
+        .min(3, "Code must be at least 3 characters")
+        .max(30, "Code must be less than 30 characters")
+        .regex(/^[A-Z0-9_-]+$/, "Code can only contain letters, numbers, dashes and underscores")
+    ),
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+  description: z
+    .string()
+    .max(500, "Description must be less than 500 characters")
+    .optional()
+    .or(z.literal("")),
+  discountType: z.nativeEnum(PromotionDiscountType),
+  discountValue: z
+    .number()
+    .min(0.01, "Discount must be positive")
+    .max(99999999.99, "Discount must not exceed 99,999,999.99"),
+  maxDiscount: optionalAmount,
+  minSpend: optionalAmount,
+  // Valid from the start of the first day to the end of the last, salon time
+  startsOn: z.string().regex(dayRegex, "Start date must be in YYYY-MM-DD format").nullable().default(null),
+  endsOn: z.string().regex(dayRegex, "End date must be in YYYY-MM-DD format").nullable().default(null),
+  usageLimit: optionalLimit,
+  perClientLimit: optionalLimit,
+  firstVisitOnly: z.boolean().default(false),
+  serviceIds: z.array(z.string().min(1)).default([]),
+  productIds: z.array(z.string().min(1)).default([]),
+  categories: z.array(z.string().trim().min(1)).default([]),
+  isActive: z.boolean().default(true),
+}).refine(
+  (data) => data.discountType !== "PERCENTAGE" || data.discountValue <= 100,
+  { message: "Percentage discount cannot be more than 100%" }
+).refine(
+  (data) => data.discountType === "PERCENTAGE" || data.maxDiscount === null,
+  { message: "A maximum discount only applies to percentage promotions" }
+).refine(
+  (data) => !data.startsOn || !data.endsOn || data.endsOn >= data.startsOn,
+  { message: "End date must be on or after start date", path: ["endsOn"] }
+);
+
+export const checkPromoCodeSchema = z.object({
+  code: z.string().min(1, "Enter a promo code").transform(normalizePromoCode),
+  clientId: z.string().min(1).optional(), // Omitted for a walk-in not yet created
+});
+
+export type PromotionFormData = z.infer<typeof promotionSchema>;
+export type PromotionFormInput = z.input<typeof promotionSchema>;
+export type CheckPromoCodeInput = z.input<typeof checkPromoCodeSchema>;
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { PurchaseOrderStatus } from "@prisma/client";
+
+// Calendar day validation (yyyy-MM-dd, salon-local)
+const dayRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const purchaseOrderItemSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  quantity: z
+    .number()
+    .int("Quantity must be a whole number")
+    .min(1, "Quantity must be at least 1")
+    .max(100000, "Quantity must be less than 100,000"),
+  unitCost: z
+    .number()
+    .min(0, "Unit cost cannot be negative")
+    .max(10000, "Unit cost must be less than $10,000")
+    .refine((val) => Math.round(val * 100) / 100 === val, {
+      message: "Unit cost can have at most 2 decimal places",
+    }),
+});
+
+export const purchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Supplier is required"),
+  expectedOn: z.string().regex(dayRegex, "Expected date must be in YYYY-MM-DD format").nullable().default(null),
+  expenseCategoryId: z.string().min(1).nullable().default(null), // Null = "Supplies"
+  notes: z
+    .string()
+    .max(500, "Notes must be less than 500 characters")
+    .optional()
+    .or(z.literal("")),
+  items: z
+    .array(purchaseOrderItemSchema)
+    .min(1, "Add at least one product")
+    .max(200, "A purchase order can have at most 200 lines")
+    .refine((items) => new Set(items.map((i) => i.productId)).size === items.length, {
+      message: "Each product can only appear once",
+    }),
+});
+
+export const purchaseOrderUpdateSchema = purchaseOrderSchema.extend({
+  id: z.string().min(1, "Purchase order ID is required"),
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  purchaseOrderId: z.string().min(1, "Purchase order is required"),
+  lines: z
+    .array(
+      z.object({
+        itemId: z.string().min(1),
+        quantity: z.number().int("Quantity must be a whole number").min(0, "Quantity cannot be negative"),
+      })
+    )
+    .refine((lines) => lines.some((l) => l.quantity > 0), {
+      message: "Enter the quantity received for at least one product",
+    }),
+});
+
+export const purchaseOrderSearchSchema = z.object({
+  status: z.nativeEnum(PurchaseOrderStatus).optional(),
+  supplierId: z.string().optional(),
+  page: z.number().int().positive().optional(),
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+export type PurchaseOrderInput = z.input<typeof purchaseOrderSchema>;
+export type PurchaseOrderUpdateInput = z.input<typeof purchaseOrderUpdateSchema>;
+export type ReceivePurchaseOrderInput = z.input<typeof receivePurchaseOrderSchema>;
+export type PurchaseOrderSearchParams = z.input<typeof purchaseOrderSearchSchema>;
@@ -1,19 +1,43 @@
 import { z } from "zod";
 import { PaymentMethod } from "@prisma/client";
+import { normalizeGiftCardCode } from "@/lib/utils/gift-card";
+import { normalizePromoCode } from "@/lib/utils/promotion";
 
 // Schema for individual sale item
 export const saleItemSchema = z.object({
   serviceId: z.string().min(1).optional(),
   staffId: z.string().min(1).optional(),
   productId: z.string().min(1).optional(),
+  // Sells a gift card worth `price`; the card is issued when the sale is paid
+  giftCard: z.object({
+    recipientName: z.string().trim().max(100, "Recipient name must be less than 100 characters").optional(),
+  }).optional(),
+  // Sells a prepaid service package
+  servicePackageId: z.string().min(1).optional(),
+  // Pays for the service with a session from one of the client's packages
+  clientPackageId: z.string().min(1).optional(),
+  // Pays for the service with an included membership credit
+  membershipId: z.string().min(1).optional(),
   quantity: z.number().int().min(1, "Quantity must be at least 1").default(1),
   price: z.number().min(0, "Price must be a positive number"),
 }).refine(
-  (data) => (data.serviceId && !data.productId) || (!data.serviceId && data.productId),
-  { message: "Exactly one of service or product is required" }
+  (data) => [data.serviceId, data.productId, data.giftCard, data.servicePackageId].filter(Boolean).length === 1,
+  { message: "Exactly one of service, product, gift card or package is required" }
+).refine(
+  (data) => !data.clientPackageId || (data.serviceId && data.price === 0),
+  { message: "Package sessions can only be used for services, at no charge" }
+).refine(
+  (data) => !data.membershipId || (data.serviceId && data.price === 0 && !data.clientPackageId),
+  { message: "Membership credits can only be used for services, at no charge" }
+).refine(
+  (data) => !data.servicePackageId || data.quantity === 1,
+  { message: "Packages are sold one at a time" }
 ).refine(
   (data) => !data.serviceId || data.staffId,
   { message: "Staff member is required for services" }
+).refine(
+  (data) => !data.giftCard || (data.quantity === 1 && data.price >= 1),
+  { message: "Gift cards are sold one at a time with a value of at least 1.00" }
 );
 
 // Schema for creating a sale
@@ -29,30 +53,67 @@ export const createSaleSchema = z.object({
   discountType: z
     .enum(["percentage", "fixed"])
     .default("fixed"),
+  // Applied before the manual discount
+  promoCode: z.string().transform(normalizePromoCode).optional(),
   notes: z
     .string()
     .max(500, "Notes must be less than 500 characters")
     .optional()
     .or(z.literal("")),
+  // Appointments being checked out; marked completed once the sale is paid
+  appointmentIds: z.array(z.string().min(1)).max(20).optional(),
 });
 
 // Schema for payment
 export const paymentSchema = z.object({
   method: z.nativeEnum(PaymentMethod),
   amount: z.number().min(0.01, "Payment amount must be positive"),
+  giftCardCode: z.string().transform(normalizeGiftCardCode).optional(),
+}).refine(
+  (data) => data.method !== PaymentMethod.GIFT_CARD || !!data.giftCardCode,
+  { message: "Gift card code is required" }
+).refine(
+  (data) => data.method !== PaymentMethod.EXCHANGE_CREDIT,
+  { message: "Exchange credit is applied when items are exchanged" }
+);
+
+// Tip paid on top of the invoice total and shared between the staff on the sale
+export const tipSchema = z.object({
+  amount: z
+    .number()
+    .min(0.01, "Tip must be positive")
+    .max(99999999.99, "Tip must not exceed 99,999,999.99"),
+  split: z.enum(["even", "proportional", "manual"]).default("even"),
+  // Manual split: each staff member's share, adding up to the tip
+  allocations: z
+    .array(z.object({
+      staffId: z.string().min(1),
+      amount: z.number().min(0, "Tip share cannot be negative"),
+    }))
+    .default([]),
+}).refine(
+  (data) => data.split !== "manual" || data.allocations.length > 0,
+  { message: "Enter each staff member's share of the tip" }
+);
+
+// Issue the invoice with part or all of the total still owing, due by a date
+export const payLaterSchema = z.object({
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Due date must be in YYYY-MM-DD format"),
 });
 
 // Schema for completing a sale with payment
 export const completeSaleSchema = z.object({
   saleId: z.string().min(1, "Sale ID is required"),
-  payments: z
-    .array(paymentSchema)
-    .min(1, "At least one payment method is required"),
+  payments: z.array(paymentSchema), // May be empty when deposits cover the total
+  // Booking deposits (HELD) credited against this sale
+  depositIds: z.array(z.string().min(1)).default([]),
   redeemPoints: z
     .number()
     .int()
     .min(0, "Points cannot be negative")
     .default(0),
+  tip: tipSchema.optional(),
+  payLater: payLaterSchema.optional(),
 });
 
 // Schema for sale search/filter
@@ -71,4 +132,6 @@ export type SaleItemInput = z.infer<typeof saleItemSchema>;
 export type CreateSaleInput = z.infer<typeof createSaleSchema>;
 export type PaymentInput = z.infer<typeof paymentSchema>;
 export type CompleteSaleInput = z.infer<typeof completeSaleSchema>;
+export type TipInput = z.infer<typeof tipSchema>;
+export type PayLaterInput = z.infer<typeof payLaterSchema>;
 export type SaleSearchParams = z.input<typeof saleSearchSchema>;
@@ -48,11 +48,14 @@ export const weekScheduleSchema = z.object({
   ),
 });
 
+// Calendar day validation (yyyy-MM-dd, salon-local)
+const dayRegex = /^\d{4}-\d{2}-\d{2}$/;
+
 // Schema for time-off request
 export const timeOffSchema = z.object({
   staffId: z.string().min(1, "Staff member is required"),
-  startDate: z.coerce.date({ message: "Start date is required" }),
-  endDate: z.coerce.date({ message: "End date is required" }),
+  startDate: z.string().regex(dayRegex, "Start date is required"),
+  endDate: z.string().regex(dayRegex, "End date is required"),
   reason: z
     .string()
     .max(500, "Reason must be less than 500 characters")
@@ -66,6 +69,52 @@ export const timeOffSchema = z.object({
   }
 );
 
+// Schema for approving or rejecting a time-off request
+export const timeOffReviewSchema = z.object({
+  id: z.string().min(1, "Time-off request is required"),
+  decision: z.enum(["APPROVED", "REJECTED"]),
+});
+
+// Schema for a date-specific schedule override
+export const scheduleOverrideSchema = z.object({
+  staffId: z.string().min(1, "Staff member is required"),
+  date: z.string().regex(dayRegex, "Date is required"),
+  isAvailable: z.boolean(),
+  startTime: z.string().regex(timeRegex, "Start time must be in HH:mm format").optional().or(z.literal("")),
+  endTime: z.string().regex(timeRegex, "End time must be in HH:mm format").optional().or(z.literal("")),
+  reason: z
+    .string()
+    .max(200, "Reason must be less than 200 characters")
+    .optional()
+    .or(z.literal("")),
+}).refine(
+  (data) => !data.isAvailable || (!!data.startTime && !!data.endTime && data.endTime > data.startTime),
+  {
+    message: "End time must be after start time",
+    path: ["endTime"],
+  }
+);
+
+// Schema for a salon holiday (closed all day, or reduced opening hours)
+export const holidaySchema = z.object({
+  date: z.string().regex(dayRegex, "Date is required"),
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+  closedAllDay: z.boolean(),
+  openTime: z.string().regex(timeRegex, "Open time must be in HH:mm format").optional().or(z.literal("")),
+  closeTime: z.string().regex(timeRegex, "Close time must be in HH:mm format").optional().or(z.literal("")),
+  appliesToOrganization: z.boolean().default(false),
+}).refine(
+  (data) => data.closedAllDay || (!!data.openTime && !!data.closeTime && data.closeTime > data.openTime),
+  {
+    message: "Close time must be after open time",
+    path: ["closeTime"],
+  }
+);
+
 // Schema for schedule search/filter
 export const scheduleSearchSchema = z.object({
   staffId: z.string().optional(),
@@ -77,4 +126,7 @@ export const scheduleSearchSchema = z.object({
 export type ScheduleFormData = z.infer<typeof scheduleSchema>;
 export type WeekScheduleFormData = z.infer<typeof weekScheduleSchema>;
 export type TimeOffFormData = z.infer<typeof timeOffSchema>;
+export type TimeOffReviewData = z.infer<typeof timeOffReviewSchema>;
+export type ScheduleOverrideFormData = z.infer<typeof scheduleOverrideSchema>;
+export type HolidayFormData = z.input<typeof holidaySchema>;
 export type ScheduleSearchParams = z.input<typeof scheduleSearchSchema>;
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+export const servicePackageItemSchema = z.object({
+  serviceId: z.string().min(1, "Service is required"),
+  sessions: z
+    .number()
+    .int("Sessions must be a whole number")
+    .min(1, "Each service needs at least 1 session")
+    .max(100, "A package can include at most 100 sessions of a service"),
+});
+
+export const servicePackageSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Package name is required")
+    .max(100, "Package name must be less than 100 characters"),
+  description: z
+    .string()
+    .max(500, "Description must be less than 500 characters")
+    .optional()
+    .or(z.literal("")),
+  price: z
+    .number()
+    .min(0, "Price must be a positive number")
+    .max(100000, "Price must be less than $100,000"),
+  // Days from purchase until unused sessions expire; null = never
+  validityDays: z
+    .number()
+    .int("Validity must be a whole number of days")
+    .min(1, "Validity must be at least 1 day")
+    .max(3650, "Validity must be less than 10 years")
+    .nullable()
+    .optional(),
+  isActive: z.boolean().default(true),
+  items: z
+    .array(servicePackageItemSchema)
+    .min(1, "Add at least one service to the package"),
+}).refine(
+  (data) => new Set(data.items.map((i) => i.serviceId)).size === data.items.length,
+  { message: "Each service can only appear once in a package" }
+);
+
+export type ServicePackageFormData = z.infer<typeof servicePackageSchema>;
+export type ServicePackageFormInput = z.input<typeof servicePackageSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { AmountType } from "@prisma/client";
 
 export const serviceSchema = z.object({
   name: z
@@ -35,13 +36,41 @@ export const serviceSchema = z.object({
     .max(50, "Category must be less than 50 characters")
     .optional()
     .or(z.literal("")),
+  taxClassId: z.string().min(1).nullable().optional(), // Null = the standard tax rate
   isActive: z.boolean().default(true),
+  // Deposit taken at booking; null = no deposit
+  depositType: z.nativeEnum(AmountType).nullable().optional(),
+  depositValue: z
+    .number()
+    .min(0, "Deposit must be a positive number")
+    .max(10000, "Deposit must be less than $10,000")
+    .optional(),
 });
 
 export const serviceUpdateSchema = serviceSchema.partial().extend({
   id: z.string().min(1, "Service ID is required"),
 });
 
+export const serviceRecipeSchema = z.object({
+  serviceId: z.string().min(1, "Service ID is required"),
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1, "Product is required"),
+        quantity: z
+          .number()
+          .positive("Quantity must be more than zero")
+          .max(1000, "Quantity must be less than 1,000")
+          .refine((n) => Math.abs(n * 1000 - Math.round(n * 1000)) < 1e-6, "Quantity can have at most 3 decimal places"),
+      })
+    )
+    .max(50, "A recipe can have at most 50 products")
+    .refine(
+      (items) => new Set(items.map((i) => i.productId)).size === items.length,
+      "Each product can only be in the recipe once"
+    ),
+});
+
 export const serviceSearchSchema = z.object({
   query: z.string().optional(),
   category: z.string().optional(),
@@ -53,4 +82,5 @@ export const serviceSearchSchema = z.object({
 export type ServiceFormData = z.infer<typeof serviceSchema>;
 export type ServiceFormInput = z.input<typeof serviceSchema>;
 export type ServiceUpdateData = z.infer<typeof serviceUpdateSchema>;
+export type ServiceRecipeInput = z.infer<typeof serviceRecipeSchema>;
 export type ServiceSearchParams = z.input<typeof serviceSearchSchema>;
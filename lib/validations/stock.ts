@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// Movements entered by hand; sales and refunds are recorded by checkout
+export const MANUAL_STOCK_MOVEMENT_TYPES = ["RECEIPT", "ADJUSTMENT", "DAMAGE", "TRANSFER", "BACKBAR_USE"] as const;
+
+export const stockAdjustmentSchema = z
+  .object({
+    productId: z.string().min(1, "Product is required"),
+    type: z.enum(MANUAL_STOCK_MOVEMENT_TYPES),
+    quantity: z
+      .number()
+      .int("Quantity must be a whole number")
+      .refine((n) => n !== 0, "Quantity cannot be zero")
+      .refine((n) => Math.abs(n) <= 100000, "Quantity must be less than 100,000"), // Signed: positive adds to stock
+    reason: z
+      .string()
+      .trim()
+      .min(1, "Reason is required")
+      .max(200, "Reason must be less than 200 characters"),
+  })
+  .refine((data) => data.type !== "RECEIPT" || data.quantity > 0, {
+    message: "A delivery can only add stock",
+    path: ["quantity"],
+  })
+  .refine((data) => !["DAMAGE", "BACKBAR_USE"].includes(data.type) || data.quantity < 0, {
+    message: "Damage and backbar use can only remove stock",
+    path: ["quantity"],
+  });
+
+export const stockMovementSearchSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  page: z.number().int().positive().optional(),
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+export type StockAdjustmentInput = z.input<typeof stockAdjustmentSchema>;
+export type StockMovementSearchParams = z.input<typeof stockMovementSearchSchema>;
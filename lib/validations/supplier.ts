@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+const optionalDays = z
+  .number()
+  .int("Days must be a whole number")
+  .min(0, "Days cannot be negative")
+  .max(365, "Days must be 365 or less")
+  .nullable()
+  .default(null);
+
+export const supplierSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Supplier name is required")
+    .max(100, "Supplier name must be less than 100 characters"),
+  contactName: z
+    .string()
+    .max(100, "Contact name must be less than 100 characters")
+    .optional()
+    .or(z.literal("")),
+  email: z
+    .string()
+    .email("Invalid email address")
+    .optional()
+    .or(z.literal("")),
+  phone: z
+    .string()
+    .max(30, "Phone must be less than 30 characters")
+    .optional()
+    .or(z.literal("")),
+  address: z
+    .string()
+    .max(300, "Address must be less than 300 characters")
+    .optional()
+    .or(z.literal("")),
+  leadTimeDays: optionalDays,
+  paymentTermsDays: optionalDays,
+  notes: z
+    .string()
+    .max(500, "Notes must be less than 500 characters")
+    .optional()
+    .or(z.literal("")),
+});
+
+export type SupplierInput = z.input<typeof supplierSchema>;
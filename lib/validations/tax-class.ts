@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+export const taxClassSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(50, "Name must be less than 50 characters"),
+  rate: z
+    .number()
+    .min(0, "Rate cannot be negative")
+    .max(100, "Rate cannot be more than 100%"),
+  pricesIncludeTax: z.boolean().default(false),
+});
+
+export type TaxClassFormData = z.infer<typeof taxClassSchema>;
+export type TaxClassFormInput = z.input<typeof taxClassSchema>;
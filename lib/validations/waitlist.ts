@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { TimeOfDay } from "@prisma/client";
+
+// Calendar day validation (yyyy-MM-dd, salon-local)
+const dayRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+// Schema for adding a client to the waitlist
+export const waitlistEntrySchema = z.object({
+  clientId: z.string().min(1, "Client is required"),
+  serviceId: z.string().min(1, "Service is required"),
+  staffId: z.string().optional().or(z.literal("")), // Empty = any staff member
+  earliestDate: z.string().regex(dayRegex, "Earliest date is required"),
+  latestDate: z.string().regex(dayRegex, "Latest date is required"),
+  timePreferences: z.array(z.nativeEnum(TimeOfDay)).default([]),
+  priority: z.coerce.number().int().min(0, "Priority cannot be negative").max(10, "Priority must be at most 10").default(0),
+  notes: z
+    .string()
+    .max(500, "Notes must be less than 500 characters")
+    .optional()
+    .or(z.literal("")),
+}).refine(
+  (data) => data.latestDate >= data.earliestDate,
+  {
+    message: "Latest date must be on or after earliest date",
+    path: ["latestDate"],
+  }
+);
+
+// Schema for reprioritizing an entry or editing its notes
+export const waitlistUpdateSchema = z.object({
+  id: z.string().min(1, "Waitlist entry is required"),
+  priority: z.coerce.number().int().min(0, "Priority cannot be negative").max(10, "Priority must be at most 10"),
+  notes: z
+    .string()
+    .max(500, "Notes must be less than 500 characters")
+    .optional()
+    .or(z.literal("")),
+});
+
+// Types
+export type WaitlistEntryFormData = z.input<typeof waitlistEntrySchema>;
+export type WaitlistUpdateFormData = z.input<typeof waitlistUpdateSchema>;
@@ -0,0 +1,289 @@
+import "server-only";
+import { Prisma, TimeOfDay, WaitlistOffer } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { sendEmail } from "@/lib/email";
+import { sendSms } from "@/lib/sms";
+import { waitlistOfferEmailHtml } from "@/lib/email-templates";
+import { computeAvailableSlots, dayToDate, DEFAULT_SLOT_SETTINGS } from "@/lib/availability";
+import { getWaitlistOfferUrl } from "@/lib/appointment-links";
+import { formatDateOnly, formatInTz } from "@/lib/utils/timezone";
+
+/**
+ * Waitlist matching. When an appointment is cancelled the freed time is
+ * offered to waitlisted clients in priority order; each offer holds the slot
+ * for the salon's waitlist hold period. If the client declines or the hold
+ * lapses, the slot moves on to the next matching entry.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+export interface FreedSlot {
+  salonId: string;
+  staffId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+const offerEntryInclude = Prisma.validator<Prisma.WaitlistEntryInclude>()({
+  client: { select: { firstName: true, email: true, phone: true } },
+  service: { select: { name: true, duration: true } },
+});
+
+type OfferEntry = Prisma.WaitlistEntryGetPayload<{ include: typeof offerEntryInclude }>;
+
+interface OfferContext {
+  salonName: string;
+  salonAddress: string | null;
+  staffName: string;
+  timezone: string;
+  smsEnabled: boolean;
+}
+
+/** The time-of-day bucket a salon-local start time falls into. */
+export function getTimeOfDay(date: Date, timezone: string): TimeOfDay {
+  const hour = Number(formatInTz(date, "H", timezone));
+  if (hour < 12) return "MORNING";
+  if (hour < 17) return "AFTERNOON";
+  return "EVENING";
+}
+
+// Clients are only offered slots when they can actually be told about them
+function canNotify(entry: OfferEntry, ctx: OfferContext): boolean {
+  return !!entry.client.email || (ctx.smsEnabled && !!entry.client.phone);
+}
+
+async function notifyOffer(offer: WaitlistOffer, entry: OfferEntry, ctx: OfferContext): Promise<void> {
+  const claimUrl = getWaitlistOfferUrl(offer.id, offer.expiresAt);
+  const dateTime = formatInTz(offer.startTime, "EEEE, MMMM d 'at' h:mm a", ctx.timezone);
+  const holdUntil = formatInTz(offer.expiresAt, "MMM d, h:mm a", ctx.timezone);
+
+  if (entry.client.email) {
+    try {
+      await sendEmail({
+        to: entry.client.email,
+        subject: `An appointment opened up at ${ctx.salonName}`,
+        html: waitlistOfferEmailHtml({
+          salonName: ctx.salonName,
+          clientName: entry.client.firstName,
+          serviceName: entry.service.name,
+          staffName: ctx.staffName,
+          dateTime,
+          holdUntil,
+          salonAddress: ctx.salonAddress,
+          claimUrl,
+        }),
+        salonName: ctx.salonName,
+      });
+    } catch (error) {
+      console.error("Error sending waitlist offer email:", error);
+    }
+  }
+
+  if (ctx.smsEnabled && entry.client.phone) {
+    try {
+      await sendSms({
+        to: entry.client.phone,
+        body:
+          `Hi ${entry.client.firstName}, a ${entry.service.name} appointment with ${ctx.staffName} ` +
+          `at ${ctx.salonName} opened up for ${dateTime}. We're holding it until ${holdUntil}: ${claimUrl}`,
+      });
+    } catch (error) {
+      console.error("Error sending waitlist offer SMS:", error);
+    }
+  }
+}
+
+async function matchFreedSlot(slot: FreedSlot): Promise<number> {
+  const { salonId, staffId } = slot;
+  const now = new Date();
+  const windowStart = Math.max(slot.startTime.getTime(), now.getTime());
+  if (slot.endTime.getTime() <= windowStart) return 0;
+
+  const [salon, membership] = await Promise.all([
+    prisma.salon.findUnique({
+      where: { id: salonId },
+      select: { name: true, address: true, settings: true },
+    }),
+    prisma.userSalon.findUnique({
+      where: { userId_salonId: { userId: staffId, salonId } },
+      select: { isActive: true, user: { select: { firstName: true, lastName: true, isActive: true } } },
+    }),
+  ]);
+
+  if (!salon || !membership?.isActive || !membership.user.isActive) return 0;
+
+  const settings = salon.settings;
+  const slotSettings = settings ?? DEFAULT_SLOT_SETTINGS;
+  const tz = slotSettings.timezone;
+  const day = formatInTz(new Date(windowStart), "yyyy-MM-dd", tz);
+  const ctx: OfferContext = {
+    salonName: settings?.salonName ?? salon.name,
+    salonAddress: settings?.salonAddress ?? salon.address,
+    staffName: `${membership.user.firstName} ${membership.user.lastName}`,
+    timezone: tz,
+    smsEnabled: settings?.smsRemindersEnabled ?? false,
+  };
+  const holdMs = (settings?.waitlistHoldMinutes ?? 30) * MINUTE_MS;
+
+  const candidates = await prisma.waitlistEntry.findMany({
+    where: {
+      salonId,
+      status: "WAITING",
+      earliestDate: { lte: dayToDate(day) },
+      latestDate: { gte: dayToDate(day) },
+      OR: [{ staffId: null }, { staffId }],
+      client: { isActive: true },
+      service: { isActive: true },
+      // Clients who already passed on this time aren't offered it again
+      offers: { none: { staffId, startTime: { lt: slot.endTime }, endTime: { gt: slot.startTime } } },
+    },
+    include: offerEntryInclude,
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+  });
+
+  let offered = 0;
+  for (const entry of candidates) {
+    if (!canNotify(entry, ctx)) continue;
+
+    // Earlier offers are held, so later entries only see what is still free
+    const slots = await computeAvailableSlots({
+      salonId,
+      staffId,
+      day,
+      duration: entry.service.duration,
+      settings: slotSettings,
+    });
+    const match = slots.find(
+      (s) =>
+        s.startTime.getTime() >= windowStart &&
+        s.startTime < slot.endTime &&
+        (entry.timePreferences.length === 0 || entry.timePreferences.includes(getTimeOfDay(s.startTime, tz)))
+    );
+    if (!match) continue;
+
+    const expiresAt = new Date(Math.min(now.getTime() + holdMs, match.startTime.getTime()));
+    const offer = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.waitlistEntry.updateMany({
+        where: { id: entry.id, status: "WAITING" },
+        data: { status: "OFFERED" },
+      });
+      if (claimed.count === 0) return null;
+
+      return tx.waitlistOffer.create({
+        data: {
+          salonId,
+          entryId: entry.id,
+          staffId,
+          startTime: match.startTime,
+          endTime: match.endTime,
+          expiresAt,
+        },
+      });
+    });
+    if (!offer) continue;
+
+    offered++;
+    await notifyOffer(offer, entry, ctx);
+  }
+
+  return offered;
+}
+
+/**
+ * Offer freed time to matching waitlist entries: same salon, the day inside
+ * the entry's date window, no preferred staff or the same staff member, and
+ * a start time in one of the entry's preferred parts of the day. Never
+ * throws — a cancellation stands even if matching fails.
+ */
+export async function offerFreedSlot(slot: FreedSlot): Promise<number> {
+  try {
+    return await matchFreedSlot(slot);
+  } catch (error) {
+    console.error("Error offering freed slot to waitlist:", error);
+    return 0;
+  }
+}
+
+/**
+ * End a pending offer without a booking and pass the slot on. The entry goes
+ * back to waiting unless it was cancelled in the meantime.
+ */
+export async function releaseWaitlistOffer(
+  offerId: string,
+  status: "DECLINED" | "EXPIRED"
+): Promise<boolean> {
+  const offer = await prisma.waitlistOffer.findUnique({ where: { id: offerId } });
+  if (!offer) return false;
+
+  const released = await prisma.$transaction(async (tx) => {
+    const updated = await tx.waitlistOffer.updateMany({
+      where: { id: offerId, status: "PENDING" },
+      data: { status, ...(status === "DECLINED" && { respondedAt: new Date() }) },
+    });
+    if (updated.count === 0) return false;
+
+    await tx.waitlistEntry.updateMany({
+      where: { id: offer.entryId, status: "OFFERED" },
+      data: { status: "WAITING" },
+    });
+    return true;
+  });
+
+  if (released) {
+    await offerFreedSlot({
+      salonId: offer.salonId,
+      staffId: offer.staffId,
+      startTime: offer.startTime,
+      endTime: offer.endTime,
+    });
+  }
+  return released;
+}
+
+/**
+ * Release offers whose hold has lapsed and expire entries whose date window
+ * is over (in each salon's timezone). Run periodically from cron.
+ */
+export async function expireWaitlist(salonId?: string): Promise<{
+  expiredOffers: number;
+  expiredEntries: number;
+}> {
+  const now = new Date();
+
+  const lapsed = await prisma.waitlistOffer.findMany({
+    where: { status: "PENDING", expiresAt: { lte: now }, ...(salonId && { salonId }) },
+    select: { id: true },
+    orderBy: { expiresAt: "asc" },
+  });
+
+  let expiredOffers = 0;
+  for (const offer of lapsed) {
+    if (await releaseWaitlistOffer(offer.id, "EXPIRED")) expiredOffers++;
+  }
+
+  // latestDate is stored as midnight UTC, so this pre-filter never drops a current entry
+  const stale = await prisma.waitlistEntry.findMany({
+    where: { status: "WAITING", latestDate: { lt: now }, ...(salonId && { salonId }) },
+    select: {
+      id: true,
+      latestDate: true,
+      salon: { select: { settings: { select: { timezone: true } } } },
+    },
+  });
+
+  const expiredIds = stale
+    .filter((entry) => {
+      const today = formatInTz(now, "yyyy-MM-dd", entry.salon.settings?.timezone ?? "UTC");
+      return formatDateOnly(entry.latestDate, "yyyy-MM-dd") < today;
+    })
+    .map((entry) => entry.id);
+
+  const expiredEntries = expiredIds.length === 0
+    ? 0
+    : (await prisma.waitlistEntry.updateMany({
+        where: { id: { in: expiredIds }, status: "WAITING" },
+        data: { status: "EXPIRED" },
+      })).count;
+
+  return { expiredOffers, expiredEntries };
+}
@@ -4,6 +4,9 @@ import { NextResponse } from "next/server";
 // Routes that don't require authentication
 const publicRoutes = ["/", "/login"];
 
+// Route prefixes that are publicly accessible (client-facing pages)
+const publicPrefixes = ["/book/", "/appointment/", "/waitlist/"];
+
 // Routes that require SUPER_ADMIN
 const superAdminRoutes = ["/admin"];
 
@@ -24,6 +27,10 @@ export default auth((req) => {
     return NextResponse.next();
   }
 
+  if (publicPrefixes.some((prefix) => pathname.startsWith(prefix))) {
+    return NextResponse.next();
+  }
+
   // Redirect unauthenticated users to login
   if (!isLoggedIn) {
     const loginUrl = new URL("/login", nextUrl);